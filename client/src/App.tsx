@@ -42,6 +42,7 @@ const LoadDetailPage = lazy(() => import("@/pages/shipper").then(m => ({ default
 const TrackingPage = lazy(() => import("@/pages/shipper").then(m => ({ default: m.TrackingPage })));
 const DeliveredLoadsPage = lazy(() => import("@/pages/shipper").then(m => ({ default: m.DeliveredLoadsPage })));
 const ShipperDocumentsPage = lazy(() => import("@/pages/shipper").then(m => ({ default: m.ShipperDocumentsPage })));
+const RecurringLoadsPage = lazy(() => import("@/pages/shipper").then(m => ({ default: m.RecurringLoadsPage })));
 const ShipperInvoicesPage = lazy(() => import("@/pages/shipper").then(m => ({ default: m.ShipperInvoicesPage })));
 const ShipperOnboardingPage = lazy(() => import("@/pages/shipper").then(m => ({ default: m.ShipperOnboardingPage })));
 
@@ -84,6 +85,10 @@ const NegotiationInbox = lazy(() => import("@/pages/admin").then(m => ({ default
 const AdminOtpQueuePage = lazy(() => import("@/pages/admin").then(m => ({ default: m.AdminOtpQueuePage })));
 const AdminNearbyTrucksPage = lazy(() => import("@/pages/admin").then(m => ({ default: m.AdminNearbyTrucksPage })));
 const AdminPostLoadPage = lazy(() => import("@/pages/admin").then(m => ({ default: m.AdminPostLoadPage })));
+const AdminDieselIndexPage = lazy(() => import("@/pages/admin").then(m => ({ default: m.AdminDieselIndexPage })));
+const AdminSupportTicketsPage = lazy(() => import("@/pages/admin").then(m => ({ default: m.AdminSupportTicketsPage })));
+const AdminContractsPage = lazy(() => import("@/pages/admin").then(m => ({ default: m.AdminContractsPage })));
+const AdminConsolidationPage = lazy(() => import("@/pages/admin").then(m => ({ default: m.AdminConsolidationPage })));
 
 const FinanceDashboard = lazy(() => import("@/pages/finance/dashboard"));
 
@@ -256,6 +261,7 @@ function AppContent() {
                 <Route path="/shipper" component={() => <ShipperOnboardingGate><ShipperDashboard /></ShipperOnboardingGate>} />
                 <Route path="/shipper/post-load" component={() => <ShipperOnboardingGate><PostLoadPage /></ShipperOnboardingGate>} />
                 <Route path="/shipper/loads" component={() => <ShipperOnboardingGate><ShipperLoadsPage /></ShipperOnboardingGate>} />
+                <Route path="/shipper/recurring" component={() => <ShipperOnboardingGate><RecurringLoadsPage /></ShipperOnboardingGate>} />
                 <Route path="/shipper/loads/:id" component={() => <ShipperOnboardingGate><LoadDetailPage /></ShipperOnboardingGate>} />
                 <Route path="/shipper/tracking" component={() => <ShipperOnboardingGate><TrackingPage /></ShipperOnboardingGate>} />
                 <Route path="/shipper/delivered" component={() => <ShipperOnboardingGate><DeliveredLoadsPage /></ShipperOnboardingGate>} />
@@ -301,11 +307,15 @@ function AppContent() {
                 <Route path="/admin/revenue" component={RevenueDashboard} />
                 <Route path="/admin/revenue/:metric" component={RevenueDashboard} />
                 <Route path="/admin/nearby-trucks" component={AdminNearbyTrucksPage} />
+                <Route path="/admin/diesel-index" component={AdminDieselIndexPage} />
                 <Route path="/admin/verification" component={AdminCarrierVerificationPage} />
                 <Route path="/admin/onboarding" component={AdminOnboardingPage} />
                 <Route path="/admin/reports" component={AdminVolumeAnalytics} />
                 <Route path="/admin/invoices" component={AdminInvoicesPage} />
                 <Route path="/admin/otp-queue" component={AdminOtpQueuePage} />
+                <Route path="/admin/support-tickets" component={AdminSupportTicketsPage} />
+                <Route path="/admin/contracts" component={AdminContractsPage} />
+                <Route path="/admin/consolidation" component={AdminConsolidationPage} />
                 <Route path="/admin/live-tracking" component={AdminLiveTrackingPage} />
                 <Route path="/admin/finance-review" component={FinanceDashboard} />
                 
@@ -1,19 +1,38 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { createPortal } from "react-dom";
-import { MessageCircle, X, Send, Phone, Mail, Loader2, Minus, Bot } from "lucide-react";
+import { MessageCircle, X, Send, Phone, Mail, Loader2, Minus, Bot, LifeBuoy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
+import { onMarketplaceEvent } from "@/lib/marketplace-socket";
 
 interface ChatMessage {
   id: string;
-  role: "user" | "assistant";
+  role: "user" | "assistant" | "agent";
   content: string;
   timestamp: Date;
   isError?: boolean;
 }
 
+interface TicketSummary {
+  id: string;
+  ticketNumber: number;
+  status: string;
+}
+
+const TICKET_POLL_MS = 15000;
+const ACTIVE_TICKET_STATUSES = ["open", "in_progress", "waiting_on_user"];
+const TICKET_CATEGORIES = [
+  { value: "load", label: "Load / shipment" },
+  { value: "invoice", label: "Invoice" },
+  { value: "payment", label: "Payment" },
+  { value: "verification", label: "Verification" },
+  { value: "account", label: "Account" },
+  { value: "technical", label: "Technical issue" },
+  { value: "other", label: "Something else" },
+];
+
 export function HelpBotWidget() {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -22,6 +41,10 @@ export function HelpBotWidget() {
   const [conversationId, setConversationId] = useState<number | null>(null);
   const [showContactInfo, setShowContactInfo] = useState(false);
   const [streamError, setStreamError] = useState(false);
+  const [ticket, setTicket] = useState<TicketSummary | null>(null);
+  const [ticketCategory, setTicketCategory] = useState("other");
+  const [isEscalating, setIsEscalating] = useState(false);
+  const [escalateError, setEscalateError] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   const [btnPos, setBtnPos] = useState({ right: 24, bottom: 24 });
@@ -73,6 +96,72 @@ export function HelpBotWidget() {
     }
   }, [messages]);
 
+  // Reload the transcript from the server; support replies only exist there
+  const syncConversation = useCallback(async (id: number) => {
+    try {
+      const response = await fetch(`/api/helpbot/conversations/${id}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setTicket(data.ticket);
+      setMessages(
+        (data.messages || []).map((m: { id: number; role: ChatMessage["role"]; content: string; createdAt: string }) => ({
+          id: `server-${m.id}`,
+          role: m.role,
+          content: m.content,
+          timestamp: new Date(m.createdAt),
+        }))
+      );
+    } catch (error) {
+      console.error("Conversation sync error:", error);
+    }
+  }, []);
+
+  const ticketActive = !!ticket && ACTIVE_TICKET_STATUSES.includes(ticket.status);
+
+  useEffect(() => {
+    if (!conversationId || !ticketActive || !isOpen) return;
+
+    const interval = setInterval(() => {
+      if (!isLoading) syncConversation(conversationId);
+    }, TICKET_POLL_MS);
+    const unsubscribe = onMarketplaceEvent("support_reply", (data) => {
+      if (data.conversationId === conversationId) syncConversation(conversationId);
+    });
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [conversationId, ticketActive, isOpen, isLoading, syncConversation]);
+
+  const escalateToSupport = useCallback(async () => {
+    if (!conversationId || isEscalating) return;
+    setIsEscalating(true);
+    setEscalateError(null);
+    try {
+      const response = await fetch("/api/support/tickets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conversationId, category: ticketCategory }),
+      });
+      if (response.status === 401) {
+        setEscalateError("Please sign in so our support team can follow up with you.");
+        return;
+      }
+      const data = await response.json();
+      if (!response.ok) {
+        setEscalateError(data.error || "Couldn't open a ticket. Please try again.");
+        return;
+      }
+      setShowContactInfo(false);
+      await syncConversation(conversationId);
+    } catch (error) {
+      console.error("Escalation error:", error);
+      setEscalateError("Couldn't open a ticket. Please try again.");
+    } finally {
+      setIsEscalating(false);
+    }
+  }, [conversationId, ticketCategory, isEscalating, syncConversation]);
+
   const sendMessage = useCallback(async () => {
     if (!input.trim() || isLoading) return;
 
@@ -90,6 +179,8 @@ export function HelpBotWidget() {
 
     const assistantId = `assistant-${Date.now()}`;
     let assistantContent = "";
+    let ticketUpdate: TicketSummary | null = null;
+    let streamConversationId = conversationId;
 
     try {
       const response = await fetch("/api/helpbot/chat", {
@@ -126,9 +217,15 @@ export function HelpBotWidget() {
               const data = JSON.parse(line.slice(6));
               
               if (data.conversationId && !conversationId) {
+                streamConversationId = data.conversationId;
                 setConversationId(data.conversationId);
               }
               
+              if (data.ticket) {
+                ticketUpdate = data.ticket;
+                setTicket(data.ticket);
+              }
+
               if (data.error) {
                 setStreamError(true);
                 setMessages((prev) =>
@@ -160,8 +257,13 @@ export function HelpBotWidget() {
         }
       }
 
-      // Handle case where stream ends with empty content
-      if (!assistantContent && !streamError) {
+      // With a ticket open the message went to the support team, not the bot
+      if (!assistantContent && ticketUpdate) {
+        setMessages((prev) => prev.filter((m) => m.id !== assistantId));
+      } else if (ticketUpdate && !ticketActive && streamConversationId) {
+        // The bot escalated this turn; pick up the ticket notice it left
+        await syncConversation(streamConversationId);
+      } else if (!assistantContent && !streamError) {
         setMessages((prev) =>
           prev.map((m) =>
             m.id === assistantId
@@ -196,7 +298,7 @@ export function HelpBotWidget() {
     } finally {
       setIsLoading(false);
     }
-  }, [input, isLoading, conversationId, streamError]);
+  }, [input, isLoading, conversationId, streamError, ticketActive, syncConversation]);
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
@@ -210,6 +312,8 @@ export function HelpBotWidget() {
     setConversationId(null);
     setShowContactInfo(false);
     setStreamError(false);
+    setTicket(null);
+    setEscalateError(null);
   };
 
   const handleClose = () => {
@@ -290,7 +394,9 @@ export function HelpBotWidget() {
                 <span className="font-semibold text-white text-lg">Priya</span>
                 <div className="flex items-center gap-1.5">
                   <div className="h-2 w-2 rounded-full bg-green-400 animate-pulse" />
-                  <span className="text-xs text-[#667D9D]">Online</span>
+                  <span className="text-xs text-[#667D9D]" data-testid="text-helpbot-status">
+                    {ticketActive ? `Support ticket #${ticket!.ticketNumber}` : "Online"}
+                  </span>
                 </div>
               </div>
             </div>
@@ -391,12 +497,20 @@ export function HelpBotWidget() {
                                 border: '1px solid rgba(239, 68, 68, 0.3)',
                                 color: '#fca5a5'
                               }
+                            : message.role === "agent"
+                            ? {
+                                background: 'rgba(34, 197, 94, 0.12)',
+                                border: '1px solid rgba(34, 197, 94, 0.3)'
+                              }
                             : {
                                 background: 'rgba(22, 37, 79, 0.6)',
                                 border: '1px solid rgba(0, 191, 255, 0.15)'
                               }
                       }
                     >
+                      {message.role === "agent" && (
+                        <p className="text-xs font-medium mb-1 text-green-400">Support team</p>
+                      )}
                       <p className={cn(
                         "text-sm whitespace-pre-wrap",
                         message.role === "user" ? "text-white" : message.isError ? "" : "text-[#ACBBC6]"
@@ -446,6 +560,40 @@ export function HelpBotWidget() {
                   <span>support@loadsmart.in</span>
                 </div>
               </div>
+              {conversationId && !ticketActive && (
+                <div className="flex items-center gap-2 mt-3">
+                  <select
+                    value={ticketCategory}
+                    onChange={(e) => setTicketCategory(e.target.value)}
+                    className="flex-1 rounded-lg px-2 py-1.5 text-xs text-white outline-none"
+                    style={{
+                      background: 'rgba(22, 37, 79, 0.6)',
+                      border: '1px solid rgba(0, 191, 255, 0.2)'
+                    }}
+                    data-testid="select-helpbot-ticket-category"
+                  >
+                    {TICKET_CATEGORIES.map((category) => (
+                      <option key={category.value} value={category.value}>{category.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                    style={{
+                      background: 'rgba(0, 191, 255, 0.1)',
+                      color: '#00BFFF'
+                    }}
+                    onClick={escalateToSupport}
+                    disabled={isEscalating}
+                    data-testid="button-helpbot-escalate"
+                  >
+                    {isEscalating ? <Loader2 className="h-3 w-3 animate-spin" /> : <LifeBuoy className="h-3 w-3" />}
+                    Talk to support
+                  </button>
+                </div>
+              )}
+              {escalateError && (
+                <p className="text-xs mt-2" style={{ color: '#fca5a5' }}>{escalateError}</p>
+              )}
             </div>
           )}
 
@@ -493,7 +641,7 @@ export function HelpBotWidget() {
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   onKeyPress={handleKeyPress}
-                  placeholder="Type your message..."
+                  placeholder={ticketActive ? "Reply to the support team..." : "Type your message..."}
                   disabled={isLoading}
                   className="w-full bg-transparent px-4 py-3 text-sm text-white placeholder-[#667D9D] outline-none"
                   data-testid="input-helpbot-message"
@@ -0,0 +1,288 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Trophy, AlertTriangle, Zap, Check } from "lucide-react";
+
+interface BidScoreComponent {
+  key: string;
+  points: number;
+  maxPoints: number;
+  explanation: string;
+}
+
+interface BidScore {
+  bidId: string;
+  carrierName: string;
+  status: string;
+  landedCost: number;
+  deltaPercent: number | null;
+  totalScore: number;
+  rank: number;
+  components: BidScoreComponent[];
+  disqualified: boolean;
+  withinBand: boolean;
+}
+
+interface LoadBidEvaluation {
+  loadId: string;
+  targetPrice: number | null;
+  scores: BidScore[];
+  recommendedBidId: string | null;
+  settings: AutoAwardSettings;
+}
+
+interface AutoAwardSettings {
+  enabled: boolean;
+  bandPercent: number | string;
+  minScore: number;
+}
+
+const COMPONENT_LABELS: Record<string, string> = {
+  price: "Price",
+  reliability: "Reliability",
+  on_time: "On-time",
+  compliance: "Documents",
+  truck_fit: "Truck fit",
+  lane_history: "Lane history",
+};
+
+interface BidEvaluationDialogProps {
+  loadId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onAccept?: (bidId: string, landedCost: number) => void;
+}
+
+export function BidEvaluationDialog({ loadId, onOpenChange, onAccept }: BidEvaluationDialogProps) {
+  const { toast } = useToast();
+
+  const { data: evaluation, isLoading } = useQuery<LoadBidEvaluation>({
+    queryKey: ["/api/admin/negotiations", loadId, "evaluation"],
+    enabled: !!loadId,
+  });
+
+  const autoAwardMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/negotiations/${loadId}/auto-award`);
+      return response.json() as Promise<{ awarded: boolean; reason: string }>;
+    },
+    onSuccess: (decision) => {
+      toast({ title: decision.awarded ? "Load Awarded" : "Not Awarded", description: decision.reason });
+      queryClient.invalidateQueries({ queryKey: ["/api/bids"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/negotiations", loadId, "evaluation"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Auto-award failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!loadId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Bid Ranking
+          </DialogTitle>
+          <DialogDescription>
+            {evaluation?.targetPrice
+              ? `Scored out of 100 against the target price of Rs. ${evaluation.targetPrice.toLocaleString("en-IN")}`
+              : "Scored out of 100; no target price set, so price is compared with the lowest bid"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !evaluation ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : evaluation.scores.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No open bids on this load</p>
+        ) : (
+          <div className="space-y-3">
+            {evaluation.scores.map((score) => (
+              <Card
+                key={score.bidId}
+                className={score.bidId === evaluation.recommendedBidId ? "border-green-500" : undefined}
+                data-testid={`card-bid-score-${score.bidId}`}
+              >
+                <CardContent className="pt-4 space-y-3">
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant="outline">#{score.rank}</Badge>
+                      <span className="font-medium">{score.carrierName}</span>
+                      <span className="text-sm text-muted-foreground">
+                        Rs. {score.landedCost.toLocaleString("en-IN")}
+                        {score.deltaPercent !== null && ` (${score.deltaPercent > 0 ? "+" : ""}${score.deltaPercent}%)`}
+                      </span>
+                      {score.bidId === evaluation.recommendedBidId && (
+                        <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">Recommended</Badge>
+                      )}
+                      {score.disqualified && (
+                        <Badge variant="destructive" className="gap-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          Expired documents
+                        </Badge>
+                      )}
+                    </div>
+                    <span className="text-lg font-bold" data-testid={`text-bid-score-${score.bidId}`}>{score.totalScore}</span>
+                  </div>
+                  <div className="space-y-2">
+                    {score.components.map((component) => (
+                      <div key={component.key} className="grid grid-cols-[90px_1fr_48px] items-center gap-2 text-sm">
+                        <span className="text-muted-foreground">{COMPONENT_LABELS[component.key] || component.key}</span>
+                        <div className="space-y-1">
+                          <Progress value={(component.points / component.maxPoints) * 100} className="h-1.5" />
+                          <p className="text-xs text-muted-foreground">{component.explanation}</p>
+                        </div>
+                        <span className="text-right text-xs">{component.points}/{component.maxPoints}</span>
+                      </div>
+                    ))}
+                  </div>
+                  {onAccept && !score.disqualified && (
+                    <div className="flex justify-end">
+                      <Button
+                        size="sm"
+                        variant={score.bidId === evaluation.recommendedBidId ? "default" : "outline"}
+                        onClick={() => onAccept(score.bidId, score.landedCost)}
+                        data-testid={`button-accept-ranked-${score.bidId}`}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Accept
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+
+            {evaluation.settings.enabled && (
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => autoAwardMutation.mutate()}
+                  disabled={autoAwardMutation.isPending}
+                  data-testid="button-run-auto-award"
+                >
+                  {autoAwardMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Zap className="h-4 w-4 mr-2" />}
+                  Run auto-award now
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function AutoAwardSettingsCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState({ enabled: false, bandPercent: "0", minScore: "70" });
+
+  const { data: settings } = useQuery<AutoAwardSettings>({
+    queryKey: ["/api/admin/bid-auto-award"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        enabled: !!settings.enabled,
+        bandPercent: String(parseFloat(String(settings.bandPercent ?? 0))),
+        minScore: String(settings.minScore ?? 70),
+      });
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: typeof form) => {
+      const response = await apiRequest("PUT", "/api/admin/bid-auto-award", {
+        enabled: next.enabled,
+        bandPercent: next.bandPercent,
+        minScore: next.minScore,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bid-auto-award"] });
+      toast({ title: "Auto-award settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Zap className="h-4 w-4" />
+          Auto-Award
+        </CardTitle>
+        <CardDescription>
+          When a bid arrives, award the best-ranked bid if its landed cost is within the band of the load's final price
+          and its score clears the minimum. Every decision is recorded in the audit log.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end gap-4 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="auto-award-enabled"
+              checked={form.enabled}
+              onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+              data-testid="switch-auto-award"
+            />
+            <Label htmlFor="auto-award-enabled">Enabled</Label>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auto-award-band">Band (% over final price)</Label>
+            <Input
+              id="auto-award-band"
+              type="number"
+              step="0.5"
+              className="w-32"
+              value={form.bandPercent}
+              onChange={(e) => setForm({ ...form, bandPercent: e.target.value })}
+              data-testid="input-auto-award-band"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auto-award-min-score">Minimum score</Label>
+            <Input
+              id="auto-award-min-score"
+              type="number"
+              min="0"
+              max="100"
+              className="w-32"
+              value={form.minScore}
+              onChange={(e) => setForm({ ...form, minScore: e.target.value })}
+              data-testid="input-auto-award-min-score"
+            />
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate(form)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-auto-award"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
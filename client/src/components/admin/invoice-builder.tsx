@@ -24,7 +24,7 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient, generateIdempotencyKey } from "@/lib/queryClient";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
   FileText,
   Plus,
@@ -41,6 +41,7 @@ import {
   Package,
   Users,
   CheckCircle,
+  Fuel,
 } from "lucide-react";
 
 interface LineItem {
@@ -76,6 +77,18 @@ interface PricingBreakdown {
   adminFee?: number;
 }
 
+interface DieselAdjustment {
+  region: string;
+  distanceKm: number;
+  mileageKmpl: number;
+  litres: number;
+  priceDelta: number;
+  adjustment: number;
+  provisional: boolean;
+  pricingIndex: { region: string; pricePerLitre: number; effectiveDate: string } | null;
+  pickupIndex: { region: string; pricePerLitre: number; effectiveDate: string } | null;
+}
+
 interface InvoiceBuilderProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -194,6 +207,39 @@ export function InvoiceBuilder({
     }
   }, [open, load, pricing]);
 
+  // Diesel index movement between pricing and pickup
+  const { data: diesel } = useQuery<DieselAdjustment>({
+    queryKey: ["/api/admin/loads", load?.id, "diesel-adjustment"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/loads/${load?.id}/diesel-adjustment`);
+      return response.json();
+    },
+    enabled: open && !!load?.id,
+  });
+
+  useEffect(() => {
+    if (!open || !diesel || diesel.adjustment === 0) return;
+    setLineItems((items) => {
+      if (items.some((item) => item.code === "DIESEL")) return items;
+      return [
+        ...items,
+        {
+          code: "DIESEL",
+          description: `Diesel Price Adjustment (${diesel.litres} L x Rs. ${diesel.priceDelta.toFixed(2)}/L)`,
+          quantity: 1,
+          unitPrice: diesel.adjustment,
+          amount: diesel.adjustment,
+        },
+      ];
+    });
+  }, [open, diesel]);
+
+  const dieselAdjustment = useMemo(() => {
+    return lineItems
+      .filter((item) => item.code === "DIESEL")
+      .reduce((sum, item) => sum + item.amount, 0);
+  }, [lineItems]);
+
   const subtotal = useMemo(() => {
     return lineItems.reduce((sum, item) => sum + item.amount, 0);
   }, [lineItems]);
@@ -262,6 +308,7 @@ export function InvoiceBuilder({
         subtotal: subtotal.toString(),
         discountAmount: discountAmount.toString(),
         discountReason,
+        dieselAdjustment: dieselAdjustment.toString(),
         taxPercent: "0",
         taxAmount: "0",
         totalAmount: totalAmount.toString(),
@@ -310,51 +357,45 @@ export function InvoiceBuilder({
     return null;
   };
 
+  // The tab is opened in the click handler (popup blockers allow that) and
+  // pointed at the PDF once it has been generated
+  const downloadPdfMutation = useMutation({
+    mutationFn: async (_pdfWindow: Window | null) => {
+      return apiRequest("POST", `/api/admin/invoices/${invoiceId}/pdf`);
+    },
+    onSuccess: (_data, pdfWindow) => {
+      const pdfUrl = `/api/invoices/${invoiceId}/pdf`;
+      if (pdfWindow) {
+        pdfWindow.location.href = pdfUrl;
+      } else {
+        // Blocked anyway: download in place, which leaves this page as it is
+        window.location.assign(`${pdfUrl}?download=1`);
+      }
+      toast({
+        title: "Invoice PDF Ready",
+        description: "The GST tax invoice has been generated.",
+      });
+    },
+    onError: (error: Error, pdfWindow) => {
+      pdfWindow?.close();
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate invoice PDF",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleDownloadPDF = () => {
-    const invoiceNumber = invoiceId ? `MM-${invoiceId.slice(-8).toUpperCase()}` : `MM-DRAFT-${Date.now()}`;
-    const content = `
-INVOICE
-========================================
-Invoice Number: ${invoiceNumber}
-Date: ${new Date().toLocaleDateString('en-IN')}
-Due Date: ${paymentTerms}
-
-FROM: Load Smart Platform
-TO: Shipper ID ${load?.shipperId || 'N/A'}
-
-LOAD DETAILS:
-Route: ${load?.pickupCity} to ${load?.dropoffCity}
-Weight: ${load?.weight} ${load?.weightUnit || 'tons'}
-Truck Type: ${load?.requiredTruckType}
-
-LINE ITEMS:
-${lineItems.map(item => `${item.code} - ${item.description}: Rs. ${item.amount.toLocaleString('en-IN')}`).join('\n')}
-
-----------------------------------------
-Subtotal: Rs. ${subtotal.toLocaleString('en-IN')}
-${discountAmount > 0 ? `Discount: Rs. ${discountAmount.toLocaleString('en-IN')}\n` : ''}----------------------------------------
-TOTAL: Rs. ${totalAmount.toLocaleString('en-IN')}
-========================================
-
-${notes ? `Notes: ${notes}` : ''}
-
-Thank you for your business!
-    `;
-    
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${invoiceNumber}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Invoice Downloaded",
-      description: "Invoice has been downloaded. (PDF generation coming soon)",
-    });
+    if (!invoiceId) {
+      toast({
+        title: "Save Draft First",
+        description: "Save the invoice as a draft before downloading the PDF.",
+        variant: "destructive",
+      });
+      return;
+    }
+    downloadPdfMutation.mutate(window.open("", "_blank"));
   };
 
   const sendToShipperMutation = useMutation({
@@ -375,6 +416,7 @@ Thank you for your business!
         subtotal: subtotal.toString(),
         discountAmount: discountAmount.toString(),
         discountReason,
+        dieselAdjustment: dieselAdjustment.toString(),
         taxPercent: "0",
         taxAmount: "0",
         totalAmount: totalAmount.toString(),
@@ -541,6 +583,20 @@ Thank you for your business!
                   </div>
                 )}
               </div>
+              {diesel && (
+                <div className="flex items-start gap-2 text-xs text-muted-foreground" data-testid="text-diesel-adjustment">
+                  <Fuel className="h-3.5 w-3.5 mt-0.5" />
+                  {diesel.pricingIndex && diesel.pickupIndex ? (
+                    <span>
+                      Diesel index Rs. {diesel.pricingIndex.pricePerLitre.toFixed(2)}/L at pricing, Rs. {diesel.pickupIndex.pricePerLitre.toFixed(2)}/L
+                      {diesel.provisional ? " today (pickup pending - provisional)" : " at pickup"}.
+                      {" "}{diesel.litres} L at {diesel.mileageKmpl} km/L gives {formatRupees(diesel.adjustment)}.
+                    </span>
+                  ) : (
+                    <span>No diesel index data for {diesel.region === "IN" ? "this region" : diesel.region} - no adjustment applied.</span>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="grid grid-cols-2 gap-6">
@@ -688,10 +744,14 @@ Thank you for your business!
           <Button
             variant="outline"
             onClick={handleDownloadPDF}
-            disabled={lineItems.length === 0}
+            disabled={lineItems.length === 0 || downloadPdfMutation.isPending}
             data-testid="button-download-pdf"
           >
-            <Download className="h-4 w-4 mr-2" />
+            {downloadPdfMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
             Download PDF
           </Button>
           <Button
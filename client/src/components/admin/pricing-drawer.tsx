@@ -45,8 +45,10 @@ import {
   FileText,
   CheckCircle,
   Scale,
+  Fuel,
 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
+import { getTruckMileage } from "@shared/fuel";
 
 interface LoadData {
   id: string;
@@ -92,19 +94,28 @@ interface PricingDrawerProps {
 interface PricingSuggestion {
   load_id: string;
   suggested_price: number;
+  model_price: number;
+  lane_price: number | null;
   breakdown: {
     baseAmount: number;
     fuelSurcharge: number;
+    markupAmount: number;
     handlingFee: number;
+    laneAdjustment: number;
     seasonalMultiplier: number;
-    regionMultiplier: number;
+    distanceTaper: number;
   };
   params: {
     distanceKm: number;
     weightTons: number;
     loadType: string;
+    truckLabel: string;
     baseRatePerKm: number;
-    region: string;
+    lane: string;
+    templateId: string | null;
+    platformRatePercent: number;
+    historySamples: number;
+    historyWeight: number;
   };
   confidence_score: number;
   comparable_loads: Array<{
@@ -112,9 +123,15 @@ interface PricingSuggestion {
     route: string;
     distance: number;
     finalPrice: string;
+    source: "admin_pricing" | "accepted_bid";
   }>;
   risk_flags: string[];
   platform_rate_percent: number;
+  diesel_index: {
+    region: string;
+    pricePerLitre: number;
+    effectiveDate: string;
+  } | null;
 }
 
 interface PricingTemplate {
@@ -160,14 +177,20 @@ export function PricingDrawer({
   const [customTonnage, setCustomTonnage] = useState<number | null>(null);
 
   // Posting options
-  const [postMode, setPostMode] = useState<"open" | "invite" | "assign">("open");
+  const [postMode, setPostMode] = useState<"open" | "invite" | "assign" | "sealed" | "auction">("open");
   const [selectedCarriers, setSelectedCarriers] = useState<string[]>([]);
   const [allowCounterBids, setAllowCounterBids] = useState(true);
+  // Sealed-bid and auction windows
+  const [biddingWindowMinutes, setBiddingWindowMinutes] = useState(120);
+  const [auctionExtensionMinutes, setAuctionExtensionMinutes] = useState(5);
+  const [auctionMinDecrement, setAuctionMinDecrement] = useState(0);
+  const isWindowedPost = postMode === "sealed" || postMode === "auction";
 
   // Pricing intelligence data
   const [breakdown, setBreakdown] = useState<PricingSuggestion["breakdown"] | null>(null);
   const [params, setParams] = useState<PricingSuggestion["params"] | null>(null);
   const [confidenceScore, setConfidenceScore] = useState(0);
+  const [dieselIndex, setDieselIndex] = useState<PricingSuggestion["diesel_index"]>(null);
   const [pricingId, setPricingId] = useState<string | null>(null);
 
   // Determine if load is in "Carrier Finalized" state (awarded) - ready for invoice
@@ -399,6 +422,8 @@ export function PricingDrawer({
         weight: load.weight,
         loadType: load.requiredTruckType,
         pickupCity: load.pickupCity,
+        dropoffCity: load.dropoffCity,
+        template_id: selectedTemplate || null,
       });
       const data: PricingSuggestion = await response.json();
 
@@ -410,6 +435,7 @@ export function PricingDrawer({
       setBreakdown(data.breakdown);
       setParams(data.params);
       setConfidenceScore(data.confidence_score);
+      setDieselIndex(data.diesel_index);
       setPlatformMarginPercent(data.platform_rate_percent);
     } catch (error) {
       console.error("Failed to fetch suggested price:", error);
@@ -472,6 +498,9 @@ export function PricingDrawer({
     if (postMode === "invite" && selectedCarriers.length === 0) {
       return "Please select at least one carrier to invite.";
     }
+    if (isWindowedPost && (biddingWindowMinutes < 5 || biddingWindowMinutes > 7 * 24 * 60)) {
+      return "Bidding window must be between 5 minutes and 7 days.";
+    }
     if (platformMarginPercent < 0 || platformMarginPercent > 50) {
       return "Platform margin must be between 0% and 50%.";
     }
@@ -539,6 +568,11 @@ export function PricingDrawer({
         allow_counter_bids: allowCounterBids,
         advance_payment_percent: advancePaymentPercent,
         notes,
+        ...(isWindowedPost && { bidding_window_minutes: biddingWindowMinutes }),
+        ...(postMode === "auction" && {
+          auction_extension_minutes: auctionExtensionMinutes,
+          auction_min_decrement: auctionMinDecrement,
+        }),
       });
       await response.json();
 
@@ -886,6 +920,29 @@ export function PricingDrawer({
                       </CardContent>
                     </Card>
 
+                    {/* Diesel index the price is locked against */}
+                    {dieselIndex && (() => {
+                      const tripLitres = Math.round((parseFloat(load.distance?.toString() || "0") || 0) / getTruckMileage(load.requiredTruckType));
+                      return (
+                        <div className="flex items-start gap-3 p-3 rounded-lg border bg-muted/30" data-testid="diesel-index-info">
+                          <Fuel className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                          <div className="text-sm space-y-1">
+                            <p className="font-medium">
+                              Diesel index: Rs. {dieselIndex.pricePerLitre.toFixed(2)}/L
+                              <span className="text-muted-foreground font-normal ml-1">
+                                ({dieselIndex.region === "IN" ? "National" : dieselIndex.region}, {new Date(dieselIndex.effectiveDate).toLocaleDateString("en-IN")})
+                              </span>
+                            </p>
+                            {tripLitres > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                Trip needs ~{tripLitres.toLocaleString("en-IN")} L. Each Rs. 1/L change by pickup adjusts the invoice by {formatRupees(tripLitres)}.
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })()}
+
                     <Separator />
 
                     {/* Total Price Summary (Shipper pays) */}
@@ -1097,12 +1154,86 @@ export function PricingDrawer({
                             ))}
                           </div>
                         )}
+
+                        <div className="flex items-center gap-3">
+                          <Checkbox
+                            id="post-sealed"
+                            checked={postMode === "sealed"}
+                            onCheckedChange={() => setPostMode("sealed")}
+                            data-testid="checkbox-post-sealed"
+                          />
+                          <Label htmlFor="post-sealed" className="flex-1 cursor-pointer">
+                            <span className="font-medium">Sealed Bid</span>
+                            <p className="text-sm text-muted-foreground">
+                              Carriers can't see each other's bids; all are revealed and the lowest awarded at close
+                            </p>
+                          </Label>
+                        </div>
+
+                        <div className="flex items-center gap-3">
+                          <Checkbox
+                            id="post-auction"
+                            checked={postMode === "auction"}
+                            onCheckedChange={() => setPostMode("auction")}
+                            data-testid="checkbox-post-auction"
+                          />
+                          <Label htmlFor="post-auction" className="flex-1 cursor-pointer">
+                            <span className="font-medium">Reverse Auction</span>
+                            <p className="text-sm text-muted-foreground">
+                              Lowest bid is visible; late bids extend the auction
+                            </p>
+                          </Label>
+                        </div>
+
+                        {isWindowedPost && (
+                          <div className="ml-7 grid grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                              <Label htmlFor="bidding-window-minutes" className="text-sm">Window (minutes)</Label>
+                              <Input
+                                id="bidding-window-minutes"
+                                type="number"
+                                min={5}
+                                value={biddingWindowMinutes}
+                                onChange={(e) => setBiddingWindowMinutes(parseInt(e.target.value) || 0)}
+                                data-testid="input-bidding-window-minutes"
+                              />
+                            </div>
+                            {postMode === "auction" && (
+                              <>
+                                <div className="space-y-1">
+                                  <Label htmlFor="auction-extension-minutes" className="text-sm">Extension (minutes)</Label>
+                                  <Input
+                                    id="auction-extension-minutes"
+                                    type="number"
+                                    min={0}
+                                    max={60}
+                                    value={auctionExtensionMinutes}
+                                    onChange={(e) => setAuctionExtensionMinutes(parseInt(e.target.value) || 0)}
+                                    data-testid="input-auction-extension-minutes"
+                                  />
+                                </div>
+                                <div className="space-y-1">
+                                  <Label htmlFor="auction-min-decrement" className="text-sm">Min. decrement (Rs.)</Label>
+                                  <Input
+                                    id="auction-min-decrement"
+                                    type="number"
+                                    min={0}
+                                    value={auctionMinDecrement}
+                                    onChange={(e) => setAuctionMinDecrement(parseFloat(e.target.value) || 0)}
+                                    data-testid="input-auction-min-decrement"
+                                  />
+                                </div>
+                              </>
+                            )}
+                          </div>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-3">
                         <Checkbox
                           id="allow-counter"
-                          checked={allowCounterBids}
+                          checked={allowCounterBids && !isWindowedPost}
+                          disabled={isWindowedPost}
                           onCheckedChange={(checked) => setAllowCounterBids(checked === true)}
                           data-testid="checkbox-allow-counter"
                         />
@@ -20,8 +20,13 @@ import {
   History,
   ClipboardList,
   Key,
+  Fuel,
   UserCheck,
   CheckCircle,
+  LifeBuoy,
+  FileSignature,
+  Boxes,
+  Repeat,
 } from "lucide-react";
 import {
   Sidebar,
@@ -51,6 +56,7 @@ const shipperItems: NavItem[] = [
   { titleKey: "nav.dashboard", url: "/shipper", icon: LayoutDashboard },
   { titleKey: "nav.postLoad", url: "/shipper/post-load", icon: Plus },
   { titleKey: "nav.myLoads", url: "/shipper/loads", icon: Package },
+  { titleKey: "nav.recurringLoads", url: "/shipper/recurring", icon: Repeat },
   { titleKey: "nav.memos", url: "/shipper/invoices", icon: FileText },
   { titleKey: "nav.tracking", url: "/shipper/tracking", icon: Route },
   { titleKey: "nav.deliveredLoads", url: "/shipper/delivered", icon: CheckCircle },
@@ -89,7 +95,10 @@ const adminItems: NavItem[] = [
   { titleKey: "nav.postLoad", url: "/admin/post-load", icon: Plus },
   { titleKey: "nav.loadQueue", url: "/admin/queue", icon: ClipboardList },
   { titleKey: "nav.bidsNegotiations", url: "/admin/negotiations", icon: Gavel },
+  { titleKey: "nav.contractRates", url: "/admin/contracts", icon: FileSignature },
+  { titleKey: "nav.ptlConsolidation", url: "/admin/consolidation", icon: Boxes },
   { titleKey: "nav.otpVerification", url: "/admin/otp-queue", icon: Key },
+  { titleKey: "nav.supportTickets", url: "/admin/support-tickets", icon: LifeBuoy },
   { titleKey: "nav.liveTracking", url: "/admin/live-tracking", icon: Radio },
   { titleKey: "nav.shipperOnboarding", url: "/admin/onboarding", icon: UserCheck },
   { titleKey: "nav.memos", url: "/admin/invoices", icon: FileText },
@@ -98,6 +107,7 @@ const adminItems: NavItem[] = [
   { titleKey: "nav.carriers", url: "/admin/carriers", icon: Truck },
   { titleKey: "nav.verification", url: "/admin/verification", icon: Shield },
   { titleKey: "nav.documentReview", url: "/admin/finance-review", icon: FileText },
+  { titleKey: "nav.dieselIndex", url: "/admin/diesel-index", icon: Fuel },
   { titleKey: "nav.reports", url: "/admin/reports", icon: BarChart3 },
 ];
 
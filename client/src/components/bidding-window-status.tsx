@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { EyeOff, Gavel, Timer, Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { queryClient } from "@/lib/queryClient";
+import { onMarketplaceEvent, subscribeMarketplace } from "@/lib/marketplace-socket";
+import { useToast } from "@/hooks/use-toast";
+
+interface BiddingWindow {
+  mode: "sealed" | "auction";
+  opensAt: string | null;
+  closesAt: string | null;
+  closedAt: string | null;
+  revealed: boolean;
+  bidCount: number;
+  lowestAmount: number | null;
+  extensionMinutes: number | null;
+  extensionCount: number;
+  minDecrement: number | null;
+  myBid: { id: string; amount: string; status: string } | null;
+}
+
+export function isBiddingWindowMode(mode: string | null | undefined): mode is "sealed" | "auction" {
+  return mode === "sealed" || mode === "auction";
+}
+
+function formatRupees(amount: number): string {
+  return `Rs. ${amount.toLocaleString("en-IN")}`;
+}
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0
+    ? `${hours}h ${minutes.toString().padStart(2, "0")}m`
+    : `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Countdown and state for a sealed-bid or auction load. Follows the load on
+ * the marketplace socket so extensions, new lowest bids and the close show up
+ * without a refresh.
+ */
+export function BiddingWindowStatus({ loadId }: { loadId: string }) {
+  const { toast } = useToast();
+  const [now, setNow] = useState(Date.now());
+
+  const queryKey = ["/api/loads", loadId, "bidding-window"];
+  const { data: biddingWindow } = useQuery<BiddingWindow>({ queryKey });
+
+  useEffect(() => {
+    const unsubscribeLoad = subscribeMarketplace("load", loadId);
+    const unsubscribeUpdated = onMarketplaceEvent("bidding_window_updated", (data) => {
+      if (data.loadId !== loadId) return;
+      queryClient.invalidateQueries({ queryKey });
+      if (data.window?.extended) {
+        toast({ title: "Auction extended", description: "A late bid pushed the close time out" });
+      }
+    });
+    const unsubscribeClosed = onMarketplaceEvent("bidding_window_closed", (data) => {
+      if (data.loadId !== loadId) return;
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
+      if (data.window?.yourBidId) {
+        toast({
+          title: data.window.won ? "You won this load" : "Bidding closed",
+          description: data.window.won
+            ? `Awarded at ${formatRupees(data.window.winningAmount)}`
+            : `Your bid ranked #${data.window.yourRank} of ${data.window.bids?.length ?? 0}`,
+        });
+      }
+    });
+    return () => {
+      unsubscribeLoad();
+      unsubscribeUpdated();
+      unsubscribeClosed();
+    };
+  }, [loadId]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!biddingWindow) return null;
+
+  const closesAt = biddingWindow.closesAt ? new Date(biddingWindow.closesAt).getTime() : null;
+  const isClosed = !!biddingWindow.closedAt || (closesAt !== null && closesAt <= now);
+
+  return (
+    <div className="p-3 rounded-lg border bg-muted/30 space-y-2" data-testid={`bidding-window-${loadId}`}>
+      <div className="flex items-center justify-between gap-2">
+        <Badge variant="outline" className="gap-1">
+          {biddingWindow.mode === "sealed" ? <EyeOff className="h-3 w-3" /> : <Gavel className="h-3 w-3" />}
+          {biddingWindow.mode === "sealed" ? "Sealed bid" : "Reverse auction"}
+        </Badge>
+        <span className="flex items-center gap-1 text-sm font-medium" data-testid="text-bidding-countdown">
+          <Timer className="h-4 w-4" />
+          {isClosed ? "Closed" : closesAt !== null ? `Closes in ${formatCountdown(closesAt - now)}` : "Open"}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">{biddingWindow.bidCount} {biddingWindow.bidCount === 1 ? "bid" : "bids"}</span>
+        {biddingWindow.lowestAmount !== null ? (
+          <span className="flex items-center gap-1">
+            <Trophy className="h-3 w-3 text-amber-500" />
+            Lowest {formatRupees(biddingWindow.lowestAmount)}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">Amounts revealed at close</span>
+        )}
+      </div>
+
+      {biddingWindow.myBid && (
+        <p className="text-xs text-muted-foreground">
+          Your bid: {formatRupees(parseFloat(biddingWindow.myBid.amount))} ({biddingWindow.myBid.status})
+        </p>
+      )}
+      {biddingWindow.mode === "auction" && !isClosed && (
+        <p className="text-xs text-muted-foreground">
+          {biddingWindow.minDecrement ? `Bids must beat the lowest by at least ${formatRupees(biddingWindow.minDecrement)}. ` : "Bids must beat the lowest. "}
+          {biddingWindow.extensionMinutes ? `A bid in the last ${biddingWindow.extensionMinutes} min extends the auction.` : ""}
+        </p>
+      )}
+    </div>
+  );
+}
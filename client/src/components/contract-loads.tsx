@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { FileSignature, Loader2, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+
+interface CarrierContractLoad {
+  id: string;
+  loadId: string;
+  contractName: string | undefined;
+  carrierRate: string | null;
+  status: "awarded" | "declined" | "fallback";
+  declineReason: string | null;
+  createdAt: string;
+  canDecline: boolean;
+  load: {
+    id: string;
+    pickupCity: string;
+    dropoffCity: string;
+    pickupDate: string | null;
+    requiredTruckType: string | null;
+    status: string;
+    pickupId: string | null;
+  } | null;
+}
+
+interface ShipperContract {
+  contractId: string;
+  name: string;
+  lane: string;
+  status: string | null;
+  validUntil: string;
+  commitmentPeriod: "weekly" | "monthly" | "contract";
+  committedLoads: number;
+  awardedLoads: number;
+  utilisationPercent: number | null;
+  shipperRate: string | undefined;
+}
+
+const PERIOD_LABELS: Record<string, string> = {
+  weekly: "this week",
+  monthly: "this month",
+  contract: "so far",
+};
+
+const CARRIER_CONTRACT_LOADS_KEY = "/api/carrier/contract-loads";
+
+function formatRupees(amount: number): string {
+  return `Rs. ${Math.round(amount).toLocaleString("en-IN")}`;
+}
+
+/**
+ * Loads assigned to the carrier from a contract rate card. An award can be
+ * declined until pickup; the load then goes to the next contract carrier.
+ */
+export function CarrierContractLoadsCard() {
+  const { toast } = useToast();
+  const [decliningLoadId, setDecliningLoadId] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: assignments = [] } = useQuery<CarrierContractLoad[]>({
+    queryKey: [CARRIER_CONTRACT_LOADS_KEY],
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async ({ loadId, reason }: { loadId: string; reason: string }) =>
+      apiRequest("POST", `${CARRIER_CONTRACT_LOADS_KEY}/${loadId}/decline`, { reason }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CARRIER_CONTRACT_LOADS_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
+      toast({ title: "Contract load declined", description: "It will be offered to the next carrier" });
+      setDecliningLoadId(null);
+      setReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't decline load", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const upcoming = assignments.filter((assignment) => assignment.canDecline);
+  if (upcoming.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileSignature className="h-4 w-4" />
+          Contract Loads
+        </CardTitle>
+        <CardDescription>Assigned at your contract rate. Decline before pickup if you can't cover one.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {upcoming.map((assignment) => (
+          <div
+            key={assignment.id}
+            className="flex items-center justify-between gap-3 p-3 rounded-lg border"
+            data-testid={`contract-load-${assignment.loadId}`}
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {assignment.load?.pickupCity} to {assignment.load?.dropoffCity}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {assignment.contractName}
+                {assignment.carrierRate && ` · ${formatRupees(parseFloat(assignment.carrierRate))}`}
+                {assignment.load?.pickupDate && ` · pickup ${format(new Date(assignment.load.pickupDate), "dd MMM")}`}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDecliningLoadId(assignment.loadId)}
+              data-testid={`button-decline-contract-${assignment.loadId}`}
+            >
+              <XCircle className="h-4 w-4 mr-1" />
+              Decline
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!decliningLoadId} onOpenChange={(open) => !open && setDecliningLoadId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Decline Contract Load</DialogTitle>
+            <DialogDescription>
+              The load will be offered to the next carrier on the contract, or posted to the marketplace.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="contract-decline-reason">Reason</Label>
+            <Textarea
+              id="contract-decline-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. No truck available on that date"
+              data-testid="input-contract-decline-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecliningLoadId(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => decliningLoadId && declineMutation.mutate({ loadId: decliningLoadId, reason })}
+              disabled={declineMutation.isPending}
+              data-testid="button-confirm-decline-contract"
+            >
+              {declineMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Decline
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+/**
+ * The shipper's contract rates with loads booked this period against the
+ * volume they committed to.
+ */
+export function ShipperContractsCard() {
+  const { data: contracts = [] } = useQuery<ShipperContract[]>({
+    queryKey: ["/api/shipper/contracts"],
+  });
+
+  const active = contracts.filter((contract) => contract.status === "active");
+  if (active.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileSignature className="h-4 w-4" />
+          Contract Lanes
+        </CardTitle>
+        <CardDescription>Loads you post on these lanes are booked at your contract rate</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {active.map((contract) => (
+          <div key={contract.contractId} className="space-y-1" data-testid={`shipper-contract-${contract.contractId}`}>
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <span className="font-medium">{contract.lane}</span>
+              {contract.shipperRate && (
+                <Badge variant="outline">{formatRupees(parseFloat(contract.shipperRate))} / load</Badge>
+              )}
+            </div>
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {contract.awardedLoads}
+                {contract.committedLoads > 0 ? ` of ${contract.committedLoads} committed` : ""} loads {PERIOD_LABELS[contract.commitmentPeriod]}
+              </span>
+              <span>Until {format(new Date(contract.validUntil), "dd MMM yyyy")}</span>
+            </div>
+            {contract.utilisationPercent !== null && (
+              <Progress value={Math.min(100, contract.utilisationPercent)} className="h-1.5" />
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
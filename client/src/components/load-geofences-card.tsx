@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, MapPin, Plus, Radar, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Geofence } from "@shared/schema";
+
+interface LoadGeofencesCardProps {
+  loadId: string;
+  canManage?: boolean;
+}
+
+const emptyCheckpoint = { name: "", lat: "", lng: "", radiusMeters: "300" };
+
+/**
+ * Fences around a load's sites and any custom checkpoints, with whether the
+ * truck is inside each one right now.
+ */
+export function LoadGeofencesCard({ loadId, canManage = false }: LoadGeofencesCardProps) {
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [checkpoint, setCheckpoint] = useState(emptyCheckpoint);
+
+  const { data: geofences = [], isLoading } = useQuery<Geofence[]>({
+    queryKey: ["/api/loads", loadId, "geofences"],
+    refetchInterval: 60000,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/loads/${loadId}/geofences`, {
+        name: checkpoint.name,
+        lat: checkpoint.lat,
+        lng: checkpoint.lng,
+        radiusMeters: checkpoint.radiusMeters || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loads", loadId, "geofences"] });
+      setCheckpoint(emptyCheckpoint);
+      setIsAdding(false);
+      toast({ title: "Checkpoint Added", description: "You'll be notified when the truck passes it." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't add checkpoint", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (geofenceId: string) => {
+      await apiRequest("DELETE", `/api/geofences/${geofenceId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loads", loadId, "geofences"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't remove checkpoint", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSubmit = checkpoint.name.trim() && checkpoint.lat && checkpoint.lng && !addMutation.isPending;
+
+  return (
+    <Card data-testid="card-geofences">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Radar className="h-4 w-4" />
+          Geofences
+        </CardTitle>
+        {canManage && !isAdding && (
+          <Button size="sm" variant="outline" onClick={() => setIsAdding(true)} data-testid="button-add-checkpoint">
+            <Plus className="h-4 w-4 mr-1" />
+            Checkpoint
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : geofences.length === 0 ? (
+          <p className="text-muted-foreground">
+            No sites with map coordinates yet. Add a checkpoint to get arrival alerts.
+          </p>
+        ) : (
+          geofences.map((fence) => (
+            <div key={fence.id} className="flex items-start justify-between gap-2" data-testid={`geofence-${fence.id}`}>
+              <div className="flex items-start gap-2">
+                <MapPin className={`h-4 w-4 mt-0.5 flex-shrink-0 ${fence.isInside ? "text-green-600" : "text-muted-foreground"}`} />
+                <div>
+                  <p className="font-medium">{fence.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {fence.isInside && fence.enteredAt
+                      ? `Truck on site since ${format(new Date(fence.enteredAt), "MMM d, h:mm a")}`
+                      : fence.exitedAt
+                        ? `Truck left ${format(new Date(fence.exitedAt), "MMM d, h:mm a")}`
+                        : `${fence.radiusMeters} m radius`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                {fence.isInside && (
+                  <Badge className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">On site</Badge>
+                )}
+                {canManage && fence.geofenceType === "checkpoint" && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeMutation.mutate(fence.id)}
+                    disabled={removeMutation.isPending}
+                    data-testid={`button-remove-geofence-${fence.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+
+        {isAdding && (
+          <div className="space-y-2 pt-2 border-t">
+            <div>
+              <Label htmlFor="checkpoint-name">Name</Label>
+              <Input
+                id="checkpoint-name"
+                value={checkpoint.name}
+                onChange={(e) => setCheckpoint({ ...checkpoint, name: e.target.value })}
+                placeholder="e.g. Vashi toll plaza"
+                data-testid="input-checkpoint-name"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="checkpoint-lat">Latitude</Label>
+                <Input
+                  id="checkpoint-lat"
+                  inputMode="decimal"
+                  value={checkpoint.lat}
+                  onChange={(e) => setCheckpoint({ ...checkpoint, lat: e.target.value })}
+                  data-testid="input-checkpoint-lat"
+                />
+              </div>
+              <div>
+                <Label htmlFor="checkpoint-lng">Longitude</Label>
+                <Input
+                  id="checkpoint-lng"
+                  inputMode="decimal"
+                  value={checkpoint.lng}
+                  onChange={(e) => setCheckpoint({ ...checkpoint, lng: e.target.value })}
+                  data-testid="input-checkpoint-lng"
+                />
+              </div>
+              <div>
+                <Label htmlFor="checkpoint-radius">Radius (m)</Label>
+                <Input
+                  id="checkpoint-radius"
+                  inputMode="numeric"
+                  value={checkpoint.radiusMeters}
+                  onChange={(e) => setCheckpoint({ ...checkpoint, radiusMeters: e.target.value.replace(/\D/g, "") })}
+                  data-testid="input-checkpoint-radius"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => { setIsAdding(false); setCheckpoint(emptyCheckpoint); }}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => addMutation.mutate()} disabled={!canSubmit} data-testid="button-save-checkpoint">
+                {addMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
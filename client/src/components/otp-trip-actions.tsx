@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { Loader2, Key, CheckCircle, Clock, AlertCircle, PlayCircle, StopCircle, RefreshCw, Navigation } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { Loader2, Key, CheckCircle, Clock, AlertCircle, PlayCircle, StopCircle, RefreshCw, Navigation, MapPin, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -18,11 +18,14 @@ import {
   useRequestTripStartOtp, 
   useRequestTripEndOtp,
   useRequestRouteStartOtp,
+  useRequestStopOtp,
   useVerifyOtp, 
   useOtpStatus 
 } from "@/lib/api-hooks";
-import { useQuery } from "@tanstack/react-query";
-import type { Shipment, Load } from "@shared/schema";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { Shipment, Load, LoadStop, Geofence, GeofenceType } from "@shared/schema";
 import { ShipperRatingDialog } from "./shipper-rating-dialog";
 
 interface OtpStatusData {
@@ -32,8 +35,11 @@ interface OtpStatusData {
   pendingStartRequest?: boolean;
   pendingRouteStartRequest?: boolean;
   pendingEndRequest?: boolean;
+  stopOtps?: { stopId: string; completed: boolean; otpRequested: boolean; otpApproved: boolean }[];
 }
 
+type OtpType = "trip_start" | "route_start" | "stop_complete" | "trip_end";
+
 interface OtpTripActionsProps {
   shipment: Shipment;
   loadStatus?: string;
@@ -47,7 +53,10 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
   const { toast } = useToast();
   const [otpDialogOpen, setOtpDialogOpen] = useState(false);
   const [otpCode, setOtpCode] = useState("");
-  const [otpType, setOtpType] = useState<"trip_start" | "route_start" | "trip_end">("trip_start");
+  const [otpType, setOtpType] = useState<OtpType>("trip_start");
+  const [otpStopId, setOtpStopId] = useState<string | null>(null);
+  const [podStopId, setPodStopId] = useState<string | null>(null);
+  const podInputRef = useRef<HTMLInputElement>(null);
   
   // Check if there's a pending rating for this shipment (survives component remounts)
   const [ratingDialogOpen, setRatingDialogOpen] = useState(() => {
@@ -70,6 +79,24 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
   // Use fetched load data first (more reliable), then embedded as fallback
   const effectiveShipperId = loadData?.shipperId || embeddedShipperId;
 
+  // Multi-stop loads complete each stop between the first pickup and final drop with its own OTP
+  const { data: stops = [] } = useQuery<LoadStop[]>({
+    queryKey: ["/api/loads", shipment.loadId, "stops"],
+    enabled: !!loadData?.isMultiStop,
+  });
+  const intermediateStops = stops.length > 2 ? stops.slice(1, -1) : [];
+
+  // Geofence presence from telemetry, so the driver is offered the step for the site they're at
+  const { data: geofences = [] } = useQuery<Geofence[]>({
+    queryKey: ["/api/loads", shipment.loadId, "geofences"],
+    enabled: !!shipment.loadId,
+    refetchInterval: 30000,
+  });
+  const onSiteSince = (geofenceType: GeofenceType, stopId?: string): Date | null => {
+    const fence = geofences.find((g) => g.geofenceType === geofenceType && (!stopId || g.stopId === stopId));
+    return fence?.isInside && fence.enteredAt ? new Date(fence.enteredAt) : null;
+  };
+
   const { data: shipperData } = useQuery<{ id: string; companyName: string | null; username: string }>({
     queryKey: ["/api/users", effectiveShipperId],
     enabled: !!effectiveShipperId,
@@ -88,8 +115,52 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
   const requestStartMutation = useRequestTripStartOtp();
   const requestRouteStartMutation = useRequestRouteStartOtp();
   const requestEndMutation = useRequestTripEndOtp();
+  const requestStopMutation = useRequestStopOtp();
   const verifyMutation = useVerifyOtp();
 
+  const uploadPodMutation = useMutation({
+    mutationFn: async ({ stopId, file }: { stopId: string; file: File }) => {
+      const presignedRes = await fetch("/api/uploads/request-url", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: file.name,
+          size: file.size,
+          contentType: file.type || "application/octet-stream",
+        }),
+      });
+      if (!presignedRes.ok) {
+        throw new Error("Failed to get upload URL");
+      }
+      const { uploadURL, objectPath } = await presignedRes.json();
+
+      const uploadRes = await fetch(uploadURL, {
+        method: "PUT",
+        body: file,
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+      });
+      if (!uploadRes.ok) {
+        throw new Error("Failed to upload file to storage");
+      }
+
+      return apiRequest("POST", `/api/shipments/${shipment.id}/documents`, {
+        documentType: "pod",
+        fileName: file.name,
+        fileUrl: objectPath,
+        fileSize: file.size,
+        stopId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loads", shipment.loadId, "stops"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shipments", shipment.id, "documents"] });
+      toast({ title: "POD Uploaded", description: "Now request the OTP to complete this stop." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
   const canRequestStart = !shipment.startOtpVerified && !shipment.startOtpRequested;
   const hasStartPending = shipment.startOtpRequested && !shipment.startOtpVerified;
   const startApproved = otpStatus?.startOtpApproved && !shipment.startOtpVerified;
@@ -98,10 +169,18 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
   const hasRouteStartPending = (shipment as any).routeStartOtpRequested && !(shipment as any).routeStartOtpVerified;
   const routeStartApproved = otpStatus?.routeStartOtpApproved && !(shipment as any).routeStartOtpVerified;
 
-  const canRequestEnd = (shipment as any).routeStartOtpVerified && !shipment.endOtpVerified && !shipment.endOtpRequested;
+  const stopOtps = otpStatus?.stopOtps || [];
+  const nextStop = intermediateStops.find((stop) => stop.status !== "completed");
+  const allStopsCompleted = !nextStop;
+
+  const canRequestEnd = (shipment as any).routeStartOtpVerified && allStopsCompleted && !shipment.endOtpVerified && !shipment.endOtpRequested;
   const hasEndPending = shipment.endOtpRequested && !shipment.endOtpVerified;
   const endApproved = otpStatus?.endOtpApproved && !shipment.endOtpVerified;
 
+  const nextStopOtp = nextStop ? stopOtps.find((entry) => entry.stopId === nextStop.id) : undefined;
+  const canRequestNextStop = !!nextStop && !!(shipment as any).routeStartOtpVerified && !nextStopOtp?.otpRequested
+    && !(nextStop.stopType === "drop" && !nextStop.podDocumentId);
+
   const handleRequestStart = async () => {
     try {
       await requestStartMutation.mutateAsync(shipment.id);
@@ -153,6 +232,34 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
     }
   };
 
+  const handleRequestStop = async (stop: LoadStop) => {
+    try {
+      await requestStopMutation.mutateAsync({ shipmentId: shipment.id, stopId: stop.id });
+      toast({
+        title: "OTP Requested",
+        description: `Your OTP request for stop ${stop.sequence} has been sent for approval.`,
+      });
+      refetchStatus();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to request OTP",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The request the driver can make right now for the site the truck is inside
+  const atPickup = onSiteSince("pickup");
+  const atNextStop = nextStop ? onSiteSince("stop", nextStop.id) : null;
+  const atDropoff = onSiteSince("dropoff");
+  const onSitePrompt =
+    canRequestStart && atPickup ? { title: "You're at the pickup", action: "Request Trip Start OTP", since: atPickup, isPending: requestStartMutation.isPending, onRequest: handleRequestStart }
+    : canRequestRouteStart && atPickup ? { title: "You're at the pickup", action: "Request Route Start OTP", since: atPickup, isPending: requestRouteStartMutation.isPending, onRequest: handleRequestRouteStart }
+    : canRequestNextStop && nextStop && atNextStop ? { title: `You're at stop ${nextStop.sequence}`, action: "Request Stop OTP", since: atNextStop, isPending: requestStopMutation.isPending, onRequest: () => handleRequestStop(nextStop) }
+    : canRequestEnd && atDropoff ? { title: "You're at the dropoff", action: "Request Trip End OTP", since: atDropoff, isPending: requestEndMutation.isPending, onRequest: handleRequestEnd }
+    : null;
+
   const handleVerifyOtp = async () => {
     if (!otpCode || otpCode.length !== 6) {
       toast({
@@ -164,19 +271,22 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
     }
 
     try {
-      await verifyMutation.mutateAsync({
+      const result = await verifyMutation.mutateAsync({
         shipmentId: shipment.id,
         otpCode,
         otpType,
+        stopId: otpType === "stop_complete" ? otpStopId || undefined : undefined,
       });
       const titles: Record<string, string> = {
         trip_start: "Trip Started",
         route_start: "Route Started",
+        stop_complete: "Stop Completed",
         trip_end: "Trip Completed"
       };
       const descriptions: Record<string, string> = {
         trip_start: "Trip initialized. Now request Route Start OTP to begin transit.",
         route_start: "Your route is now in transit. GPS tracking activated.",
+        stop_complete: result?.message || "Stop completed. Continue to the next stop.",
         trip_end: "Your delivery has been confirmed. Great job!"
       };
       toast({
@@ -207,8 +317,9 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
     }
   };
 
-  const openOtpDialog = (type: "trip_start" | "route_start" | "trip_end") => {
+  const openOtpDialog = (type: OtpType, stopId: string | null = null) => {
     setOtpType(type);
+    setOtpStopId(stopId);
     setOtpCode("");
     setOtpDialogOpen(true);
   };
@@ -272,6 +383,29 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {onSitePrompt && (
+            <div
+              className="flex items-center justify-between gap-3 p-3 rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20"
+              data-testid="otp-on-site-prompt"
+            >
+              <div className="flex items-center gap-3">
+                <MapPin className="h-5 w-5 text-green-600 dark:text-green-400" />
+                <div>
+                  <p className="font-medium text-sm">{onSitePrompt.title}</p>
+                  <p className="text-xs text-muted-foreground">On site since {format(onSitePrompt.since, "h:mm a")}</p>
+                </div>
+              </div>
+              <Button
+                size="sm"
+                onClick={onSitePrompt.onRequest}
+                disabled={onSitePrompt.isPending}
+                data-testid="button-on-site-request-otp"
+              >
+                {onSitePrompt.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : onSitePrompt.action}
+              </Button>
+            </div>
+          )}
+
           <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
             <div className="flex items-center gap-3">
               <div className={`h-8 w-8 rounded-full flex items-center justify-center ${
@@ -420,6 +554,140 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
             )}
           </div>
 
+          {intermediateStops.map((stop) => {
+            const stopOtp = stopOtps.find((entry) => entry.stopId === stop.id);
+            const isCompleted = stop.status === "completed";
+            const isNext = nextStop?.id === stop.id && !!(shipment as any).routeStartOtpVerified;
+            const needsPod = stop.stopType === "drop" && !stop.podDocumentId;
+            const isApproved = !isCompleted && !!stopOtp?.otpApproved;
+            const isPending = !isCompleted && !isApproved && !!stopOtp?.otpRequested;
+            const isUploading = uploadPodMutation.isPending && podStopId === stop.id;
+
+            return (
+              <div
+                key={stop.id}
+                className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
+                data-testid={`otp-stop-${stop.sequence}`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className={`h-8 w-8 rounded-full flex items-center justify-center ${
+                    isCompleted
+                      ? "bg-green-100 dark:bg-green-900/30"
+                      : isPending || isApproved
+                        ? "bg-amber-100 dark:bg-amber-900/30"
+                        : !isNext
+                          ? "bg-muted opacity-50"
+                          : "bg-muted"
+                  }`}>
+                    {isCompleted ? (
+                      <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
+                    ) : isPending || isApproved ? (
+                      <Clock className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+                    ) : (
+                      <MapPin className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </div>
+                  <div>
+                    <p className={`font-medium text-sm ${!isNext && !isCompleted ? "opacity-50" : ""}`}>
+                      Stop {stop.sequence}: {stop.stopType === "drop" ? "Drop" : "Pickup"} at {stop.city}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {isCompleted
+                        ? "Verified - Stop complete"
+                        : isApproved
+                          ? "Approved - Enter OTP"
+                          : isPending
+                            ? "Pending approval"
+                            : !isNext
+                              ? "Complete earlier stops first"
+                              : needsPod
+                                ? "Upload POD, then request OTP"
+                                : "Request OTP to complete stop"}
+                      {stop.weight && ` · ${parseFloat(stop.weight)} tons`}
+                    </p>
+                  </div>
+                </div>
+                {isNext && !isPending && !isApproved && needsPod && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setPodStopId(stop.id);
+                      podInputRef.current?.click();
+                    }}
+                    disabled={uploadPodMutation.isPending}
+                    data-testid={`button-upload-stop-pod-${stop.sequence}`}
+                  >
+                    {isUploading ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <>
+                        <Upload className="h-4 w-4 mr-1" />
+                        Upload POD
+                      </>
+                    )}
+                  </Button>
+                )}
+                {isNext && !isPending && !isApproved && !needsPod && (
+                  <Button
+                    size="sm"
+                    onClick={() => handleRequestStop(stop)}
+                    disabled={requestStopMutation.isPending}
+                    data-testid={`button-request-stop-otp-${stop.sequence}`}
+                  >
+                    {requestStopMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      "Request OTP"
+                    )}
+                  </Button>
+                )}
+                {isApproved && (
+                  <Button
+                    size="sm"
+                    onClick={() => openOtpDialog("stop_complete", stop.id)}
+                    data-testid={`button-enter-stop-otp-${stop.sequence}`}
+                  >
+                    <Key className="h-4 w-4 mr-1" />
+                    Enter OTP
+                  </Button>
+                )}
+                {isPending && (
+                  <Badge variant="outline" className="bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400">
+                    <Clock className="h-3 w-3 mr-1" />
+                    Pending
+                  </Badge>
+                )}
+                {!isCompleted && !isNext && (
+                  <Badge variant="outline" className="opacity-50">
+                    <AlertCircle className="h-3 w-3 mr-1" />
+                    Locked
+                  </Badge>
+                )}
+                {isCompleted && (
+                  <Badge variant="secondary" className="bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Verified
+                  </Badge>
+                )}
+              </div>
+            );
+          })}
+          <input
+            ref={podInputRef}
+            type="file"
+            accept="image/*,application/pdf"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file && podStopId) {
+                uploadPodMutation.mutate({ stopId: podStopId, file });
+              }
+              e.target.value = "";
+            }}
+            data-testid="input-stop-pod"
+          />
+
           <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
             <div className="flex items-center gap-3">
               <div className={`h-8 w-8 rounded-full flex items-center justify-center ${
@@ -452,7 +720,9 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
                         ? "Pending admin approval" 
                         : !(shipment as any).routeStartOtpVerified
                           ? "Start route first"
-                          : "Request OTP to complete"}
+                          : !allStopsCompleted
+                            ? "Complete all stops first"
+                            : "Request OTP to complete"}
                 </p>
               </div>
             </div>
@@ -486,7 +756,7 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
                 Pending
               </Badge>
             )}
-            {!(shipment as any).routeStartOtpVerified && (
+            {(!(shipment as any).routeStartOtpVerified || !allStopsCompleted) && (
               <Badge variant="outline" className="opacity-50">
                 <AlertCircle className="h-3 w-3 mr-1" />
                 Locked
@@ -500,11 +770,11 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
         <DialogContent>
           <DialogHeader>
             <DialogTitle>
-              {otpType === "trip_start" ? "Start Trip - Enter OTP" : otpType === "route_start" ? "Start Route - Enter OTP" : "Complete Trip - Enter OTP"}
+              {otpType === "trip_start" ? "Start Trip - Enter OTP" : otpType === "route_start" ? "Start Route - Enter OTP" : otpType === "stop_complete" ? "Complete Stop - Enter OTP" : "Complete Trip - Enter OTP"}
             </DialogTitle>
             <DialogDescription>
               Enter the 6-digit OTP provided by admin to{" "}
-              {otpType === "trip_start" ? "start your trip" : otpType === "route_start" ? "begin your route" : "confirm delivery"}.
+              {otpType === "trip_start" ? "start your trip" : otpType === "route_start" ? "begin your route" : otpType === "stop_complete" ? "complete this stop" : "confirm delivery"}.
             </DialogDescription>
           </DialogHeader>
           <div className="py-6">
@@ -536,7 +806,7 @@ export function OtpTripActions({ shipment, loadStatus, onStateChange }: OtpTripA
               ) : (
                 <Key className="h-4 w-4 mr-2" />
               )}
-              {otpType === "trip_start" ? "Start Trip" : "Complete Delivery"}
+              {otpType === "trip_start" ? "Start Trip" : otpType === "stop_complete" ? "Complete Stop" : "Complete Delivery"}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,111 @@
+import { format } from "date-fns";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle, Loader2, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TelematicsAlert } from "@shared/schema";
+
+interface RouteAlertsCardProps {
+  loadId: string;
+  canAcknowledge?: boolean;
+}
+
+const ALERT_LABELS: Record<string, string> = {
+  route_deviation: "Off route",
+  unexpected_stop: "Unplanned stop",
+};
+
+const SEVERITY_CLASSES: Record<string, string> = {
+  critical: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  warning: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  info: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+};
+
+/**
+ * Telematics alerts raised on a load's trip, newest first. Open ones can be
+ * acknowledged; resolved ones stay listed with when they cleared.
+ */
+export function RouteAlertsCard({ loadId, canAcknowledge = false }: RouteAlertsCardProps) {
+  const { toast } = useToast();
+
+  const { data: alerts = [], isLoading } = useQuery<TelematicsAlert[]>({
+    queryKey: ["/api/telematics/alerts", loadId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/telematics/alerts?loadId=${loadId}`);
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (alertId: string) => {
+      const response = await apiRequest("POST", `/api/telematics/alerts/${alertId}/acknowledge`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/telematics/alerts", loadId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't acknowledge alert", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCount = alerts.filter((alert) => !alert.resolvedAt).length;
+
+  return (
+    <Card data-testid="card-route-alerts">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <ShieldAlert className="h-4 w-4 text-orange-600" />
+          Route Alerts
+          {openCount > 0 && <Badge variant="destructive">{openCount} open</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : alerts.length === 0 ? (
+          <p className="text-muted-foreground">The truck has kept to the planned route so far.</p>
+        ) : (
+          alerts.map((alert) => (
+            <div key={alert.id} className="flex items-start justify-between gap-2" data-testid={`route-alert-${alert.id}`}>
+              <div className="flex items-start gap-2">
+                {alert.resolvedAt ? (
+                  <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                ) : (
+                  <AlertTriangle className={`h-4 w-4 mt-0.5 flex-shrink-0 ${alert.severity === "critical" ? "text-red-600" : "text-amber-600"}`} />
+                )}
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{ALERT_LABELS[alert.alertType] || alert.alertType}</span>
+                    <Badge className={SEVERITY_CLASSES[alert.severity || "warning"]}>{alert.severity}</Badge>
+                  </div>
+                  <p className="text-muted-foreground">{alert.message}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {alert.startedAt && `Since ${format(new Date(alert.startedAt), "MMM d, h:mm a")}`}
+                    {alert.resolvedAt && ` · cleared ${format(new Date(alert.resolvedAt), "h:mm a")}`}
+                    {alert.isAcknowledged && alert.acknowledgedAt && ` · acknowledged ${format(new Date(alert.acknowledgedAt), "h:mm a")}`}
+                  </p>
+                </div>
+              </div>
+              {canAcknowledge && !alert.resolvedAt && !alert.isAcknowledged && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => acknowledgeMutation.mutate(alert.id)}
+                  disabled={acknowledgeMutation.isPending}
+                  data-testid={`button-acknowledge-alert-${alert.id}`}
+                >
+                  Acknowledge
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -223,27 +223,58 @@ const truckIcon = L.divIcon({
   popupAnchor: [0, -20],
 });
 
-function MapBoundsUpdater({ pickupCoords, dropoffCoords }: { 
-  pickupCoords: { lat: number; lng: number } | null;
-  dropoffCoords: { lat: number; lng: number } | null;
-}) {
+function stopIcon(sequence: number, stopType: string, completed: boolean) {
+  const background = completed ? "#9ca3af" : stopType === "pickup" ? "#22c55e" : "#f59e0b";
+  return L.divIcon({
+    className: "custom-marker",
+    html: `<div style="background: ${background}; width: 28px; height: 28px; border-radius: 50%; display: flex; align-items: center; justify-content: center; border: 3px solid white; box-shadow: 0 2px 8px rgba(0,0,0,0.3); color: white; font-size: 12px; font-weight: 600;">${sequence}</div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+    popupAnchor: [0, -14],
+  });
+}
+
+// Position a given fraction of the way along a polyline, by straight-line leg length
+function pointAlongRoute(points: [number, number][], fraction: number): { lat: number; lng: number } {
+  const legLengths = points.slice(1).map((point, i) =>
+    Math.hypot(point[0] - points[i][0], point[1] - points[i][1])
+  );
+  const total = legLengths.reduce((sum, length) => sum + length, 0);
+  let remaining = total * fraction;
+  for (let i = 0; i < legLengths.length; i++) {
+    if (remaining <= legLengths[i] || i === legLengths.length - 1) {
+      const legFraction = legLengths[i] > 0 ? Math.min(1, remaining / legLengths[i]) : 0;
+      return {
+        lat: points[i][0] + (points[i + 1][0] - points[i][0]) * legFraction,
+        lng: points[i][1] + (points[i + 1][1] - points[i][1]) * legFraction,
+      };
+    }
+    remaining -= legLengths[i];
+  }
+  return { lat: points[0][0], lng: points[0][1] };
+}
+
+function MapBoundsUpdater({ points }: { points: [number, number][] }) {
   const map = useMap();
   
   useEffect(() => {
-    if (pickupCoords && dropoffCoords) {
-      const bounds = L.latLngBounds(
-        [pickupCoords.lat, pickupCoords.lng],
-        [dropoffCoords.lat, dropoffCoords.lng]
-      );
-      map.fitBounds(bounds, { padding: [50, 50] });
-    } else if (pickupCoords) {
-      map.setView([pickupCoords.lat, pickupCoords.lng], 10);
+    if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [50, 50] });
+    } else if (points.length === 1) {
+      map.setView(points[0], 10);
     }
-  }, [map, pickupCoords, dropoffCoords]);
+  }, [map, points]);
   
   return null;
 }
 
+export interface ShipmentMapStop {
+  sequence: number;
+  stopType: string;
+  city: string;
+  status?: string | null;
+}
+
 interface ShipmentMapProps {
   pickupCity: string;
   dropoffCity: string;
@@ -251,6 +282,8 @@ interface ShipmentMapProps {
   truckAtPickup?: boolean;
   progress?: number;
   className?: string;
+  /** Ordered stops of a multi-stop load; the route is drawn through each of them */
+  stops?: ShipmentMapStop[];
 }
 
 export function ShipmentMap({ 
@@ -259,11 +292,36 @@ export function ShipmentMap({
   showTruck = false,
   truckAtPickup = true,
   progress = 0,
-  className = ""
+  className = "",
+  stops,
 }: ShipmentMapProps) {
   const pickupCoords = useMemo(() => getCityCoordinates(pickupCity), [pickupCity]);
   const dropoffCoords = useMemo(() => getCityCoordinates(dropoffCity), [dropoffCity]);
   
+  // Intermediate stops we can place on the map; the first and last are the pickup and dropoff markers
+  const viaStops = useMemo(() => {
+    if (!stops || stops.length <= 2) return [];
+    return stops.slice(1, -1).flatMap((stop) => {
+      const coords = getCityCoordinates(stop.city);
+      return coords ? [{ ...stop, coords }] : [];
+    });
+  }, [stops]);
+  
+  const routePoints = useMemo(() => {
+    if (!pickupCoords || !dropoffCoords) return [];
+    return [
+      [pickupCoords.lat, pickupCoords.lng] as [number, number],
+      ...viaStops.map((stop) => [stop.coords.lat, stop.coords.lng] as [number, number]),
+      [dropoffCoords.lat, dropoffCoords.lng] as [number, number],
+    ];
+  }, [pickupCoords, dropoffCoords, viaStops]);
+  
+  const boundsPoints = useMemo(() => {
+    if (routePoints.length > 0) return routePoints;
+    const known = pickupCoords || dropoffCoords;
+    return known ? [[known.lat, known.lng] as [number, number]] : [];
+  }, [routePoints, pickupCoords, dropoffCoords]);
+  
   const truckPosition = useMemo(() => {
     if (!pickupCoords || !dropoffCoords || !showTruck) return null;
     
@@ -272,19 +330,8 @@ export function ShipmentMap({
     }
     
     const progressFraction = Math.min(100, Math.max(0, progress)) / 100;
-    return {
-      lat: pickupCoords.lat + (dropoffCoords.lat - pickupCoords.lat) * progressFraction,
-      lng: pickupCoords.lng + (dropoffCoords.lng - pickupCoords.lng) * progressFraction,
-    };
-  }, [pickupCoords, dropoffCoords, showTruck, truckAtPickup, progress]);
-  
-  const routePoints = useMemo(() => {
-    if (!pickupCoords || !dropoffCoords) return [];
-    return [
-      [pickupCoords.lat, pickupCoords.lng] as [number, number],
-      [dropoffCoords.lat, dropoffCoords.lng] as [number, number],
-    ];
-  }, [pickupCoords, dropoffCoords]);
+    return pointAlongRoute(routePoints, progressFraction);
+  }, [pickupCoords, dropoffCoords, showTruck, truckAtPickup, progress, routePoints]);
   
   if (!pickupCoords && !dropoffCoords) {
     return (
@@ -321,9 +368,9 @@ export function ShipmentMap({
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
         
-        <MapBoundsUpdater pickupCoords={pickupCoords} dropoffCoords={dropoffCoords} />
+        <MapBoundsUpdater points={boundsPoints} />
         
-        {routePoints.length === 2 && (
+        {routePoints.length >= 2 && (
           <Polyline
             positions={routePoints}
             color="#3b82f6"
@@ -344,6 +391,22 @@ export function ShipmentMap({
           </Marker>
         )}
         
+        {viaStops.map((stop) => (
+          <Marker
+            key={stop.sequence}
+            position={[stop.coords.lat, stop.coords.lng]}
+            icon={stopIcon(stop.sequence, stop.stopType, stop.status === "completed")}
+          >
+            <Popup>
+              <div className="text-center">
+                <p className="font-medium">Stop {stop.sequence} ({stop.stopType === "pickup" ? "Pickup" : "Drop"})</p>
+                <p className="text-sm">{stop.city}</p>
+                {stop.status === "completed" && <p className="text-xs text-muted-foreground">Completed</p>}
+              </div>
+            </Popup>
+          </Marker>
+        ))}
+        
         {dropoffCoords && (
           <Marker position={[dropoffCoords.lat, dropoffCoords.lng]} icon={dropoffIcon}>
             <Popup>
@@ -373,6 +436,12 @@ export function ShipmentMap({
           {pickupCity}
         </Badge>
         <Navigation className="h-4 w-4 text-muted-foreground" />
+        {viaStops.length > 0 && (
+          <Badge variant="secondary" className="pointer-events-auto">
+            +{viaStops.length} {viaStops.length === 1 ? "stop" : "stops"}
+          </Badge>
+        )}
+        {viaStops.length > 0 && <Navigation className="h-4 w-4 text-muted-foreground" />}
         <Badge variant="secondary" className="bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300 pointer-events-auto">
           <MapPin className="h-3 w-3 mr-1" />
           {dropoffCity}
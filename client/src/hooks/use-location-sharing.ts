@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { haversineKm } from "@shared/indian-locations";
+
+export interface BufferedPosition {
+  recordedAt: string;
+  lat: number;
+  lng: number;
+  speed: number | null;
+  heading: number | null;
+  accuracy: number | null;
+}
+
+// Keep a point every 30s, or sooner once the phone has moved 100m
+const MIN_INTERVAL_MS = 30 * 1000;
+const MIN_DISTANCE_KM = 0.1;
+const FLUSH_INTERVAL_MS = 60 * 1000;
+const FLUSH_AT_COUNT = 20;
+const UPLOAD_BATCH_SIZE = 200;
+// About two days of points; the oldest go first if the phone never gets signal
+const MAX_BUFFERED = 5000;
+
+function bufferKey(shipmentId: string): string {
+  return `loadsmart.locationBuffer.${shipmentId}`;
+}
+
+function sharingKey(shipmentId: string): string {
+  return `loadsmart.locationSharing.${shipmentId}`;
+}
+
+function readBuffer(shipmentId: string): BufferedPosition[] {
+  try {
+    const stored = localStorage.getItem(bufferKey(shipmentId));
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeBuffer(shipmentId: string, points: BufferedPosition[]): void {
+  if (points.length === 0) {
+    localStorage.removeItem(bufferKey(shipmentId));
+  } else {
+    localStorage.setItem(bufferKey(shipmentId), JSON.stringify(points));
+  }
+}
+
+function toBufferedPosition(position: GeolocationPosition): BufferedPosition {
+  const { latitude, longitude, speed, heading, accuracy } = position.coords;
+  return {
+    recordedAt: new Date(position.timestamp).toISOString(),
+    lat: latitude,
+    lng: longitude,
+    // The browser reports m/s; the server works in km/h
+    speed: speed !== null && !isNaN(speed) ? Math.round(speed * 3.6) : null,
+    heading: heading !== null && !isNaN(heading) ? Math.round(heading) : null,
+    accuracy: accuracy ?? null,
+  };
+}
+
+/**
+ * Streams the phone's location for a shipment. Points are written to
+ * localStorage first and uploaded in batches, so nothing is lost while the
+ * driver has no signal; each point keeps the time it was taken. Sharing
+ * stays on across reloads until the driver turns it off.
+ */
+export function useLocationSharing(shipmentId: string | null) {
+  const isSupported = typeof navigator !== "undefined" && "geolocation" in navigator;
+
+  const [isSharing, setIsSharing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastFixAt, setLastFixAt] = useState<Date | null>(null);
+  const [lastUploadAt, setLastUploadAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const lastKeptRef = useRef<BufferedPosition | null>(null);
+  const flushingRef = useRef(false);
+
+  useEffect(() => {
+    lastKeptRef.current = null;
+    setError(null);
+    setIsSharing(!!shipmentId && localStorage.getItem(sharingKey(shipmentId)) === "on");
+    setPendingCount(shipmentId ? readBuffer(shipmentId).length : 0);
+  }, [shipmentId]);
+
+  const flush = useCallback(async () => {
+    if (!shipmentId || flushingRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
+    try {
+      let buffer = readBuffer(shipmentId);
+      while (buffer.length > 0) {
+        const batch = buffer.slice(0, UPLOAD_BATCH_SIZE);
+        try {
+          await apiRequest("POST", `/api/shipments/${shipmentId}/driver-location`, { positions: batch });
+          setLastUploadAt(new Date());
+          setError(null);
+        } catch (err) {
+          const status = parseInt((err as Error).message, 10);
+          // Network errors, server errors and an expired session are retried later;
+          // anything else the server will never accept, so drop that batch
+          if (isNaN(status) || status >= 500 || status === 401) {
+            setError("Waiting for network to upload your location");
+            return;
+          }
+          setError("Some location points were rejected and discarded");
+        }
+        // Points may have been added while the batch was uploading
+        const sent = new Set(batch.map((point) => point.recordedAt));
+        buffer = readBuffer(shipmentId).filter((point) => !sent.has(point.recordedAt));
+        writeBuffer(shipmentId, buffer);
+        setPendingCount(buffer.length);
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [shipmentId]);
+
+  const stop = useCallback(() => {
+    if (shipmentId) localStorage.removeItem(sharingKey(shipmentId));
+    setIsSharing(false);
+    flush();
+  }, [shipmentId, flush]);
+
+  const start = useCallback(() => {
+    if (!shipmentId || !isSupported) return;
+    localStorage.setItem(sharingKey(shipmentId), "on");
+    setError(null);
+    setIsSharing(true);
+  }, [shipmentId, isSupported]);
+
+  useEffect(() => {
+    if (!shipmentId || !isSharing || !isSupported) return;
+
+    const handlePosition = (position: GeolocationPosition) => {
+      const point = toBufferedPosition(position);
+      setLastFixAt(new Date(point.recordedAt));
+
+      const last = lastKeptRef.current;
+      if (last) {
+        const elapsed = new Date(point.recordedAt).getTime() - new Date(last.recordedAt).getTime();
+        if (elapsed < MIN_INTERVAL_MS && haversineKm(last, point) < MIN_DISTANCE_KM) return;
+      }
+      lastKeptRef.current = point;
+
+      const buffer = [...readBuffer(shipmentId), point].slice(-MAX_BUFFERED);
+      writeBuffer(shipmentId, buffer);
+      setPendingCount(buffer.length);
+      if (buffer.length >= FLUSH_AT_COUNT) flush();
+    };
+
+    const handleError = (err: GeolocationPositionError) => {
+      if (err.code === err.PERMISSION_DENIED) {
+        setError("Location permission was denied. Allow it in your browser settings to share your location.");
+        localStorage.removeItem(sharingKey(shipmentId));
+        setIsSharing(false);
+      } else {
+        setError("Searching for GPS signal");
+      }
+    };
+
+    const watchId = navigator.geolocation.watchPosition(handlePosition, handleError, {
+      enableHighAccuracy: true,
+      maximumAge: 10 * 1000,
+      timeout: 60 * 1000,
+    });
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [shipmentId, isSharing, isSupported, flush]);
+
+  // Upload whatever is buffered, including points left over from before a reload
+  useEffect(() => {
+    if (!shipmentId) return;
+    flush();
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+    window.addEventListener("online", flush);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", flush);
+    };
+  }, [shipmentId, flush]);
+
+  return { isSupported, isSharing, start, stop, pendingCount, lastFixAt, lastUploadAt, error };
+}
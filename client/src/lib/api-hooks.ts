@@ -497,7 +497,7 @@ export function invalidateInvoices() {
 // OTP Hooks
 export interface OtpRequest {
   id: string;
-  requestType: 'trip_start' | 'trip_end' | 'registration';
+  requestType: 'trip_start' | 'stop_complete' | 'trip_end' | 'registration';
   carrierId: string;
   shipmentId: string;
   loadId: string;
@@ -507,6 +507,7 @@ export interface OtpRequest {
   processedBy?: string;
   otpId?: string;
   notes?: string;
+  onSiteSince?: string | null; // Truck was inside the site's geofence when the request was made
   carrier?: { 
     id?: string;
     username: string; 
@@ -540,7 +541,7 @@ export function useOtpRequests(status?: string) {
 // Shipper OTP request with enhanced carrier details (no phone/email)
 export interface ShipperOtpRequest {
   id: string;
-  requestType: 'trip_start' | 'trip_end' | 'registration';
+  requestType: 'trip_start' | 'stop_complete' | 'trip_end' | 'registration';
   carrierId: string;
   shipmentId: string;
   loadId: string;
@@ -676,11 +677,24 @@ export function useRequestRouteStartOtp() {
   });
 }
 
+export function useRequestStopOtp() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ shipmentId, stopId }: { shipmentId: string; stopId: string }) => {
+      const res = await apiRequest('POST', '/api/otp/request-stop', { shipmentId, stopId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/otp/status'] });
+    },
+  });
+}
+
 export function useVerifyOtp() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async ({ shipmentId, otpCode, otpType }: { shipmentId: string; otpCode: string; otpType: 'trip_start' | 'route_start' | 'trip_end' }) => {
-      const res = await apiRequest('POST', '/api/otp/verify', { shipmentId, otpCode, otpType });
+    mutationFn: async ({ shipmentId, otpCode, otpType, stopId }: { shipmentId: string; otpCode: string; otpType: 'trip_start' | 'route_start' | 'stop_complete' | 'trip_end'; stopId?: string }) => {
+      const res = await apiRequest('POST', '/api/otp/verify', { shipmentId, otpCode, otpType, stopId });
       return res.json();
     },
     onSuccess: () => {
@@ -8,6 +8,209 @@ const RECONNECT_DELAY = 3000;
 type MessageHandler = (data: any) => void;
 const handlers: Map<string, Set<MessageHandler>> = new Map();
 
+export type MarketplaceResource = "load" | "invoice" | "negotiation";
+// Resource subscriptions, replayed after every reconnect ("load:<id>" -> refcount)
+const subscriptions: Map<string, number> = new Map();
+
+// Highest event sequence seen, persisted per user so a reload can resume too
+let lastSequence: number | null = null;
+let sequenceUserId: string | null = null;
+
+function sequenceStorageKey(userId: string): string {
+  return `loadsmart.marketplace.lastSequence.${userId}`;
+}
+
+function loadLastSequence(userId: string): number | null {
+  if (sequenceUserId !== userId) {
+    sequenceUserId = userId;
+    const stored = localStorage.getItem(sequenceStorageKey(userId));
+    lastSequence = stored !== null && !isNaN(parseInt(stored, 10)) ? parseInt(stored, 10) : null;
+  }
+  return lastSequence;
+}
+
+function saveLastSequence(sequence: number): void {
+  lastSequence = sequence;
+  if (sequenceUserId) {
+    localStorage.setItem(sequenceStorageKey(sequenceUserId), String(sequence));
+  }
+}
+
+function sendMessage(data: any): void {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(data));
+  }
+}
+
+function dispatchMessage(message: any): void {
+  console.log("[Marketplace] Received:", message.type);
+
+  if (message.type === "resumed") {
+    if (lastSequence === null || message.latestSequence < lastSequence) {
+      // Fresh start, or the server log was reset
+      saveLastSequence(message.latestSequence);
+    }
+    if (message.hasMore) {
+      sendMessage({ type: "resume", afterSequence: lastSequence });
+    }
+  }
+
+  // Logged events carry a per-user sequence; skip ones already handled
+  if (typeof message.seq === "number") {
+    if (lastSequence !== null && message.seq <= lastSequence) {
+      return;
+    }
+    saveLastSequence(message.seq);
+  }
+
+  if (message.type === "load_posted") {
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
+    
+    const loadHandlers = handlers.get("load_posted");
+    loadHandlers?.forEach(handler => handler(message.load));
+  }
+
+  if (message.type === "load_updated") {
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/loads", message.loadId] });
+    
+    const updateHandlers = handlers.get("load_updated");
+    updateHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "bid_received") {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/negotiations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bids"] });
+    
+    const bidHandlers = handlers.get("bid_received");
+    bidHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "bid_countered") {
+    queryClient.invalidateQueries({ queryKey: ["/api/bids"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/bids"] });
+    
+    const counterHandlers = handlers.get("bid_countered");
+    counterHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "bid_accepted") {
+    queryClient.invalidateQueries({ queryKey: ["/api/bids"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/bids"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/settlements"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/settlements/carrier"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/performance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
+    
+    const acceptHandlers = handlers.get("bid_accepted");
+    acceptHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "bid_rejected") {
+    queryClient.invalidateQueries({ queryKey: ["/api/bids"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/bids"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
+    
+    const rejectHandlers = handlers.get("bid_rejected");
+    rejectHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "invoice_update") {
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices/shipper"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/settlements"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/settlements/carrier"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/dashboard/stats"] });
+    
+    const invoiceHandlers = handlers.get("invoice_update");
+    invoiceHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "negotiation_message") {
+    queryClient.invalidateQueries({ queryKey: ["/api/bids/negotiations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/negotiations"] });
+    
+    const negotiationHandlers = handlers.get("negotiation_message");
+    negotiationHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "verification_status_changed") {
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/verification"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+    
+    const verificationHandlers = handlers.get("verification_status_changed");
+    verificationHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "otp_approved") {
+    queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/otp-queue"] });
+    
+    const otpApprovedHandlers = handlers.get("otp_approved");
+    otpApprovedHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "trip_completed") {
+    queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/otp-queue"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/carrier/performance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/settlements"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/settlements/carrier"] });
+    
+    const tripCompletedHandlers = handlers.get("trip_completed");
+    tripCompletedHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "otp_requested") {
+    queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/otp-queue"] });
+    
+    const otpRequestedHandlers = handlers.get("otp_requested");
+    otpRequestedHandlers?.forEach(handler => handler(message));
+  }
+
+  if (message.type === "shipment_document_uploaded") {
+    // Invalidate shipper documents to refresh document categories
+    queryClient.invalidateQueries({ queryKey: ["/api/shipper/documents"] });
+    // Also refresh tracking page data
+    queryClient.invalidateQueries({ queryKey: ["/api/shipper/tracked-shipments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
+    
+    const documentUploadedHandlers = handlers.get("shipment_document_uploaded");
+    documentUploadedHandlers?.forEach(handler => handler(message));
+  }
+
+  // Handle carrier document uploads - notify admin for real-time verification
+  if (message.type === "carrier_document_uploaded") {
+    // Invalidate admin carrier queries to show new documents
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/carriers"] });
+    if (message.carrierId) {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/carriers", message.carrierId] });
+    }
+    // Also refresh verification queue
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/verifications"] });
+    
+    const carrierDocHandlers = handlers.get("carrier_document_uploaded");
+    carrierDocHandlers?.forEach(handler => handler(message));
+  }
+
+  const typeHandlers = handlers.get(message.type);
+  if (typeHandlers) {
+    typeHandlers.forEach(handler => handler(message));
+  }
+}
+
+// The server binds the socket to the session user; role and userId are only
+// kept here to reconnect as the same user and to key the resume position.
 export function connectMarketplace(role: "carrier" | "admin" | "shipper", userId: string) {
   if (socket?.readyState === WebSocket.OPEN) {
     return;
@@ -29,163 +232,19 @@ export function connectMarketplace(role: "carrier" | "admin" | "shipper", userId
     
     // Only send if socket is truly open
     if (this.readyState === WebSocket.OPEN) {
-      this.send(JSON.stringify({
-        type: "identify",
-        role,
-        userId,
-      }));
+      this.send(JSON.stringify({ type: "identify" }));
+      // Replay anything addressed to this user while we were away
+      this.send(JSON.stringify({ type: "resume", afterSequence: loadLastSequence(userId) }));
+      subscriptions.forEach((_count, key) => {
+        const [resource, id] = key.split(":");
+        this.send(JSON.stringify({ type: "subscribe", resource, id }));
+      });
     }
   };
 
   socket.onmessage = (event) => {
     try {
-      const message = JSON.parse(event.data);
-      console.log("[Marketplace] Received:", message.type);
-
-      if (message.type === "load_posted") {
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
-        
-        const loadHandlers = handlers.get("load_posted");
-        loadHandlers?.forEach(handler => handler(message.load));
-      }
-
-      if (message.type === "load_updated") {
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/loads", message.loadId] });
-        
-        const updateHandlers = handlers.get("load_updated");
-        updateHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "bid_received") {
-        queryClient.invalidateQueries({ queryKey: ["/api/admin/negotiations"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/bids"] });
-        
-        const bidHandlers = handlers.get("bid_received");
-        bidHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "bid_countered") {
-        queryClient.invalidateQueries({ queryKey: ["/api/bids"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/bids"] });
-        
-        const counterHandlers = handlers.get("bid_countered");
-        counterHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "bid_accepted") {
-        queryClient.invalidateQueries({ queryKey: ["/api/bids"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/bids"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/dashboard/stats"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/settlements"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/settlements/carrier"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/performance"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
-        
-        const acceptHandlers = handlers.get("bid_accepted");
-        acceptHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "bid_rejected") {
-        queryClient.invalidateQueries({ queryKey: ["/api/bids"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/bids"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/loads"] });
-        
-        const rejectHandlers = handlers.get("bid_rejected");
-        rejectHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "invoice_update") {
-        queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/invoices/shipper"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/settlements"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/settlements/carrier"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/dashboard/stats"] });
-        
-        const invoiceHandlers = handlers.get("invoice_update");
-        invoiceHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "negotiation_message") {
-        queryClient.invalidateQueries({ queryKey: ["/api/bids/negotiations"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/admin/negotiations"] });
-        
-        const negotiationHandlers = handlers.get("negotiation_message");
-        negotiationHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "verification_status_changed") {
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/verification"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/me"] });
-        
-        const verificationHandlers = handlers.get("verification_status_changed");
-        verificationHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "otp_approved") {
-        queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/admin/otp-queue"] });
-        
-        const otpApprovedHandlers = handlers.get("otp_approved");
-        otpApprovedHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "trip_completed") {
-        queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/admin/otp-queue"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/dashboard/stats"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/carrier/performance"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/settlements"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/settlements/carrier"] });
-        
-        const tripCompletedHandlers = handlers.get("trip_completed");
-        tripCompletedHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "otp_requested") {
-        queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/admin/otp-queue"] });
-        
-        const otpRequestedHandlers = handlers.get("otp_requested");
-        otpRequestedHandlers?.forEach(handler => handler(message));
-      }
-
-      if (message.type === "shipment_document_uploaded") {
-        // Invalidate shipper documents to refresh document categories
-        queryClient.invalidateQueries({ queryKey: ["/api/shipper/documents"] });
-        // Also refresh tracking page data
-        queryClient.invalidateQueries({ queryKey: ["/api/shipper/tracked-shipments"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
-        
-        const documentUploadedHandlers = handlers.get("shipment_document_uploaded");
-        documentUploadedHandlers?.forEach(handler => handler(message));
-      }
-
-      // Handle carrier document uploads - notify admin for real-time verification
-      if (message.type === "carrier_document_uploaded") {
-        // Invalidate admin carrier queries to show new documents
-        queryClient.invalidateQueries({ queryKey: ["/api/admin/carriers"] });
-        if (message.carrierId) {
-          queryClient.invalidateQueries({ queryKey: ["/api/admin/carriers", message.carrierId] });
-        }
-        // Also refresh verification queue
-        queryClient.invalidateQueries({ queryKey: ["/api/admin/verifications"] });
-        
-        const carrierDocHandlers = handlers.get("carrier_document_uploaded");
-        carrierDocHandlers?.forEach(handler => handler(message));
-      }
-
-      const typeHandlers = handlers.get(message.type);
-      if (typeHandlers) {
-        typeHandlers.forEach(handler => handler(message));
-      }
+      dispatchMessage(JSON.parse(event.data));
     } catch (error) {
       console.error("[Marketplace] Failed to parse message:", error);
     }
@@ -230,6 +289,51 @@ export function offMarketplaceEvent(eventType: string, handler: MessageHandler):
   handlers.get(eventType)?.delete(handler);
 }
 
+/**
+ * Follow a single load, invoice or negotiation (bid). The server checks access
+ * and answers with "subscribed" or "subscription_error". Returns an unsubscribe.
+ */
+export function subscribeMarketplace(resource: MarketplaceResource, id: string): () => void {
+  const key = `${resource}:${id}`;
+  const count = subscriptions.get(key) || 0;
+  subscriptions.set(key, count + 1);
+  if (count === 0) {
+    sendMessage({ type: "subscribe", resource, id });
+  }
+
+  let active = true;
+  return () => {
+    if (!active) return;
+    active = false;
+    const remaining = (subscriptions.get(key) || 1) - 1;
+    if (remaining > 0) {
+      subscriptions.set(key, remaining);
+    } else {
+      subscriptions.delete(key);
+      sendMessage({ type: "unsubscribe", resource, id });
+    }
+  };
+}
+
+/**
+ * HTTP fallback for environments that can't hold a socket: fetch logged
+ * events since the last seen sequence and run them through the same handlers.
+ */
+export async function pollMarketplaceEvents(userId: string): Promise<number> {
+  const after = loadLastSequence(userId);
+  const response = await fetch(`/api/marketplace/events?after=${after ?? 0}`, { credentials: "include" });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch marketplace events: ${response.status}`);
+  }
+  const { events, latestSequence } = await response.json();
+  if (after === null) {
+    saveLastSequence(latestSequence);
+    return 0;
+  }
+  events.forEach(dispatchMessage);
+  return events.length;
+}
+
 export function isMarketplaceConnected(): boolean {
   return socket?.readyState === WebSocket.OPEN;
 }
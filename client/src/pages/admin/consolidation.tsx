@@ -0,0 +1,547 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Boxes, Loader2, Trash2, Wand2, Truck, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { indianTruckTypes, type LoadConsolidation, type LoadConsolidationMember, type Truck as DbTruck } from "@shared/schema";
+
+interface LoadSummary {
+  id: string;
+  shipperLoadNumber: number | null;
+  status: string | null;
+  pickupCity: string;
+  pickupAddress: string;
+  dropoffCity: string;
+  dropoffAddress: string;
+  goodsToBeCarried: string | null;
+}
+
+type ConsolidationDetail = LoadConsolidation & {
+  carrierName: string | null;
+  truckLicensePlate: string | null;
+  members: (LoadConsolidationMember & { load: LoadSummary | undefined; shipperName: string | null })[];
+};
+
+interface CandidateGroup {
+  key: string;
+  pickupCity: string;
+  dropoffCity: string;
+  pickupDate: string;
+  totalWeight: number;
+  loads: (LoadSummary & { weightTons: number; distance: string | null; shipperName: string | null })[];
+}
+
+interface DirectoryUser {
+  id: string;
+  username: string;
+  companyName: string | null;
+  role: string;
+}
+
+const CONSOLIDATIONS_KEY = "/api/admin/consolidations";
+const CANDIDATES_KEY = "/api/admin/consolidations/candidates";
+
+const STATUS_COLORS: Record<string, string> = {
+  open: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+  awarded: "bg-green-500/10 text-green-600 dark:text-green-400",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+function formatRupees(amount: string | number | null | undefined): string {
+  const value = typeof amount === "number" ? amount : parseFloat(amount || "0");
+  return `Rs. ${Math.round(value).toLocaleString("en-IN")}`;
+}
+
+function loadLabel(load: { id: string; shipperLoadNumber: number | null } | undefined): string {
+  if (!load) return "Unknown load";
+  return load.shipperLoadNumber ? `LD-${String(load.shipperLoadNumber).padStart(3, "0")}` : load.id.slice(0, 8);
+}
+
+function invalidateConsolidations() {
+  queryClient.invalidateQueries({ queryKey: [CONSOLIDATIONS_KEY] });
+  queryClient.invalidateQueries({ queryKey: [CANDIDATES_KEY] });
+}
+
+function AwardDialog({ consolidation, onClose }: { consolidation: ConsolidationDetail; onClose: () => void }) {
+  const { toast } = useToast();
+  const [carrierId, setCarrierId] = useState("");
+  const [truckId, setTruckId] = useState("");
+
+  const { data: users = [] } = useQuery<DirectoryUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+  const carriers = users.filter((user) => user.role === "carrier");
+
+  const { data: carrierDetail, isLoading: isLoadingTrucks } = useQuery<{ trucks: DbTruck[] }>({
+    queryKey: ["/api/admin/carriers", carrierId],
+    enabled: !!carrierId,
+  });
+  const totalWeight = parseFloat(consolidation.totalWeight || "0");
+  const trucks = (carrierDetail?.trucks || []).filter((truck) => truck.capacity >= totalWeight);
+
+  useEffect(() => {
+    setTruckId("");
+  }, [carrierId]);
+
+  const awardMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${CONSOLIDATIONS_KEY}/${consolidation.id}/award`, { carrierId, truckId });
+      return response.json();
+    },
+    onSuccess: (data: { awardedLoadIds?: string[]; failures?: { loadId: string; error: string }[] }) => {
+      invalidateConsolidations();
+      const failed = data.failures?.length || 0;
+      toast({
+        title: "Shared trip awarded",
+        description: `${data.awardedLoadIds?.length || 0} loads booked${failed > 0 ? `, ${failed} failed` : ""}.`,
+        variant: failed > 0 ? "destructive" : "default",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't award trip", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Award Shared Trip</DialogTitle>
+          <DialogDescription>
+            Each of the {consolidation.members.length} loads is booked on this truck at its carrier share, with its own shipment and invoice.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Carrier</Label>
+            <Select value={carrierId} onValueChange={setCarrierId}>
+              <SelectTrigger data-testid="select-award-carrier"><SelectValue placeholder="Select carrier" /></SelectTrigger>
+              <SelectContent>
+                {carriers.map((carrier) => (
+                  <SelectItem key={carrier.id} value={carrier.id}>{carrier.companyName || carrier.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Truck</Label>
+            <Select value={truckId} onValueChange={setTruckId} disabled={!carrierId || isLoadingTrucks}>
+              <SelectTrigger data-testid="select-award-truck">
+                <SelectValue placeholder={carrierId && !isLoadingTrucks && trucks.length === 0 ? `No truck carries ${totalWeight} t` : "Select truck"} />
+              </SelectTrigger>
+              <SelectContent>
+                {trucks.map((truck) => (
+                  <SelectItem key={truck.id} value={truck.id}>
+                    {truck.licensePlate} · {truck.capacity} {truck.capacityUnit || "tons"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="rounded-md bg-muted/50 p-3 text-sm space-y-1">
+            <div className="flex justify-between"><span className="text-muted-foreground">Load on truck</span><span>{totalWeight} t</span></div>
+            <div className="flex justify-between"><span className="text-muted-foreground">Carrier payout</span><span>{formatRupees(consolidation.carrierPayout)}</span></div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => awardMutation.mutate()}
+            disabled={!carrierId || !truckId || awardMutation.isPending}
+            data-testid="button-confirm-award"
+          >
+            {awardMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Award
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ConsolidationCard({ consolidation, onAward }: { consolidation: ConsolidationDetail; onAward: () => void }) {
+  const { toast } = useToast();
+  const isOpen = consolidation.status === "open";
+  const [shipperPrice, setShipperPrice] = useState("");
+  const [carrierPayout, setCarrierPayout] = useState("");
+
+  useEffect(() => {
+    setShipperPrice(consolidation.shipperPrice ? String(parseFloat(consolidation.shipperPrice)) : "");
+    setCarrierPayout(consolidation.carrierPayout ? String(parseFloat(consolidation.carrierPayout)) : "");
+  }, [consolidation.shipperPrice, consolidation.carrierPayout]);
+
+  const onError = (error: Error) => {
+    toast({ title: "Couldn't update trip", description: error.message, variant: "destructive" });
+  };
+
+  const priceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `${CONSOLIDATIONS_KEY}/${consolidation.id}`, { shipperPrice, carrierPayout });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateConsolidations();
+      toast({ title: "Trip price saved", description: "Shares were recalculated." });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (loadId: string) => {
+      const response = await apiRequest("DELETE", `${CONSOLIDATIONS_KEY}/${consolidation.id}/loads/${loadId}`);
+      return response.json();
+    },
+    onSuccess: invalidateConsolidations,
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${CONSOLIDATIONS_KEY}/${consolidation.id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateConsolidations();
+      toast({ title: "Trip cancelled", description: "Its loads are back in the waiting list." });
+    },
+    onError,
+  });
+
+  const capacity = parseFloat(consolidation.capacityTons);
+  const totalWeight = parseFloat(consolidation.totalWeight || "0");
+  const truckLabel = indianTruckTypes.find((t) => t.value === consolidation.truckType)?.label;
+  const priceChanged = shipperPrice !== (consolidation.shipperPrice ? String(parseFloat(consolidation.shipperPrice)) : "")
+    || carrierPayout !== (consolidation.carrierPayout ? String(parseFloat(consolidation.carrierPayout)) : "");
+
+  return (
+    <Card data-testid={`card-consolidation-${consolidation.id}`}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 flex-wrap space-y-0">
+        <div>
+          <CardTitle className="text-base flex items-center gap-2">
+            {consolidation.pickupCity} → {consolidation.dropoffCity}
+            <Badge className={STATUS_COLORS[consolidation.status]}>{consolidation.status}</Badge>
+            {consolidation.source === "auto" && <Badge variant="outline">auto</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Pickup {format(new Date(consolidation.pickupDate), "dd MMM yyyy")}
+            {truckLabel ? ` · ${truckLabel}` : ""}
+            {consolidation.carrierName ? ` · ${consolidation.carrierName}` : ""}
+            {consolidation.truckLicensePlate ? ` (${consolidation.truckLicensePlate})` : ""}
+          </CardDescription>
+        </div>
+        {isOpen && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending}
+              data-testid={`button-cancel-consolidation-${consolidation.id}`}
+            >
+              <XCircle className="h-4 w-4 mr-1" />
+              Break up
+            </Button>
+            <Button
+              size="sm"
+              onClick={onAward}
+              disabled={consolidation.members.length < 2 || priceChanged}
+              data-testid={`button-award-consolidation-${consolidation.id}`}
+            >
+              <Truck className="h-4 w-4 mr-1" />
+              Award
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span>{totalWeight} t of {capacity} t</span>
+            <span className="text-muted-foreground">{Math.max(0, capacity - totalWeight).toFixed(1)} t free</span>
+          </div>
+          <Progress value={Math.min(100, (totalWeight / capacity) * 100)} className="h-1.5" />
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Load</TableHead>
+              <TableHead>Shipper</TableHead>
+              <TableHead className="text-right">Weight</TableHead>
+              <TableHead className="text-right">Distance</TableHead>
+              <TableHead className="text-right">Share</TableHead>
+              <TableHead className="text-right">Shipper pays</TableHead>
+              <TableHead className="text-right">Carrier gets</TableHead>
+              {isOpen && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {consolidation.members.map((member) => (
+              <TableRow key={member.id}>
+                <TableCell>
+                  <div className="font-medium">{loadLabel(member.load)}</div>
+                  <div className="text-xs text-muted-foreground">{member.load?.goodsToBeCarried || ""}</div>
+                </TableCell>
+                <TableCell>{member.shipperName}</TableCell>
+                <TableCell className="text-right">{parseFloat(member.weightTons)} t</TableCell>
+                <TableCell className="text-right">{member.distanceKm ? `${Math.round(parseFloat(member.distanceKm))} km` : "-"}</TableCell>
+                <TableCell className="text-right">{member.shareRatio ? `${(parseFloat(member.shareRatio) * 100).toFixed(1)}%` : "-"}</TableCell>
+                <TableCell className="text-right">{member.shipperShare ? formatRupees(member.shipperShare) : "-"}</TableCell>
+                <TableCell className="text-right">{member.carrierShare ? formatRupees(member.carrierShare) : "-"}</TableCell>
+                {isOpen && (
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeMutation.mutate(member.loadId)}
+                      disabled={removeMutation.isPending}
+                      data-testid={`button-remove-member-${member.loadId}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {isOpen ? (
+          <div className="flex items-end gap-3 flex-wrap">
+            <div className="space-y-1">
+              <Label htmlFor={`trip-price-${consolidation.id}`}>Trip price to shippers (Rs.)</Label>
+              <Input
+                id={`trip-price-${consolidation.id}`}
+                type="number"
+                min="0"
+                className="w-44"
+                value={shipperPrice}
+                onChange={(e) => setShipperPrice(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`trip-payout-${consolidation.id}`}>Carrier payout (Rs.)</Label>
+              <Input
+                id={`trip-payout-${consolidation.id}`}
+                type="number"
+                min="0"
+                className="w-44"
+                value={carrierPayout}
+                onChange={(e) => setCarrierPayout(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => priceMutation.mutate()}
+              disabled={!priceChanged || !(parseFloat(shipperPrice) > 0) || !(parseFloat(carrierPayout) > 0) || priceMutation.isPending}
+              data-testid={`button-save-trip-price-${consolidation.id}`}
+            >
+              {priceMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save price
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-6 text-sm">
+            <span><span className="text-muted-foreground">Trip price:</span> {formatRupees(consolidation.shipperPrice)}</span>
+            <span><span className="text-muted-foreground">Carrier payout:</span> {formatRupees(consolidation.carrierPayout)}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminConsolidationPage() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [selected, setSelected] = useState<Record<string, string[]>>({});
+  const [awarding, setAwarding] = useState<ConsolidationDetail | null>(null);
+
+  const { data: candidates = [], isLoading: isLoadingCandidates } = useQuery<CandidateGroup[]>({
+    queryKey: [CANDIDATES_KEY],
+  });
+  const { data: consolidations = [], isLoading } = useQuery<ConsolidationDetail[]>({
+    queryKey: [CONSOLIDATIONS_KEY, statusFilter === "all" ? "" : `?status=${statusFilter}`],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `${CONSOLIDATIONS_KEY}${statusFilter === "all" ? "" : `?status=${statusFilter}`}`);
+      return response.json();
+    },
+  });
+
+  const matcherMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${CONSOLIDATIONS_KEY}/run-matcher`);
+      return response.json();
+    },
+    onSuccess: (data: { grouped: number; consolidations: number }) => {
+      invalidateConsolidations();
+      toast({ title: "Matcher finished", description: `${data.grouped} loads grouped, ${data.consolidations} new trips.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Matcher failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (group: CandidateGroup) => {
+      const response = await apiRequest("POST", CONSOLIDATIONS_KEY, { loadIds: selected[group.key] || [] });
+      return response.json();
+    },
+    onSuccess: (_data, group) => {
+      setSelected((current) => ({ ...current, [group.key]: [] }));
+      invalidateConsolidations();
+      toast({ title: "Shared trip created", description: "Check the suggested price, then award it." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't consolidate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleLoad = (groupKey: string, loadId: string, checked: boolean) => {
+    setSelected((current) => {
+      const ids = current[groupKey] || [];
+      return { ...current, [groupKey]: checked ? [...ids, loadId] : ids.filter((id) => id !== loadId) };
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6 max-w-7xl mx-auto">
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+          <Boxes className="h-5 w-5 text-primary" />
+        </div>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">
+            PTL Consolidation
+          </h1>
+          <p className="text-muted-foreground">
+            Part-truck loads on the same lane and day sharing one truck, priced by weight and distance
+          </p>
+        </div>
+        <Button onClick={() => matcherMutation.mutate()} disabled={matcherMutation.isPending} data-testid="button-run-matcher">
+          {matcherMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+          Run Matcher
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Waiting PTL Loads</CardTitle>
+          <CardDescription>Pending or priced loads that accept sharing, grouped by lane and pickup day</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoadingCandidates ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : candidates.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No PTL loads waiting</p>
+          ) : (
+            candidates.map((group) => {
+              const selectedIds = selected[group.key] || [];
+              const selectedWeight = group.loads
+                .filter((load) => selectedIds.includes(load.id))
+                .reduce((sum, load) => sum + load.weightTons, 0);
+              return (
+                <div key={group.key} className="rounded-lg border p-4 space-y-3" data-testid={`group-${group.key}`}>
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div>
+                      <p className="font-medium">{group.pickupCity} → {group.dropoffCity}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(group.pickupDate), "dd MMM yyyy")} · {group.loads.length} loads · {group.totalWeight.toFixed(1)} t
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => createMutation.mutate(group)}
+                      disabled={selectedIds.length < 2 || createMutation.isPending}
+                      data-testid={`button-consolidate-${group.key}`}
+                    >
+                      Consolidate {selectedIds.length > 0 ? `${selectedIds.length} (${selectedWeight.toFixed(1)} t)` : ""}
+                    </Button>
+                  </div>
+                  {group.loads.map((load) => (
+                    <label key={load.id} className="flex items-center gap-3 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={selectedIds.includes(load.id)}
+                        onCheckedChange={(checked) => toggleLoad(group.key, load.id, checked === true)}
+                        data-testid={`checkbox-ptl-load-${load.id}`}
+                      />
+                      <span className="font-medium w-20">{loadLabel(load)}</span>
+                      <span className="flex-1">{load.shipperName}</span>
+                      <span className="text-muted-foreground">{load.goodsToBeCarried}</span>
+                      <span className="w-16 text-right">{load.weightTons} t</span>
+                    </label>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold">Shared Trips</h2>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-44" data-testid="select-consolidation-status"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="awarded">Awarded</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : consolidations.length === 0 ? (
+        <p className="text-center text-muted-foreground py-12">No shared trips</p>
+      ) : (
+        consolidations.map((consolidation) => (
+          <ConsolidationCard
+            key={consolidation.id}
+            consolidation={consolidation}
+            onAward={() => setAwarding(consolidation)}
+          />
+        ))
+      )}
+
+      {awarding && <AwardDialog consolidation={awarding} onClose={() => setAwarding(null)} />}
+    </div>
+  );
+}
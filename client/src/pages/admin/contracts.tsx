@@ -0,0 +1,575 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { FileSignature, Loader2, Plus, Trash2, Pencil, AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { indianTruckTypes, type ContractRate, type ContractRateCarrier } from "@shared/schema";
+
+interface ContractUtilisation {
+  contractId: string;
+  name: string;
+  shipperId: string;
+  shipperName: string;
+  lane: string;
+  truckType: string | null;
+  status: string | null;
+  validFrom: string;
+  validUntil: string;
+  commitmentPeriod: "weekly" | "monthly" | "contract";
+  periodStart: string;
+  committedLoads: number;
+  awardedLoads: number;
+  utilisationPercent: number | null;
+  declines: number;
+  fallbacks: number;
+  carriers: { carrierId: string; carrierName: string; carrierRate: number; priority: number; maxLoadsPerPeriod: number | null; awardedLoads: number }[];
+}
+
+type ContractDetail = ContractRate & { carriers: (ContractRateCarrier & { carrierName: string })[] };
+
+interface DirectoryUser {
+  id: string;
+  username: string;
+  companyName: string | null;
+  role: string;
+}
+
+interface CarrierRow {
+  carrierId: string;
+  carrierRate: string;
+  maxLoadsPerPeriod: string;
+}
+
+interface ContractForm {
+  name: string;
+  shipperId: string;
+  pickupCity: string;
+  dropoffCity: string;
+  truckType: string;
+  shipperRate: string;
+  validFrom: string;
+  validUntil: string;
+  committedLoads: string;
+  commitmentPeriod: string;
+  status: string;
+  notes: string;
+  carriers: CarrierRow[];
+}
+
+const PERIOD_LABELS: Record<string, string> = {
+  weekly: "per week",
+  monthly: "per month",
+  contract: "over the contract",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  active: "bg-green-500/10 text-green-600 dark:text-green-400",
+  draft: "bg-muted text-muted-foreground",
+  suspended: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+  expired: "bg-muted text-muted-foreground",
+};
+
+const CONTRACTS_KEY = "/api/admin/contracts";
+const UTILISATION_KEY = "/api/admin/contracts/utilisation";
+
+function emptyForm(): ContractForm {
+  const today = new Date();
+  const nextYear = new Date(today.getFullYear() + 1, today.getMonth(), today.getDate());
+  return {
+    name: "",
+    shipperId: "",
+    pickupCity: "",
+    dropoffCity: "",
+    truckType: "any",
+    shipperRate: "",
+    validFrom: format(today, "yyyy-MM-dd"),
+    validUntil: format(nextYear, "yyyy-MM-dd"),
+    committedLoads: "0",
+    commitmentPeriod: "monthly",
+    status: "active",
+    notes: "",
+    carriers: [{ carrierId: "", carrierRate: "", maxLoadsPerPeriod: "" }],
+  };
+}
+
+function formFromContract(contract: ContractDetail): ContractForm {
+  return {
+    name: contract.name,
+    shipperId: contract.shipperId,
+    pickupCity: contract.pickupCity,
+    dropoffCity: contract.dropoffCity,
+    truckType: contract.truckType || "any",
+    shipperRate: String(parseFloat(contract.shipperRate)),
+    validFrom: format(new Date(contract.validFrom), "yyyy-MM-dd"),
+    validUntil: format(new Date(contract.validUntil), "yyyy-MM-dd"),
+    committedLoads: String(contract.committedLoads ?? 0),
+    commitmentPeriod: contract.commitmentPeriod || "monthly",
+    status: contract.status || "active",
+    notes: contract.notes || "",
+    carriers: contract.carriers
+      .filter((carrier) => carrier.isActive)
+      .map((carrier) => ({
+        carrierId: carrier.carrierId,
+        carrierRate: String(parseFloat(carrier.carrierRate)),
+        maxLoadsPerPeriod: carrier.maxLoadsPerPeriod ? String(carrier.maxLoadsPerPeriod) : "",
+      })),
+  };
+}
+
+function formatRupees(amount: number): string {
+  return `Rs. ${Math.round(amount).toLocaleString("en-IN")}`;
+}
+
+function ContractDialog({ contractId, onClose }: { contractId: string | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const isNew = contractId === null;
+  const [form, setForm] = useState<ContractForm | null>(isNew ? emptyForm() : null);
+
+  const { data: users = [] } = useQuery<DirectoryUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+  const shippers = users.filter((user) => user.role === "shipper");
+  const carriers = users.filter((user) => user.role === "carrier");
+
+  const { data: contract, isLoading } = useQuery<ContractDetail>({
+    queryKey: [CONTRACTS_KEY, contractId],
+    enabled: !isNew,
+  });
+
+  useEffect(() => {
+    if (contract) setForm(formFromContract(contract));
+  }, [contract]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ContractForm) => {
+      const body = {
+        name: values.name,
+        shipperId: values.shipperId,
+        pickupCity: values.pickupCity,
+        dropoffCity: values.dropoffCity,
+        truckType: values.truckType === "any" ? null : values.truckType,
+        shipperRate: values.shipperRate,
+        validFrom: values.validFrom,
+        validUntil: `${values.validUntil}T23:59:59`,
+        committedLoads: values.committedLoads || "0",
+        commitmentPeriod: values.commitmentPeriod,
+        status: values.status,
+        notes: values.notes || null,
+        carriers: values.carriers.map((carrier, index) => ({
+          carrierId: carrier.carrierId,
+          carrierRate: carrier.carrierRate,
+          priority: index + 1,
+          maxLoadsPerPeriod: carrier.maxLoadsPerPeriod || null,
+        })),
+      };
+      const response = isNew
+        ? await apiRequest("POST", CONTRACTS_KEY, body)
+        : await apiRequest("PATCH", `${CONTRACTS_KEY}/${contractId}`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CONTRACTS_KEY] });
+      queryClient.invalidateQueries({ queryKey: [UTILISATION_KEY] });
+      toast({ title: isNew ? "Contract created" : "Contract saved" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save contract", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateCarrier = (index: number, changes: Partial<CarrierRow>) => {
+    if (!form) return;
+    setForm({ ...form, carriers: form.carriers.map((row, i) => (i === index ? { ...row, ...changes } : row)) });
+  };
+
+  const canSave = !!form
+    && !!form.name && !!form.shipperId && !!form.pickupCity && !!form.dropoffCity
+    && parseFloat(form.shipperRate) > 0
+    && form.carriers.length > 0
+    && form.carriers.every((row) => row.carrierId && parseFloat(row.carrierRate) > 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "New Contract Rate" : "Edit Contract Rate"}</DialogTitle>
+          <DialogDescription>
+            Loads the shipper submits on this lane are priced at the contract rate and assigned to the carriers below in order.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!form || isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="contract-name">Name</Label>
+                <Input
+                  id="contract-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  data-testid="input-contract-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Shipper</Label>
+                <Select value={form.shipperId} onValueChange={(shipperId) => setForm({ ...form, shipperId })}>
+                  <SelectTrigger data-testid="select-contract-shipper"><SelectValue placeholder="Select shipper" /></SelectTrigger>
+                  <SelectContent>
+                    {shippers.map((shipper) => (
+                      <SelectItem key={shipper.id} value={shipper.id}>{shipper.companyName || shipper.username}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="contract-pickup">Pickup city</Label>
+                <Input
+                  id="contract-pickup"
+                  value={form.pickupCity}
+                  onChange={(e) => setForm({ ...form, pickupCity: e.target.value })}
+                  data-testid="input-contract-pickup"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="contract-dropoff">Dropoff city</Label>
+                <Input
+                  id="contract-dropoff"
+                  value={form.dropoffCity}
+                  onChange={(e) => setForm({ ...form, dropoffCity: e.target.value })}
+                  data-testid="input-contract-dropoff"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Truck type</Label>
+                <Select value={form.truckType} onValueChange={(truckType) => setForm({ ...form, truckType })}>
+                  <SelectTrigger data-testid="select-contract-truck-type"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any truck type</SelectItem>
+                    {indianTruckTypes.map((truck) => (
+                      <SelectItem key={truck.value} value={truck.value}>{truck.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="contract-shipper-rate">Shipper rate per load (Rs.)</Label>
+                <Input
+                  id="contract-shipper-rate"
+                  type="number"
+                  min="0"
+                  value={form.shipperRate}
+                  onChange={(e) => setForm({ ...form, shipperRate: e.target.value })}
+                  data-testid="input-contract-shipper-rate"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="contract-valid-from">Valid from</Label>
+                <Input
+                  id="contract-valid-from"
+                  type="date"
+                  value={form.validFrom}
+                  onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                  data-testid="input-contract-valid-from"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="contract-valid-until">Valid until</Label>
+                <Input
+                  id="contract-valid-until"
+                  type="date"
+                  value={form.validUntil}
+                  onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+                  data-testid="input-contract-valid-until"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="contract-committed">Committed loads</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="contract-committed"
+                    type="number"
+                    min="0"
+                    className="w-24"
+                    value={form.committedLoads}
+                    onChange={(e) => setForm({ ...form, committedLoads: e.target.value })}
+                    data-testid="input-contract-committed"
+                  />
+                  <Select value={form.commitmentPeriod} onValueChange={(commitmentPeriod) => setForm({ ...form, commitmentPeriod })}>
+                    <SelectTrigger data-testid="select-contract-period"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Status</Label>
+                <Select value={form.status} onValueChange={(status) => setForm({ ...form, status })}>
+                  <SelectTrigger data-testid="select-contract-status"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="draft">Draft</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="suspended">Suspended</SelectItem>
+                    <SelectItem value="expired">Expired</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Carriers, in the order loads are offered</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm({ ...form, carriers: [...form.carriers, { carrierId: "", carrierRate: "", maxLoadsPerPeriod: "" }] })}
+                  data-testid="button-add-contract-carrier"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add carrier
+                </Button>
+              </div>
+              {form.carriers.map((row, index) => (
+                <div key={index} className="grid grid-cols-[24px_1fr_140px_120px_36px] items-center gap-2">
+                  <span className="text-sm text-muted-foreground">{index + 1}.</span>
+                  <Select value={row.carrierId} onValueChange={(carrierId) => updateCarrier(index, { carrierId })}>
+                    <SelectTrigger data-testid={`select-contract-carrier-${index}`}><SelectValue placeholder="Select carrier" /></SelectTrigger>
+                    <SelectContent>
+                      {carriers.map((carrier) => (
+                        <SelectItem key={carrier.id} value={carrier.id}>{carrier.companyName || carrier.username}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Payout (Rs.)"
+                    value={row.carrierRate}
+                    onChange={(e) => updateCarrier(index, { carrierRate: e.target.value })}
+                    data-testid={`input-contract-carrier-rate-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="Max loads"
+                    value={row.maxLoadsPerPeriod}
+                    onChange={(e) => updateCarrier(index, { maxLoadsPerPeriod: e.target.value })}
+                    data-testid={`input-contract-carrier-max-${index}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={form.carriers.length === 1}
+                    onClick={() => setForm({ ...form, carriers: form.carriers.filter((_, i) => i !== index) })}
+                    data-testid={`button-remove-contract-carrier-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="contract-notes">Notes</Label>
+              <Textarea
+                id="contract-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                data-testid="input-contract-notes"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => form && saveMutation.mutate(form)}
+            disabled={!canSave || saveMutation.isPending}
+            data-testid="button-save-contract"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminContractsPage() {
+  const [shipperFilter, setShipperFilter] = useState("all");
+  const [editingId, setEditingId] = useState<string | null | undefined>(undefined);
+
+  const { data: allContracts = [], isLoading } = useQuery<ContractUtilisation[]>({
+    queryKey: [UTILISATION_KEY],
+  });
+
+  const shipperOptions = Array.from(new Map(allContracts.map((row) => [row.shipperId, row.shipperName])).entries());
+  const contracts = shipperFilter === "all"
+    ? allContracts
+    : allContracts.filter((row) => row.shipperId === shipperFilter);
+
+  return (
+    <div className="p-6 space-y-6 max-w-7xl mx-auto">
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+          <FileSignature className="h-5 w-5 text-primary" />
+        </div>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">
+            Contract Rates
+          </h1>
+          <p className="text-muted-foreground">
+            Lane rate cards agreed with regular shippers and their contracted carriers
+          </p>
+        </div>
+        <Button onClick={() => setEditingId(null)} data-testid="button-new-contract">
+          <Plus className="h-4 w-4 mr-2" />
+          New Contract
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 flex-wrap space-y-0">
+          <div>
+            <CardTitle className="text-base">Utilisation</CardTitle>
+            <CardDescription>Loads awarded this commitment period against the shipper's committed volume</CardDescription>
+          </div>
+          <Select value={shipperFilter} onValueChange={setShipperFilter}>
+            <SelectTrigger className="w-56" data-testid="select-shipper-filter"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All shippers</SelectItem>
+              {shipperOptions.map(([id, name]) => (
+                <SelectItem key={id} value={id}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : contracts.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No contracts yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contract</TableHead>
+                  <TableHead>Shipper</TableHead>
+                  <TableHead>Validity</TableHead>
+                  <TableHead className="w-56">Utilisation</TableHead>
+                  <TableHead>Carriers</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contracts.map((row) => (
+                  <TableRow key={row.contractId} data-testid={`row-contract-${row.contractId}`}>
+                    <TableCell>
+                      <div className="font-medium flex items-center gap-2">
+                        {row.name}
+                        <Badge className={STATUS_COLORS[row.status || "active"]}>{row.status}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {row.lane}
+                        {row.truckType ? ` · ${indianTruckTypes.find((t) => t.value === row.truckType)?.label || row.truckType}` : " · any truck"}
+                      </div>
+                    </TableCell>
+                    <TableCell>{row.shipperName}</TableCell>
+                    <TableCell className="text-sm">
+                      {format(new Date(row.validFrom), "dd MMM yyyy")} – {format(new Date(row.validUntil), "dd MMM yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span data-testid={`text-contract-utilisation-${row.contractId}`}>
+                            {row.awardedLoads}{row.committedLoads > 0 ? ` / ${row.committedLoads}` : ""} loads
+                          </span>
+                          <span className="text-muted-foreground">{PERIOD_LABELS[row.commitmentPeriod]}</span>
+                        </div>
+                        {row.utilisationPercent !== null && <Progress value={Math.min(100, row.utilisationPercent)} className="h-1.5" />}
+                        {(row.declines > 0 || row.fallbacks > 0) && (
+                          <div className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                            <AlertTriangle className="h-3 w-3" />
+                            {row.declines} declined, {row.fallbacks} sent to marketplace
+                          </div>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {row.carriers.map((carrier) => (
+                        <div key={carrier.carrierId}>
+                          {carrier.priority}. {carrier.carrierName} · {formatRupees(carrier.carrierRate)}
+                          <span className="text-muted-foreground">
+                            {" "}({carrier.awardedLoads}{carrier.maxLoadsPerPeriod ? `/${carrier.maxLoadsPerPeriod}` : ""})
+                          </span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditingId(row.contractId)}
+                        data-testid={`button-edit-contract-${row.contractId}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {editingId !== undefined && (
+        <ContractDialog contractId={editingId} onClose={() => setEditingId(undefined)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Fuel, Upload, Loader2, AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { DieselPriceIndex } from "@shared/schema";
+
+interface ImportResult {
+  success: boolean;
+  error?: string;
+  imported: number;
+  errors: { line: number; error: string }[];
+}
+
+const SAMPLE_CSV = "date,region,price_per_litre\n2025-01-01,IN,89.62\n2025-01-01,MH,92.15";
+
+export default function AdminDieselIndexPage() {
+  const { toast } = useToast();
+  const [csvText, setCsvText] = useState("");
+  const [source, setSource] = useState("");
+  const [regionFilter, setRegionFilter] = useState("");
+  const [lastResult, setLastResult] = useState<ImportResult | null>(null);
+
+  const { data: entries = [], isLoading } = useQuery<DieselPriceIndex[]>({
+    queryKey: ["/api/admin/diesel-index"],
+  });
+
+  const filteredEntries = useMemo(() => {
+    const region = regionFilter.trim().toUpperCase();
+    return region ? entries.filter(e => e.region === region) : entries;
+  }, [entries, regionFilter]);
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/diesel-index/import", {
+        csv: csvText,
+        source: source || null,
+      });
+      return response.json() as Promise<ImportResult>;
+    },
+    onSuccess: (result) => {
+      setLastResult(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/diesel-index"] });
+      toast({
+        title: "Diesel Index Imported",
+        description: `${result.imported} rows imported${result.errors.length ? `, ${result.errors.length} skipped` : ""}.`,
+      });
+      if (result.errors.length === 0) {
+        setCsvText("");
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message || "Failed to import diesel index",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setCsvText(String(reader.result || ""));
+    reader.readAsText(file);
+    if (!source) setSource(file.name);
+  };
+
+  return (
+    <div className="p-6 space-y-6 max-w-7xl mx-auto">
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+          <Fuel className="h-5 w-5 text-primary" />
+        </div>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">
+            Diesel Price Index
+          </h1>
+          <p className="text-muted-foreground">
+            Daily diesel rates used to adjust freight between pricing and pickup
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            Import CSV
+          </CardTitle>
+          <CardDescription>
+            Columns: date (YYYY-MM-DD or DD-MM-YYYY), region (state code, state name or IN for national), price per litre.
+            Re-importing a date replaces its price.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="diesel-csv-file">CSV File</Label>
+              <Input
+                id="diesel-csv-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                data-testid="input-diesel-csv-file"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="diesel-source">Source</Label>
+              <Input
+                id="diesel-source"
+                placeholder="e.g. IOCL retail price"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                data-testid="input-diesel-source"
+              />
+            </div>
+          </div>
+          <Textarea
+            rows={6}
+            className="font-mono text-sm"
+            placeholder={SAMPLE_CSV}
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            data-testid="textarea-diesel-csv"
+          />
+          <div className="flex justify-end">
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!csvText.trim() || importMutation.isPending}
+              data-testid="button-import-diesel-index"
+            >
+              {importMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Import
+            </Button>
+          </div>
+          {lastResult && lastResult.errors.length > 0 && (
+            <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm space-y-1">
+              <p className="font-medium flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-amber-600" />
+                {lastResult.errors.length} rows skipped
+              </p>
+              {lastResult.errors.slice(0, 10).map((err) => (
+                <p key={err.line} className="text-muted-foreground">
+                  Line {err.line}: {err.error}
+                </p>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <CardTitle className="text-base">Index History</CardTitle>
+            <Input
+              className="w-40"
+              placeholder="Region (e.g. MH)"
+              value={regionFilter}
+              onChange={(e) => setRegionFilter(e.target.value)}
+              data-testid="input-diesel-region-filter"
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Region</TableHead>
+                <TableHead className="text-right">Rs./Litre</TableHead>
+                <TableHead>Source</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin mx-auto text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : filteredEntries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    No diesel index entries yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredEntries.map((entry) => (
+                  <TableRow key={entry.id} data-testid={`row-diesel-index-${entry.id}`}>
+                    <TableCell>{format(new Date(entry.effectiveDate), "dd MMM yyyy")}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.region === "IN" ? "secondary" : "outline"}>
+                        {entry.region === "IN" ? "National" : entry.region}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{parseFloat(entry.pricePerLitre).toFixed(2)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{entry.source || "-"}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,3 +16,7 @@ export { default as NegotiationInbox } from "./negotiation-inbox";
 export { default as AdminOtpQueuePage } from "./otp-queue";
 export { default as AdminNearbyTrucksPage } from "./nearby-trucks";
 export { default as AdminPostLoadPage } from "./post-load";
+export { default as AdminDieselIndexPage } from "./diesel-index";
+export { default as AdminSupportTicketsPage } from "./support-tickets";
+export { default as AdminContractsPage } from "./contracts";
+export { default as AdminConsolidationPage } from "./consolidation";
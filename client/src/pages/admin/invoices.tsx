@@ -113,6 +113,7 @@ interface Invoice {
   createdAt: string;
   sentAt?: string;
   dueDate?: string;
+  overdueAt?: string | null;
   shipperCounterAmount?: string;
   shipperResponseMessage?: string;
   counterContactName?: string;
@@ -249,6 +250,20 @@ const simulatedInvoices: Invoice[] = [
   },
 ];
 
+function isOverdue(invoice: Invoice): boolean {
+  return invoice.status === "overdue" || (!!invoice.overdueAt && invoice.status !== "paid" && invoice.status !== "cancelled");
+}
+
+// Overdue is flagged separately from the workflow status
+function getInvoiceStatusBadges(invoice: Invoice) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {getStatusBadge(invoice.status)}
+      {invoice.status !== "overdue" && isOverdue(invoice) && getStatusBadge("overdue")}
+    </div>
+  );
+}
+
 function getStatusBadge(status: string) {
   switch (status) {
     case "draft":
@@ -420,7 +435,7 @@ export default function AdminInvoicesPage() {
       inv.load?.pickupCity?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       inv.load?.dropoffCity?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       loadId.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus = statusFilter === "all" || inv.status === statusFilter;
+    const matchesStatus = statusFilter === "all" || (statusFilter === "overdue" ? isOverdue(inv) : inv.status === statusFilter);
     const matchesShipperStatus = shipperStatusFilter === "all" || inv.shipperStatus === shipperStatusFilter;
     return matchesSearch && matchesStatus && matchesShipperStatus;
   });
@@ -430,7 +445,7 @@ export default function AdminInvoicesPage() {
     draft: invoices.filter((i) => i.status === "draft").length,
     sent: invoices.filter((i) => i.status === "sent").length,
     paid: invoices.filter((i) => i.status === "paid").length,
-    overdue: invoices.filter((i) => i.status === "overdue").length,
+    overdue: invoices.filter(isOverdue).length,
   };
 
   const totalRevenue = invoices
@@ -611,7 +626,7 @@ export default function AdminInvoicesPage() {
                         <TableCell className="font-medium">
                           Rs. {parseFloat(invoice.totalAmount || '0').toLocaleString('en-IN')}
                         </TableCell>
-                        <TableCell>{getStatusBadge(invoice.status)}</TableCell>
+                        <TableCell>{getInvoiceStatusBadges(invoice)}</TableCell>
                         <TableCell>
                           <div className="flex flex-col gap-1">
                             {getShipperStatusBadge(invoice.shipperStatus)}
@@ -819,7 +834,7 @@ export default function AdminInvoicesPage() {
                               <TableCell className="text-right whitespace-nowrap font-bold">
                                 Rs. {totalAmount.toLocaleString('en-IN')}
                               </TableCell>
-                              <TableCell>{getStatusBadge(invoice.status)}</TableCell>
+                              <TableCell>{getInvoiceStatusBadges(invoice)}</TableCell>
                             </TableRow>
                           );
                         })}
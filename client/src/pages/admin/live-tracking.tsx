@@ -21,6 +21,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RouteAlertsCard } from "@/components/route-alerts-card";
+import type { EtaPrediction } from "@shared/schema";
 
 interface TrackedShipment {
   id: string;
@@ -232,6 +234,13 @@ export default function AdminLiveTrackingPage() {
     refetchInterval: 30000,
   });
 
+  // Historical-model estimate with its interval; 404 while no tracker is live
+  const { data: etaPrediction } = useQuery<EtaPrediction>({
+    queryKey: ["/api/telemetry/eta", selectedShipment?.loadId],
+    enabled: !!selectedShipment?.loadId,
+    refetchInterval: 60000,
+  });
+
   const reviewMutation = useMutation({
     mutationFn: async (data: { shipmentId: string; loadId: string; status: string; comment: string }) => {
       const res = await apiRequest("POST", "/api/finance/reviews", data);
@@ -686,6 +695,8 @@ export default function AdminLiveTrackingPage() {
 
             <ScrollArea className="flex-1">
               <TabsContent value="route" className="p-4 space-y-4 mt-0">
+                <RouteAlertsCard loadId={selectedShipment.loadId} canAcknowledge />
+
                 <Card>
                   <CardHeader className="pb-2">
                     <CardTitle className="text-sm flex items-center gap-2">
@@ -721,6 +732,20 @@ export default function AdminLiveTrackingPage() {
                         ETA: {format(new Date(selectedShipment.eta), "PPp")}
                       </p>
                     )}
+                    {etaPrediction?.etaLowerBound && etaPrediction.etaUpperBound && (
+                      <p className="text-xs text-muted-foreground mt-1" data-testid="text-eta-interval">
+                        Likely between {format(new Date(etaPrediction.etaLowerBound), "MMM d, h:mm a")} and {format(new Date(etaPrediction.etaUpperBound), "MMM d, h:mm a")}
+                      </p>
+                    )}
+                    {etaPrediction && etaPrediction.delayMinutes > 0 && (
+                      <Badge
+                        variant={etaPrediction.delayRisk === "high" ? "destructive" : "secondary"}
+                        className="mt-2"
+                        data-testid="badge-eta-delay"
+                      >
+                        {etaPrediction.delayMinutes} min behind pickup estimate
+                      </Badge>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -117,6 +117,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { useAdminData, type DetailedLoad, type AdminLoad, type AdminCarrier, type LoadBidRecord } from "@/lib/admin-data-store";
 import { useBidsByLoad, type GroupedBidsResponse } from "@/lib/api-hooks";
+import { BiddingWindowStatus, isBiddingWindowMode } from "@/components/bidding-window-status";
 import { format } from "date-fns";
 import type { Load } from "@shared/schema";
 import { indianStates, getCitiesByState } from "@shared/indian-locations";
@@ -1272,6 +1273,22 @@ export default function AdminLoadDetailsPage() {
     },
   });
 
+  const closeBiddingMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/loads/${loadId}/bidding-window/close`);
+      return res.json() as Promise<{ awarded: boolean; reason: string }>;
+    },
+    onSuccess: (result) => {
+      toast({ title: result.awarded ? "Load awarded" : "Bidding closed", description: result.reason });
+      queryClient.invalidateQueries({ queryKey: ["/api/loads", loadId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loads", loadId, "bidding-window"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/loads"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Handle availability toggle
   const handleToggleAvailability = () => {
     const currentStatus = apiLoad?.status;
@@ -2487,6 +2504,23 @@ export default function AdminLoadDetailsPage() {
                     </div>
                   </div>
                 </div>
+                {isBiddingWindowMode(apiLoad.adminPostMode) && (
+                  <div className="mt-4 space-y-2">
+                    <BiddingWindowStatus loadId={apiLoad.id} />
+                    {!apiLoad.biddingClosedAt && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => closeBiddingMutation.mutate()}
+                        disabled={closeBiddingMutation.isPending}
+                        data-testid="button-close-bidding"
+                      >
+                        {closeBiddingMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Close Bidding Now
+                      </Button>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
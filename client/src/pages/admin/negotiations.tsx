@@ -44,11 +44,13 @@ import {
   Send,
   Loader2,
   Phone,
+  Trophy,
 } from "lucide-react";
 import { format } from "date-fns";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { EmptyState } from "@/components/empty-state";
+import { BidEvaluationDialog, AutoAwardSettingsCard } from "@/components/admin/bid-evaluation";
 
 // Format load ID for display - shows LD-1001 (admin ref) or LD-023 (shipper seq)
 function formatLoadId(load: { shipperLoadNumber?: number | null; adminReferenceNumber?: number | null; id: string }): string {
@@ -143,6 +145,7 @@ export default function AdminNegotiationsPage() {
   const [chatBid, setChatBid] = useState<Bid | null>(null);
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
   const [detailBid, setDetailBid] = useState<Bid | null>(null);
+  const [rankingLoadId, setRankingLoadId] = useState<string | null>(null);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState("");
   const chatScrollRef = useRef<HTMLDivElement>(null);
@@ -663,6 +666,8 @@ export default function AdminNegotiationsPage() {
         </Select>
       </div>
 
+      <AutoAwardSettingsCard />
+
       <div className="grid grid-cols-4 gap-4 mb-6">
         <Card>
           <CardContent className="p-4 text-center">
@@ -816,7 +821,18 @@ export default function AdminNegotiationsPage() {
                             Load ID: {formatLoadId(load)} | {loadBids.length} bid(s)
                           </CardDescription>
                         </div>
-                        <Badge variant="outline">{load.status}</Badge>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRankingLoadId(load.id)}
+                            data-testid={`button-rank-bids-${load.id}`}
+                          >
+                            <Trophy className="h-4 w-4 mr-1" />
+                            Rank Bids
+                          </Button>
+                          <Badge variant="outline">{load.status}</Badge>
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent>
@@ -935,6 +951,15 @@ export default function AdminNegotiationsPage() {
         </TabsContent>
       </Tabs>
 
+      <BidEvaluationDialog
+        loadId={rankingLoadId}
+        onOpenChange={(open) => !open && setRankingLoadId(null)}
+        onAccept={(bidId, landedCost) => {
+          acceptMutation.mutate({ bidId, finalPrice: landedCost });
+          setRankingLoadId(null);
+        }}
+      />
+
       {/* Bid Detail Dialog */}
       <Dialog open={detailDialogOpen} onOpenChange={setDetailDialogOpen}>
         <DialogContent className="sm:max-w-[600px] max-h-[85vh] flex flex-col">
@@ -57,12 +57,14 @@ function OtpRequestCard({ request, onApprove, onReject }: OtpRequestCardProps) {
   const typeLabels: Record<string, string> = {
     trip_start: "Trip Start",
     route_start: "Route Start",
+    stop_complete: "Stop Complete",
     trip_end: "Trip End",
     registration: "Registration"
   };
   const typeColors: Record<string, string> = {
     trip_start: "bg-green-500/10 text-green-600 dark:text-green-400",
     route_start: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+    stop_complete: "bg-orange-500/10 text-orange-600 dark:text-orange-400",
     trip_end: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
     registration: "bg-purple-500/10 text-purple-600 dark:text-purple-400"
   };
@@ -87,6 +89,12 @@ function OtpRequestCard({ request, onApprove, onReject }: OtpRequestCardProps) {
                 ) : (
                   <Badge variant="secondary" className="text-xs">Enterprise</Badge>
                 )}
+                {request.onSiteSince && (
+                  <Badge className="text-xs bg-green-500/10 text-green-600 dark:text-green-400" data-testid={`badge-on-site-${request.id}`}>
+                    <MapPin className="h-3 w-3 mr-1" />
+                    On site since {format(new Date(request.onSiteSince), "h:mm a")}
+                  </Badge>
+                )}
               </div>
               <span className="text-xs text-muted-foreground">
                 <Clock className="inline h-3 w-3 mr-1" />
@@ -319,12 +327,14 @@ function ApprovedRequestCard({ request, onRegenerate }: ApprovedRequestCardProps
   const typeLabels: Record<string, string> = {
     trip_start: "Trip Start",
     route_start: "Route Start",
+    stop_complete: "Stop Complete",
     trip_end: "Trip End",
     registration: "Registration"
   };
   const typeColors: Record<string, string> = {
     trip_start: "bg-green-500/10 text-green-600 dark:text-green-400",
     route_start: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+    stop_complete: "bg-orange-500/10 text-orange-600 dark:text-orange-400",
     trip_end: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
     registration: "bg-purple-500/10 text-purple-600 dark:text-purple-400"
   };
@@ -0,0 +1,487 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { LifeBuoy, Loader2, Clock, AlertTriangle, Send, StickyNote, UserCheck, Package, FileText } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDistanceToNow, format } from "date-fns";
+import type { SupportTicket, SupportTicketNote } from "@shared/schema";
+
+interface SlaSummary {
+  target: "first_response" | "resolution";
+  dueAt: string;
+  minutesRemaining: number;
+  breached: boolean;
+}
+
+type QueueTicket = SupportTicket & {
+  requesterName: string | null;
+  requesterRole: string | null;
+  assigneeName: string | null;
+  sla: SlaSummary;
+};
+
+interface TicketDetail extends SupportTicket {
+  sla: SlaSummary;
+  requester: { id: string; username: string; companyName: string | null; email: string | null; phone: string | null; role: string } | null;
+  relatedLoad: { id: string; loadNumber: string; status: string; pickupCity: string; dropoffCity: string } | null;
+  relatedInvoice: { id: string; invoiceNumber: string; status: string; totalAmount: string } | null;
+  messages: { id: number; role: string; content: string; createdAt: string }[];
+  notes: (SupportTicketNote & { authorName: string })[];
+}
+
+interface AdminUser {
+  id: string;
+  username: string;
+  role: string;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  in_progress: "In Progress",
+  waiting_on_user: "Waiting on User",
+  resolved: "Resolved",
+  closed: "Closed",
+};
+
+const PRIORITY_COLORS: Record<string, string> = {
+  urgent: "bg-red-500/10 text-red-600 dark:text-red-400",
+  high: "bg-orange-500/10 text-orange-600 dark:text-orange-400",
+  normal: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+  low: "bg-muted text-muted-foreground",
+};
+
+const ACTIVE_STATUSES = ["open", "in_progress", "waiting_on_user"];
+const QUEUE_KEY = "/api/admin/support-tickets";
+
+function SlaBadge({ ticket }: { ticket: { status: string | null; sla: SlaSummary } }) {
+  if (!ACTIVE_STATUSES.includes(ticket.status || "")) {
+    return <span className="text-xs text-muted-foreground">—</span>;
+  }
+  const label = ticket.sla.target === "first_response" ? "Response" : "Resolve";
+  if (ticket.sla.breached) {
+    return (
+      <Badge variant="destructive" className="gap-1">
+        <AlertTriangle className="h-3 w-3" />
+        {label} overdue
+      </Badge>
+    );
+  }
+  const minutes = ticket.sla.minutesRemaining;
+  const remaining = minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  return (
+    <Badge variant="outline" className={minutes < 60 ? "gap-1 border-amber-500 text-amber-600" : "gap-1"}>
+      <Clock className="h-3 w-3" />
+      {label} in {remaining}
+    </Badge>
+  );
+}
+
+function TicketDetailDialog({ ticketId, onClose }: { ticketId: string; onClose: () => void }) {
+  const { toast } = useToast();
+  const [reply, setReply] = useState("");
+  const [note, setNote] = useState("");
+
+  const detailKey = [QUEUE_KEY, ticketId];
+  const { data: ticket, isLoading } = useQuery<TicketDetail>({
+    queryKey: detailKey,
+    refetchInterval: 30000,
+  });
+
+  const { data: users = [] } = useQuery<AdminUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+  const admins = users.filter((u) => u.role === "admin");
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [QUEUE_KEY] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: Record<string, string | null>) => {
+      const response = await apiRequest("PATCH", `${QUEUE_KEY}/${ticketId}`, updates);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `${QUEUE_KEY}/${ticketId}/reply`, { message: reply }),
+    onSuccess: () => {
+      setReply("");
+      refresh();
+      toast({ title: "Reply sent", description: "The user will see it in their help chat." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Reply failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `${QUEUE_KEY}/${ticketId}/notes`, { note }),
+    onSuccess: () => {
+      setNote("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't add note", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {isLoading || !ticket ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2 flex-wrap">
+                Ticket #{ticket.ticketNumber}
+                <Badge className={PRIORITY_COLORS[ticket.priority || "normal"]}>{ticket.priority}</Badge>
+                <Badge variant="secondary">{ticket.category}</Badge>
+                <SlaBadge ticket={ticket} />
+              </DialogTitle>
+              <DialogDescription>
+                {ticket.subject} · opened by {ticket.source === "bot" ? "the help bot for " : ""}
+                {ticket.requester?.companyName || ticket.requester?.username || "unknown user"}
+                {ticket.createdAt ? ` ${formatDistanceToNow(new Date(ticket.createdAt), { addSuffix: true })}` : ""}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Status</Label>
+                <Select
+                  value={ticket.status || "open"}
+                  onValueChange={(status) => updateMutation.mutate({ status })}
+                >
+                  <SelectTrigger data-testid="select-ticket-status"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Priority</Label>
+                <Select
+                  value={ticket.priority || "normal"}
+                  onValueChange={(priority) => updateMutation.mutate({ priority })}
+                >
+                  <SelectTrigger data-testid="select-ticket-priority"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {["urgent", "high", "normal", "low"].map((priority) => (
+                      <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Assignee</Label>
+                <Select
+                  value={ticket.assignedTo || "unassigned"}
+                  onValueChange={(value) => updateMutation.mutate({ assignedTo: value === "unassigned" ? null : value })}
+                >
+                  <SelectTrigger data-testid="select-ticket-assignee"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {admins.map((admin) => (
+                      <SelectItem key={admin.id} value={admin.id}>{admin.username}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {(ticket.relatedLoad || ticket.relatedInvoice || ticket.requester) && (
+              <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                {ticket.requester && (
+                  <span>{ticket.requester.role} · {ticket.requester.phone || ticket.requester.email || ticket.requester.username}</span>
+                )}
+                {ticket.relatedLoad && (
+                  <span className="flex items-center gap-1">
+                    <Package className="h-4 w-4" />
+                    {ticket.relatedLoad.loadNumber} ({ticket.relatedLoad.pickupCity} → {ticket.relatedLoad.dropoffCity}, {ticket.relatedLoad.status})
+                  </span>
+                )}
+                {ticket.relatedInvoice && (
+                  <span className="flex items-center gap-1">
+                    <FileText className="h-4 w-4" />
+                    {ticket.relatedInvoice.invoiceNumber} ({ticket.relatedInvoice.status}, Rs. {parseFloat(ticket.relatedInvoice.totalAmount).toLocaleString("en-IN")})
+                  </span>
+                )}
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Conversation</p>
+              <ScrollArea className="h-64 rounded-md border p-3">
+                <div className="space-y-3">
+                  {ticket.messages.map((message) => (
+                    <div key={message.id} className={message.role === "user" ? "flex justify-start" : "flex justify-end"}>
+                      <div
+                        className={
+                          message.role === "user"
+                            ? "max-w-[80%] rounded-lg bg-muted px-3 py-2"
+                            : message.role === "agent"
+                              ? "max-w-[80%] rounded-lg bg-green-500/10 px-3 py-2"
+                              : "max-w-[80%] rounded-lg bg-primary/10 px-3 py-2"
+                        }
+                      >
+                        <p className="text-xs font-medium text-muted-foreground mb-1">
+                          {message.role === "user" ? "User" : message.role === "agent" ? "Support" : "Help bot"}
+                          {" · "}
+                          {format(new Date(message.createdAt), "dd MMM, HH:mm")}
+                        </p>
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+              <div className="flex gap-2">
+                <Textarea
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  placeholder="Reply to the user (shown in their help chat)"
+                  rows={2}
+                  data-testid="input-ticket-reply"
+                />
+                <Button
+                  onClick={() => replyMutation.mutate()}
+                  disabled={!reply.trim() || replyMutation.isPending}
+                  data-testid="button-ticket-reply"
+                >
+                  {replyMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Internal Notes</p>
+              {ticket.notes.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic">No notes yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {ticket.notes.map((n) => (
+                    <div key={n.id} className="rounded-md border border-amber-500/30 bg-amber-500/5 px-3 py-2">
+                      <p className="text-xs text-muted-foreground mb-1">
+                        {n.authorName} · {n.createdAt ? formatDistanceToNow(new Date(n.createdAt), { addSuffix: true }) : ""}
+                      </p>
+                      <p className="text-sm whitespace-pre-wrap">{n.note}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Add a note for other admins (not visible to the user)"
+                  rows={2}
+                  data-testid="input-ticket-note"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => noteMutation.mutate()}
+                  disabled={!note.trim() || noteMutation.isPending}
+                  data-testid="button-ticket-note"
+                >
+                  <StickyNote className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminSupportTicketsPage() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [mineOnly, setMineOnly] = useState(false);
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
+
+  const params = new URLSearchParams();
+  if (statusFilter !== "all") params.set("status", statusFilter);
+  if (mineOnly) params.set("assignedTo", "me");
+  const queueUrl = `${QUEUE_KEY}${params.toString() ? `?${params}` : ""}`;
+
+  const { data: tickets = [], isLoading } = useQuery<QueueTicket[]>({
+    queryKey: [queueUrl],
+    refetchInterval: 60000,
+  });
+
+  const assignToMeMutation = useMutation({
+    mutationFn: async (ticketId: string) => apiRequest("PATCH", `${QUEUE_KEY}/${ticketId}`, { assignedTo: "me" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [queueUrl] });
+      queryClient.invalidateQueries({ queryKey: [QUEUE_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Assignment failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const breachedCount = tickets.filter((t) => ACTIVE_STATUSES.includes(t.status || "") && t.sla.breached).length;
+
+  return (
+    <div className="p-6 space-y-6 max-w-7xl mx-auto">
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+          <LifeBuoy className="h-5 w-5 text-primary" />
+        </div>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">
+            Support Tickets
+          </h1>
+          <p className="text-muted-foreground">
+            Help bot conversations escalated to the support team
+          </p>
+        </div>
+        {breachedCount > 0 && (
+          <Badge variant="destructive" className="gap-1" data-testid="badge-sla-breached">
+            <AlertTriangle className="h-3 w-3" />
+            {breachedCount} past SLA
+          </Badge>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 flex-wrap space-y-0">
+          <div>
+            <CardTitle className="text-base">Queue</CardTitle>
+            <CardDescription>Soonest resolution deadline first</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant={mineOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setMineOnly(!mineOnly)}
+              data-testid="button-filter-mine"
+            >
+              <UserCheck className="h-4 w-4 mr-1" />
+              Assigned to me
+            </Button>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-44" data-testid="select-status-filter"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : tickets.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No tickets</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ticket</TableHead>
+                  <TableHead>Requester</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>SLA</TableHead>
+                  <TableHead>Assignee</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tickets.map((ticket) => (
+                  <TableRow
+                    key={ticket.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedTicketId(ticket.id)}
+                    data-testid={`row-ticket-${ticket.id}`}
+                  >
+                    <TableCell>
+                      <div className="font-medium">#{ticket.ticketNumber} · {ticket.subject}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {ticket.category}
+                        {ticket.source === "bot" ? " · escalated by bot" : ""}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{ticket.requesterName || "—"}</div>
+                      <div className="text-xs text-muted-foreground">{ticket.requesterRole}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={PRIORITY_COLORS[ticket.priority || "normal"]}>{ticket.priority}</Badge>
+                    </TableCell>
+                    <TableCell>{STATUS_LABELS[ticket.status || "open"]}</TableCell>
+                    <TableCell><SlaBadge ticket={ticket} /></TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      {ticket.assigneeName || (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => assignToMeMutation.mutate(ticket.id)}
+                          disabled={assignToMeMutation.isPending}
+                          data-testid={`button-assign-me-${ticket.id}`}
+                        >
+                          Assign to me
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedTicketId && (
+        <TicketDetailDialog ticketId={selectedTicketId} onClose={() => setSelectedTicketId(null)} />
+      )}
+    </div>
+  );
+}
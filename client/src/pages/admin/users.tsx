@@ -22,8 +22,11 @@ import {
   Truck,
   Package,
   ShieldCheck,
+  Lock,
+  Unlock,
 } from "lucide-react";
-import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
@@ -60,7 +63,9 @@ import {
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useAdminData, type AdminUser } from "@/lib/admin-data-store";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
+import type { AuthSecurityEvent } from "@shared/schema";
 
 type TabType = "shippers" | "carriers" | "admins";
 
@@ -220,6 +225,52 @@ export default function AdminUsersPage() {
     });
   };
 
+  const { data: securityEvents = [] } = useQuery<AuthSecurityEvent[]>({
+    queryKey: ["/api/admin/security-events"],
+    refetchInterval: 60000,
+  });
+
+  // Users whose most recent event is a lockout that hasn't expired or been cleared
+  const lockedUserIds = useMemo(() => {
+    const latestByUser = new Map<string, AuthSecurityEvent>();
+    securityEvents.forEach(event => {
+      if (event.userId && !latestByUser.has(event.userId)) {
+        latestByUser.set(event.userId, event);
+      }
+    });
+    const locked = new Set<string>();
+    latestByUser.forEach((event, userId) => {
+      if (event.eventType === "lockout" && event.lockedUntil && new Date(event.lockedUntil) > new Date()) {
+        locked.add(userId);
+      }
+    });
+    return locked;
+  }, [securityEvents]);
+
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: string) => apiRequest("POST", `/api/admin/users/${userId}/unlock`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/security-events"] });
+      toast({
+        title: "Lockout Cleared",
+        description: "The user can sign in again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to clear lockout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getUserLabel = (userId: string | null) => {
+    if (!userId) return null;
+    const user = users.find(u => u.userId === userId);
+    return user ? user.name || user.email : null;
+  };
+
   const handleResetPassword = (user: AdminUser) => {
     toast({
       title: "Password Reset",
@@ -761,6 +812,15 @@ export default function AdminUsersPage() {
                               <Key className="h-4 w-4 mr-2" />
                               Reset Password
                             </DropdownMenuItem>
+                            {lockedUserIds.has(user.userId) && (
+                              <DropdownMenuItem onClick={(e) => {
+                                e.stopPropagation();
+                                unlockUserMutation.mutate(user.userId);
+                              }} data-testid={`menu-unlock-${user.userId}`}>
+                                <Unlock className="h-4 w-4 mr-2" />
+                                Clear Lockout
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem onClick={(e) => {
                               e.stopPropagation();
                               handleToggleStatus(user);
@@ -833,6 +893,84 @@ export default function AdminUsersPage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            Login Security Events
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>User / Identifier</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Locked Until</TableHead>
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {securityEvents.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                      No lockouts recorded
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  securityEvents.slice(0, 20).map((event) => {
+                    const isActive = event.eventType === "lockout" && event.userId && lockedUserIds.has(event.userId)
+                      && event.lockedUntil && new Date(event.lockedUntil) > new Date();
+                    return (
+                      <TableRow key={event.id} data-testid={`row-security-event-${event.id}`}>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {event.createdAt ? format(new Date(event.createdAt), "MMM d, HH:mm") : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={event.eventType === "lockout" ? "destructive" : "secondary"}>
+                            {event.eventType === "lockout" ? `Lockout (level ${(event.lockoutLevel || 0) + 1})` : "Unlocked"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {getUserLabel(event.userId) || <span className="font-mono text-xs">{event.identifier}</span>}
+                          <span className="text-muted-foreground text-xs ml-1">({event.scope})</span>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {event.action.replace(/_/g, " ")}
+                          {event.attempts ? <span className="text-muted-foreground text-xs ml-1">{event.attempts} attempts</span> : null}
+                        </TableCell>
+                        <TableCell className="text-sm font-mono">{event.ipAddress || "-"}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {event.lockedUntil ? format(new Date(event.lockedUntil), "MMM d, HH:mm") : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {isActive && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => unlockUserMutation.mutate(event.userId!)}
+                              disabled={unlockUserMutation.isPending}
+                              data-testid={`button-unlock-${event.id}`}
+                            >
+                              <Unlock className="h-3 w-3 mr-1" />
+                              Unlock
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
       <Dialog open={isAddModalOpen} onOpenChange={setIsAddModalOpen}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
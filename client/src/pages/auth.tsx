@@ -138,7 +138,7 @@ export default function AuthPage() {
   const [resetLoading, setResetLoading] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const { login, register } = useAuth();
   const { toast } = useToast();
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -187,7 +187,7 @@ export default function AuthPage() {
       const response = await fetch("/api/otp/registration/send", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phone }),
+        body: JSON.stringify({ phone, language: i18n.language }),
       });
       
       const data = await response.json();
@@ -195,11 +195,13 @@ export default function AuthPage() {
       if (response.ok) {
         setOtpSent(true);
         setOtpCountdown(60);
-        setOtpCode(data.otpCode);
+        setOtpCode(data.otpCode || "");
         setOtpId(data.otpId);
         toast({ 
           title: "OTP Sent!", 
-          description: `Your verification code is: ${data.otpCode}. This code is displayed here for demo purposes.`,
+          description: data.otpCode
+            ? `Your verification code is: ${data.otpCode}. This code is displayed here for demo purposes.`
+            : `A verification code has been sent to ${phone}.`,
           duration: 15000,
         });
       } else {
@@ -260,7 +262,7 @@ export default function AuthPage() {
       const response = await fetch("/api/auth/login-otp/send", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phone: loginPhone }),
+        body: JSON.stringify({ phone: loginPhone, language: i18n.language }),
       });
       
       const data = await response.json();
@@ -269,10 +271,12 @@ export default function AuthPage() {
         setLoginOtpSent(true);
         setLoginOtpCountdown(60);
         setLoginOtpId(data.otpId);
-        setLoginOtpCode(data.otpCode);
+        setLoginOtpCode(data.otpCode || "");
         toast({ 
           title: "OTP Sent!", 
-          description: `Your login code is: ${data.otpCode}. This code is displayed here for demo purposes.`,
+          description: data.otpCode
+            ? `Your login code is: ${data.otpCode}. This code is displayed here for demo purposes.`
+            : `A login code has been sent to ${loginPhone}.`,
           duration: 15000,
         });
       } else {
@@ -451,7 +455,7 @@ export default function AuthPage() {
       const response = await fetch("/api/auth/forgot-password", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ emailOrPhone: resetEmailOrPhone }),
+        body: JSON.stringify({ emailOrPhone: resetEmailOrPhone, language: i18n.language }),
       });
       
       const data = await response.json();
@@ -762,9 +766,11 @@ export default function AuthPage() {
                             <div className="text-center p-4 bg-primary/10 rounded-lg">
                               <Phone className="h-8 w-8 mx-auto mb-2 text-primary" />
                               <p className="text-sm font-medium">OTP sent to {loginPhone}</p>
-                              <p className="text-xs text-muted-foreground mt-1">
-                                Demo Code: <span className="font-mono font-bold">{loginOtpCode}</span>
-                              </p>
+                              {loginOtpCode && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  Demo Code: <span className="font-mono font-bold">{loginOtpCode}</span>
+                                </p>
+                              )}
                             </div>
                             <div className="space-y-2">
                               <label className="text-sm font-medium">Enter 6-digit OTP</label>
@@ -36,7 +36,7 @@ import { StatCard } from "@/components/stat-card";
 import { useCarrierData, type CarrierBid } from "@/lib/carrier-data-store";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth-context";
-import { connectMarketplace, disconnectMarketplace, onMarketplaceEvent } from "@/lib/marketplace-socket";
+import { connectMarketplace, disconnectMarketplace, onMarketplaceEvent, subscribeMarketplace } from "@/lib/marketplace-socket";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
@@ -682,6 +682,17 @@ export default function CarrierBidsPage() {
     }
   }, [user?.id, user?.role, toast, updateBidStatus]);
 
+  // Follow the open bid's negotiation and load while its detail is showing
+  useEffect(() => {
+    if (!selectedBid) return;
+    const unsubNegotiation = subscribeMarketplace("negotiation", selectedBid.bidId);
+    const unsubLoad = subscribeMarketplace("load", selectedBid.loadId);
+    return () => {
+      unsubNegotiation();
+      unsubLoad();
+    };
+  }, [selectedBid?.bidId, selectedBid?.loadId]);
+
   const filteredBids = useMemo(() => {
     return bids.filter((bid) => {
       const matchesStatus = statusFilter === "all" || bid.bidStatus === statusFilter;
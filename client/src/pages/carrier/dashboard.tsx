@@ -26,6 +26,7 @@ import {
   ResponsiveContainer 
 } from "recharts";
 import type { Truck as TruckType, Load, Shipment } from "@shared/schema";
+import { CarrierContractLoadsCard } from "@/components/contract-loads";
 
 const formatCurrency = (amount: number): string => {
   return `Rs. ${amount.toLocaleString("en-IN")}`;
@@ -554,6 +555,8 @@ export default function CarrierDashboard() {
         </div>
       </div>
 
+      <CarrierContractLoadsCard />
+
       <div className="grid gap-6 lg:grid-cols-3">
         <Card className="lg:col-span-2">
           <CardHeader className="flex flex-row items-center justify-between gap-4 pb-4">
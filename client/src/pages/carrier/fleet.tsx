@@ -4,7 +4,7 @@ import {
   Plus, Search, Truck, MapPin, Package, Edit, Trash2, AlertTriangle, 
   CheckCircle, Clock, Wrench, Filter, ChevronDown, ChevronRight,
   Fuel, Calendar, Shield, FileText, User, Settings, TrendingUp, Eye, Loader2, Pencil,
-  Upload, ExternalLink
+  Upload, ExternalLink, Satellite, KeyRound, Copy
 } from "lucide-react";
 import { DocumentUploadWithCamera, parseDocumentValue } from "@/components/DocumentUploadWithCamera";
 import { Button } from "@/components/ui/button";
@@ -45,7 +45,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Label } from "@/components/ui/label";
 import { DialogFooter } from "@/components/ui/dialog";
-import type { Truck as DbTruck } from "@shared/schema";
+import type { Truck as DbTruck, GpsDevice } from "@shared/schema";
 import { indianStates } from "@shared/indian-locations";
 import { format, differenceInDays } from "date-fns";
 import { 
@@ -189,6 +189,202 @@ function TruckDocumentCard({ title, icon: Icon, documentUrl, expiryDate, documen
   );
 }
 
+type GpsDeviceView = Omit<GpsDevice, "apiKeyHash"> & { licensePlate: string | null };
+
+function TruckGpsDevices({ truckId }: { truckId: string }) {
+  const { toast } = useToast();
+  const [deviceType, setDeviceType] = useState<GpsDevice["deviceType"]>("ais140");
+  const [deviceIdentifier, setDeviceIdentifier] = useState("");
+  const [label, setLabel] = useState("");
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+
+  const devicesKey = ["/api/gps-devices", `?truckId=${truckId}`];
+  const { data: devices = [], isLoading } = useQuery<GpsDeviceView[]>({
+    queryKey: devicesKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/gps-devices?truckId=${truckId}`);
+      return response.json();
+    },
+  });
+
+  const onKeyIssued = (data: { apiKey: string }) => {
+    setIssuedKey(data.apiKey);
+    queryClient.invalidateQueries({ queryKey: ["/api/gps-devices"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/gps-devices", { truckId, deviceType, deviceIdentifier, label });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      onKeyIssued(data);
+      setDeviceIdentifier("");
+      setLabel("");
+    },
+    onError,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (deviceId: string) => {
+      const response = await apiRequest("POST", `/api/gps-devices/${deviceId}/rotate-key`);
+      return response.json();
+    },
+    onSuccess: onKeyIssued,
+    onError,
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (deviceId: string) => {
+      const response = await apiRequest("POST", `/api/gps-devices/${deviceId}/deactivate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gps-devices"] });
+      toast({ title: "Device Deactivated", description: "Positions from this device will no longer be accepted." });
+    },
+    onError,
+  });
+
+  const copyKey = () => {
+    if (issuedKey) {
+      navigator.clipboard.writeText(issuedKey);
+      toast({ title: "Copied", description: "Device key copied to clipboard." });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {issuedKey && (
+        <Card className="border-amber-300 dark:border-amber-700">
+          <CardContent className="pt-4 space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              Device key - shown only once
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={issuedKey} className="font-mono text-xs" data-testid="input-issued-device-key" />
+              <Button variant="outline" size="icon" onClick={copyKey} data-testid="button-copy-device-key">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Configure it on the device as the X-Device-Key header. AIS-140 units on the TCP feed only need their IMEI registered.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : devices.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No GPS devices registered for this truck</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Last Fix</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {devices.map((device) => (
+              <TableRow key={device.id} data-testid={`row-gps-device-${device.id}`}>
+                <TableCell>
+                  <div className="font-medium">{device.label || (device.deviceType === "ais140" ? "AIS-140 tracker" : "Driver app")}</div>
+                  <div className="text-xs text-muted-foreground font-mono">{device.deviceIdentifier}</div>
+                </TableCell>
+                <TableCell className="font-mono text-xs">{device.apiKeyPrefix}...</TableCell>
+                <TableCell className="text-sm">
+                  {!device.isActive ? (
+                    <Badge variant="secondary">Deactivated</Badge>
+                  ) : device.lastFixAt ? (
+                    format(new Date(device.lastFixAt), "dd MMM, HH:mm")
+                  ) : (
+                    <span className="text-muted-foreground">Never</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {device.isActive && (
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => rotateMutation.mutate(device.id)}
+                        disabled={rotateMutation.isPending}
+                        data-testid={`button-rotate-key-${device.id}`}
+                      >
+                        New Key
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deactivateMutation.mutate(device.id)}
+                        disabled={deactivateMutation.isPending}
+                        data-testid={`button-deactivate-device-${device.id}`}
+                      >
+                        Deactivate
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm">Register a Device</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={deviceType} onValueChange={setDeviceType}>
+                <SelectTrigger data-testid="select-gps-device-type"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ais140">AIS-140 tracker</SelectItem>
+                  <SelectItem value="mobile_app">Driver app</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{deviceType === "ais140" ? "IMEI" : "Phone / install ID"}</Label>
+              <Input
+                value={deviceIdentifier}
+                onChange={(e) => setDeviceIdentifier(e.target.value)}
+                placeholder={deviceType === "ais140" ? "15 digit IMEI" : ""}
+                data-testid="input-gps-device-identifier"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Label (optional)</Label>
+            <Input value={label} onChange={(e) => setLabel(e.target.value)} data-testid="input-gps-device-label" />
+          </div>
+          <Button
+            onClick={() => registerMutation.mutate()}
+            disabled={deviceIdentifier.trim().length < 4 || registerMutation.isPending}
+            data-testid="button-register-gps-device"
+          >
+            {registerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Register Device
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 function TruckDetailDialog({ truck, onDocumentUpdate }: { truck: CarrierTruck; onDocumentUpdate?: (truckId: string, field: string, value: string) => void }) {
   const [isUploading, setIsUploading] = useState(false);
   
@@ -219,10 +415,14 @@ function TruckDetailDialog({ truck, onDocumentUpdate }: { truck: CarrierTruck; o
       </DialogHeader>
       
       <Tabs defaultValue="overview" className="mt-4">
-        <TabsList className="w-full grid grid-cols-3">
+        <TabsList className="w-full grid grid-cols-4">
           <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
           <TabsTrigger value="specs" data-testid="tab-specs">Specifications</TabsTrigger>
           <TabsTrigger value="documents" data-testid="tab-documents">Documents</TabsTrigger>
+          <TabsTrigger value="gps" data-testid="tab-gps">
+            <Satellite className="h-4 w-4 mr-1" />
+            GPS
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="overview" className="space-y-4 mt-4">
@@ -377,7 +577,10 @@ function TruckDetailDialog({ truck, onDocumentUpdate }: { truck: CarrierTruck; o
             />
           </div>
         </TabsContent>
-        
+
+        <TabsContent value="gps" className="mt-4">
+          <TruckGpsDevices truckId={truck.truckId} />
+        </TabsContent>
       </Tabs>
     </DialogContent>
   );
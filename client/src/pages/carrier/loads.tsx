@@ -31,6 +31,7 @@ import {
 } from "@/components/ui/dialog";
 import { EmptyState } from "@/components/empty-state";
 import { StatCard } from "@/components/stat-card";
+import { BiddingWindowStatus, isBiddingWindowMode } from "@/components/bidding-window-status";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -71,6 +72,7 @@ interface CarrierLoad {
   carrierAdvancePercent?: number | null;
   cargoDescription?: string | null;
   postedAt?: string | null;
+  adminPostMode?: string | null;
 }
 
 interface ShipperRatingData {
@@ -428,6 +430,7 @@ export default function CarrierLoadsPage() {
     priceFixed: boolean;
     createdAt: string;
     postedAt: string | null;
+    adminPostMode: string | null;
     pickupDate: string | null;
     deliveryDate: string | null;
     carrierAdvancePercent: number | null;
@@ -491,6 +494,7 @@ export default function CarrierLoadsPage() {
       postedAt: load.postedAt,
       shipperLoadNumber: load.shipperLoadNumber,
       adminReferenceNumber: load.adminReferenceNumber,
+      adminPostMode: load.adminPostMode,
     }));
   }, [rawApiLoads]);
 
@@ -678,6 +682,12 @@ export default function CarrierLoadsPage() {
 
   // Direct accept from card button - for solo carriers or when no truck/driver selection needed
   const handleDirectAccept = async (load: CarrierLoad & { matchScore: number }) => {
+    // Sealed and auction loads are won by bidding, not by accepting the posted price
+    if (isBiddingWindowMode(load.adminPostMode)) {
+      handlePlaceBid(load);
+      return;
+    }
+
     const price = getCarrierPrice(load);
     
     if (load.isSimulated) {
@@ -730,7 +740,7 @@ export default function CarrierLoadsPage() {
     
     const amount = parseInt(bidAmount);
     const carrierPrice = getCarrierPrice(selectedLoad);
-    const isCounterBid = !selectedLoad.priceFixed && amount !== carrierPrice;
+    const isCounterBid = !selectedLoad.priceFixed && !isBiddingWindowMode(selectedLoad.adminPostMode) && amount !== carrierPrice;
     
     if (selectedLoad.isSimulated) {
       handleSimulatedBid(selectedLoad, amount, isCounterBid);
@@ -930,7 +940,7 @@ export default function CarrierLoadsPage() {
                     <div className="flex items-center justify-between gap-2">
                       <span className="text-lg font-bold">{formatCurrency(getCarrierPrice(load))}</span>
                       <div className="flex gap-1">
-                        {load.myBid ? (
+                        {load.myBid && load.adminPostMode !== "auction" ? (
                           <Button size="sm" disabled data-testid={`button-bid-rec-${load.id}`}>
                             Bid Placed
                           </Button>
@@ -1106,6 +1116,11 @@ export default function CarrierLoadsPage() {
                       <><Unlock className="h-3 w-3 mr-1" />Negotiable</>
                     )}
                   </Badge>
+                  {isBiddingWindowMode(load.adminPostMode) && (
+                    <Badge variant="outline" data-testid={`badge-bidding-window-${load.id}`}>
+                      {load.adminPostMode === "sealed" ? "Sealed Bid" : "Auction"}
+                    </Badge>
+                  )}
                 </div>
                 
                                 
@@ -1115,7 +1130,7 @@ export default function CarrierLoadsPage() {
                     <p className="text-xl font-bold">{formatCurrency(getCarrierPrice(load))}</p>
                   </div>
                   <div className="flex gap-2">
-                    {load.myBid ? (
+                    {load.myBid && load.adminPostMode !== "auction" ? (
                       <Button disabled data-testid={`button-bid-${load.id}`}>
                         Bid Placed
                       </Button>
@@ -1465,7 +1480,7 @@ export default function CarrierLoadsPage() {
               </div>
               
               {/* Mode Toggle for negotiable loads */}
-              {!selectedLoad.priceFixed && (
+              {!selectedLoad.priceFixed && !isBiddingWindowMode(selectedLoad.adminPostMode) && (
                 <Tabs value={dialogMode} onValueChange={(v) => setDialogMode(v as "accept" | "bid")} className="w-full">
                   <TabsList className="grid w-full grid-cols-2">
                     <TabsTrigger value="accept" data-testid="tab-accept">
@@ -1552,6 +1567,9 @@ export default function CarrierLoadsPage() {
               {/* Bid Mode View */}
               {dialogMode === "bid" && (
                 <div className="space-y-4">
+                  {isBiddingWindowMode(selectedLoad.adminPostMode) && (
+                    <BiddingWindowStatus loadId={selectedLoad.id} />
+                  )}
                   <div className="p-4 bg-muted/50 rounded-lg border">
                     <div className="flex items-center justify-between mb-3">
                       <span className="text-sm text-muted-foreground">Admin Price</span>
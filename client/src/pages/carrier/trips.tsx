@@ -4,7 +4,7 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { 
   MapPin, Truck, Clock, CheckCircle, Upload,
   Route, Calendar, TrendingUp, ArrowRight, Map as MapIcon, Lock,
-  Package, Building2,
+  Package, Building2, Boxes,
   FileText, Eye, Download, Check, Loader2, Camera, SwitchCamera, X
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -25,7 +25,7 @@ import { format, addHours } from "date-fns";
 import { useAuth } from "@/lib/auth-context";
 import { useShipments, useLoads, useShipmentsTracking } from "@/lib/api-hooks";
 import { onMarketplaceEvent } from "@/lib/marketplace-socket";
-import type { Shipment, Load, Driver, Truck as DbTruck } from "@shared/schema";
+import type { Shipment, Load, LoadStop, Driver, Truck as DbTruck } from "@shared/schema";
 import { OtpTripActions } from "@/components/otp-trip-actions";
 import { ShipmentMap } from "@/components/shipment-map";
 
@@ -58,6 +58,26 @@ interface ShipmentDocument {
   createdAt: Date | null;
 }
 
+// Shared PTL trip as the awarded carrier sees it: every load on the truck
+interface SharedTrip {
+  id: string;
+  totalWeight: string | null;
+  carrierPayout?: string | null;
+  members?: {
+    loadId: string;
+    weightTons: string;
+    carrierShare: string | null;
+    load?: {
+      shipperLoadNumber: number | null;
+      pickupCity: string;
+      pickupAddress: string;
+      dropoffCity: string;
+      dropoffAddress: string;
+      goodsToBeCarried: string | null;
+    };
+  }[];
+}
+
 interface RealShipment {
   id: string;
   loadId: string;
@@ -279,6 +299,19 @@ export default function TripsPage() {
   }, [selectedTrip, trackingShipments, loads]);
 
   const shipmentId = matchedShipment?.id;
+  const matchedLoad: Load | undefined = matchedShipment
+    ? (matchedShipment as any).load || loads.find(l => l.id === matchedShipment.loadId)
+    : undefined;
+
+  const { data: loadStops = [] } = useQuery<LoadStop[]>({
+    queryKey: ["/api/loads", matchedShipment?.loadId, "stops"],
+    enabled: !!matchedLoad?.isMultiStop,
+  });
+
+  const { data: sharedTrip } = useQuery<SharedTrip | null>({
+    queryKey: ["/api/loads", matchedShipment?.loadId, "consolidation"],
+    enabled: !!matchedLoad?.consolidationId,
+  });
   
   const { data: shipmentDocuments = [], refetch: refetchDocuments } = useQuery<ShipmentDocument[]>({
     queryKey: ["/api/shipments", shipmentId, "documents"],
@@ -808,10 +841,42 @@ export default function TripsPage() {
                                 showTruck={(matchedShipment as any)?.routeStartOtpVerified || false}
                                 truckAtPickup={!(matchedShipment as any)?.routeStartOtpVerified}
                                 progress={selectedTrip.progress}
+                                stops={loadStops}
                                 className="h-[350px]"
                               />
                             </CardContent>
                           </Card>
+
+                          {sharedTrip?.members && (
+                            <Card data-testid="card-shared-trip">
+                              <CardHeader className="pb-2">
+                                <CardTitle className="text-base flex items-center gap-2">
+                                  <Boxes className="h-5 w-5 text-primary" />
+                                  Shared Truck - {sharedTrip.members.length} loads
+                                </CardTitle>
+                                <CardDescription>
+                                  {parseFloat(sharedTrip.totalWeight || "0")} t in total
+                                  {sharedTrip.carrierPayout ? ` · Rs. ${Math.round(parseFloat(sharedTrip.carrierPayout)).toLocaleString("en-IN")} for the trip` : ""}
+                                </CardDescription>
+                              </CardHeader>
+                              <CardContent className="space-y-2">
+                                {sharedTrip.members.map((member) => (
+                                  <div key={member.loadId} className="flex items-center justify-between gap-3 text-sm rounded-md bg-muted/50 p-2">
+                                    <div className="min-w-0">
+                                      <p className="font-medium">
+                                        LD-{String(member.load?.shipperLoadNumber ?? "").padStart(3, "0")}
+                                        {member.load?.goodsToBeCarried ? ` · ${member.load.goodsToBeCarried}` : ""}
+                                      </p>
+                                      <p className="text-xs text-muted-foreground truncate">
+                                        {member.load?.pickupAddress || member.load?.pickupCity} → {member.load?.dropoffAddress || member.load?.dropoffCity}
+                                      </p>
+                                    </div>
+                                    <span className="shrink-0">{parseFloat(member.weightTons)} t</span>
+                                  </div>
+                                ))}
+                              </CardContent>
+                            </Card>
+                          )}
                           
                           <div className="grid grid-cols-2 gap-4">
                             <Card className={`${matchedShipment.startOtpVerified ? "border-green-200 dark:border-green-800" : ""}`}>
@@ -182,7 +182,7 @@ export default function InTransit() {
                       </div>
                       <div className="flex items-center gap-1">
                         <Fuel className="w-3 h-3" />
-                        {vehicle.fuelLevel}%
+                        {vehicle.hasCanBus === false ? "-" : `${vehicle.fuelLevel}%`}
                       </div>
                       <div className="flex items-center gap-1">
                         <Box className="w-3 h-3" />
@@ -282,7 +282,7 @@ export default function InTransit() {
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="text-xs text-muted-foreground uppercase tracking-wide">RPM</p>
-                            <p className="text-2xl font-bold">{selectedVehicle.rpm}</p>
+                            <p className="text-2xl font-bold">{selectedVehicle.hasCanBus === false ? "-" : selectedVehicle.rpm}</p>
                             <p className="text-xs text-muted-foreground">revs/min</p>
                           </div>
                           <RotateCcw className="w-8 h-8 text-muted-foreground" />
@@ -295,10 +295,12 @@ export default function InTransit() {
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="text-xs text-muted-foreground uppercase tracking-wide">Fuel</p>
-                            <p className={`text-2xl font-bold ${getFuelColor(selectedVehicle.fuelLevel)}`}>
-                              {selectedVehicle.fuelLevel}%
+                            <p className={`text-2xl font-bold ${selectedVehicle.hasCanBus === false ? "" : getFuelColor(selectedVehicle.fuelLevel)}`}>
+                              {selectedVehicle.hasCanBus === false ? "-" : `${selectedVehicle.fuelLevel}%`}
                             </p>
-                            <Progress value={selectedVehicle.fuelLevel} className="h-1.5 mt-1" />
+                            {selectedVehicle.hasCanBus !== false && (
+                              <Progress value={selectedVehicle.fuelLevel} className="h-1.5 mt-1" />
+                            )}
                           </div>
                           <Fuel className={`w-8 h-8 ${getFuelColor(selectedVehicle.fuelLevel)}`} />
                         </div>
@@ -310,8 +312,8 @@ export default function InTransit() {
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="text-xs text-muted-foreground uppercase tracking-wide">Engine Temp</p>
-                            <p className={`text-2xl font-bold ${getTempColor(selectedVehicle.engineTemp)}`}>
-                              {selectedVehicle.engineTemp}
+                            <p className={`text-2xl font-bold ${selectedVehicle.hasCanBus === false ? "" : getTempColor(selectedVehicle.engineTemp)}`}>
+                              {selectedVehicle.hasCanBus === false ? "-" : selectedVehicle.engineTemp}
                             </p>
                             <p className="text-xs text-muted-foreground">Celsius</p>
                           </div>
@@ -329,8 +331,8 @@ export default function InTransit() {
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="text-xs text-muted-foreground uppercase tracking-wide">Battery</p>
-                            <p className={`text-2xl font-bold ${getBatteryColor(selectedVehicle.batteryVoltage)}`}>
-                              {selectedVehicle.batteryVoltage}V
+                            <p className={`text-2xl font-bold ${selectedVehicle.batteryVoltage ? getBatteryColor(selectedVehicle.batteryVoltage) : ""}`}>
+                              {selectedVehicle.batteryVoltage ? `${selectedVehicle.batteryVoltage}V` : "-"}
                             </p>
                             <p className="text-xs text-muted-foreground">Voltage</p>
                           </div>
@@ -442,14 +444,14 @@ export default function InTransit() {
                       <div className="flex items-center justify-between">
                         <span className="text-sm text-muted-foreground">Low Fuel (&lt;25%)</span>
                         <span className="font-semibold text-red-500">
-                          {vehicles.filter(v => v.fuelLevel < 25).length}
+                          {vehicles.filter(v => v.hasCanBus !== false && v.fuelLevel < 25).length}
                         </span>
                       </div>
                       <Separator />
                       <div className="flex items-center justify-between">
                         <span className="text-sm text-muted-foreground">High Temp (&gt;100C)</span>
                         <span className="font-semibold text-red-500">
-                          {vehicles.filter(v => v.engineTemp > 100).length}
+                          {vehicles.filter(v => v.hasCanBus !== false && v.engineTemp > 100).length}
                         </span>
                       </div>
                       <Separator />
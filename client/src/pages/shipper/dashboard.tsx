@@ -22,6 +22,7 @@ import {
   ResponsiveContainer 
 } from "recharts";
 import type { Load, Invoice } from "@shared/schema";
+import { ShipperContractsCard } from "@/components/contract-loads";
 
 interface TrackedShipment {
   id: string;
@@ -250,6 +251,8 @@ export default function ShipperDashboard() {
         />
       </div>
 
+      <ShipperContractsCard />
+
       <div className="grid gap-6 lg:grid-cols-3">
         <Card className="lg:col-span-2">
           <CardHeader className="flex flex-row items-center justify-between gap-4 pb-4">
@@ -7,3 +7,4 @@ export { default as DeliveredLoadsPage } from "./delivered-loads";
 export { default as ShipperDocumentsPage } from "./documents";
 export { default as ShipperInvoicesPage } from "./invoices";
 export { default as ShipperOnboardingPage } from "./onboarding";
+export { default as RecurringLoadsPage } from "./recurring-loads";
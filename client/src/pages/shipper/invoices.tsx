@@ -280,37 +280,15 @@ export default function ShipperInvoicesPage() {
   };
 
   const handleDownloadPDF = (invoice: Invoice) => {
-    const content = `
-INVOICE - ${invoice.invoiceNumber}
-========================================
-Date: ${formatDate(invoice.createdAt)}
-Due Date: ${formatDate(invoice.dueDate)}
-Status: ${invoice.status.toUpperCase()}
-Route: ${invoice.loadRoute || 'N/A'}
-
-LINE ITEMS:
-${invoice.lineItems?.map(item => `- ${item.description}: ${formatCurrency(item.amount)}`).join('\n') || 'No line items'}
-
-----------------------------------------
-TOTAL: ${formatCurrency(invoice.totalAmount)}
-========================================
-${invoice.paymentReference ? `Payment Ref: ${invoice.paymentReference}` : ''}
-    `;
-    
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${invoice.invoiceNumber}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Invoice Downloaded",
-      description: `${invoice.invoiceNumber} has been downloaded.`,
-    });
+    if (invoice.id.startsWith("INV-SHP-")) {
+      toast({
+        title: "PDF Unavailable",
+        description: `${invoice.invoiceNumber} is a sample invoice and has no PDF.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    window.open(`/api/invoices/${invoice.id}/pdf?download=1`, "_blank");
   };
 
   if (isLoading) {
@@ -11,7 +11,7 @@ import {
   ChevronLeft, MapPin, Calendar, 
   Users, Copy, X, CheckCircle, AlertCircle, Star, FileText, Loader2,
   Building2, User as UserIcon, Phone, IndianRupee, Package, Truck, StickyNote,
-  Mail, Landmark, Navigation, Percent, Receipt, EyeOff, MessageCircle, Pencil, Save, Sparkles
+  Mail, Landmark, Navigation, Percent, Receipt, EyeOff, MessageCircle, Pencil, Save, Sparkles, Boxes
 } from "lucide-react";
 import { SiWhatsapp } from "react-icons/si";
 import { Button } from "@/components/ui/button";
@@ -56,6 +56,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { LoadGeofencesCard } from "@/components/load-geofences-card";
 
 const editLoadSchema = z.object({
   shipperCompanyName: z.string().optional(),
@@ -202,6 +203,20 @@ function formatLoadId(load: { shipperLoadNumber?: number | null; adminReferenceN
 
 type LoadWithCarrier = Load & { assignedCarrier?: User | null };
 
+// Shared PTL trip as a shipper sees it: the truck's fill and only their own share
+type SharedTrip = {
+  id: string;
+  status: string;
+  totalWeight: string | null;
+  loadCount: number;
+  share?: {
+    weightTons: string;
+    distanceKm: string | null;
+    shareRatio: string | null;
+    shipperShare: string | null;
+  };
+};
+
 // Extended shipment type with carrier, truck, and driver details for Carrier Memo
 type ShipmentWithDetails = Shipment & {
   carrier?: {
@@ -286,6 +301,11 @@ export default function LoadDetailPage() {
     enabled: !!params.id,
   });
 
+  const { data: sharedTrip } = useQuery<SharedTrip | null>({
+    queryKey: ["/api/loads", params.id, "consolidation"],
+    enabled: !!params.id && !!load?.isPtl,
+  });
+
   const editForm = useForm<EditLoadFormData>({
     resolver: zodResolver(editLoadSchema),
     defaultValues: {
@@ -1035,6 +1055,57 @@ export default function LoadDetailPage() {
             </CardContent>
           </Card>
 
+          {load.isPtl && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Boxes className="h-4 w-4" />
+                  Shared Truck (PTL)
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {sharedTrip?.share ? (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Loads on the truck</span>
+                      <span className="font-medium" data-testid="text-ptl-load-count">{sharedTrip.loadCount}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Your weight</span>
+                      <span className="font-medium">{parseFloat(sharedTrip.share.weightTons)} of {parseFloat(sharedTrip.totalWeight || "0")} t</span>
+                    </div>
+                    {sharedTrip.share.shareRatio && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Your share</span>
+                        <span className="font-medium">{(parseFloat(sharedTrip.share.shareRatio) * 100).toFixed(1)}%</span>
+                      </div>
+                    )}
+                    {sharedTrip.share.shipperShare && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Your price</span>
+                        <span className="font-medium" data-testid="text-ptl-share-price">
+                          Rs. {Math.round(parseFloat(sharedTrip.share.shipperShare)).toLocaleString("en-IN")}
+                        </span>
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground pt-1">
+                      Priced by your weight and distance, not the full truck.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground" data-testid="text-ptl-waiting">
+                    Waiting to be combined with other loads on this lane and day.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Fences are made from the pickup and drop coordinates, so only once those are settled */}
+          {load.assignedCarrierId && isFinalized && (
+            <LoadGeofencesCard loadId={load.id} canManage />
+          )}
+
           {load.assignedCarrierId && isFinalized && (
             <Card>
               <CardHeader>
@@ -118,7 +118,7 @@ interface OtpRequestCardProps {
 }
 
 function OtpRequestCard({ request, onApprove, onReject }: OtpRequestCardProps) {
-  const typeLabel = request.requestType === "trip_start" ? "Trip Start" : request.requestType === "trip_end" ? "Trip End" : "Registration";
+  const typeLabel = request.requestType === "trip_start" ? "Trip Start" : request.requestType === "stop_complete" ? "Stop Complete" : request.requestType === "trip_end" ? "Trip End" : "Registration";
   const typeColor = request.requestType === "trip_start" ? "bg-green-500/10 text-green-600 dark:text-green-400" : "bg-blue-500/10 text-blue-600 dark:text-blue-400";
   
   return (
@@ -355,7 +355,7 @@ export default function ShipperOtpQueue() {
                       <div className="flex items-start justify-between gap-2 flex-wrap">
                         <div className="flex items-center gap-2 flex-wrap">
                           <Badge className="bg-green-500/10 text-green-600 dark:text-green-400">
-                            {request.requestType === "trip_start" ? "Trip Start" : "Trip End"}
+                            {request.requestType === "trip_start" ? "Trip Start" : request.requestType === "stop_complete" ? "Stop Complete" : "Trip End"}
                           </Badge>
                           <Badge variant="outline">{formatLoadId(request.load)}</Badge>
                         </div>
@@ -405,7 +405,7 @@ export default function ShipperOtpQueue() {
                     <div className="flex items-center justify-between gap-2 flex-wrap">
                       <div className="flex items-center gap-2 flex-wrap">
                         <Badge className="bg-red-500/10 text-red-600">
-                          {request.requestType === "trip_start" ? "Trip Start" : "Trip End"}
+                          {request.requestType === "trip_start" ? "Trip Start" : request.requestType === "stop_complete" ? "Stop Complete" : "Trip End"}
                         </Badge>
                         <Badge variant="outline">{formatLoadId(request.load)}</Badge>
                       </div>
@@ -2,7 +2,7 @@ import { useState, useEffect, useMemo, useRef } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { useTranslation } from "react-i18next";
-import { MapPin, Package, Calendar, Truck, Save, ArrowRight, Sparkles, Info, Clock, CheckCircle2, Send, Building2, ChevronRight, X, Container, Droplet, Check, ChevronsUpDown, Search, AlertCircle, Loader2, FileText, Phone, Eye, MessageCircle, Share2 } from "lucide-react";
+import { MapPin, Package, Calendar, Truck, Save, ArrowRight, Sparkles, Info, Clock, CheckCircle2, Send, Building2, ChevronRight, X, Container, Droplet, Check, ChevronsUpDown, Search, AlertCircle, Loader2, FileText, Phone, Eye, MessageCircle, Share2, Plus, Trash2, ArrowUp, ArrowDown } from "lucide-react";
 import { SiWhatsapp } from "react-icons/si";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -91,6 +91,7 @@ const loadFormSchema = z.object({
   weight: z.string().optional(),
   weightUnit: z.string().default("tons"),
   goodsToBeCarried: z.string().optional(),
+  goodsValue: z.string().optional(),
   specialNotes: z.string().optional(),
   rateType: z.enum(["per_ton", "fixed_price"]).default("fixed_price"),
   shipperPricePerTon: z.string().optional(),
@@ -123,7 +124,9 @@ const loadFormSchema = z.object({
 type LoadFormData = z.infer<typeof loadFormSchema>;
 
 import { indianTruckTypes, truckBodyCategories } from "@shared/schema";
-import { indianStates } from "@shared/indian-locations";
+import type { Load } from "@shared/schema";
+import { indianStates, findCity, haversineKm } from "@shared/indian-locations";
+import { EWAY_BILL_THRESHOLD, isEwayBillRequired } from "@shared/tax";
 
 // Comprehensive commodity categories for Indian freight logistics
 const commodityCategories = [
@@ -558,10 +561,195 @@ function TruckTypeSelector({
   );
 }
 
-const savedTemplates = [
-  { id: "t1", name: "Mumbai to Delhi Regular", pickup: "Mumbai, MH", dropoff: "Delhi, DL" },
-  { id: "t2", name: "Bangalore Distribution Route", pickup: "Bangalore, KA", dropoff: "Chennai, TN" },
-];
+// Stops visited between the main pickup and the main dropoff of a milk-run load
+interface StopDraft {
+  stopType: "pickup" | "drop";
+  state: string;
+  city: string;
+  address: string;
+  contactName: string;
+  contactPhone: string;
+  windowStart: string;
+  windowEnd: string;
+  weight: string;
+}
+
+// The pickup and dropoff cards are the first and last of the ten stops a load can have
+const MAX_EXTRA_STOPS = 8;
+
+const emptyStop = (): StopDraft => ({
+  stopType: "drop",
+  state: "",
+  city: "",
+  address: "",
+  contactName: "",
+  contactPhone: "",
+  windowStart: "",
+  windowEnd: "",
+  weight: "",
+});
+
+function AdditionalStopsEditor({
+  stops,
+  onChange,
+  routeDistance,
+  isLoadingRoute,
+}: {
+  stops: StopDraft[];
+  onChange: (stops: StopDraft[]) => void;
+  routeDistance: number | null;
+  isLoadingRoute: boolean;
+}) {
+  const updateStop = (index: number, changes: Partial<StopDraft>) => {
+    onChange(stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)));
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= stops.length) return;
+    const next = [...stops];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <MapPin className="h-4 w-4 text-amber-500" />
+          Additional Stops
+        </CardTitle>
+        <CardDescription>
+          Extra pickups or drops between the pickup and dropoff above, in visiting order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {stops.map((stop, index) => {
+          const cities = indianStates.find(s => s.code === stop.state)?.cities || [];
+          return (
+            <div key={index} className="rounded-lg border p-4 space-y-3" data-testid={`stop-editor-${index}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">Stop {index + 2}</span>
+                <div className="flex items-center gap-1">
+                  <Button type="button" size="icon" variant="ghost" onClick={() => moveStop(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="icon" variant="ghost" onClick={() => moveStop(index, 1)} disabled={index === stops.length - 1}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => onChange(stops.filter((_, i) => i !== index))}
+                    data-testid={`button-remove-stop-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <Select value={stop.stopType} onValueChange={(value) => updateStop(index, { stopType: value as StopDraft["stopType"] })}>
+                  <SelectTrigger data-testid={`select-stop-type-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pickup">Pickup</SelectItem>
+                    <SelectItem value="drop">Drop</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={stop.state} onValueChange={(value) => updateStop(index, { state: value, city: "" })}>
+                  <SelectTrigger data-testid={`select-stop-state-${index}`}>
+                    <SelectValue placeholder="State" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {indianStates.map((state) => (
+                      <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={stop.city} onValueChange={(value) => updateStop(index, { city: value })} disabled={!stop.state}>
+                  <SelectTrigger data-testid={`select-stop-city-${index}`}>
+                    <SelectValue placeholder="City" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cities.map((city) => (
+                      <SelectItem key={city.name} value={city.name}>{city.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Input
+                placeholder="Address"
+                value={stop.address}
+                onChange={(e) => updateStop(index, { address: e.target.value })}
+                data-testid={`input-stop-address-${index}`}
+              />
+              <div className="grid gap-3 sm:grid-cols-3">
+                <Input
+                  placeholder="Contact name"
+                  value={stop.contactName}
+                  onChange={(e) => updateStop(index, { contactName: e.target.value })}
+                />
+                <Input
+                  placeholder="Contact phone"
+                  value={stop.contactPhone}
+                  onChange={(e) => updateStop(index, { contactPhone: e.target.value })}
+                />
+                <Input
+                  placeholder={stop.stopType === "pickup" ? "Weight loaded (tons)" : "Weight dropped (tons)"}
+                  type="number"
+                  value={stop.weight}
+                  onChange={(e) => updateStop(index, { weight: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Window opens</label>
+                  <Input
+                    type="datetime-local"
+                    value={stop.windowStart}
+                    onChange={(e) => updateStop(index, { windowStart: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Window closes</label>
+                  <Input
+                    type="datetime-local"
+                    value={stop.windowEnd}
+                    onChange={(e) => updateStop(index, { windowEnd: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...stops, emptyStop()])}
+            disabled={stops.length >= MAX_EXTRA_STOPS}
+            data-testid="button-add-stop"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Stop
+          </Button>
+          {stops.length > 0 && (
+            <span className="text-sm text-muted-foreground">
+              {isLoadingRoute
+                ? "Calculating route..."
+                : routeDistance !== null
+                  ? `Total route: ${routeDistance.toLocaleString()} km`
+                  : "Choose a city for every stop"}
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
 function calculateDistance(from: string, to: string): number {
   const routeInfo = getRouteInfo(from, to);
@@ -575,7 +763,14 @@ function calculateDistance(from: string, to: string): number {
     "delhi, dl_kolkata, wb": 1500,
   };
   const key = `${from.toLowerCase()}_${to.toLowerCase()}`;
-  return distances[key] || Math.floor(Math.random() * 1500) + 200;
+  if (distances[key]) return distances[key];
+  // Straight-line distance between known cities, scaled to typical road distance
+  const fromCity = findCity(from);
+  const toCity = findCity(to);
+  if (fromCity && toCity) {
+    return Math.round(haversineKm(fromCity.city, toCity.city) * 1.3);
+  }
+  return Math.floor(Math.random() * 1500) + 200;
 }
 
 function suggestTruckType(weight: number, description: string): string {
@@ -618,6 +813,12 @@ export default function PostLoadPage() {
     fixedPrice: string;
   } | null>(null);
   const [customCommodity, setCustomCommodity] = useState("");
+  const [showSaveTemplateDialog, setShowSaveTemplateDialog] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [extraStops, setExtraStops] = useState<StopDraft[]>([]);
+  const [isPtl, setIsPtl] = useState(false);
+  const [routeDistance, setRouteDistance] = useState<number | null>(null);
+  const [isLoadingRoute, setIsLoadingRoute] = useState(false);
   const [estimation, setEstimation] = useState<{
     distance: number;
     suggestedTruck: string;
@@ -709,6 +910,11 @@ export default function PostLoadPage() {
     }
   };
 
+  const { data: savedTemplates = [] } = useQuery<Load[]>({
+    queryKey: ["/api/shipper/load-templates"],
+    enabled: user?.role === "shipper",
+  });
+
   const form = useForm<LoadFormData>({
     resolver: zodResolver(loadFormSchema),
     defaultValues: {
@@ -738,6 +944,7 @@ export default function PostLoadPage() {
       weight: "",
       weightUnit: "tons",
       goodsToBeCarried: "",
+      goodsValue: "",
       specialNotes: "",
       rateType: "fixed_price",
       shipperPricePerTon: "",
@@ -971,38 +1178,119 @@ export default function PostLoadPage() {
     return () => clearTimeout(timeoutId);
   }, [pickupCity, dropoffCity, form]);
 
+  // Road distance over every leg once the load has additional stops
+  useEffect(() => {
+    setRouteDistance(null);
+    if (extraStops.length === 0 || !pickupCity || !dropoffCity || pickupCity === "__other__" || dropoffCity === "__other__") {
+      return;
+    }
+    if (extraStops.some(stop => !stop.city)) return;
+
+    const withState = (city: string, state?: string) => (state ? `${city}, ${state}` : city);
+    const locations = [
+      withState(pickupCity, form.getValues("pickupState")),
+      ...extraStops.map(stop => withState(stop.city, stop.state)),
+      withState(dropoffCity, form.getValues("dropoffState")),
+    ];
+
+    const fetchLegs = async () => {
+      setIsLoadingRoute(true);
+      try {
+        const response = await apiRequest("POST", "/api/distance/legs", { locations });
+        const data = await response.json();
+        setRouteDistance(data.totalKm);
+      } catch (error) {
+        console.error("Failed to fetch leg distances:", error);
+      } finally {
+        setIsLoadingRoute(false);
+      }
+    };
+
+    const timeoutId = setTimeout(fetchLegs, 300);
+    return () => clearTimeout(timeoutId);
+  }, [extraStops, pickupCity, dropoffCity, form]);
+
   const updateEstimation = () => {
   };
 
-  const applyTemplate = (templateId: string) => {
-    const template = savedTemplates.find((t) => t.id === templateId);
-    if (template) {
-      form.setValue("pickupCity", template.pickup);
-      form.setValue("dropoffCity", template.dropoff);
-      toast({ title: "Template applied", description: `Loaded "${template.name}" template.` });
+  // Set a state and city pair, waiting for the city list when the state changes
+  const applyTemplateLocation = (side: "pickup" | "dropoff", cityName: string, stateHint: string | null) => {
+    const fields = side === "pickup"
+      ? { state: "pickupState", city: "pickupCity", custom: "pickupCityCustom" } as const
+      : { state: "dropoffState", city: "dropoffCity", custom: "dropoffCityCustom" } as const;
+    const pendingRef = side === "pickup" ? pendingPickupCityRef : pendingDropoffCityRef;
+    const match = findCity(cityName, stateHint);
+    const stateCode = match?.state.code || stateHint || "";
+    const city = match ? match.city.name : "__other__";
+    form.setValue(fields.custom, match ? "" : cityName);
+
+    if (form.getValues(fields.state) === stateCode) {
+      form.setValue(fields.city, city, { shouldDirty: true, shouldValidate: true });
+    } else {
+      pendingRef.current = city;
+      form.setValue(fields.state, stateCode, { shouldDirty: true, shouldValidate: true });
     }
   };
 
-  const handleSubmit = async (data: LoadFormData) => {
-    setIsLoading(true);
-    
-    try {
-      const truckType = data.requiredTruckType || estimation?.suggestedTruck || "Dry Van";
-      
-      // Use custom commodity value when "other" is selected
-      const finalGoodsDescription = data.goodsToBeCarried === "other" && customCommodity
-        ? customCommodity
-        : data.goodsToBeCarried || "";
-      
-      // Use custom city values when "__other__" is selected
-      const finalPickupCity = data.pickupCity === "__other__" && data.pickupCityCustom
-        ? data.pickupCityCustom
-        : data.pickupCity;
-      const finalDropoffCity = data.dropoffCity === "__other__" && data.dropoffCityCustom
-        ? data.dropoffCityCustom
-        : data.dropoffCity;
-      
-      const response = await apiRequest("POST", "/api/loads/submit", {
+  const applyTemplate = (template: Load) => {
+    form.setValue("pickupBusinessName", template.pickupBusinessName || "");
+    form.setValue("pickupAddress", template.pickupAddress || "");
+    form.setValue("pickupLocality", template.pickupLocality || "");
+    form.setValue("pickupLandmark", template.pickupLandmark || "");
+    form.setValue("pickupPincode", template.pickupPincode || "");
+    applyTemplateLocation("pickup", template.pickupCity, template.pickupState);
+    form.setValue("dropoffBusinessName", template.dropoffBusinessName || "");
+    form.setValue("dropoffAddress", template.dropoffAddress || "");
+    form.setValue("dropoffLocality", template.dropoffLocality || "");
+    form.setValue("dropoffLandmark", template.dropoffLandmark || "");
+    form.setValue("dropoffPincode", template.dropoffPincode || "");
+    applyTemplateLocation("dropoff", template.dropoffCity, template.dropoffState);
+
+    form.setValue("receiverName", template.receiverName || "");
+    form.setValue("receiverPhone", template.receiverPhone || "");
+    form.setValue("receiverEmail", template.receiverEmail || "");
+    form.setValue("weight", template.weight ? String(parseFloat(template.weight)) : "");
+    const goods = template.goodsToBeCarried || "";
+    if (goods && !allCommodities.some((item) => item.value === goods)) {
+      form.setValue("goodsToBeCarried", "other");
+      setCustomCommodity(goods);
+    } else {
+      form.setValue("goodsToBeCarried", goods);
+      setCustomCommodity("");
+    }
+    form.setValue("goodsValue", template.goodsValue || "");
+    form.setValue("specialNotes", template.specialNotes || "");
+    form.setValue("rateType", template.rateType === "per_ton" ? "per_ton" : "fixed_price");
+    form.setValue("shipperPricePerTon", template.shipperPricePerTon || "");
+    form.setValue("shipperFixedPrice", template.shipperFixedPrice || "");
+    form.setValue("advancePaymentPercent", template.advancePaymentPercent != null ? String(template.advancePaymentPercent) : "");
+    form.setValue("requiredTruckType", template.requiredTruckType || "");
+    toast({ title: "Template applied", description: `Loaded "${template.templateName}". Set the pickup date to submit.` });
+  };
+
+  // Shared by submit and save-as-template so both store the same field values
+  const buildLoadPayload = (data: LoadFormData) => {
+    const truckType = data.requiredTruckType || estimation?.suggestedTruck || "Dry Van";
+
+    // Use custom commodity value when "other" is selected
+    const finalGoodsDescription = data.goodsToBeCarried === "other" && customCommodity
+      ? customCommodity
+      : data.goodsToBeCarried || "";
+
+    // Use custom city values when "__other__" is selected
+    const finalPickupCity = data.pickupCity === "__other__" && data.pickupCityCustom
+      ? data.pickupCityCustom
+      : data.pickupCity;
+    const finalDropoffCity = data.dropoffCity === "__other__" && data.dropoffCityCustom
+      ? data.dropoffCityCustom
+      : data.dropoffCity;
+
+    return {
+      truckType,
+      finalGoodsDescription,
+      finalPickupCity,
+      finalDropoffCity,
+      payload: {
         shipperCompanyName: data.shipperCompanyName,
         shipperContactName: data.shipperContactName,
         shipperCompanyAddress: data.shipperCompanyAddress,
@@ -1022,6 +1310,7 @@ export default function PostLoadPage() {
         receiverEmail: data.receiverEmail || null,
         weight: data.weight,
         goodsToBeCarried: finalGoodsDescription,
+        goodsValue: data.goodsValue?.replace(/,/g, '') || null,
         specialNotes: data.specialNotes || "",
         rateType: data.rateType,
         shipperPricePerTon: data.rateType === "per_ton" ? (data.shipperPricePerTon?.replace(/,/g, '') || null) : null,
@@ -1030,6 +1319,93 @@ export default function PostLoadPage() {
         requiredTruckType: truckType,
         pickupDate: data.pickupDate,
         deliveryDate: data.deliveryDate || null,
+      },
+    };
+  };
+
+  const handleSaveTemplate = async () => {
+    const data = form.getValues();
+    const templateName = data.templateName?.trim();
+    if (!templateName) {
+      toast({ title: "Name required", description: "Give the template a name.", variant: "destructive" });
+      return;
+    }
+    const { payload } = buildLoadPayload(data);
+    if (!payload.pickupCity || !payload.dropoffCity) {
+      toast({ title: "Route required", description: "Choose pickup and dropoff cities before saving a template.", variant: "destructive" });
+      return;
+    }
+
+    setIsSavingTemplate(true);
+    try {
+      await apiRequest("POST", "/api/shipper/load-templates", {
+        ...payload,
+        pickupState: data.pickupState || null,
+        pickupPincode: data.pickupPincode || null,
+        dropoffState: data.dropoffState || null,
+        dropoffPincode: data.dropoffPincode || null,
+        templateName,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/shipper/load-templates"] });
+      toast({ title: "Template saved", description: `"${templateName}" is ready to reuse or schedule.` });
+      setShowSaveTemplateDialog(false);
+      form.setValue("templateName", "");
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Couldn't save the template.", variant: "destructive" });
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  // Every stop in visiting order: the main pickup, the additional stops, then the main dropoff
+  const buildStopsPayload = (data: LoadFormData, pickupCity: string, dropoffCity: string) => {
+    if (extraStops.length === 0) return undefined;
+    return [
+      {
+        stopType: "pickup",
+        businessName: data.pickupBusinessName || null,
+        address: data.pickupAddress || null,
+        city: pickupCity,
+        state: data.pickupState || null,
+        pincode: data.pickupPincode || null,
+      },
+      ...extraStops.map(stop => ({
+        stopType: stop.stopType,
+        address: stop.address || null,
+        city: stop.city,
+        state: stop.state || null,
+        contactName: stop.contactName || null,
+        contactPhone: stop.contactPhone || null,
+        windowStart: stop.windowStart ? new Date(stop.windowStart).toISOString() : null,
+        windowEnd: stop.windowEnd ? new Date(stop.windowEnd).toISOString() : null,
+        weight: stop.weight || null,
+      })),
+      {
+        stopType: "drop",
+        businessName: data.dropoffBusinessName || null,
+        address: data.dropoffAddress || null,
+        city: dropoffCity,
+        state: data.dropoffState || null,
+        pincode: data.dropoffPincode || null,
+        contactName: data.receiverName || null,
+        contactPhone: data.receiverPhone || null,
+      },
+    ];
+  };
+
+  const handleSubmit = async (data: LoadFormData) => {
+    if (extraStops.some(stop => !stop.city)) {
+      toast({ title: "Stop city required", description: "Choose a city for every additional stop or remove it.", variant: "destructive" });
+      return;
+    }
+    setIsLoading(true);
+    
+    try {
+      const { truckType, finalGoodsDescription, finalPickupCity, finalDropoffCity, payload } = buildLoadPayload(data);
+      const response = await apiRequest("POST", "/api/loads/submit", {
+        ...payload,
+        isPtl: isPtl && extraStops.length === 0,
+        stops: buildStopsPayload(data, finalPickupCity || "", finalDropoffCity || ""),
       });
       
       const result = await response.json();
@@ -1330,7 +1706,7 @@ export default function PostLoadPage() {
               <Button onClick={() => navigate("/shipper/loads")} className="flex-1" data-testid="button-view-loads">
                 View My Loads
               </Button>
-              <Button variant="outline" onClick={() => { setSubmitted(false); form.reset(); }} data-testid="button-post-another">
+              <Button variant="outline" onClick={() => { setSubmitted(false); setExtraStops([]); setIsPtl(false); form.reset(); }} data-testid="button-post-another">
                 Post Another Load
               </Button>
             </div>
@@ -1436,6 +1812,30 @@ export default function PostLoadPage() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={showSaveTemplateDialog} onOpenChange={setShowSaveTemplateDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+            <DialogDescription>
+              Saves the route, cargo and price so you can post this load again or set it to repeat. Dates aren't saved.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={form.watch("templateName") || ""}
+            onChange={(e) => form.setValue("templateName", e.target.value)}
+            placeholder="e.g. Pune plant to Mumbai depot"
+            data-testid="input-template-name"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveTemplateDialog(false)}>Cancel</Button>
+            <Button onClick={handleSaveTemplate} disabled={isSavingTemplate} data-testid="button-confirm-save-template">
+              {isSavingTemplate && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <div className="mb-6">
         <h1 className="text-2xl font-bold" data-testid="text-page-title">Submit New Load</h1>
         <p className="text-muted-foreground">Fill in the details below. We will evaluate and price your load - you'll be notified when it's posted.</p>
@@ -1456,10 +1856,10 @@ export default function PostLoadPage() {
                       key={template.id}
                       variant="outline"
                       size="sm"
-                      onClick={() => applyTemplate(template.id)}
+                      onClick={() => applyTemplate(template)}
                       data-testid={`button-template-${template.id}`}
                     >
-                      {template.name}
+                      {template.templateName || `${template.pickupCity} to ${template.dropoffCity}`}
                     </Button>
                   ))}
                 </div>
@@ -1749,6 +2149,13 @@ export default function PostLoadPage() {
                 </CardContent>
               </Card>
 
+              <AdditionalStopsEditor
+                stops={extraStops}
+                onChange={setExtraStops}
+                routeDistance={routeDistance}
+                isLoadingRoute={isLoadingRoute}
+              />
+
               <Card>
                 <CardHeader>
                   <CardTitle className="text-base flex items-center gap-2">
@@ -2128,6 +2535,53 @@ export default function PostLoadPage() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="goodsValue"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Declared Goods Value (Optional)</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm pointer-events-none">Rs.</span>
+                            <Input
+                              type="text"
+                              inputMode="numeric"
+                              className="pl-10"
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.value.replace(/[^0-9,]/g, ''))}
+                              data-testid="input-goods-value"
+                            />
+                          </div>
+                        </FormControl>
+                        <FormDescription className="text-xs">
+                          {isEwayBillRequired(field.value?.replace(/,/g, ''))
+                            ? "An e-way bill will be required before this load can go in transit"
+                            : `Consignments above Rs. ${EWAY_BILL_THRESHOLD.toLocaleString('en-IN')} need an e-way bill`}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex items-start gap-3 rounded-md border p-3">
+                    <input
+                      type="checkbox"
+                      id="ptl-load"
+                      checked={isPtl}
+                      onChange={(e) => setIsPtl(e.target.checked)}
+                      disabled={extraStops.length > 0}
+                      className="h-4 w-4 mt-0.5 rounded border-gray-300"
+                      data-testid="checkbox-ptl-load"
+                    />
+                    <label htmlFor="ptl-load" className="text-sm cursor-pointer">
+                      <span className="font-medium">Part truck load - share the truck</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {extraStops.length > 0
+                          ? "Multi-stop loads can't share a truck"
+                          : "We can combine this load with others on the same lane and day. You pay only your share by weight and distance."}
+                      </span>
+                    </label>
+                  </div>
                   <FormField
                     control={form.control}
                     name="specialNotes"
@@ -2324,7 +2778,7 @@ export default function PostLoadPage() {
                   {isLoading ? "Submitting..." : "Submit for Admin Review"}
                   <ArrowRight className="h-4 w-4 ml-2" />
                 </Button>
-                <Button type="button" variant="outline" data-testid="button-save-template">
+                <Button type="button" variant="outline" onClick={() => setShowSaveTemplateDialog(true)} data-testid="button-save-template">
                   <Save className="h-4 w-4 mr-2" />
                   Save as Template
                 </Button>
@@ -2357,6 +2811,8 @@ export default function PostLoadPage() {
                     <span className="text-sm text-muted-foreground">Estimated Distance</span>
                     {isLoadingDistance ? (
                       <span className="text-sm text-muted-foreground animate-pulse">Calculating...</span>
+                    ) : routeDistance !== null ? (
+                      <span className="font-semibold">{routeDistance.toLocaleString()} km</span>
                     ) : estimation.distance > 0 ? (
                       <span className="font-semibold">{estimation.distance.toLocaleString()} km</span>
                     ) : (
@@ -0,0 +1,654 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Repeat, Loader2, Plus, Trash2, Send, Pencil, SkipForward, Undo2, CalendarClock } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { Load, LoadSchedule } from "@shared/schema";
+
+type OccurrenceOverrides = Partial<Record<"weight" | "goodsToBeCarried" | "specialNotes" | "requiredTruckType" | "shipperFixedPrice" | "shipperPricePerTon" | "pickupDate" | "deliveryDate", string | null>>;
+
+interface UpcomingOccurrence {
+  date: string;
+  status: "scheduled" | "skipped" | "edited" | "created" | "failed";
+  pickupDate: string;
+  deliveryDate: string | null;
+  overrides: OccurrenceOverrides | null;
+  loadId: string | null;
+}
+
+type ScheduleWithOccurrences = LoadSchedule & {
+  description: string;
+  template: Pick<Load, "id" | "templateName" | "pickupCity" | "dropoffCity" | "weight" | "requiredTruckType"> | null;
+  upcoming: UpcomingOccurrence[];
+};
+
+interface ScheduleForm {
+  templateLoadId: string;
+  name: string;
+  frequency: "daily" | "weekly" | "monthly";
+  weekdays: number[];
+  dayOfMonth: string;
+  startDate: string;
+  endDate: string;
+  pickupOffsetDays: string;
+  deliveryOffsetDays: string;
+  pickupTime: string;
+}
+
+interface OccurrenceForm {
+  weight: string;
+  shipperFixedPrice: string;
+  pickupDate: string;
+  specialNotes: string;
+}
+
+const TEMPLATES_KEY = "/api/shipper/load-templates";
+const SCHEDULES_KEY = "/api/shipper/load-schedules";
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const OCCURRENCE_BADGES: Record<UpcomingOccurrence["status"], { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  scheduled: { label: "Scheduled", variant: "outline" },
+  edited: { label: "Edited", variant: "secondary" },
+  skipped: { label: "Skipped", variant: "outline" },
+  created: { label: "Posted", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+function emptyScheduleForm(templateLoadId = "", name = ""): ScheduleForm {
+  return {
+    templateLoadId,
+    name,
+    frequency: "weekly",
+    weekdays: [1],
+    dayOfMonth: "1",
+    startDate: format(new Date(), "yyyy-MM-dd"),
+    endDate: "",
+    pickupOffsetDays: "0",
+    deliveryOffsetDays: "",
+    pickupTime: "09:00",
+  };
+}
+
+function ScheduleDialog({ templates, initial, onClose }: { templates: Load[]; initial: ScheduleForm; onClose: () => void }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ScheduleForm>(initial);
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", SCHEDULES_KEY, {
+        templateLoadId: form.templateLoadId,
+        name: form.name.trim(),
+        frequency: form.frequency,
+        weekdays: form.frequency === "weekly" ? form.weekdays : null,
+        dayOfMonth: form.frequency === "monthly" ? parseInt(form.dayOfMonth) : null,
+        startDate: form.startDate,
+        endDate: form.endDate || null,
+        pickupOffsetDays: parseInt(form.pickupOffsetDays) || 0,
+        deliveryOffsetDays: form.deliveryOffsetDays ? parseInt(form.deliveryOffsetDays) : null,
+        pickupTime: form.pickupTime,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SCHEDULES_KEY] });
+      toast({ title: "Schedule created", description: "Loads will be posted automatically on each date" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create schedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = form.weekdays.includes(day)
+      ? form.weekdays.filter((d) => d !== day)
+      : [...form.weekdays, day].sort();
+    setForm({ ...form, weekdays });
+  };
+
+  const canSave = !!form.templateLoadId && !!form.name.trim() && !!form.startDate
+    && (form.frequency !== "weekly" || form.weekdays.length > 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Recurring Load</DialogTitle>
+          <DialogDescription>
+            A load is created from the template on each date and submitted for pricing like any other load.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Template</Label>
+              <Select value={form.templateLoadId} onValueChange={(templateLoadId) => setForm({ ...form, templateLoadId })}>
+                <SelectTrigger data-testid="select-schedule-template"><SelectValue placeholder="Select template" /></SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>{template.templateName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Weekly Pune dispatch"
+                data-testid="input-schedule-name"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Repeats</Label>
+              <Select value={form.frequency} onValueChange={(frequency) => setForm({ ...form, frequency: frequency as ScheduleForm["frequency"] })}>
+                <SelectTrigger data-testid="select-schedule-frequency"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.frequency === "monthly" && (
+              <div className="space-y-1">
+                <Label htmlFor="schedule-day-of-month">Day of month</Label>
+                <Input
+                  id="schedule-day-of-month"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={form.dayOfMonth}
+                  onChange={(e) => setForm({ ...form, dayOfMonth: e.target.value })}
+                  data-testid="input-schedule-day-of-month"
+                />
+              </div>
+            )}
+          </div>
+
+          {form.frequency === "weekly" && (
+            <div className="space-y-1">
+              <Label>On</Label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={form.weekdays.includes(day) ? "default" : "outline"}
+                    onClick={() => toggleWeekday(day)}
+                    data-testid={`button-weekday-${day}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-start">Starts</Label>
+              <Input
+                id="schedule-start"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                data-testid="input-schedule-start"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-end">Ends (optional)</Label>
+              <Input
+                id="schedule-end"
+                type="date"
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                data-testid="input-schedule-end"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-pickup-offset">Pickup after (days)</Label>
+              <Input
+                id="schedule-pickup-offset"
+                type="number"
+                min={0}
+                value={form.pickupOffsetDays}
+                onChange={(e) => setForm({ ...form, pickupOffsetDays: e.target.value })}
+                data-testid="input-schedule-pickup-offset"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-delivery-offset">Delivery after (days)</Label>
+              <Input
+                id="schedule-delivery-offset"
+                type="number"
+                min={0}
+                value={form.deliveryOffsetDays}
+                onChange={(e) => setForm({ ...form, deliveryOffsetDays: e.target.value })}
+                placeholder="Not set"
+                data-testid="input-schedule-delivery-offset"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-pickup-time">Pickup time</Label>
+              <Input
+                id="schedule-pickup-time"
+                type="time"
+                value={form.pickupTime}
+                onChange={(e) => setForm({ ...form, pickupTime: e.target.value })}
+                data-testid="input-schedule-pickup-time"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canSave || createMutation.isPending}
+            data-testid="button-save-schedule"
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function RecurringLoadsPage() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [scheduleForm, setScheduleForm] = useState<ScheduleForm | null>(null);
+  const [editing, setEditing] = useState<{ scheduleId: string; occurrence: UpcomingOccurrence } | null>(null);
+  const [occurrenceForm, setOccurrenceForm] = useState<OccurrenceForm>({ weight: "", shipperFixedPrice: "", pickupDate: "", specialNotes: "" });
+
+  const { data: templates = [], isLoading: templatesLoading } = useQuery<Load[]>({
+    queryKey: [TEMPLATES_KEY],
+  });
+  const { data: schedules = [], isLoading: schedulesLoading } = useQuery<ScheduleWithOccurrences[]>({
+    queryKey: [SCHEDULES_KEY],
+  });
+
+  const postNowMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const res = await apiRequest("POST", `${TEMPLATES_KEY}/${templateId}/post`, {});
+      return res.json();
+    },
+    onSuccess: (result: { load_number: number | null }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loads"] });
+      toast({ title: "Load Submitted for Review", description: result.load_number ? `Load LD-${String(result.load_number).padStart(3, "0")} was created from the template.` : "Created from the template." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't post load", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => apiRequest("DELETE", `${TEMPLATES_KEY}/${templateId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TEMPLATES_KEY] });
+      toast({ title: "Template deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't delete template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScheduleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `${SCHEDULES_KEY}/${id}`, { isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SCHEDULES_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update schedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const occurrenceMutation = useMutation({
+    mutationFn: async ({ scheduleId, date, action, overrides }: { scheduleId: string; date: string; action: "skip" | "edit" | "restore"; overrides?: OccurrenceOverrides }) =>
+      apiRequest("PUT", `${SCHEDULES_KEY}/${scheduleId}/occurrences/${format(new Date(date), "yyyy-MM-dd")}`, { action, overrides }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SCHEDULES_KEY] });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update occurrence", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openOccurrenceEditor = (schedule: ScheduleWithOccurrences, occurrence: UpcomingOccurrence) => {
+    const overrides = occurrence.overrides || {};
+    setOccurrenceForm({
+      weight: overrides.weight || (schedule.template?.weight ? String(parseFloat(schedule.template.weight)) : ""),
+      shipperFixedPrice: overrides.shipperFixedPrice || "",
+      pickupDate: format(new Date(occurrence.pickupDate), "yyyy-MM-dd'T'HH:mm"),
+      specialNotes: overrides.specialNotes || "",
+    });
+    setEditing({ scheduleId: schedule.id, occurrence });
+  };
+
+  const saveOccurrence = () => {
+    if (!editing) return;
+    const overrides: OccurrenceOverrides = {
+      weight: occurrenceForm.weight || null,
+      shipperFixedPrice: occurrenceForm.shipperFixedPrice.replace(/,/g, "") || null,
+      pickupDate: occurrenceForm.pickupDate ? new Date(occurrenceForm.pickupDate).toISOString() : null,
+      specialNotes: occurrenceForm.specialNotes || null,
+    };
+    occurrenceMutation.mutate({ scheduleId: editing.scheduleId, date: editing.occurrence.date, action: "edit", overrides });
+  };
+
+  return (
+    <div className="p-6 space-y-6 max-w-6xl mx-auto">
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+          <Repeat className="h-5 w-5 text-primary" />
+        </div>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">
+            Recurring Loads
+          </h1>
+          <p className="text-muted-foreground">
+            Reuse saved loads and post them automatically on a schedule
+          </p>
+        </div>
+        <Button
+          onClick={() => setScheduleForm(emptyScheduleForm(templates[0]?.id, ""))}
+          disabled={templates.length === 0}
+          data-testid="button-new-schedule"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Schedule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Load Templates</CardTitle>
+          <CardDescription>Save a template with "Save as Template" on the post load form</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {templatesLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-8 space-y-3">
+              <p className="text-sm text-muted-foreground">No templates yet</p>
+              <Button variant="outline" onClick={() => navigate("/shipper/post-load")} data-testid="button-go-post-load">
+                Go to Post Load
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg border flex-wrap"
+                  data-testid={`template-${template.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{template.templateName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {template.pickupCity} to {template.dropoffCity}
+                      {template.weight && ` · ${parseFloat(template.weight)} ${template.weightUnit || "tons"}`}
+                      {template.requiredTruckType && ` · ${template.requiredTruckType}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => postNowMutation.mutate(template.id)}
+                      disabled={postNowMutation.isPending}
+                      data-testid={`button-post-template-${template.id}`}
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Post now
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setScheduleForm(emptyScheduleForm(template.id, template.templateName || ""))}
+                      data-testid={`button-schedule-template-${template.id}`}
+                    >
+                      <CalendarClock className="h-4 w-4 mr-1" />
+                      Schedule
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteTemplateMutation.mutate(template.id)}
+                      disabled={deleteTemplateMutation.isPending}
+                      data-testid={`button-delete-template-${template.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {schedulesLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : schedules.map((schedule) => (
+        <Card key={schedule.id} data-testid={`schedule-${schedule.id}`}>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle className="text-base flex items-center gap-2">
+                {schedule.name}
+                {!schedule.isActive && <Badge variant="secondary">Paused</Badge>}
+              </CardTitle>
+              <CardDescription>
+                {schedule.description}
+                {schedule.template && ` · ${schedule.template.pickupCity} to ${schedule.template.dropoffCity}`}
+                {` · ${schedule.createdCount || 0} posted`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor={`schedule-active-${schedule.id}`} className="text-sm text-muted-foreground">Active</Label>
+              <Switch
+                id={`schedule-active-${schedule.id}`}
+                checked={!!schedule.isActive}
+                onCheckedChange={(isActive) => toggleScheduleMutation.mutate({ id: schedule.id, isActive })}
+                data-testid={`switch-schedule-active-${schedule.id}`}
+              />
+            </div>
+          </CardHeader>
+          {schedule.isActive && (
+            <CardContent>
+              {schedule.upcoming.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No upcoming dates before the schedule ends</p>
+              ) : (
+                <div className="divide-y">
+                  {schedule.upcoming.map((occurrence) => {
+                    const badge = OCCURRENCE_BADGES[occurrence.status];
+                    const isPending = occurrence.status !== "created";
+                    return (
+                      <div
+                        key={occurrence.date}
+                        className="flex items-center justify-between gap-3 py-2 flex-wrap"
+                        data-testid={`occurrence-${schedule.id}-${format(new Date(occurrence.date), "yyyy-MM-dd")}`}
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <span className={`font-medium ${occurrence.status === "skipped" ? "line-through text-muted-foreground" : ""}`}>
+                            {format(new Date(occurrence.date), "EEE, dd MMM")}
+                          </span>
+                          <span className="text-sm text-muted-foreground">
+                            Pickup {format(new Date(occurrence.pickupDate), "dd MMM, HH:mm")}
+                            {occurrence.overrides?.weight && ` · ${occurrence.overrides.weight} tons`}
+                          </span>
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                        </div>
+                        {isPending && (
+                          <div className="flex gap-1">
+                            {occurrence.status === "scheduled" || occurrence.status === "failed" ? (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => openOccurrenceEditor(schedule, occurrence)}
+                                  data-testid={`button-edit-occurrence-${occurrence.date}`}
+                                >
+                                  <Pencil className="h-4 w-4 mr-1" />
+                                  Edit
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => occurrenceMutation.mutate({ scheduleId: schedule.id, date: occurrence.date, action: "skip" })}
+                                  disabled={occurrenceMutation.isPending}
+                                  data-testid={`button-skip-occurrence-${occurrence.date}`}
+                                >
+                                  <SkipForward className="h-4 w-4 mr-1" />
+                                  Skip
+                                </Button>
+                              </>
+                            ) : (
+                              <>
+                                {occurrence.status === "edited" && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openOccurrenceEditor(schedule, occurrence)}
+                                    data-testid={`button-edit-occurrence-${occurrence.date}`}
+                                  >
+                                    <Pencil className="h-4 w-4 mr-1" />
+                                    Edit
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => occurrenceMutation.mutate({ scheduleId: schedule.id, date: occurrence.date, action: "restore" })}
+                                  disabled={occurrenceMutation.isPending}
+                                  data-testid={`button-restore-occurrence-${occurrence.date}`}
+                                >
+                                  <Undo2 className="h-4 w-4 mr-1" />
+                                  Restore
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      ))}
+
+      {scheduleForm && (
+        <ScheduleDialog templates={templates} initial={scheduleForm} onClose={() => setScheduleForm(null)} />
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Edit {editing && format(new Date(editing.occurrence.date), "EEE, dd MMM")}
+            </DialogTitle>
+            <DialogDescription>
+              Changes apply to this date only. The rest of the schedule keeps the template values.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="occurrence-weight">Weight (tons)</Label>
+                <Input
+                  id="occurrence-weight"
+                  type="number"
+                  value={occurrenceForm.weight}
+                  onChange={(e) => setOccurrenceForm({ ...occurrenceForm, weight: e.target.value })}
+                  data-testid="input-occurrence-weight"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="occurrence-price">Price (Rs.)</Label>
+                <Input
+                  id="occurrence-price"
+                  value={occurrenceForm.shipperFixedPrice}
+                  onChange={(e) => setOccurrenceForm({ ...occurrenceForm, shipperFixedPrice: e.target.value })}
+                  placeholder="Template price"
+                  data-testid="input-occurrence-price"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="occurrence-pickup">Pickup</Label>
+              <Input
+                id="occurrence-pickup"
+                type="datetime-local"
+                value={occurrenceForm.pickupDate}
+                onChange={(e) => setOccurrenceForm({ ...occurrenceForm, pickupDate: e.target.value })}
+                data-testid="input-occurrence-pickup"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="occurrence-notes">Special notes</Label>
+              <Textarea
+                id="occurrence-notes"
+                value={occurrenceForm.specialNotes}
+                onChange={(e) => setOccurrenceForm({ ...occurrenceForm, specialNotes: e.target.value })}
+                data-testid="input-occurrence-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={saveOccurrence} disabled={occurrenceMutation.isPending} data-testid="button-save-occurrence">
+              {occurrenceMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { 
   MapPin, ArrowRight, IndianRupee, Clock, Calendar,
-  Truck, Package, Navigation, CheckCircle2, AlertCircle
+  Truck, Package, Navigation, CheckCircle2, AlertCircle, LocateFixed, CloudUpload
 } from "lucide-react";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
@@ -11,6 +11,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { useLocationSharing } from "@/hooks/use-location-sharing";
 
 interface Trip {
   id: string;
@@ -31,6 +33,63 @@ interface Trip {
   };
 }
 
+const ACTIVE_STATUSES = ["pickup_scheduled", "picked_up", "in_transit", "at_checkpoint", "out_for_delivery"];
+
+function LocationSharingCard({ trip }: { trip: Trip }) {
+  const { isSupported, isSharing, start, stop, pendingCount, lastFixAt, lastUploadAt, error } =
+    useLocationSharing(trip.id);
+
+  return (
+    <Card data-testid="card-location-sharing">
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <LocateFixed className={`h-5 w-5 ${isSharing ? "text-green-600" : "text-muted-foreground"}`} />
+            <div>
+              <div className="font-medium text-sm">Share live location</div>
+              <div className="text-xs text-muted-foreground">
+                {trip.load ? `${trip.load.pickupCity} to ${trip.load.dropoffCity}` : "Current trip"}
+              </div>
+            </div>
+          </div>
+          <Switch
+            checked={isSharing}
+            disabled={!isSupported}
+            onCheckedChange={(checked) => (checked ? start() : stop())}
+            data-testid="switch-location-sharing"
+          />
+        </div>
+
+        {!isSupported ? (
+          <p className="text-xs text-muted-foreground">This browser can't share location.</p>
+        ) : (
+          <div className="flex items-center gap-4 flex-wrap text-xs text-muted-foreground">
+            {isSharing && (
+              <span className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {lastFixAt ? `Last fix ${format(lastFixAt, "h:mm a")}` : "Waiting for GPS"}
+              </span>
+            )}
+            <span className="flex items-center gap-1" data-testid="text-location-pending">
+              <CloudUpload className="h-3 w-3" />
+              {pendingCount > 0
+                ? `${pendingCount} point${pendingCount === 1 ? "" : "s"} waiting to upload`
+                : lastUploadAt ? `Uploaded ${format(lastUploadAt, "h:mm a")}` : "Nothing to upload"}
+            </span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-1.5 text-xs text-orange-600 dark:text-orange-400">
+            <AlertCircle className="h-3.5 w-3.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function SoloMyTrips() {
   const [activeTab, setActiveTab] = useState<"active" | "completed">("active");
 
@@ -42,7 +101,7 @@ export default function SoloMyTrips() {
   
   const filteredTrips = trips.filter((trip) => {
     if (activeTab === "active") {
-      return ["pickup_scheduled", "picked_up", "in_transit", "at_checkpoint", "out_for_delivery"].includes(trip.status);
+      return ACTIVE_STATUSES.includes(trip.status);
     }
     return trip.status === "delivered";
   });
@@ -64,9 +123,10 @@ export default function SoloMyTrips() {
     return labels[status] || { label: status, color: "bg-muted text-muted-foreground" };
   };
 
-  const activeCount = trips.filter(t => 
-    ["pickup_scheduled", "picked_up", "in_transit", "at_checkpoint", "out_for_delivery"].includes(t.status)
-  ).length;
+  const activeCount = trips.filter(t => ACTIVE_STATUSES.includes(t.status)).length;
+  // Solo drivers run one trip at a time; prefer the one already on the road
+  const currentTrip = trips.find(t => ACTIVE_STATUSES.includes(t.status) && t.startedAt)
+    || trips.find(t => ACTIVE_STATUSES.includes(t.status));
   const completedCount = trips.filter(t => t.status === "delivered").length;
 
   return (
@@ -87,6 +147,7 @@ export default function SoloMyTrips() {
 
       <ScrollArea className="flex-1">
         <div className="p-4 space-y-3">
+          {activeTab === "active" && currentTrip && <LocationSharingCard trip={currentTrip} />}
           {isLoading ? (
             Array.from({ length: 4 }).map((_, i) => (
               <Card key={i} className="p-4">
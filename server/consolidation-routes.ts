@@ -0,0 +1,383 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import type { Load, LoadConsolidation, LoadConsolidationMember, User } from "@shared/schema";
+import {
+  addLoadToConsolidation,
+  awardConsolidation,
+  cancelConsolidation,
+  consolidationKey,
+  createConsolidation,
+  recalculateConsolidation,
+  removeLoadFromConsolidation,
+  runPtlMatcher,
+} from "./services/load-consolidation";
+import { loadWeightTons } from "./services/bid-scoring";
+
+async function getSessionUser(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  return user;
+}
+
+async function getAdmin(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user || user.role !== "admin") {
+    res.status(403).json({ error: "Admin access required" });
+    return null;
+  }
+  return user;
+}
+
+const createBodySchema = z.object({
+  loadIds: z.array(z.string().min(1)).min(2),
+  capacityTons: z.coerce.number().positive().nullable().optional(),
+  truckType: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const updateBodySchema = z.object({
+  shipperPrice: z.coerce.number().positive().optional(),
+  carrierPayout: z.coerce.number().positive().optional(),
+  capacityTons: z.coerce.number().positive().optional(),
+  truckType: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const awardBodySchema = z.object({
+  carrierId: z.string().min(1),
+  truckId: z.string().min(1),
+});
+
+function loadSummary(load: Load | undefined) {
+  return load && {
+    id: load.id,
+    shipperLoadNumber: load.shipperLoadNumber,
+    status: load.status,
+    pickupCity: load.pickupCity,
+    pickupAddress: load.pickupAddress,
+    dropoffCity: load.dropoffCity,
+    dropoffAddress: load.dropoffAddress,
+    goodsToBeCarried: load.goodsToBeCarried,
+  };
+}
+
+// Admin view: every member with its shipper and both shares
+async function consolidationWithMembers(consolidation: LoadConsolidation) {
+  const members = await storage.getLoadConsolidationMembers(consolidation.id);
+  const carrier = consolidation.carrierId ? await storage.getUser(consolidation.carrierId) : undefined;
+  const truck = consolidation.truckId ? await storage.getTruck(consolidation.truckId) : undefined;
+  return {
+    ...consolidation,
+    carrierName: carrier ? carrier.companyName || carrier.username : null,
+    truckLicensePlate: truck?.licensePlate || null,
+    members: await Promise.all(members.map(async (member) => {
+      const load = await storage.getLoad(member.loadId);
+      const shipper = load ? await storage.getUser(load.shipperId) : undefined;
+      return {
+        ...member,
+        load: loadSummary(load),
+        shipperName: shipper ? shipper.companyName || shipper.username : null,
+      };
+    })),
+  };
+}
+
+// Carrier view: the trip and its pickups/drops, paid at the carrier shares only
+function carrierMember(member: LoadConsolidationMember, load: Load | undefined) {
+  return {
+    loadId: member.loadId,
+    weightTons: member.weightTons,
+    distanceKm: member.distanceKm,
+    carrierShare: member.carrierShare,
+    load: loadSummary(load),
+  };
+}
+
+export function registerConsolidationRoutes(app: Express): void {
+  // GET /api/admin/consolidations - shared PTL trips, optionally by status
+  app.get("/api/admin/consolidations", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const consolidations = await storage.getLoadConsolidations({ status });
+      res.json(await Promise.all(consolidations.map(consolidationWithMembers)));
+    } catch (error) {
+      console.error("List consolidations error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/admin/consolidations/candidates - unconsolidated PTL loads grouped by lane and pickup day
+  app.get("/api/admin/consolidations/candidates", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const loads = await storage.getPtlCandidateLoads();
+      const groups = new Map<string, Load[]>();
+      for (const load of loads) {
+        const key = consolidationKey(load);
+        if (!key) continue;
+        groups.set(key, [...(groups.get(key) || []), load]);
+      }
+
+      res.json(await Promise.all(Array.from(groups.keys()).map(async (key) => {
+        const groupLoads = groups.get(key)!;
+        return {
+          key,
+          pickupCity: groupLoads[0].pickupCity,
+          dropoffCity: groupLoads[0].dropoffCity,
+          pickupDate: groupLoads[0].pickupDate,
+          totalWeight: groupLoads.reduce((sum, load) => sum + loadWeightTons(load), 0),
+          loads: await Promise.all(groupLoads.map(async (load) => {
+            const shipper = await storage.getUser(load.shipperId);
+            return {
+              ...loadSummary(load),
+              weightTons: loadWeightTons(load),
+              distance: load.distance,
+              shipperName: shipper ? shipper.companyName || shipper.username : null,
+            };
+          })),
+        };
+      })));
+    } catch (error) {
+      console.error("List PTL candidates error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/consolidations - group PTL loads into one shared trip
+  app.post("/api/admin/consolidations", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const body = createBodySchema.parse(req.body);
+      const result = await createConsolidation(body.loadIds, {
+        capacityTons: body.capacityTons,
+        truckType: body.truckType,
+        notes: body.notes,
+        createdBy: admin.id,
+        source: "manual",
+      });
+      if (!result.success || !result.consolidation) return res.status(400).json({ error: result.error });
+
+      res.status(201).json(await consolidationWithMembers(result.consolidation));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid consolidation", details: error.errors });
+      }
+      console.error("Create consolidation error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/consolidations/run-matcher - group waiting PTL loads now instead of on the next job run
+  app.post("/api/admin/consolidations/run-matcher", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      res.json(await runPtlMatcher());
+    } catch (error) {
+      console.error("Run PTL matcher error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/admin/consolidations/:id - trip price, payout or capacity; shares are recomputed
+  app.patch("/api/admin/consolidations/:id", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const consolidation = await storage.getLoadConsolidation(req.params.id);
+      if (!consolidation) return res.status(404).json({ error: "Consolidation not found" });
+      if (consolidation.status !== "open") return res.status(400).json({ error: `Consolidation is ${consolidation.status}` });
+
+      const body = updateBodySchema.parse(req.body);
+      if (body.capacityTons !== undefined && body.capacityTons < parseFloat(consolidation.totalWeight || "0")) {
+        return res.status(400).json({ error: `Capacity can't be below the ${consolidation.totalWeight} t already grouped` });
+      }
+
+      await storage.updateLoadConsolidation(consolidation.id, {
+        ...(body.shipperPrice !== undefined && { shipperPrice: body.shipperPrice.toFixed(2) }),
+        ...(body.carrierPayout !== undefined && { carrierPayout: body.carrierPayout.toFixed(2) }),
+        ...(body.capacityTons !== undefined && { capacityTons: body.capacityTons.toString() }),
+        ...(body.truckType !== undefined && { truckType: body.truckType }),
+        ...(body.notes !== undefined && { notes: body.notes }),
+      });
+      const updated = await recalculateConsolidation(consolidation.id);
+      res.json(await consolidationWithMembers(updated || consolidation));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid consolidation", details: error.errors });
+      }
+      console.error("Update consolidation error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/consolidations/:id/loads - add a PTL load with room left on the truck
+  app.post("/api/admin/consolidations/:id/loads", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      if (typeof req.body.loadId !== "string") return res.status(400).json({ error: "loadId is required" });
+      const result = await addLoadToConsolidation(req.params.id, req.body.loadId);
+      if (!result.success || !result.consolidation) return res.status(400).json({ error: result.error });
+
+      res.json(await consolidationWithMembers(result.consolidation));
+    } catch (error) {
+      console.error("Add consolidation load error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/admin/consolidations/:id/loads/:loadId - take a load back out before award
+  app.delete("/api/admin/consolidations/:id/loads/:loadId", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const result = await removeLoadFromConsolidation(req.params.id, req.params.loadId);
+      if (!result.success || !result.consolidation) return res.status(400).json({ error: result.error });
+
+      res.json(await consolidationWithMembers(result.consolidation));
+    } catch (error) {
+      console.error("Remove consolidation load error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/consolidations/:id/award - book the shared trip on one carrier's truck
+  app.post("/api/admin/consolidations/:id/award", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const { carrierId, truckId } = awardBodySchema.parse(req.body);
+      const result = await awardConsolidation(req.params.id, carrierId, truckId, admin.id);
+      if (!result.success || !result.consolidation) {
+        return res.status(400).json({ error: result.error, failures: result.failures });
+      }
+
+      res.json({
+        ...(await consolidationWithMembers(result.consolidation)),
+        awardedLoadIds: result.awardedLoadIds,
+        failures: result.failures,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid award", details: error.errors });
+      }
+      console.error("Award consolidation error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/consolidations/:id/cancel - break up an open trip
+  app.post("/api/admin/consolidations/:id/cancel", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const result = await cancelConsolidation(req.params.id);
+      if (!result.success || !result.consolidation) return res.status(400).json({ error: result.error });
+
+      res.json(await consolidationWithMembers(result.consolidation));
+    } catch (error) {
+      console.error("Cancel consolidation error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/carrier/consolidations - the carrier's shared trips with every pickup and drop
+  app.get("/api/carrier/consolidations", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+      if (user.role !== "carrier") return res.status(403).json({ error: "Carrier access required" });
+
+      const consolidations = await storage.getLoadConsolidations({ carrierId: user.id });
+      res.json(await Promise.all(consolidations.map(async (consolidation) => {
+        const members = await storage.getLoadConsolidationMembers(consolidation.id);
+        const { shipperPrice: _shipperPrice, ...trip } = consolidation;
+        return {
+          ...trip,
+          members: await Promise.all(members.map(async (member) => carrierMember(member, await storage.getLoad(member.loadId)))),
+        };
+      })));
+    } catch (error) {
+      console.error("List carrier consolidations error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/loads/:id/consolidation - the shared trip a load rides on, scoped to the caller
+  app.get("/api/loads/:id/consolidation", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const load = await storage.getLoad(req.params.id);
+      if (!load) return res.status(404).json({ error: "Load not found" });
+      if (!load.consolidationId) return res.json(null);
+      const consolidation = await storage.getLoadConsolidation(load.consolidationId);
+      if (!consolidation || consolidation.status === "cancelled") return res.json(null);
+
+      if (user.role === "admin") {
+        return res.json(await consolidationWithMembers(consolidation));
+      }
+
+      const members = await storage.getLoadConsolidationMembers(consolidation.id);
+      const trip = {
+        id: consolidation.id,
+        status: consolidation.status,
+        pickupCity: consolidation.pickupCity,
+        dropoffCity: consolidation.dropoffCity,
+        pickupDate: consolidation.pickupDate,
+        capacityTons: consolidation.capacityTons,
+        totalWeight: consolidation.totalWeight,
+        loadCount: members.length,
+      };
+
+      if (user.role === "shipper") {
+        if (load.shipperId !== user.id) return res.status(403).json({ error: "Not authorized for this load" });
+        // Shippers see their own share, never the other shippers on the truck
+        const own = members.find((member) => member.loadId === load.id);
+        return res.json({
+          ...trip,
+          share: own && {
+            weightTons: own.weightTons,
+            distanceKm: own.distanceKm,
+            shareRatio: own.shareRatio,
+            shipperShare: own.shipperShare,
+          },
+        });
+      }
+
+      if (user.role === "carrier" && consolidation.carrierId === user.id) {
+        return res.json({
+          ...trip,
+          carrierPayout: consolidation.carrierPayout,
+          members: await Promise.all(members.map(async (member) => carrierMember(member, await storage.getLoad(member.loadId)))),
+        });
+      }
+
+      res.status(403).json({ error: "Not authorized for this load" });
+    } catch (error) {
+      console.error("Get load consolidation error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
@@ -0,0 +1,340 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { contractCommitmentPeriods, contractRateStatuses } from "@shared/schema";
+import type { ContractRate, User } from "@shared/schema";
+import {
+  applyContractRate,
+  declineContractLoad,
+  getContractUtilisation,
+} from "./services/contract-rates";
+
+async function getSessionUser(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  return user;
+}
+
+async function getAdmin(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user || user.role !== "admin") {
+    res.status(403).json({ error: "Admin access required" });
+    return null;
+  }
+  return user;
+}
+
+const contractCarrierSchema = z.object({
+  carrierId: z.string().min(1),
+  carrierRate: z.coerce.number().positive(),
+  priority: z.coerce.number().int().min(1).optional(),
+  maxLoadsPerPeriod: z.coerce.number().int().positive().nullable().optional(),
+});
+
+const contractBodySchema = z.object({
+  name: z.string().min(1),
+  shipperId: z.string().min(1),
+  pickupCity: z.string().min(1),
+  dropoffCity: z.string().min(1),
+  truckType: z.string().nullable().optional(),
+  shipperRate: z.coerce.number().positive(),
+  validFrom: z.coerce.date(),
+  validUntil: z.coerce.date(),
+  committedLoads: z.coerce.number().int().min(0).optional(),
+  commitmentPeriod: z.enum(contractCommitmentPeriods).optional(),
+  status: z.enum(contractRateStatuses).optional(),
+  notes: z.string().nullable().optional(),
+  carriers: z.array(contractCarrierSchema).min(1),
+});
+
+async function validateContractParties(shipperId: string | undefined, carrierIds: string[]): Promise<string | null> {
+  if (shipperId) {
+    const shipper = await storage.getUser(shipperId);
+    if (!shipper || shipper.role !== "shipper") return "shipperId is not a shipper";
+  }
+  for (const carrierId of carrierIds) {
+    const carrier = await storage.getUser(carrierId);
+    if (!carrier || carrier.role !== "carrier") return `${carrierId} is not a carrier`;
+  }
+  if (new Set(carrierIds).size !== carrierIds.length) return "A carrier is listed twice";
+  return null;
+}
+
+async function contractWithCarriers(contract: ContractRate) {
+  const carriers = await storage.getContractRateCarriers(contract.id);
+  return {
+    ...contract,
+    carriers: await Promise.all(carriers.map(async (carrier) => {
+      const user = await storage.getUser(carrier.carrierId);
+      return { ...carrier, carrierName: user?.companyName || user?.username || "Unknown" };
+    })),
+  };
+}
+
+export function registerContractRoutes(app: Express): void {
+  // GET /api/admin/contracts - rate cards, optionally for one shipper
+  app.get("/api/admin/contracts", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const contracts = await storage.getContractRates({
+        shipperId: req.query.shipperId as string | undefined,
+        status: req.query.status as string | undefined,
+      });
+      res.json(await Promise.all(contracts.map(contractWithCarriers)));
+    } catch (error) {
+      console.error("List contracts error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/admin/contracts/utilisation - loads this period against commitments
+  app.get("/api/admin/contracts/utilisation", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      res.json(await getContractUtilisation({ shipperId: req.query.shipperId as string | undefined }));
+    } catch (error) {
+      console.error("Contract utilisation error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/admin/contracts/:id - rate card with its carriers and assignments
+  app.get("/api/admin/contracts/:id", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const contract = await storage.getContractRate(req.params.id);
+      if (!contract) return res.status(404).json({ error: "Contract not found" });
+
+      const assignments = await storage.getContractLoadAssignmentsByContract(contract.id);
+      res.json({ ...(await contractWithCarriers(contract)), assignments });
+    } catch (error) {
+      console.error("Get contract error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/contracts - agree a rate card with a shipper and carriers
+  app.post("/api/admin/contracts", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const body = contractBodySchema.parse(req.body);
+      if (body.validUntil <= body.validFrom) {
+        return res.status(400).json({ error: "validUntil must be after validFrom" });
+      }
+      const partyError = await validateContractParties(body.shipperId, body.carriers.map((carrier) => carrier.carrierId));
+      if (partyError) return res.status(400).json({ error: partyError });
+
+      const contract = await storage.createContractRate({
+        name: body.name,
+        shipperId: body.shipperId,
+        pickupCity: body.pickupCity,
+        dropoffCity: body.dropoffCity,
+        truckType: body.truckType || null,
+        shipperRate: body.shipperRate.toString(),
+        validFrom: body.validFrom,
+        validUntil: body.validUntil,
+        committedLoads: body.committedLoads ?? 0,
+        commitmentPeriod: body.commitmentPeriod || "monthly",
+        status: body.status || "active",
+        notes: body.notes || null,
+        createdBy: admin.id,
+      });
+      for (let index = 0; index < body.carriers.length; index++) {
+        const carrier = body.carriers[index];
+        await storage.createContractRateCarrier({
+          contractId: contract.id,
+          carrierId: carrier.carrierId,
+          carrierRate: carrier.carrierRate.toString(),
+          priority: carrier.priority ?? index + 1,
+          maxLoadsPerPeriod: carrier.maxLoadsPerPeriod ?? null,
+        });
+      }
+
+      await storage.createAuditLog({
+        adminId: admin.id,
+        actionType: "contract_created",
+        actionDescription: `Contract "${contract.name}" for ${contract.pickupCity} to ${contract.dropoffCity}`,
+        metadata: { contractId: contract.id, shipperId: contract.shipperId, carriers: body.carriers.length },
+      });
+
+      res.status(201).json(await contractWithCarriers(contract));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid contract", details: error.errors });
+      }
+      console.error("Create contract error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/admin/contracts/:id - edit terms, status or the carrier list
+  app.patch("/api/admin/contracts/:id", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const contract = await storage.getContractRate(req.params.id);
+      if (!contract) return res.status(404).json({ error: "Contract not found" });
+
+      const body = contractBodySchema.partial().parse(req.body);
+      const validFrom = body.validFrom || contract.validFrom;
+      const validUntil = body.validUntil || contract.validUntil;
+      if (validUntil <= validFrom) {
+        return res.status(400).json({ error: "validUntil must be after validFrom" });
+      }
+      const partyError = await validateContractParties(body.shipperId, (body.carriers || []).map((carrier) => carrier.carrierId));
+      if (partyError) return res.status(400).json({ error: partyError });
+
+      const { carriers, shipperRate, ...terms } = body;
+      const updated = await storage.updateContractRate(contract.id, {
+        ...terms,
+        ...(shipperRate !== undefined && { shipperRate: shipperRate.toString() }),
+      });
+
+      // A carrier left out of the new list is deactivated, not deleted, so past assignments keep their carrier
+      if (carriers) {
+        const existing = await storage.getContractRateCarriers(contract.id);
+        for (let index = 0; index < carriers.length; index++) {
+          const carrier = carriers[index];
+          const fields = {
+            carrierRate: carrier.carrierRate.toString(),
+            priority: carrier.priority ?? index + 1,
+            maxLoadsPerPeriod: carrier.maxLoadsPerPeriod ?? null,
+            isActive: true,
+          };
+          const current = existing.find((row) => row.carrierId === carrier.carrierId);
+          if (current) {
+            await storage.updateContractRateCarrier(current.id, fields);
+          } else {
+            await storage.createContractRateCarrier({ contractId: contract.id, carrierId: carrier.carrierId, ...fields });
+          }
+        }
+        for (const row of existing) {
+          if (!carriers.some((carrier) => carrier.carrierId === row.carrierId)) {
+            await storage.updateContractRateCarrier(row.id, { isActive: false });
+          }
+        }
+      }
+
+      await storage.createAuditLog({
+        adminId: admin.id,
+        actionType: "contract_updated",
+        actionDescription: `Contract "${updated?.name || contract.name}" updated`,
+        metadata: { contractId: contract.id, fields: Object.keys(body) },
+      });
+
+      res.json(await contractWithCarriers(updated || contract));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid contract", details: error.errors });
+      }
+      console.error("Update contract error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/loads/:id/apply-contract - run contract matching on a load still awaiting pricing
+  app.post("/api/admin/loads/:id/apply-contract", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const result = await applyContractRate(req.params.id, admin.id);
+      if (!result) {
+        return res.status(400).json({ error: "No active contract covers this load, or it is already priced and posted" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Apply contract error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/carrier/contract-loads - contract awards for the carrier
+  app.get("/api/carrier/contract-loads", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+      if (user.role !== "carrier") return res.status(403).json({ error: "Carrier access required" });
+
+      const assignments = await storage.getContractLoadAssignmentsByCarrier(user.id);
+      const enriched = await Promise.all(assignments.map(async (assignment) => {
+        const [load, contract] = await Promise.all([
+          storage.getLoad(assignment.loadId),
+          storage.getContractRate(assignment.contractId),
+        ]);
+        return {
+          ...assignment,
+          contractName: contract?.name,
+          load: load && {
+            id: load.id,
+            pickupCity: load.pickupCity,
+            dropoffCity: load.dropoffCity,
+            pickupDate: load.pickupDate,
+            requiredTruckType: load.requiredTruckType,
+            status: load.status,
+            pickupId: load.assignedCarrierId === user.id ? load.pickupId : null,
+          },
+          canDecline: assignment.status === "awarded"
+            && load?.assignedCarrierId === user.id
+            && (load.status === "awarded" || load.status === "invoice_created"),
+        };
+      }));
+      res.json(enriched);
+    } catch (error) {
+      console.error("Carrier contract loads error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/carrier/contract-loads/:loadId/decline - hand a contract load back before pickup
+  app.post("/api/carrier/contract-loads/:loadId/decline", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+      if (user.role !== "carrier") return res.status(403).json({ error: "Carrier access required" });
+
+      const reason = typeof req.body.reason === "string" && req.body.reason.trim()
+        ? req.body.reason.trim()
+        : "No reason given";
+      const outcome = await declineContractLoad(req.params.loadId, user.id, reason);
+      if (!outcome.success) return res.status(400).json({ error: outcome.error });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Decline contract load error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/shipper/contracts - the shipper's contracts and utilisation this period
+  app.get("/api/shipper/contracts", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+      if (user.role !== "shipper") return res.status(403).json({ error: "Shipper access required" });
+
+      const utilisation = await getContractUtilisation({ shipperId: user.id });
+      // Shippers see their own rate and volumes, not what carriers are paid
+      res.json(await Promise.all(utilisation.map(async ({ carriers, ...row }) => {
+        const contract = await storage.getContractRate(row.contractId);
+        return { ...row, shipperRate: contract?.shipperRate, carrierCount: carriers.length };
+      })));
+    } catch (error) {
+      console.error("Shipper contracts error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
@@ -0,0 +1,108 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import type { Load, User } from "@shared/schema";
+import { CHECKPOINT_RADIUS_M, getLoadGeofences } from "./services/geofencing";
+
+async function getSessionUser(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  return user;
+}
+
+// Shippers and admins manage checkpoints; the hauling carrier can see them too
+function canViewLoadGeofences(user: User, load: Load): boolean {
+  return user.role === "admin" || load.shipperId === user.id || load.assignedCarrierId === user.id;
+}
+
+function canManageLoadGeofences(user: User, load: Load): boolean {
+  return user.role === "admin" || load.shipperId === user.id;
+}
+
+const checkpointBodySchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  radiusMeters: z.coerce.number().int().min(100).max(5000).optional(),
+});
+
+export function registerGeofenceRoutes(app: Express): void {
+  // GET /api/loads/:id/geofences - site fences and checkpoints, with whether the truck is inside
+  app.get("/api/loads/:id/geofences", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const load = await storage.getLoad(req.params.id);
+      if (!load) return res.status(404).json({ error: "Load not found" });
+      if (!canViewLoadGeofences(user, load)) {
+        return res.status(403).json({ error: "Not authorized for this load" });
+      }
+
+      res.json(await getLoadGeofences(load));
+    } catch (error) {
+      console.error("Get geofences error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/loads/:id/geofences - add a custom checkpoint along the route
+  app.post("/api/loads/:id/geofences", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const load = await storage.getLoad(req.params.id);
+      if (!load) return res.status(404).json({ error: "Load not found" });
+      if (!canManageLoadGeofences(user, load)) {
+        return res.status(403).json({ error: "Not authorized for this load" });
+      }
+
+      const body = checkpointBodySchema.parse(req.body);
+      const geofence = await storage.createGeofence({
+        loadId: load.id,
+        geofenceType: "checkpoint",
+        name: body.name,
+        lat: body.lat.toFixed(7),
+        lng: body.lng.toFixed(7),
+        radiusMeters: body.radiusMeters ?? CHECKPOINT_RADIUS_M,
+        createdBy: user.id,
+      });
+      res.json(geofence);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid checkpoint", details: error.errors });
+      }
+      console.error("Create geofence error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/geofences/:id - remove a checkpoint; site fences follow the load
+  app.delete("/api/geofences/:id", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const geofence = await storage.getGeofence(req.params.id);
+      if (!geofence) return res.status(404).json({ error: "Geofence not found" });
+      const load = await storage.getLoad(geofence.loadId);
+      if (!load || !canManageLoadGeofences(user, load)) {
+        return res.status(403).json({ error: "Not authorized for this load" });
+      }
+      if (geofence.geofenceType !== "checkpoint") {
+        return res.status(400).json({ error: "Only checkpoints can be removed" });
+      }
+
+      await storage.deleteGeofence(geofence.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete geofence error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
@@ -0,0 +1,285 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { gpsDeviceTypes } from "@shared/schema";
+import type { GpsDevice, User } from "@shared/schema";
+import { parseAis140Packet, splitAis140Frames } from "./services/ais140";
+import {
+  authenticateDevice,
+  devicePositionsSchema,
+  ingestDevicePositions,
+  ingestDriverPhonePositions,
+  registerGpsDevice,
+  rotateDeviceKey,
+  type DevicePosition,
+} from "./services/telemetry-ingestion";
+
+async function getCarrierOrAdmin(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  if (user.role !== "carrier" && user.role !== "admin") {
+    res.status(403).json({ error: "Carrier or admin access required" });
+    return null;
+  }
+  return user;
+}
+
+// Devices authenticate with their own key, not a session
+async function getDevice(req: Request, res: Response, deviceType: GpsDevice["deviceType"]): Promise<GpsDevice | null> {
+  const device = await authenticateDevice(req.get("x-device-key"));
+  if (!device) {
+    res.status(401).json({ error: "Invalid or inactive device key" });
+    return null;
+  }
+  if (device.deviceType !== deviceType) {
+    res.status(403).json({ error: `This key belongs to a ${device.deviceType} device` });
+    return null;
+  }
+  return device;
+}
+
+// Never send the key hash back out
+function deviceView(device: GpsDevice, licensePlate?: string | null) {
+  const { apiKeyHash: _, ...rest } = device;
+  return { ...rest, licensePlate: licensePlate ?? null };
+}
+
+const registerBodySchema = z.object({
+  truckId: z.string().min(1),
+  deviceType: z.enum(gpsDeviceTypes),
+  deviceIdentifier: z.string().trim().min(4).max(64),
+  label: z.string().trim().max(80).nullable().optional(),
+}).refine((body) => body.deviceType !== "ais140" || /^\d{15}$/.test(body.deviceIdentifier), {
+  message: "AIS-140 devices are identified by their 15 digit IMEI",
+  path: ["deviceIdentifier"],
+});
+
+const ais140BodySchema = z.object({
+  packets: z.array(z.string()).max(500).optional(),
+  data: z.string().max(256 * 1024).optional(),
+});
+
+const mobileBodySchema = z.object({
+  positions: devicePositionsSchema,
+});
+
+async function getSessionUser(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  return user;
+}
+
+export function registerGpsDeviceRoutes(app: Express): void {
+  // POST /api/telemetry/ingest/ais140 - raw AIS-140 packets relayed over HTTP
+  app.post("/api/telemetry/ingest/ais140", async (req: Request, res: Response) => {
+    try {
+      const device = await getDevice(req, res, "ais140");
+      if (!device) return;
+
+      const body = ais140BodySchema.parse(req.body);
+      const frames = [...(body.packets || []), ...(body.data ? splitAis140Frames(body.data).frames : [])];
+
+      const positions: DevicePosition[] = [];
+      let skipped = 0;
+      let invalid = 0;
+      frames.forEach((frame) => {
+        const result = parseAis140Packet(frame);
+        if (result.kind === "invalid") invalid++;
+        else if (result.kind === "skipped") skipped++;
+        // A key only vouches for its own unit
+        else if (result.imei !== device.deviceIdentifier) invalid++;
+        else positions.push(result.position);
+      });
+
+      const result = await ingestDevicePositions(device, positions);
+      res.json({ ...result, rejected: result.rejected + invalid, skipped });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid packets", details: error.errors });
+      }
+      console.error("AIS-140 ingest error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/telemetry/ingest/mobile - positions (and optional CAN readings) from the driver app
+  app.post("/api/telemetry/ingest/mobile", async (req: Request, res: Response) => {
+    try {
+      const device = await getDevice(req, res, "mobile_app");
+      if (!device) return;
+
+      const { positions } = mobileBodySchema.parse(req.body);
+      res.json(await ingestDevicePositions(device, positions));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid positions", details: error.errors });
+      }
+      console.error("Mobile ingest error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/shipments/:id/driver-location - buffered phone positions from the solo portal
+  app.post("/api/shipments/:id/driver-location", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const shipment = await storage.getShipment(req.params.id);
+      if (!shipment) return res.status(404).json({ error: "Shipment not found" });
+      if (shipment.carrierId !== user.id) {
+        return res.status(403).json({ error: "Not authorized for this shipment" });
+      }
+
+      const { positions } = mobileBodySchema.parse(req.body);
+      // A phone that was offline uploads the end of the trip after delivery; keep
+      // what it recorded up to delivery and reject anything later
+      let tripPositions = positions;
+      if (shipment.status === "delivered" || shipment.endOtpVerified) {
+        const deliveredAt = shipment.endOtpVerifiedAt || shipment.completedAt;
+        tripPositions = deliveredAt ? positions.filter((position) => position.recordedAt <= deliveredAt) : [];
+        if (tripPositions.length === 0) {
+          return res.json({ accepted: 0, duplicates: 0, rejected: positions.length });
+        }
+      }
+
+      const result = await ingestDriverPhonePositions(user, shipment, tripPositions);
+      if (!result.success || !result.result) return res.status(400).json({ error: result.error });
+      res.json({ ...result.result, rejected: result.result.rejected + positions.length - tripPositions.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid positions", details: error.errors });
+      }
+      console.error("Driver location error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/shipments/:id/breadcrumbs - the load's recorded trail, oldest first
+  app.get("/api/shipments/:id/breadcrumbs", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const shipment = await storage.getShipment(req.params.id);
+      if (!shipment) return res.status(404).json({ error: "Shipment not found" });
+      if (user.role !== "admin" && shipment.carrierId !== user.id && shipment.shipperId !== user.id) {
+        return res.status(403).json({ error: "Not authorized for this shipment" });
+      }
+
+      const breadcrumbs = await storage.getGpsBreadcrumbsByLoad(shipment.loadId);
+      res.json(breadcrumbs.map((crumb) => ({
+        lat: parseFloat(crumb.lat),
+        lng: parseFloat(crumb.lng),
+        speed: crumb.speed,
+        heading: crumb.heading,
+        timestamp: (crumb.recordedAt || crumb.createdAt)?.toISOString() || null,
+      })));
+    } catch (error) {
+      console.error("Get shipment breadcrumbs error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/gps-devices - a carrier's devices, or every device for admins (?carrierId= to filter)
+  app.get("/api/gps-devices", async (req: Request, res: Response) => {
+    try {
+      const user = await getCarrierOrAdmin(req, res);
+      if (!user) return;
+
+      const carrierId = user.role === "carrier"
+        ? user.id
+        : typeof req.query.carrierId === "string" ? req.query.carrierId : undefined;
+      const truckId = typeof req.query.truckId === "string" ? req.query.truckId : undefined;
+      const devices = await storage.getGpsDevices({ carrierId, truckId });
+
+      const plates = new Map<string, string>();
+      for (const device of devices) {
+        if (!plates.has(device.truckId)) {
+          const truck = await storage.getTruck(device.truckId);
+          plates.set(device.truckId, truck?.licensePlate || "");
+        }
+      }
+      res.json(devices.map((device) => deviceView(device, plates.get(device.truckId))));
+    } catch (error) {
+      console.error("Get GPS devices error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/gps-devices - register a tracker or phone for a truck; the key is shown once
+  app.post("/api/gps-devices", async (req: Request, res: Response) => {
+    try {
+      const user = await getCarrierOrAdmin(req, res);
+      if (!user) return;
+
+      const body = registerBodySchema.parse(req.body);
+      const truck = await storage.getTruck(body.truckId);
+      if (!truck) return res.status(404).json({ error: "Truck not found" });
+      if (user.role === "carrier" && truck.carrierId !== user.id) {
+        return res.status(403).json({ error: "Not authorized for this truck" });
+      }
+
+      const result = await registerGpsDevice({ ...body, truck, createdBy: user.id });
+      if (!result.success || !result.device) {
+        return res.status(409).json({ error: result.error });
+      }
+      res.json({ device: deviceView(result.device, truck.licensePlate), apiKey: result.apiKey });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid device", details: error.errors });
+      }
+      console.error("Register GPS device error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/gps-devices/:id/rotate-key - issue a new key; the old one stops working
+  app.post("/api/gps-devices/:id/rotate-key", async (req: Request, res: Response) => {
+    try {
+      const user = await getCarrierOrAdmin(req, res);
+      if (!user) return;
+
+      const device = await storage.getGpsDevice(req.params.id);
+      if (!device) return res.status(404).json({ error: "Device not found" });
+      if (user.role === "carrier" && device.carrierId !== user.id) {
+        return res.status(403).json({ error: "Not authorized for this device" });
+      }
+      if (!device.isActive) return res.status(400).json({ error: "Device is deactivated" });
+
+      const result = await rotateDeviceKey(device);
+      res.json({ device: deviceView(result.device), apiKey: result.apiKey });
+    } catch (error) {
+      console.error("Rotate GPS device key error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/gps-devices/:id/deactivate - stop accepting positions from a device
+  app.post("/api/gps-devices/:id/deactivate", async (req: Request, res: Response) => {
+    try {
+      const user = await getCarrierOrAdmin(req, res);
+      if (!user) return;
+
+      const device = await storage.getGpsDevice(req.params.id);
+      if (!device) return res.status(404).json({ error: "Device not found" });
+      if (user.role === "carrier" && device.carrierId !== user.id) {
+        return res.status(403).json({ error: "Not authorized for this device" });
+      }
+
+      const updated = await storage.updateGpsDevice(device.id, { isActive: false });
+      res.json(deviceView(updated || device));
+    } catch (error) {
+      console.error("Deactivate GPS device error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
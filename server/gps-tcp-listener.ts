@@ -0,0 +1,84 @@
+import { createServer, type Server, type Socket } from "net";
+import { storage } from "./storage";
+import { parseAis140Packet, splitAis140Frames } from "./services/ais140";
+import { ingestDevicePositions, type DevicePosition } from "./services/telemetry-ingestion";
+import type { GpsDevice } from "@shared/schema";
+
+/**
+ * AIS-140 TCP Listener
+ *
+ * Most AIS-140 units can only open a raw TCP socket to a configured
+ * host:port, so they can't send our API key. They are identified by the
+ * IMEI in each packet, which must belong to an active registered ais140
+ * device. Enabled by setting AIS140_TCP_PORT.
+ */
+
+// A unit that never closes a frame shouldn't be able to grow the buffer forever
+const MAX_BUFFER_LENGTH = 64 * 1024;
+const IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+async function handleChunk(socket: Socket, frames: string[], devices: Map<string, GpsDevice | null>): Promise<void> {
+  const positionsByImei: Map<string, DevicePosition[]> = new Map();
+
+  for (const frame of frames) {
+    const result = parseAis140Packet(frame);
+    if (result.kind !== "position") continue;
+    const positions = positionsByImei.get(result.imei) || [];
+    positions.push(result.position);
+    positionsByImei.set(result.imei, positions);
+  }
+
+  for (const imei of Array.from(positionsByImei.keys())) {
+    if (!devices.has(imei)) {
+      devices.set(imei, (await storage.getGpsDeviceByIdentifier("ais140", imei)) || null);
+    }
+    const device = devices.get(imei);
+    if (!device) {
+      console.warn(`AIS-140 packet from unregistered IMEI ${imei} (${socket.remoteAddress})`);
+      continue;
+    }
+    await ingestDevicePositions(device, positionsByImei.get(imei) || []);
+  }
+}
+
+export function startAis140Listener(): Server | null {
+  const port = parseInt(process.env.AIS140_TCP_PORT || "", 10);
+  if (!port) return null;
+
+  const server = createServer((socket) => {
+    let buffer = "";
+    // Looked up once per connection; null marks an unregistered IMEI
+    const devices: Map<string, GpsDevice | null> = new Map();
+    let queue = Promise.resolve();
+
+    socket.setEncoding("ascii");
+    socket.setTimeout(IDLE_TIMEOUT_MS, () => socket.destroy());
+
+    socket.on("data", (chunk: string) => {
+      const { frames, remainder } = splitAis140Frames(buffer + chunk);
+      buffer = remainder;
+      if (buffer.length > MAX_BUFFER_LENGTH) {
+        console.warn(`AIS-140 connection from ${socket.remoteAddress} sent an oversized frame, closing`);
+        socket.destroy();
+        return;
+      }
+      if (frames.length === 0) return;
+      // Keep packets from one connection in arrival order
+      queue = queue
+        .then(() => handleChunk(socket, frames, devices))
+        .catch((error) => console.error("AIS-140 ingest error:", error));
+    });
+
+    socket.on("error", (error) => {
+      console.error("AIS-140 socket error:", error.message);
+    });
+  });
+
+  server.on("error", (error) => {
+    console.error("AIS-140 listener error:", error);
+  });
+  server.listen(port, "0.0.0.0", () => {
+    console.log(`AIS-140 TCP listener started on port ${port}`);
+  });
+  return server;
+}
@@ -1,13 +1,15 @@
 import type { Express, Request, Response } from "express";
-import OpenAI from "openai";
 import { db } from "./db";
+import { storage } from "./storage";
 import { helpBotConversations, helpBotMessages } from "@shared/schema";
+import type { User } from "@shared/schema";
 import { eq, desc } from "drizzle-orm";
+import { getHelpBotModelProvider, type HelpBotChatMessage, type HelpBotToolSpec } from "./services/helpbot-model";
+import { getHelpBotToolSpecs, executeHelpBotTool } from "./services/helpbot-tools";
+import { recordUserReply } from "./services/support-tickets";
 
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+// Model/tool round trips allowed per user message before the bot must answer
+const MAX_TOOL_ROUNDS = 4;
 
 const LOADSMART_KNOWLEDGE = `
 You're a real person working at Load Smart - India's trusted digital freight marketplace. Your name is Priya. You're chatting with users who need help navigating the platform.
@@ -262,6 +264,23 @@ For issues I can't help with, reach our team:
 Remember: I'm here to make your Load Smart experience better. Don't hesitate to ask anything - no question is too simple!
 `;
 
+// Tells the model who it's talking to and when to use the account lookups
+function accountContext(user: User | undefined, tools: HelpBotToolSpec[]): string {
+  if (!user || tools.length === 0) {
+    return `
+
+## This Chat
+The user isn't signed in, so you can't look up anything about their account. If they ask about a specific load, invoice or verification, ask them to sign in first.`;
+  }
+  return `
+
+## This Chat
+You're talking to ${user.username}, a signed-in ${user.role}. You can look things up on their account with your tools: ${tools.map((t) => t.name).join(", ")}.
+When they ask about a specific load, shipment, invoice, their verification or OTP requests, use a tool instead of guessing. Load numbers look like LD-042.
+If you can't sort something out, or they want a person, escalate it to the support team (if that tool is available) instead of just giving the phone number.
+Only share what the tools return. If a tool says something wasn't found, tell them you couldn't find it on their account. Never make up statuses, amounts or dates.`;
+}
+
 export function registerHelpBotRoutes(app: Express): void {
   app.post("/api/helpbot/chat", async (req: Request, res: Response) => {
     try {
@@ -273,6 +292,16 @@ export function registerHelpBotRoutes(app: Express): void {
       }
 
       let convId = conversationId;
+
+      // Support replies land in conversations, so only the owner may post to one
+      if (convId) {
+        const [existing] = await db.select()
+          .from(helpBotConversations)
+          .where(eq(helpBotConversations.id, convId));
+        if (!existing || (existing.userId && existing.userId !== userId)) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+      }
       
       if (!convId) {
         const [newConv] = await db.insert(helpBotConversations)
@@ -287,16 +316,33 @@ export function registerHelpBotRoutes(app: Express): void {
       await db.insert(helpBotMessages)
         .values({ conversationId: convId, role: "user", content: message });
 
+      // While a support ticket is open the conversation belongs to the support team
+      const activeTicket = userId ? await storage.getActiveSupportTicketByConversation(convId) : undefined;
+      if (activeTicket && activeTicket.userId === userId) {
+        await recordUserReply(activeTicket);
+        res.setHeader("Content-Type", "text/event-stream");
+        res.setHeader("Cache-Control", "no-cache");
+        res.setHeader("Connection", "keep-alive");
+        res.write(`data: ${JSON.stringify({ conversationId: convId })}\n\n`);
+        res.write(`data: ${JSON.stringify({ ticket: { id: activeTicket.id, ticketNumber: activeTicket.ticketNumber, status: activeTicket.status } })}\n\n`);
+        res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
+        return res.end();
+      }
+
       const history = await db.select()
         .from(helpBotMessages)
         .where(eq(helpBotMessages.conversationId, convId))
         .orderBy(helpBotMessages.createdAt);
 
-      const chatMessages: { role: "system" | "user" | "assistant"; content: string }[] = [
-        { role: "system", content: LOADSMART_KNOWLEDGE },
+      const user = userId ? await storage.getUser(userId) : undefined;
+      const tools = getHelpBotToolSpecs(user);
+
+      const chatMessages: HelpBotChatMessage[] = [
+        { role: "system", content: LOADSMART_KNOWLEDGE + accountContext(user, tools) },
+        // Support agent replies read to the model as assistant turns
         ...history.map((m) => ({
-          role: m.role as "user" | "assistant",
-          content: m.content,
+          role: m.role === "user" ? "user" as const : "assistant" as const,
+          content: m.role === "agent" ? `[Support team] ${m.content}` : m.content,
         })),
       ];
 
@@ -306,26 +352,37 @@ export function registerHelpBotRoutes(app: Express): void {
 
       res.write(`data: ${JSON.stringify({ conversationId: convId })}\n\n`);
 
-      const stream = await openai.chat.completions.create({
-        model: "gpt-5.1",
-        messages: chatMessages,
-        stream: true,
-        max_completion_tokens: 1024,
-      });
-
+      const provider = getHelpBotModelProvider();
       let fullResponse = "";
-
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || "";
-        if (content) {
-          fullResponse += content;
-          res.write(`data: ${JSON.stringify({ content })}\n\n`);
+      const onContent = (content: string) => {
+        fullResponse += content;
+        res.write(`data: ${JSON.stringify({ content })}\n\n`);
+      };
+
+      for (let round = 0; ; round++) {
+        // Last round goes without tools so the model has to answer
+        const turn = await provider.complete(chatMessages, round < MAX_TOOL_ROUNDS ? tools : [], onContent);
+        if (turn.toolCalls.length === 0 || round >= MAX_TOOL_ROUNDS) break;
+
+        chatMessages.push({ role: "assistant", content: turn.content, toolCalls: turn.toolCalls });
+        for (const call of turn.toolCalls) {
+          chatMessages.push({
+            role: "tool",
+            toolCallId: call.id,
+            content: await executeHelpBotTool({ user, conversationId: convId }, call),
+          });
         }
       }
 
       await db.insert(helpBotMessages)
         .values({ conversationId: convId, role: "assistant", content: fullResponse });
 
+      // The bot may have escalated during this turn
+      const escalated = userId ? await storage.getActiveSupportTicketByConversation(convId) : undefined;
+      if (escalated) {
+        res.write(`data: ${JSON.stringify({ ticket: { id: escalated.id, ticketNumber: escalated.ticketNumber, status: escalated.status } })}\n\n`);
+      }
+
       res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
       res.end();
     } catch (error) {
@@ -383,7 +440,12 @@ export function registerHelpBotRoutes(app: Express): void {
         .where(eq(helpBotMessages.conversationId, convId))
         .orderBy(helpBotMessages.createdAt);
 
-      res.json({ ...conversation, messages: msgs });
+      const ticket = await storage.getActiveSupportTicketByConversation(convId);
+      res.json({
+        ...conversation,
+        messages: msgs,
+        ticket: ticket ? { id: ticket.id, ticketNumber: ticket.ticketNumber, status: ticket.status } : null,
+      });
     } catch (error) {
       console.error("Error fetching conversation:", error);
       res.status(500).json({ error: "Failed to fetch conversation" });
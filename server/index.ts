@@ -5,6 +5,8 @@ import { createServer } from "http";
 import { setupMarketplaceWebSocket } from "./websocket-marketplace";
 import { registerObjectStorageRoutes } from "./replit_integrations/object_storage";
 import { storage } from "./storage";
+import { startScheduler } from "./services/job-scheduler";
+import { registerWorkflowJobs } from "./services/workflow-jobs";
 import path from "path";
 import fs from "fs";
 
@@ -89,6 +91,11 @@ app.use((req, res, next) => {
   // Register object storage routes (after session middleware)
   registerObjectStorageRoutes(app);
 
+  // Background jobs: bid/proposal/OTP expiry, overdue invoices, action queue,
+  // e-way bill lapse warnings
+  registerWorkflowJobs();
+  await startScheduler();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,293 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertLoadSchema, loadScheduleFrequencies } from "@shared/schema";
+import type { LoadSchedule, User } from "@shared/schema";
+import {
+  createLoadFromTemplate,
+  describeSchedule,
+  getUpcomingOccurrences,
+  OCCURRENCE_OVERRIDE_FIELDS,
+  setOccurrence,
+  shipperCanUseTemplate,
+  startOfDay,
+  toIstCalendar,
+} from "./services/load-schedules";
+import { queueLoadSiteGeocoding } from "./services/site-geocoding";
+
+async function getShipper(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  if (user.role !== "shipper") {
+    res.status(403).json({ error: "Shipper access required" });
+    return null;
+  }
+  return user;
+}
+
+const scheduleBodySchema = z.object({
+  templateLoadId: z.string().min(1),
+  name: z.string().min(1),
+  frequency: z.enum(loadScheduleFrequencies),
+  weekdays: z.array(z.coerce.number().int().min(0).max(6)).optional().nullable(),
+  dayOfMonth: z.coerce.number().int().min(1).max(31).optional().nullable(),
+  pickupOffsetDays: z.coerce.number().int().min(0).max(60).optional(),
+  deliveryOffsetDays: z.coerce.number().int().min(0).max(90).optional().nullable(),
+  pickupTime: z.string().regex(/^\d{2}:\d{2}$/, "pickupTime must be HH:mm").optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+const occurrenceBodySchema = z.object({
+  action: z.enum(["skip", "edit", "restore"]),
+  overrides: z.record(z.string().nullable()).optional(),
+});
+
+function checkScheduleRule(rule: { frequency?: string; weekdays?: number[] | null; pickupOffsetDays?: number; deliveryOffsetDays?: number | null; startDate?: Date; endDate?: Date | null }): string | null {
+  if (rule.frequency === "weekly" && !rule.weekdays?.length) return "Pick at least one weekday";
+  if (rule.deliveryOffsetDays !== null && rule.deliveryOffsetDays !== undefined && rule.deliveryOffsetDays < (rule.pickupOffsetDays || 0)) {
+    return "Delivery can't be before pickup";
+  }
+  if (rule.startDate && rule.endDate && rule.endDate < rule.startDate) return "endDate must be after startDate";
+  return null;
+}
+
+async function scheduleWithOccurrences(schedule: LoadSchedule) {
+  const template = await storage.getLoad(schedule.templateLoadId);
+  return {
+    ...schedule,
+    description: describeSchedule(schedule),
+    template: template && {
+      id: template.id,
+      templateName: template.templateName,
+      pickupCity: template.pickupCity,
+      dropoffCity: template.dropoffCity,
+      weight: template.weight,
+      requiredTruckType: template.requiredTruckType,
+    },
+    upcoming: schedule.isActive ? await getUpcomingOccurrences(schedule) : [],
+  };
+}
+
+export function registerLoadScheduleRoutes(app: Express): void {
+  // GET /api/shipper/load-templates - the shipper's saved load templates
+  app.get("/api/shipper/load-templates", async (req: Request, res: Response) => {
+    try {
+      const user = await getShipper(req, res);
+      if (!user) return;
+
+      res.json(await storage.getLoadTemplatesByShipper(user.id));
+    } catch (error) {
+      console.error("List load templates error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/shipper/load-templates - save post-load form values as a template
+  app.post("/api/shipper/load-templates", async (req: Request, res: Response) => {
+    try {
+      const user = await getShipper(req, res);
+      if (!user) return;
+
+      const { templateName, pickupDate: _pickupDate, deliveryDate: _deliveryDate, ...body } = req.body;
+      if (typeof templateName !== "string" || !templateName.trim()) {
+        return res.status(400).json({ error: "templateName is required" });
+      }
+      const parsedWeight = parseFloat(body.weight);
+
+      const data = insertLoadSchema.parse({
+        ...body,
+        pickupAddress: body.pickupAddress || "",
+        pickupCity: body.pickupCity || "",
+        dropoffAddress: body.dropoffAddress || "",
+        dropoffCity: body.dropoffCity || "",
+        weight: isNaN(parsedWeight) ? 0 : parsedWeight,
+        shipperId: user.id,
+        status: "draft",
+        isTemplate: true,
+        templateName: templateName.trim(),
+      });
+      if (!data.pickupCity || !data.dropoffCity) {
+        return res.status(400).json({ error: "Pickup and dropoff city are required" });
+      }
+
+      const template = await storage.createLoad(data);
+      queueLoadSiteGeocoding(template.id);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Create load template error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/shipper/load-templates/:id - remove a template no schedule uses
+  app.delete("/api/shipper/load-templates/:id", async (req: Request, res: Response) => {
+    try {
+      const user = await getShipper(req, res);
+      if (!user) return;
+
+      const template = await storage.getLoad(req.params.id);
+      if (!shipperCanUseTemplate(template, user)) return res.status(404).json({ error: "Template not found" });
+
+      const schedules = await storage.getLoadSchedulesByTemplate(template.id);
+      if (schedules.length > 0) {
+        return res.status(409).json({ error: "A recurring schedule uses this template" });
+      }
+      await storage.deleteLoadTemplate(template.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete load template error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/shipper/load-templates/:id/post - submit a load from a template now
+  app.post("/api/shipper/load-templates/:id/post", async (req: Request, res: Response) => {
+    try {
+      const user = await getShipper(req, res);
+      if (!user) return;
+
+      const template = await storage.getLoad(req.params.id);
+      if (!shipperCanUseTemplate(template, user)) return res.status(404).json({ error: "Template not found" });
+
+      const load = await createLoadFromTemplate(template, {
+        pickupDate: req.body.pickupDate ? new Date(req.body.pickupDate) : null,
+        deliveryDate: req.body.deliveryDate ? new Date(req.body.deliveryDate) : null,
+        source: `template: ${template.templateName}`,
+      });
+      const current = await storage.getLoad(load.id);
+      res.json({ load_id: load.id, load_number: load.shipperLoadNumber, status: current?.status || load.status });
+    } catch (error) {
+      console.error("Post from template error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/shipper/load-schedules - schedules with their upcoming occurrences
+  app.get("/api/shipper/load-schedules", async (req: Request, res: Response) => {
+    try {
+      const user = await getShipper(req, res);
+      if (!user) return;
+
+      const schedules = await storage.getLoadSchedulesByShipper(user.id);
+      res.json(await Promise.all(schedules.map(scheduleWithOccurrences)));
+    } catch (error) {
+      console.error("List load schedules error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/shipper/load-schedules - repeat a template on a schedule
+  app.post("/api/shipper/load-schedules", async (req: Request, res: Response) => {
+    try {
+      const user = await getShipper(req, res);
+      if (!user) return;
+
+      const body = scheduleBodySchema.parse(req.body);
+      const template = await storage.getLoad(body.templateLoadId);
+      if (!shipperCanUseTemplate(template, user)) return res.status(404).json({ error: "Template not found" });
+      const ruleError = checkScheduleRule(body);
+      if (ruleError) return res.status(400).json({ error: ruleError });
+
+      const schedule = await storage.createLoadSchedule({
+        shipperId: user.id,
+        templateLoadId: template.id,
+        name: body.name,
+        frequency: body.frequency,
+        weekdays: body.frequency === "weekly" ? body.weekdays : null,
+        dayOfMonth: body.frequency === "monthly" ? body.dayOfMonth || toIstCalendar(body.startDate).getUTCDate() : null,
+        pickupOffsetDays: body.pickupOffsetDays ?? 0,
+        deliveryOffsetDays: body.deliveryOffsetDays ?? null,
+        pickupTime: body.pickupTime || "09:00",
+        startDate: startOfDay(body.startDate),
+        endDate: body.endDate ? startOfDay(body.endDate) : null,
+        isActive: body.isActive ?? true,
+      });
+      res.status(201).json(await scheduleWithOccurrences(schedule));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid schedule", details: error.errors });
+      }
+      console.error("Create load schedule error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/shipper/load-schedules/:id - change the rule, or pause/resume
+  app.patch("/api/shipper/load-schedules/:id", async (req: Request, res: Response) => {
+    try {
+      const user = await getShipper(req, res);
+      if (!user) return;
+
+      const schedule = await storage.getLoadSchedule(req.params.id);
+      if (!schedule || schedule.shipperId !== user.id) return res.status(404).json({ error: "Schedule not found" });
+
+      const body = scheduleBodySchema.partial().parse(req.body);
+      if (body.templateLoadId && body.templateLoadId !== schedule.templateLoadId) {
+        const template = await storage.getLoad(body.templateLoadId);
+        if (!shipperCanUseTemplate(template, user)) return res.status(404).json({ error: "Template not found" });
+      }
+      const merged = {
+        frequency: body.frequency || schedule.frequency,
+        weekdays: body.weekdays !== undefined ? body.weekdays : schedule.weekdays,
+        pickupOffsetDays: body.pickupOffsetDays ?? schedule.pickupOffsetDays ?? 0,
+        deliveryOffsetDays: body.deliveryOffsetDays !== undefined ? body.deliveryOffsetDays : schedule.deliveryOffsetDays,
+        startDate: body.startDate || schedule.startDate,
+        endDate: body.endDate !== undefined ? body.endDate : schedule.endDate,
+      };
+      const ruleError = checkScheduleRule(merged);
+      if (ruleError) return res.status(400).json({ error: ruleError });
+
+      const updated = await storage.updateLoadSchedule(schedule.id, {
+        ...body,
+        ...(body.startDate && { startDate: startOfDay(body.startDate) }),
+        ...(body.endDate && { endDate: startOfDay(body.endDate) }),
+      });
+      res.json(await scheduleWithOccurrences(updated || schedule));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid schedule", details: error.errors });
+      }
+      console.error("Update load schedule error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PUT /api/shipper/load-schedules/:id/occurrences/:date - skip, edit or restore one upcoming occurrence
+  app.put("/api/shipper/load-schedules/:id/occurrences/:date", async (req: Request, res: Response) => {
+    try {
+      const user = await getShipper(req, res);
+      if (!user) return;
+
+      const schedule = await storage.getLoadSchedule(req.params.id);
+      if (!schedule || schedule.shipperId !== user.id) return res.status(404).json({ error: "Schedule not found" });
+
+      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(req.params.date);
+      if (!match) return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+      const day = startOfDay(new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]), 12)));
+
+      const body = occurrenceBodySchema.parse(req.body);
+      const overrides = Object.fromEntries(
+        Object.entries(body.overrides || {}).filter(([key]) => (OCCURRENCE_OVERRIDE_FIELDS as readonly string[]).includes(key))
+      );
+      const result = await setOccurrence(schedule, day, body.action, overrides);
+      if (result.error) return res.status(400).json({ error: result.error });
+
+      res.json(await scheduleWithOccurrences(schedule));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid occurrence change", details: error.errors });
+      }
+      console.error("Update schedule occurrence error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
@@ -0,0 +1,144 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import type { LoadStatus, LoadStop, User } from "@shared/schema";
+import { checkCarrierEligibility } from "./workflow-service";
+import { getLegDistances, loadStopsInputSchema, MAX_LOAD_STOPS, saveLoadStops } from "./services/load-stops";
+import { queueLoadSiteGeocoding } from "./services/site-geocoding";
+
+async function getSessionUser(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  return user;
+}
+
+// Stops can change until a carrier is awarded the load
+const SHIPPER_EDITABLE_STATUSES: LoadStatus[] = ["draft", "pending"];
+const ADMIN_EDITABLE_STATUSES: LoadStatus[] = ["draft", "pending", "priced", "posted_to_carriers", "open_for_bid"];
+
+// What a carrier the load isn't open to may see: the route, not the sites
+function cityLevelStop(stop: LoadStop) {
+  const { id, loadId, sequence, stopType, city, state, legDistanceKm, status } = stop;
+  return { id, loadId, sequence, stopType, city, state, legDistanceKm, status };
+}
+
+const legsBodySchema = z.object({
+  locations: z.array(z.string().trim().min(2)).min(2).max(MAX_LOAD_STOPS),
+});
+
+export function registerLoadStopRoutes(app: Express): void {
+  // GET /api/loads/:id/stops - ordered stops of a multi-stop load
+  app.get("/api/loads/:id/stops", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const load = await storage.getLoad(req.params.id);
+      if (!load) return res.status(404).json({ error: "Load not found" });
+      if (user.role === "shipper" && load.shipperId !== user.id) {
+        return res.status(403).json({ error: "Not authorized for this load" });
+      }
+
+      const stops = await storage.getLoadStops(load.id);
+      if (user.role === "admin" || user.role === "shipper" || load.assignedCarrierId === user.id) {
+        return res.json(stops);
+      }
+      // Sites are for carriers the load is open to; stop contacts only for the carrier doing the run
+      const { eligible } = user.role === "carrier" ? await checkCarrierEligibility(user.id, load) : { eligible: false };
+      res.json(eligible
+        ? stops.map((stop) => ({ ...stop, contactName: null, contactPhone: null }))
+        : stops.map(cityLevelStop));
+    } catch (error) {
+      console.error("Get load stops error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PUT /api/loads/:id/stops - replace the stop list (fewer than three stops makes it a plain load)
+  app.put("/api/loads/:id/stops", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const load = await storage.getLoad(req.params.id);
+      if (!load) return res.status(404).json({ error: "Load not found" });
+
+      const status = (load.status || "draft") as LoadStatus;
+      if (user.role === "shipper") {
+        if (load.shipperId !== user.id) return res.status(403).json({ error: "Not authorized for this load" });
+        if (!SHIPPER_EDITABLE_STATUSES.includes(status)) {
+          return res.status(400).json({ error: "Stops can't be changed once the load is priced" });
+        }
+      } else if (user.role === "admin") {
+        if (!ADMIN_EDITABLE_STATUSES.includes(status)) {
+          return res.status(400).json({ error: "Stops can't be changed once the load is awarded" });
+        }
+      } else {
+        return res.status(403).json({ error: "Shipper or admin access required" });
+      }
+
+      const rawStops = Array.isArray(req.body.stops) ? req.body.stops : [];
+      if (rawStops.length < 3) {
+        await storage.replaceLoadStops(load.id, []);
+        await storage.updateLoad(load.id, { isMultiStop: false });
+        return res.json([]);
+      }
+
+      const input = loadStopsInputSchema.parse(rawStops);
+      const first = input[0];
+      const last = input[input.length - 1];
+      await storage.updateLoad(load.id, {
+        pickupCity: first.city,
+        pickupState: first.state,
+        pickupAddress: first.address || load.pickupAddress,
+        pickupBusinessName: first.businessName,
+        pickupPincode: first.pincode,
+        dropoffCity: last.city,
+        dropoffState: last.state,
+        dropoffAddress: last.address || load.dropoffAddress,
+        dropoffBusinessName: last.businessName,
+        dropoffPincode: last.pincode,
+      });
+      const saved = await saveLoadStops(load, input);
+      queueLoadSiteGeocoding(load.id);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid stops", details: error.errors });
+      }
+      console.error("Update load stops error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/distance/legs - road distance of each leg of a multi-stop route
+  app.post("/api/distance/legs", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const { locations } = legsBodySchema.parse(req.body);
+      const distances = await getLegDistances(locations);
+      const legs = locations.slice(1).map((to, i) => ({
+        from: locations[i],
+        to,
+        distanceKm: distances[i + 1],
+      }));
+      const totalKm = legs.every((leg) => leg.distanceKm !== null)
+        ? legs.reduce((sum, leg) => sum + (leg.distanceKm || 0), 0)
+        : null;
+
+      res.json({ legs, totalKm });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("Leg distances error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
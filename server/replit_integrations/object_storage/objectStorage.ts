@@ -194,6 +194,24 @@ export class ObjectStorageService {
     });
   }
 
+  // Uploads a server-generated file (e.g. an invoice PDF) and returns its object path.
+  async uploadObjectEntity(
+    content: Buffer,
+    { contentType, folder = "uploads", fileName }: { contentType: string; folder?: string; fileName?: string }
+  ): Promise<string> {
+    let privateObjectDir = this.getPrivateObjectDir();
+    if (!privateObjectDir.endsWith("/")) {
+      privateObjectDir = `${privateObjectDir}/`;
+    }
+
+    const entityId = `${folder}/${fileName || randomUUID()}`;
+    const { bucketName, objectName } = parseObjectPath(`${privateObjectDir}${entityId}`);
+    const file = objectStorageClient.bucket(bucketName).file(objectName);
+
+    await file.save(content, { contentType, resumable: false });
+    return `/objects/${entityId}`;
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
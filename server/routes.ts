@@ -28,6 +28,7 @@ import {
   getLoadsForRole, 
   checkCarrierEligibility, 
   canUserBidOnLoad, 
+  canUserAccessLoad,
   acceptBid, 
   rejectBid,
   transitionLoadState,
@@ -46,32 +47,77 @@ import {
   broadcastVerificationStatus,
   broadcastMarketplaceEvent,
   broadcastToUser,
-  broadcastRatingReceived
+  broadcastRatingReceived,
+  setMarketplaceSessionParser,
+  getMissedMarketplaceEvents
 } from "./websocket-marketplace";
 import {
   getAllVehiclesTelemetry,
   getVehicleTelemetry,
   getEtaPrediction,
   getGpsBreadcrumbs,
-  getDriverBehaviorScore,
   checkTelemetryAlerts,
   getActiveVehicleIds,
-} from "./telemetry-simulator";
+} from "./telemetry-hub";
+import { getDriverBehaviorScore, isTelemetrySimulatorEnabled, startTelemetrySimulation } from "./telemetry-simulator";
+import { startAis140Listener } from "./gps-tcp-listener";
 import {
   calculateFromMargin,
   calculateFromPayout,
   validatePricing,
 } from "@shared/pricing";
+import {
+  calculateGst,
+  GTA_SAC_CODE,
+  EWAY_BILL_THRESHOLD,
+  getEwayBillTransitError,
+  loadRequiresEwayBill,
+} from "@shared/tax";
 import { registerHelpBotRoutes } from "./helpbot-routes";
-
-const hashPassword = async (password: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-  return Array.from(new Uint8Array(hashBuffer))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-};
+import { registerSupportRoutes } from "./support-routes";
+import { registerContractRoutes } from "./contract-routes";
+import { registerLoadScheduleRoutes } from "./load-schedule-routes";
+import { registerLoadStopRoutes } from "./load-stop-routes";
+import { registerConsolidationRoutes } from "./consolidation-routes";
+import { registerGpsDeviceRoutes } from "./gps-device-routes";
+import { registerGeofenceRoutes } from "./geofence-routes";
+import { registerTelematicsAlertRoutes } from "./telematics-alert-routes";
+import { applyContractRate } from "./services/contract-rates";
+import {
+  completeTerminalStop,
+  describeStop,
+  getIntermediateStops,
+  getNextIntermediateStop,
+  getStopCompletionBlocker,
+  loadStopsInputSchema,
+  saveLoadStops,
+} from "./services/load-stops";
+import { changesLoadSites, queueLoadSiteGeocoding } from "./services/site-geocoding";
+import { clearRouteWatch } from "./services/route-monitor";
+import { clearTripEta } from "./services/eta-model";
+import { evaluateLoadBids, runAutoAward, DEFAULT_AUTO_AWARD_SETTINGS } from "./services/bid-scoring";
+import {
+  buildBiddingWindowFields,
+  parseBiddingWindowOptions,
+  validateWindowBid,
+  recordWindowBid,
+  getBiddingWindowSummary,
+  canCarrierSeeOtherBids,
+  closeBiddingWindow,
+  isBiddingWindowMode,
+} from "./services/bidding-windows";
+import { generateInvoicePdf } from "./services/invoice-pdf";
+import { issueEwayBill, extendEwayBill } from "./services/eway-bill";
+import { ObjectStorageService, ObjectNotFoundError } from "./replit_integrations/object_storage";
+import { hashPassword, verifyPassword } from "./services/password";
+import { checkRateLimit, recordAttempt, sendRateLimited, clearLockout } from "./services/rate-limiter";
+import { estimatePrice, estimateLoadPrice, PRICING_DEFAULTS } from "./services/pricing-engine";
+import { importDieselIndexCsv, getDieselIndexQuote, getLoadDieselRegion, getLoadDieselAdjustment } from "./services/diesel-index";
+import { calculateRoadDistance, formatDuration } from "./services/distance";
+import { runJobNow } from "./services/job-scheduler";
+import { processQueuedAction } from "./services/workflow-jobs";
+import { deliverOtp, shouldExposeOtpCode, resolveOtpLanguage, type OtpChannel } from "./services/otp-delivery";
+import { getOnSiteSince } from "./services/geofencing";
 
 // Document type labels for notification messages
 const DOCUMENT_TYPE_LABELS: Record<string, string> = {
@@ -133,26 +179,36 @@ export async function registerRoutes(
   // Use PostgreSQL session store for production persistence
   const PgSession = connectPgSimple(session);
   
-  app.use(
-    session({
-      store: new PgSession({
-        pool: pool,
-        tableName: "session",
-        createTableIfMissing: true,
-      }),
-      secret: process.env.SESSION_SECRET || "loadsmart-secret-key-change-in-production",
-      resave: false,
-      saveUninitialized: false,
-      cookie: {
-        secure: isProduction,
-        httpOnly: true,
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-        sameSite: isProduction ? "none" : "lax",
-      },
-    })
-  );
+  const sessionParser = session({
+    store: new PgSession({
+      pool: pool,
+      tableName: "session",
+      createTableIfMissing: true,
+    }),
+    secret: process.env.SESSION_SECRET || "loadsmart-secret-key-change-in-production",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      secure: isProduction,
+      httpOnly: true,
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+      sameSite: isProduction ? "none" : "lax",
+    },
+  });
+
+  app.use(sessionParser);
+  // The marketplace socket authenticates its upgrade with the same session
+  setMarketplaceSessionParser(sessionParser);
 
   registerHelpBotRoutes(app);
+  registerSupportRoutes(app);
+  registerContractRoutes(app);
+  registerLoadScheduleRoutes(app);
+  registerLoadStopRoutes(app);
+  registerConsolidationRoutes(app);
+  registerGpsDeviceRoutes(app);
+  registerGeofenceRoutes(app);
+  registerTelematicsAlertRoutes(app);
 
   app.post("/api/auth/register", async (req, res) => {
     try {
@@ -359,14 +415,30 @@ export async function registerRoutes(
       if (!user) {
         user = await storage.getUserByPhone(username);
       }
+
+      // Unknown usernames are throttled the same way so lockouts don't reveal which accounts exist
+      const rateLimitIds = { ip: req.ip, account: user?.id || String(username || "").toLowerCase(), userId: user?.id };
+      const rateLimit = await checkRateLimit("login", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
+
       if (!user) {
+        await recordAttempt("login", rateLimitIds, { success: false });
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
-      const hashedPassword = await hashPassword(password);
-      if (user.password !== hashedPassword) {
+      const { valid, needsRehash } = await verifyPassword(password, user.password);
+      if (!valid) {
+        await recordAttempt("login", rateLimitIds, { success: false });
         return res.status(401).json({ error: "Invalid credentials" });
       }
+      await recordAttempt("login", rateLimitIds, { success: true });
+
+      // Upgrade legacy SHA-256 hashes to salted scrypt on first successful login
+      if (needsRehash) {
+        await storage.updateUser(user.id, { password: await hashPassword(password) });
+      }
 
       req.session.userId = user.id;
       
@@ -422,6 +494,20 @@ export async function registerRoutes(
         const users = await storage.getAllUsers();
         user = users.find(u => u.phone === normalizedPhone || u.phone === emailOrPhone) || null;
       }
+
+      // Counted whether or not the account exists, so the limit doesn't reveal it either
+      const isEmail = emailOrPhone.includes("@");
+      const rateLimitIds = {
+        ip: req.ip,
+        ...(isEmail ? { email: emailOrPhone } : { phone: emailOrPhone }),
+        account: user?.id,
+        userId: user?.id,
+      };
+      const rateLimit = await checkRateLimit("otp_send", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
+      await recordAttempt("otp_send", rateLimitIds, { success: true });
       
       if (!user) {
         // Don't reveal if user exists for security
@@ -433,7 +519,7 @@ export async function registerRoutes(
       }
       
       // Generate 6-digit OTP
-      const otpCode = Math.floor(100000 + Math.random() * 900000).toString();
+      const otpCode = storage.generateOtpCode();
       
       // Calculate expiry (15 minutes for password reset)
       const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
@@ -449,22 +535,29 @@ export async function registerRoutes(
         expiresAt: expiresAt,
       });
       
-      // In production, would send OTP via SMS/email service
-      // For demo/testing purposes, the OTP is shown in a toast notification on the frontend
-      
-      // Determine reset method
-      const isEmail = emailOrPhone.includes("@");
       const maskedContact = isEmail 
         ? emailOrPhone.replace(/(.{2})(.*)(@.*)/, '$1***$3')
         : emailOrPhone.replace(/(.{3})(.*)(.{4})/, '$1****$3');
+
+      const delivery = await deliverOtp({
+        channel: isEmail ? "email" : "sms",
+        to: isEmail ? user.email : (user.phone || emailOrPhone),
+        purpose: "passwordReset",
+        code: otpCode,
+        validityMinutes: 15,
+        language: resolveOtpLanguage(req.body.language, req.get("accept-language")),
+      });
+      if (!delivery.success) {
+        return res.status(502).json({ error: "Could not send the reset code. Please try again." });
+      }
       
       res.json({ 
         success: true, 
         message: `Reset code sent to ${maskedContact}`,
         otpId: otpRecord.id,
         method: isEmail ? "email" : "phone",
-        // For demo purposes only - in production, remove this and send via SMS/email
-        demoOtp: otpCode
+        // Outside production the code is echoed back for in-app display
+        ...(shouldExposeOtpCode() && { demoOtp: otpCode }),
       });
     } catch (error) {
       console.error("Forgot password error:", error);
@@ -490,6 +583,19 @@ export async function registerRoutes(
       if (otpRecord.otpType !== "password_reset") {
         return res.status(400).json({ error: "Invalid reset request" });
       }
+
+      const resetUser = otpRecord.userId ? await storage.getUser(otpRecord.userId) : undefined;
+      const rateLimitIds = {
+        ip: req.ip,
+        phone: otpRecord.phoneNumber,
+        email: resetUser?.email,
+        account: otpRecord.userId,
+        userId: otpRecord.userId,
+      };
+      const rateLimit = await checkRateLimit("otp_verify", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
       
       if (otpRecord.status !== "pending") {
         return res.status(400).json({ error: "This reset code has already been used or expired" });
@@ -508,8 +614,10 @@ export async function registerRoutes(
       
       if (otpRecord.otpCode !== otpCode) {
         await storage.updateOtpVerification(otpId, { attempts: (otpRecord.attempts || 0) + 1 });
+        await recordAttempt("otp_verify", rateLimitIds, { success: false });
         return res.status(400).json({ error: "Invalid code. Please try again." });
       }
+      await recordAttempt("otp_verify", rateLimitIds, { success: true });
       
       // Mark as verified (but not consumed yet - that happens when password is reset)
       await storage.updateOtpVerification(otpId, { 
@@ -751,6 +859,7 @@ export async function registerRoutes(
       });
 
       const load = await storage.createLoad(data);
+      queueLoadSiteGeocoding(load.id);
       
       // Broadcast to admins that a new load was submitted for pricing
       broadcastLoadSubmitted({
@@ -972,7 +1081,11 @@ export async function registerRoutes(
       const shouldIncludeBids = user.role !== "shipper" || isFinalized;
       
       if (shouldIncludeBids) {
-        const loadBids = await storage.getBidsByLoad(load.id);
+        const allLoadBids = await storage.getBidsByLoad(load.id);
+        // Sealed and auction loads hide other carriers' bids from carriers
+        const loadBids = user.role === "carrier" && !canCarrierSeeOtherBids(load)
+          ? allLoadBids.filter(bid => bid.carrierId === user.id)
+          : allLoadBids;
         res.json({ ...load, bids: loadBids, shipper, assignedCarrier, shipmentDetails, carrierOnboarding });
       } else {
         // Hide bids and pricing info from shippers pre-finalization
@@ -1010,6 +1123,7 @@ export async function registerRoutes(
       }
       
       const load = await storage.updateLoad(req.params.id, body);
+      if (load && changesLoadSites(body)) queueLoadSiteGeocoding(load.id);
       
       // Broadcast load update to admin portal for real-time sync
       if (load) {
@@ -1674,11 +1788,16 @@ export async function registerRoutes(
         }
       }
 
+      const bidLoad = await storage.getLoad(req.params.loadId);
       const bidsList = await storage.getBidsByLoad(req.params.loadId);
+      // Sealed and auction loads hide other carriers' bids from carriers
+      const visibleBids = user.role === "carrier" && bidLoad && !canCarrierSeeOtherBids(bidLoad)
+        ? bidsList.filter(bid => bid.carrierId === user.id)
+        : bidsList;
       
       // Enrich bids with carrier details including profile and truck info
       const bidsWithCarriers = await Promise.all(
-        bidsList.map(async (bid) => {
+        visibleBids.map(async (bid) => {
           const carrier = await storage.getUser(bid.carrierId);
           const carrierProfile = await storage.getCarrierProfile(bid.carrierId);
           const truck = bid.truckId ? await storage.getTruck(bid.truckId) : null;
@@ -1734,7 +1853,8 @@ export async function registerRoutes(
           enterpriseBidCount: enterpriseBids.length,
           lowestSoloBid: getLowestBid(soloBids),
           lowestEnterpriseBid: getLowestBid(enterpriseBids),
-        }
+        },
+        biddingWindow: bidLoad ? await getBiddingWindowSummary(bidLoad) : null,
       });
     } catch (error) {
       console.error("Get load bids error:", error);
@@ -1742,6 +1862,56 @@ export async function registerRoutes(
     }
   });
 
+  // Sealed/auction window state: close time, bid count and (auction, or sealed once revealed) the lowest amount
+  app.get("/api/loads/:loadId/bidding-window", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) return res.status(401).json({ error: "Unauthorized" });
+
+      const load = await storage.getLoad(req.params.loadId);
+      if (!load) {
+        return res.status(404).json({ error: "Load not found" });
+      }
+      // Carriers who bid keep access after the load is awarded to someone else
+      const myBid = user.role === "carrier"
+        ? (await storage.getBidsByLoad(load.id))
+            .filter(bid => bid.carrierId === user.id)
+            .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))[0] || null
+        : null;
+      if (!myBid && !(await canUserAccessLoad(user.id, load.id))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const summary = await getBiddingWindowSummary(load);
+      if (!summary) {
+        return res.status(404).json({ error: "Load has no bidding window" });
+      }
+      res.json({ ...summary, myBid });
+    } catch (error) {
+      console.error("Get bidding window error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Admin closes a sealed/auction window early and awards the cheapest eligible bid
+  app.post("/api/admin/loads/:loadId/bidding-window/close", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const result = await closeBiddingWindow(req.params.loadId, user.id);
+      if (!result) {
+        return res.status(400).json({ error: "Load has no open bidding window" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Close bidding window error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   app.post("/api/bids", requireAuth, async (req, res) => {
     try {
       const user = await storage.getUser(req.session.userId!);
@@ -1846,14 +2016,28 @@ export async function registerRoutes(
         carrierType: carrierType, // Set carrier type on bid
       });
 
+      const windowLoad = await storage.getLoad(data.loadId);
+      if (windowLoad) {
+        const windowCheck = await validateWindowBid(windowLoad, parseFloat(String(data.amount)));
+        if (!windowCheck.allowed) {
+          return res.status(400).json({ error: windowCheck.reason });
+        }
+      }
+
       const bid = await storage.createBid(data);
       
       const load = await storage.getLoad(data.loadId);
       if (load && load.status === "posted") {
         await storage.updateLoad(data.loadId, { status: "bidding" });
       }
+      await recordWindowBid(bid);
 
-      res.json(bid);
+      // A failed auto-award run must not fail the bid itself
+      const autoAward = await runAutoAward(data.loadId, `bid:${bid.id}`).catch((error) => {
+        console.error("Auto-award error:", error);
+        return null;
+      });
+      res.json(autoAward?.awarded ? (await storage.getBid(bid.id)) || bid : bid);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
@@ -1981,6 +2165,23 @@ export async function registerRoutes(
     }
   });
 
+  // Marketplace event log - HTTP fallback for clients that can't hold the socket.
+  // Returns logged events after ?after= (sequence), oldest first.
+  app.get("/api/marketplace/events", requireAuth, async (req, res) => {
+    try {
+      const after = req.query.after !== undefined ? parseInt(req.query.after as string, 10) : 0;
+      const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string, 10) : 100;
+      if (isNaN(after) || after < 0 || isNaN(limit) || limit < 1) {
+        return res.status(400).json({ error: "after and limit must be non-negative integers" });
+      }
+      const result = await getMissedMarketplaceEvents(req.session.userId!, after, limit);
+      res.json(result);
+    } catch (error) {
+      console.error("Get marketplace events error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   app.get("/api/notifications", requireAuth, async (req, res) => {
     try {
       const notificationsList = await storage.getNotificationsByUser(req.session.userId!);
@@ -2393,6 +2594,54 @@ export async function registerRoutes(
     }
   });
 
+  // Admin: Recent login / OTP lockouts
+  app.get("/api/admin/security-events", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const events = await storage.getRecentAuthSecurityEvents(limit);
+      res.json(events);
+    } catch (error) {
+      console.error("Get security events error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Admin: Clear lockout for a user
+  app.post("/api/admin/users/:id/unlock", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await clearLockout({ account: target.id, phone: target.phone, email: target.email });
+      const event = await storage.createAuthSecurityEvent({
+        eventType: "unlock",
+        action: "login",
+        scope: "account",
+        identifier: target.id,
+        userId: target.id,
+        ipAddress: req.ip,
+        resolvedBy: user.id,
+      });
+
+      res.json({ success: true, event });
+    } catch (error) {
+      console.error("Unlock user error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Admin: Update user
   app.patch("/api/admin/users/:id", requireAuth, async (req, res) => {
     try {
@@ -2401,7 +2650,12 @@ export async function registerRoutes(
         return res.status(403).json({ error: "Admin access required" });
       }
 
-      const updated = await storage.updateUser(req.params.id, req.body);
+      const updates = { ...req.body };
+      if (updates.password) {
+        updates.password = await hashPassword(updates.password);
+      }
+
+      const updated = await storage.updateUser(req.params.id, updates);
       if (!updated) {
         return res.status(404).json({ error: "User not found" });
       }
@@ -2557,6 +2811,7 @@ export async function registerRoutes(
         shipperLoadNumber,
       });
       const load = await storage.createLoad(data);
+      queueLoadSiteGeocoding(load.id);
       res.json(load);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2576,6 +2831,7 @@ export async function registerRoutes(
       }
 
       const updated = await storage.updateLoad(req.params.id, req.body);
+      if (updated && changesLoadSites(req.body)) queueLoadSiteGeocoding(updated.id);
       
       // Broadcast admin edit to shipper portal for real-time sync
       if (updated) {
@@ -2786,6 +3042,7 @@ export async function registerRoutes(
       });
 
       const load = await storage.createLoad(loadData);
+      queueLoadSiteGeocoding(load.id);
 
       // If posting immediately, create admin decision record
       if (body.postImmediately && body.adminGrossPrice) {
@@ -3246,7 +3503,7 @@ export async function registerRoutes(
   app.get("/api/telemetry/breadcrumbs/:vehicleId", requireAuth, async (req, res) => {
     try {
       const minutes = parseInt(req.query.minutes as string) || 10;
-      const breadcrumbs = getGpsBreadcrumbs(req.params.vehicleId, minutes);
+      const breadcrumbs = await getGpsBreadcrumbs(req.params.vehicleId, minutes);
       res.json(breadcrumbs);
     } catch (error) {
       console.error("Get breadcrumbs error:", error);
@@ -3661,69 +3918,9 @@ RESPOND IN THIS EXACT JSON FORMAT:
 
   // ==========================================
   // ROAD DISTANCE CALCULATION API
-  // Uses OSRM (Open Source Routing Machine) - free, no API key needed
-  // Falls back to Google Maps if configured
+  // Offline highway graph by default; Google Maps / OSRM when configured
+  // (see server/services/distance.ts)
   // ==========================================
-  
-  // Cache for distance calculations (to reduce API calls)
-  const distanceCache = new Map<string, { distance: number; duration: string; timestamp: number }>();
-  const DISTANCE_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours cache for distance
-  
-  // Geocode cache to reduce Nominatim calls
-  const geocodeCache = new Map<string, { lat: number; lng: number; timestamp: number }>();
-  const GEOCODE_CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days cache for geocoding
-
-  // Helper: Geocode a location using OpenStreetMap Nominatim (free)
-  async function geocodeLocation(location: string): Promise<{ lat: number; lng: number } | null> {
-    const cacheKey = location.toLowerCase().trim();
-    const cached = geocodeCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < GEOCODE_CACHE_TTL) {
-      return { lat: cached.lat, lng: cached.lng };
-    }
-    
-    try {
-      // Add ", India" for better accuracy with Indian cities
-      const searchQuery = location.toLowerCase().includes("india") ? location : `${location}, India`;
-      
-      const url = new URL("https://nominatim.openstreetmap.org/search");
-      url.searchParams.set("q", searchQuery);
-      url.searchParams.set("format", "json");
-      url.searchParams.set("limit", "1");
-      
-      const response = await fetch(url.toString(), {
-        headers: {
-          "User-Agent": "LoadSmart/1.0 (logistics platform)"
-        }
-      });
-      
-      const data = await response.json();
-      
-      if (data && data.length > 0) {
-        const result = { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) };
-        geocodeCache.set(cacheKey, { ...result, timestamp: Date.now() });
-        return result;
-      }
-      
-      return null;
-    } catch (error) {
-      console.error("[Geocode] Error geocoding location:", location, error);
-      return null;
-    }
-  }
-  
-  // Helper: Format duration from seconds
-  function formatDuration(durationSeconds: number): string {
-    const hours = Math.floor(durationSeconds / 3600);
-    const minutes = Math.floor((durationSeconds % 3600) / 60);
-    if (hours >= 24) {
-      const days = Math.floor(hours / 10); // Assume 10 hours driving per day
-      return `${days} day${days > 1 ? "s" : ""}`;
-    } else if (hours > 0) {
-      return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
-    } else {
-      return `${minutes} mins`;
-    }
-  }
 
   // Calculate road distance between two locations (public API - no auth needed)
   app.post("/api/distance/calculate", async (req, res) => {
@@ -3734,147 +3931,27 @@ RESPOND IN THIS EXACT JSON FORMAT:
       });
       
       const { origin, destination } = inputSchema.parse(req.body);
-      
-      // Create cache key (normalized)
-      const cacheKey = `${origin.toLowerCase().trim()}_${destination.toLowerCase().trim()}`;
-      
-      // Check cache first
-      const cached = distanceCache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < DISTANCE_CACHE_TTL) {
-        console.log(`[Distance API] Cache hit for ${origin} -> ${destination}`);
-        return res.json({
-          distance: cached.distance,
-          duration: cached.duration,
-          source: "cache"
-        });
-      }
-      
-      // Try Google Maps first if API key is available
-      const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY;
-      
-      if (GOOGLE_MAPS_API_KEY) {
-        try {
-          const formatLocation = (loc: string) => {
-            const normalized = loc.trim();
-            if (!normalized.toLowerCase().includes("india")) {
-              return `${normalized}, India`;
-            }
-            return normalized;
-          };
-          
-          const originFormatted = formatLocation(origin);
-          const destFormatted = formatLocation(destination);
-          
-          console.log(`[Distance API] Calling Google Maps API: ${originFormatted} -> ${destFormatted}`);
-          
-          const apiUrl = new URL("https://maps.googleapis.com/maps/api/distancematrix/json");
-          apiUrl.searchParams.set("origins", originFormatted);
-          apiUrl.searchParams.set("destinations", destFormatted);
-          apiUrl.searchParams.set("mode", "driving");
-          apiUrl.searchParams.set("units", "metric");
-          apiUrl.searchParams.set("key", GOOGLE_MAPS_API_KEY);
-          
-          const response = await fetch(apiUrl.toString());
-          const data = await response.json();
-          
-          if (data.status === "OK" && data.rows?.[0]?.elements?.[0]?.status === "OK") {
-            const element = data.rows[0].elements[0];
-            const distanceKm = Math.round(element.distance.value / 1000);
-            const durationStr = formatDuration(element.duration.value);
-            
-            console.log(`[Distance API] Google Maps result: ${distanceKm} km, ${durationStr}`);
-            
-            distanceCache.set(cacheKey, { distance: distanceKm, duration: durationStr, timestamp: Date.now() });
-            
-            return res.json({
-              distance: distanceKm,
-              duration: durationStr,
-              source: "google_maps",
-              originResolved: data.origin_addresses?.[0],
-              destinationResolved: data.destination_addresses?.[0]
-            });
-          }
-        } catch (googleError) {
-          console.error("[Distance API] Google Maps failed, trying OSRM:", googleError);
-        }
-      }
-      
-      // Use OSRM (Open Source Routing Machine) - free, no API key needed
-      console.log(`[Distance API] Using OSRM for: ${origin} -> ${destination}`);
-      
-      // First, geocode both locations
-      const [originCoords, destCoords] = await Promise.all([
-        geocodeLocation(origin),
-        geocodeLocation(destination)
-      ]);
-      
-      if (!originCoords) {
-        console.error("[Distance API] Could not geocode origin:", origin);
-        return res.status(400).json({
-          error: "Could not find origin location",
-          details: `Unable to geocode: ${origin}`,
-          source: "geocode_error"
-        });
-      }
-      
-      if (!destCoords) {
-        console.error("[Distance API] Could not geocode destination:", destination);
-        return res.status(400).json({
-          error: "Could not find destination location",
-          details: `Unable to geocode: ${destination}`,
-          source: "geocode_error"
-        });
-      }
-      
-      console.log(`[Distance API] Coordinates: ${originCoords.lat},${originCoords.lng} -> ${destCoords.lat},${destCoords.lng}`);
-      
-      // Call OSRM routing API
-      const osrmUrl = `https://router.project-osrm.org/route/v1/driving/${originCoords.lng},${originCoords.lat};${destCoords.lng},${destCoords.lat}?overview=false`;
-      
-      const osrmResponse = await fetch(osrmUrl, {
-        headers: {
-          "User-Agent": "LoadSmart/1.0 (logistics platform)"
-        }
-      });
-      
-      const osrmData = await osrmResponse.json();
-      
-      if (osrmData.code !== "Ok" || !osrmData.routes || osrmData.routes.length === 0) {
-        console.error("[Distance API] OSRM error:", osrmData.code, osrmData.message);
+
+      const { success, error, result, cached } = await calculateRoadDistance(origin, destination);
+      if (!success || !result) {
         return res.status(400).json({
-          error: "No route found between these locations",
-          details: osrmData.message || osrmData.code,
-          source: "osrm_error"
+          error: error || "No route found between these locations",
+          details: `Unable to route ${origin} -> ${destination}`,
+          source: "unavailable"
         });
       }
-      
-      const route = osrmData.routes[0];
-      const distanceKm = Math.round(route.distance / 1000);
-      const durationStr = formatDuration(route.duration);
-      
-      console.log(`[Distance API] OSRM result: ${distanceKm} km, ${durationStr}`);
-      
-      // Cache the result
-      distanceCache.set(cacheKey, {
-        distance: distanceKm,
-        duration: durationStr,
-        timestamp: Date.now()
-      });
-      
-      // Clean up old cache entries periodically
-      if (distanceCache.size > 500) {
-        const now = Date.now();
-        for (const [key, value] of distanceCache.entries()) {
-          if (now - value.timestamp > DISTANCE_CACHE_TTL) {
-            distanceCache.delete(key);
-          }
-        }
-      }
-      
+
+      console.log(`[Distance API] ${origin} -> ${destination}: ${result.distanceKm} km via ${result.provider}${cached ? " (cached)" : ""}`);
+
       res.json({
-        distance: distanceKm,
-        duration: durationStr,
-        source: "osrm"
+        distance: result.distanceKm,
+        duration: formatDuration(result.durationSeconds),
+        durationSeconds: result.durationSeconds,
+        source: cached ? "cache" : result.provider,
+        provider: result.provider,
+        originResolved: result.originResolved,
+        destinationResolved: result.destinationResolved,
+        via: result.via,
       });
       
     } catch (error) {
@@ -3894,7 +3971,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(403).json({ error: "Only shippers can submit loads" });
       }
 
-      const body = { ...req.body };
+      const { stops: rawStops, ...body } = req.body;
       if (body.pickupDate && typeof body.pickupDate === 'string') {
         body.pickupDate = new Date(body.pickupDate);
       }
@@ -3908,6 +3985,10 @@ RESPOND IN THIS EXACT JSON FORMAT:
         body.weight = 0;
       }
 
+      // Milk-run loads send every stop in visiting order; the first and last
+      // mirror the pickup and dropoff fields
+      const stops = Array.isArray(rawStops) && rawStops.length > 2 ? loadStopsInputSchema.parse(rawStops) : null;
+
       // Get next sequential global load number
       const shipperLoadNumber = await storage.getNextGlobalLoadNumber();
 
@@ -3924,6 +4005,18 @@ RESPOND IN THIS EXACT JSON FORMAT:
       });
 
       const load = await storage.createLoad(data);
+      if (stops) {
+        await saveLoadStops(load, stops);
+      }
+      queueLoadSiteGeocoding(load.id);
+
+      // Loads on a contracted lane are priced and awarded from the rate card.
+      // If pricing or posting fails the load is left for normal admin pricing;
+      // once posted, a failed award falls back to the open marketplace.
+      const contract = await applyContractRate(load.id).catch((error) => {
+        console.error("Apply contract rate error:", error);
+        return null;
+      });
 
       // Create notification for admins
       const admins = (await storage.getAllUsers()).filter(u => u.role === 'admin');
@@ -3931,13 +4024,19 @@ RESPOND IN THIS EXACT JSON FORMAT:
         await storage.createNotification({
           userId: admin.id,
           title: "New Load Submitted",
-          message: `${user.companyName || user.username} submitted a new load${load.pickupCity && load.dropoffCity ? ` from ${load.pickupCity} to ${load.dropoffCity}` : ''}`,
+          message: `${user.companyName || user.username} submitted a new load${load.pickupCity && load.dropoffCity ? ` from ${load.pickupCity} to ${load.dropoffCity}` : ''}${stops ? ` with ${stops.length} stops` : ''}${contract ? ` (contract rate: ${contract.reason})` : ''}`,
           type: "info",
           relatedLoadId: load.id,
         });
       }
 
-      res.json({ load_id: load.id, load_number: load.shipperLoadNumber, status: 'pending' });
+      const currentLoad = contract ? await storage.getLoad(load.id) : load;
+      res.json({
+        load_id: load.id,
+        load_number: load.shipperLoadNumber,
+        status: currentLoad?.status || 'pending',
+        contract,
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
@@ -3990,6 +4089,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "load_id, final_price, and post_mode are required" });
       }
 
+      const biddingWindow = parseBiddingWindowOptions(req.body);
+      if (biddingWindow.error) {
+        return res.status(400).json({ error: biddingWindow.error });
+      }
+
       const load = await storage.getLoad(load_id);
       if (!load) {
         return res.status(404).json({ error: "Load not found" });
@@ -4048,6 +4152,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         status: newStatus,
         postedAt: new Date(),
         adminReferenceNumber,
+        ...buildBiddingWindowFields(post_mode, biddingWindow.options),
       });
 
       // Notify shipper
@@ -4220,6 +4325,101 @@ RESPOND IN THIS EXACT JSON FORMAT:
     }
   });
 
+  // Ranked, explained scores for the open bids on a load
+  app.get("/api/admin/negotiations/:loadId/evaluation", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const evaluation = await evaluateLoadBids(req.params.loadId);
+      if (!evaluation) {
+        return res.status(404).json({ error: "Load not found" });
+      }
+      res.json(evaluation);
+    } catch (error) {
+      console.error("Evaluate bids error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Run auto-award for a load now (same rules as when a bid arrives)
+  app.post("/api/admin/negotiations/:loadId/auto-award", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const decision = await runAutoAward(req.params.loadId, `manual:${user.id}`);
+      if (!decision) {
+        return res.status(400).json({ error: "Auto-award is off or the load is not taking bids" });
+      }
+      res.json(decision);
+    } catch (error) {
+      console.error("Auto-award error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/bid-auto-award", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const settings = await storage.getBidAutoAwardSettings();
+      res.json(settings || DEFAULT_AUTO_AWARD_SETTINGS);
+    } catch (error) {
+      console.error("Get auto-award settings error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/admin/bid-auto-award", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const settingsSchema = z.object({
+        enabled: z.boolean(),
+        bandPercent: z.coerce.number().min(-50).max(50),
+        minScore: z.coerce.number().int().min(0).max(100),
+      });
+      const { enabled, bandPercent, minScore } = settingsSchema.parse(req.body);
+
+      const before = await storage.getBidAutoAwardSettings();
+      const settings = await storage.saveBidAutoAwardSettings({
+        enabled,
+        bandPercent: bandPercent.toString(),
+        minScore,
+        updatedBy: user.id,
+      });
+
+      await storage.createAuditLog({
+        adminId: user.id,
+        actionType: "update_bid_auto_award",
+        actionDescription: `Bid auto-award ${enabled ? `on (band ${bandPercent}%, min score ${minScore})` : "off"}`,
+        beforeState: before || null,
+        afterState: settings,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Update auto-award settings error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Admin sends counter-offer in negotiation
   app.post("/api/admin/negotiations/:loadId/counter", requireAuth, async (req, res) => {
     try {
@@ -4687,7 +4887,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
             bidCount: loadBids.length,
             myBid: myBid || null,
             postedByAdmin: true,
-            priceFixed: !load.allowCounterBids,
+            priceFixed: !load.allowCounterBids && !isBiddingWindowMode(load.adminPostMode),
           };
         })
       );
@@ -4729,7 +4929,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
             bidCount: loadBids.length,
             myBid: myBid || null,
             postedByAdmin: true,
-            priceFixed: !load.allowCounterBids,
+            priceFixed: !load.allowCounterBids && !isBiddingWindowMode(load.adminPostMode),
           };
         })
       );
@@ -4842,8 +5042,8 @@ RESPOND IN THIS EXACT JSON FORMAT:
         }
       }
 
-      // Check if load allows counter bids
-      if (bid_type === 'counter' && !load.allowCounterBids) {
+      // Check if load allows counter bids (sealed/auction bids are all priced by the carrier)
+      if (bid_type === 'counter' && !load.allowCounterBids && !isBiddingWindowMode(load.adminPostMode)) {
         return res.status(403).json({ error: "Counter bids not allowed for this load" });
       }
 
@@ -4856,6 +5056,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
         finalBidType = 'admin_posted_acceptance';
       }
 
+      const windowCheck = await validateWindowBid(load, parseFloat(String(finalAmount)));
+      if (!windowCheck.allowed) {
+        return res.status(400).json({ error: windowCheck.reason });
+      }
+
       // Get carrier type from carrier profile (authoritative source), not request
       const carrierProfile = await storage.getCarrierProfile(user.id);
       const finalCarrierType = carrierProfile?.carrierType || carrier_type || 'enterprise';
@@ -4929,8 +5134,14 @@ RESPOND IN THIS EXACT JSON FORMAT:
         loadPickup: load.pickupCity,
         loadDropoff: load.dropoffCity,
       });
+      await recordWindowBid(bid);
 
-      res.json({ success: true, bid });
+      // A failed auto-award run must not fail the bid itself
+      const autoAward = await runAutoAward(load_id, `bid:${bid.id}`).catch((error) => {
+        console.error("Auto-award error:", error);
+        return null;
+      });
+      res.json({ success: true, bid: autoAward?.awarded ? (await storage.getBid(bid.id)) || bid : bid });
     } catch (error) {
       console.error("Submit bid error:", error);
       res.status(500).json({ error: "Internal server error" });
@@ -4963,6 +5174,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: `Load is not available for acceptance (status: ${load.status})` });
       }
 
+      // Sealed and auction loads are only awarded when their bidding window closes
+      if (isBiddingWindowMode(load.adminPostMode)) {
+        return res.status(400).json({ error: "This load takes bids until its bidding window closes; place a bid instead" });
+      }
+
       // Use workflow service to check carrier eligibility
       const canBid = await canUserBidOnLoad(user.id, loadId);
       if (!canBid.allowed) {
@@ -5400,56 +5616,36 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(403).json({ error: "Admin access required" });
       }
 
-      const { distance, weight, load_type, pickup_city, dropoff_city } = req.body;
-
-      // Pricing algorithm
-      const baseRates: Record<string, number> = {
-        'flatbed': 45,
-        'refrigerated': 65,
-        'dry_van': 40,
-        'tanker': 55,
-        'container': 50,
-        'open_deck': 35,
-        'default': 42,
-      };
+      const { distance, weight, load_type, pickup_city, dropoff_city, pickup_date, template_id } = req.body;
 
-      const baseRate = baseRates[load_type?.toLowerCase()] || baseRates['default'];
-      const distanceKm = parseFloat(distance) || 500;
-      const weightTons = parseFloat(weight) || 10;
-
-      // Base calculation: distance * rate
-      let suggestedPrice = distanceKm * baseRate;
-
-      // Weight adjustment (+2% per ton above 5 tons)
-      if (weightTons > 5) {
-        suggestedPrice *= (1 + (weightTons - 5) * 0.02);
-      }
-
-      // Fuel surcharge (estimated 12%)
-      const fuelSurcharge = suggestedPrice * 0.12;
-
-      // Admin margin (8%)
-      const adminMargin = suggestedPrice * 0.08;
-
-      // Handling fee
-      const handlingFee = 500;
-
-      const totalPrice = Math.round(suggestedPrice + fuelSurcharge + adminMargin + handlingFee);
+      const estimate = await estimatePrice({
+        pickupCity: pickup_city,
+        dropoffCity: dropoff_city,
+        truckType: load_type,
+        weightTons: parseFloat(weight) || null,
+        distanceKm: parseFloat(distance) || null,
+        pickupDate: pickup_date ? new Date(pickup_date) : null,
+        templateId: template_id,
+      });
 
       res.json({
-        suggested_price: totalPrice,
+        suggested_price: estimate.suggestedPrice,
         breakdown: {
-          base_amount: Math.round(suggestedPrice),
-          fuel_surcharge: Math.round(fuelSurcharge),
-          admin_margin: Math.round(adminMargin),
-          handling_fee: handlingFee,
+          base_amount: estimate.breakdown.baseAmount,
+          fuel_surcharge: estimate.breakdown.fuelSurcharge,
+          markup: estimate.breakdown.markupAmount,
+          handling_fee: estimate.breakdown.handlingFee,
+          lane_adjustment: estimate.breakdown.laneAdjustment,
         },
         params: {
-          distance_km: distanceKm,
-          weight_tons: weightTons,
-          load_type: load_type || 'default',
-          base_rate_per_km: baseRate,
-        }
+          distance_km: estimate.params.distanceKm,
+          weight_tons: estimate.params.weightTons,
+          load_type: estimate.params.loadType,
+          base_rate_per_km: estimate.params.baseRatePerKm,
+          lane_samples: estimate.params.historySamples,
+        },
+        confidence_score: estimate.confidenceScore,
+        risk_flags: estimate.riskFlags,
       });
     } catch (error) {
       console.error("Estimate price error:", error);
@@ -5461,83 +5657,10 @@ RESPOND IN THIS EXACT JSON FORMAT:
   // Admin Pricing & Margin Builder Routes
   // ============================================
 
-  // Pricing coefficients (configurable)
+  // Pricing coefficients (configurable) - rate model lives in services/pricing-engine.ts
   const PRICING_CONFIG = {
-    baseRates: {
-      'flatbed': 45,
-      'refrigerated': 65,
-      'dry_van': 40,
-      'tanker': 55,
-      'container': 50,
-      'open_deck': 35,
-      'default': 42,
-    } as Record<string, number>,
-    fuelSurchargePercent: 12,
-    defaultPlatformRate: 10,
-    handlingFee: 500,
+    defaultPlatformRate: PRICING_DEFAULTS.platformRatePercent,
     approvalThresholdPercent: 15, // If admin price differs from suggested by > 15%, require approval
-    seasonalMultipliers: {
-      'jan': 1.0, 'feb': 1.0, 'mar': 1.05, 'apr': 1.05,
-      'may': 1.1, 'jun': 1.1, 'jul': 1.15, 'aug': 1.1,
-      'sep': 1.05, 'oct': 1.1, 'nov': 1.15, 'dec': 1.2,
-    } as Record<string, number>,
-    regionMultipliers: {
-      'north': 1.0, 'south': 0.95, 'east': 1.02, 'west': 1.05, 'central': 1.0,
-    } as Record<string, number>,
-  };
-
-  // Helper function for price calculation
-  const calculatePricing = (params: {
-    distance: number;
-    weight: number;
-    loadType?: string;
-    region?: string;
-    pickupDate?: Date;
-  }) => {
-    const { distance, weight, loadType, region, pickupDate } = params;
-    const baseRate = PRICING_CONFIG.baseRates[loadType?.toLowerCase() || 'default'] || PRICING_CONFIG.baseRates['default'];
-    
-    // Base calculation
-    let baseAmount = distance * baseRate;
-    
-    // Weight adjustment (+2% per ton above 5 tons)
-    if (weight > 5) {
-      baseAmount *= (1 + (weight - 5) * 0.02);
-    }
-    
-    // Seasonal multiplier
-    const month = (pickupDate || new Date()).toLocaleString('en-US', { month: 'short' }).toLowerCase();
-    const seasonalMultiplier = PRICING_CONFIG.seasonalMultipliers[month] || 1.0;
-    baseAmount *= seasonalMultiplier;
-    
-    // Region multiplier
-    const regionMultiplier = PRICING_CONFIG.regionMultipliers[region?.toLowerCase() || 'central'] || 1.0;
-    baseAmount *= regionMultiplier;
-    
-    // Surcharges
-    const fuelSurcharge = baseAmount * (PRICING_CONFIG.fuelSurchargePercent / 100);
-    const handlingFee = PRICING_CONFIG.handlingFee;
-    
-    const totalSuggestedPrice = Math.round(baseAmount + fuelSurcharge + handlingFee);
-    
-    return {
-      suggestedPrice: totalSuggestedPrice,
-      breakdown: {
-        baseAmount: Math.round(baseAmount),
-        fuelSurcharge: Math.round(fuelSurcharge),
-        handlingFee,
-        seasonalMultiplier,
-        regionMultiplier,
-      },
-      params: {
-        distanceKm: distance,
-        weightTons: weight,
-        loadType: loadType || 'default',
-        baseRatePerKm: baseRate,
-        region: region || 'central',
-      },
-      confidenceScore: Math.min(95, 70 + Math.floor(distance / 100) + (weight > 5 ? 10 : 5)),
-    };
   };
 
   // POST /api/admin/pricing/suggest - Get suggested price with full breakdown
@@ -5548,7 +5671,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(403).json({ error: "Admin access required" });
       }
 
-      const { load_id, distance: mockDistance, weight: mockWeight, loadType: mockLoadType, pickupCity: mockPickupCity, mockMode } = req.body;
+      const { load_id, distance: mockDistance, weight: mockWeight, loadType: mockLoadType, pickupCity: mockPickupCity, dropoffCity: mockDropoffCity, mockMode, template_id } = req.body;
       const load = await storage.getLoad(load_id);
       
       // In production, require load to exist unless explicit mock mode is enabled
@@ -5558,67 +5681,35 @@ RESPOND IN THIS EXACT JSON FORMAT:
       }
       
       // Support mock data when load not found (for development with mock loads)
-      const distance = load 
-        ? parseFloat(load.distance?.toString() || '500') 
-        : parseFloat(mockDistance?.toString() || '500');
-      const weight = load 
-        ? parseFloat(load.weight?.toString() || '10') 
-        : parseFloat(mockWeight?.toString() || '10');
-      const pickupDate = load?.pickupDate ? new Date(load.pickupDate) : new Date();
-      const loadType = load?.requiredTruckType || mockLoadType;
-
-      // Determine region from pickup city
-      const city = (load?.pickupCity || mockPickupCity || '').toLowerCase();
-      let region = 'central';
-      if (['delhi', 'chandigarh', 'jaipur', 'lucknow'].some(c => city.includes(c))) region = 'north';
-      else if (['chennai', 'bangalore', 'hyderabad', 'kochi'].some(c => city.includes(c))) region = 'south';
-      else if (['kolkata', 'bhubaneswar', 'guwahati'].some(c => city.includes(c))) region = 'east';
-      else if (['mumbai', 'pune', 'ahmedabad', 'surat'].some(c => city.includes(c))) region = 'west';
-
-      const pricing = calculatePricing({
-        distance,
-        weight,
-        loadType: loadType || undefined,
-        region,
-        pickupDate,
-      });
-
-      // Get comparable loads (last 90 days)
-      let comparableLoads: Array<{ id: string; route: string; distance: string | number | null; finalPrice: string | null }> = [];
-      if (load) {
-        const allLoads = await storage.getAllLoads();
-        comparableLoads = allLoads
-          .filter(l => 
-            l.id !== load.id && 
-            l.status === 'delivered' && 
-            l.finalPrice &&
-            Math.abs(parseFloat(l.distance?.toString() || '0') - distance) < 100 &&
-            l.requiredTruckType === load.requiredTruckType
-          )
-          .slice(0, 5)
-          .map(l => ({
-            id: l.id,
-            route: `${l.pickupCity} → ${l.dropoffCity}`,
-            distance: l.distance,
-            finalPrice: l.finalPrice,
-          }));
-      }
-
-      // Risk flags
-      const riskFlags: string[] = [];
-      if (load && !load.kycVerified) riskFlags.push('Shipper KYC not verified');
-      if (distance > 2000) riskFlags.push('Long haul route (>2000km)');
-      if (weight > 25) riskFlags.push('Heavy load (>25 tons)');
+      const estimate = load
+        ? await estimateLoadPrice(load, template_id)
+        : await estimatePrice({
+            pickupCity: mockPickupCity,
+            dropoffCity: mockDropoffCity,
+            truckType: mockLoadType,
+            weightTons: parseFloat(mockWeight?.toString() || '') || null,
+            distanceKm: parseFloat(mockDistance?.toString() || '') || null,
+            templateId: template_id,
+          });
 
       res.json({
         load_id,
-        suggested_price: pricing.suggestedPrice,
-        breakdown: pricing.breakdown,
-        params: pricing.params,
-        confidence_score: pricing.confidenceScore,
-        comparable_loads: comparableLoads,
-        risk_flags: riskFlags,
-        platform_rate_percent: PRICING_CONFIG.defaultPlatformRate,
+        suggested_price: estimate.suggestedPrice,
+        model_price: estimate.modelPrice,
+        lane_price: estimate.lanePrice,
+        breakdown: estimate.breakdown,
+        params: estimate.params,
+        confidence_score: estimate.confidenceScore,
+        comparable_loads: estimate.comparables.map(c => ({
+          id: c.loadId,
+          route: c.route,
+          distance: c.distanceKm,
+          finalPrice: c.grossPrice.toString(),
+          source: c.source,
+        })),
+        risk_flags: estimate.riskFlags,
+        platform_rate_percent: estimate.params.platformRatePercent,
+        diesel_index: load ? await getDieselIndexQuote(getLoadDieselRegion(load)) : null,
       });
     } catch (error) {
       console.error("Pricing suggest error:", error);
@@ -5693,6 +5784,12 @@ RESPOND IN THIS EXACT JSON FORMAT:
       const platformMargin = Math.round(finalPriceNum * (platformMarginPercent / 100));
       const payoutEstimate = Math.round(finalPriceNum - platformMargin);
 
+      // Record the engine's view of the load alongside the admin's numbers
+      const load = await storage.getLoad(load_id);
+      const estimate = load ? await estimateLoadPrice(load, template_id) : null;
+      const dieselRegion = load ? getLoadDieselRegion(load) : null;
+      const dieselQuote = load ? await getDieselIndexQuote(dieselRegion) : null;
+
       const pricingData = {
         loadId: load_id,
         adminId: user.id,
@@ -5708,6 +5805,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
         platformMarginPercent: platformMarginPercent.toString(),
         status: 'draft',
         notes: notes || null,
+        confidenceScore: estimate?.confidenceScore ?? null,
+        riskFlags: estimate?.riskFlags ?? null,
+        dieselIndexPrice: dieselQuote ? dieselQuote.pricePerLitre.toFixed(2) : null,
+        dieselIndexRegion: dieselQuote?.region ?? dieselRegion,
+        priceBreakdown: estimate ? { ...estimate.breakdown, ...estimate.params, modelPrice: estimate.modelPrice, lanePrice: estimate.lanePrice } : null,
       };
 
       let pricing;
@@ -5734,6 +5836,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
 
       const { pricing_id, final_price, post_mode, invite_carrier_ids, notes, allow_counter_bids, advance_payment_percent } = req.body;
 
+      const biddingWindow = parseBiddingWindowOptions(req.body);
+      if (biddingWindow.error) {
+        return res.status(400).json({ error: biddingWindow.error });
+      }
+
       const pricing = await storage.getAdminPricing(pricing_id);
       if (!pricing) {
         return res.status(404).json({ error: "Pricing not found" });
@@ -5828,6 +5935,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         postedAt: new Date(),
         statusChangedBy: user.id,
         statusChangedAt: new Date(),
+        ...buildBiddingWindowFields(post_mode, biddingWindow.options),
       });
 
       // Notify shipper that load has been posted
@@ -5887,6 +5995,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
 
       const { pricing_id, post_mode, invite_carrier_ids, allow_counter_bids, advance_payment_percent } = req.body;
 
+      const biddingWindow = parseBiddingWindowOptions(req.body);
+      if (biddingWindow.error) {
+        return res.status(400).json({ error: biddingWindow.error });
+      }
+
       const pricing = await storage.getAdminPricing(pricing_id);
       if (!pricing) {
         return res.status(404).json({ error: "Pricing not found" });
@@ -5932,6 +6045,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         postedAt: new Date(),
         statusChangedBy: user.id,
         statusChangedAt: new Date(),
+        ...buildBiddingWindowFields(mode, biddingWindow.options),
       });
 
       // Create admin decision record
@@ -6885,7 +6999,8 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "Cannot modify paid invoice" });
       }
 
-      const updated = await storage.updateInvoice(req.params.id, req.body);
+      // Clear the rendered PDF so it is regenerated from the edited invoice
+      const updated = await storage.updateInvoice(req.params.id, { ...req.body, pdfUrl: null });
 
       // Sync price back to load when memo totalAmount changes
       if (req.body.totalAmount || req.body.subtotal) {
@@ -7001,16 +7116,84 @@ RESPOND IN THIS EXACT JSON FORMAT:
         }
       }
 
+      // Render the tax invoice PDF so the shipper can download it straight away
+      let sentInvoice = updated;
+      try {
+        sentInvoice = await generateInvoicePdf(updated.id, user.id);
+      } catch (pdfError) {
+        console.error(`[Invoice] Failed to generate PDF for invoice ${updated.invoiceNumber}:`, pdfError);
+      }
+
       console.log(`[Invoice] Broadcasting invoice_sent event to shipper ${invoice.shipperId}`);
-      broadcastInvoiceEvent(invoice.shipperId, invoice.id, "invoice_sent", updated);
+      broadcastInvoiceEvent(invoice.shipperId, invoice.id, "invoice_sent", sentInvoice);
 
-      res.json(updated);
+      res.json(sentInvoice);
     } catch (error) {
       console.error("Send invoice error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
+  // POST /api/admin/invoices/:id/pdf - (Re)generate the tax invoice PDF
+  app.post("/api/admin/invoices/:id/pdf", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const updated = await generateInvoicePdf(invoice.id, user.id);
+      res.json({ success: true, pdfUrl: updated.pdfUrl, invoice: updated });
+    } catch (error) {
+      console.error("Generate invoice PDF error:", error);
+      res.status(500).json({ error: "Failed to generate invoice PDF" });
+    }
+  });
+
+  // GET /api/invoices/:id/pdf - Download the tax invoice PDF (admin or owning shipper)
+  app.get("/api/invoices/:id/pdf", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "User not found" });
+      }
+
+      let invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      if (user.role !== "admin" && invoice.shipperId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to view this invoice" });
+      }
+
+      if (user.role !== "admin" && invoice.status === "draft") {
+        return res.status(403).json({ error: "Invoice has not been issued yet" });
+      }
+
+      if (!invoice.pdfUrl) {
+        invoice = await generateInvoicePdf(invoice.id, user.id);
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      const fileName = `${invoice.invoiceNumber}.pdf`;
+      const file = await objectStorageService.getObjectEntityFile(invoice.pdfUrl!);
+      res.set("Content-Disposition", `${req.query.download === "1" ? "attachment" : "inline"}; filename="${fileName}"`);
+      await objectStorageService.downloadObject(file, res, 0, fileName);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Invoice PDF not found" });
+      }
+      console.error("Download invoice PDF error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // POST /api/admin/invoice/generate-and-send - Generate and send invoice in one step
   app.post("/api/admin/invoice/generate-and-send", requireAuth, async (req, res) => {
     try {
@@ -7019,7 +7202,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(403).json({ error: "Admin access required" });
       }
 
-      const { load_id, amount } = req.body;
+      const { load_id, amount, gst_percent } = req.body;
       if (!load_id || !amount) {
         return res.status(400).json({ error: "load_id and amount are required" });
       }
@@ -7047,11 +7230,27 @@ RESPOND IN THIS EXACT JSON FORMAT:
       const existingInvoice = await storage.getInvoiceByLoad(load_id);
       let invoice;
       
-      // No GST - direct pricing as agreed
+      // Agreed amount is the taxable value; GST defaults to 0 (direct pricing as agreed)
       const subtotal = parseFloat(amount);
-      const gstPercent = 0;
-      const taxAmount = 0;
-      const totalAmount = subtotal;
+      const shipperOnboarding = await storage.getShipperOnboardingRequest(load.shipperId);
+      const gst = calculateGst({
+        taxableAmount: subtotal,
+        gstPercent: parseFloat(gst_percent) || 0,
+        pickupState: load.pickupState,
+        dropoffState: load.dropoffState,
+        shipperGstin: shipperOnboarding?.gstinNumber,
+      });
+      const gstPercent = gst.gstPercent;
+      const taxAmount = gst.totalTax;
+      const totalAmount = gst.totalAmount;
+      const gstFields = {
+        gstPercent: gstPercent.toString(),
+        cgstAmount: gst.cgstAmount.toString(),
+        sgstAmount: gst.sgstAmount.toString(),
+        igstAmount: gst.igstAmount.toString(),
+        hsnSacCode: GTA_SAC_CODE,
+        shipperGstin: shipperOnboarding?.gstinNumber || null,
+      };
       
       // Calculate advance payment from load
       const advancePercent = load.advancePaymentPercent || 0;
@@ -7067,6 +7266,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
             subtotal: subtotal.toString(),
             taxPercent: gstPercent.toString(),
             taxAmount: taxAmount.toString(),
+            ...gstFields,
             totalAmount: totalAmount.toString(),
             advancePaymentPercent: advancePercent > 0 ? advancePercent : null,
             advancePaymentAmount: advanceAmount,
@@ -7091,6 +7291,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
           subtotal: subtotal.toString(),
           taxPercent: gstPercent.toString(),
           taxAmount: taxAmount.toString(),
+          ...gstFields,
           totalAmount: totalAmount.toString(),
           advancePaymentPercent: advancePercent > 0 ? advancePercent : null,
           advancePaymentAmount: advanceAmount,
@@ -7110,7 +7311,15 @@ RESPOND IN THIS EXACT JSON FORMAT:
       }
 
       // Send the invoice
-      const sentInvoice = await storage.sendInvoice(invoice.id);
+      let sentInvoice = await storage.sendInvoice(invoice.id);
+
+      if (sentInvoice) {
+        try {
+          sentInvoice = await generateInvoicePdf(sentInvoice.id, user.id);
+        } catch (pdfError) {
+          console.error(`[Invoice] Failed to generate PDF for invoice ${sentInvoice.invoiceNumber}:`, pdfError);
+        }
+      }
 
       // Transition load state to invoice_sent
       const transitionResult = await transitionLoadState(
@@ -7308,7 +7517,8 @@ RESPOND IN THIS EXACT JSON FORMAT:
 
       const { loadId, shipperId, lineItems, subtotal, discountAmount, discountReason,
               taxPercent, taxAmount, totalAmount, paymentTerms, dueDate, notes,
-              platformMargin, estimatedCarrierPayout, status, sendToShipper, idempotencyKey } = req.body;
+              platformMargin, estimatedCarrierPayout, status, sendToShipper, idempotencyKey,
+              dieselAdjustment } = req.body;
 
       // CRITICAL: Verify load is in awarded state or later before allowing invoice creation
       const load = await storage.getLoad(loadId);
@@ -7345,11 +7555,21 @@ RESPOND IN THIS EXACT JSON FORMAT:
       const invoiceNumber = await storage.generateInvoiceNumber();
       const dueDateValue = dueDate ? new Date(dueDate) : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
 
+      // Derive GST split and total server-side from the load's states and shipper GSTIN
+      const sanitizeAmount = (value: unknown) => parseFloat(String(value ?? '0').replace(/,/g, '').replace(/[^0-9.]/g, '')) || 0;
+      const shipperOnboarding = await storage.getShipperOnboardingRequest(shipperId);
+      const gstPercentNum = taxPercent !== undefined && taxPercent !== null && taxPercent !== '' ? sanitizeAmount(taxPercent) : 18;
+      const gst = calculateGst({
+        taxableAmount: sanitizeAmount(subtotal) - sanitizeAmount(discountAmount),
+        gstPercent: gstPercentNum,
+        pickupState: load.pickupState,
+        dropoffState: load.dropoffState,
+        shipperGstin: shipperOnboarding?.gstinNumber,
+      });
+
       // Calculate advance payment from load
       const advancePercent = load.advancePaymentPercent || 0;
-      // Sanitize totalAmount - remove commas and other formatting
-      const sanitizedTotal = String(totalAmount).replace(/,/g, '').replace(/[^0-9.]/g, '');
-      const totalAmountNum = parseFloat(sanitizedTotal) || parseFloat(load.adminFinalPrice || load.finalPrice || '0');
+      const totalAmountNum = gst.totalAmount || parseFloat(load.adminFinalPrice || load.finalPrice || '0');
       const advanceAmount = advancePercent > 0 && !isNaN(totalAmountNum) ? (totalAmountNum * (advancePercent / 100)).toFixed(2) : null;
       const balanceOnDelivery = advancePercent > 0 && !isNaN(totalAmountNum) ? (totalAmountNum - parseFloat(advanceAmount || "0")).toFixed(2) : null;
 
@@ -7361,9 +7581,16 @@ RESPOND IN THIS EXACT JSON FORMAT:
         subtotal,
         discountAmount: discountAmount || "0",
         discountReason,
-        taxPercent: taxPercent || "18",
-        taxAmount: taxAmount || "0",
-        totalAmount,
+        dieselAdjustment: dieselAdjustment !== undefined && dieselAdjustment !== null ? String(dieselAdjustment) : "0",
+        taxPercent: gst.gstPercent.toString(),
+        taxAmount: gst.totalTax.toString(),
+        gstPercent: gst.gstPercent.toString(),
+        cgstAmount: gst.cgstAmount.toString(),
+        sgstAmount: gst.sgstAmount.toString(),
+        igstAmount: gst.igstAmount.toString(),
+        hsnSacCode: GTA_SAC_CODE,
+        shipperGstin: shipperOnboarding?.gstinNumber || null,
+        totalAmount: totalAmountNum.toString(),
         advancePaymentPercent: advancePercent > 0 && !isNaN(totalAmountNum) ? advancePercent : null,
         advancePaymentAmount: advanceAmount,
         balanceOnDelivery: balanceOnDelivery,
@@ -7393,7 +7620,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         invoiceId: invoice.id,
         userId: user.id,
         action: "create",
-        payload: { lineItems, subtotal, totalAmount, taxPercent },
+        payload: { lineItems, subtotal, totalAmount: totalAmountNum, taxPercent: gst.gstPercent, supplyType: gst.supplyType },
       });
 
       // If sendToShipper is true, send immediately
@@ -7412,7 +7639,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         await storage.createNotification({
           userId: shipperId,
           title: "Invoice Received",
-          message: `Invoice ${invoiceNumber} for ${load?.pickupCity} to ${load?.dropoffCity} - Total: Rs. ${parseFloat(totalAmount).toLocaleString('en-IN')}`,
+          message: `Invoice ${invoiceNumber} for ${load?.pickupCity} to ${load?.dropoffCity} - Total: Rs. ${totalAmountNum.toLocaleString('en-IN')}`,
           type: "invoice",
           relatedLoadId: loadId,
         });
@@ -9144,6 +9371,15 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "Valid final price is required" });
       }
 
+      const biddingWindow = parseBiddingWindowOptions({
+        bidding_window_minutes: req.body.biddingWindowMinutes,
+        auction_extension_minutes: req.body.auctionExtensionMinutes,
+        auction_min_decrement: req.body.auctionMinDecrement,
+      });
+      if (biddingWindow.error) {
+        return res.status(400).json({ error: biddingWindow.error });
+      }
+
       const load = await storage.getLoad(req.params.loadId);
       if (!load) {
         return res.status(404).json({ error: "Load not found" });
@@ -9230,6 +9466,15 @@ RESPOND IN THIS EXACT JSON FORMAT:
         updatePayload.adminPostMode = postMode || 'open';
         updatePayload.invitedCarrierIds = invitedCarrierIds || [];
         updatePayload.postedAt = new Date();
+        // A repost starts a fresh sealed/auction window, the same length as the last one by default
+        const previousWindowMinutes = load.openForBidAt && load.biddingClosesAt
+          ? Math.round((load.biddingClosesAt.getTime() - load.openForBidAt.getTime()) / 60000)
+          : undefined;
+        Object.assign(updatePayload, buildBiddingWindowFields(updatePayload.adminPostMode, {
+          windowMinutes: biddingWindow.options?.windowMinutes ?? previousWindowMinutes,
+          extensionMinutes: biddingWindow.options?.extensionMinutes ?? load.auctionExtensionMinutes ?? undefined,
+          minDecrement: biddingWindow.options?.minDecrement ?? (load.auctionMinDecrement ? parseFloat(load.auctionMinDecrement) : undefined),
+        }));
       }
 
       const updatedLoad = await storage.updateLoad(load.id, updatePayload);
@@ -9470,15 +9715,98 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(403).json({ error: "Admin access required" });
       }
 
-      const action = await storage.getActionQueue(req.params.id);
-      if (!action) {
-        return res.status(404).json({ error: "Action not found" });
-      }
+      const action = await storage.getActionQueue(req.params.id);
+      if (!action) {
+        return res.status(404).json({ error: "Action not found" });
+      }
+
+      const claimed = await storage.claimQueuedAction(action.id);
+      if (!claimed) {
+        return res.status(409).json({ error: `Action is already ${action.status}` });
+      }
+
+      const processed = await processQueuedAction(claimed);
+      res.json({ success: processed?.status === "completed", action: processed });
+    } catch (error) {
+      console.error("Process queue action error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/admin/jobs - Scheduled background jobs and their last run
+  app.get("/api/admin/jobs", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const jobs = await storage.getScheduledJobs();
+      res.json(jobs);
+    } catch (error) {
+      console.error("Get scheduled jobs error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/jobs/:name/run - Run a scheduled job now
+  app.post("/api/admin/jobs/:name/run", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const result = await runJobNow(req.params.name);
+      if (!result.success) {
+        return res.status(result.error === "Unknown job" ? 404 : 409).json({ error: result.error });
+      }
+
+      await storage.createAuditLog({
+        adminId: user.id,
+        actionType: 'run_scheduled_job',
+        actionDescription: `Manually ran scheduled job ${req.params.name}`,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        metadata: { result: result.result || null },
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Run scheduled job error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/admin/jobs/:name - Enable or pause a scheduled job
+  app.patch("/api/admin/jobs/:name", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const { isEnabled } = req.body;
+      if (typeof isEnabled !== "boolean") {
+        return res.status(400).json({ error: "isEnabled must be a boolean" });
+      }
+
+      const updated = await storage.updateScheduledJob(req.params.name, { isEnabled });
+      if (!updated) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      await storage.createAuditLog({
+        adminId: user.id,
+        actionType: 'toggle_scheduled_job',
+        actionDescription: `${isEnabled ? "Enabled" : "Paused"} scheduled job ${req.params.name}`,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
 
-      const processed = await storage.processActionQueue(action.id);
-      res.json({ success: true, action: processed });
+      res.json(updated);
     } catch (error) {
-      console.error("Process queue action error:", error);
+      console.error("Update scheduled job error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
@@ -9922,6 +10250,216 @@ RESPOND IN THIS EXACT JSON FORMAT:
     }
   });
 
+  // =============================================
+  // DIESEL PRICE INDEX ROUTES
+  // =============================================
+
+  // Admin: list diesel index entries (optionally for one region)
+  app.get("/api/admin/diesel-index", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const region = typeof req.query.region === "string" && req.query.region ? req.query.region.toUpperCase() : undefined;
+      const entries = await storage.getDieselIndexEntries(region);
+      res.json(entries);
+    } catch (error) {
+      console.error("Get diesel index error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Admin: import diesel index CSV (date, region, price_per_litre)
+  app.post("/api/admin/diesel-index/import", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const { csv, source } = req.body;
+      if (!csv || typeof csv !== "string") {
+        return res.status(400).json({ error: "CSV content is required" });
+      }
+
+      const result = await importDieselIndexCsv(csv, user.id, source);
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      await storage.createAuditLog({
+        adminId: user.id,
+        actionType: "diesel_index_import",
+        actionDescription: `Imported ${result.imported} diesel index rows`,
+        metadata: { source: source || "csv_import", imported: result.imported, errors: result.errors.length },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Import diesel index error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Admin: diesel adjustment for a load (pricing-date vs pickup-date index)
+  app.get("/api/admin/loads/:id/diesel-adjustment", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const result = await getLoadDieselAdjustment(req.params.id);
+      if (!result.success) {
+        return res.status(404).json({ error: result.error });
+      }
+      res.json(result.adjustment);
+    } catch (error) {
+      console.error("Get diesel adjustment error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // =============================================
+  // E-WAY BILL ROUTES
+  // =============================================
+
+  // GET /api/loads/:id/eway-bill - E-way bill requirement and current bill for a load
+  app.get("/api/loads/:id/eway-bill", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "User not found" });
+      }
+
+      const load = await storage.getLoad(req.params.id);
+      if (!load) {
+        return res.status(404).json({ error: "Load not found" });
+      }
+
+      if (user.role !== "admin" && load.shipperId !== user.id && load.assignedCarrierId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to view this load" });
+      }
+
+      const [ewayBill, history] = await Promise.all([
+        storage.getActiveEwayBillForLoad(load.id),
+        storage.getEwayBillsByLoad(load.id),
+      ]);
+
+      res.json({
+        required: loadRequiresEwayBill(load),
+        threshold: EWAY_BILL_THRESHOLD,
+        goodsValue: load.goodsValue,
+        ewayBill: ewayBill || null,
+        history,
+        transitError: getEwayBillTransitError(load),
+      });
+    } catch (error) {
+      console.error("Get e-way bill error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/loads/:id/eway-bill - Generate an e-way bill, or record one generated on the portal
+  app.post("/api/loads/:id/eway-bill", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "User not found" });
+      }
+
+      const load = await storage.getLoad(req.params.id);
+      if (!load) {
+        return res.status(404).json({ error: "Load not found" });
+      }
+
+      if (user.role !== "admin" && load.shipperId !== user.id && load.assignedCarrierId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to update this load" });
+      }
+
+      if (["delivered", "closed", "cancelled"].includes(load.status || "")) {
+        return res.status(400).json({ error: `Cannot issue an e-way bill for a ${load.status} load` });
+      }
+
+      const { ewayBillNumber, vehicleNumber, goodsValue } = req.body;
+      if (goodsValue !== undefined && goodsValue !== null && goodsValue !== "") {
+        const parsedValue = parseFloat(String(goodsValue).replace(/,/g, ""));
+        if (isNaN(parsedValue) || parsedValue < 0) {
+          return res.status(400).json({ error: "Invalid goods value" });
+        }
+        await storage.updateLoad(load.id, { goodsValue: parsedValue.toString() });
+      }
+
+      const result = await issueEwayBill(load.id, user.id, {
+        ewayBillNumber: ewayBillNumber ? String(ewayBillNumber).replace(/\s/g, "") : undefined,
+        vehicleNumber,
+      });
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      if (user.role === "admin") {
+        await storage.createAuditLog({
+          adminId: user.id,
+          loadId: load.id,
+          actionType: "eway_bill_issued",
+          actionDescription: `E-way bill ${result.ewayBill!.ewayBillNumber} issued, valid until ${result.ewayBill!.validUntil.toLocaleString("en-IN", { timeZone: "Asia/Kolkata" })}`,
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent"),
+        });
+      }
+
+      broadcastLoadUpdated(load.id, load.shipperId, load.status, "eway_bill_issued", {
+        ewayBillNumber: result.ewayBill!.ewayBillNumber,
+        validUntil: result.ewayBill!.validUntil,
+      });
+
+      res.status(201).json(result.ewayBill);
+    } catch (error) {
+      console.error("Issue e-way bill error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/loads/:id/eway-bill/extend - Extend validity for the remaining distance
+  app.post("/api/admin/loads/:id/eway-bill/extend", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "admin") {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const { remainingDistanceKm, reason } = req.body;
+      const remaining = parseFloat(remainingDistanceKm);
+      if (isNaN(remaining) || remaining <= 0) {
+        return res.status(400).json({ error: "remainingDistanceKm must be a positive number" });
+      }
+
+      const result = await extendEwayBill(req.params.id, remaining, reason || "Transit delay");
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      await storage.createAuditLog({
+        adminId: user.id,
+        loadId: req.params.id,
+        actionType: "eway_bill_extended",
+        actionDescription: `E-way bill ${result.ewayBill?.ewayBillNumber} extended for ${remaining} km: ${reason || "Transit delay"}`,
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      res.json(result.ewayBill);
+    } catch (error) {
+      console.error("Extend e-way bill error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // =============================================
   // SHIPPER CREDIT ASSESSMENT ROUTES (Admin only)
   // =============================================
@@ -11345,7 +11883,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
       }
 
       // Validate allowed status transitions
-      const allowedStatusesForResponse = ["pending", "sent", "viewed", "negotiating", "disputed"];
+      const allowedStatusesForResponse = ["pending", "sent", "viewed", "negotiating", "disputed", "overdue"];
       if (!allowedStatusesForResponse.includes(invoice.status)) {
         return res.status(400).json({ error: `Cannot respond to invoice in ${invoice.status} status` });
       }
@@ -11504,6 +12042,10 @@ RESPOND IN THIS EXACT JSON FORMAT:
       }
 
       const updatedLoad = await storage.getLoad(load.id);
+
+      if (toStatus === "delivered" || toStatus === "cancelled") {
+        clearRouteWatch(load.id).catch((error) => console.error("Clear route watch error:", error));
+      }
       
       // Broadcast status change to admin portal for real-time sync
       if (updatedLoad) {
@@ -12455,7 +12997,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(403).json({ error: "You can only upload documents to your own shipments" });
       }
 
-      const { documentType, fileName, fileUrl, fileSize } = req.body;
+      const { documentType, fileName, fileUrl, fileSize, stopId } = req.body;
 
       // Validate required fields
       if (!documentType || !fileName || !fileUrl) {
@@ -12468,6 +13010,12 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "Invalid document type" });
       }
 
+      // A POD can belong to one drop of a multi-stop load
+      const stop = stopId ? await storage.getLoadStop(stopId) : undefined;
+      if (stopId && (!stop || stop.loadId !== shipment.loadId || stop.stopType !== "drop")) {
+        return res.status(400).json({ error: "Stop not found on this load" });
+      }
+
       // Create the document linked to shipment and load
       const doc = await storage.createDocument({
         userId: user.id,
@@ -12477,8 +13025,12 @@ RESPOND IN THIS EXACT JSON FORMAT:
         fileName,
         fileUrl,
         fileSize: fileSize || null,
+        stopId: stop?.id || null,
         isVerified: false,
       });
+      if (stop && documentType === "pod") {
+        await storage.updateLoadStop(stop.id, { podDocumentId: doc.id });
+      }
 
       // Broadcast document upload event to shipper via WebSocket
       const load = await storage.getLoad(shipment.loadId);
@@ -12505,7 +13057,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         await storage.createNotification({
           userId: load.shipperId,
           title: "Document Uploaded",
-          message: `${user.companyName || user.username} uploaded ${docLabel} for ${loadLabel}`,
+          message: `${user.companyName || user.username} uploaded ${docLabel} for ${loadLabel}${stop ? `, ${describeStop(stop)}` : ''}`,
           type: "document",
           relatedLoadId: load.id,
         });
@@ -13075,6 +13627,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         shipmentId,
         loadId: shipment.loadId,
         status: "pending",
+        onSiteSince: await getOnSiteSince(shipment.loadId, "pickup"),
       });
 
       // Update shipment
@@ -13137,6 +13690,12 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(404).json({ error: "Load not found" });
       }
 
+      // Goods above the e-way bill threshold cannot move without a valid e-way bill
+      const ewayBillError = getEwayBillTransitError(load);
+      if (ewayBillError) {
+        return res.status(400).json({ error: ewayBillError, code: "EWAY_BILL_REQUIRED" });
+      }
+
       // Check if there's already a pending request
       const existingRequests = await storage.getOtpRequestsByShipment(shipmentId);
       const pendingRouteStartRequest = existingRequests.find(r => r.requestType === "route_start" && r.status === "pending");
@@ -13151,6 +13710,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         shipmentId,
         loadId: shipment.loadId,
         status: "pending",
+        onSiteSince: await getOnSiteSince(shipment.loadId, "pickup"),
       });
 
       // Update shipment
@@ -13180,6 +13740,81 @@ RESPOND IN THIS EXACT JSON FORMAT:
     }
   });
 
+  // Carrier requests the OTP for an intermediate stop of a multi-stop load
+  app.post("/api/otp/request-stop", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || user.role !== "carrier") {
+        return res.status(403).json({ error: "Only carriers can request stop OTP" });
+      }
+
+      const { shipmentId, stopId } = req.body;
+      if (!shipmentId || !stopId) {
+        return res.status(400).json({ error: "Shipment ID and stop ID are required" });
+      }
+
+      const shipment = await storage.getShipment(shipmentId);
+      if (!shipment) {
+        return res.status(404).json({ error: "Shipment not found" });
+      }
+      if (shipment.carrierId !== user.id) {
+        return res.status(403).json({ error: "Not authorized for this shipment" });
+      }
+      if (!shipment.routeStartOtpVerified) {
+        return res.status(400).json({ error: "Route not started yet. Complete route start first." });
+      }
+
+      const stops = await storage.getLoadStops(shipment.loadId);
+      const stop = stops.find(s => s.id === stopId);
+      if (!stop) {
+        return res.status(404).json({ error: "Stop not found" });
+      }
+      const blocker = getStopCompletionBlocker(stops, stop);
+      if (blocker) {
+        return res.status(400).json({ error: blocker });
+      }
+
+      // Check if there's already a pending request
+      const existingRequests = await storage.getOtpRequestsByShipment(shipmentId);
+      const pendingStopRequest = existingRequests.find(r => r.requestType === "stop_complete" && r.stopId === stopId && r.status === "pending");
+      if (pendingStopRequest) {
+        return res.status(400).json({ error: "Stop OTP request already pending", requestId: pendingStopRequest.id });
+      }
+
+      // Create OTP request for admin
+      const request = await storage.createOtpRequest({
+        requestType: "stop_complete",
+        carrierId: user.id,
+        shipmentId,
+        loadId: shipment.loadId,
+        stopId,
+        status: "pending",
+        notes: describeStop(stop),
+        onSiteSince: await getOnSiteSince(shipment.loadId, "stop", stopId),
+      });
+
+      // Broadcast to admin
+      broadcastMarketplaceEvent("otp_request", {
+        type: "stop_complete",
+        requestId: request.id,
+        carrierId: user.id,
+        carrierName: user.companyName || user.username,
+        shipmentId,
+        loadId: shipment.loadId,
+        stopId,
+      });
+
+      res.json({ 
+        success: true, 
+        message: `OTP requested for ${describeStop(stop)}. Admin will generate OTP shortly.`,
+        requestId: request.id 
+      });
+    } catch (error) {
+      console.error("Request stop OTP error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Carrier requests trip end OTP
   app.post("/api/otp/request-end", requireAuth, async (req, res) => {
     try {
@@ -13220,6 +13855,14 @@ RESPOND IN THIS EXACT JSON FORMAT:
         });
       }
 
+      // Every stop before the final drop has to be completed first
+      if (load.isMultiStop) {
+        const nextStop = getNextIntermediateStop(await storage.getLoadStops(load.id));
+        if (nextStop) {
+          return res.status(400).json({ error: `Complete ${describeStop(nextStop)} before ending the trip`, stopId: nextStop.id });
+        }
+      }
+
       // Check if there's already a pending request
       const existingRequests = await storage.getOtpRequestsByShipment(shipmentId);
       const pendingEndRequest = existingRequests.find(r => r.requestType === "trip_end" && r.status === "pending");
@@ -13234,6 +13877,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
         shipmentId,
         loadId: shipment.loadId,
         status: "pending",
+        onSiteSince: await getOnSiteSince(shipment.loadId, "dropoff"),
       });
 
       // Update shipment
@@ -13511,10 +14155,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
       });
 
       // Create notification for carrier with OTP code
+      const isStopOtp = result.request.requestType === "stop_complete";
       await storage.createNotification({
         userId: result.request.carrierId,
-        title: result.request.requestType === "trip_start" ? "Trip Start OTP Ready" : "Trip End OTP Ready",
-        message: `Your OTP code is: ${result.otp.otpCode}. Valid for ${validityMinutes} minutes. Enter this code to ${result.request.requestType === "trip_start" ? "start your trip" : "complete your delivery"}.`,
+        title: result.request.requestType === "trip_start" ? "Trip Start OTP Ready" : isStopOtp ? "Stop OTP Ready" : "Trip End OTP Ready",
+        message: `Your OTP code is: ${result.otp.otpCode}. Valid for ${validityMinutes} minutes. Enter this code to ${result.request.requestType === "trip_start" ? "start your trip" : isStopOtp ? `complete ${result.request.notes || "the stop"}` : "complete your delivery"}.`,
         type: "info",
         isRead: false,
         contextType: "shipment",
@@ -13579,6 +14224,8 @@ RESPOND IN THIS EXACT JSON FORMAT:
         ? "Trip Start" 
         : result.request.requestType === "route_start"
         ? "Route Start"
+        : result.request.requestType === "stop_complete"
+        ? "Stop"
         : "Trip End";
       
       await storage.createNotification({
@@ -13681,9 +14328,13 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "Shipment ID, OTP type, and OTP code are required" });
       }
 
-      if (!["trip_start", "route_start", "trip_end"].includes(otpType)) {
+      if (!["trip_start", "route_start", "stop_complete", "trip_end"].includes(otpType)) {
         return res.status(400).json({ error: "Invalid OTP type" });
       }
+      const { stopId } = req.body;
+      if (otpType === "stop_complete" && !stopId) {
+        return res.status(400).json({ error: "Stop ID is required for a stop OTP" });
+      }
 
       // Parallel fetch user and shipment for speed
       const [user, shipment] = await Promise.all([
@@ -13702,14 +14353,30 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(403).json({ error: "Not authorized for this shipment" });
       }
 
+      const rateLimitIds = { ip: req.ip, account: user.id, userId: user.id };
+      const rateLimit = await checkRateLimit("otp_verify", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
+
       // Find the pending OTP for this shipment
-      const pendingOtp = await storage.getPendingOtpForShipment(shipmentId, otpType);
+      const pendingOtp = await storage.getPendingOtpForShipment(shipmentId, otpType, otpType === "stop_complete" ? stopId : undefined);
       if (!pendingOtp) {
         return res.status(404).json({ error: "No pending OTP found. Please request OTP first." });
       }
 
+      // Re-check the e-way bill before the load goes in transit (it may have lapsed since the request)
+      if (otpType === "route_start") {
+        const load = await storage.getLoad(shipment.loadId);
+        const ewayBillError = load ? getEwayBillTransitError(load) : null;
+        if (ewayBillError) {
+          return res.status(400).json({ error: ewayBillError, code: "EWAY_BILL_REQUIRED" });
+        }
+      }
+
       // Verify the OTP
       const verifyResult = await storage.verifyOtp(pendingOtp.id, otpCode);
+      await recordAttempt("otp_verify", rateLimitIds, { success: verifyResult.success });
       if (!verifyResult.success) {
         return res.status(400).json({ error: verifyResult.message });
       }
@@ -13769,7 +14436,8 @@ RESPOND IN THIS EXACT JSON FORMAT:
             routeStartOtpVerifiedAt: new Date(),
             status: "in_transit",
           }),
-          storage.updateLoad(shipment.loadId, { status: "in_transit" })
+          storage.updateLoad(shipment.loadId, { status: "in_transit" }),
+          completeTerminalStop(shipment.loadId, "first"),
         ]);
 
         res.json({ 
@@ -13785,6 +14453,36 @@ RESPOND IN THIS EXACT JSON FORMAT:
           carrierName: user.companyName || user.username,
         }, { title: "Route Started", message: "Your shipment is now in transit. GPS tracking activated." });
 
+      } else if (otpType === "stop_complete") {
+        const stop = await storage.updateLoadStop(stopId, { status: "completed", completedAt: new Date() });
+        const remaining = getIntermediateStops(await storage.getLoadStops(shipment.loadId))
+          .filter(s => s.status !== "completed").length;
+        const stopLabel = stop ? describeStop(stop) : "Stop";
+
+        await storage.createShipmentEvent({
+          shipmentId,
+          eventType: "stop_completed",
+          location: stop?.city || null,
+          lat: stop?.lat || null,
+          lng: stop?.lng || null,
+          notes: `${stopLabel} completed`,
+        });
+
+        res.json({ 
+          success: true, 
+          message: remaining > 0 ? `${stopLabel} completed. ${remaining} more before the final drop.` : `${stopLabel} completed. Head to the final drop.`,
+          shipmentStatus: "in_transit",
+          remainingStops: remaining,
+        });
+
+        runBackgroundTasks("stop_completed", {
+          shipmentId,
+          loadId: shipment.loadId,
+          stopId,
+          carrierId: user.id,
+          carrierName: user.companyName || user.username,
+        }, { title: "Stop Completed", message: `${stopLabel} on your multi-stop load has been completed.` });
+
       } else {
         // trip_end - run updates in parallel
         await Promise.all([
@@ -13794,8 +14492,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
             status: "delivered",
             completedAt: new Date(),
           }),
-          storage.updateLoad(shipment.loadId, { status: "delivered" })
+          storage.updateLoad(shipment.loadId, { status: "delivered" }),
+          completeTerminalStop(shipment.loadId, "last"),
         ]);
+        clearRouteWatch(shipment.loadId).catch((error) => console.error("Clear route watch error:", error));
+        clearTripEta(shipment.loadId);
 
         res.json({ 
           success: true, 
@@ -13874,6 +14575,24 @@ RESPOND IN THIS EXACT JSON FORMAT:
         endOtpApproved = isValidStatus && new Date(otp!.expiresAt) > now;
       }
 
+      // Intermediate stops of a multi-stop load each have their own OTP
+      const stopOtps = [];
+      for (const stop of getIntermediateStops(await storage.getLoadStops(shipment.loadId))) {
+        const stopRequests = requests.filter(r => r.requestType === "stop_complete" && r.stopId === stop.id);
+        const approvedRequest = stopRequests.find(r => r.status === "approved" && r.otpId);
+        let otpApproved = false;
+        if (approvedRequest?.otpId && stop.status !== "completed") {
+          const otp = await storage.getOtpVerification(approvedRequest.otpId);
+          otpApproved = !!otp && otp.status === "pending" && new Date(otp.expiresAt) > now;
+        }
+        stopOtps.push({
+          stopId: stop.id,
+          completed: stop.status === "completed",
+          otpRequested: stopRequests.some(r => r.status === "pending"),
+          otpApproved,
+        });
+      }
+
       res.json({
         shipmentId,
         startOtpRequested: shipment.startOtpRequested,
@@ -13886,9 +14605,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
         startOtpApproved,
         routeStartOtpApproved,
         endOtpApproved,
+        stopOtps,
         requests: requests.map(r => ({
           id: r.id,
           type: r.requestType,
+          stopId: r.stopId,
           status: r.status,
           requestedAt: r.requestedAt,
           processedAt: r.processedAt,
@@ -13908,8 +14629,15 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "Phone number is required" });
       }
 
+      const rateLimitIds = { ip: req.ip, phone, userId };
+      const rateLimit = await checkRateLimit("otp_send", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
+      await recordAttempt("otp_send", rateLimitIds, { success: true });
+
       // Generate OTP
-      const otpCode = String(Math.floor(100000 + Math.random() * 900000));
+      const otpCode = storage.generateOtpCode();
       const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
 
       const otp = await storage.createOtpVerification({
@@ -13922,13 +14650,25 @@ RESPOND IN THIS EXACT JSON FORMAT:
         status: "pending",
       });
 
-      // Since no SMS service is configured, return OTP in response for in-app display
-      // In production with Twilio, you would send SMS here and not return the code
+      const channel: OtpChannel = req.body.channel === "whatsapp" ? "whatsapp" : "sms";
+      const delivery = await deliverOtp({
+        channel,
+        to: phone,
+        purpose: "registration",
+        code: otpCode,
+        validityMinutes: 10,
+        language: resolveOtpLanguage(req.body.language, req.get("accept-language")),
+      });
+      if (!delivery.success) {
+        return res.status(502).json({ error: "Could not send the verification code. Please try again." });
+      }
+
       res.json({ 
         success: true, 
-        message: "OTP generated for verification",
+        message: "OTP sent for verification",
         otpId: otp.id,
-        otpCode: otpCode, // Displayed in-app since no SMS service is configured
+        // Outside production the code is echoed back for in-app display
+        ...(shouldExposeOtpCode() && { otpCode }),
       });
     } catch (error: any) {
       console.error("Send registration OTP error:", error);
@@ -13945,7 +14685,15 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "OTP ID and code are required" });
       }
 
+      const pendingOtp = await storage.getOtpVerification(otpId);
+      const rateLimitIds = { ip: req.ip, phone: pendingOtp?.phoneNumber, userId: pendingOtp?.userId };
+      const rateLimit = await checkRateLimit("otp_verify", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
+
       const result = await storage.verifyOtp(otpId, otpCode);
+      await recordAttempt("otp_verify", rateLimitIds, { success: result.success });
       if (!result.success) {
         return res.status(400).json({ error: result.message });
       }
@@ -13979,8 +14727,15 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "Invalid email address format" });
       }
 
+      const rateLimitIds = { ip: req.ip, email, account: userId, userId };
+      const rateLimit = await checkRateLimit("otp_send", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
+      await recordAttempt("otp_send", rateLimitIds, { success: true });
+
       // Generate OTP
-      const otpCode = String(Math.floor(100000 + Math.random() * 900000));
+      const otpCode = storage.generateOtpCode();
       const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
 
       const otp = await storage.createOtpVerification({
@@ -13993,13 +14748,24 @@ RESPOND IN THIS EXACT JSON FORMAT:
         status: "pending",
       });
 
-      // Since no email service is configured, return OTP in response for in-app display
-      // In production, you would send an email here and not return the code
+      const delivery = await deliverOtp({
+        channel: "email",
+        to: email,
+        purpose: "emailRegistration",
+        code: otpCode,
+        validityMinutes: 10,
+        language: resolveOtpLanguage(req.body.language, req.get("accept-language")),
+      });
+      if (!delivery.success) {
+        return res.status(502).json({ error: "Could not send the verification email. Please try again." });
+      }
+
       res.json({ 
         success: true, 
-        message: "Verification code generated",
+        message: "Verification code sent",
         otpId: otp.id,
-        otpCode: otpCode, // Displayed in-app since no email service is configured
+        // Outside production the code is echoed back for in-app display
+        ...(shouldExposeOtpCode() && { otpCode }),
       });
     } catch (error: any) {
       console.error("Send email registration OTP error:", error);
@@ -14015,7 +14781,21 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "OTP ID and code are required" });
       }
 
+      // The email was stored in phoneNumber when the code was sent
+      const pendingOtp = await storage.getOtpVerification(otpId);
+      const rateLimitIds = {
+        ip: req.ip,
+        email: pendingOtp?.phoneNumber,
+        account: pendingOtp?.userId,
+        userId: pendingOtp?.userId,
+      };
+      const rateLimit = await checkRateLimit("otp_verify", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
+
       const result = await storage.verifyOtp(otpId, otpCode);
+      await recordAttempt("otp_verify", rateLimitIds, { success: result.success });
       if (!result.success) {
         return res.status(400).json({ error: result.message });
       }
@@ -14054,6 +14834,13 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "Invalid Indian phone number format" });
       }
 
+      const rateLimitIds = { ip: req.ip, phone: cleanedPhone };
+      const rateLimit = await checkRateLimit("otp_send", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
+      await recordAttempt("otp_send", rateLimitIds, { success: true });
+
       // Normalize phone number - try multiple formats for lookup
       // Users might have stored their phone as +91XXXXXXXXXX or XXXXXXXXXX
       const normalizedPhone = cleanedPhone.startsWith("+91") ? cleanedPhone : `+91 ${cleanedPhone}`;
@@ -14076,7 +14863,7 @@ RESPOND IN THIS EXACT JSON FORMAT:
       }
 
       // Generate OTP
-      const otpCode = String(Math.floor(100000 + Math.random() * 900000));
+      const otpCode = storage.generateOtpCode();
       const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
 
       const otp = await storage.createOtpVerification({
@@ -14089,12 +14876,25 @@ RESPOND IN THIS EXACT JSON FORMAT:
         status: "pending",
       });
 
-      // Since no SMS service is configured, return OTP in response for demo
+      const channel: OtpChannel = req.body.channel === "whatsapp" ? "whatsapp" : "sms";
+      const delivery = await deliverOtp({
+        channel,
+        to: phone,
+        purpose: "login",
+        code: otpCode,
+        validityMinutes: 10,
+        language: resolveOtpLanguage(req.body.language, req.get("accept-language")),
+      });
+      if (!delivery.success) {
+        return res.status(502).json({ error: "Could not send the OTP. Please try again." });
+      }
+
       res.json({ 
         success: true, 
         message: "OTP sent to your phone",
         otpId: otp.id,
-        otpCode: otpCode, // Displayed in-app for demo since no SMS service configured
+        // Outside production the code is echoed back for in-app display
+        ...(shouldExposeOtpCode() && { otpCode }),
       });
     } catch (error: any) {
       console.error("Send login OTP error:", error);
@@ -14110,8 +14910,16 @@ RESPOND IN THIS EXACT JSON FORMAT:
         return res.status(400).json({ error: "OTP ID and code are required" });
       }
 
+      const pendingOtp = await storage.getOtpVerification(otpId);
+      const rateLimitIds = { ip: req.ip, phone: pendingOtp?.phoneNumber, account: pendingOtp?.userId, userId: pendingOtp?.userId };
+      const rateLimit = await checkRateLimit("otp_verify", rateLimitIds);
+      if (!rateLimit.allowed) {
+        return sendRateLimited(res, rateLimit);
+      }
+
       // Verify OTP
       const result = await storage.verifyOtp(otpId, otpCode);
+      await recordAttempt("otp_verify", rateLimitIds, { success: result.success });
       if (!result.success) {
         return res.status(400).json({ error: result.message });
       }
@@ -15312,5 +16120,11 @@ RESPOND IN THIS EXACT JSON FORMAT:
   // Setup WebSocket for real-time telemetry
   setupTelemetryWebSocket(httpServer);
 
+  // Telemetry sources: AIS-140 units over TCP, and simulated trucks for local testing
+  startAis140Listener();
+  if (isTelemetrySimulatorEnabled()) {
+    startTelemetrySimulation();
+  }
+
   return httpServer;
 }
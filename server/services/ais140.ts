@@ -0,0 +1,130 @@
+import type { DevicePosition } from "./telemetry-ingestion";
+
+/**
+ * AIS-140 Packet Parser
+ *
+ * Tracking units certified under AIS-140 send comma separated ASCII packets
+ * framed by `$` and `*`. We read the location (tracking) packet; login and
+ * health packets are recognised and skipped. Field positions follow the
+ * AIS-140 location packet layout:
+ *
+ *   $Header,Vendor,Firmware,PacketType,AlertId,L|H,IMEI,VehicleRegNo,GpsFix,
+ *   ddmmyyyy,hhmmss,Lat,N|S,Lng,E|W,Speed,Heading,Satellites,Altitude,PDOP,
+ *   HDOP,Operator,Ignition,MainPower,MainVoltage,BatteryVoltage,Emergency,...*
+ *
+ * Date and time are UTC. `H` packets are history the unit buffered while it
+ * had no network, sent late and possibly out of order.
+ */
+
+export type Ais140ParseResult =
+  | { kind: "position"; imei: string; vehicleRegNo: string | null; packetType: string; position: DevicePosition }
+  | { kind: "skipped"; imei: string | null; reason: string }
+  | { kind: "invalid"; reason: string };
+
+const FIELD = {
+  header: 0,
+  packetType: 3,
+  packetStatus: 5,
+  imei: 6,
+  vehicleRegNo: 7,
+  gpsFix: 8,
+  date: 9,
+  time: 10,
+  lat: 11,
+  latDir: 12,
+  lng: 13,
+  lngDir: 14,
+  speed: 15,
+  heading: 16,
+  altitude: 18,
+  ignition: 22,
+  mainVoltage: 24,
+} as const;
+
+const MIN_LOCATION_FIELDS = FIELD.mainVoltage + 1;
+const IMEI_PATTERN = /^\d{15}$/;
+
+// Packets that carry no position update
+const NON_LOCATION_HEADERS = ["LGN", "LOGIN", "HLM", "HEALTH"];
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function parseUtcTimestamp(date: string, time: string): Date | null {
+  if (!/^\d{8}$/.test(date) || !/^\d{6}(\.\d+)?$/.test(time)) return null;
+  const day = parseInt(date.slice(0, 2), 10);
+  const month = parseInt(date.slice(2, 4), 10);
+  const year = parseInt(date.slice(4, 8), 10);
+  const hours = parseInt(time.slice(0, 2), 10);
+  const minutes = parseInt(time.slice(2, 4), 10);
+  const seconds = parseInt(time.slice(4, 6), 10);
+  const timestamp = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  return isNaN(timestamp.getTime()) || timestamp.getUTCDate() !== day ? null : timestamp;
+}
+
+/**
+ * Split a buffer of concatenated packets into single `$...*` frames.
+ * Whatever follows the last complete frame is returned as the remainder so
+ * a TCP reader can prepend it to the next chunk.
+ */
+export function splitAis140Frames(buffer: string): { frames: string[]; remainder: string } {
+  const frames: string[] = [];
+  let cursor = 0;
+  while (true) {
+    const start = buffer.indexOf("$", cursor);
+    if (start === -1) return { frames, remainder: "" };
+    const end = buffer.indexOf("*", start);
+    if (end === -1) return { frames, remainder: buffer.slice(start) };
+    frames.push(buffer.slice(start, end + 1));
+    cursor = end + 1;
+  }
+}
+
+export function parseAis140Packet(packet: string): Ais140ParseResult {
+  const body = packet.trim().replace(/^\$/, "").replace(/\*.*$/, "");
+  const fields = body.split(",").map((field) => field.trim());
+  const header = (fields[FIELD.header] || "").toUpperCase();
+
+  if (NON_LOCATION_HEADERS.some((name) => header.includes(name))) {
+    const imei = fields.find((field) => IMEI_PATTERN.test(field)) || null;
+    return { kind: "skipped", imei, reason: `${header} packet` };
+  }
+  if (fields.length < MIN_LOCATION_FIELDS) {
+    return { kind: "invalid", reason: `Expected at least ${MIN_LOCATION_FIELDS} fields, got ${fields.length}` };
+  }
+
+  const imei = fields[FIELD.imei];
+  if (!IMEI_PATTERN.test(imei)) return { kind: "invalid", reason: "Missing or malformed IMEI" };
+  if (fields[FIELD.gpsFix] !== "1") return { kind: "skipped", imei, reason: "No GPS fix" };
+
+  const recordedAt = parseUtcTimestamp(fields[FIELD.date], fields[FIELD.time]);
+  if (!recordedAt) return { kind: "invalid", reason: "Malformed date or time" };
+
+  const rawLat = parseNumber(fields[FIELD.lat]);
+  const rawLng = parseNumber(fields[FIELD.lng]);
+  if (rawLat === null || rawLng === null) return { kind: "invalid", reason: "Malformed coordinates" };
+  const lat = fields[FIELD.latDir].toUpperCase() === "S" ? -rawLat : rawLat;
+  const lng = fields[FIELD.lngDir].toUpperCase() === "W" ? -rawLng : rawLng;
+
+  const packetType = (fields[FIELD.packetType] || "NR").toUpperCase();
+  return {
+    kind: "position",
+    imei,
+    vehicleRegNo: fields[FIELD.vehicleRegNo] || null,
+    packetType,
+    position: {
+      recordedAt,
+      lat,
+      lng,
+      speed: parseNumber(fields[FIELD.speed]),
+      heading: parseNumber(fields[FIELD.heading]),
+      altitude: parseNumber(fields[FIELD.altitude]),
+      isIgnitionOn: fields[FIELD.ignition] === "" ? null : fields[FIELD.ignition] === "1",
+      batteryVoltage: parseNumber(fields[FIELD.mainVoltage]),
+      isHistory: fields[FIELD.packetStatus].toUpperCase() === "H",
+    },
+  };
+}
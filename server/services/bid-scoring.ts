@@ -0,0 +1,394 @@
+import { storage } from "../storage";
+import { acceptBid, checkCarrierDocumentCompliance } from "../workflow-service";
+import { biddingWindowPostModes, type Bid, type BidAutoAwardSettings, type Load, type LoadStatus } from "@shared/schema";
+
+/**
+ * Bid Scoring
+ *
+ * Ranks the open bids on a load out of 100 so admins don't have to compare
+ * them by eye. Every component carries a one-line explanation:
+ *
+ *   price        40  landed cost against the load's adminFinalPrice
+ *   reliability  20  carrier profile reliabilityScore (0-5)
+ *   on_time      15  carrier profile onTimeScore (0-5)
+ *   compliance   10  checkCarrierDocumentCompliance; expired documents disqualify
+ *   truck_fit    10  bid truck type and capacity against the load
+ *   lane_history  5  loads this carrier has completed on the same lane
+ *
+ * Landed cost is what the carrier has offered: their latest amount in the
+ * negotiation chat, else the bid. Bids with an admin counter the carrier
+ * hasn't answered yet are left out until they reply.
+ *
+ * Auto-award (bidAutoAwardSettings, off by default) accepts the best-ranked
+ * bid whose landed cost is within bandPercent of adminFinalPrice and whose
+ * score clears minScore. Every auto-award decision, awarded or not, is
+ * written to adminAuditLogs. Sealed and auction loads are left to their
+ * bidding window (see bidding-windows.ts).
+ */
+
+const SCORING_WEIGHTS = {
+  PRICE: 40,
+  RELIABILITY: 20,
+  ON_TIME: 15,
+  COMPLIANCE: 10,
+  TRUCK_FIT: 10,
+  LANE_HISTORY: 5,
+};
+
+// Price points: 75% of PRICE at target, full at PRICE_FULL_MARGIN_PERCENT under, zero at PRICE_ZERO_OVER_PERCENT over
+const PRICE_FULL_MARGIN_PERCENT = 10;
+const PRICE_ZERO_OVER_PERCENT = 20;
+const LANE_HISTORY_CAP = 5;
+
+const OPEN_BID_STATUSES = ["pending", "countered"];
+const BIDDABLE_LOAD_STATUSES: LoadStatus[] = ["posted_to_carriers", "open_for_bid", "counter_received"];
+const COMPLETED_LOAD_STATUSES: LoadStatus[] = ["delivered", "closed", "invoice_paid"];
+
+export const DEFAULT_AUTO_AWARD_SETTINGS = { enabled: false, bandPercent: 0, minScore: 70 };
+
+export interface BidScoreComponent {
+  key: "price" | "reliability" | "on_time" | "compliance" | "truck_fit" | "lane_history";
+  points: number;
+  maxPoints: number;
+  explanation: string;
+}
+
+export interface BidScore {
+  bidId: string;
+  carrierId: string;
+  carrierName: string;
+  status: string;
+  landedCost: number;
+  targetPrice: number | null;
+  deltaPercent: number | null; // Landed cost vs target; negative is under target
+  totalScore: number;
+  rank: number;
+  components: BidScoreComponent[];
+  disqualified: boolean;
+  withinBand: boolean;
+}
+
+export interface LoadBidEvaluation {
+  loadId: string;
+  targetPrice: number | null;
+  scores: BidScore[];
+  recommendedBidId: string | null;
+  settings: { enabled: boolean; bandPercent: number; minScore: number };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function formatRs(value: number): string {
+  return `Rs. ${Math.round(value).toLocaleString("en-IN")}`;
+}
+
+// "Mumbai, MH" and "mumbai" are the same lane end
+export function laneCity(city: string | null | undefined): string {
+  return (city || "").split(",")[0].trim().toLowerCase();
+}
+
+export function loadWeightTons(load: Load): number {
+  const weight = parseFloat(load.weight?.toString() || "0");
+  return /kg/i.test(load.weightUnit || "") ? weight / 1000 : weight;
+}
+
+function resolveSettings(row: BidAutoAwardSettings | undefined) {
+  if (!row) return { ...DEFAULT_AUTO_AWARD_SETTINGS };
+  return {
+    enabled: !!row.enabled,
+    bandPercent: parseFloat(row.bandPercent?.toString() || "0"),
+    minScore: row.minScore ?? DEFAULT_AUTO_AWARD_SETTINGS.minScore,
+  };
+}
+
+function scorePrice(landedCost: number, reference: number | null, hasTarget: boolean): BidScoreComponent {
+  const max = SCORING_WEIGHTS.PRICE;
+  if (!reference) {
+    return { key: "price", points: max / 2, maxPoints: max, explanation: `${formatRs(landedCost)} landed; no target price to compare against` };
+  }
+
+  const deltaPercent = ((landedCost - reference) / reference) * 100;
+  const atTarget = max * 0.75;
+  const points = deltaPercent <= 0
+    ? atTarget + (max - atTarget) * Math.min(-deltaPercent, PRICE_FULL_MARGIN_PERCENT) / PRICE_FULL_MARGIN_PERCENT
+    : Math.max(0, atTarget * (1 - deltaPercent / PRICE_ZERO_OVER_PERCENT));
+
+  const against = hasTarget ? `target ${formatRs(reference)}` : `lowest bid ${formatRs(reference)}`;
+  const direction = deltaPercent === 0 ? "at" : `${Math.abs(round1(deltaPercent))}% ${deltaPercent < 0 ? "under" : "over"}`;
+  const margin = !hasTarget ? "" : landedCost <= reference
+    ? `, margin ${formatRs(reference - landedCost)}`
+    : `, loss ${formatRs(landedCost - reference)}`;
+  return {
+    key: "price",
+    points: round1(points),
+    maxPoints: max,
+    explanation: `${formatRs(landedCost)} landed, ${direction} ${against}${margin}`,
+  };
+}
+
+function scoreRating(
+  key: "reliability" | "on_time",
+  label: string,
+  max: number,
+  raw: string | null | undefined
+): BidScoreComponent {
+  const rating = parseFloat(raw || "0");
+  if (!rating) {
+    return { key, points: max / 2, maxPoints: max, explanation: `No ${label} rating yet; scored as average` };
+  }
+  return {
+    key,
+    points: round1((Math.min(rating, 5) / 5) * max),
+    maxPoints: max,
+    explanation: `${label[0].toUpperCase()}${label.slice(1)} rating ${rating.toFixed(2)} of 5`,
+  };
+}
+
+async function scoreCompliance(carrierId: string): Promise<{ component: BidScoreComponent; disqualified: boolean }> {
+  const max = SCORING_WEIGHTS.COMPLIANCE;
+  const compliance = await checkCarrierDocumentCompliance(carrierId);
+  if (!compliance.compliant) {
+    return {
+      component: { key: "compliance", points: 0, maxPoints: max, explanation: `Expired: ${compliance.expiredDocuments.join(", ")}` },
+      disqualified: true,
+    };
+  }
+  if (compliance.missingDocuments.length > 0) {
+    return {
+      component: {
+        key: "compliance",
+        points: max / 2,
+        maxPoints: max,
+        explanation: `Not yet verified: ${compliance.missingDocuments.join(", ")}`,
+      },
+      disqualified: false,
+    };
+  }
+  return {
+    component: { key: "compliance", points: max, maxPoints: max, explanation: "All required documents verified and current" },
+    disqualified: false,
+  };
+}
+
+async function scoreTruckFit(bid: Bid, load: Load): Promise<BidScoreComponent> {
+  const max = SCORING_WEIGHTS.TRUCK_FIT;
+  const truck = bid.truckId ? await storage.getTruck(bid.truckId) : undefined;
+  if (!truck) {
+    return { key: "truck_fit", points: round1(max * 0.3), maxPoints: max, explanation: "No truck named on the bid" };
+  }
+
+  const notes: string[] = [];
+  let points = 0;
+  if (!load.requiredTruckType || truck.truckType === load.requiredTruckType) {
+    points += max * 0.6;
+    notes.push(load.requiredTruckType ? `${truck.truckType} matches` : `${truck.truckType}, no type required`);
+  } else {
+    notes.push(`${truck.truckType} but load needs ${load.requiredTruckType}`);
+  }
+
+  const weight = loadWeightTons(load);
+  if (!weight || truck.capacity >= weight) {
+    points += max * 0.4;
+    notes.push(`capacity ${truck.capacity}t covers ${round1(weight)}t`);
+  } else {
+    notes.push(`capacity ${truck.capacity}t under ${round1(weight)}t load`);
+  }
+  return { key: "truck_fit", points: round1(points), maxPoints: max, explanation: notes.join("; ") };
+}
+
+async function scoreLaneHistory(carrierId: string, load: Load): Promise<BidScoreComponent> {
+  const max = SCORING_WEIGHTS.LANE_HISTORY;
+  const pickup = laneCity(load.pickupCity);
+  const dropoff = laneCity(load.dropoffCity);
+  const completed = (await storage.getLoadsByCarrier(carrierId)).filter((past) =>
+    past.id !== load.id &&
+    COMPLETED_LOAD_STATUSES.includes(past.status as LoadStatus) &&
+    laneCity(past.pickupCity) === pickup &&
+    laneCity(past.dropoffCity) === dropoff
+  ).length;
+
+  return {
+    key: "lane_history",
+    points: round1((Math.min(completed, LANE_HISTORY_CAP) / LANE_HISTORY_CAP) * max),
+    maxPoints: max,
+    explanation: completed === 0
+      ? `No completed loads on ${load.pickupCity} to ${load.dropoffCity}`
+      : `${completed} completed load${completed === 1 ? "" : "s"} on this lane`,
+  };
+}
+
+/**
+ * Score and rank every open bid on a load. The recommendation is the
+ * best-ranked bid that auto-award would take with the current settings,
+ * whether or not auto-award is switched on.
+ */
+export async function evaluateLoadBids(loadId: string): Promise<LoadBidEvaluation | null> {
+  const load = await storage.getLoad(loadId);
+  if (!load) return null;
+
+  const settings = resolveSettings(await storage.getBidAutoAwardSettings());
+  const openBids = (await storage.getBidsByLoad(loadId)).filter((bid) => OPEN_BID_STATUSES.includes(bid.status || "pending"));
+  const negotiations = await storage.getBidNegotiationsByLoad(loadId);
+
+  const landed = new Map<string, number>();
+  const bids: Bid[] = [];
+  for (const bid of openBids) {
+    const offers = negotiations.filter((row) => row.bidId === bid.id && row.amount && parseFloat(row.amount) > 0);
+    const latest = offers[offers.length - 1];
+    const carrierOffer = offers.filter((row) => row.senderRole === "carrier").pop();
+    const amount = parseFloat((carrierOffer?.amount || bid.amount).toString());
+    const awaitingCarrier = latest?.senderRole === "admin" ||
+      (bid.status === "countered" && !!bid.counterAmount && parseFloat(bid.counterAmount.toString()) !== amount);
+    if (awaitingCarrier) continue;
+    bids.push(bid);
+    landed.set(bid.id, amount);
+  }
+
+  const targetPrice = load.adminFinalPrice ? parseFloat(load.adminFinalPrice) : null;
+  // Without a target, price is judged against the cheapest bid
+  const reference = targetPrice || (bids.length > 0 ? Math.min(...Array.from(landed.values())) : null);
+
+  const scores: BidScore[] = [];
+  for (const bid of bids) {
+    const landedCost = landed.get(bid.id)!;
+    const [carrier, profile, compliance, truckFit, laneHistory] = await Promise.all([
+      storage.getUser(bid.carrierId),
+      storage.getCarrierProfile(bid.carrierId),
+      scoreCompliance(bid.carrierId),
+      scoreTruckFit(bid, load),
+      scoreLaneHistory(bid.carrierId, load),
+    ]);
+
+    const components = [
+      scorePrice(landedCost, reference, !!targetPrice),
+      scoreRating("reliability", "reliability", SCORING_WEIGHTS.RELIABILITY, profile?.reliabilityScore),
+      scoreRating("on_time", "on-time", SCORING_WEIGHTS.ON_TIME, profile?.onTimeScore),
+      compliance.component,
+      truckFit,
+      laneHistory,
+    ];
+    const deltaPercent = targetPrice ? round1(((landedCost - targetPrice) / targetPrice) * 100) : null;
+
+    scores.push({
+      bidId: bid.id,
+      carrierId: bid.carrierId,
+      carrierName: carrier?.companyName || carrier?.username || "Unknown carrier",
+      status: bid.status || "pending",
+      landedCost,
+      targetPrice,
+      deltaPercent,
+      totalScore: round1(components.reduce((sum, c) => sum + c.points, 0)),
+      rank: 0,
+      components,
+      disqualified: compliance.disqualified,
+      withinBand: deltaPercent !== null && deltaPercent <= settings.bandPercent,
+    });
+  }
+
+  // Ties go to the cheaper bid
+  scores.sort((a, b) => b.totalScore - a.totalScore || a.landedCost - b.landedCost);
+  scores.forEach((score, index) => { score.rank = index + 1; });
+
+  const recommended = scores.find((score) => !score.disqualified && score.withinBand && score.totalScore >= settings.minScore);
+  return {
+    loadId,
+    targetPrice,
+    scores,
+    recommendedBidId: recommended?.bidId || null,
+    settings,
+  };
+}
+
+export interface AutoAwardDecision {
+  awarded: boolean;
+  bidId?: string;
+  reason: string;
+}
+
+/**
+ * Run auto-award for a load (called when a bid comes in, or by an admin).
+ * Returns null when auto-award is off, so callers don't log anything.
+ */
+export async function runAutoAward(loadId: string, trigger: string): Promise<AutoAwardDecision | null> {
+  const settingsRow = await storage.getBidAutoAwardSettings();
+  if (!settingsRow?.enabled) return null;
+
+  const load = await storage.getLoad(loadId);
+  if (!load || !BIDDABLE_LOAD_STATUSES.includes(load.status as LoadStatus)) return null;
+  // Sealed and auction loads are awarded when their window closes
+  if ((biddingWindowPostModes as readonly string[]).includes(load.adminPostMode || "")) return null;
+
+  // Awards are made on behalf of the admin who configured auto-award
+  const actingAdminId = settingsRow.updatedBy || load.adminId || (await storage.getAdmins())[0]?.id;
+  if (!actingAdminId) {
+    console.warn(`[BidScoring] No admin to act for auto-award on load ${loadId}`);
+    return null;
+  }
+
+  const evaluation = await evaluateLoadBids(loadId);
+  if (!evaluation) return null;
+
+  let decision: AutoAwardDecision;
+  const top = evaluation.scores[0];
+  const recommended = evaluation.scores.find((score) => score.bidId === evaluation.recommendedBidId);
+
+  if (!evaluation.targetPrice) {
+    decision = { awarded: false, reason: "Load has no adminFinalPrice to compare against" };
+  } else if (!top) {
+    decision = { awarded: false, reason: "No open bids" };
+  } else if (!recommended) {
+    decision = {
+      awarded: false,
+      bidId: top.bidId,
+      reason: top.disqualified
+        ? `Top bid from ${top.carrierName} has expired documents`
+        : !top.withinBand
+          ? `Top bid from ${top.carrierName} is ${top.deltaPercent}% vs target, outside the ${evaluation.settings.bandPercent}% band`
+          : `Top bid from ${top.carrierName} scored ${top.totalScore}, below the minimum ${evaluation.settings.minScore}`,
+    };
+  } else {
+    const result = await acceptBid(recommended.bidId, actingAdminId, recommended.landedCost);
+    decision = result.success
+      ? {
+          awarded: true,
+          bidId: recommended.bidId,
+          reason: `Awarded to ${recommended.carrierName} at ${formatRs(recommended.landedCost)} (score ${recommended.totalScore}, ${recommended.deltaPercent}% vs target)`,
+        }
+      : { awarded: false, bidId: recommended.bidId, reason: `Accept failed: ${result.error}` };
+  }
+
+  await storage.createAuditLog({
+    adminId: actingAdminId,
+    loadId,
+    actionType: decision.awarded ? "bid_auto_awarded" : "bid_auto_award_skipped",
+    actionDescription: decision.reason,
+    metadata: {
+      trigger,
+      bidId: decision.bidId,
+      targetPrice: evaluation.targetPrice,
+      settings: evaluation.settings,
+      ranking: evaluation.scores.slice(0, 5).map((score) => ({
+        bidId: score.bidId,
+        carrierId: score.carrierId,
+        landedCost: score.landedCost,
+        totalScore: score.totalScore,
+        withinBand: score.withinBand,
+        disqualified: score.disqualified,
+      })),
+    },
+  });
+
+  if (decision.awarded) {
+    await storage.createNotification({
+      userId: actingAdminId,
+      title: "Load Auto-Awarded",
+      message: `${load.pickupCity} to ${load.dropoffCity}: ${decision.reason}`,
+      type: "bid",
+      relatedLoadId: loadId,
+      relatedBidId: decision.bidId,
+    });
+  }
+  return decision;
+}
@@ -0,0 +1,327 @@
+import { storage } from "../storage";
+import { acceptBid } from "../workflow-service";
+import { evaluateLoadBids } from "./bid-scoring";
+import { broadcastBiddingWindowEvent } from "../websocket-marketplace";
+import { biddingWindowPostModes, type Bid, type BiddingWindowPostMode, type Load } from "@shared/schema";
+
+/**
+ * Bidding Windows
+ *
+ * The sealed and auction post modes open a timed window from openForBidAt to
+ * biddingClosesAt:
+ *
+ *   sealed   carriers see only their own bid; every amount is revealed to
+ *            the participants when the window closes (bidsRevealedAt)
+ *   auction  reverse auction; the current lowest bid is public, a new bid
+ *            must beat it by auctionMinDecrement (and replaces the carrier's
+ *            previous bid), and a bid inside the last auctionExtensionMinutes
+ *            pushes the close out by that much
+ *
+ * The bidding_windows job closes expired windows: the cheapest bid from a
+ * carrier with valid documents is accepted through acceptBid (load goes to
+ * awarded), participants are told the result over the marketplace socket,
+ * and biddingClosedAt stops further bids. With no eligible bid the load
+ * stays posted for the admin to reprice and repost.
+ */
+
+export const BIDDING_WINDOW_CONFIG = {
+  DEFAULT_WINDOW_MINUTES: 120,
+  MIN_WINDOW_MINUTES: 5,
+  MAX_WINDOW_MINUTES: 7 * 24 * 60,
+  DEFAULT_EXTENSION_MINUTES: 5,
+  MAX_EXTENSIONS: 12,
+};
+
+const OPEN_BID_STATUSES = ["pending", "countered"];
+
+export interface BiddingWindowOptions {
+  windowMinutes?: number;
+  extensionMinutes?: number;
+  minDecrement?: number;
+}
+
+export interface BiddingWindowSummary {
+  mode: BiddingWindowPostMode;
+  opensAt: Date | null;
+  closesAt: Date | null;
+  closedAt: Date | null;
+  revealed: boolean;
+  bidCount: number;
+  // Auction: always public. Sealed: only once revealed.
+  lowestAmount: number | null;
+  extensionMinutes: number | null;
+  extensionCount: number;
+  minDecrement: number | null;
+}
+
+export function isBiddingWindowMode(mode: string | null | undefined): mode is BiddingWindowPostMode {
+  return !!mode && (biddingWindowPostModes as readonly string[]).includes(mode);
+}
+
+/**
+ * Load fields that open a window for the given post mode. Non-window modes
+ * get the fields cleared so a repost in open/invite mode isn't held by an
+ * old close time.
+ */
+export function buildBiddingWindowFields(mode: string, options: BiddingWindowOptions = {}, now: Date = new Date()): Partial<Load> {
+  if (!isBiddingWindowMode(mode)) {
+    return {
+      biddingClosesAt: null,
+      biddingClosedAt: null,
+      bidsRevealedAt: null,
+      auctionExtensionMinutes: null,
+      auctionExtensionCount: 0,
+      auctionMinDecrement: null,
+    };
+  }
+
+  const windowMinutes = options.windowMinutes || BIDDING_WINDOW_CONFIG.DEFAULT_WINDOW_MINUTES;
+  const isAuction = mode === "auction";
+  return {
+    openForBidAt: now,
+    biddingClosesAt: new Date(now.getTime() + windowMinutes * 60 * 1000),
+    biddingClosedAt: null,
+    bidsRevealedAt: null,
+    auctionExtensionMinutes: isAuction ? options.extensionMinutes ?? BIDDING_WINDOW_CONFIG.DEFAULT_EXTENSION_MINUTES : null,
+    auctionExtensionCount: 0,
+    auctionMinDecrement: isAuction ? String(options.minDecrement ?? 0) : null,
+    // Every bid in a window is a price; there's no posted price to counter
+    allowCounterBids: false,
+  };
+}
+
+/**
+ * Read window options from a posting request body (snake_case, as the
+ * pricing routes take them). Returns an error string for out-of-range values.
+ */
+export function parseBiddingWindowOptions(body: Record<string, any>): { options?: BiddingWindowOptions; error?: string } {
+  const windowMinutes = body.bidding_window_minutes !== undefined ? Number(body.bidding_window_minutes) : undefined;
+  const extensionMinutes = body.auction_extension_minutes !== undefined ? Number(body.auction_extension_minutes) : undefined;
+  const minDecrement = body.auction_min_decrement !== undefined ? Number(body.auction_min_decrement) : undefined;
+
+  if (windowMinutes !== undefined && (!Number.isInteger(windowMinutes) || windowMinutes < BIDDING_WINDOW_CONFIG.MIN_WINDOW_MINUTES || windowMinutes > BIDDING_WINDOW_CONFIG.MAX_WINDOW_MINUTES)) {
+    return { error: `Bidding window must be between ${BIDDING_WINDOW_CONFIG.MIN_WINDOW_MINUTES} and ${BIDDING_WINDOW_CONFIG.MAX_WINDOW_MINUTES} minutes` };
+  }
+  if (extensionMinutes !== undefined && (!Number.isInteger(extensionMinutes) || extensionMinutes < 0 || extensionMinutes > 60)) {
+    return { error: "Auction extension must be between 0 and 60 minutes" };
+  }
+  if (minDecrement !== undefined && (isNaN(minDecrement) || minDecrement < 0)) {
+    return { error: "Minimum decrement cannot be negative" };
+  }
+  return { options: { windowMinutes, extensionMinutes, minDecrement } };
+}
+
+function openBids(bids: Bid[]): Bid[] {
+  return bids.filter((bid) => OPEN_BID_STATUSES.includes(bid.status || "pending"));
+}
+
+function lowestAmount(bids: Bid[]): number | null {
+  const amounts = bids.map((bid) => parseFloat(bid.amount.toString())).filter((amount) => !isNaN(amount));
+  return amounts.length > 0 ? Math.min(...amounts) : null;
+}
+
+export async function getBiddingWindowSummary(load: Load): Promise<BiddingWindowSummary | null> {
+  if (!isBiddingWindowMode(load.adminPostMode)) return null;
+
+  // Once closed the winner is accepted and the rest rejected; the summary still covers them
+  const allBids = await storage.getBidsByLoad(load.id);
+  const bids = load.biddingClosedAt ? allBids : openBids(allBids);
+  const amountsVisible = load.adminPostMode === "auction" || !!load.bidsRevealedAt;
+  return {
+    mode: load.adminPostMode,
+    opensAt: load.openForBidAt,
+    closesAt: load.biddingClosesAt,
+    closedAt: load.biddingClosedAt,
+    revealed: !!load.bidsRevealedAt,
+    bidCount: bids.length,
+    lowestAmount: amountsVisible ? lowestAmount(bids) : null,
+    extensionMinutes: load.auctionExtensionMinutes,
+    extensionCount: load.auctionExtensionCount || 0,
+    minDecrement: load.auctionMinDecrement ? parseFloat(load.auctionMinDecrement) : null,
+  };
+}
+
+/**
+ * Whether a carrier may see other carriers' bids on this load. Sealed bids
+ * stay hidden until revealed; an auction shows the lowest amount through the
+ * window summary but not who bid it.
+ */
+export function canCarrierSeeOtherBids(load: Load): boolean {
+  if (!isBiddingWindowMode(load.adminPostMode)) return true;
+  return load.adminPostMode === "sealed" && !!load.bidsRevealedAt;
+}
+
+/**
+ * Check a new bid against the load's window. Loads without a window always
+ * pass; the usual eligibility checks still apply.
+ */
+export async function validateWindowBid(load: Load, amount: number, now: Date = new Date()): Promise<{ allowed: boolean; reason?: string }> {
+  if (!isBiddingWindowMode(load.adminPostMode)) return { allowed: true };
+
+  if (load.openForBidAt && now < load.openForBidAt) {
+    return { allowed: false, reason: `Bidding opens at ${load.openForBidAt.toISOString()}` };
+  }
+  if (load.biddingClosedAt || (load.biddingClosesAt && now >= load.biddingClosesAt)) {
+    return { allowed: false, reason: "Bidding window has closed" };
+  }
+  if (!amount || isNaN(amount) || amount <= 0) {
+    return { allowed: false, reason: "Bid amount must be greater than zero" };
+  }
+
+  if (load.adminPostMode === "auction") {
+    const lowest = lowestAmount(openBids(await storage.getBidsByLoad(load.id)));
+    const decrement = load.auctionMinDecrement ? parseFloat(load.auctionMinDecrement) : 0;
+    if (lowest !== null && amount > lowest - decrement) {
+      return {
+        allowed: false,
+        reason: decrement > 0
+          ? `Bid must be at most Rs. ${(lowest - decrement).toLocaleString("en-IN")} (current lowest Rs. ${lowest.toLocaleString("en-IN")})`
+          : `Bid must be below the current lowest of Rs. ${lowest.toLocaleString("en-IN")}`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Called after a bid lands on a window load: supersedes the carrier's earlier
+ * auction bid, extends a closing auction and pushes the new state to everyone
+ * following the load.
+ */
+export async function recordWindowBid(bid: Bid, now: Date = new Date()): Promise<BiddingWindowSummary | null> {
+  const loadId = bid.loadId;
+  let load = await storage.getLoad(loadId);
+  if (!load || !isBiddingWindowMode(load.adminPostMode) || load.biddingClosedAt) return null;
+
+  if (load.adminPostMode === "auction") {
+    const superseded = openBids(await storage.getBidsByLoad(loadId))
+      .filter((other) => other.carrierId === bid.carrierId && other.id !== bid.id);
+    for (const other of superseded) {
+      await storage.updateBid(other.id, { status: "expired" });
+    }
+  }
+
+  let extended = false;
+  const extensionMinutes = load.auctionExtensionMinutes || 0;
+  const extensionCount = load.auctionExtensionCount || 0;
+  if (
+    load.adminPostMode === "auction" &&
+    load.biddingClosesAt &&
+    extensionMinutes > 0 &&
+    extensionCount < BIDDING_WINDOW_CONFIG.MAX_EXTENSIONS &&
+    load.biddingClosesAt.getTime() - now.getTime() < extensionMinutes * 60 * 1000
+  ) {
+    load = (await storage.updateLoad(loadId, {
+      biddingClosesAt: new Date(now.getTime() + extensionMinutes * 60 * 1000),
+      auctionExtensionCount: extensionCount + 1,
+    })) || load;
+    extended = true;
+  }
+
+  const summary = await getBiddingWindowSummary(load);
+  if (summary) {
+    broadcastBiddingWindowEvent(loadId, "bidding_window_updated", { ...summary, extended });
+  }
+  return summary;
+}
+
+export interface BiddingWindowCloseResult {
+  loadId: string;
+  awarded: boolean;
+  bidId?: string;
+  amount?: number;
+  reason: string;
+}
+
+/**
+ * Close a load's window now: reveal, award the cheapest eligible bid and
+ * notify participants. Returns null when the load has no open window.
+ */
+export async function closeBiddingWindow(loadId: string, closedBy?: string): Promise<BiddingWindowCloseResult | null> {
+  const load = await storage.getLoad(loadId);
+  if (!load || !isBiddingWindowMode(load.adminPostMode) || load.biddingClosedAt) return null;
+
+  const now = new Date();
+  await storage.updateLoad(loadId, {
+    biddingClosedAt: now,
+    bidsRevealedAt: load.adminPostMode === "sealed" ? now : load.bidsRevealedAt,
+  });
+
+  const evaluation = await evaluateLoadBids(loadId);
+  const scores = evaluation?.scores || [];
+  const winner = scores
+    .filter((score) => !score.disqualified)
+    .sort((a, b) => a.landedCost - b.landedCost || b.totalScore - a.totalScore)[0];
+
+  const actingAdminId = closedBy || load.adminId || (await storage.getAdmins())[0]?.id;
+  let result: BiddingWindowCloseResult;
+  if (!winner) {
+    result = {
+      loadId,
+      awarded: false,
+      reason: scores.length > 0 ? "Every bid came from a carrier with expired documents" : "No bids were placed",
+    };
+  } else if (!actingAdminId) {
+    result = { loadId, awarded: false, bidId: winner.bidId, reason: "No admin to award the load" };
+  } else {
+    const accepted = await acceptBid(winner.bidId, actingAdminId, winner.landedCost);
+    result = accepted.success
+      ? { loadId, awarded: true, bidId: winner.bidId, amount: winner.landedCost, reason: `Awarded to ${winner.carrierName} at Rs. ${winner.landedCost.toLocaleString("en-IN")}` }
+      : { loadId, awarded: false, bidId: winner.bidId, reason: `Accept failed: ${accepted.error}` };
+  }
+
+  // Revealed amounts are anonymous; each participant learns which one was theirs
+  const ranked = [...scores].sort((a, b) => a.landedCost - b.landedCost);
+  const participants: Record<string, Record<string, any>> = {};
+  ranked.forEach((score, index) => {
+    participants[score.carrierId] = { yourBidId: score.bidId, yourRank: index + 1, won: result.awarded && score.bidId === result.bidId };
+  });
+  broadcastBiddingWindowEvent(loadId, "bidding_window_closed", {
+    mode: load.adminPostMode,
+    closedAt: now,
+    awarded: result.awarded,
+    winningAmount: result.awarded ? result.amount : null,
+    bids: ranked.map((score, index) => ({ rank: index + 1, amount: score.landedCost })),
+  }, participants);
+
+  if (actingAdminId) {
+    await storage.createAuditLog({
+      adminId: actingAdminId,
+      loadId,
+      actionType: "bidding_window_closed",
+      actionDescription: result.reason,
+      metadata: {
+        mode: load.adminPostMode,
+        closedBy: closedBy ? "admin" : "schedule",
+        bidId: result.bidId,
+        bidCount: scores.length,
+        extensions: load.auctionExtensionCount || 0,
+      },
+    });
+  }
+  if (!result.awarded && load.adminId) {
+    await storage.createNotification({
+      userId: load.adminId,
+      title: "Bidding Window Closed",
+      message: `${load.pickupCity} to ${load.dropoffCity}: ${result.reason}. Reprice or repost the load.`,
+      type: "warning",
+      relatedLoadId: loadId,
+    });
+  }
+
+  return result;
+}
+
+export async function closeExpiredBiddingWindows(now: Date = new Date()): Promise<{ closed: number; awarded: number }> {
+  const expired = await storage.getLoadsWithExpiredBiddingWindows(now);
+  let closed = 0;
+  let awarded = 0;
+  for (const load of expired) {
+    const result = await closeBiddingWindow(load.id);
+    if (!result) continue;
+    closed++;
+    if (result.awarded) awarded++;
+  }
+  return { closed, awarded };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../storage", () => ({ storage: {} }));
+vi.mock("../workflow-service", () => ({
+  acceptBid: vi.fn(),
+  checkCarrierDocumentCompliance: vi.fn(),
+  transitionLoadState: vi.fn(),
+}));
+vi.mock("../websocket-marketplace", () => ({ broadcastLoadPosted: vi.fn() }));
+vi.mock("./site-geocoding", () => ({ queueLoadSiteGeocoding: vi.fn() }));
+
+import { getCommitmentPeriodStart } from "./contract-rates";
+import type { ContractRate } from "@shared/schema";
+
+function contract(overrides: Partial<ContractRate>): ContractRate {
+  return { validFrom: new Date("2026-04-01T00:00:00+05:30"), commitmentPeriod: "monthly", ...overrides } as ContractRate;
+}
+
+describe("getCommitmentPeriodStart", () => {
+  it("starts weekly periods at Monday IST midnight", () => {
+    // 00:30 IST on Monday 19 Oct is still Sunday in UTC
+    const start = getCommitmentPeriodStart(contract({ commitmentPeriod: "weekly" }), new Date("2026-10-18T19:00:00Z"));
+    expect(start.toISOString()).toBe(new Date("2026-10-19T00:00:00+05:30").toISOString());
+
+    const midweek = getCommitmentPeriodStart(contract({ commitmentPeriod: "weekly" }), new Date("2026-10-22T12:00:00Z"));
+    expect(midweek.toISOString()).toBe(new Date("2026-10-19T00:00:00+05:30").toISOString());
+  });
+
+  it("starts monthly periods on the 1st in IST", () => {
+    const start = getCommitmentPeriodStart(contract({}), new Date("2026-10-31T19:00:00Z"));
+    expect(start.toISOString()).toBe(new Date("2026-11-01T00:00:00+05:30").toISOString());
+  });
+
+  it("uses validFrom for whole-contract commitments", () => {
+    const start = getCommitmentPeriodStart(contract({ commitmentPeriod: "contract" }), new Date("2026-10-20T00:00:00Z"));
+    expect(start.toISOString()).toBe(new Date("2026-04-01T00:00:00+05:30").toISOString());
+  });
+});
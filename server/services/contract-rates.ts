@@ -0,0 +1,431 @@
+import { storage } from "../storage";
+import { acceptBid, checkCarrierDocumentCompliance, transitionLoadState } from "../workflow-service";
+import { broadcastLoadPosted } from "../websocket-marketplace";
+import { laneCity } from "./bid-scoring";
+import { startOfDay, toIstCalendar } from "./load-schedules";
+import type {
+  ContractCommitmentPeriod,
+  ContractLoadAssignment,
+  ContractRate,
+  ContractRateCarrier,
+  Load,
+  LoadStatus,
+} from "@shared/schema";
+
+/**
+ * Contract Rates
+ *
+ * A contract rate card fixes the price of a lane (pickup city, dropoff city
+ * and optionally truck type) for one shipper between validFrom and
+ * validUntil, with one or more carriers at an agreed payout. A load the
+ * shipper submits on a contracted lane skips pricing and bidding:
+ *
+ *   1. the load is priced at shipperRate and moved pending -> priced ->
+ *      posted_to_carriers with adminPostMode "assign"
+ *   2. the first eligible carrier by priority gets a "contract" bid at
+ *      carrierRate, accepted through acceptBid (load goes to awarded with
+ *      shipment and invoice as usual). Carriers with expired documents, or
+ *      at their maxLoadsPerPeriod, are skipped
+ *   3. a carrier can decline before pickup; the award is unwound and the
+ *      next carrier is tried
+ *   4. with no carrier left the load falls back to the open marketplace at
+ *      the contract payout, counter bids allowed
+ *
+ * Every award, decline and fallback is a contractLoadAssignments row, which
+ * is what utilisation against committedLoads is counted from.
+ */
+
+const CONTRACT_DECLINABLE_STATUSES: LoadStatus[] = ["awarded", "invoice_created"];
+const CONTRACT_APPLICABLE_STATUSES: LoadStatus[] = ["pending", "priced"];
+
+export interface ContractApplyResult {
+  loadId: string;
+  contractId: string | null;
+  awarded: boolean;
+  carrierId?: string;
+  fallback?: boolean;
+  reason: string;
+}
+
+export interface ContractUtilisation {
+  contractId: string;
+  name: string;
+  shipperId: string;
+  shipperName: string;
+  lane: string;
+  truckType: string | null;
+  status: string | null;
+  validFrom: Date;
+  validUntil: Date;
+  commitmentPeriod: ContractCommitmentPeriod;
+  periodStart: Date;
+  committedLoads: number;
+  awardedLoads: number;
+  utilisationPercent: number | null;
+  declines: number;
+  fallbacks: number;
+  carriers: { carrierId: string; carrierName: string; carrierRate: number; priority: number; maxLoadsPerPeriod: number | null; awardedLoads: number }[];
+}
+
+function formatRs(value: number): string {
+  return `Rs. ${Math.round(value).toLocaleString("en-IN")}`;
+}
+
+/**
+ * Start of the commitment period containing `at`: Monday for weekly, the 1st
+ * for monthly, validFrom for a whole-contract commitment.
+ */
+export function getCommitmentPeriodStart(contract: ContractRate, at: Date = new Date()): Date {
+  const period = (contract.commitmentPeriod || "monthly") as ContractCommitmentPeriod;
+  if (period === "contract") return new Date(contract.validFrom);
+  // Periods turn over at IST midnight whatever the server's zone
+  const today = startOfDay(at);
+  const ist = toIstCalendar(today);
+  if (period === "weekly") {
+    return new Date(today.getTime() - ((ist.getUTCDay() + 6) % 7) * 24 * 60 * 60 * 1000);
+  }
+  return startOfDay(new Date(Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), 1)));
+}
+
+/**
+ * Active contract for the load's shipper and lane. A contract for the load's
+ * truck type wins over one that covers any truck type.
+ */
+export async function findContractForLoad(load: Load, at: Date = new Date()): Promise<ContractRate | undefined> {
+  const contracts = await storage.getActiveContractRatesForShipper(load.shipperId, at);
+  const pickup = laneCity(load.pickupCity);
+  const dropoff = laneCity(load.dropoffCity);
+  const onLane = contracts.filter((contract) =>
+    laneCity(contract.pickupCity) === pickup && laneCity(contract.dropoffCity) === dropoff
+  );
+  return onLane.find((contract) => !!contract.truckType && contract.truckType === load.requiredTruckType)
+    || onLane.find((contract) => !contract.truckType);
+}
+
+async function pickContractCarrier(
+  contract: ContractRate,
+  excludeCarrierIds: Set<string>
+): Promise<{ carrier?: ContractRateCarrier; skipped: string[] }> {
+  const carriers = (await storage.getContractRateCarriers(contract.id)).filter((carrier) => carrier.isActive);
+  const periodAssignments = await storage.getContractLoadAssignmentsByContract(contract.id, getCommitmentPeriodStart(contract));
+  const skipped: string[] = [];
+
+  for (const carrier of carriers) {
+    if (excludeCarrierIds.has(carrier.carrierId)) continue;
+
+    if (carrier.maxLoadsPerPeriod) {
+      const awardedThisPeriod = periodAssignments.filter((assignment) =>
+        assignment.carrierId === carrier.carrierId && assignment.status === "awarded"
+      ).length;
+      if (awardedThisPeriod >= carrier.maxLoadsPerPeriod) {
+        skipped.push(`${carrier.carrierId}: at ${carrier.maxLoadsPerPeriod} loads this period`);
+        continue;
+      }
+    }
+
+    const compliance = await checkCarrierDocumentCompliance(carrier.carrierId);
+    if (!compliance.compliant) {
+      skipped.push(`${carrier.carrierId}: ${compliance.reason || "documents not compliant"}`);
+      continue;
+    }
+
+    return { carrier, skipped };
+  }
+  return { skipped };
+}
+
+async function pickCarrierTruck(carrierId: string, truckType: string | null): Promise<string | null> {
+  const trucks = (await storage.getTrucksByCarrier(carrierId)).filter((truck) => truck.isAvailable !== false);
+  const match = trucks.find((truck) => !truckType || truck.truckType === truckType) || trucks[0];
+  return match?.id || null;
+}
+
+async function fallBackToMarketplace(load: Load, contract: ContractRate, actingAdminId: string, reason: string): Promise<ContractApplyResult> {
+  const carriers = await storage.getContractRateCarriers(contract.id);
+  const payout = carriers[0]?.carrierRate || load.finalPrice;
+
+  const updatedLoad = await storage.updateLoad(load.id, {
+    adminPostMode: "open",
+    finalPrice: payout,
+    allowCounterBids: true,
+    invitedCarrierIds: null,
+  });
+  await storage.createContractLoadAssignment({
+    contractId: contract.id,
+    loadId: load.id,
+    carrierId: null,
+    bidId: null,
+    carrierRate: payout,
+    status: "fallback",
+    declineReason: reason,
+  });
+
+  broadcastLoadPosted({
+    id: load.id,
+    pickupCity: load.pickupCity,
+    dropoffCity: load.dropoffCity,
+    adminFinalPrice: updatedLoad?.adminFinalPrice || load.adminFinalPrice,
+    requiredTruckType: load.requiredTruckType,
+    status: updatedLoad?.status || load.status,
+  });
+
+  await storage.createAuditLog({
+    adminId: actingAdminId,
+    loadId: load.id,
+    actionType: "contract_fallback",
+    actionDescription: `Contract "${contract.name}": ${reason}. Posted to the open marketplace.`,
+    metadata: { contractId: contract.id, payout },
+  });
+  await storage.createNotification({
+    userId: actingAdminId,
+    title: "Contract Load Sent to Marketplace",
+    message: `${load.pickupCity} to ${load.dropoffCity} (${contract.name}): ${reason}. The load is now open for bids.`,
+    type: "warning",
+    relatedLoadId: load.id,
+  });
+
+  return { loadId: load.id, contractId: contract.id, awarded: false, fallback: true, reason };
+}
+
+/**
+ * Award the load to the next eligible contract carrier, skipping any that
+ * already declined it. Falls back to the marketplace when none is left or
+ * the award itself fails.
+ */
+export async function awardToNextContractCarrier(loadId: string, contract: ContractRate, actingAdminId: string): Promise<ContractApplyResult> {
+  const load = await storage.getLoad(loadId);
+  if (!load) return { loadId, contractId: contract.id, awarded: false, reason: "Load not found" };
+
+  const previous = await storage.getContractLoadAssignmentsByLoad(loadId);
+  const declined = new Set(previous.filter((assignment) => assignment.carrierId).map((assignment) => assignment.carrierId!));
+  const { carrier, skipped } = await pickContractCarrier(contract, declined);
+  if (!carrier) {
+    const reason = declined.size > 0
+      ? "Every contract carrier declined or is unavailable"
+      : "No contract carrier is available";
+    if (skipped.length > 0) console.log(`[contract:${contract.id.slice(0, 8)}] Skipped carriers: ${skipped.join("; ")}`);
+    return fallBackToMarketplace(load, contract, actingAdminId, reason);
+  }
+
+  const carrierProfile = await storage.getCarrierProfile(carrier.carrierId);
+  const bid = await storage.createBid({
+    loadId,
+    carrierId: carrier.carrierId,
+    truckId: await pickCarrierTruck(carrier.carrierId, load.requiredTruckType),
+    amount: carrier.carrierRate,
+    notes: `Contract rate: ${contract.name}`,
+    status: "pending",
+    bidType: "contract",
+    carrierType: carrierProfile?.carrierType || "enterprise",
+  });
+
+  const accepted = await acceptBid(bid.id, actingAdminId, parseFloat(carrier.carrierRate));
+  if (!accepted.success) {
+    await storage.updateBid(bid.id, { status: "rejected", notes: `Contract award failed: ${accepted.error}` });
+    // The load is already posted in assign mode with no invited carriers, so open it up
+    return fallBackToMarketplace(load, contract, actingAdminId, `Award to the contract carrier failed: ${accepted.error}`);
+  }
+
+  await storage.createContractLoadAssignment({
+    contractId: contract.id,
+    loadId,
+    carrierId: carrier.carrierId,
+    bidId: bid.id,
+    carrierRate: carrier.carrierRate,
+    status: "awarded",
+  });
+
+  const payout = parseFloat(carrier.carrierRate);
+  await storage.createNotification({
+    userId: carrier.carrierId,
+    title: "Contract Load Assigned",
+    message: `${load.pickupCity} to ${load.dropoffCity} has been assigned to you at your contract rate of ${formatRs(payout)}. Decline it from Contract Loads if you can't cover it.`,
+    type: "success",
+    relatedLoadId: loadId,
+  });
+  await storage.createAuditLog({
+    adminId: actingAdminId,
+    loadId,
+    actionType: "contract_awarded",
+    actionDescription: `Awarded on contract "${contract.name}" at ${formatRs(payout)}`,
+    metadata: { contractId: contract.id, carrierId: carrier.carrierId, bidId: bid.id, priority: carrier.priority, skipped },
+  });
+
+  return { loadId, contractId: contract.id, awarded: true, carrierId: carrier.carrierId, reason: `Awarded at contract rate ${formatRs(payout)}` };
+}
+
+/**
+ * Price and award a newly submitted load from its shipper's contract, if one
+ * covers the lane. Returns null when no contract applies so the load goes
+ * through admin pricing as usual.
+ */
+export async function applyContractRate(loadId: string, actingAdminId?: string): Promise<ContractApplyResult | null> {
+  const load = await storage.getLoad(loadId);
+  if (!load || !CONTRACT_APPLICABLE_STATUSES.includes((load.status || "draft") as LoadStatus)) return null;
+
+  const contract = await findContractForLoad(load);
+  if (!contract) return null;
+
+  const adminId = actingAdminId || (await storage.getAdmins())[0]?.id;
+  if (!adminId) {
+    return { loadId, contractId: contract.id, awarded: false, reason: "No admin to award the load" };
+  }
+
+  const adminReferenceNumber = load.adminReferenceNumber || await storage.getNextAdminReferenceNumber(load.shipperId);
+  await storage.updateLoad(loadId, {
+    adminSuggestedPrice: contract.shipperRate,
+    adminFinalPrice: contract.shipperRate,
+    adminPostMode: "assign",
+    adminId,
+    allowCounterBids: false,
+    contractRateId: contract.id,
+    adminReferenceNumber,
+    postedAt: new Date(),
+  });
+
+  const note = `Contract rate "${contract.name}"`;
+  if (load.status === "pending") {
+    const priced = await transitionLoadState(loadId, "priced", adminId, note);
+    if (!priced.success) return { loadId, contractId: contract.id, awarded: false, reason: priced.error || "Couldn't price load" };
+  }
+  const posted = await transitionLoadState(loadId, "posted_to_carriers", adminId, note);
+  if (!posted.success) return { loadId, contractId: contract.id, awarded: false, reason: posted.error || "Couldn't post load" };
+
+  const result = await awardToNextContractCarrier(loadId, contract, adminId);
+
+  await storage.createNotification({
+    userId: load.shipperId,
+    title: result.awarded ? "Load Booked on Contract" : "Load Priced on Contract",
+    message: result.awarded
+      ? `Your load from ${load.pickupCity} to ${load.dropoffCity} was booked at your contract rate of ${formatRs(parseFloat(contract.shipperRate))}.`
+      : `Your load from ${load.pickupCity} to ${load.dropoffCity} is priced at your contract rate of ${formatRs(parseFloat(contract.shipperRate))} and posted to carriers.`,
+    type: "success",
+    relatedLoadId: loadId,
+  });
+
+  return result;
+}
+
+/**
+ * Carrier declines a contract load before pickup. The award is unwound (bid
+ * rejected, shipment removed, load back to open_for_bid) and the next carrier
+ * on the contract is tried.
+ */
+export async function declineContractLoad(
+  loadId: string,
+  carrierId: string,
+  reason: string
+): Promise<{ success: boolean; error?: string; result?: ContractApplyResult }> {
+  const load = await storage.getLoad(loadId);
+  if (!load || !load.contractRateId) return { success: false, error: "Not a contract load" };
+  if (load.assignedCarrierId !== carrierId) return { success: false, error: "Load is not assigned to you" };
+  if (!CONTRACT_DECLINABLE_STATUSES.includes((load.status || "draft") as LoadStatus)) {
+    return { success: false, error: `Load can no longer be declined (status: ${load.status})` };
+  }
+
+  const assignments = await storage.getContractLoadAssignmentsByLoad(loadId);
+  const assignment = assignments.find((row) => row.carrierId === carrierId && row.status === "awarded");
+  if (!assignment) return { success: false, error: "No contract award to decline" };
+
+  const shipment = await storage.getShipmentByLoad(loadId);
+  if (shipment) {
+    const events = await storage.getShipmentEvents(shipment.id);
+    if (shipment.status !== "pickup_scheduled" || events.length > 0) {
+      return { success: false, error: "Trip has already started" };
+    }
+  }
+
+  const contract = await storage.getContractRate(load.contractRateId);
+  if (!contract) return { success: false, error: "Contract not found" };
+  const adminId = load.adminId || (await storage.getAdmins())[0]?.id;
+  if (!adminId) return { success: false, error: "No admin to reassign the load" };
+
+  await storage.updateContractLoadAssignment(assignment.id, {
+    status: "declined",
+    declineReason: reason,
+    respondedAt: new Date(),
+  });
+  if (assignment.bidId) {
+    await storage.updateBid(assignment.bidId, { status: "rejected", notes: `Declined by carrier: ${reason}` });
+  }
+  if (shipment) await storage.deleteShipment(shipment.id);
+
+  if (load.status === "invoice_created") {
+    await transitionLoadState(loadId, "awarded", carrierId, `Contract load declined by carrier: ${reason}`);
+  }
+  const reopened = await transitionLoadState(loadId, "open_for_bid", carrierId, "Contract award unwound");
+  if (!reopened.success) return { success: false, error: reopened.error || "Couldn't reopen load" };
+
+  await storage.updateLoad(loadId, {
+    assignedCarrierId: null,
+    assignedTruckId: null,
+    awardedBidId: null,
+    awardedAt: null,
+    pickupId: null,
+  });
+  await storage.createAuditLog({
+    adminId,
+    loadId,
+    actionType: "contract_declined",
+    actionDescription: `Contract carrier declined: ${reason}`,
+    metadata: { contractId: contract.id, carrierId, bidId: assignment.bidId },
+  });
+
+  const result = await awardToNextContractCarrier(loadId, contract, adminId);
+  return { success: true, result };
+}
+
+function countByStatus(assignments: ContractLoadAssignment[], status: string): number {
+  return assignments.filter((assignment) => assignment.status === status).length;
+}
+
+/**
+ * Loads awarded in the current commitment period against what the shipper
+ * committed to, per contract, with the carrier split.
+ */
+export async function getContractUtilisation(filters: { shipperId?: string } = {}, at: Date = new Date()): Promise<ContractUtilisation[]> {
+  const contracts = await storage.getContractRates({ shipperId: filters.shipperId });
+  const userNames = new Map<string, string>();
+  const nameOf = async (userId: string) => {
+    if (!userNames.has(userId)) {
+      const user = await storage.getUser(userId);
+      userNames.set(userId, user?.companyName || user?.username || "Unknown");
+    }
+    return userNames.get(userId)!;
+  };
+
+  return Promise.all(contracts.map(async (contract) => {
+    const periodStart = getCommitmentPeriodStart(contract, at);
+    const assignments = await storage.getContractLoadAssignmentsByContract(contract.id, periodStart);
+    const carriers = await storage.getContractRateCarriers(contract.id);
+    const awardedLoads = countByStatus(assignments, "awarded");
+    const committedLoads = contract.committedLoads || 0;
+
+    return {
+      contractId: contract.id,
+      name: contract.name,
+      shipperId: contract.shipperId,
+      shipperName: await nameOf(contract.shipperId),
+      lane: `${contract.pickupCity} to ${contract.dropoffCity}`,
+      truckType: contract.truckType,
+      status: contract.status,
+      validFrom: contract.validFrom,
+      validUntil: contract.validUntil,
+      commitmentPeriod: (contract.commitmentPeriod || "monthly") as ContractCommitmentPeriod,
+      periodStart,
+      committedLoads,
+      awardedLoads,
+      utilisationPercent: committedLoads > 0 ? Math.round((awardedLoads / committedLoads) * 100) : null,
+      declines: countByStatus(assignments, "declined"),
+      fallbacks: countByStatus(assignments, "fallback"),
+      carriers: await Promise.all(carriers.map(async (carrier) => ({
+        carrierId: carrier.carrierId,
+        carrierName: await nameOf(carrier.carrierId),
+        carrierRate: parseFloat(carrier.carrierRate),
+        priority: carrier.priority ?? 1,
+        maxLoadsPerPeriod: carrier.maxLoadsPerPeriod,
+        awardedLoads: assignments.filter((assignment) => assignment.carrierId === carrier.carrierId && assignment.status === "awarded").length,
+      }))),
+    };
+  }));
+}
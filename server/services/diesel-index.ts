@@ -0,0 +1,220 @@
+import { storage } from "../storage";
+import { resolveStateAbbreviation } from "@shared/tax";
+import { calculateDieselAdjustment, NATIONAL_DIESEL_REGION, type DieselAdjustmentResult } from "@shared/fuel";
+import type { Load } from "@shared/schema";
+
+/**
+ * Diesel Price Index
+ *
+ * Admins import daily Rs./litre rates per state (or IN for the national
+ * average) as CSV. Loads are priced against the index for their pickup state
+ * on the pricing date; the diesel adjustment on the invoice is the delta to
+ * the index on the pickup date, applied to the litres the trip needs.
+ *
+ * CSV columns: date, region, price_per_litre (header row optional).
+ * Dates may be YYYY-MM-DD or DD-MM-YYYY / DD/MM/YYYY.
+ */
+
+export interface DieselIndexCsvRow {
+  effectiveDate: Date;
+  region: string;
+  pricePerLitre: number;
+}
+
+export interface DieselIndexQuote {
+  region: string;
+  pricePerLitre: number;
+  effectiveDate: Date;
+}
+
+export interface LoadDieselAdjustment extends DieselAdjustmentResult {
+  loadId: string;
+  region: string;
+  distanceKm: number;
+  pricingIndex: DieselIndexQuote | null;
+  pickupIndex: DieselIndexQuote | null;
+  // Pickup is still ahead, so today's index stands in for the pickup-date index
+  provisional: boolean;
+}
+
+// Sanity bounds for imported rates
+const MIN_PRICE_PER_LITRE = 50;
+const MAX_PRICE_PER_LITRE = 200;
+
+function parseIndexDate(value: string): Date | null {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  }
+  match = trimmed.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+  if (match) {
+    return new Date(Date.UTC(Number(match[3]), Number(match[2]) - 1, Number(match[1])));
+  }
+  return null;
+}
+
+function normalizeRegion(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (["in", "india", "all india", "national"].includes(trimmed.toLowerCase())) {
+    return NATIONAL_DIESEL_REGION;
+  }
+  return resolveStateAbbreviation(trimmed);
+}
+
+/**
+ * Parse a diesel index CSV, collecting per-line errors instead of failing the file
+ */
+export function parseDieselIndexCsv(csv: string): { rows: DieselIndexCsvRow[]; errors: { line: number; error: string }[] } {
+  const rows: DieselIndexCsvRow[] = [];
+  const errors: { line: number; error: string }[] = [];
+
+  csv.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (!line || line.startsWith("#")) return;
+
+    const [dateCell = "", regionCell = "", priceCell = ""] = line.split(",").map(cell => cell.trim().replace(/^"|"$/g, ""));
+    if (index === 0 && /date/i.test(dateCell)) return; // header
+
+    const effectiveDate = parseIndexDate(dateCell);
+    if (!effectiveDate) {
+      errors.push({ line: lineNumber, error: `Invalid date "${dateCell}"` });
+      return;
+    }
+
+    const region = normalizeRegion(regionCell);
+    if (!region) {
+      errors.push({ line: lineNumber, error: `Unknown region "${regionCell}"` });
+      return;
+    }
+
+    const pricePerLitre = parseFloat(priceCell.replace(/[^0-9.]/g, ""));
+    if (isNaN(pricePerLitre) || pricePerLitre < MIN_PRICE_PER_LITRE || pricePerLitre > MAX_PRICE_PER_LITRE) {
+      errors.push({ line: lineNumber, error: `Price "${priceCell}" is outside Rs. ${MIN_PRICE_PER_LITRE}-${MAX_PRICE_PER_LITRE}/litre` });
+      return;
+    }
+
+    rows.push({ effectiveDate, region, pricePerLitre });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Import a CSV into the index; rows already present for a region/date are replaced
+ */
+export async function importDieselIndexCsv(
+  csv: string,
+  userId: string,
+  source?: string | null
+): Promise<{ success: boolean; error?: string; imported: number; errors: { line: number; error: string }[] }> {
+  const { rows, errors } = parseDieselIndexCsv(csv);
+  if (rows.length === 0) {
+    return { success: false, error: "No valid rows found in CSV", imported: 0, errors };
+  }
+
+  for (const row of rows) {
+    await storage.upsertDieselIndexEntry({
+      effectiveDate: row.effectiveDate,
+      region: row.region,
+      pricePerLitre: row.pricePerLitre.toFixed(2),
+      source: source || "csv_import",
+      importedBy: userId,
+    });
+  }
+
+  return { success: true, imported: rows.length, errors };
+}
+
+async function getRegionQuote(region: string, at: Date): Promise<DieselIndexQuote | null> {
+  const entry = await storage.getDieselIndexPrice(region, at);
+  return entry
+    ? { region: entry.region, pricePerLitre: parseFloat(entry.pricePerLitre), effectiveDate: entry.effectiveDate }
+    : null;
+}
+
+/**
+ * Index in force for a region on a date, falling back to the national average
+ */
+export async function getDieselIndexQuote(region: string | null, at: Date = new Date()): Promise<DieselIndexQuote | null> {
+  const regions = region && region !== NATIONAL_DIESEL_REGION ? [region, NATIONAL_DIESEL_REGION] : [NATIONAL_DIESEL_REGION];
+  for (const candidate of regions) {
+    const quote = await getRegionQuote(candidate, at);
+    if (quote) return quote;
+  }
+  return null;
+}
+
+export function getLoadDieselRegion(load: Pick<Load, "pickupState">): string {
+  return resolveStateAbbreviation(load.pickupState) || NATIONAL_DIESEL_REGION;
+}
+
+/**
+ * Diesel adjustment for a load: index on the pickup date minus the index the
+ * price was set against
+ */
+export async function getLoadDieselAdjustment(
+  loadId: string
+): Promise<{ success: boolean; error?: string; adjustment?: LoadDieselAdjustment }> {
+  const load = await storage.getLoad(loadId);
+  if (!load) {
+    return { success: false, error: "Load not found" };
+  }
+
+  const region = getLoadDieselRegion(load);
+  const pricing = await storage.getAdminPricingByLoad(loadId);
+
+  const now = new Date();
+  const pickupDate = load.pickupDate ? new Date(load.pickupDate) : now;
+  const provisional = pickupDate > now;
+  const pickupAt = provisional ? now : pickupDate;
+
+  // Both quotes come from one region, or the delta would compare a state price
+  // with the national one. The region the price was set against is kept; with
+  // no region covering both dates there is no adjustment.
+  let pricingIndex: DieselIndexQuote | null = null;
+  let pickupIndex: DieselIndexQuote | null = null;
+  if (pricing?.dieselIndexPrice) {
+    const pricedRegion = pricing.dieselIndexRegion || region;
+    pricingIndex = {
+      region: pricedRegion,
+      pricePerLitre: parseFloat(pricing.dieselIndexPrice),
+      effectiveDate: pricing.createdAt || new Date(),
+    };
+    pickupIndex = await getRegionQuote(pricedRegion, pickupAt);
+  } else {
+    const pricedAt = new Date(load.priceLockedAt || pricing?.createdAt || load.createdAt || now);
+    const candidates = region !== NATIONAL_DIESEL_REGION ? [region, NATIONAL_DIESEL_REGION] : [NATIONAL_DIESEL_REGION];
+    for (const candidate of candidates) {
+      const [priced, pickup] = await Promise.all([getRegionQuote(candidate, pricedAt), getRegionQuote(candidate, pickupAt)]);
+      pricingIndex = priced;
+      pickupIndex = pickup;
+      if (priced && pickup) break;
+    }
+  }
+
+  const distanceKm = parseFloat(load.distance || "0") || 0;
+  const result = pricingIndex && pickupIndex
+    ? calculateDieselAdjustment({
+        distanceKm,
+        truckType: load.requiredTruckType,
+        pricingIndexPrice: pricingIndex.pricePerLitre,
+        pickupIndexPrice: pickupIndex.pricePerLitre,
+      })
+    : calculateDieselAdjustment({ distanceKm, truckType: load.requiredTruckType, pricingIndexPrice: 0, pickupIndexPrice: 0 });
+
+  return {
+    success: true,
+    adjustment: {
+      ...result,
+      loadId,
+      region: pricingIndex?.region || region,
+      distanceKm,
+      pricingIndex,
+      pickupIndex,
+      provisional,
+    },
+  };
+}
@@ -0,0 +1,268 @@
+import { storage } from "../storage";
+import { findHighwayRoute, resolveRoutePoint } from "./highway-graph";
+
+/**
+ * Road Distance
+ *
+ * Distances come from an ordered list of DistanceProviders; the first one to
+ * return a route wins. The offline highway graph needs no network access and
+ * is always last in line, so routes resolve even without a maps API key.
+ *
+ * Providers are chosen by environment:
+ *   DISTANCE_PROVIDERS  comma list of google | osrm | offline
+ *                       (default: google when GOOGLE_MAPS_API_KEY is set, then offline)
+ *   GOOGLE_MAPS_API_KEY Google Distance Matrix
+ *   OSRM_BASE_URL       OSRM server (default: public demo server, geocoded via Nominatim)
+ *
+ * Results are cached in Postgres (route_distance_cache) per normalised
+ * origin/destination pair so restarts don't re-hit paid APIs.
+ */
+
+export interface DistanceResult {
+  distanceKm: number;
+  durationSeconds: number;
+  provider: string;
+  originResolved?: string;
+  destinationResolved?: string;
+  via?: string[];
+}
+
+export interface DistanceProvider {
+  readonly name: string;
+  getDistance(origin: string, destination: string): Promise<DistanceResult | null>;
+}
+
+const DISTANCE_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+function withCountry(location: string): string {
+  const normalized = location.trim();
+  return normalized.toLowerCase().includes("india") ? normalized : `${normalized}, India`;
+}
+
+export class OfflineGraphProvider implements DistanceProvider {
+  readonly name = "offline_graph";
+
+  async getDistance(origin: string, destination: string): Promise<DistanceResult | null> {
+    const from = resolveRoutePoint(origin);
+    const to = resolveRoutePoint(destination);
+    if (!from || !to || from.label === to.label) return null;
+
+    const route = findHighwayRoute(from, to);
+    if (!route) return null;
+
+    return {
+      distanceKm: route.distanceKm,
+      durationSeconds: route.durationSeconds,
+      provider: this.name,
+      originResolved: from.label,
+      destinationResolved: to.label,
+      via: route.via,
+    };
+  }
+}
+
+export class GoogleMapsDistanceProvider implements DistanceProvider {
+  readonly name = "google_maps";
+
+  constructor(private apiKey: string) {}
+
+  async getDistance(origin: string, destination: string): Promise<DistanceResult | null> {
+    const apiUrl = new URL("https://maps.googleapis.com/maps/api/distancematrix/json");
+    apiUrl.searchParams.set("origins", withCountry(origin));
+    apiUrl.searchParams.set("destinations", withCountry(destination));
+    apiUrl.searchParams.set("mode", "driving");
+    apiUrl.searchParams.set("units", "metric");
+    apiUrl.searchParams.set("key", this.apiKey);
+
+    const response = await fetch(apiUrl.toString());
+    const data = await response.json();
+
+    if (data.status !== "OK" || data.rows?.[0]?.elements?.[0]?.status !== "OK") {
+      return null;
+    }
+
+    const element = data.rows[0].elements[0];
+    return {
+      distanceKm: Math.round(element.distance.value / 1000),
+      durationSeconds: element.duration.value,
+      provider: this.name,
+      originResolved: data.origin_addresses?.[0],
+      destinationResolved: data.destination_addresses?.[0],
+    };
+  }
+}
+
+export class OsrmDistanceProvider implements DistanceProvider {
+  readonly name = "osrm";
+
+  // Geocode cache to reduce Nominatim calls
+  private geocodeCache = new Map<string, { lat: number; lng: number; timestamp: number }>();
+  private static GEOCODE_CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+  constructor(private baseUrl: string = "https://router.project-osrm.org") {}
+
+  private async geocode(location: string): Promise<{ lat: number; lng: number } | null> {
+    // Known cities don't need a Nominatim round trip
+    const known = resolveRoutePoint(location);
+    if (known) return { lat: known.lat, lng: known.lng };
+
+    const cacheKey = location.toLowerCase().trim();
+    const cached = this.geocodeCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < OsrmDistanceProvider.GEOCODE_CACHE_TTL) {
+      return { lat: cached.lat, lng: cached.lng };
+    }
+
+    const url = new URL("https://nominatim.openstreetmap.org/search");
+    url.searchParams.set("q", withCountry(location));
+    url.searchParams.set("format", "json");
+    url.searchParams.set("limit", "1");
+
+    const response = await fetch(url.toString(), {
+      headers: { "User-Agent": "LoadSmart/1.0 (logistics platform)" },
+    });
+    const data = await response.json();
+    if (!data || data.length === 0) return null;
+
+    const result = { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) };
+    this.geocodeCache.set(cacheKey, { ...result, timestamp: Date.now() });
+    return result;
+  }
+
+  async getDistance(origin: string, destination: string): Promise<DistanceResult | null> {
+    const [from, to] = await Promise.all([this.geocode(origin), this.geocode(destination)]);
+    if (!from || !to) return null;
+
+    const response = await fetch(
+      `${this.baseUrl}/route/v1/driving/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false`,
+      { headers: { "User-Agent": "LoadSmart/1.0 (logistics platform)" } }
+    );
+    const data = await response.json();
+    if (data.code !== "Ok" || !data.routes?.length) return null;
+
+    return {
+      distanceKm: Math.round(data.routes[0].distance / 1000),
+      durationSeconds: Math.round(data.routes[0].duration),
+      provider: this.name,
+    };
+  }
+}
+
+function createDefaultProviders(): DistanceProvider[] {
+  const configured = (process.env.DISTANCE_PROVIDERS || (process.env.GOOGLE_MAPS_API_KEY ? "google,offline" : "offline"))
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: DistanceProvider[] = [];
+  for (const name of configured) {
+    if (name === "google") {
+      if (process.env.GOOGLE_MAPS_API_KEY) {
+        providers.push(new GoogleMapsDistanceProvider(process.env.GOOGLE_MAPS_API_KEY));
+      } else {
+        console.warn("[Distance] google provider requested but GOOGLE_MAPS_API_KEY is not set");
+      }
+    } else if (name === "osrm") {
+      providers.push(new OsrmDistanceProvider(process.env.OSRM_BASE_URL || undefined));
+    } else if (name === "offline") {
+      providers.push(new OfflineGraphProvider());
+    } else {
+      console.warn(`[Distance] Unknown distance provider "${name}"`);
+    }
+  }
+
+  if (!providers.some(p => p instanceof OfflineGraphProvider)) {
+    providers.push(new OfflineGraphProvider());
+  }
+  return providers;
+}
+
+let providers: DistanceProvider[] | null = null;
+
+function getProviders(): DistanceProvider[] {
+  if (!providers) {
+    providers = createDefaultProviders();
+  }
+  return providers;
+}
+
+export function setDistanceProviders(next: DistanceProvider[]): void {
+  providers = next;
+}
+
+// Cache key uses the canonical "City, ST" form when the city is known
+function normalizeLocation(location: string): string {
+  const point = resolveRoutePoint(location);
+  return (point ? point.label : location).toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Human readable driving time ("5h 30m", "2 days")
+ */
+export function formatDuration(durationSeconds: number): string {
+  const hours = Math.floor(durationSeconds / 3600);
+  const minutes = Math.floor((durationSeconds % 3600) / 60);
+  if (hours >= 24) {
+    const days = Math.floor(hours / 10); // Assume 10 hours driving per day
+    return `${days} day${days > 1 ? "s" : ""}`;
+  } else if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  } else {
+    return `${minutes} mins`;
+  }
+}
+
+/**
+ * Road distance between two locations, served from the cache when possible
+ */
+export async function calculateRoadDistance(
+  origin: string,
+  destination: string
+): Promise<{ success: boolean; error?: string; result?: DistanceResult; cached?: boolean }> {
+  const routeKey = `${normalizeLocation(origin)}|${normalizeLocation(destination)}`;
+
+  try {
+    const cached = await storage.getRouteDistanceCache(routeKey);
+    if (cached) {
+      return {
+        success: true,
+        cached: true,
+        result: {
+          distanceKm: parseFloat(cached.distanceKm),
+          durationSeconds: cached.durationSeconds,
+          provider: cached.provider,
+          via: (cached.via as string[] | null) || undefined,
+        },
+      };
+    }
+  } catch (error) {
+    console.error("[Distance] Cache lookup failed:", error);
+  }
+
+  for (const provider of getProviders()) {
+    let result: DistanceResult | null = null;
+    try {
+      result = await provider.getDistance(origin, destination);
+    } catch (error) {
+      console.error(`[Distance] ${provider.name} failed for ${origin} -> ${destination}:`, error);
+    }
+    if (!result) continue;
+
+    try {
+      await storage.upsertRouteDistanceCache({
+        routeKey,
+        origin,
+        destination,
+        distanceKm: result.distanceKm.toString(),
+        durationSeconds: result.durationSeconds,
+        provider: result.provider,
+        via: result.via || null,
+        expiresAt: new Date(Date.now() + DISTANCE_CACHE_TTL_MS),
+      });
+    } catch (error) {
+      console.error("[Distance] Failed to cache route:", error);
+    }
+    return { success: true, cached: false, result };
+  }
+
+  return { success: false, error: "No route found between these locations" };
+}
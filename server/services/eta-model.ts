@@ -0,0 +1,546 @@
+import { storage } from "../storage";
+import { haversineKm } from "@shared/indian-locations";
+import { findHighwayRoute, resolveRoutePoint, ROAD_CIRCUITY_FACTOR, type RoutePoint } from "./highway-graph";
+import { broadcastToUser } from "../websocket-marketplace";
+import type {
+  EtaPrediction,
+  EtaSpeedProfile,
+  EtaTimeBand,
+  InsertEtaSpeedProfile,
+  Load,
+  LoadStop,
+  RouteEtaPrediction,
+  Shipment,
+} from "@shared/schema";
+
+/**
+ * Historical ETA Model
+ *
+ * Learns how fast loads actually move from the breadcrumbs of delivered
+ * shipments. Each trip's trail is cut into hour-long samples of distance
+ * covered over time elapsed, so fuel halts, checkposts and night rests are
+ * in the average, not just cruising speed. Samples are pooled per lane
+ * (pickup state to dropoff state), time-of-day band and truck type; sparse
+ * combinations fall back to coarser pools, then to DEFAULT_BAND_SPEEDS.
+ *
+ * An ETA walks the remaining highway distance, through any stops not yet
+ * completed, forward through the bands at the profile's mean speed and at
+ * mean ∓ CONFIDENCE_Z standard deviations for the interval. The first
+ * estimate for a trip, from the pickup through every stop at trip start, is
+ * kept as originalEta; the shipper hears about it when the current estimate
+ * slips DELAY_NOTIFY_MINUTES past that.
+ *
+ * Profiles live in eta_speed_profiles so every instance predicts from the
+ * same model; train_eta_model rebuilds them.
+ */
+
+export interface ArrivalEstimate {
+  eta: Date;
+  lowerBound: Date;
+  upperBound: Date;
+  expectedSpeedKmh: number;
+  modelBasis: string;
+  sampleCount: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const IST_OFFSET_MS = 5.5 * HOUR;
+const BAND_HOURS = 6;
+
+const TRAINING_WINDOW_DAYS = 180;
+const SAMPLE_WINDOW_MS = HOUR;
+// A shorter stretch before a signal gap still counts, a few minutes doesn't
+const MIN_SAMPLE_MS = 20 * MINUTE;
+// Longer gaps are lost signal, not time the truck spent on the road
+const MAX_FIX_GAP_MS = 30 * MINUTE;
+const MAX_SAMPLE_SPEED_KMH = 100;
+const MIN_PROFILE_SAMPLES = 8;
+
+// 80% interval
+const CONFIDENCE_Z = 1.28;
+const MIN_SPEED_KMH = 8;
+const PROFILE_REFRESH_MS = 30 * MINUTE;
+const ETA_REFRESH_MS = 5 * MINUTE;
+// Trips that stop reporting (cancelled, or the tracker went dark) are dropped from memory after this
+const ETA_IDLE_MS = 12 * HOUR;
+const OBSERVED_SPEED_WINDOW_MS = 30 * MINUTE;
+const DELAY_NOTIFY_MINUTES = 60;
+// Tell the shipper again only when it slips this much further
+const DELAY_RENOTIFY_STEP_MINUTES = 60;
+
+const ANY = "*";
+
+// Until there's history: Indian FTL averages including halts, slower at night
+const DEFAULT_BAND_SPEEDS: Record<EtaTimeBand, number> = {
+  night: 28,
+  morning: 38,
+  afternoon: 40,
+  evening: 34,
+};
+const DEFAULT_STDDEV_KMH = 12;
+
+// ============================================================================
+// TIME BANDS
+// ============================================================================
+
+const BANDS: EtaTimeBand[] = ["night", "morning", "afternoon", "evening"];
+
+function timeBandAt(time: Date): EtaTimeBand {
+  const istHour = new Date(time.getTime() + IST_OFFSET_MS).getUTCHours();
+  return BANDS[Math.floor(istHour / BAND_HOURS)];
+}
+
+function nextBandStart(time: Date): Date {
+  const bandMs = BAND_HOURS * HOUR;
+  const ist = time.getTime() + IST_OFFSET_MS;
+  return new Date((Math.floor(ist / bandMs) + 1) * bandMs - IST_OFFSET_MS);
+}
+
+function laneKey(load: Load): string | null {
+  return load.pickupState && load.dropoffState ? `${load.pickupState}>${load.dropoffState}` : null;
+}
+
+// ============================================================================
+// TRAINING
+// ============================================================================
+
+interface SpeedSample {
+  speedKmh: number;
+  band: EtaTimeBand;
+}
+
+/**
+ * Hour-long (distance, time) samples from one trip's trail, oldest first
+ */
+function sampleTripSpeeds(trail: { lat: number; lng: number; recordedAt: Date }[]): SpeedSample[] {
+  const samples: SpeedSample[] = [];
+  let windowStart: Date | null = null;
+  let km = 0;
+  let ms = 0;
+
+  const emit = (minMs: number) => {
+    if (windowStart && ms >= minMs) {
+      const speedKmh = km / (ms / HOUR);
+      if (speedKmh <= MAX_SAMPLE_SPEED_KMH) samples.push({ speedKmh, band: timeBandAt(windowStart) });
+    }
+    windowStart = null;
+    km = 0;
+    ms = 0;
+  };
+
+  for (let i = 1; i < trail.length; i++) {
+    const gap = trail[i].recordedAt.getTime() - trail[i - 1].recordedAt.getTime();
+    if (gap <= 0) continue;
+    if (gap > MAX_FIX_GAP_MS) {
+      emit(MIN_SAMPLE_MS);
+      continue;
+    }
+    windowStart = windowStart || trail[i - 1].recordedAt;
+    km += haversineKm(trail[i - 1], trail[i]);
+    ms += gap;
+    if (ms >= SAMPLE_WINDOW_MS) emit(SAMPLE_WINDOW_MS);
+  }
+  emit(MIN_SAMPLE_MS);
+  return samples;
+}
+
+interface ProfileAccumulator {
+  lane: string;
+  timeBand: EtaTimeBand;
+  truckType: string;
+  count: number;
+  sum: number;
+  sumSquares: number;
+  trips: Set<string>;
+}
+
+/**
+ * Rebuild the speed profiles from delivered shipments of the last
+ * TRAINING_WINDOW_DAYS. Run by the train_eta_model job.
+ */
+export async function trainEtaModel(now: Date = new Date()): Promise<{ trips: number; samples: number; profiles: number }> {
+  const since = new Date(now.getTime() - TRAINING_WINDOW_DAYS * 24 * HOUR);
+  const shipments = await storage.getDeliveredShipmentsSince(since);
+  const accumulators: Map<string, ProfileAccumulator> = new Map();
+  let trips = 0;
+  let sampleTotal = 0;
+
+  const add = (lane: string, timeBand: EtaTimeBand, truckType: string, shipmentId: string, speedKmh: number) => {
+    const key = `${lane}|${timeBand}|${truckType}`;
+    let acc = accumulators.get(key);
+    if (!acc) {
+      acc = { lane, timeBand, truckType, count: 0, sum: 0, sumSquares: 0, trips: new Set() };
+      accumulators.set(key, acc);
+    }
+    acc.count++;
+    acc.sum += speedKmh;
+    acc.sumSquares += speedKmh * speedKmh;
+    acc.trips.add(shipmentId);
+  };
+
+  for (const shipment of shipments) {
+    const load = await storage.getLoad(shipment.loadId);
+    if (!load) continue;
+    const breadcrumbs = await storage.getGpsBreadcrumbsByLoad(load.id);
+    const samples = sampleTripSpeeds(breadcrumbs
+      .filter((crumb) => crumb.recordedAt)
+      .map((crumb) => ({ lat: parseFloat(crumb.lat), lng: parseFloat(crumb.lng), recordedAt: crumb.recordedAt! })));
+    if (samples.length === 0) continue;
+
+    const truck = shipment.truckId ? await storage.getTruck(shipment.truckId) : undefined;
+    const truckType = truck?.truckType || load.requiredTruckType || null;
+    const lane = laneKey(load);
+    trips++;
+    sampleTotal += samples.length;
+
+    for (const sample of samples) {
+      add(ANY, sample.band, ANY, shipment.id, sample.speedKmh);
+      if (truckType) add(ANY, sample.band, truckType, shipment.id, sample.speedKmh);
+      if (lane) add(lane, sample.band, ANY, shipment.id, sample.speedKmh);
+      if (lane && truckType) add(lane, sample.band, truckType, shipment.id, sample.speedKmh);
+    }
+  }
+
+  const profiles: InsertEtaSpeedProfile[] = [];
+  accumulators.forEach((acc) => {
+    if (acc.count < MIN_PROFILE_SAMPLES) return;
+    const mean = acc.sum / acc.count;
+    const variance = Math.max(0, (acc.sumSquares - acc.count * mean * mean) / (acc.count - 1));
+    profiles.push({
+      lane: acc.lane,
+      timeBand: acc.timeBand,
+      truckType: acc.truckType,
+      sampleCount: acc.count,
+      tripCount: acc.trips.size,
+      meanSpeedKmh: mean.toFixed(2),
+      stddevSpeedKmh: Math.sqrt(variance).toFixed(2),
+    });
+  });
+
+  const saved = await storage.replaceEtaSpeedProfiles(profiles);
+  profileCache = null;
+  return { trips, samples: sampleTotal, profiles: saved };
+}
+
+// ============================================================================
+// PREDICTION
+// ============================================================================
+
+let profileCache: { loadedAt: number; byKey: Map<string, EtaSpeedProfile> } | null = null;
+
+async function getProfiles(): Promise<Map<string, EtaSpeedProfile>> {
+  if (!profileCache || Date.now() - profileCache.loadedAt > PROFILE_REFRESH_MS) {
+    const byKey: Map<string, EtaSpeedProfile> = new Map();
+    for (const profile of await storage.getEtaSpeedProfiles()) {
+      byKey.set(`${profile.lane}|${profile.timeBand}|${profile.truckType}`, profile);
+    }
+    profileCache = { loadedAt: Date.now(), byKey };
+  }
+  return profileCache.byKey;
+}
+
+interface BandSpeed {
+  meanKmh: number;
+  stddevKmh: number;
+  basis: string;
+  sampleCount: number;
+}
+
+function bandSpeed(profiles: Map<string, EtaSpeedProfile>, lane: string | null, band: EtaTimeBand, truckType: string | null): BandSpeed {
+  const candidates: [string | null, string | null, string][] = [
+    [lane, truckType, "lane+truck"],
+    [lane, ANY, "lane"],
+    [ANY, truckType, "truck"],
+    [ANY, ANY, "all trips"],
+  ];
+  for (const [candidateLane, candidateTruck, basis] of candidates) {
+    if (!candidateLane || !candidateTruck) continue;
+    const profile = profiles.get(`${candidateLane}|${band}|${candidateTruck}`);
+    if (profile) {
+      return {
+        meanKmh: parseFloat(profile.meanSpeedKmh),
+        stddevKmh: parseFloat(profile.stddevSpeedKmh),
+        basis,
+        sampleCount: profile.sampleCount,
+      };
+    }
+  }
+  return { meanKmh: DEFAULT_BAND_SPEEDS[band], stddevKmh: DEFAULT_STDDEV_KMH, basis: "default", sampleCount: 0 };
+}
+
+// Time to cover the distance from departAt, band by band, with speeds shifted by z standard deviations
+function walkBands(
+  profiles: Map<string, EtaSpeedProfile>,
+  distanceKm: number,
+  departAt: Date,
+  lane: string | null,
+  truckType: string | null,
+  z: number
+): Date {
+  let remaining = distanceKm;
+  let time = departAt;
+  // A month of bands is far past any domestic trip; stops a runaway loop on bad input
+  for (let step = 0; step < 120 && remaining > 0; step++) {
+    const speed = bandSpeed(profiles, lane, timeBandAt(time), truckType);
+    const kmh = Math.max(MIN_SPEED_KMH, speed.meanKmh + z * speed.stddevKmh);
+    const bandEnd = nextBandStart(time);
+    const reachable = kmh * ((bandEnd.getTime() - time.getTime()) / HOUR);
+    if (reachable >= remaining) {
+      return new Date(time.getTime() + (remaining / kmh) * HOUR);
+    }
+    remaining -= reachable;
+    time = bandEnd;
+  }
+  return time;
+}
+
+/**
+ * Arrival estimate with an 80% interval for a load's remaining distance
+ */
+export async function estimateArrival(
+  distanceKm: number,
+  departAt: Date,
+  load: Load,
+  truckType: string | null
+): Promise<ArrivalEstimate> {
+  const profiles = await getProfiles();
+  const lane = laneKey(load);
+  const current = bandSpeed(profiles, lane, timeBandAt(departAt), truckType);
+  return {
+    eta: walkBands(profiles, distanceKm, departAt, lane, truckType, 0),
+    lowerBound: walkBands(profiles, distanceKm, departAt, lane, truckType, CONFIDENCE_Z),
+    upperBound: walkBands(profiles, distanceKm, departAt, lane, truckType, -CONFIDENCE_Z),
+    expectedSpeedKmh: current.meanKmh,
+    modelBasis: current.basis,
+    sampleCount: current.sampleCount,
+  };
+}
+
+/**
+ * Label a measured speed against what the model expects at that hour. Stops
+ * read as "stopped", not as traffic.
+ */
+export function describeTraffic(observedKmh: number | null, expectedKmh: number): string {
+  if (observedKmh === null) return "unknown";
+  if (observedKmh < 5) return "stopped";
+  const ratio = observedKmh / expectedKmh;
+  return ratio >= 0.8 ? "clear" : ratio >= 0.5 ? "moderate" : "heavy";
+}
+
+// For callers that can't wait on the database; uses whatever profiles are already loaded
+export function expectedSpeedNow(now: Date = new Date()): number {
+  return bandSpeed(profileCache?.byKey || new Map(), null, timeBandAt(now), null).meanKmh;
+}
+
+// ============================================================================
+// TRIP ETAS
+// ============================================================================
+
+// Latest estimate per load for the live telemetry source, and the wall-clock time it was made
+const latestEtas: Map<string, EtaPrediction> = new Map();
+const lastEstimatedAt: Map<string, number> = new Map();
+const lastTouchedAt: Map<string, number> = new Map();
+
+function dropoffPoint(load: Load): RoutePoint | null {
+  const lat = load.dropoffLat ? parseFloat(load.dropoffLat) : NaN;
+  const lng = load.dropoffLng ? parseFloat(load.dropoffLng) : NaN;
+  if (!isNaN(lat) && !isNaN(lng)) return { lat, lng, label: load.dropoffCity };
+  return resolveRoutePoint(load.dropoffCity, load.dropoffState);
+}
+
+function pickupPoint(load: Load): RoutePoint | null {
+  const lat = load.pickupLat ? parseFloat(load.pickupLat) : NaN;
+  const lng = load.pickupLng ? parseFloat(load.pickupLng) : NaN;
+  if (!isNaN(lat) && !isNaN(lng)) return { lat, lng, label: load.pickupCity };
+  return resolveRoutePoint(load.pickupCity, load.pickupState);
+}
+
+function stopPoint(stop: LoadStop): RoutePoint | null {
+  const lat = stop.lat ? parseFloat(stop.lat) : NaN;
+  const lng = stop.lng ? parseFloat(stop.lng) : NaN;
+  if (!isNaN(lat) && !isNaN(lng)) return { lat, lng, label: stop.city };
+  return resolveRoutePoint(stop.city, stop.state);
+}
+
+function roadDistanceKm(from: RoutePoint, to: RoutePoint): number {
+  const route = findHighwayRoute(from, to);
+  return route ? route.distanceKm : haversineKm(from, to) * ROAD_CIRCUITY_FACTOR;
+}
+
+// Sum of the legs in order; sites that can't be located are left out
+function routeDistanceKm(points: (RoutePoint | null)[]): number {
+  const located = points.filter((point): point is RoutePoint => point !== null);
+  let km = 0;
+  for (let i = 1; i < located.length; i++) km += roadDistanceKm(located[i - 1], located[i]);
+  return km;
+}
+
+/**
+ * The trip's sites in visiting order: pickup and dropoff, or every stop of a
+ * multi-stop load. `done` marks stops already completed.
+ */
+async function tripSites(load: Load): Promise<{ point: RoutePoint | null; done: boolean }[]> {
+  if (!load.isMultiStop) {
+    return [{ point: pickupPoint(load), done: true }, { point: dropoffPoint(load), done: false }];
+  }
+  const stops = await storage.getLoadStops(load.id);
+  return stops.map((stop) => ({ point: stopPoint(stop), done: stop.status === "completed" }));
+}
+
+function expireIdleTripEtas(now: number): void {
+  lastTouchedAt.forEach((touchedAt, loadId) => {
+    if (now - touchedAt >= ETA_IDLE_MS) clearTripEta(loadId);
+  });
+}
+
+/**
+ * Forget a load's cached estimate once its trip is over
+ */
+export function clearTripEta(loadId: string): void {
+  latestEtas.delete(loadId);
+  lastEstimatedAt.delete(loadId);
+  lastTouchedAt.delete(loadId);
+}
+
+async function observedSpeedKmh(vehicleId: string, at: Date): Promise<number | null> {
+  const trail = await storage.getGpsBreadcrumbsInRange(vehicleId, new Date(at.getTime() - OBSERVED_SPEED_WINDOW_MS), at);
+  if (trail.length < 2) return null;
+  const first = trail[0].recordedAt!;
+  const last = trail[trail.length - 1].recordedAt!;
+  const hours = (last.getTime() - first.getTime()) / HOUR;
+  // Too short a stretch to say anything about the road
+  if (hours < 10 / 60) return null;
+  let km = 0;
+  for (let i = 1; i < trail.length; i++) {
+    km += haversineKm(
+      { lat: parseFloat(trail[i - 1].lat), lng: parseFloat(trail[i - 1].lng) },
+      { lat: parseFloat(trail[i].lat), lng: parseFloat(trail[i].lng) }
+    );
+  }
+  return km / hours;
+}
+
+function formatDelay(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} hr` : `${hours} hr ${minutes % 60} min`;
+}
+
+async function notifyDelay(load: Load, stored: RouteEtaPrediction, currentEta: Date, delayMinutes: number): Promise<void> {
+  const etaLabel = currentEta.toLocaleString("en-IN", {
+    timeZone: "Asia/Kolkata",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  await storage.createNotification({
+    userId: load.shipperId,
+    title: "Delivery Running Late",
+    message: `${load.pickupCity} to ${load.dropoffCity} is now expected around ${etaLabel}, about ${formatDelay(delayMinutes)} later than estimated at pickup.`,
+    type: "warning",
+    relatedLoadId: load.id,
+    contextType: "load",
+  });
+  broadcastToUser(load.shipperId, {
+    type: "eta_delay",
+    loadId: load.id,
+    currentEta: currentEta.toISOString(),
+    originalEta: stored.originalEta?.toISOString(),
+    delayMinutes,
+  });
+}
+
+/**
+ * Re-estimate a trip's arrival from its latest fix, at most every
+ * ETA_REFRESH_MS. Stores the estimate, keeps the shipment's ETA current and
+ * warns the shipper when the delay crosses DELAY_NOTIFY_MINUTES.
+ */
+export async function updateTripEta(
+  shipment: Shipment,
+  vehicleId: string,
+  truckType: string | null,
+  position: { lat: number; lng: number; recordedAt: Date }
+): Promise<EtaPrediction | null> {
+  expireIdleTripEtas(Date.now());
+  const last = lastEstimatedAt.get(shipment.loadId);
+  if (last && position.recordedAt.getTime() - last < ETA_REFRESH_MS) return latestEtas.get(shipment.loadId) || null;
+
+  const load = await storage.getLoad(shipment.loadId);
+  if (!load) return null;
+  if (load.status === "cancelled") {
+    clearTripEta(load.id);
+    return null;
+  }
+  const sites = await tripSites(load);
+  if (!sites[sites.length - 1]?.point) return null;
+  lastEstimatedAt.set(load.id, position.recordedAt.getTime());
+  lastTouchedAt.set(load.id, Date.now());
+
+  const remaining = sites.filter((site) => !site.done).map((site) => site.point);
+  const distanceRemaining = routeDistanceKm([{ ...position, label: "Current position" }, ...remaining]);
+  const estimate = await estimateArrival(distanceRemaining, position.recordedAt, load, truckType);
+
+  let stored = await storage.getRouteEtaPrediction(load.id);
+  if (!stored) {
+    // Fixed once, from the pickup through every stop at trip start, whenever the first fix arrives
+    const startedAt = shipment.startedAt || position.recordedAt;
+    const original = sites[0].point
+      ? (await estimateArrival(routeDistanceKm(sites.map((site) => site.point)), startedAt, load, truckType)).eta
+      : estimate.eta;
+    stored = await storage.createRouteEtaPrediction({ loadId: load.id, vehicleId, originalEta: original });
+  }
+
+  const originalEta = stored.originalEta || estimate.eta;
+  const delayMinutes = Math.max(0, Math.round((estimate.eta.getTime() - originalEta.getTime()) / MINUTE));
+  const worstCaseDelay = Math.round((estimate.upperBound.getTime() - originalEta.getTime()) / MINUTE);
+  const delayRisk: EtaPrediction["delayRisk"] =
+    delayMinutes >= DELAY_NOTIFY_MINUTES ? "high" : delayMinutes >= 15 || worstCaseDelay >= DELAY_NOTIFY_MINUTES ? "medium" : "low";
+  const trafficCondition = describeTraffic(await observedSpeedKmh(vehicleId, position.recordedAt), estimate.expectedSpeedKmh);
+
+  const shouldNotify = delayMinutes >= DELAY_NOTIFY_MINUTES &&
+    (stored.notifiedDelayMinutes === null || delayMinutes >= stored.notifiedDelayMinutes + DELAY_RENOTIFY_STEP_MINUTES);
+  if (shouldNotify) await notifyDelay(load, stored, estimate.eta, delayMinutes);
+
+  await storage.updateRouteEtaPrediction(stored.id, {
+    vehicleId,
+    distanceRemaining: distanceRemaining.toFixed(2),
+    currentEta: estimate.eta,
+    etaLowerBound: estimate.lowerBound,
+    etaUpperBound: estimate.upperBound,
+    delayMinutes,
+    delayRisk,
+    trafficCondition,
+    // No weather feed or alternative routing yet; say so rather than guess
+    weatherCondition: "unknown",
+    betterRouteAvailable: false,
+    modelBasis: estimate.modelBasis,
+    sampleCount: estimate.sampleCount,
+    ...(shouldNotify ? { notifiedDelayMinutes: delayMinutes } : {}),
+  });
+  await storage.updateShipment(shipment.id, { eta: estimate.eta });
+
+  const prediction: EtaPrediction = {
+    loadId: load.id,
+    vehicleId,
+    currentEta: estimate.eta.toISOString(),
+    originalEta: originalEta.toISOString(),
+    delayMinutes,
+    delayRisk,
+    distanceRemaining: Math.round(distanceRemaining),
+    distanceUnit: "km",
+    trafficCondition,
+    weatherCondition: "unknown",
+    betterRouteAvailable: false,
+    etaLowerBound: estimate.lowerBound.toISOString(),
+    etaUpperBound: estimate.upperBound.toISOString(),
+    modelBasis: estimate.modelBasis,
+  };
+  latestEtas.set(load.id, prediction);
+  return prediction;
+}
+
+export function getLatestTripEta(loadId: string): EtaPrediction | null {
+  return latestEtas.get(loadId) || null;
+}
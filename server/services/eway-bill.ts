@@ -0,0 +1,269 @@
+import { randomInt } from "crypto";
+import { storage } from "../storage";
+import { calculateEwayBillValidity, loadRequiresEwayBill } from "@shared/tax";
+import type { EwayBill, Load } from "@shared/schema";
+
+/**
+ * E-way Bill Service
+ *
+ * Generates / records e-way bills for loads whose goods value exceeds the
+ * threshold, enforces them before a load goes in transit, and warns carriers
+ * and admins when validity is about to lapse mid-trip.
+ *
+ * The government portal sits behind EwayBillProvider; the local provider
+ * issues fake 12-digit numbers so the flow can be exercised without it.
+ */
+
+export interface EwayBillGenerateRequest {
+  load: Load;
+  goodsValue: number;
+  distanceKm: number;
+  vehicleNumber?: string | null;
+  validFrom: Date;
+  validUntil: Date;
+}
+
+export interface EwayBillProviderResult {
+  ewayBillNumber: string;
+  validFrom: Date;
+  validUntil: Date;
+  raw?: Record<string, unknown>;
+}
+
+export interface EwayBillProvider {
+  readonly name: string;
+  generate(request: EwayBillGenerateRequest): Promise<EwayBillProviderResult>;
+  extendValidity(ewayBill: EwayBill, remainingDistanceKm: number, reason: string): Promise<EwayBillProviderResult>;
+  cancel(ewayBill: EwayBill, reason: string): Promise<void>;
+}
+
+export class LocalEwayBillProvider implements EwayBillProvider {
+  readonly name = "local";
+
+  async generate(request: EwayBillGenerateRequest): Promise<EwayBillProviderResult> {
+    return {
+      ewayBillNumber: String(randomInt(100000, 999999)) + String(randomInt(100000, 999999)),
+      validFrom: request.validFrom,
+      validUntil: request.validUntil,
+      raw: { stub: true },
+    };
+  }
+
+  async extendValidity(ewayBill: EwayBill, remainingDistanceKm: number, reason: string): Promise<EwayBillProviderResult> {
+    const { validFrom, validUntil } = calculateEwayBillValidity(remainingDistanceKm, new Date());
+    return {
+      ewayBillNumber: ewayBill.ewayBillNumber,
+      validFrom,
+      validUntil,
+      raw: { stub: true, reason },
+    };
+  }
+
+  async cancel(): Promise<void> {}
+}
+
+let provider: EwayBillProvider = new LocalEwayBillProvider();
+
+export function getEwayBillProvider(): EwayBillProvider {
+  return provider;
+}
+
+export function setEwayBillProvider(next: EwayBillProvider): void {
+  provider = next;
+}
+
+const EWAY_BILL_NUMBER_PATTERN = /^[0-9]{12}$/;
+
+// Warn this long before validity lapses on an active trip
+const EXPIRY_WARNING_HOURS = 6;
+// A lapsed bill can still be extended this long after it expired; after that it needs a new bill
+const EXTENSION_GRACE_HOURS = 8;
+const EXTENDABLE_STATUSES = ["active", "extended", "expired"];
+
+function formatIst(date: Date): string {
+  return date.toLocaleString("en-IN", { timeZone: "Asia/Kolkata" });
+}
+
+function toNumber(value: string | null | undefined): number {
+  const num = parseFloat(value || "0");
+  return isNaN(num) ? 0 : num;
+}
+
+/**
+ * Generate an e-way bill through the provider, or record one generated
+ * outside the platform when ewayBillNumber is supplied
+ */
+export async function issueEwayBill(
+  loadId: string,
+  userId: string,
+  options: { ewayBillNumber?: string; vehicleNumber?: string | null } = {}
+): Promise<{ success: boolean; error?: string; ewayBill?: EwayBill }> {
+  const load = await storage.getLoad(loadId);
+  if (!load) {
+    return { success: false, error: "Load not found" };
+  }
+
+  if (options.ewayBillNumber && !EWAY_BILL_NUMBER_PATTERN.test(options.ewayBillNumber)) {
+    return { success: false, error: "E-way bill number must be 12 digits" };
+  }
+
+  const existing = await storage.getActiveEwayBillForLoad(loadId);
+  if (existing) {
+    await storage.updateEwayBill(existing.id, { status: "cancelled" });
+    if (existing.provider === provider.name) {
+      try {
+        await provider.cancel(existing, "Replaced by new e-way bill");
+      } catch (error) {
+        console.error(`[EwayBill] Failed to cancel ${existing.ewayBillNumber} with provider:`, error);
+      }
+    }
+  }
+
+  const distanceKm = toNumber(load.distance);
+  const goodsValue = toNumber(load.goodsValue);
+  const { validFrom, validUntil } = calculateEwayBillValidity(distanceKm);
+
+  let vehicleNumber = options.vehicleNumber || null;
+  if (!vehicleNumber && load.assignedTruckId) {
+    const truck = await storage.getTruck(load.assignedTruckId);
+    vehicleNumber = truck?.licensePlate || null;
+  }
+
+  let result: EwayBillProviderResult;
+  let providerName = provider.name;
+  if (options.ewayBillNumber) {
+    result = { ewayBillNumber: options.ewayBillNumber, validFrom, validUntil };
+    providerName = "manual";
+  } else {
+    result = await provider.generate({ load, goodsValue, distanceKm, vehicleNumber, validFrom, validUntil });
+  }
+
+  const ewayBill = await storage.createEwayBill({
+    loadId,
+    ewayBillNumber: result.ewayBillNumber,
+    provider: providerName,
+    goodsValue: load.goodsValue,
+    distanceKm: load.distance,
+    vehicleNumber,
+    validFrom: result.validFrom,
+    validUntil: result.validUntil,
+    status: "active",
+    generatedBy: userId,
+    providerResponse: result.raw || null,
+  });
+
+  await syncEwayBillToLoad(load, ewayBill);
+
+  return { success: true, ewayBill };
+}
+
+/**
+ * Extend validity of the load's e-way bill for the remaining distance. A bill
+ * that already expired can be extended within EXTENSION_GRACE_HOURS.
+ */
+export async function extendEwayBill(
+  loadId: string,
+  remainingDistanceKm: number,
+  reason: string
+): Promise<{ success: boolean; error?: string; ewayBill?: EwayBill }> {
+  const load = await storage.getLoad(loadId);
+  if (!load) {
+    return { success: false, error: "Load not found" };
+  }
+
+  const existing = (await storage.getEwayBillsByLoad(loadId)).find((bill) => EXTENDABLE_STATUSES.includes(bill.status || ""));
+  if (!existing) {
+    return { success: false, error: "No active e-way bill for this load" };
+  }
+  const graceEnd = new Date(existing.validUntil).getTime() + EXTENSION_GRACE_HOURS * 60 * 60 * 1000;
+  if (graceEnd < Date.now()) {
+    return {
+      success: false,
+      error: `E-way bill ${existing.ewayBillNumber} expired more than ${EXTENSION_GRACE_HOURS} hours ago. Generate a new one instead.`,
+    };
+  }
+
+  const result = await provider.extendValidity(existing, remainingDistanceKm, reason);
+  const ewayBill = await storage.updateEwayBill(existing.id, {
+    validUntil: result.validUntil,
+    status: "extended",
+    extensionCount: (existing.extensionCount || 0) + 1,
+    expiryWarningSentAt: null,
+    providerResponse: result.raw || existing.providerResponse,
+  });
+
+  if (ewayBill) {
+    await syncEwayBillToLoad(load, ewayBill);
+  }
+  return { success: true, ewayBill };
+}
+
+async function syncEwayBillToLoad(load: Load, ewayBill: EwayBill): Promise<void> {
+  await storage.updateLoad(load.id, {
+    ewayBillRequired: loadRequiresEwayBill(load),
+    ewayBillNumber: ewayBill.ewayBillNumber,
+    ewayBillValidUntil: ewayBill.validUntil,
+  });
+
+  const invoice = await storage.getInvoiceByLoad(load.id);
+  if (invoice) {
+    await storage.updateInvoice(invoice.id, {
+      ewayBillRequired: true,
+      ewayBillNumber: ewayBill.ewayBillNumber,
+      ewayBillValidUntil: ewayBill.validUntil,
+    });
+  }
+}
+
+/**
+ * Warn carrier and admins about e-way bills lapsing on loads still in transit,
+ * and expire the ones that already lapsed
+ */
+export async function checkEwayBillExpiry(now: Date = new Date()): Promise<{ warned: number; expired: number }> {
+  const horizon = new Date(now.getTime() + EXPIRY_WARNING_HOURS * 60 * 60 * 1000);
+  const expiring = await storage.getActiveEwayBillsExpiringBefore(horizon);
+  let warned = 0;
+  let expired = 0;
+  let admins: { id: string }[] | null = null;
+
+  for (const ewayBill of expiring) {
+    const load = await storage.getLoad(ewayBill.loadId);
+    if (!load) continue;
+
+    const validUntil = new Date(ewayBill.validUntil);
+    if (validUntil <= now) {
+      await storage.updateEwayBill(ewayBill.id, { status: "expired" });
+      expired++;
+    }
+
+    // Only trips still on the road need a warning
+    if (load.status !== "in_transit" || ewayBill.expiryWarningSentAt) continue;
+
+    if (!admins) {
+      admins = (await storage.getAllUsers()).filter(u => u.role === "admin");
+    }
+
+    const lapsed = validUntil <= now;
+    const title = lapsed ? "E-way Bill Expired" : "E-way Bill Expiring";
+    const message = lapsed
+      ? `E-way bill ${ewayBill.ewayBillNumber} for load ${load.pickupCity} to ${load.dropoffCity} expired at ${formatIst(validUntil)}. Extend it within ${EXTENSION_GRACE_HOURS} hours before continuing the trip.`
+      : `E-way bill ${ewayBill.ewayBillNumber} for load ${load.pickupCity} to ${load.dropoffCity} expires at ${formatIst(validUntil)}. Extend validity if the trip will not complete in time.`;
+
+    const recipients = [load.assignedCarrierId, ...admins.map(a => a.id)].filter((id): id is string => !!id);
+    for (const userId of recipients) {
+      await storage.createNotification({
+        userId,
+        title,
+        message,
+        type: "warning",
+        relatedLoadId: load.id,
+        contextType: "load",
+      });
+    }
+
+    await storage.updateEwayBill(ewayBill.id, { expiryWarningSentAt: now });
+    warned++;
+  }
+
+  return { warned, expired };
+}
@@ -0,0 +1,246 @@
+import { storage } from "../storage";
+import { haversineKm } from "@shared/indian-locations";
+import { resolveRoutePoint } from "./highway-graph";
+import { broadcastMarketplaceEvent, broadcastToUser } from "../websocket-marketplace";
+import type { Geofence, GeofenceType, InsertGeofence, Load, Shipment } from "@shared/schema";
+
+/**
+ * Geofencing
+ *
+ * Every load gets a fence around its pickup and dropoff (and each stop of a
+ * multi-stop load) made from its geocoded address (site-geocoding); shippers
+ * and admins can add checkpoints on top. Each telemetry fix on the trip is
+ * checked against them, and entries and exits go on the shipment timeline
+ * with the time spent inside. The shipper and admins hear about it live.
+ *
+ * A truck has to get EXIT_MARGIN beyond the radius before it counts as gone,
+ * so one parked on the edge doesn't flap in and out. Sites without
+ * coordinates get no fence; a city centroid is too coarse to say "on site".
+ */
+
+export interface GeofencePoint {
+  lat: number;
+  lng: number;
+  recordedAt: Date;
+}
+
+const SITE_RADIUS_M = 500;
+export const CHECKPOINT_RADIUS_M = 300;
+const EXIT_MARGIN = 1.2;
+// Stops saved before sites were geocoded carry their city's centre
+const CITY_CENTRE_MATCH_KM = 0.05;
+
+// ============================================================================
+// LOAD FENCES
+// ============================================================================
+
+function toCoordinate(value: string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+async function buildSiteFences(load: Load): Promise<InsertGeofence[]> {
+  const fences: InsertGeofence[] = [];
+  const addFence = (
+    geofenceType: GeofenceType,
+    name: string,
+    site: { lat: string | null; lng: string | null; city: string; state: string | null },
+    stopId: string | null = null
+  ) => {
+    const lat = toCoordinate(site.lat);
+    const lng = toCoordinate(site.lng);
+    if (lat === null || lng === null) return;
+    const centre = resolveRoutePoint(site.city, site.state);
+    if (centre && haversineKm({ lat, lng }, centre) < CITY_CENTRE_MATCH_KM) return;
+    fences.push({ loadId: load.id, stopId, geofenceType, name, lat: site.lat!, lng: site.lng!, radiusMeters: SITE_RADIUS_M });
+  };
+
+  if (load.isMultiStop) {
+    const stops = await storage.getLoadStops(load.id);
+    stops.forEach((stop, index) => {
+      const geofenceType: GeofenceType = index === 0 ? "pickup" : index === stops.length - 1 ? "dropoff" : "stop";
+      const label = geofenceType === "stop" ? `Stop ${stop.sequence}` : geofenceType === "pickup" ? "Pickup" : "Dropoff";
+      addFence(geofenceType, `${label}: ${stop.businessName || stop.city}`, stop, stop.id);
+    });
+  } else {
+    addFence("pickup", `Pickup: ${load.pickupBusinessName || load.pickupCity}`,
+      { lat: load.pickupLat, lng: load.pickupLng, city: load.pickupCity, state: load.pickupState });
+    addFence("dropoff", `Dropoff: ${load.dropoffBusinessName || load.dropoffCity}`,
+      { lat: load.dropoffLat, lng: load.dropoffLng, city: load.dropoffCity, state: load.dropoffState });
+  }
+  return fences;
+}
+
+/**
+ * A load's fences, creating the site fences the first time they're needed.
+ */
+export async function getLoadGeofences(load: Load): Promise<Geofence[]> {
+  const existing = await storage.getGeofencesByLoad(load.id);
+  if (existing.some((fence) => fence.geofenceType !== "checkpoint")) return existing;
+
+  const created: Geofence[] = [];
+  for (const fence of await buildSiteFences(load)) {
+    created.push(await storage.createGeofence(fence));
+  }
+  return [...created, ...existing];
+}
+
+function sameSpot(fence: Geofence, site: InsertGeofence): boolean {
+  return toCoordinate(fence.lat) === toCoordinate(site.lat) && toCoordinate(fence.lng) === toCoordinate(site.lng);
+}
+
+/**
+ * Bring a load's site fences in line with its coordinates after its sites are
+ * geocoded again. Fences on an unchanged spot keep their state; moved ones are
+ * replaced and checkpoints are left alone. Loads without site fences yet are
+ * skipped, since getLoadGeofences builds them from the new coordinates.
+ */
+export async function refreshSiteFences(loadId: string): Promise<void> {
+  const load = await storage.getLoad(loadId);
+  if (!load) return;
+  const remaining = (await storage.getGeofencesByLoad(loadId)).filter((fence) => fence.geofenceType !== "checkpoint");
+  if (remaining.length === 0) return;
+
+  for (const site of await buildSiteFences(load)) {
+    const index = remaining.findIndex((fence) =>
+      fence.geofenceType === site.geofenceType && (fence.stopId || null) === (site.stopId || null)
+    );
+    const current = index >= 0 ? remaining.splice(index, 1)[0] : null;
+    if (current && sameSpot(current, site)) {
+      if (current.name !== site.name) await storage.updateGeofence(current.id, { name: site.name });
+      continue;
+    }
+    if (current) await storage.deleteGeofence(current.id);
+    await storage.createGeofence(site);
+  }
+  for (const stale of remaining) {
+    await storage.deleteGeofence(stale.id);
+  }
+}
+
+/**
+ * When the load's truck entered the fence for an OTP step, if it's still
+ * inside. Stop fences are matched by stop, site fences by type.
+ */
+export async function getOnSiteSince(loadId: string, geofenceType: GeofenceType, stopId?: string | null): Promise<Date | null> {
+  const fences = await storage.getGeofencesByLoad(loadId);
+  const fence = fences.find((candidate) =>
+    candidate.geofenceType === geofenceType && (!stopId || candidate.stopId === stopId)
+  );
+  return fence?.isInside ? fence.enteredAt : null;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function formatDwell(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} hr` : `${hours} hr ${minutes % 60} min`;
+}
+
+function formatFixTime(time: Date): string {
+  return time.toLocaleTimeString("en-IN", { timeZone: "Asia/Kolkata", hour: "2-digit", minute: "2-digit" });
+}
+
+async function recordTransition(
+  shipment: Shipment,
+  load: Load,
+  fence: Geofence,
+  point: GeofencePoint,
+  dwellMinutes: number | null
+): Promise<void> {
+  const entered = dwellMinutes === null;
+  const notes = entered
+    ? `Arrived at ${fence.name} at ${formatFixTime(point.recordedAt)}`
+    : `Left ${fence.name} at ${formatFixTime(point.recordedAt)} after ${formatDwell(dwellMinutes)}`;
+
+  await storage.createShipmentEvent({
+    shipmentId: shipment.id,
+    eventType: entered ? "geofence_enter" : "geofence_exit",
+    location: fence.name,
+    lat: point.lat.toFixed(7),
+    lng: point.lng.toFixed(7),
+    notes,
+    geofenceId: fence.id,
+    dwellMinutes,
+  });
+
+  await storage.createNotification({
+    userId: load.shipperId,
+    title: entered ? "Truck Arrived" : "Truck Departed",
+    message: `${notes} (${load.pickupCity} to ${load.dropoffCity}).`,
+    type: "info",
+    relatedLoadId: load.id,
+    contextType: "load",
+  });
+
+  const event = {
+    shipmentId: shipment.id,
+    loadId: load.id,
+    geofenceId: fence.id,
+    geofenceType: fence.geofenceType,
+    name: fence.name,
+    transition: entered ? "enter" : "exit",
+    dwellMinutes,
+    recordedAt: point.recordedAt.toISOString(),
+  };
+  broadcastToUser(load.shipperId, { type: "geofence_event", ...event });
+  broadcastMarketplaceEvent("geofence_event", event);
+}
+
+/**
+ * Run a trip's fixes (oldest first) through the load's fences. Fixes older
+ * than the last one a fence saw are late history and are skipped, so replays
+ * and out-of-order batches don't invent visits.
+ */
+export async function evaluateGeofences(shipment: Shipment, points: GeofencePoint[]): Promise<void> {
+  if (points.length === 0) return;
+  const load = await storage.getLoad(shipment.loadId);
+  if (!load) return;
+
+  const fences = await getLoadGeofences(load);
+  let status = shipment.status;
+
+  for (const fence of fences) {
+    const center = { lat: parseFloat(fence.lat), lng: parseFloat(fence.lng) };
+    const state = {
+      isInside: !!fence.isInside,
+      enteredAt: fence.enteredAt,
+      exitedAt: fence.exitedAt,
+      lastPointAt: fence.lastPointAt,
+    };
+
+    for (const point of points) {
+      if (state.lastPointAt && point.recordedAt <= state.lastPointAt) continue;
+      state.lastPointAt = point.recordedAt;
+      const distanceM = haversineKm(point, center) * 1000;
+
+      if (!state.isInside && distanceM <= fence.radiusMeters) {
+        state.isInside = true;
+        state.enteredAt = point.recordedAt;
+        await recordTransition(shipment, load, fence, point, null);
+        if (fence.geofenceType === "checkpoint" && status === "in_transit") status = "at_checkpoint";
+      } else if (state.isInside && distanceM > fence.radiusMeters * EXIT_MARGIN) {
+        const dwellMinutes = state.enteredAt
+          ? Math.max(0, Math.round((point.recordedAt.getTime() - state.enteredAt.getTime()) / 60000))
+          : 0;
+        state.isInside = false;
+        state.exitedAt = point.recordedAt;
+        await recordTransition(shipment, load, fence, point, dwellMinutes);
+        if (fence.geofenceType === "checkpoint" && status === "at_checkpoint") status = "in_transit";
+      }
+    }
+
+    if (state.lastPointAt !== fence.lastPointAt) {
+      await storage.updateGeofence(fence.id, state);
+    }
+  }
+
+  // Checkpoints are the one milestone without an OTP gate, so telemetry moves it
+  if (status !== shipment.status) {
+    await storage.updateShipment(shipment.id, { status });
+  }
+}
@@ -0,0 +1,221 @@
+import OpenAI from "openai";
+
+/**
+ * Help Bot Model Providers
+ *
+ * The help bot talks to its language model through HelpBotModelProvider so the
+ * chat loop doesn't care who answers. A provider gets the conversation plus the
+ * tools the user may call and returns either text, tool calls, or both.
+ *
+ *   OpenAIHelpBotProvider    OpenAI-compatible chat completions (streams text)
+ *   ScriptedHelpBotProvider  deterministic stand-in for local runs and tests
+ *
+ * HELPBOT_MODEL_PROVIDER picks one (openai | scripted); the default is openai
+ * when AI_INTEGRATIONS_OPENAI_API_KEY is set, scripted otherwise.
+ */
+
+export interface HelpBotToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON object as produced by the model
+}
+
+export type HelpBotChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: HelpBotToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+export interface HelpBotToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON schema
+}
+
+export interface HelpBotModelTurn {
+  content: string;
+  toolCalls: HelpBotToolCall[];
+}
+
+export interface HelpBotModelProvider {
+  readonly name: string;
+  complete(
+    messages: HelpBotChatMessage[],
+    tools: HelpBotToolSpec[],
+    onContent?: (delta: string) => void
+  ): Promise<HelpBotModelTurn>;
+}
+
+export class OpenAIHelpBotProvider implements HelpBotModelProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(private model: string = "gpt-5.1") {
+    this.client = new OpenAI({
+      apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+      baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+    });
+  }
+
+  async complete(
+    messages: HelpBotChatMessage[],
+    tools: HelpBotToolSpec[],
+    onContent?: (delta: string) => void
+  ): Promise<HelpBotModelTurn> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: messages.map(toOpenAIMessage),
+      tools: tools.length > 0
+        ? tools.map((tool) => ({
+            type: "function" as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          }))
+        : undefined,
+      stream: true,
+      max_completion_tokens: 1024,
+    });
+
+    let content = "";
+    // Tool call fragments arrive spread over chunks, keyed by index
+    const calls = new Map<number, HelpBotToolCall>();
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onContent?.(delta.content);
+      }
+      for (const fragment of delta.tool_calls || []) {
+        const call = calls.get(fragment.index) || { id: "", name: "", arguments: "" };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        calls.set(fragment.index, call);
+      }
+    }
+
+    return { content, toolCalls: Array.from(calls.values()) };
+  }
+}
+
+function toOpenAIMessage(message: HelpBotChatMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === "assistant" && message.toolCalls?.length) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function" as const,
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+export type ScriptedHelpBotStep = (messages: HelpBotChatMessage[], tools: HelpBotToolSpec[]) => HelpBotModelTurn;
+
+/**
+ * Canned replies without a model. Given a list of turns it plays them back in
+ * order; given a function it asks that; with neither it uses a keyword script
+ * that calls the obvious tool and reads back the result.
+ */
+export class ScriptedHelpBotProvider implements HelpBotModelProvider {
+  readonly name = "scripted";
+  private turnIndex = 0;
+
+  constructor(private script?: HelpBotModelTurn[] | ScriptedHelpBotStep) {}
+
+  async complete(
+    messages: HelpBotChatMessage[],
+    tools: HelpBotToolSpec[],
+    onContent?: (delta: string) => void
+  ): Promise<HelpBotModelTurn> {
+    let turn: HelpBotModelTurn;
+    if (Array.isArray(this.script)) {
+      turn = this.script[this.turnIndex++] || { content: "", toolCalls: [] };
+    } else {
+      turn = (this.script || keywordScript)(messages, tools);
+    }
+
+    if (turn.content) {
+      onContent?.(turn.content);
+    }
+    return turn;
+  }
+}
+
+function keywordScript(messages: HelpBotChatMessage[], tools: HelpBotToolSpec[]): HelpBotModelTurn {
+  const last = messages[messages.length - 1];
+
+  if (last?.role === "tool") {
+    const results = [];
+    for (let i = messages.length - 1; i >= 0 && messages[i].role === "tool"; i--) {
+      results.unshift(messages[i].content);
+    }
+    return { content: `Here's what I found: ${results.join(" ")}`, toolCalls: [] };
+  }
+
+  const text = last?.role === "user" ? last.content.toLowerCase() : "";
+  const available = new Set(tools.map((tool) => tool.name));
+  const call = (name: string, args: Record<string, unknown> = {}): HelpBotModelTurn => ({
+    content: "",
+    toolCalls: [{ id: `scripted_${name}`, name, arguments: JSON.stringify(args) }],
+  });
+
+  const loadNumber = text.match(/\bld-?\s*(\d+)/i)?.[1];
+  const invoiceNumber = text.match(/\b(inv[-\w]*\d[-\w]*)/i)?.[1];
+
+  if (loadNumber && /eta|arriv|where|reach|late/.test(text) && available.has("get_shipment_eta")) {
+    return call("get_shipment_eta", { loadNumber: `LD-${loadNumber}` });
+  }
+  if (/invoice|overdue|payment/.test(text) && available.has("get_invoice_status")) {
+    return call("get_invoice_status", invoiceNumber
+      ? { invoiceNumber: invoiceNumber.toUpperCase() }
+      : loadNumber ? { loadNumber: `LD-${loadNumber}` } : {});
+  }
+  if (loadNumber && available.has("get_load_status")) {
+    return call("get_load_status", { loadNumber: `LD-${loadNumber}` });
+  }
+  if (/otp/.test(text) && available.has("get_pending_otp_requests")) {
+    return call("get_pending_otp_requests");
+  }
+  if (/verif|approv|onboard|document/.test(text) && available.has("get_verification_status")) {
+    return call("get_verification_status");
+  }
+
+  return {
+    content: "I can look up your loads, shipment ETAs, invoices, verification and OTP requests. What do you need?",
+    toolCalls: [],
+  };
+}
+
+function createDefaultProvider(): HelpBotModelProvider {
+  const configured = (process.env.HELPBOT_MODEL_PROVIDER ||
+    (process.env.AI_INTEGRATIONS_OPENAI_API_KEY ? "openai" : "scripted")).toLowerCase();
+
+  if (configured === "openai") {
+    return new OpenAIHelpBotProvider(process.env.HELPBOT_MODEL || undefined);
+  }
+  if (configured !== "scripted") {
+    console.warn(`[HelpBot] Unknown model provider "${configured}", using scripted replies`);
+  }
+  return new ScriptedHelpBotProvider();
+}
+
+let provider: HelpBotModelProvider | null = null;
+
+export function getHelpBotModelProvider(): HelpBotModelProvider {
+  if (!provider) {
+    provider = createDefaultProvider();
+  }
+  return provider;
+}
+
+export function setHelpBotModelProvider(next: HelpBotModelProvider): void {
+  provider = next;
+}
@@ -0,0 +1,307 @@
+import { storage } from "../storage";
+import { canUserAccessLoad } from "../workflow-service";
+import { getEtaPrediction } from "../telemetry-hub";
+import { escalateConversation } from "./support-tickets";
+import type { HelpBotToolSpec, HelpBotToolCall } from "./helpbot-model";
+import { supportTicketCategories, supportTicketPriorities } from "@shared/schema";
+import type { Invoice, Load, User, UserRole } from "@shared/schema";
+
+/**
+ * Help Bot Tools
+ *
+ * Lookups the help bot can make on behalf of the signed-in user. Each tool
+ * lists the roles that may call it and applies the same access rules as the
+ * matching REST route, so the bot can never show a user more than their own
+ * pages would. Guests get no tools. The only tool that writes anything is
+ * escalate_to_support, which opens a support ticket for the conversation.
+ *
+ * Results go back to the model as JSON. Lookups that fail or aren't allowed
+ * return { error } worded so the bot can pass it on; "not found" and "not
+ * yours" read the same so the bot doesn't reveal other accounts' records.
+ */
+
+export interface HelpBotToolContext {
+  user: User | null | undefined;
+  conversationId: number;
+}
+
+interface HelpBotTool {
+  spec: HelpBotToolSpec;
+  roles: UserRole[];
+  run(user: User, args: Record<string, any>, conversationId: number): Promise<unknown>;
+}
+
+const MAX_LIST_RESULTS = 10;
+const UNPAID_INVOICE_STATUSES = ["sent", "viewed", "approved", "acknowledged", "negotiating", "revised", "overdue"];
+
+function formatLoadNumber(load: Load): string {
+  return `LD-${String(load.shipperLoadNumber || 0).padStart(3, "0")}`;
+}
+
+// Accepts "LD-042", "ld 42" or "42"
+function parseLoadNumber(value: unknown): number | null {
+  const match = String(value ?? "").match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+async function findAccessibleLoad(user: User, loadNumberArg: unknown): Promise<{ load?: Load; error?: string }> {
+  const loadNumber = parseLoadNumber(loadNumberArg);
+  if (loadNumber === null) {
+    return { error: "Please give a load number like LD-042" };
+  }
+  const label = `LD-${String(loadNumber).padStart(3, "0")}`;
+  const load = await storage.getLoadByShipperLoadNumber(loadNumber);
+  if (!load || !(await canUserAccessLoad(user.id, load.id))) {
+    return { error: `No load ${label} found on this account` };
+  }
+  return { load };
+}
+
+function summarizeInvoice(invoice: Invoice, now: Date = new Date()) {
+  const unpaid = UNPAID_INVOICE_STATUSES.includes(invoice.status || "");
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    status: invoice.status,
+    totalAmount: invoice.totalAmount,
+    paymentTerms: invoice.paymentTerms,
+    dueDate: invoice.dueDate,
+    overdue: unpaid && !!invoice.dueDate && invoice.dueDate < now,
+    sentAt: invoice.sentAt,
+    paidAt: invoice.paidAt,
+  };
+}
+
+const tools: HelpBotTool[] = [
+  {
+    spec: {
+      name: "get_load_status",
+      description: "Current status, route and dates of a load, looked up by its load number (e.g. LD-042).",
+      parameters: {
+        type: "object",
+        properties: { loadNumber: { type: "string", description: "Load number such as LD-042" } },
+        required: ["loadNumber"],
+      },
+    },
+    roles: ["shipper", "carrier", "admin"],
+    async run(user, args) {
+      const { load, error } = await findAccessibleLoad(user, args.loadNumber);
+      if (!load) return { error };
+      return {
+        loadNumber: formatLoadNumber(load),
+        status: load.status,
+        pickupCity: load.pickupCity,
+        dropoffCity: load.dropoffCity,
+        pickupDate: load.pickupDate,
+        deliveryDate: load.deliveryDate,
+        statusChangedAt: load.statusChangedAt,
+        carrierAssigned: !!load.assignedCarrierId,
+      };
+    },
+  },
+  {
+    spec: {
+      name: "get_shipment_eta",
+      description: "Where a shipment is and when it is expected to arrive, by load number.",
+      parameters: {
+        type: "object",
+        properties: { loadNumber: { type: "string", description: "Load number such as LD-042" } },
+        required: ["loadNumber"],
+      },
+    },
+    roles: ["shipper", "carrier", "admin"],
+    async run(user, args) {
+      const { load, error } = await findAccessibleLoad(user, args.loadNumber);
+      if (!load) return { error };
+
+      const shipment = await storage.getShipmentByLoad(load.id);
+      if (!shipment) {
+        return { loadNumber: formatLoadNumber(load), status: load.status, error: "This load has no shipment yet" };
+      }
+
+      // Live tracking is keyed by load id, or by load number for demo vehicles
+      const prediction = getEtaPrediction(load.id) || getEtaPrediction(formatLoadNumber(load));
+      return {
+        loadNumber: formatLoadNumber(load),
+        shipmentStatus: shipment.status,
+        currentLocation: shipment.currentLocation,
+        eta: prediction?.currentEta || shipment.eta,
+        delayMinutes: prediction?.delayMinutes,
+        delayRisk: prediction?.delayRisk,
+        distanceRemainingKm: prediction ? Math.round(prediction.distanceRemaining) : undefined,
+        source: prediction ? "live_tracking" : "schedule",
+      };
+    },
+  },
+  {
+    spec: {
+      name: "get_invoice_status",
+      description: "Status, amount and due date of an invoice by invoice number or load number. With neither, lists the user's recent invoices.",
+      parameters: {
+        type: "object",
+        properties: {
+          invoiceNumber: { type: "string" },
+          loadNumber: { type: "string", description: "Load number such as LD-042" },
+        },
+      },
+    },
+    roles: ["shipper", "admin"],
+    async run(user, args) {
+      let invoice: Invoice | undefined;
+      if (args.invoiceNumber) {
+        invoice = await storage.getInvoiceByNumber(String(args.invoiceNumber).trim());
+      } else if (args.loadNumber) {
+        const { load, error } = await findAccessibleLoad(user, args.loadNumber);
+        if (!load) return { error };
+        invoice = await storage.getInvoiceByLoad(load.id);
+      } else if (user.role === "shipper") {
+        const recent = await storage.getInvoicesByShipper(user.id);
+        return { invoices: recent.slice(0, MAX_LIST_RESULTS).map((inv) => summarizeInvoice(inv)) };
+      } else {
+        return { error: "Please give an invoice number or load number" };
+      }
+
+      // Same rule as GET /api/invoices/:id
+      if (!invoice || (user.role !== "admin" && invoice.shipperId !== user.id)) {
+        return { error: "No matching invoice found on this account" };
+      }
+      return summarizeInvoice(invoice);
+    },
+  },
+  {
+    spec: {
+      name: "get_verification_status",
+      description: "The user's own account verification / onboarding status and any reviewer note.",
+      parameters: { type: "object", properties: {} },
+    },
+    roles: ["shipper", "carrier"],
+    async run(user) {
+      if (user.role === "carrier") {
+        const verification = await storage.getCarrierVerificationByCarrier(user.id);
+        if (!verification) return { status: "not_started", isVerified: !!user.isVerified };
+        return {
+          status: verification.status,
+          isVerified: !!user.isVerified,
+          submittedAt: verification.submittedAt,
+          reviewedAt: verification.reviewedAt,
+          note: verification.rejectionReason,
+        };
+      }
+
+      const onboarding = await storage.getShipperOnboardingRequest(user.id);
+      if (!onboarding) return { status: "not_started", isVerified: !!user.isVerified };
+      return {
+        status: onboarding.status,
+        isVerified: !!user.isVerified,
+        submittedAt: onboarding.submittedAt,
+        reviewedAt: onboarding.reviewedAt,
+        note: onboarding.decisionNote,
+      };
+    },
+  },
+  {
+    spec: {
+      name: "get_pending_otp_requests",
+      description: "Trip start/end OTP requests still waiting for admin approval that involve this user.",
+      parameters: { type: "object", properties: {} },
+    },
+    roles: ["shipper", "carrier", "admin"],
+    async run(user) {
+      let pending = await storage.getPendingOtpRequests();
+      if (user.role === "carrier") {
+        pending = pending.filter((request) => request.carrierId === user.id);
+      } else if (user.role === "shipper") {
+        // Same scoping as GET /api/otp/shipper-requests
+        const shipperLoadIds = new Set((await storage.getLoadsByShipper(user.id)).map((load) => load.id));
+        pending = pending.filter((request) => shipperLoadIds.has(request.loadId));
+      }
+
+      const requests = await Promise.all(pending.slice(0, MAX_LIST_RESULTS).map(async (request) => {
+        const load = await storage.getLoad(request.loadId);
+        return {
+          requestType: request.requestType,
+          loadNumber: load ? formatLoadNumber(load) : null,
+          requestedAt: request.requestedAt,
+        };
+      }));
+      return { pendingCount: pending.length, requests };
+    },
+  },
+  {
+    spec: {
+      name: "escalate_to_support",
+      description: "Hand this conversation to the human support team as a ticket. Use when you can't resolve the issue, the user asks for a person, or something needs a manual fix. Tell the user the ticket number afterwards.",
+      parameters: {
+        type: "object",
+        properties: {
+          summary: { type: "string", description: "One-line description of the problem for the support team" },
+          category: { type: "string", enum: [...supportTicketCategories] },
+          priority: { type: "string", enum: [...supportTicketPriorities], description: "urgent only for shipments stuck in transit or money at risk" },
+          loadNumber: { type: "string", description: "Related load number, if any" },
+          invoiceNumber: { type: "string", description: "Related invoice number, if any" },
+        },
+        required: ["summary", "category"],
+      },
+    },
+    roles: ["shipper", "carrier"],
+    async run(user, args, conversationId) {
+      let relatedLoadId: string | null = null;
+      if (args.loadNumber) {
+        const { load } = await findAccessibleLoad(user, args.loadNumber);
+        relatedLoadId = load?.id || null;
+      }
+      let relatedInvoiceId: string | null = null;
+      if (args.invoiceNumber) {
+        const invoice = await storage.getInvoiceByNumber(String(args.invoiceNumber).trim());
+        relatedInvoiceId = invoice && invoice.shipperId === user.id ? invoice.id : null;
+      }
+
+      const result = await escalateConversation({
+        user,
+        conversationId,
+        subject: args.summary,
+        category: args.category,
+        priority: args.priority,
+        relatedLoadId,
+        relatedInvoiceId,
+        source: "bot",
+      });
+      if (!result.success || !result.ticket) return { error: result.error };
+      return {
+        ticketNumber: `#${result.ticket.ticketNumber}`,
+        status: result.ticket.status,
+        alreadyOpen: !!result.existing,
+        firstResponseDueAt: result.ticket.firstResponseDueAt,
+      };
+    },
+  },
+];
+
+export function getHelpBotToolSpecs(user: User | null | undefined): HelpBotToolSpec[] {
+  if (!user) return [];
+  return tools.filter((tool) => tool.roles.includes(user.role as UserRole)).map((tool) => tool.spec);
+}
+
+/**
+ * Run one tool call for a user and return the JSON to hand back to the model
+ */
+export async function executeHelpBotTool(context: HelpBotToolContext, call: HelpBotToolCall): Promise<string> {
+  const { user } = context;
+  const tool = tools.find((t) => t.spec.name === call.name);
+  if (!user || !tool || !tool.roles.includes(user.role as UserRole)) {
+    return JSON.stringify({ error: `Tool ${call.name} is not available` });
+  }
+
+  let args: Record<string, any> = {};
+  try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+  } catch {
+    return JSON.stringify({ error: "Tool arguments were not valid JSON" });
+  }
+
+  try {
+    return JSON.stringify(await tool.run(user, args, context.conversationId));
+  } catch (error) {
+    console.error(`[HelpBot] Tool ${call.name} failed:`, error);
+    return JSON.stringify({ error: "That lookup failed, please try again later" });
+  }
+}
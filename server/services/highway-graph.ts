@@ -0,0 +1,733 @@
+import { indianStates, findCity, haversineKm, type City, type IndianState } from "@shared/indian-locations";
+
+/**
+ * Highway Graph
+ *
+ * A hand-maintained graph of the national highway network between the cities
+ * in shared/indian-locations.ts. Edge lengths are road kilometres along the
+ * named highway; shortest paths are found with Dijkstra.
+ *
+ * Cities that aren't graph nodes are attached to their nearest nodes with
+ * straight-line legs scaled by ROAD_CIRCUITY_FACTOR, so every mainland city
+ * gets a route. Durations assume loaded-truck running speeds, not car speeds.
+ */
+
+// [from, to, km, road, average truck speed km/h (defaults by road type)]
+type HighwayEdge = [string, string, number, string, number?];
+
+const EXPRESSWAY_SPEED_KMPH = 55;
+const HIGHWAY_SPEED_KMPH = 45;
+const HILL_SPEED_KMPH = 25;
+const ACCESS_SPEED_KMPH = 30;
+
+// Road distance is rarely the crow-flies distance; 1.3 is typical for Indian plains
+export const ROAD_CIRCUITY_FACTOR = 1.3;
+// Off-graph cities connect to this many nearby nodes
+const ACCESS_NEIGHBOURS = 3;
+// Short hops are allowed to skip the graph entirely
+const DIRECT_LEG_MAX_KM = 120;
+// No road connection to the mainland
+const ISLAND_STATES = ["AN"];
+
+const HIGHWAY_EDGES: HighwayEdge[] = [
+  // Delhi NCR
+  ["DL:New Delhi", "DL:Central Delhi", 5, "Local"],
+  ["DL:New Delhi", "DL:South Delhi", 10, "Local"],
+  ["DL:Central Delhi", "DL:North Delhi", 10, "Local"],
+  ["DL:Central Delhi", "DL:East Delhi", 10, "Local"],
+  ["DL:New Delhi", "DL:West Delhi", 15, "Local"],
+  ["DL:New Delhi", "HR:Gurugram", 30, "NH48"],
+  ["DL:South Delhi", "HR:Faridabad", 25, "NH19"],
+  ["DL:East Delhi", "UP:Noida", 15, "DND Flyway"],
+  ["DL:East Delhi", "UP:Ghaziabad", 20, "NH9"],
+  ["UP:Noida", "UP:Greater Noida", 20, "Noida Expressway", EXPRESSWAY_SPEED_KMPH],
+  ["UP:Noida", "UP:Ghaziabad", 20, "Local"],
+  ["DL:West Delhi", "HR:Bahadurgarh", 25, "NH9"],
+  ["DL:North Delhi", "HR:Sonipat", 40, "NH44"],
+  ["HR:Gurugram", "HR:Rewari", 55, "NH48"],
+  ["HR:Gurugram", "HR:Faridabad", 30, "Gurgaon-Faridabad Road"],
+
+  // NH44 north: Delhi - Punjab - J&K
+  ["HR:Sonipat", "HR:Panipat", 45, "NH44"],
+  ["HR:Panipat", "HR:Karnal", 35, "NH44"],
+  ["HR:Karnal", "HR:Ambala", 75, "NH44"],
+  ["HR:Ambala", "PB:Rajpura", 25, "NH44"],
+  ["PB:Rajpura", "PB:Khanna", 50, "NH44"],
+  ["PB:Khanna", "PB:Ludhiana", 40, "NH44"],
+  ["PB:Ludhiana", "PB:Phagwara", 40, "NH44"],
+  ["PB:Phagwara", "PB:Jalandhar", 20, "NH44"],
+  ["PB:Jalandhar", "PB:Amritsar", 80, "NH3"],
+  ["PB:Amritsar", "PB:Batala", 40, "NH354"],
+  ["PB:Jalandhar", "PB:Kapurthala", 22, "NH703A"],
+  ["PB:Jalandhar", "PB:Hoshiarpur", 40, "NH3"],
+  ["PB:Jalandhar", "PB:Pathankot", 110, "NH44"],
+  ["PB:Pathankot", "JK:Kathua", 25, "NH44"],
+  ["JK:Kathua", "JK:Jammu", 85, "NH44"],
+  ["JK:Jammu", "JK:Udhampur", 65, "NH44", HILL_SPEED_KMPH],
+  ["JK:Udhampur", "JK:Anantnag", 150, "NH44", HILL_SPEED_KMPH],
+  ["JK:Anantnag", "JK:Srinagar", 55, "NH44"],
+  ["JK:Srinagar", "JK:Baramulla", 55, "NH1"],
+  ["JK:Baramulla", "JK:Sopore", 20, "Local"],
+  ["JK:Srinagar", "LA:Kargil", 205, "NH1", HILL_SPEED_KMPH],
+  ["LA:Kargil", "LA:Leh", 220, "NH1", HILL_SPEED_KMPH],
+
+  // Haryana / Punjab interior
+  ["HR:Ambala", "CH:Chandigarh", 45, "NH5"],
+  ["CH:Chandigarh", "HR:Panchkula", 10, "Local"],
+  ["CH:Chandigarh", "PB:Mohali", 10, "Local"],
+  ["HR:Ambala", "HR:Yamunanagar", 50, "NH344"],
+  ["HR:Ambala", "HP:Nahan", 70, "NH907"],
+  ["HR:Karnal", "HR:Kaithal", 60, "NH152D"],
+  ["HR:Kaithal", "HR:Jind", 70, "NH352"],
+  ["HR:Bahadurgarh", "HR:Rohtak", 40, "NH9"],
+  ["HR:Rohtak", "HR:Jind", 60, "NH352"],
+  ["HR:Rohtak", "HR:Bhiwani", 45, "NH709"],
+  ["HR:Rohtak", "HR:Hisar", 100, "NH9"],
+  ["HR:Hisar", "HR:Sirsa", 90, "NH9"],
+  ["HR:Sirsa", "PB:Bathinda", 80, "NH54"],
+  ["HR:Sirsa", "RJ:Hanumangarh", 85, "NH54"],
+  ["PB:Rajpura", "PB:Patiala", 30, "NH7"],
+  ["PB:Patiala", "PB:Malerkotla", 60, "SH11"],
+  ["PB:Malerkotla", "PB:Ludhiana", 50, "NH703"],
+  ["PB:Ludhiana", "PB:Barnala", 75, "NH703"],
+  ["PB:Barnala", "PB:Bathinda", 60, "NH7"],
+  ["PB:Ludhiana", "PB:Moga", 60, "NH5"],
+  ["PB:Moga", "PB:Firozpur", 60, "NH5"],
+  ["PB:Bathinda", "PB:Muktsar", 55, "NH754"],
+  ["PB:Muktsar", "PB:Abohar", 50, "NH754"],
+  ["PB:Abohar", "RJ:Sri Ganganagar", 40, "NH62"],
+  ["RJ:Sri Ganganagar", "RJ:Hanumangarh", 28, "NH62"],
+
+  // Himachal
+  ["CH:Chandigarh", "HP:Baddi", 35, "NH105"],
+  ["CH:Chandigarh", "HP:Solan", 65, "NH5", HILL_SPEED_KMPH],
+  ["HP:Solan", "HP:Shimla", 45, "NH5", HILL_SPEED_KMPH],
+  ["CH:Chandigarh", "HP:Bilaspur", 115, "NH205", HILL_SPEED_KMPH],
+  ["HP:Bilaspur", "HP:Mandi", 70, "NH154", HILL_SPEED_KMPH],
+  ["HP:Mandi", "HP:Kullu", 70, "NH3", HILL_SPEED_KMPH],
+  ["HP:Mandi", "HP:Palampur", 95, "NH154", HILL_SPEED_KMPH],
+  ["HP:Palampur", "HP:Dharamsala", 35, "NH154", HILL_SPEED_KMPH],
+  ["PB:Pathankot", "HP:Dharamsala", 85, "NH154", HILL_SPEED_KMPH],
+  ["PB:Hoshiarpur", "HP:Una", 45, "NH3"],
+
+  // Uttarakhand / western UP
+  ["UP:Ghaziabad", "UP:Meerut", 50, "NH58"],
+  ["UP:Meerut", "UP:Muzaffarnagar", 60, "NH58"],
+  ["UP:Muzaffarnagar", "UK:Roorkee", 50, "NH58"],
+  ["UK:Roorkee", "UK:Haridwar", 30, "NH334"],
+  ["UK:Haridwar", "UK:Rishikesh", 25, "NH7"],
+  ["UK:Haridwar", "UK:Dehradun", 55, "NH7"],
+  ["UK:Rishikesh", "UK:Dehradun", 45, "NH7"],
+  ["UK:Roorkee", "UP:Saharanpur", 40, "NH344"],
+  ["UP:Saharanpur", "UK:Dehradun", 70, "NH307"],
+  ["UP:Saharanpur", "HR:Yamunanagar", 45, "NH344"],
+  ["UP:Ghaziabad", "UP:Moradabad", 150, "NH9"],
+  ["UP:Moradabad", "UP:Amroha", 35, "SH"],
+  ["UP:Moradabad", "UP:Sambhal", 40, "SH43"],
+  ["UP:Moradabad", "UP:Rampur", 30, "NH9"],
+  ["UP:Rampur", "UP:Bareilly", 70, "NH9"],
+  ["UP:Moradabad", "UK:Kashipur", 50, "NH309"],
+  ["UK:Kashipur", "UK:Ramnagar", 30, "NH309"],
+  ["UK:Kashipur", "UK:Rudrapur", 50, "NH74"],
+  ["UK:Rudrapur", "UK:Haldwani", 30, "NH109"],
+  ["UK:Haldwani", "UK:Nainital", 40, "NH109", HILL_SPEED_KMPH],
+  ["UK:Rudrapur", "UP:Bareilly", 90, "NH74"],
+  ["UP:Bareilly", "UP:Shahjahanpur", 80, "NH30"],
+  ["UP:Shahjahanpur", "UP:Hardoi", 70, "NH731"],
+  ["UP:Hardoi", "UP:Lucknow", 110, "NH731"],
+  ["UP:Shahjahanpur", "UP:Lucknow", 170, "NH30"],
+
+  // NH19 / Yamuna Expressway: Delhi - Agra - Kanpur - Kolkata
+  ["HR:Faridabad", "HR:Palwal", 30, "NH19"],
+  ["HR:Palwal", "UP:Mathura", 95, "NH19"],
+  ["UP:Mathura", "UP:Agra", 55, "NH19"],
+  ["UP:Greater Noida", "UP:Agra", 165, "Yamuna Expressway", EXPRESSWAY_SPEED_KMPH],
+  ["UP:Ghaziabad", "UP:Bulandshahr", 55, "NH34"],
+  ["UP:Bulandshahr", "UP:Aligarh", 65, "NH34"],
+  ["UP:Aligarh", "UP:Agra", 90, "NH509"],
+  ["UP:Aligarh", "UP:Mathura", 60, "NH530B"],
+  ["UP:Agra", "UP:Firozabad", 45, "NH19"],
+  ["UP:Firozabad", "UP:Etawah", 75, "NH19"],
+  ["UP:Etawah", "UP:Kanpur", 165, "NH19"],
+  ["UP:Agra", "UP:Lucknow", 300, "Agra-Lucknow Expressway", EXPRESSWAY_SPEED_KMPH],
+  ["UP:Kanpur", "UP:Lucknow", 90, "NH27"],
+  ["UP:Kanpur", "UP:Fatehpur", 80, "NH19"],
+  ["UP:Fatehpur", "UP:Prayagraj", 120, "NH19"],
+  ["UP:Lucknow", "UP:Raebareli", 80, "NH30"],
+  ["UP:Raebareli", "UP:Prayagraj", 120, "NH30"],
+  ["UP:Lucknow", "UP:Faizabad", 130, "NH27"],
+  ["UP:Faizabad", "UP:Gorakhpur", 135, "NH27"],
+  ["UP:Prayagraj", "UP:Varanasi", 120, "NH19"],
+  ["UP:Prayagraj", "UP:Mirzapur", 90, "NH35"],
+  ["UP:Mirzapur", "UP:Varanasi", 65, "NH35"],
+  ["UP:Varanasi", "UP:Gorakhpur", 200, "NH29"],
+  ["UP:Varanasi", "BR:Sasaram", 120, "NH19"],
+  ["BR:Sasaram", "JH:Dhanbad", 325, "NH19"],
+  ["JH:Dhanbad", "WB:Asansol", 60, "NH19"],
+  ["WB:Asansol", "WB:Durgapur", 45, "NH19"],
+  ["WB:Durgapur", "WB:Bardhaman", 70, "NH19"],
+  ["WB:Bardhaman", "WB:Dankuni", 90, "NH19"],
+  ["WB:Dankuni", "WB:Kolkata", 20, "NH19"],
+  ["WB:Dankuni", "WB:Howrah", 15, "NH16"],
+  ["WB:Howrah", "WB:Kolkata", 8, "Howrah Bridge"],
+
+  // Bundelkhand / NH44 central
+  ["UP:Agra", "MP:Gwalior", 120, "NH44"],
+  ["MP:Gwalior", "MP:Bhind", 80, "NH719"],
+  ["MP:Gwalior", "UP:Jhansi", 100, "NH44"],
+  ["UP:Jhansi", "UP:Orai", 120, "NH27"],
+  ["UP:Orai", "UP:Kanpur", 120, "NH27"],
+  ["UP:Jhansi", "MP:Shivpuri", 100, "NH27"],
+  ["UP:Jhansi", "MP:Sagar", 230, "NH44"],
+  ["MP:Sagar", "MH:Nagpur", 385, "NH44"],
+  ["MP:Sagar", "MP:Damoh", 80, "NH934"],
+  ["MP:Damoh", "MP:Jabalpur", 105, "NH34"],
+  ["MP:Jabalpur", "MH:Nagpur", 290, "NH44"],
+  ["MP:Jabalpur", "MP:Murwara", 90, "NH30"],
+  ["MP:Murwara", "MP:Satna", 100, "NH30"],
+  ["MP:Satna", "MP:Rewa", 50, "NH30"],
+  ["MP:Rewa", "UP:Prayagraj", 130, "NH30"],
+  ["MP:Rewa", "MP:Singrauli", 200, "NH39"],
+  ["MH:Nagpur", "MP:Chhindwara", 125, "NH547"],
+
+  // NH52 / NH46: Mumbai - Agra corridor via Indore
+  ["MP:Gwalior", "MP:Shivpuri", 115, "NH46"],
+  ["MP:Shivpuri", "MP:Guna", 100, "NH46"],
+  ["MP:Guna", "MP:Dewas", 235, "NH46"],
+  ["MP:Dewas", "MP:Indore", 40, "NH52"],
+  ["MP:Dewas", "MP:Bhopal", 155, "NH146"],
+  ["MP:Dewas", "MP:Ujjain", 40, "SH18"],
+  ["MP:Indore", "MP:Ujjain", 55, "SH27"],
+  ["MP:Ujjain", "MP:Ratlam", 100, "SH17"],
+  ["MP:Indore", "MP:Ratlam", 140, "NH47"],
+  ["MP:Bhopal", "MP:Vidisha", 60, "NH146"],
+  ["MP:Vidisha", "MP:Sagar", 125, "NH146"],
+  ["MP:Bhopal", "MP:Jabalpur", 320, "NH45"],
+  ["MP:Indore", "MP:Khandwa", 130, "NH347B"],
+  ["MP:Khandwa", "MP:Burhanpur", 70, "NH347B"],
+  ["MP:Burhanpur", "MH:Jalgaon", 90, "NH753L"],
+  ["MP:Indore", "MH:Dhule", 265, "NH52"],
+  ["MH:Dhule", "MH:Malegaon", 50, "NH52"],
+  ["MH:Malegaon", "MH:Nashik", 105, "NH52"],
+  ["MH:Nashik", "MH:Bhiwandi", 145, "NH160"],
+  ["MH:Bhiwandi", "MH:Thane", 15, "NH48"],
+  ["MH:Thane", "MH:Mumbai", 25, "Eastern Express Highway"],
+  ["MH:Thane", "MH:Navi Mumbai", 20, "Thane-Belapur Road"],
+  ["MH:Mumbai", "MH:Navi Mumbai", 25, "Sion-Panvel Highway"],
+
+  // Golden Quadrilateral west: Delhi - Jaipur - Ahmedabad - Mumbai (NH48)
+  ["HR:Gurugram", "RJ:Jaipur", 240, "NH48"],
+  ["HR:Gurugram", "RJ:Alwar", 140, "NH248A"],
+  ["RJ:Alwar", "RJ:Jaipur", 150, "NH248A"],
+  ["RJ:Jaipur", "RJ:Kishangarh", 100, "NH48"],
+  ["RJ:Kishangarh", "RJ:Ajmer", 30, "NH48"],
+  ["RJ:Ajmer", "RJ:Bhilwara", 135, "NH48"],
+  ["RJ:Bhilwara", "RJ:Udaipur", 170, "NH48"],
+  ["RJ:Udaipur", "GJ:Ahmedabad", 260, "NH48"],
+  ["GJ:Ahmedabad", "GJ:Vadodara", 110, "NE1 Expressway", EXPRESSWAY_SPEED_KMPH],
+  ["GJ:Ahmedabad", "GJ:Nadiad", 55, "NH48"],
+  ["GJ:Nadiad", "GJ:Anand", 20, "NH48"],
+  ["GJ:Anand", "GJ:Vadodara", 40, "NH48"],
+  ["GJ:Vadodara", "GJ:Bharuch", 75, "NH48"],
+  ["GJ:Bharuch", "GJ:Surat", 70, "NH48"],
+  ["GJ:Surat", "GJ:Navsari", 30, "NH48"],
+  ["GJ:Navsari", "GJ:Valsad", 40, "NH48"],
+  ["GJ:Valsad", "GJ:Vapi", 25, "NH48"],
+  ["GJ:Vapi", "DD:Daman", 12, "Local"],
+  ["GJ:Vapi", "DD:Silvassa", 20, "Local"],
+  ["GJ:Vapi", "MH:Thane", 155, "NH48"],
+  ["MP:Ratlam", "GJ:Vadodara", 290, "NH47"],
+
+  // Rajasthan interior
+  ["RJ:Jaipur", "RJ:Sikar", 115, "NH52"],
+  ["RJ:Sikar", "RJ:Jhunjhunu", 70, "NH11"],
+  ["RJ:Sikar", "RJ:Churu", 110, "NH52"],
+  ["RJ:Jhunjhunu", "RJ:Churu", 70, "NH11"],
+  ["RJ:Jhunjhunu", "HR:Rewari", 150, "NH11"],
+  ["RJ:Churu", "RJ:Bikaner", 180, "NH11"],
+  ["RJ:Bikaner", "RJ:Hanumangarh", 230, "NH62"],
+  ["RJ:Bikaner", "RJ:Nagaur", 115, "NH62"],
+  ["RJ:Nagaur", "RJ:Jodhpur", 135, "NH62"],
+  ["RJ:Ajmer", "RJ:Beawar", 55, "NH58"],
+  ["RJ:Beawar", "RJ:Pali", 110, "NH162"],
+  ["RJ:Pali", "RJ:Jodhpur", 75, "NH62"],
+  ["RJ:Jodhpur", "RJ:Barmer", 200, "NH25"],
+  ["RJ:Jaipur", "RJ:Tonk", 100, "NH52"],
+  ["RJ:Tonk", "RJ:Kota", 145, "NH52"],
+  ["RJ:Kota", "RJ:Bhilwara", 150, "NH27"],
+  ["RJ:Jaipur", "RJ:Bharatpur", 185, "NH21"],
+  ["RJ:Bharatpur", "UP:Agra", 55, "NH21"],
+  ["RJ:Bharatpur", "UP:Mathura", 40, "NH248B"],
+
+  // Gujarat / Saurashtra / Kutch
+  ["GJ:Ahmedabad", "GJ:Gandhinagar", 25, "Local"],
+  ["GJ:Ahmedabad", "GJ:Mehsana", 75, "NH27"],
+  ["GJ:Ahmedabad", "GJ:Surendranagar", 120, "NH47"],
+  ["GJ:Surendranagar", "GJ:Rajkot", 110, "NH47"],
+  ["GJ:Rajkot", "GJ:Morbi", 65, "SH24"],
+  ["GJ:Morbi", "GJ:Gandhidham", 110, "NH27"],
+  ["GJ:Gandhidham", "GJ:Mundra", 60, "NH141"],
+  ["GJ:Rajkot", "GJ:Jamnagar", 90, "NH151"],
+  ["GJ:Rajkot", "GJ:Junagadh", 100, "NH27"],
+  ["GJ:Junagadh", "GJ:Porbandar", 105, "NH27"],
+  ["GJ:Junagadh", "DD:Diu", 190, "NH51"],
+  ["GJ:Ahmedabad", "GJ:Bhavnagar", 170, "NH751"],
+
+  // Golden Quadrilateral south-west: Mumbai - Pune - Bengaluru (NH48)
+  ["MH:Navi Mumbai", "MH:Pune", 125, "Mumbai-Pune Expressway", EXPRESSWAY_SPEED_KMPH],
+  ["MH:Pune", "MH:Pimpri-Chinchwad", 15, "Local"],
+  ["MH:Pune", "MH:Satara", 115, "NH48"],
+  ["MH:Satara", "MH:Kolhapur", 120, "NH48"],
+  ["MH:Kolhapur", "MH:Sangli", 50, "NH166"],
+  ["MH:Kolhapur", "KA:Belagavi", 110, "NH48"],
+  ["KA:Belagavi", "KA:Hubli-Dharwad", 95, "NH48"],
+  ["KA:Hubli-Dharwad", "KA:Davangere", 145, "NH48"],
+  ["KA:Davangere", "KA:Tumkur", 200, "NH48"],
+  ["KA:Tumkur", "KA:Bengaluru", 70, "NH48"],
+  ["KA:Davangere", "KA:Shimoga", 85, "NH206"],
+  ["KA:Hubli-Dharwad", "KA:Gadag", 60, "NH67"],
+  ["KA:Gadag", "KA:Hospet", 100, "NH67"],
+  ["KA:Hospet", "KA:Bellary", 65, "NH67"],
+  ["KA:Hubli-Dharwad", "KA:Karwar", 165, "NH52"],
+  ["KA:Belagavi", "GA:Panaji", 155, "NH748"],
+
+  // Maharashtra interior
+  ["MH:Pune", "MH:Ahmednagar", 120, "NH61"],
+  ["MH:Ahmednagar", "MH:Aurangabad", 115, "NH752E"],
+  ["MH:Pune", "MH:Nashik", 210, "NH60"],
+  ["MH:Nashik", "MH:Aurangabad", 180, "NH752G"],
+  ["MH:Aurangabad", "MH:Jalgaon", 155, "NH753F"],
+  ["MH:Dhule", "MH:Jalgaon", 90, "NH53"],
+  ["MH:Jalgaon", "MH:Akola", 170, "NH53"],
+  ["MH:Akola", "MH:Amravati", 100, "NH53"],
+  ["MH:Amravati", "MH:Nagpur", 155, "NH53"],
+  ["MH:Nagpur", "MH:Wardha", 80, "NH361"],
+  ["MH:Nagpur", "MH:Chandrapur", 150, "NH930"],
+  ["MH:Aurangabad", "MH:Parbhani", 200, "NH752K"],
+  ["MH:Parbhani", "MH:Nanded", 70, "NH61"],
+  ["MH:Pune", "MH:Solapur", 250, "NH65"],
+  ["MH:Solapur", "MH:Latur", 110, "NH361"],
+  ["MH:Latur", "MH:Nanded", 145, "NH361"],
+  ["MH:Ratnagiri", "MH:Kolhapur", 130, "NH166"],
+  ["MH:Ratnagiri", "MH:Navi Mumbai", 320, "NH66"],
+
+  // Deccan: Hyderabad hub
+  ["MH:Solapur", "TS:Hyderabad", 310, "NH65"],
+  ["MH:Solapur", "KA:Bijapur", 100, "NH52"],
+  ["MH:Solapur", "KA:Gulbarga", 115, "NH150E"],
+  ["KA:Bijapur", "KA:Hubli-Dharwad", 210, "NH52"],
+  ["KA:Bijapur", "KA:Gulbarga", 160, "NH50"],
+  ["KA:Gulbarga", "KA:Bidar", 110, "NH50"],
+  ["KA:Bidar", "TS:Hyderabad", 145, "NH65"],
+  ["KA:Gulbarga", "KA:Raichur", 160, "NH150"],
+  ["KA:Raichur", "TS:Mahbubnagar", 120, "NH167"],
+  ["MH:Nanded", "TS:Nizamabad", 115, "NH161"],
+  ["MH:Nagpur", "TS:Adilabad", 195, "NH44"],
+  ["TS:Adilabad", "TS:Nizamabad", 150, "NH44"],
+  ["TS:Nizamabad", "TS:Hyderabad", 175, "NH44"],
+  ["TS:Hyderabad", "TS:Mahbubnagar", 100, "NH44"],
+  ["TS:Mahbubnagar", "AP:Kurnool", 115, "NH44"],
+  ["AP:Kurnool", "AP:Anantapur", 145, "NH44"],
+  ["AP:Anantapur", "KA:Bengaluru", 210, "NH44"],
+  ["AP:Anantapur", "AP:Hindupur", 95, "NH544E"],
+  ["AP:Hindupur", "KA:Bengaluru", 100, "NH544E"],
+  ["KA:Bellary", "AP:Anantapur", 100, "NH42"],
+  ["KA:Bellary", "AP:Adoni", 70, "SH"],
+  ["AP:Adoni", "AP:Kurnool", 95, "NH167"],
+  ["AP:Kurnool", "AP:Nandyal", 75, "NH40"],
+  ["AP:Nandyal", "AP:Kadapa", 125, "NH40"],
+  ["AP:Kadapa", "AP:Proddatur", 60, "NH67"],
+  ["AP:Kadapa", "AP:Tirupati", 135, "NH716"],
+  ["TS:Hyderabad", "TS:Suryapet", 140, "NH65"],
+  ["TS:Suryapet", "AP:Vijayawada", 135, "NH65"],
+  ["TS:Hyderabad", "TS:Nalgonda", 100, "NH565"],
+  ["TS:Nalgonda", "TS:Miryalaguda", 40, "NH565"],
+  ["TS:Miryalaguda", "AP:Guntur", 140, "NH167A"],
+  ["TS:Hyderabad", "TS:Warangal", 145, "NH163"],
+  ["TS:Warangal", "TS:Khammam", 120, "NH563"],
+  ["TS:Khammam", "AP:Vijayawada", 120, "NH30"],
+  ["TS:Hyderabad", "TS:Siddipet", 100, "SH1"],
+  ["TS:Siddipet", "TS:Karimnagar", 70, "SH1"],
+  ["TS:Karimnagar", "TS:Warangal", 70, "NH563"],
+  ["TS:Karimnagar", "TS:Ramagundam", 40, "SH1"],
+  ["TS:Ramagundam", "TS:Mancherial", 20, "SH1"],
+  ["TS:Mancherial", "MH:Chandrapur", 150, "NH363"],
+
+  // East coast (NH16): Chennai - Vijayawada - Visakhapatnam - Bhubaneswar - Kolkata
+  ["TN:Chennai", "AP:Nellore", 175, "NH16"],
+  ["AP:Nellore", "AP:Ongole", 115, "NH16"],
+  ["AP:Ongole", "AP:Guntur", 110, "NH16"],
+  ["AP:Guntur", "AP:Vijayawada", 35, "NH16"],
+  ["AP:Guntur", "AP:Tenali", 25, "SH"],
+  ["AP:Vijayawada", "AP:Machilipatnam", 70, "NH65"],
+  ["AP:Vijayawada", "AP:Eluru", 60, "NH16"],
+  ["AP:Eluru", "AP:Bhimavaram", 60, "NH165"],
+  ["AP:Eluru", "AP:Rajahmundry", 95, "NH16"],
+  ["AP:Rajahmundry", "AP:Kakinada", 65, "NH216"],
+  ["AP:Rajahmundry", "AP:Visakhapatnam", 195, "NH16"],
+  ["AP:Visakhapatnam", "OD:Berhampur", 240, "NH16"],
+  ["OD:Berhampur", "OD:Bhubaneswar", 170, "NH16"],
+  ["OD:Bhubaneswar", "OD:Puri", 60, "NH316"],
+  ["OD:Bhubaneswar", "OD:Cuttack", 30, "NH16"],
+  ["OD:Cuttack", "OD:Bhadrak", 120, "NH16"],
+  ["OD:Bhadrak", "OD:Balasore", 65, "NH16"],
+  ["OD:Balasore", "OD:Baripada", 60, "NH18"],
+  ["OD:Balasore", "WB:Kharagpur", 120, "NH16"],
+  ["WB:Kharagpur", "WB:Medinipur", 15, "Local"],
+  ["WB:Kharagpur", "WB:Kolkata", 125, "NH16"],
+  ["WB:Kolkata", "WB:Haldia", 125, "NH116"],
+  ["AP:Tirupati", "TN:Chennai", 135, "NH716"],
+  ["AP:Tirupati", "AP:Nellore", 130, "NH71"],
+  ["AP:Tirupati", "AP:Chittoor", 70, "NH140"],
+  ["AP:Chittoor", "TN:Vellore", 45, "NH40"],
+  ["AP:Chittoor", "KA:Bengaluru", 160, "NH75"],
+
+  // South: Bengaluru - Chennai - Tamil Nadu - Kerala
+  ["KA:Bengaluru", "TN:Hosur", 40, "NH44"],
+  ["TN:Hosur", "TN:Vellore", 150, "NH48"],
+  ["TN:Vellore", "TN:Ranipet", 25, "NH48"],
+  ["TN:Ranipet", "TN:Chennai", 110, "NH48"],
+  ["TN:Ranipet", "TN:Kanchipuram", 40, "SH"],
+  ["TN:Kanchipuram", "TN:Chennai", 75, "NH48"],
+  ["TN:Hosur", "TN:Salem", 160, "NH44"],
+  ["TN:Salem", "TN:Karur", 95, "NH44"],
+  ["TN:Karur", "TN:Dindigul", 75, "NH44"],
+  ["TN:Dindigul", "TN:Madurai", 65, "NH44"],
+  ["TN:Madurai", "TN:Tirunelveli", 160, "NH44"],
+  ["TN:Tirunelveli", "TN:Nagercoil", 75, "NH44"],
+  ["TN:Tirunelveli", "TN:Thoothukkudi", 50, "NH138"],
+  ["TN:Madurai", "TN:Sivakasi", 75, "NH44"],
+  ["TN:Salem", "TN:Kumarapalayam", 55, "NH544"],
+  ["TN:Kumarapalayam", "TN:Erode", 15, "NH544"],
+  ["TN:Erode", "TN:Tiruppur", 55, "NH544"],
+  ["TN:Tiruppur", "TN:Coimbatore", 50, "NH544"],
+  ["TN:Coimbatore", "TN:Udhagamandalam", 85, "NH181", HILL_SPEED_KMPH],
+  ["TN:Chennai", "TN:Tiruchirappalli", 330, "NH32"],
+  ["TN:Tiruchirappalli", "TN:Madurai", 135, "NH38"],
+  ["TN:Tiruchirappalli", "TN:Karur", 80, "NH81"],
+  ["TN:Tiruchirappalli", "TN:Thanjavur", 60, "NH83"],
+  ["TN:Chennai", "PY:Puducherry", 150, "ECR"],
+  ["PY:Puducherry", "PY:Karaikal", 135, "NH32"],
+  ["PY:Karaikal", "TN:Thanjavur", 95, "NH36"],
+  ["TN:Nagercoil", "KL:Thiruvananthapuram", 70, "NH66"],
+  ["TN:Coimbatore", "KL:Palakkad", 55, "NH544"],
+  ["KL:Palakkad", "KL:Thrissur", 75, "NH544"],
+  ["KL:Thrissur", "KL:Kochi", 80, "NH544"],
+  ["KL:Kochi", "KL:Alappuzha", 55, "NH66"],
+  ["KL:Alappuzha", "KL:Kollam", 85, "NH66"],
+  ["KL:Kollam", "KL:Thiruvananthapuram", 70, "NH66"],
+  ["KL:Kochi", "KL:Kottayam", 65, "SH"],
+  ["KL:Kottayam", "KL:Pathanamthitta", 50, "SH"],
+  ["KL:Kochi", "KL:Idukki", 110, "NH85", HILL_SPEED_KMPH],
+  ["KL:Thrissur", "KL:Malappuram", 85, "NH66"],
+  ["KL:Malappuram", "KL:Kozhikode", 50, "NH66"],
+  ["KL:Kozhikode", "KL:Kannur", 95, "NH66"],
+  ["KL:Kannur", "KL:Kasaragod", 90, "NH66"],
+  ["KL:Kasaragod", "KA:Mangaluru", 50, "NH66"],
+  ["KL:Kozhikode", "KL:Wayanad", 75, "NH766", HILL_SPEED_KMPH],
+  ["KL:Wayanad", "KA:Mysuru", 140, "NH766"],
+
+  // Karnataka west and Konkan coast (NH66)
+  ["KA:Bengaluru", "KA:Mandya", 100, "NH275"],
+  ["KA:Mandya", "KA:Mysuru", 45, "NH275"],
+  ["KA:Bengaluru", "KA:Hassan", 185, "NH75"],
+  ["KA:Hassan", "KA:Mangaluru", 170, "NH75", HILL_SPEED_KMPH],
+  ["KA:Hassan", "KA:Chikmagalur", 60, "NH373"],
+  ["KA:Mangaluru", "KA:Udupi", 60, "NH66"],
+  ["KA:Shimoga", "KA:Udupi", 160, "NH169A", HILL_SPEED_KMPH],
+  ["KA:Udupi", "KA:Karwar", 240, "NH66"],
+  ["KA:Karwar", "GA:Margao", 90, "NH66"],
+  ["GA:Margao", "GA:Panaji", 35, "NH66"],
+  ["GA:Margao", "GA:Vasco da Gama", 30, "NH566"],
+  ["GA:Panaji", "GA:Ponda", 30, "NH748"],
+  ["GA:Panaji", "GA:Mapusa", 15, "NH66"],
+  ["GA:Mapusa", "MH:Ratnagiri", 240, "NH66"],
+
+  // Central east: Nagpur - Raipur - Odisha - Jharkhand
+  ["MH:Nagpur", "CG:Rajnandgaon", 250, "NH53"],
+  ["CG:Rajnandgaon", "CG:Durg", 30, "NH53"],
+  ["CG:Durg", "CG:Bhilai", 10, "NH53"],
+  ["CG:Bhilai", "CG:Raipur", 30, "NH53"],
+  ["CG:Raipur", "CG:Bilaspur", 120, "NH130"],
+  ["CG:Bilaspur", "CG:Korba", 90, "NH130"],
+  ["CG:Bilaspur", "CG:Ambikapur", 230, "NH130"],
+  ["CG:Bilaspur", "CG:Raigarh", 135, "NH49"],
+  ["CG:Raigarh", "OD:Jharsuguda", 80, "NH49"],
+  ["CG:Raipur", "CG:Jagdalpur", 300, "NH30"],
+  ["CG:Raipur", "OD:Sambalpur", 265, "NH53"],
+  ["OD:Sambalpur", "OD:Jharsuguda", 50, "NH49"],
+  ["OD:Jharsuguda", "OD:Rourkela", 100, "NH520"],
+  ["OD:Sambalpur", "OD:Cuttack", 270, "NH55"],
+  ["OD:Rourkela", "JH:Ranchi", 170, "NH143"],
+
+  // Jharkhand / Bihar
+  ["JH:Ranchi", "JH:Jamshedpur", 130, "NH33"],
+  ["JH:Jamshedpur", "JH:Chaibasa", 60, "NH220"],
+  ["JH:Jamshedpur", "WB:Kharagpur", 130, "NH49"],
+  ["JH:Ranchi", "JH:Ramgarh", 45, "NH33"],
+  ["JH:Ramgarh", "JH:Hazaribagh", 50, "NH33"],
+  ["JH:Ramgarh", "JH:Bokaro Steel City", 60, "NH320"],
+  ["JH:Bokaro Steel City", "JH:Phusro", 30, "SH"],
+  ["JH:Bokaro Steel City", "JH:Dhanbad", 45, "NH32"],
+  ["JH:Dhanbad", "JH:Giridih", 55, "NH114A"],
+  ["JH:Giridih", "JH:Deoghar", 100, "NH114A"],
+  ["JH:Deoghar", "BR:Bhagalpur", 120, "NH133"],
+  ["JH:Hazaribagh", "BR:Gaya", 130, "NH22"],
+  ["BR:Gaya", "BR:Patna", 100, "NH22"],
+  ["BR:Gaya", "BR:Bihar Sharif", 85, "NH20"],
+  ["BR:Bihar Sharif", "BR:Patna", 80, "NH30"],
+  ["BR:Patna", "BR:Arrah", 55, "NH922"],
+  ["BR:Arrah", "BR:Sasaram", 95, "NH119"],
+  ["BR:Patna", "BR:Hajipur", 20, "Gandhi Setu"],
+  ["BR:Hajipur", "BR:Muzaffarpur", 55, "NH22"],
+  ["BR:Muzaffarpur", "BR:Samastipur", 55, "NH122"],
+  ["BR:Samastipur", "BR:Darbhanga", 40, "NH322"],
+  ["BR:Muzaffarpur", "BR:Darbhanga", 70, "NH27"],
+  ["BR:Muzaffarpur", "BR:Bettiah", 130, "NH727"],
+  ["BR:Muzaffarpur", "UP:Gorakhpur", 270, "NH27"],
+  ["BR:Samastipur", "BR:Begusarai", 70, "NH28"],
+  ["BR:Patna", "BR:Begusarai", 125, "NH31"],
+  ["BR:Begusarai", "BR:Munger", 45, "NH333B"],
+  ["BR:Munger", "BR:Bhagalpur", 60, "NH80"],
+  ["BR:Begusarai", "BR:Purnia", 180, "NH31"],
+  ["BR:Bhagalpur", "BR:Purnia", 100, "NH131B"],
+  ["BR:Darbhanga", "BR:Purnia", 220, "NH27"],
+  ["BR:Purnia", "BR:Katihar", 30, "NH131A"],
+  ["BR:Purnia", "BR:Saharsa", 100, "NH107"],
+  ["BR:Purnia", "WB:Siliguri", 175, "NH27"],
+  ["BR:Purnia", "WB:Raiganj", 90, "NH27"],
+
+  // West Bengal north - south
+  ["WB:Siliguri", "WB:Raiganj", 185, "NH27"],
+  ["WB:Raiganj", "WB:Malda", 70, "NH12"],
+  ["WB:Malda", "WB:Dhulian", 60, "NH12"],
+  ["WB:Malda", "WB:Baharampur", 130, "NH12"],
+  ["WB:Baharampur", "WB:Krishnanagar", 90, "NH12"],
+  ["WB:Krishnanagar", "WB:Nabadwip", 15, "Local"],
+  ["WB:Krishnanagar", "WB:Shantipur", 20, "NH12"],
+  ["WB:Shantipur", "WB:Ranaghat", 15, "NH12"],
+  ["WB:Ranaghat", "WB:Kolkata", 75, "NH12"],
+  ["WB:Kolkata", "WB:Habra", 50, "NH112"],
+  ["WB:Siliguri", "WB:Jalpaiguri", 45, "NH27"],
+  ["WB:Siliguri", "SK:Gangtok", 115, "NH10", HILL_SPEED_KMPH],
+
+  // North-east
+  ["WB:Jalpaiguri", "AS:Bongaigaon", 215, "NH27"],
+  ["AS:Bongaigaon", "AS:Guwahati", 180, "NH27"],
+  ["AS:Guwahati", "ML:Shillong", 100, "NH6", HILL_SPEED_KMPH],
+  ["AS:Guwahati", "ML:Tura", 220, "NH217"],
+  ["ML:Shillong", "ML:Jowai", 65, "NH6", HILL_SPEED_KMPH],
+  ["ML:Jowai", "AS:Silchar", 180, "NH6", HILL_SPEED_KMPH],
+  ["AS:Silchar", "MZ:Aizawl", 180, "NH306", HILL_SPEED_KMPH],
+  ["MZ:Aizawl", "MZ:Lunglei", 170, "NH54", HILL_SPEED_KMPH],
+  ["MZ:Aizawl", "MZ:Champhai", 190, "NH6", HILL_SPEED_KMPH],
+  ["AS:Silchar", "TR:Dharmanagar", 125, "NH8"],
+  ["TR:Dharmanagar", "TR:Agartala", 200, "NH8", HILL_SPEED_KMPH],
+  ["TR:Agartala", "TR:Udaipur", 55, "NH8"],
+  ["AS:Guwahati", "AS:Nagaon", 120, "NH27"],
+  ["AS:Nagaon", "AS:Tezpur", 80, "NH715"],
+  ["AS:Tezpur", "AR:Itanagar", 180, "NH15"],
+  ["AR:Itanagar", "AR:Naharlagun", 10, "Local"],
+  ["AS:Tezpur", "AR:Tawang", 320, "NH13", HILL_SPEED_KMPH],
+  ["AS:Nagaon", "AS:Jorhat", 200, "NH715"],
+  ["AS:Jorhat", "AS:Dibrugarh", 140, "NH715"],
+  ["AS:Dibrugarh", "AS:Tinsukia", 50, "NH37"],
+  ["AS:Dibrugarh", "AR:Pasighat", 150, "NH515"],
+  ["AS:Jorhat", "NL:Mokokchung", 90, "NH702", HILL_SPEED_KMPH],
+  ["AS:Nagaon", "NL:Dimapur", 170, "NH29"],
+  ["NL:Dimapur", "NL:Kohima", 75, "NH29", HILL_SPEED_KMPH],
+  ["NL:Kohima", "MN:Imphal", 140, "NH2", HILL_SPEED_KMPH],
+  ["MN:Imphal", "MN:Thoubal", 25, "NH102"],
+  ["MN:Imphal", "MN:Bishnupur", 30, "NH2"],
+];
+
+interface GraphNode {
+  id: string;
+  state: IndianState;
+  city: City;
+}
+
+interface Adjacency {
+  to: string;
+  km: number;
+  seconds: number;
+  road: string;
+}
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+  label: string;
+  nodeId?: string | null;
+  stateCode?: string | null;
+}
+
+export interface HighwayRoute {
+  distanceKm: number;
+  durationSeconds: number;
+  via: string[];
+  roads: string[];
+  // Origin, each graph node passed through, destination; straight lines between them
+  path: { lat: number; lng: number }[];
+}
+
+function nodeIdFor(state: IndianState, city: City): string {
+  return `${state.code}:${city.name}`;
+}
+
+function roadSpeed(road: string, override?: number): number {
+  if (override) return override;
+  return /expressway/i.test(road) ? EXPRESSWAY_SPEED_KMPH : HIGHWAY_SPEED_KMPH;
+}
+
+function buildGraph(): { nodes: Map<string, GraphNode>; adjacency: Map<string, Adjacency[]> } {
+  const cities = new Map<string, GraphNode>();
+  for (const state of indianStates) {
+    for (const city of state.cities) {
+      const id = nodeIdFor(state, city);
+      cities.set(id, { id, state, city });
+    }
+  }
+
+  const nodes = new Map<string, GraphNode>();
+  const adjacency = new Map<string, Adjacency[]>();
+  for (const [from, to, km, road, speed] of HIGHWAY_EDGES) {
+    const a = cities.get(from);
+    const b = cities.get(to);
+    if (!a || !b) {
+      console.warn(`[HighwayGraph] Skipping edge ${from} - ${to}: unknown city`);
+      continue;
+    }
+    const seconds = Math.round((km / roadSpeed(road, speed)) * 3600);
+    nodes.set(a.id, a);
+    nodes.set(b.id, b);
+    if (!adjacency.has(a.id)) adjacency.set(a.id, []);
+    if (!adjacency.has(b.id)) adjacency.set(b.id, []);
+    adjacency.get(a.id)!.push({ to: b.id, km, seconds, road });
+    adjacency.get(b.id)!.push({ to: a.id, km, seconds, road });
+  }
+  return { nodes, adjacency };
+}
+
+const graph = buildGraph();
+
+/**
+ * Resolve a free-text location ("Pune, MH", "Bangalore") to a routable point
+ */
+export function resolveRoutePoint(location: string, stateHint?: string | null): RoutePoint | null {
+  const match = findCity(location, stateHint);
+  if (!match) return null;
+  const id = nodeIdFor(match.state, match.city);
+  return {
+    lat: match.city.lat,
+    lng: match.city.lng,
+    label: `${match.city.name}, ${match.state.code}`,
+    nodeId: graph.nodes.has(id) ? id : null,
+    stateCode: match.state.code,
+  };
+}
+
+function accessLegs(point: RoutePoint): { nodeId: string; km: number; seconds: number }[] {
+  if (point.nodeId && graph.nodes.has(point.nodeId)) {
+    return [{ nodeId: point.nodeId, km: 0, seconds: 0 }];
+  }
+  return Array.from(graph.nodes.values())
+    .map(node => ({ nodeId: node.id, km: haversineKm(point, node.city) * ROAD_CIRCUITY_FACTOR }))
+    .sort((a, b) => a.km - b.km)
+    .slice(0, ACCESS_NEIGHBOURS)
+    .map(leg => ({ ...leg, seconds: Math.round((leg.km / ACCESS_SPEED_KMPH) * 3600) }));
+}
+
+/**
+ * Shortest road route between two points over the highway graph
+ *
+ * Returns null when no road connects the points (island territories).
+ */
+export function findHighwayRoute(origin: RoutePoint, destination: RoutePoint): HighwayRoute | null {
+  const isolated = (p: RoutePoint) => !!p.stateCode && ISLAND_STATES.includes(p.stateCode);
+  if ((isolated(origin) || isolated(destination)) && origin.stateCode !== destination.stateCode) {
+    return null;
+  }
+
+  const ORIGIN = "__origin__";
+  const DESTINATION = "__destination__";
+  const dist = new Map<string, number>([[ORIGIN, 0]]);
+  const time = new Map<string, number>([[ORIGIN, 0]]);
+  const prev = new Map<string, { from: string; road: string }>();
+  const visited = new Set<string>();
+
+  const destinationLegs = new Map(accessLegs(destination).map(leg => [leg.nodeId, leg]));
+  const neighbours = (id: string): Adjacency[] => {
+    if (id === ORIGIN) {
+      const legs: Adjacency[] = accessLegs(origin).map(leg => ({ to: leg.nodeId, km: leg.km, seconds: leg.seconds, road: "Local" }));
+      const directKm = haversineKm(origin, destination) * ROAD_CIRCUITY_FACTOR;
+      if (directKm <= DIRECT_LEG_MAX_KM * ROAD_CIRCUITY_FACTOR) {
+        legs.push({ to: DESTINATION, km: directKm, seconds: Math.round((directKm / ACCESS_SPEED_KMPH) * 3600), road: "Local" });
+      }
+      return legs;
+    }
+    const edges = [...(graph.adjacency.get(id) || [])];
+    const exit = destinationLegs.get(id);
+    if (exit) edges.push({ to: DESTINATION, km: exit.km, seconds: exit.seconds, road: "Local" });
+    return edges;
+  };
+
+  // Graph is a few hundred nodes, so a linear scan for the next node is fine
+  while (true) {
+    let current: string | null = null;
+    let best = Infinity;
+    for (const [id, d] of Array.from(dist.entries())) {
+      if (!visited.has(id) && d < best) {
+        best = d;
+        current = id;
+      }
+    }
+    if (current === null || current === DESTINATION) break;
+    visited.add(current);
+
+    for (const edge of neighbours(current)) {
+      const candidate = best + edge.km;
+      if (candidate < (dist.get(edge.to) ?? Infinity)) {
+        dist.set(edge.to, candidate);
+        time.set(edge.to, (time.get(current) || 0) + edge.seconds);
+        prev.set(edge.to, { from: current, road: edge.road });
+      }
+    }
+  }
+
+  if (!dist.has(DESTINATION)) return null;
+
+  const via: string[] = [];
+  const roads: string[] = [];
+  const path: { lat: number; lng: number }[] = [{ lat: destination.lat, lng: destination.lng }];
+  let step = prev.get(DESTINATION);
+  while (step) {
+    if (step.road !== "Local" && !roads.includes(step.road)) roads.unshift(step.road);
+    if (step.from !== ORIGIN && step.from !== origin.nodeId) via.unshift(graph.nodes.get(step.from)!.city.name);
+    if (step.from !== ORIGIN) {
+      const { lat, lng } = graph.nodes.get(step.from)!.city;
+      path.unshift({ lat, lng });
+    }
+    step = prev.get(step.from);
+  }
+  path.unshift({ lat: origin.lat, lng: origin.lng });
+
+  return {
+    distanceKm: Math.round(dist.get(DESTINATION)!),
+    durationSeconds: time.get(DESTINATION)!,
+    via,
+    roads,
+    path,
+  };
+}
+
+/**
+ * Offline road distance between two free-text locations, or null if either
+ * can't be resolved or isn't reachable by road
+ */
+export function estimateHighwayDistance(origin: string, destination: string): HighwayRoute | null {
+  const from = resolveRoutePoint(origin);
+  const to = resolveRoutePoint(destination);
+  if (!from || !to || from.label === to.label) return null;
+  return findHighwayRoute(from, to);
+}
@@ -0,0 +1,358 @@
+import PDFDocument from "pdfkit";
+import { storage } from "../storage";
+import { ObjectStorageService } from "../replit_integrations/object_storage";
+import type { Invoice, Load, User, ShipperOnboardingRequest, CarrierVerification } from "@shared/schema";
+import { GTA_SAC_CODE, determineSupplyType, formatGstState } from "@shared/tax";
+
+/**
+ * Invoice PDF Renderer
+ *
+ * Renders an invoice row into a GST tax-invoice PDF (line items, CGST/SGST/IGST
+ * split, HSN/SAC code, shipper/carrier GSTIN, advance vs. balance-on-delivery and
+ * payment terms), stores it in object storage and writes back invoices.pdfUrl.
+ * Long item lists continue on further pages under a repeated table header.
+ */
+
+const PLATFORM_DETAILS = {
+  name: "Load Smart Logistics Pvt. Ltd.",
+  address: process.env.PLATFORM_ADDRESS || "India",
+  gstin: process.env.PLATFORM_GSTIN || "",
+  email: "support@loadsmart.in",
+};
+
+export interface InvoicePdfContext {
+  invoice: Invoice;
+  load?: Load;
+  shipper?: User;
+  shipperOnboarding?: ShipperOnboardingRequest;
+  carrier?: User;
+  carrierVerification?: CarrierVerification;
+}
+
+interface PdfLineItem {
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === "") return 0;
+  const num = typeof value === "number" ? value : parseFloat(String(value).replace(/,/g, ""));
+  return isNaN(num) ? 0 : num;
+}
+
+function formatInr(amount: number): string {
+  return `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(date: Date | string | null | undefined): string {
+  if (!date) return "-";
+  return new Date(date).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric", timeZone: "Asia/Kolkata" });
+}
+
+// Same rule the GST split was computed with, so the printed state matches CGST/SGST vs IGST
+function placeOfSupplyLabel(invoice: Invoice, load?: Load, shipperOnboarding?: ShipperOnboardingRequest): string {
+  const { placeOfSupplyStateCode } = determineSupplyType({
+    pickupState: load?.pickupState,
+    dropoffState: load?.dropoffState,
+    shipperGstin: invoice.shipperGstin || shipperOnboarding?.gstinNumber,
+  });
+  return formatGstState(placeOfSupplyStateCode) || load?.dropoffState || "-";
+}
+
+function formatLoadNumber(load?: Load): string {
+  if (!load) return "-";
+  if (load.shipperLoadNumber) return `LD-${String(load.shipperLoadNumber).padStart(3, "0")}`;
+  return load.id.slice(0, 8).toUpperCase();
+}
+
+// Line items are stored as loose JSON by several flows (builder, auto-generation, acceptBid)
+function normalizeLineItems(invoice: Invoice): PdfLineItem[] {
+  const raw = Array.isArray(invoice.lineItems) ? (invoice.lineItems as Record<string, unknown>[]) : [];
+  const items = raw.map((item) => {
+    const quantity = toNumber(item.quantity as string) || 1;
+    const rate = toNumber((item.unitPrice ?? item.rate) as string);
+    const amount = toNumber((item.amount ?? item.total) as string) || quantity * rate;
+    return {
+      description: String(item.description || item.code || "Freight charges"),
+      quantity,
+      rate: rate || amount / quantity,
+      amount,
+    };
+  });
+
+  if (items.length === 0) {
+    const subtotal = toNumber(invoice.subtotal);
+    items.push({ description: "Freight charges", quantity: 1, rate: subtotal, amount: subtotal });
+  }
+  return items;
+}
+
+const ONES = ["", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen"];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function twoDigitWords(n: number): string {
+  if (n < 20) return ONES[n];
+  return `${TENS[Math.floor(n / 10)]}${n % 10 ? " " + ONES[n % 10] : ""}`;
+}
+
+function threeDigitWords(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : "", rest ? twoDigitWords(rest) : ""].filter(Boolean).join(" ");
+}
+
+// Indian numbering system (crore / lakh / thousand)
+export function amountInWords(amount: number): string {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+  if (rupees === 0 && paise === 0) return "Rupees Zero Only";
+
+  const parts: string[] = [];
+  const crore = Math.floor(rupees / 10000000);
+  const lakh = Math.floor((rupees % 10000000) / 100000);
+  const thousand = Math.floor((rupees % 100000) / 1000);
+  const remainder = rupees % 1000;
+
+  if (crore) parts.push(`${threeDigitWords(crore)} Crore`);
+  if (lakh) parts.push(`${twoDigitWords(lakh)} Lakh`);
+  if (thousand) parts.push(`${twoDigitWords(thousand)} Thousand`);
+  if (remainder) parts.push(threeDigitWords(remainder));
+
+  let words = `Rupees ${parts.join(" ") || "Zero"}`;
+  if (paise) words += ` and ${twoDigitWords(paise)} Paise`;
+  return `${words} Only`;
+}
+
+/**
+ * Render an invoice into a PDF buffer
+ */
+export function renderInvoicePdf(context: InvoicePdfContext): Promise<Buffer> {
+  const { invoice, load, shipper, shipperOnboarding, carrier, carrierVerification } = context;
+
+  return new Promise((resolve, reject) => {
+    // Pages are buffered so the footer and page numbers go on once the count is known
+    const doc = new PDFDocument({ size: "A4", margin: 40, bufferPages: true });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const pageWidth = doc.page.width - 80;
+    const left = 40;
+    // Leave room for the footer
+    const contentBottom = doc.page.height - 80;
+
+    // Header
+    doc.font("Helvetica-Bold").fontSize(18).text("TAX INVOICE", left, 40, { align: "center", width: pageWidth });
+    doc.font("Helvetica").fontSize(8).fillColor("#555555")
+      .text("(Original for Recipient)", { align: "center", width: pageWidth });
+    doc.fillColor("#000000");
+
+    // Supplier and invoice meta
+    const metaTop = 85;
+    doc.font("Helvetica-Bold").fontSize(11).text(PLATFORM_DETAILS.name, left, metaTop);
+    doc.font("Helvetica").fontSize(9)
+      .text(PLATFORM_DETAILS.address)
+      .text(`GSTIN: ${PLATFORM_DETAILS.gstin || "-"}`)
+      .text(PLATFORM_DETAILS.email);
+
+    const metaX = left + pageWidth / 2 + 20;
+    doc.font("Helvetica").fontSize(9);
+    doc.text(`Invoice No: ${invoice.invoiceNumber}`, metaX, metaTop);
+    doc.text(`Invoice Date: ${formatDate(invoice.sentAt || invoice.createdAt)}`, metaX);
+    doc.text(`Due Date: ${formatDate(invoice.dueDate)}`, metaX);
+    doc.text(`Load: ${formatLoadNumber(load)}`, metaX);
+    doc.text(`Place of Supply: ${placeOfSupplyLabel(invoice, load, shipperOnboarding)}`, metaX);
+    if (invoice.ewayBillNumber) {
+      doc.text(`E-way Bill: ${invoice.ewayBillNumber}`, metaX);
+    }
+
+    // Parties
+    const partiesTop = 160;
+    doc.moveTo(left, partiesTop - 6).lineTo(left + pageWidth, partiesTop - 6).strokeColor("#cccccc").stroke();
+
+    const shipperName = shipperOnboarding?.legalCompanyName || shipper?.companyName || load?.shipperCompanyName || shipper?.username || "-";
+    const shipperAddress = [
+      shipperOnboarding?.registeredAddress || shipper?.companyAddress || load?.shipperCompanyAddress,
+      shipperOnboarding?.registeredCity,
+      shipperOnboarding?.registeredState,
+      shipperOnboarding?.registeredPincode,
+    ].filter(Boolean).join(", ");
+    const shipperGstin = invoice.shipperGstin || shipperOnboarding?.gstinNumber || "Unregistered";
+
+    doc.font("Helvetica-Bold").fontSize(9).text("Bill To (Recipient)", left, partiesTop);
+    doc.font("Helvetica").fontSize(9)
+      .text(shipperName, left, doc.y, { width: pageWidth / 2 - 10 })
+      .text(shipperAddress || "-", { width: pageWidth / 2 - 10 })
+      .text(`GSTIN: ${shipperGstin}`);
+
+    const carrierName = carrier?.companyName || carrier?.username || "-";
+    const carrierGstin = invoice.carrierGstin || carrierVerification?.gstinNumber || "Unregistered";
+    doc.font("Helvetica-Bold").fontSize(9).text("Transporter", metaX, partiesTop);
+    doc.font("Helvetica").fontSize(9)
+      .text(carrierName, metaX, doc.y, { width: pageWidth / 2 - 20 })
+      .text(`GSTIN: ${carrierGstin}`, metaX);
+    if (load) {
+      doc.text(`Route: ${load.pickupCity} to ${load.dropoffCity}`, metaX, doc.y, { width: pageWidth / 2 - 20 });
+      doc.text(`Weight: ${load.weight} ${load.weightUnit || "MT"}`, metaX);
+    }
+
+    // Line items table
+    let y = Math.max(doc.y, 235) + 10;
+    const cols = { sn: left, desc: left + 25, sac: left + 270, qty: left + 330, rate: left + 370, amount: left + 445 };
+
+    const drawTableHeader = () => {
+      doc.rect(left, y, pageWidth, 18).fill("#f1f5f9");
+      doc.fillColor("#000000").font("Helvetica-Bold").fontSize(9);
+      doc.text("#", cols.sn + 4, y + 5);
+      doc.text("Description", cols.desc, y + 5);
+      doc.text("HSN/SAC", cols.sac, y + 5);
+      doc.text("Qty", cols.qty, y + 5);
+      doc.text("Rate", cols.rate, y + 5, { width: 70, align: "right" });
+      doc.text("Amount", cols.amount, y + 5, { width: pageWidth - (cols.amount - left) - 4, align: "right" });
+      doc.font("Helvetica").fontSize(9);
+      y += 22;
+    };
+    drawTableHeader();
+
+    const sacCode = invoice.hsnSacCode || GTA_SAC_CODE;
+    normalizeLineItems(invoice).forEach((item, index) => {
+      const rowHeight = Math.max(14, doc.heightOfString(item.description, { width: 240 }) + 4);
+      if (y + rowHeight > contentBottom) {
+        doc.addPage();
+        y = 40;
+        drawTableHeader();
+      }
+      doc.text(String(index + 1), cols.sn + 4, y);
+      doc.text(item.description, cols.desc, y, { width: 240 });
+      doc.text(sacCode, cols.sac, y);
+      doc.text(String(item.quantity), cols.qty, y);
+      doc.text(item.rate.toLocaleString("en-IN", { maximumFractionDigits: 2 }), cols.rate, y, { width: 70, align: "right" });
+      doc.text(item.amount.toLocaleString("en-IN", { maximumFractionDigits: 2 }), cols.amount, y, { width: pageWidth - (cols.amount - left) - 4, align: "right" });
+      y += rowHeight;
+    });
+
+    doc.moveTo(left, y + 2).lineTo(left + pageWidth, y + 2).strokeColor("#cccccc").stroke();
+    y += 10;
+
+    // Tax summary
+    const subtotal = toNumber(invoice.subtotal);
+    const discount = toNumber(invoice.discountAmount);
+    const taxableValue = subtotal - discount;
+    const cgst = toNumber(invoice.cgstAmount);
+    const sgst = toNumber(invoice.sgstAmount);
+    const igst = toNumber(invoice.igstAmount);
+    const gstPercent = toNumber(invoice.gstPercent);
+    const total = toNumber(invoice.totalAmount);
+
+    const summaryRows: [string, number][] = [["Subtotal", subtotal]];
+    if (discount > 0) summaryRows.push([`Discount${invoice.discountReason ? ` (${invoice.discountReason})` : ""}`, -discount]);
+    summaryRows.push(["Taxable Value", taxableValue]);
+    if (invoice.gstApplicable !== false && igst > 0) {
+      summaryRows.push([`IGST @ ${gstPercent}%`, igst]);
+    } else if (invoice.gstApplicable !== false && (cgst > 0 || sgst > 0)) {
+      summaryRows.push([`CGST @ ${gstPercent / 2}%`, cgst]);
+      summaryRows.push([`SGST @ ${gstPercent / 2}%`, sgst]);
+    }
+
+    // Keep the summary, total and amount in words together
+    if (y + summaryRows.length * 14 + 50 > contentBottom) {
+      doc.addPage();
+      y = 40;
+    }
+
+    const labelX = left + pageWidth - 250;
+    summaryRows.forEach(([label, value]) => {
+      doc.font("Helvetica").fontSize(9).text(label, labelX, y, { width: 150 });
+      doc.text(formatInr(value), labelX + 150, y, { width: 100, align: "right" });
+      y += 14;
+    });
+
+    doc.rect(labelX - 4, y, 254, 20).fill("#f1f5f9");
+    doc.fillColor("#000000").font("Helvetica-Bold").fontSize(10);
+    doc.text("Invoice Total", labelX, y + 5, { width: 150 });
+    doc.text(formatInr(total), labelX + 150, y + 5, { width: 100, align: "right" });
+    y += 28;
+
+    doc.font("Helvetica-Oblique").fontSize(9).text(amountInWords(total), left, y, { width: pageWidth });
+    y = doc.y + 6;
+    if (invoice.gstApplicable !== false && cgst + sgst + igst === 0) {
+      doc.font("Helvetica").fontSize(8).fillColor("#555555")
+        .text("GST payable under reverse charge by the recipient, where applicable.", left, y, { width: pageWidth });
+      doc.fillColor("#000000");
+      y = doc.y + 6;
+    }
+
+    // Payment terms
+    doc.font("Helvetica-Bold").fontSize(9).text("Payment Terms", left, y + 6);
+    doc.font("Helvetica").fontSize(9).text(`${invoice.paymentTerms || "Net 30"} (due ${formatDate(invoice.dueDate)})`);
+    const advanceAmount = toNumber(invoice.advancePaymentAmount);
+    if (invoice.advancePaymentPercent && advanceAmount > 0) {
+      doc.text(`Advance (${invoice.advancePaymentPercent}%): ${formatInr(advanceAmount)}`);
+      doc.text(`Balance on Delivery: ${formatInr(toNumber(invoice.balanceOnDelivery) || total - advanceAmount)}`);
+    }
+    if (invoice.notes) {
+      doc.moveDown(0.5).font("Helvetica-Bold").text("Notes");
+      doc.font("Helvetica").text(invoice.notes, { width: pageWidth });
+    }
+
+    // Footer on every page
+    const pages = doc.bufferedPageRange();
+    for (let i = pages.start; i < pages.start + pages.count; i++) {
+      doc.switchToPage(i);
+      const footerY = doc.page.height - 60;
+      doc.font("Helvetica").fontSize(8).fillColor("#777777");
+      doc.text(
+        "This is a computer generated invoice and does not require a physical signature.",
+        left,
+        footerY,
+        { align: "center", width: pageWidth, lineBreak: false }
+      );
+      if (pages.count > 1) {
+        doc.text(`Page ${i - pages.start + 1} of ${pages.count}`, left, footerY + 10, { align: "center", width: pageWidth, lineBreak: false });
+      }
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Gather invoice context, render the PDF, upload it and persist pdfUrl
+ */
+export async function generateInvoicePdf(invoiceId: string, generatedBy: string): Promise<Invoice> {
+  const invoice = await storage.getInvoice(invoiceId);
+  if (!invoice) {
+    throw new Error("Invoice not found");
+  }
+
+  const load = await storage.getLoad(invoice.loadId);
+  const shipper = await storage.getUser(invoice.shipperId);
+  const shipperOnboarding = await storage.getShipperOnboardingRequest(invoice.shipperId);
+  const carrierId = load?.assignedCarrierId;
+  const carrier = carrierId ? await storage.getUser(carrierId) : undefined;
+  const carrierVerification = carrierId ? await storage.getCarrierVerificationByCarrier(carrierId) : undefined;
+
+  const pdf = await renderInvoicePdf({ invoice, load, shipper, shipperOnboarding, carrier, carrierVerification });
+
+  const objectStorageService = new ObjectStorageService();
+  const pdfUrl = await objectStorageService.uploadObjectEntity(pdf, {
+    contentType: "application/pdf",
+    folder: "invoices",
+    fileName: `${invoice.invoiceNumber}-r${invoice.revisionNumber || 1}-${Date.now()}.pdf`,
+  });
+
+  const updated = await storage.updateInvoice(invoice.id, { pdfUrl });
+
+  await storage.createInvoiceHistory({
+    invoiceId: invoice.id,
+    userId: generatedBy,
+    action: "generate_pdf",
+    payload: { pdfUrl },
+  });
+
+  return updated || { ...invoice, pdfUrl };
+}
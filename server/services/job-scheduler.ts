@@ -0,0 +1,127 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+
+/**
+ * Job Scheduler
+ *
+ * Runs recurring background jobs off the scheduled_jobs table. Each job's row
+ * is also its lease: an instance claims the job with a conditional UPDATE
+ * (due, enabled, lease free), runs it, then releases the lease and sets the
+ * next run time. Every instance polls, but only one runs a given job at once,
+ * and a crashed instance's lease simply times out.
+ *
+ * Jobs register at startup with registerJob(); see workflow-jobs.ts.
+ */
+
+export type JobResult = Record<string, number | string> | void;
+
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<JobResult>;
+}
+
+const POLL_INTERVAL_MS = 30 * 1000;
+// A job that hasn't released its lease by then is assumed dead
+const LEASE_MS = 10 * 60 * 1000;
+// Failed runs retry sooner than the normal interval, but not in a hot loop
+const FAILURE_RETRY_MS = 60 * 1000;
+
+const instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+const jobs = new Map<string, JobDefinition>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+export function registerJob(job: JobDefinition): void {
+  jobs.set(job.name, job);
+}
+
+export function getRegisteredJobs(): JobDefinition[] {
+  return Array.from(jobs.values());
+}
+
+async function runClaimedJob(job: JobDefinition): Promise<{ status: "success" | "failed"; result?: JobResult; error?: string }> {
+  const startedAt = Date.now();
+  try {
+    const result = await job.run();
+    await storage.releaseScheduledJob(job.name, instanceId, {
+      status: "success",
+      result: result || null,
+      nextRunAt: new Date(Date.now() + job.intervalMs),
+    });
+    if (result && Object.values(result).some(v => typeof v === "number" && v > 0)) {
+      console.log(`[Scheduler] ${job.name} finished in ${Date.now() - startedAt}ms:`, result);
+    }
+    return { status: "success", result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Scheduler] ${job.name} failed:`, error);
+    await storage.releaseScheduledJob(job.name, instanceId, {
+      status: "failed",
+      error: message,
+      nextRunAt: new Date(Date.now() + Math.min(job.intervalMs, FAILURE_RETRY_MS)),
+    });
+    return { status: "failed", error: message };
+  }
+}
+
+async function poll(): Promise<void> {
+  // Skip a tick rather than overlap when a job runs long
+  if (polling) return;
+  polling = true;
+  try {
+    for (const job of Array.from(jobs.values())) {
+      const claimed = await storage.claimScheduledJob(job.name, instanceId, new Date(Date.now() + LEASE_MS));
+      if (claimed) {
+        await runClaimedJob(job);
+      }
+    }
+  } catch (error) {
+    console.error("[Scheduler] Poll failed:", error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Run a job immediately (admin trigger), still honouring the lease
+ */
+export async function runJobNow(name: string): Promise<{ success: boolean; error?: string; result?: JobResult }> {
+  const job = jobs.get(name);
+  if (!job) {
+    return { success: false, error: "Unknown job" };
+  }
+
+  const claimed = await storage.claimScheduledJob(job.name, instanceId, new Date(Date.now() + LEASE_MS), true);
+  if (!claimed) {
+    return { success: false, error: "Job is already running on another instance" };
+  }
+
+  const outcome = await runClaimedJob(job);
+  return outcome.status === "success"
+    ? { success: true, result: outcome.result }
+    : { success: false, error: outcome.error };
+}
+
+export async function startScheduler(): Promise<void> {
+  if (pollTimer) return;
+
+  for (const job of Array.from(jobs.values())) {
+    await storage.ensureScheduledJob(job.name, Math.round(job.intervalMs / 1000));
+  }
+
+  console.log(`[Scheduler] Started ${jobs.size} jobs on ${instanceId}`);
+  pollTimer = setInterval(() => {
+    poll();
+  }, POLL_INTERVAL_MS);
+  poll();
+}
+
+export function stopScheduler(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../storage", () => ({ storage: {} }));
+vi.mock("../workflow-service", () => ({
+  acceptBid: vi.fn(),
+  checkCarrierDocumentCompliance: vi.fn(),
+  transitionLoadState: vi.fn(),
+}));
+
+import { consolidationKey, getConsolidationBlocker, splitConsolidationPrice } from "./load-consolidation";
+import { startOfDay } from "./load-schedules";
+import type { Load, LoadConsolidation } from "@shared/schema";
+
+function ptlLoad(overrides: Partial<Load> = {}): Load {
+  return {
+    id: "load-1",
+    isPtl: true,
+    isMultiStop: false,
+    consolidationId: null,
+    status: "pending",
+    pickupCity: "Mumbai",
+    dropoffCity: "Pune",
+    pickupDate: new Date("2026-10-20T04:30:00Z"),
+    ...overrides,
+  } as Load;
+}
+
+function consolidationFor(load: Load): LoadConsolidation {
+  return {
+    id: "cons-1",
+    pickupCity: load.pickupCity,
+    dropoffCity: load.dropoffCity,
+    pickupDate: startOfDay(new Date(load.pickupDate!)),
+  } as LoadConsolidation;
+}
+
+describe("consolidationKey", () => {
+  it("keys on the IST pickup day", () => {
+    // 00:30 IST on 20 Oct is still 19 Oct in UTC
+    const early = ptlLoad({ pickupDate: new Date("2026-10-19T19:00:00Z") });
+    const late = ptlLoad({ pickupDate: new Date("2026-10-20T18:00:00Z") });
+    expect(consolidationKey(early)).toBe(consolidationKey(late));
+    expect(consolidationKey(early)).toMatch(/\|2026-10-20$/);
+  });
+
+  it("matches the IST midnight a consolidation stores", () => {
+    const load = ptlLoad();
+    expect(consolidationKey(consolidationFor(load))).toBe(consolidationKey(load));
+  });
+
+  it("is null without a pickup date", () => {
+    expect(consolidationKey(ptlLoad({ pickupDate: null }))).toBeNull();
+  });
+});
+
+describe("getConsolidationBlocker", () => {
+  it("lets a PTL load on the same lane and day join", () => {
+    const load = ptlLoad();
+    expect(getConsolidationBlocker(load, consolidationFor(load))).toBeNull();
+  });
+
+  it("rejects a load picked up on another IST day", () => {
+    const load = ptlLoad();
+    const nextDay = ptlLoad({ pickupDate: new Date("2026-10-20T19:00:00Z") });
+    expect(getConsolidationBlocker(nextDay, consolidationFor(load))).toBe("Load is on a different lane or pickup day");
+  });
+
+  it("rejects full-truck and multi-stop loads", () => {
+    expect(getConsolidationBlocker(ptlLoad({ isPtl: false }))).toMatch(/not PTL/);
+    expect(getConsolidationBlocker(ptlLoad({ isMultiStop: true }))).toMatch(/Multi-stop/);
+  });
+});
+
+describe("splitConsolidationPrice", () => {
+  it("splits by weight x distance and the shares add up to the totals", () => {
+    const shares = splitConsolidationPrice(
+      [
+        { loadId: "a", weightTons: 3, distanceKm: 100 },
+        { loadId: "b", weightTons: 6, distanceKm: 100 },
+        { loadId: "c", weightTons: 1, distanceKm: null },
+      ],
+      10000,
+      9001
+    );
+    expect(shares.map((s) => s.shipperShare)).toEqual([3000, 6000, 1000]);
+    const carrierTotal = shares.reduce((sum, s) => sum + (s.carrierShare || 0), 0);
+    expect(Math.round(carrierTotal * 100) / 100).toBe(9001);
+  });
+
+  it("leaves shares null when there is no price", () => {
+    const shares = splitConsolidationPrice([{ loadId: "a", weightTons: 2, distanceKm: 50 }], null, null);
+    expect(shares[0].shipperShare).toBeNull();
+    expect(shares[0].carrierShare).toBeNull();
+  });
+});
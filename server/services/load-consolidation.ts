@@ -0,0 +1,538 @@
+import { storage } from "../storage";
+import { acceptBid, checkCarrierDocumentCompliance, transitionLoadState } from "../workflow-service";
+import { laneCity, loadWeightTons } from "./bid-scoring";
+import { estimatePrice, PRICING_DEFAULTS, resolveTruckType } from "./pricing-engine";
+import { startOfDay, toIstCalendar } from "./load-schedules";
+import { indianTruckTypes } from "@shared/schema";
+import type { Load, LoadConsolidation, LoadConsolidationMember, LoadStatus } from "@shared/schema";
+
+/**
+ * PTL Consolidation
+ *
+ * Part-truck loads (loads.isPtl) on the same lane and pickup day can share a
+ * truck. A consolidation groups them against a capacity in tons, either by an
+ * admin or by the ptl_matcher job (first-fit by weight, largest first).
+ *
+ * The consolidation carries one trip price for the shippers and one payout
+ * for the carrier. Each member's share of both is its weight x distance over
+ * the trip total. Awarding gives every member load its own "ptl" bid at its
+ * carrier share, accepted through acceptBid, so each shipper still gets their
+ * own shipment, invoice (at their share) and tracking.
+ */
+
+// Loads that can still join or leave a consolidation
+const CONSOLIDATABLE_STATUSES: LoadStatus[] = ["pending", "priced"];
+const MIN_MEMBERS = 2;
+// Largest open truck the matcher will size a trip for
+const MAX_AUTO_CAPACITY_TONS = Math.max(...indianTruckTypes.filter((t) => t.category === "open").map((t) => t.capacityMax));
+
+export interface ConsolidationResult {
+  success: boolean;
+  error?: string;
+  consolidation?: LoadConsolidation;
+}
+
+export interface ConsolidationShare {
+  loadId: string;
+  weightTons: number;
+  distanceKm: number;
+  shareRatio: number;
+  shipperShare: number | null;
+  carrierShare: number | null;
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  const num = typeof value === "number" ? value : parseFloat(value);
+  return isNaN(num) ? 0 : num;
+}
+
+function formatRs(value: number): string {
+  return `Rs. ${Math.round(value).toLocaleString("en-IN")}`;
+}
+
+// Pickup days are IST calendar days, matching the IST midnight consolidations store
+function dayKey(date: Date): string {
+  const ist = toIstCalendar(date);
+  return `${ist.getUTCFullYear()}-${ist.getUTCMonth() + 1}-${ist.getUTCDate()}`;
+}
+
+/**
+ * Loads share a trip when they run the same lane on the same pickup day
+ */
+export function consolidationKey(load: { pickupCity: string; dropoffCity: string; pickupDate: Date | null }): string | null {
+  if (!load.pickupDate) return null;
+  return `${laneCity(load.pickupCity)}|${laneCity(load.dropoffCity)}|${dayKey(new Date(load.pickupDate))}`;
+}
+
+/**
+ * Why a load can't join a consolidation, or null when it can
+ */
+export function getConsolidationBlocker(load: Load, consolidation?: LoadConsolidation): string | null {
+  if (!load.isPtl) return "Load doesn't accept sharing (not PTL)";
+  if (load.isMultiStop) return "Multi-stop loads can't share a truck";
+  if (load.consolidationId && load.consolidationId !== consolidation?.id) return "Load is already in another consolidation";
+  if (!CONSOLIDATABLE_STATUSES.includes((load.status || "draft") as LoadStatus)) {
+    return `Load is ${load.status}, only pending or priced loads can be consolidated`;
+  }
+  if (!load.pickupDate) return "Load has no pickup date";
+  if (consolidation && consolidationKey(load) !== consolidationKey(consolidation)) {
+    return "Load is on a different lane or pickup day";
+  }
+  return null;
+}
+
+/**
+ * Split trip prices by weight x distance. Loads without a distance count at
+ * the average of the others; rounding is settled on the largest share so the
+ * shares add up to the totals.
+ */
+export function splitConsolidationPrice(
+  members: { loadId: string; weightTons: number; distanceKm: number | null }[],
+  shipperPrice: number | null,
+  carrierPayout: number | null
+): ConsolidationShare[] {
+  const known = members.map((m) => m.distanceKm || 0).filter((d) => d > 0);
+  const fallbackKm = known.length > 0 ? known.reduce((sum, d) => sum + d, 0) / known.length : 1;
+  const units = members.map((m) => m.weightTons * (m.distanceKm && m.distanceKm > 0 ? m.distanceKm : fallbackKm));
+  const totalUnits = units.reduce((sum, u) => sum + u, 0);
+
+  const ratios = units.map((u) => (totalUnits > 0 ? u / totalUnits : 1 / members.length));
+  const split = (total: number | null): (number | null)[] => {
+    if (total === null) return members.map(() => null);
+    const shares = ratios.map((ratio) => Math.round(total * ratio * 100) / 100);
+    const largest = ratios.indexOf(Math.max(...ratios));
+    const remainder = Math.round((total - shares.reduce((sum, s) => sum + s, 0)) * 100) / 100;
+    shares[largest] = Math.round((shares[largest] + remainder) * 100) / 100;
+    return shares;
+  };
+  const shipperShares = split(shipperPrice);
+  const carrierShares = split(carrierPayout);
+
+  return members.map((member, i) => ({
+    loadId: member.loadId,
+    weightTons: member.weightTons,
+    distanceKm: member.distanceKm && member.distanceKm > 0 ? member.distanceKm : fallbackKm,
+    shareRatio: Math.round(ratios[i] * 1_000_000) / 1_000_000,
+    shipperShare: shipperShares[i],
+    carrierShare: carrierShares[i],
+  }));
+}
+
+/**
+ * Suggested trip price (gross) and payout for the whole truck
+ */
+async function suggestTripPrices(
+  consolidation: Pick<LoadConsolidation, "pickupCity" | "dropoffCity" | "truckType" | "pickupDate">,
+  weightTons: number,
+  distanceKm: number
+): Promise<{ shipperPrice: string; carrierPayout: string }> {
+  const estimate = await estimatePrice({
+    pickupCity: consolidation.pickupCity,
+    dropoffCity: consolidation.dropoffCity,
+    truckType: consolidation.truckType,
+    weightTons,
+    distanceKm,
+    pickupDate: new Date(consolidation.pickupDate),
+  });
+  const payout = estimate.suggestedPrice * (1 - PRICING_DEFAULTS.platformRatePercent / 100);
+  return { shipperPrice: estimate.suggestedPrice.toFixed(2), carrierPayout: Math.round(payout).toFixed(2) };
+}
+
+/**
+ * Recompute total weight and every member's share after a change
+ */
+export async function recalculateConsolidation(consolidationId: string): Promise<LoadConsolidation | undefined> {
+  const consolidation = await storage.getLoadConsolidation(consolidationId);
+  if (!consolidation) return undefined;
+  const members = await storage.getLoadConsolidationMembers(consolidationId);
+
+  const shares = splitConsolidationPrice(
+    members.map((m) => ({ loadId: m.loadId, weightTons: toNumber(m.weightTons), distanceKm: toNumber(m.distanceKm) || null })),
+    consolidation.shipperPrice !== null ? toNumber(consolidation.shipperPrice) : null,
+    consolidation.carrierPayout !== null ? toNumber(consolidation.carrierPayout) : null
+  );
+  for (let i = 0; i < members.length; i++) {
+    await storage.updateLoadConsolidationMember(members[i].id, {
+      shareRatio: shares[i].shareRatio.toString(),
+      shipperShare: shares[i].shipperShare !== null ? shares[i].shipperShare!.toFixed(2) : null,
+      carrierShare: shares[i].carrierShare !== null ? shares[i].carrierShare!.toFixed(2) : null,
+    });
+  }
+
+  const totalWeight = members.reduce((sum, m) => sum + toNumber(m.weightTons), 0);
+  return storage.updateLoadConsolidation(consolidationId, { totalWeight: totalWeight.toFixed(2) });
+}
+
+async function addMember(consolidation: LoadConsolidation, load: Load): Promise<LoadConsolidationMember> {
+  const member = await storage.createLoadConsolidationMember({
+    consolidationId: consolidation.id,
+    loadId: load.id,
+    weightTons: loadWeightTons(load).toFixed(2),
+    distanceKm: load.distance,
+  });
+  await storage.updateLoad(load.id, { consolidationId: consolidation.id });
+  return member;
+}
+
+/**
+ * Group PTL loads into a new consolidation. Capacity defaults to the truck
+ * type's maximum, or the smallest open truck that carries them all.
+ */
+export async function createConsolidation(
+  loadIds: string[],
+  options: { capacityTons?: number | null; truckType?: string | null; createdBy?: string | null; source?: "manual" | "auto"; notes?: string | null } = {}
+): Promise<ConsolidationResult> {
+  const uniqueIds = Array.from(new Set(loadIds));
+  if (uniqueIds.length < MIN_MEMBERS) return { success: false, error: `Select at least ${MIN_MEMBERS} loads` };
+
+  const loads: Load[] = [];
+  for (const loadId of uniqueIds) {
+    const load = await storage.getLoad(loadId);
+    if (!load) return { success: false, error: `Load ${loadId} not found` };
+    const blocker = getConsolidationBlocker(load);
+    if (blocker) return { success: false, error: `LD-${load.shipperLoadNumber ?? load.id.slice(0, 8)}: ${blocker}` };
+    loads.push(load);
+  }
+  const key = consolidationKey(loads[0]);
+  if (loads.some((load) => consolidationKey(load) !== key)) {
+    return { success: false, error: "Loads must share the same lane and pickup day" };
+  }
+
+  const totalWeight = loads.reduce((sum, load) => sum + loadWeightTons(load), 0);
+  const truck = options.truckType
+    ? indianTruckTypes.find((t) => t.value === options.truckType)
+    : resolveTruckType(null, Math.min(totalWeight, MAX_AUTO_CAPACITY_TONS)).truck;
+  const capacityTons = options.capacityTons || truck?.capacityMax || MAX_AUTO_CAPACITY_TONS;
+  if (totalWeight > capacityTons) {
+    return { success: false, error: `Loads weigh ${totalWeight.toFixed(1)} t, over the ${capacityTons} t capacity` };
+  }
+
+  const first = loads[0];
+  const distanceKm = Math.max(...loads.map((load) => toNumber(load.distance)));
+  const base = {
+    pickupCity: first.pickupCity,
+    dropoffCity: first.dropoffCity,
+    pickupDate: startOfDay(new Date(first.pickupDate!)),
+    truckType: truck?.value || options.truckType || null,
+  };
+  const prices = await suggestTripPrices(base, totalWeight, distanceKm);
+
+  const consolidation = await storage.createLoadConsolidation({
+    ...base,
+    capacityTons: capacityTons.toString(),
+    totalWeight: totalWeight.toFixed(2),
+    shipperPrice: prices.shipperPrice,
+    carrierPayout: prices.carrierPayout,
+    status: "open",
+    source: options.source || "manual",
+    createdBy: options.createdBy || null,
+    notes: options.notes || null,
+  });
+  for (const load of loads) {
+    await addMember(consolidation, load);
+  }
+
+  return { success: true, consolidation: await recalculateConsolidation(consolidation.id) };
+}
+
+export async function addLoadToConsolidation(consolidationId: string, loadId: string): Promise<ConsolidationResult> {
+  const consolidation = await storage.getLoadConsolidation(consolidationId);
+  if (!consolidation) return { success: false, error: "Consolidation not found" };
+  if (consolidation.status !== "open") return { success: false, error: `Consolidation is ${consolidation.status}` };
+
+  const load = await storage.getLoad(loadId);
+  if (!load) return { success: false, error: "Load not found" };
+  if (load.consolidationId === consolidation.id) return { success: true, consolidation };
+  const blocker = getConsolidationBlocker(load, consolidation);
+  if (blocker) return { success: false, error: blocker };
+
+  const weight = loadWeightTons(load);
+  if (toNumber(consolidation.totalWeight) + weight > toNumber(consolidation.capacityTons)) {
+    return { success: false, error: `Not enough room: ${weight.toFixed(1)} t more would exceed ${consolidation.capacityTons} t` };
+  }
+
+  await addMember(consolidation, load);
+  return { success: true, consolidation: await recalculateConsolidation(consolidation.id) };
+}
+
+export async function removeLoadFromConsolidation(consolidationId: string, loadId: string): Promise<ConsolidationResult> {
+  const consolidation = await storage.getLoadConsolidation(consolidationId);
+  if (!consolidation) return { success: false, error: "Consolidation not found" };
+  if (consolidation.status !== "open") return { success: false, error: `Consolidation is ${consolidation.status}` };
+
+  const members = await storage.getLoadConsolidationMembers(consolidationId);
+  const member = members.find((m) => m.loadId === loadId);
+  if (!member) return { success: false, error: "Load is not in this consolidation" };
+
+  await storage.deleteLoadConsolidationMember(member.id);
+  await storage.updateLoad(loadId, { consolidationId: null });
+  return { success: true, consolidation: await recalculateConsolidation(consolidation.id) };
+}
+
+/**
+ * Cancel an open consolidation; its loads go back to being standalone PTL loads
+ */
+export async function cancelConsolidation(consolidationId: string): Promise<ConsolidationResult> {
+  const consolidation = await storage.getLoadConsolidation(consolidationId);
+  if (!consolidation) return { success: false, error: "Consolidation not found" };
+  if (consolidation.status !== "open") return { success: false, error: `Consolidation is ${consolidation.status}` };
+
+  const members = await storage.getLoadConsolidationMembers(consolidationId);
+  for (const member of members) {
+    await storage.updateLoad(member.loadId, { consolidationId: null });
+  }
+  const updated = await storage.updateLoadConsolidation(consolidationId, { status: "cancelled" });
+  return { success: true, consolidation: updated };
+}
+
+/**
+ * Put a load the award couldn't book back as it was before the award
+ */
+async function restoreUnawardedLoad(load: Load): Promise<void> {
+  await storage.updateLoad(load.id, {
+    status: load.status,
+    adminSuggestedPrice: load.adminSuggestedPrice,
+    adminFinalPrice: load.adminFinalPrice,
+    adminPostMode: load.adminPostMode,
+    adminId: load.adminId,
+    allowCounterBids: load.allowCounterBids,
+    postedAt: load.postedAt,
+  });
+}
+
+/**
+ * Award the shared trip to one carrier and truck. Every member load is priced
+ * at its shipper share, posted as an assigned load and accepted at its
+ * carrier share, giving each its own shipment and invoice. A load that can't
+ * be booked is restored; if others were booked it leaves the trip and is a
+ * standalone PTL load again, otherwise the trip stays open.
+ */
+export async function awardConsolidation(
+  consolidationId: string,
+  carrierId: string,
+  truckId: string,
+  actingAdminId: string
+): Promise<ConsolidationResult & { awardedLoadIds?: string[]; failures?: { loadId: string; error: string }[] }> {
+  const current = await storage.getLoadConsolidation(consolidationId);
+  if (!current) return { success: false, error: "Consolidation not found" };
+  if (current.status !== "open") return { success: false, error: `Consolidation is ${current.status}` };
+
+  const members = await storage.getLoadConsolidationMembers(consolidationId);
+  if (members.length < MIN_MEMBERS) return { success: false, error: `A shared trip needs at least ${MIN_MEMBERS} loads` };
+  if (current.shipperPrice === null || current.carrierPayout === null) {
+    return { success: false, error: "Set the trip price and carrier payout first" };
+  }
+
+  const truck = await storage.getTruck(truckId);
+  if (!truck || truck.carrierId !== carrierId) return { success: false, error: "Truck not found for this carrier" };
+  const truckCapacity = /kg/i.test(truck.capacityUnit || "") ? truck.capacity / 1000 : truck.capacity;
+  if (toNumber(current.totalWeight) > truckCapacity) {
+    return { success: false, error: `Truck ${truck.licensePlate} carries ${truckCapacity} t, the loads weigh ${current.totalWeight} t` };
+  }
+  const compliance = await checkCarrierDocumentCompliance(carrierId);
+  if (!compliance.compliant) return { success: false, error: compliance.reason || "Carrier documents are not compliant" };
+
+  const loads: Load[] = [];
+  for (const member of members) {
+    const load = await storage.getLoad(member.loadId);
+    const status = (load?.status || "draft") as LoadStatus;
+    if (!load || ![...CONSOLIDATABLE_STATUSES, "posted_to_carriers"].includes(status)) {
+      return { success: false, error: `Load ${load?.shipperLoadNumber ?? member.loadId} is ${status} and can't be awarded` };
+    }
+    loads.push(load);
+  }
+
+  const consolidation = (await recalculateConsolidation(consolidationId)) || current;
+  const shares = await storage.getLoadConsolidationMembers(consolidationId);
+  const carrierProfile = await storage.getCarrierProfile(carrierId);
+  const tripLabel = `PTL trip ${consolidation.pickupCity} to ${consolidation.dropoffCity}`;
+  const awardedLoadIds: string[] = [];
+  const failures: { loadId: string; error: string }[] = [];
+  const failedLoads: Load[] = [];
+  const fail = (load: Load, error: string) => {
+    failures.push({ loadId: load.id, error });
+    failedLoads.push(load);
+  };
+
+  for (const load of loads) {
+    const share = shares.find((m) => m.loadId === load.id)!;
+    const adminReferenceNumber = load.adminReferenceNumber || await storage.getNextAdminReferenceNumber(load.shipperId);
+    await storage.updateLoad(load.id, {
+      adminSuggestedPrice: share.shipperShare,
+      adminFinalPrice: share.shipperShare,
+      adminPostMode: "assign",
+      adminId: actingAdminId,
+      allowCounterBids: false,
+      adminReferenceNumber,
+      postedAt: new Date(),
+    });
+
+    if (load.status === "pending") {
+      const priced = await transitionLoadState(load.id, "priced", actingAdminId, tripLabel);
+      if (!priced.success) {
+        fail(load, priced.error || "Couldn't price load");
+        continue;
+      }
+    }
+    if (load.status !== "posted_to_carriers") {
+      const posted = await transitionLoadState(load.id, "posted_to_carriers", actingAdminId, tripLabel);
+      if (!posted.success) {
+        fail(load, posted.error || "Couldn't post load");
+        continue;
+      }
+    }
+
+    const bid = await storage.createBid({
+      loadId: load.id,
+      carrierId,
+      truckId,
+      amount: share.carrierShare!,
+      notes: `${tripLabel} (${Math.round(toNumber(share.shareRatio) * 100)}% share)`,
+      status: "pending",
+      bidType: "ptl",
+      carrierType: carrierProfile?.carrierType || "enterprise",
+    });
+    const accepted = await acceptBid(bid.id, actingAdminId, toNumber(share.carrierShare));
+    if (!accepted.success) {
+      await storage.updateBid(bid.id, { status: "rejected", notes: `PTL award failed: ${accepted.error}` });
+      fail(load, accepted.error || "Couldn't accept bid");
+      continue;
+    }
+    awardedLoadIds.push(load.id);
+
+    await storage.createAuditLog({
+      adminId: actingAdminId,
+      loadId: load.id,
+      actionType: "ptl_awarded",
+      actionDescription: `${tripLabel}: share ${formatRs(toNumber(share.shipperShare))}, payout ${formatRs(toNumber(share.carrierShare))}`,
+      metadata: { consolidationId, carrierId, truckId, bidId: bid.id, shareRatio: share.shareRatio },
+    });
+  }
+
+  for (const load of failedLoads) {
+    await restoreUnawardedLoad(load);
+  }
+  if (awardedLoadIds.length === 0) {
+    return { success: false, error: failures[0]?.error || "No load could be awarded", failures };
+  }
+
+  // The awarded loads keep the shares they were booked at; failed ones leave the trip
+  for (const load of failedLoads) {
+    const member = shares.find((m) => m.loadId === load.id);
+    if (member) await storage.deleteLoadConsolidationMember(member.id);
+    await storage.updateLoad(load.id, { consolidationId: null });
+  }
+  const awardedShares = shares.filter((m) => awardedLoadIds.includes(m.loadId));
+  const awardedWeight = awardedShares.reduce((sum, m) => sum + toNumber(m.weightTons), 0);
+  const awardedPayout = awardedShares.reduce((sum, m) => sum + toNumber(m.carrierShare), 0);
+
+  const updated = await storage.updateLoadConsolidation(consolidationId, {
+    status: "awarded",
+    carrierId,
+    truckId,
+    totalWeight: awardedWeight.toFixed(2),
+    awardedAt: new Date(),
+  });
+  const others = awardedLoadIds.length - 1;
+  for (const share of awardedShares) {
+    const load = loads.find((l) => l.id === share.loadId)!;
+    await storage.createNotification({
+      userId: load.shipperId,
+      title: "Shared Truck Booked",
+      message: `Your load from ${load.pickupCity} to ${load.dropoffCity} ${others > 0 ? `shares a truck with ${others} other load${others > 1 ? "s" : ""}` : "is booked on a shared truck"}. Your share is ${formatRs(toNumber(share.shipperShare))}.`,
+      type: "success",
+      relatedLoadId: load.id,
+    });
+  }
+  await storage.createNotification({
+    userId: carrierId,
+    title: "Shared Truck Trip Assigned",
+    message: `${tripLabel} on ${new Date(consolidation.pickupDate).toLocaleDateString("en-IN", { timeZone: "Asia/Kolkata" })}: ${awardedLoadIds.length} load${awardedLoadIds.length > 1 ? "s" : ""}, ${awardedWeight.toFixed(2)} t on ${truck.licensePlate}, total payout ${formatRs(awardedPayout)}.`,
+    type: "success",
+    relatedLoadId: awardedLoadIds[0],
+  });
+
+  return { success: true, consolidation: updated, awardedLoadIds, failures };
+}
+
+/**
+ * Group waiting PTL loads. Loads first fill open consolidations on their lane
+ * and day, then the rest are packed largest first into new trips sized to the
+ * smallest open truck that fits; a trip needs at least two loads.
+ */
+export async function runPtlMatcher(): Promise<{ grouped: number; consolidations: number }> {
+  const candidates = await storage.getPtlCandidateLoads();
+  const openConsolidations = await storage.getLoadConsolidations({ status: "open" });
+
+  const groups = new Map<string, Load[]>();
+  for (const load of candidates) {
+    const key = consolidationKey(load);
+    if (!key || loadWeightTons(load) <= 0) continue;
+    groups.set(key, [...(groups.get(key) || []), load]);
+  }
+
+  let grouped = 0;
+  let created = 0;
+  const admins = await storage.getAdmins();
+
+  for (const key of Array.from(groups.keys())) {
+    const loads = groups.get(key)!.sort((a, b) => loadWeightTons(b) - loadWeightTons(a));
+    const remaining: Load[] = [];
+
+    for (const load of loads) {
+      const target = openConsolidations.find((c) =>
+        consolidationKey(c) === key && toNumber(c.totalWeight) + loadWeightTons(load) <= toNumber(c.capacityTons)
+      );
+      if (target) {
+        const result = await addLoadToConsolidation(target.id, load.id);
+        if (result.success && result.consolidation) {
+          Object.assign(target, result.consolidation);
+          grouped++;
+          continue;
+        }
+      }
+      remaining.push(load);
+    }
+
+    const total = remaining.reduce((sum, load) => sum + loadWeightTons(load), 0);
+    const capacity = resolveTruckType(null, Math.min(total, MAX_AUTO_CAPACITY_TONS)).truck.capacityMax;
+    const bins: Load[][] = [];
+    const binWeights: number[] = [];
+    for (const load of remaining) {
+      const weight = loadWeightTons(load);
+      if (weight >= capacity) continue;
+      const index = binWeights.findIndex((used) => used + weight <= capacity);
+      if (index >= 0) {
+        bins[index].push(load);
+        binWeights[index] += weight;
+      } else {
+        bins.push([load]);
+        binWeights.push(weight);
+      }
+    }
+
+    for (const bin of bins) {
+      if (bin.length < MIN_MEMBERS) continue;
+      const result = await createConsolidation(bin.map((load) => load.id), { source: "auto" });
+      if (!result.success || !result.consolidation) {
+        console.error(`[ptl_matcher] ${key}: ${result.error}`);
+        continue;
+      }
+      openConsolidations.push(result.consolidation);
+      grouped += bin.length;
+      created++;
+      for (const admin of admins) {
+        await storage.createNotification({
+          userId: admin.id,
+          title: "PTL Loads Consolidated",
+          message: `${bin.length} part-truck loads from ${result.consolidation.pickupCity} to ${result.consolidation.dropoffCity} were grouped into one ${result.consolidation.totalWeight} t trip. Review the price and award it.`,
+          type: "info",
+          relatedLoadId: bin[0].id,
+        });
+      }
+    }
+  }
+
+  return { grouped, consolidations: created };
+}
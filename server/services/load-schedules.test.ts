@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../storage", () => ({
+  storage: { getLoadScheduleOccurrences: vi.fn(async () => []) },
+}));
+vi.mock("./contract-rates", () => ({ applyContractRate: vi.fn() }));
+vi.mock("./site-geocoding", () => ({ queueLoadSiteGeocoding: vi.fn() }));
+
+import {
+  describeSchedule,
+  getUpcomingOccurrences,
+  listOccurrenceDates,
+  occursOn,
+  startOfDay,
+} from "./load-schedules";
+import type { LoadSchedule } from "@shared/schema";
+
+// IST midnight of a calendar day, as schedules store it
+function istDay(date: string): Date {
+  return new Date(`${date}T00:00:00+05:30`);
+}
+
+function schedule(overrides: Partial<LoadSchedule> = {}): LoadSchedule {
+  return {
+    id: "sched-1",
+    shipperId: "shipper-1",
+    templateLoadId: "template-1",
+    name: "Weekly Mumbai run",
+    frequency: "weekly",
+    weekdays: null,
+    dayOfMonth: null,
+    pickupOffsetDays: 0,
+    deliveryOffsetDays: null,
+    pickupTime: "09:00",
+    startDate: istDay("2026-10-05"),
+    endDate: null,
+    isActive: true,
+    lastOccurrenceDate: null,
+    createdCount: 0,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+describe("startOfDay", () => {
+  it("returns IST midnight whatever the server's zone", () => {
+    expect(startOfDay(new Date("2026-10-20T10:00:00Z")).toISOString()).toBe("2026-10-19T18:30:00.000Z");
+    // 01:00 IST on 20 Oct is still 19 Oct in UTC
+    expect(startOfDay(new Date("2026-10-19T19:30:00Z")).toISOString()).toBe("2026-10-19T18:30:00.000Z");
+  });
+});
+
+describe("occursOn", () => {
+  it("repeats weekly on the start date's IST weekday by default", () => {
+    // 5 Oct 2026 is a Monday
+    const weekly = schedule();
+    expect(occursOn(weekly, istDay("2026-10-12"))).toBe(true);
+    expect(occursOn(weekly, istDay("2026-10-13"))).toBe(false);
+    expect(occursOn(weekly, istDay("2026-09-28"))).toBe(false);
+  });
+
+  it("uses the listed weekdays", () => {
+    const weekly = schedule({ weekdays: [2, 4] });
+    expect(occursOn(weekly, istDay("2026-10-13"))).toBe(true);
+    expect(occursOn(weekly, istDay("2026-10-15"))).toBe(true);
+    expect(occursOn(weekly, istDay("2026-10-12"))).toBe(false);
+  });
+
+  it("falls back to the last day of a shorter month", () => {
+    const monthly = schedule({ frequency: "monthly", dayOfMonth: 31, startDate: istDay("2026-01-01") });
+    expect(occursOn(monthly, istDay("2026-02-28"))).toBe(true);
+    expect(occursOn(monthly, istDay("2026-03-31"))).toBe(true);
+    expect(occursOn(monthly, istDay("2026-04-30"))).toBe(true);
+    expect(occursOn(monthly, istDay("2026-03-30"))).toBe(false);
+  });
+
+  it("stops after the end date", () => {
+    const daily = schedule({ frequency: "daily", endDate: istDay("2026-10-10") });
+    expect(occursOn(daily, istDay("2026-10-10"))).toBe(true);
+    expect(occursOn(daily, istDay("2026-10-11"))).toBe(false);
+  });
+});
+
+describe("listOccurrenceDates", () => {
+  it("lists IST days up to the count", () => {
+    const dates = listOccurrenceDates(schedule({ weekdays: [1, 5] }), new Date("2026-10-06T12:00:00Z"), { count: 3 });
+    expect(dates.map((d) => d.toISOString())).toEqual([
+      istDay("2026-10-09").toISOString(),
+      istDay("2026-10-12").toISOString(),
+      istDay("2026-10-16").toISOString(),
+    ]);
+  });
+
+  it("stops at until", () => {
+    const dates = listOccurrenceDates(schedule({ frequency: "daily" }), istDay("2026-10-05"), { until: istDay("2026-10-07") });
+    expect(dates).toHaveLength(3);
+  });
+});
+
+describe("getUpcomingOccurrences", () => {
+  it("sets pickup at the IST pickup time after the offset", async () => {
+    const weekly = schedule({ pickupOffsetDays: 1, pickupTime: "06:30", deliveryOffsetDays: 3 });
+    const [next] = await getUpcomingOccurrences(weekly, 1, new Date("2026-10-06T12:00:00Z"));
+    expect(next.status).toBe("scheduled");
+    expect(next.date.toISOString()).toBe(istDay("2026-10-12").toISOString());
+    expect(next.pickupDate.toISOString()).toBe(new Date("2026-10-13T06:30:00+05:30").toISOString());
+    expect(next.deliveryDate?.toISOString()).toBe(new Date("2026-10-15T06:30:00+05:30").toISOString());
+  });
+});
+
+describe("describeSchedule", () => {
+  it("names the repeat", () => {
+    expect(describeSchedule(schedule())).toBe("Weekly on Mon");
+    expect(describeSchedule(schedule({ frequency: "monthly", dayOfMonth: 15 }))).toBe("Monthly on day 15");
+  });
+});
@@ -0,0 +1,354 @@
+import { storage } from "../storage";
+import { applyContractRate } from "./contract-rates";
+import { queueLoadSiteGeocoding } from "./site-geocoding";
+import type {
+  InsertLoad,
+  Load,
+  LoadSchedule,
+  LoadScheduleOccurrence,
+  User,
+} from "@shared/schema";
+
+/**
+ * Load Schedules
+ *
+ * A template is a load row with isTemplate set: never priced or posted, and
+ * left out of load lists. A schedule repeats a template:
+ *
+ *   daily    every day from startDate
+ *   weekly   on the listed weekdays (0 = Sunday)
+ *   monthly  on dayOfMonth, or the last day of a shorter month
+ *
+ * The load_schedules job creates a `pending` load for each occurrence on its
+ * day, with pickup pickupOffsetDays later at pickupTime and delivery
+ * deliveryOffsetDays later, then runs contract matching as a shipper
+ * submission would. Occurrences can be skipped or edited ahead of time; those
+ * are loadScheduleOccurrences rows, as is every load the job creates, which
+ * also keeps a rerun from creating the same occurrence twice. A failed
+ * occurrence is retried on the next run while it is within MAX_CATCH_UP_DAYS.
+ *
+ * Days and pickup times are India Standard Time whatever the server's zone: a
+ * day is stored as the instant of its IST midnight.
+ */
+
+export const LOAD_SCHEDULE_CONFIG = {
+  UPCOMING_OCCURRENCES: 8,
+  // Occurrences missed while the job wasn't running are created this far back, no further
+  MAX_CATCH_UP_DAYS: 3,
+  MAX_SCAN_DAYS: 400,
+};
+
+// Fields copied from the template onto each load it creates
+const TEMPLATE_FIELDS = [
+  "shipperCompanyName", "shipperContactName", "shipperCompanyAddress", "shipperPhone",
+  "pickupAddress", "pickupLocality", "pickupLandmark", "pickupBusinessName", "pickupCity", "pickupState", "pickupPincode", "pickupLat", "pickupLng",
+  "dropoffAddress", "dropoffLocality", "dropoffLandmark", "dropoffBusinessName", "dropoffCity", "dropoffState", "dropoffPincode", "dropoffLat", "dropoffLng",
+  "distance", "receiverName", "receiverPhone", "receiverEmail",
+  "weightUnit", "cargoDescription", "goodsToBeCarried", "specialNotes", "materialType", "goodsValue", "requiredTruckType",
+  "rateType", "shipperPricePerTon", "shipperFixedPrice", "advancePaymentPercent", "priority",
+] as const;
+
+// Fields a shipper can change for a single occurrence
+export const OCCURRENCE_OVERRIDE_FIELDS = [
+  "weight", "goodsToBeCarried", "specialNotes", "requiredTruckType", "shipperFixedPrice", "shipperPricePerTon", "pickupDate", "deliveryDate",
+] as const;
+
+export type OccurrenceOverrides = Partial<Record<typeof OCCURRENCE_OVERRIDE_FIELDS[number], string | null>>;
+
+export interface UpcomingOccurrence {
+  date: Date;
+  status: "scheduled" | "skipped" | "edited" | "created" | "failed";
+  pickupDate: Date;
+  deliveryDate: Date | null;
+  overrides: OccurrenceOverrides | null;
+  loadId: string | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+// IST is UTC+5:30 with no daylight saving, so a day is always 24 hours
+const IST_OFFSET_MS = 5.5 * HOUR_MS;
+
+/**
+ * The date shifted so its getUTC* fields read the IST calendar date and time.
+ */
+export function toIstCalendar(date: Date): Date {
+  return new Date(date.getTime() + IST_OFFSET_MS);
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(Math.floor((date.getTime() + IST_OFFSET_MS) / DAY_MS) * DAY_MS - IST_OFFSET_MS);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function atTime(day: Date, time: string | null | undefined): Date {
+  const [hours, minutes] = (time || "09:00").split(":").map((part) => parseInt(part, 10));
+  return new Date(startOfDay(day).getTime() + (isNaN(hours) ? 9 : hours) * HOUR_MS + (isNaN(minutes) ? 0 : minutes) * MINUTE_MS);
+}
+
+export function occursOn(schedule: LoadSchedule, day: Date): boolean {
+  const start = startOfDay(new Date(schedule.startDate));
+  if (day < start) return false;
+  if (schedule.endDate && day > startOfDay(new Date(schedule.endDate))) return false;
+  const startIst = toIstCalendar(start);
+  const dayIst = toIstCalendar(day);
+
+  switch (schedule.frequency) {
+    case "daily":
+      return true;
+    case "weekly": {
+      const weekdays = schedule.weekdays?.length ? schedule.weekdays : [startIst.getUTCDay()];
+      return weekdays.includes(dayIst.getUTCDay());
+    }
+    case "monthly": {
+      const dayOfMonth = schedule.dayOfMonth || startIst.getUTCDate();
+      const lastDay = new Date(Date.UTC(dayIst.getUTCFullYear(), dayIst.getUTCMonth() + 1, 0)).getUTCDate();
+      return dayIst.getUTCDate() === Math.min(dayOfMonth, lastDay);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Occurrence days from `from` (inclusive), up to `count` of them or until
+ * `until`, whichever comes first.
+ */
+export function listOccurrenceDates(schedule: LoadSchedule, from: Date, options: { count?: number; until?: Date } = {}): Date[] {
+  const dates: Date[] = [];
+  let day = startOfDay(from);
+  for (let scanned = 0; scanned < LOAD_SCHEDULE_CONFIG.MAX_SCAN_DAYS; scanned++) {
+    if (options.until && day > options.until) break;
+    if (options.count !== undefined && dates.length >= options.count) break;
+    if (schedule.endDate && day > startOfDay(new Date(schedule.endDate))) break;
+    if (occursOn(schedule, day)) dates.push(day);
+    day = addDays(day, 1);
+  }
+  return dates;
+}
+
+function occurrenceDates(schedule: LoadSchedule, day: Date, overrides: OccurrenceOverrides | null) {
+  const pickupDate = overrides?.pickupDate
+    ? new Date(overrides.pickupDate)
+    : atTime(addDays(day, schedule.pickupOffsetDays || 0), schedule.pickupTime);
+  const deliveryDate = overrides?.deliveryDate
+    ? new Date(overrides.deliveryDate)
+    : schedule.deliveryOffsetDays !== null && schedule.deliveryOffsetDays !== undefined
+      ? atTime(addDays(day, schedule.deliveryOffsetDays), schedule.pickupTime)
+      : null;
+  return { pickupDate, deliveryDate };
+}
+
+export async function getUpcomingOccurrences(
+  schedule: LoadSchedule,
+  count: number = LOAD_SCHEDULE_CONFIG.UPCOMING_OCCURRENCES,
+  now: Date = new Date()
+): Promise<UpcomingOccurrence[]> {
+  const today = startOfDay(now);
+  const rows = await storage.getLoadScheduleOccurrences(schedule.id, today);
+  const byDay = new Map(rows.map((row) => [startOfDay(new Date(row.occurrenceDate)).getTime(), row]));
+
+  return listOccurrenceDates(schedule, today, { count }).map((day) => {
+    const row = byDay.get(day.getTime());
+    const overrides = (row?.overrides as OccurrenceOverrides | null) || null;
+    return {
+      date: day,
+      status: row ? row.status as UpcomingOccurrence["status"] : "scheduled",
+      ...occurrenceDates(schedule, day, overrides),
+      overrides,
+      loadId: row?.loadId || null,
+    };
+  });
+}
+
+/**
+ * New `pending` load from a template, as if the shipper had submitted it.
+ * Admins are notified and a matching contract rate is applied.
+ */
+export async function createLoadFromTemplate(
+  template: Load,
+  options: { pickupDate?: Date | null; deliveryDate?: Date | null; overrides?: OccurrenceOverrides | null; source: string }
+): Promise<Load> {
+  const fields: Record<string, unknown> = {};
+  for (const field of TEMPLATE_FIELDS) fields[field] = template[field];
+  const { pickupDate: _pickup, deliveryDate: _delivery, weight, ...overrides } = options.overrides || {};
+
+  const load = await storage.createLoad({
+    ...(fields as Partial<InsertLoad>),
+    ...overrides,
+    pickupAddress: template.pickupAddress,
+    pickupCity: template.pickupCity,
+    dropoffAddress: template.dropoffAddress,
+    dropoffCity: template.dropoffCity,
+    weight: parseFloat(weight || template.weight?.toString() || "0") || 0,
+    pickupDate: options.pickupDate || null,
+    deliveryDate: options.deliveryDate || null,
+    shipperId: template.shipperId,
+    shipperLoadNumber: await storage.getNextGlobalLoadNumber(),
+    status: "pending",
+    submittedAt: new Date(),
+    isTemplate: false,
+    templateName: template.templateName,
+  });
+  // Templates saved before sites were geocoded have no coordinates to copy
+  if (!template.pickupLat || !template.dropoffLat) queueLoadSiteGeocoding(load.id);
+
+  const contract = await applyContractRate(load.id).catch((error) => {
+    console.error("Apply contract rate error:", error);
+    return null;
+  });
+
+  const shipper = await storage.getUser(template.shipperId);
+  for (const admin of await storage.getAdmins()) {
+    await storage.createNotification({
+      userId: admin.id,
+      title: "New Load Submitted",
+      message: `${shipper?.companyName || shipper?.username || "A shipper"} submitted a new load from ${load.pickupCity} to ${load.dropoffCity} (${options.source})${contract ? ` (contract rate: ${contract.reason})` : ""}`,
+      type: "info",
+      relatedLoadId: load.id,
+    });
+  }
+
+  return load;
+}
+
+async function runOccurrence(schedule: LoadSchedule, template: Load, day: Date, existing: LoadScheduleOccurrence | undefined): Promise<"created" | "skipped" | "failed"> {
+  if (existing?.status === "skipped") return "skipped";
+  if (existing?.status === "created") return "created";
+
+  const overrides = (existing?.overrides as OccurrenceOverrides | null) || null;
+  try {
+    const load = await createLoadFromTemplate(template, {
+      ...occurrenceDates(schedule, day, overrides),
+      overrides,
+      source: `recurring: ${schedule.name}`,
+    });
+    const row = { status: "created", loadId: load.id, error: null };
+    if (existing) {
+      await storage.updateLoadScheduleOccurrence(existing.id, row);
+    } else {
+      await storage.createLoadScheduleOccurrence({ scheduleId: schedule.id, occurrenceDate: day, overrides: null, ...row });
+    }
+    await storage.createNotification({
+      userId: schedule.shipperId,
+      title: "Recurring Load Created",
+      message: `"${schedule.name}" created load LD-${String(load.shipperLoadNumber).padStart(3, "0")} for pickup on ${load.pickupDate?.toLocaleDateString("en-IN", { timeZone: "Asia/Kolkata" }) || "the scheduled date"}.`,
+      type: "info",
+      relatedLoadId: load.id,
+    });
+    return "created";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[load-schedules] ${schedule.id.slice(0, 8)} ${toIstCalendar(day).toISOString().slice(0, 10)} failed:`, error);
+    if (existing) {
+      await storage.updateLoadScheduleOccurrence(existing.id, { status: "failed", error: message });
+    } else {
+      await storage.createLoadScheduleOccurrence({ scheduleId: schedule.id, occurrenceDate: day, status: "failed", error: message });
+    }
+    return "failed";
+  }
+}
+
+/**
+ * Create the loads for every active schedule's occurrences up to today that
+ * haven't been handled yet.
+ */
+export async function runDueLoadSchedules(now: Date = new Date()): Promise<{ created: number; skipped: number; failed: number }> {
+  const today = startOfDay(now);
+  const catchUpFrom = addDays(today, -LOAD_SCHEDULE_CONFIG.MAX_CATCH_UP_DAYS);
+  const totals = { created: 0, skipped: 0, failed: 0 };
+
+  for (const schedule of await storage.getActiveLoadSchedules()) {
+    const template = await storage.getLoad(schedule.templateLoadId);
+    if (!template?.isTemplate) {
+      await storage.updateLoadSchedule(schedule.id, { isActive: false });
+      continue;
+    }
+
+    const after = schedule.lastOccurrenceDate ? addDays(startOfDay(new Date(schedule.lastOccurrenceDate)), 1) : startOfDay(new Date(schedule.startDate));
+    const from = new Date(Math.max(after.getTime(), catchUpFrom.getTime()));
+    const due = listOccurrenceDates(schedule, from, { until: today });
+    if (due.length > 0) {
+      const rows = await storage.getLoadScheduleOccurrences(schedule.id, from);
+      let createdCount = schedule.createdCount || 0;
+      // Only advance past occurrences that were handled, so a failed one is tried again next run
+      let handledThrough: Date | null = null;
+      let blocked = false;
+      for (const day of due) {
+        const existing = rows.find((row) => startOfDay(new Date(row.occurrenceDate)).getTime() === day.getTime());
+        const outcome = await runOccurrence(schedule, template, day, existing);
+        totals[outcome]++;
+        if (outcome === "created" && existing?.status !== "created") createdCount++;
+        if (outcome === "failed") blocked = true;
+        else if (!blocked) handledThrough = day;
+      }
+      await storage.updateLoadSchedule(schedule.id, {
+        ...(handledThrough && { lastOccurrenceDate: handledThrough }),
+        createdCount,
+      });
+    }
+
+    if (schedule.endDate && startOfDay(new Date(schedule.endDate)) < today) {
+      await storage.updateLoadSchedule(schedule.id, { isActive: false });
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Skip, edit or restore one upcoming occurrence. Past and already created
+ * occurrences can't be changed.
+ */
+export async function setOccurrence(
+  schedule: LoadSchedule,
+  day: Date,
+  action: "skip" | "edit" | "restore",
+  overrides?: OccurrenceOverrides,
+  now: Date = new Date()
+): Promise<{ occurrence?: LoadScheduleOccurrence; error?: string }> {
+  const occurrenceDay = startOfDay(day);
+  const lastRun = schedule.lastOccurrenceDate ? startOfDay(new Date(schedule.lastOccurrenceDate)) : null;
+  if (occurrenceDay < startOfDay(now) || (lastRun && lastRun >= occurrenceDay)) {
+    return { error: "Occurrence has already run" };
+  }
+  if (!occursOn(schedule, occurrenceDay)) return { error: "Schedule has no occurrence on that date" };
+
+  const existing = await storage.getLoadScheduleOccurrence(schedule.id, occurrenceDay);
+  if (existing?.status === "created") return { error: "Occurrence has already run" };
+
+  if (action === "restore") {
+    if (existing) await storage.deleteLoadScheduleOccurrence(existing.id);
+    return {};
+  }
+
+  const row = action === "skip"
+    ? { status: "skipped", overrides: existing?.overrides ?? null }
+    : { status: "edited", overrides: overrides || {} };
+  const occurrence = existing
+    ? await storage.updateLoadScheduleOccurrence(existing.id, row)
+    : await storage.createLoadScheduleOccurrence({ scheduleId: schedule.id, occurrenceDate: occurrenceDay, ...row });
+  return { occurrence };
+}
+
+export function describeSchedule(schedule: LoadSchedule): string {
+  const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  switch (schedule.frequency) {
+    case "daily":
+      return "Every day";
+    case "weekly":
+      return `Weekly on ${(schedule.weekdays?.length ? schedule.weekdays : [toIstCalendar(new Date(schedule.startDate)).getUTCDay()]).map((day) => weekdayNames[day]).join(", ")}`;
+    case "monthly":
+      return `Monthly on day ${schedule.dayOfMonth || toIstCalendar(new Date(schedule.startDate)).getUTCDate()}`;
+    default:
+      return schedule.frequency;
+  }
+}
+
+export function shipperCanUseTemplate(template: Load | undefined, user: User): template is Load {
+  return !!template && !!template.isTemplate && template.shipperId === user.id;
+}
@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { calculateRoadDistance } from "./distance";
+import { loadStopTypes } from "@shared/schema";
+import type { InsertLoadStop, Load, LoadStop } from "@shared/schema";
+
+/**
+ * Multi-stop Loads
+ *
+ * A milk-run load keeps its ordered pickups and drops in load_stops. The
+ * first stop mirrors the load's pickup fields and the last its dropoff, so
+ * everything that only knows about one lane (pricing, contracts, listings)
+ * keeps working; loads.distance is the sum of every leg.
+ *
+ * During the trip the first stop is completed by route start and the last by
+ * trip end. Stops in between need their own stop_complete OTP, and drops
+ * need a POD uploaded first. Trip end is blocked until they are all done.
+ */
+
+export const MAX_LOAD_STOPS = 10;
+
+const optionalText = z.string().trim().optional().nullable().transform((value) => value || null);
+
+export const loadStopInputSchema = z.object({
+  stopType: z.enum(loadStopTypes),
+  businessName: optionalText,
+  address: optionalText,
+  city: z.string().trim().min(1, "Stop city is required"),
+  state: optionalText,
+  pincode: optionalText,
+  contactName: optionalText,
+  contactPhone: optionalText,
+  windowStart: z.coerce.date().optional().nullable(),
+  windowEnd: z.coerce.date().optional().nullable(),
+  weight: z.union([z.string(), z.number()]).optional().nullable().transform((value) => {
+    const parsed = typeof value === "number" ? value : parseFloat(value || "");
+    return isNaN(parsed) ? null : parsed;
+  }),
+  notes: optionalText,
+});
+
+export const loadStopsInputSchema = z.array(loadStopInputSchema)
+  .min(2, "A multi-stop load needs at least two stops")
+  .max(MAX_LOAD_STOPS, `A load can have at most ${MAX_LOAD_STOPS} stops`)
+  .superRefine((stops, ctx) => {
+    if (stops[0]?.stopType !== "pickup") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The first stop must be a pickup", path: [0, "stopType"] });
+    }
+    if (stops[stops.length - 1]?.stopType !== "drop") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The last stop must be a drop", path: [stops.length - 1, "stopType"] });
+    }
+    stops.forEach((stop, i) => {
+      if (stop.windowStart && stop.windowEnd && stop.windowEnd < stop.windowStart) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Time window ends before it starts", path: [i, "windowEnd"] });
+      }
+    });
+  });
+
+export type LoadStopInput = z.infer<typeof loadStopInputSchema>;
+
+function stopLocation(stop: { city: string; state?: string | null }): string {
+  return stop.state ? `${stop.city}, ${stop.state}` : stop.city;
+}
+
+export function describeStop(stop: LoadStop): string {
+  return `Stop ${stop.sequence} (${stop.stopType === "pickup" ? "pickup" : "drop"}, ${stop.city})`;
+}
+
+/**
+ * Road distance of each leg in visiting order. The first entry is always
+ * null (nothing before the first stop); so is any leg that can't be routed.
+ */
+export async function getLegDistances(locations: string[]): Promise<(number | null)[]> {
+  const legs: (number | null)[] = [null];
+  for (let i = 1; i < locations.length; i++) {
+    const { success, result } = await calculateRoadDistance(locations[i - 1], locations[i]);
+    legs.push(success && result ? Math.round(result.distanceKm) : null);
+  }
+  return legs;
+}
+
+/**
+ * Replace a load's stops and recompute its distance over every leg
+ */
+export async function saveLoadStops(load: Load, input: LoadStopInput[]): Promise<LoadStop[]> {
+  const legs = await getLegDistances(input.map(stopLocation));
+
+  // Coordinates are looked up from the address once saved, see site-geocoding
+  const rows: InsertLoadStop[] = input.map((stop, i) => ({
+    loadId: load.id,
+    sequence: i + 1,
+    stopType: stop.stopType,
+    businessName: stop.businessName,
+    address: stop.address,
+    city: stop.city,
+    state: stop.state,
+    pincode: stop.pincode,
+    lat: null,
+    lng: null,
+    contactName: stop.contactName,
+    contactPhone: stop.contactPhone,
+    windowStart: stop.windowStart ?? null,
+    windowEnd: stop.windowEnd ?? null,
+    weight: stop.weight !== null ? stop.weight.toString() : null,
+    notes: stop.notes,
+    legDistanceKm: legs[i] !== null ? legs[i]!.toString() : null,
+    status: "pending",
+  }));
+
+  const saved = await storage.replaceLoadStops(load.id, rows);
+  const routedLegs = legs.slice(1);
+  const totalKm = routedLegs.every((leg) => leg !== null)
+    ? routedLegs.reduce<number>((sum, leg) => sum + (leg || 0), 0)
+    : null;
+
+  await storage.updateLoad(load.id, {
+    isMultiStop: saved.length > 2,
+    ...(totalKm !== null && { distance: totalKm.toString() }),
+  });
+  return saved;
+}
+
+/**
+ * Stops between the first pickup and the final drop; each is completed with
+ * its own OTP during the trip
+ */
+export function getIntermediateStops(stops: LoadStop[]): LoadStop[] {
+  return stops.length > 2 ? stops.slice(1, -1) : [];
+}
+
+/**
+ * The intermediate stop the truck should complete next, or null when they
+ * are all done
+ */
+export function getNextIntermediateStop(stops: LoadStop[]): LoadStop | null {
+  return getIntermediateStops(stops).find((stop) => stop.status !== "completed") || null;
+}
+
+/**
+ * Why a stop can't be completed yet, or null when the carrier may request
+ * its OTP
+ */
+export function getStopCompletionBlocker(stops: LoadStop[], stop: LoadStop): string | null {
+  if (stop.status === "completed") return "Stop already completed";
+  const next = getNextIntermediateStop(stops);
+  if (!next || next.id !== stop.id) {
+    return next ? `Complete ${describeStop(next)} first` : "This stop is completed at trip start or trip end";
+  }
+  if (stop.stopType === "drop" && !stop.podDocumentId) return "Upload the POD for this drop first";
+  return null;
+}
+
+/**
+ * Mark the first stop (route start) or last stop (trip end) of a
+ * multi-stop load as completed
+ */
+export async function completeTerminalStop(loadId: string, which: "first" | "last"): Promise<void> {
+  const stops = await storage.getLoadStops(loadId);
+  if (stops.length < 3) return;
+  const stop = which === "first" ? stops[0] : stops[stops.length - 1];
+  if (stop.status !== "completed") {
+    await storage.updateLoadStop(stop.id, { status: "completed", completedAt: new Date() });
+  }
+}
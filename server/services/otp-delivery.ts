@@ -0,0 +1,280 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import en from "../../client/src/i18n/locales/en.json";
+import hi from "../../client/src/i18n/locales/hi.json";
+import pa from "../../client/src/i18n/locales/pa.json";
+import mr from "../../client/src/i18n/locales/mr.json";
+import ta from "../../client/src/i18n/locales/ta.json";
+
+/**
+ * OTP Delivery
+ *
+ * Sends verification codes over SMS, email or WhatsApp through a pluggable
+ * MessageTransport. Message text comes from `otp.messages` in the client
+ * locale files so users get the code in the language they picked in the app.
+ *
+ * Drivers are chosen by environment:
+ *   OTP_TRANSPORT=console (default) | file | twilio
+ *   OTP_OUTBOX_FILE       file driver output (default .data/otp-outbox.log)
+ *   TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN / TWILIO_SMS_FROM / TWILIO_WHATSAPP_FROM
+ *   SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASS / SMTP_FROM for email
+ *
+ * Codes are only echoed back in HTTP responses outside production
+ * (see shouldExposeOtpCode) so local drivers remain usable during development.
+ * The console and file drivers are refused in production: a channel with no
+ * real gateway fails to send rather than writing live codes to disk or logs.
+ */
+
+export type OtpChannel = "sms" | "email" | "whatsapp";
+export type OtpPurpose = "registration" | "emailRegistration" | "login" | "passwordReset";
+
+export interface OutboundMessage {
+  channel: OtpChannel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+export interface MessageTransport {
+  readonly name: string;
+  supports(channel: OtpChannel): boolean;
+  send(message: OutboundMessage): Promise<{ messageId?: string }>;
+}
+
+export class ConsoleTransport implements MessageTransport {
+  readonly name = "console";
+
+  supports(): boolean {
+    return true;
+  }
+
+  async send(message: OutboundMessage): Promise<{ messageId?: string }> {
+    console.log(`[OTP:${message.channel}] to ${message.to}${message.subject ? ` (${message.subject})` : ""}: ${message.body}`);
+    return {};
+  }
+}
+
+export class FileTransport implements MessageTransport {
+  readonly name = "file";
+
+  constructor(private filePath: string) {}
+
+  supports(): boolean {
+    return true;
+  }
+
+  async send(message: OutboundMessage): Promise<{ messageId?: string }> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n", "utf-8");
+    return {};
+  }
+}
+
+export class TwilioTransport implements MessageTransport {
+  readonly name = "twilio";
+
+  constructor(
+    private config: { accountSid: string; authToken: string; smsFrom?: string; whatsappFrom?: string }
+  ) {}
+
+  supports(channel: OtpChannel): boolean {
+    if (channel === "sms") return !!this.config.smsFrom;
+    if (channel === "whatsapp") return !!this.config.whatsappFrom;
+    return false;
+  }
+
+  async send(message: OutboundMessage): Promise<{ messageId?: string }> {
+    const isWhatsapp = message.channel === "whatsapp";
+    const from = isWhatsapp ? `whatsapp:${this.config.whatsappFrom}` : this.config.smsFrom!;
+    const to = isWhatsapp ? `whatsapp:${toE164(message.to)}` : toE164(message.to);
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: "Basic " + Buffer.from(`${this.config.accountSid}:${this.config.authToken}`).toString("base64"),
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ From: from, To: to, Body: message.body }).toString(),
+      }
+    );
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Twilio send failed (${response.status}): ${text}`);
+    }
+    const data = await response.json() as { sid?: string };
+    return { messageId: data.sid };
+  }
+}
+
+export class SmtpEmailTransport implements MessageTransport {
+  readonly name = "smtp";
+
+  supports(channel: OtpChannel): boolean {
+    return channel === "email";
+  }
+
+  async send(message: OutboundMessage): Promise<{ messageId?: string }> {
+    const nodemailer = await import("nodemailer");
+    const transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || "smtp.gmail.com",
+      port: parseInt(process.env.SMTP_PORT || "587"),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+    });
+
+    const info = await transporter.sendMail({
+      from: process.env.SMTP_FROM || "noreply@loadsmart.in",
+      to: message.to,
+      subject: message.subject,
+      text: message.body,
+    });
+    return { messageId: info.messageId };
+  }
+}
+
+function toE164(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length === 10 ? `+91${digits}` : `+${digits}`;
+}
+
+function createDefaultTransports(): MessageTransport[] {
+  const transports: MessageTransport[] = [];
+  const isProduction = process.env.NODE_ENV === "production";
+
+  if (process.env.SMTP_USER && process.env.SMTP_PASS) {
+    transports.push(new SmtpEmailTransport());
+  }
+
+  const driver = process.env.OTP_TRANSPORT || "console";
+  if (driver === "twilio" && process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN) {
+    transports.push(new TwilioTransport({
+      accountSid: process.env.TWILIO_ACCOUNT_SID,
+      authToken: process.env.TWILIO_AUTH_TOKEN,
+      smsFrom: process.env.TWILIO_SMS_FROM,
+      whatsappFrom: process.env.TWILIO_WHATSAPP_FROM,
+    }));
+  } else if (isProduction) {
+    // Fail closed: live codes never go to the server log or a local file.
+    // Channels without a gateway get "No transport configured" from deliverOtp.
+    console.error(`[OTP] OTP_TRANSPORT=${driver} is not allowed in production - SMS and WhatsApp codes will not be sent until Twilio is configured`);
+  } else if (driver === "file") {
+    transports.push(new FileTransport(process.env.OTP_OUTBOX_FILE || path.join(process.cwd(), ".data", "otp-outbox.log")));
+  }
+
+  // Local fallback so every channel has somewhere to go in development
+  if (!isProduction && driver !== "file") {
+    transports.push(new ConsoleTransport());
+  }
+  return transports;
+}
+
+let transports: MessageTransport[] | null = null;
+
+function getTransports(): MessageTransport[] {
+  if (!transports) {
+    transports = createDefaultTransports();
+  }
+  return transports;
+}
+
+export function setMessageTransports(next: MessageTransport[]): void {
+  transports = next;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+type OtpMessageTemplates = Record<OtpPurpose, string> & { emailSubject: string };
+
+const LOCALE_TEMPLATES: Record<string, OtpMessageTemplates> = {
+  en: en.otp.messages,
+  hi: hi.otp.messages,
+  pa: pa.otp.messages,
+  mr: mr.otp.messages,
+  ta: ta.otp.messages,
+};
+
+const DEFAULT_LANGUAGE = "en";
+
+/**
+ * Pick a supported language from an explicit preference or Accept-Language header
+ */
+export function resolveOtpLanguage(preferred?: string | null, acceptLanguage?: string | null): string {
+  const candidates = [preferred, ...(acceptLanguage || "").split(",").map(part => part.split(";")[0])];
+  for (const candidate of candidates) {
+    const code = candidate?.trim().toLowerCase().split("-")[0];
+    if (code && LOCALE_TEMPLATES[code]) return code;
+  }
+  return DEFAULT_LANGUAGE;
+}
+
+function interpolate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
+
+export function renderOtpMessage(
+  purpose: OtpPurpose,
+  language: string,
+  values: { code: string; minutes: number }
+): { subject: string; body: string } {
+  const templates = LOCALE_TEMPLATES[language] || LOCALE_TEMPLATES[DEFAULT_LANGUAGE];
+  const fallback = LOCALE_TEMPLATES[DEFAULT_LANGUAGE];
+  return {
+    subject: interpolate(templates.emailSubject || fallback.emailSubject, values),
+    body: interpolate(templates[purpose] || fallback[purpose], values),
+  };
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Whether the plain code may be returned to the client for in-app display
+ */
+export function shouldExposeOtpCode(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Render and send an OTP over the first transport that supports the channel
+ */
+export async function deliverOtp(params: {
+  channel: OtpChannel;
+  to: string;
+  purpose: OtpPurpose;
+  code: string;
+  validityMinutes: number;
+  language?: string | null;
+}): Promise<{ success: boolean; error?: string; transport?: string }> {
+  const language = resolveOtpLanguage(params.language);
+  const { subject, body } = renderOtpMessage(params.purpose, language, {
+    code: params.code,
+    minutes: params.validityMinutes,
+  });
+
+  const transport = getTransports().find(t => t.supports(params.channel));
+  if (!transport) {
+    return { success: false, error: `No transport configured for ${params.channel}` };
+  }
+
+  try {
+    await transport.send({
+      channel: params.channel,
+      to: params.to,
+      subject: params.channel === "email" ? subject : undefined,
+      body,
+    });
+    return { success: true, transport: transport.name };
+  } catch (error) {
+    console.error(`[OTP] ${transport.name} failed to send ${params.purpose} code via ${params.channel}:`, error);
+    return { success: false, error: "Failed to deliver verification code", transport: transport.name };
+  }
+}
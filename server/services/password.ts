@@ -0,0 +1,84 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash } from "crypto";
+
+/**
+ * Password Hashing
+ *
+ * Salted scrypt hashes stored as `scrypt$N$r$p$<salt>$<hash>` (base64), so the
+ * cost parameters can be raised later without invalidating existing hashes.
+ * Legacy unsalted SHA-256 hex digests are still accepted and flagged for rehash.
+ */
+
+const SCRYPT_PARAMS = {
+  N: 16384,
+  r: 8,
+  p: 1,
+  keyLength: 64,
+  saltLength: 16,
+};
+
+const HASH_PREFIX = "scrypt";
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+function deriveKey(password: string, salt: Buffer, N: number, r: number, p: number, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { N, r, p, maxmem: 256 * N * r }, (err, derivedKey) => {
+      if (err) reject(err);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p, keyLength, saltLength } = SCRYPT_PARAMS;
+  const salt = randomBytes(saltLength);
+  const derivedKey = await deriveKey(password, salt, N, r, p, keyLength);
+  return [HASH_PREFIX, N, r, p, salt.toString("base64"), derivedKey.toString("base64")].join("$");
+}
+
+export function isLegacyPasswordHash(storedHash: string): boolean {
+  return LEGACY_SHA256_PATTERN.test(storedHash);
+}
+
+/**
+ * Verify a password against a stored hash
+ *
+ * needsRehash is set when the stored hash is a legacy SHA-256 digest or uses
+ * weaker scrypt parameters than the current ones.
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string | null | undefined
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!storedHash) {
+    return { valid: false, needsRehash: false };
+  }
+
+  if (isLegacyPasswordHash(storedHash)) {
+    const legacy = createHash("sha256").update(password).digest();
+    const valid = timingSafeEqual(legacy, Buffer.from(storedHash, "hex"));
+    return { valid, needsRehash: valid };
+  }
+
+  const parts = storedHash.split("$");
+  if (parts.length !== 6 || parts[0] !== HASH_PREFIX) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const [, nStr, rStr, pStr, saltB64, hashB64] = parts;
+  const N = parseInt(nStr, 10);
+  const r = parseInt(rStr, 10);
+  const p = parseInt(pStr, 10);
+  if (!N || !r || !p) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(hashB64, "base64");
+  const derivedKey = await deriveKey(password, Buffer.from(saltB64, "base64"), N, r, p, expected.length);
+  const valid = derivedKey.length === expected.length && timingSafeEqual(derivedKey, expected);
+
+  const needsRehash = valid && (
+    N < SCRYPT_PARAMS.N || r < SCRYPT_PARAMS.r || p < SCRYPT_PARAMS.p || expected.length < SCRYPT_PARAMS.keyLength
+  );
+
+  return { valid, needsRehash };
+}
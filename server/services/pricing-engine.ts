@@ -0,0 +1,377 @@
+import { storage } from "../storage";
+import { indianTruckTypes, type Load, type PricingTemplate } from "@shared/schema";
+import { estimateHighwayDistance } from "./highway-graph";
+
+/**
+ * Lane Pricing Engine
+ *
+ * Estimates the shipper (gross) price for a load from its lane, truck type,
+ * weight and distance. A cost model gives a per-km rate for the truck; that
+ * is blended with what the same lane actually cleared at recently - locked
+ * admin prices and accepted carrier bids grossed up by the platform rate.
+ * The more consistent the lane history, the more it outweighs the model.
+ *
+ * Surcharges come from the active pricing template (explicit templateId,
+ * otherwise the default template). The result carries a confidence score
+ * (0-100) and human-readable risk flags for adminPricings.
+ */
+
+type TruckCategory = typeof indianTruckTypes[number]["category"];
+
+// Per-km rate = fixed + perTon * truck capacity (rupees, before surcharges)
+const CATEGORY_RATES: Record<TruckCategory, { fixedPerKm: number; perTonPerKm: number }> = {
+  open: { fixedPerKm: 18, perTonPerKm: 1.2 },
+  closed: { fixedPerKm: 22, perTonPerKm: 1.4 },
+  container: { fixedPerKm: 24, perTonPerKm: 1.3 },
+  lcv: { fixedPerKm: 10, perTonPerKm: 2.0 },
+  mini_pickup: { fixedPerKm: 9, perTonPerKm: 2.0 },
+  trailer: { fixedPerKm: 30, perTonPerKm: 1.2 },
+  tipper: { fixedPerKm: 22, perTonPerKm: 1.3 },
+  tanker: { fixedPerKm: 24, perTonPerKm: 1.5 },
+  dumper: { fixedPerKm: 22, perTonPerKm: 1.3 },
+  bulker: { fixedPerKm: 26, perTonPerKm: 1.3 },
+};
+
+export const PRICING_DEFAULTS = {
+  distanceKm: 500,
+  weightTons: 10,
+  // Used when no pricing template is active
+  fuelSurchargePercent: 0,
+  markupPercent: 0,
+  fixedFee: 500,
+  platformRatePercent: 10,
+  // Short trips still tie up a truck for most of a day
+  minBillableKm: 50,
+  historyWindowDays: 180,
+  // Samples needed for lane history to carry half the weight
+  historyHalfWeightSamples: 3,
+  maxHistoryWeight: 0.8,
+};
+
+const SEASONAL_MULTIPLIERS: Record<number, number> = {
+  0: 1.0, 1: 1.0, 2: 1.05, 3: 1.05, 4: 1.1, 5: 1.1,
+  6: 1.15, 7: 1.1, 8: 1.05, 9: 1.1, 10: 1.15, 11: 1.2,
+};
+
+export interface PriceEstimateInput {
+  pickupCity?: string | null;
+  dropoffCity?: string | null;
+  truckType?: string | null;
+  weightTons?: number | null;
+  distanceKm?: number | null;
+  pickupDate?: Date | null;
+  templateId?: string | null;
+  excludeLoadId?: string | null;
+  kycVerified?: boolean | null;
+}
+
+export interface LaneSample {
+  loadId: string;
+  source: "admin_pricing" | "accepted_bid";
+  route: string;
+  truckType: string | null;
+  distanceKm: number;
+  grossPrice: number;
+  ratePerKm: number;
+  date: Date | null;
+}
+
+export interface PriceEstimate {
+  suggestedPrice: number;
+  modelPrice: number;
+  lanePrice: number | null;
+  breakdown: {
+    baseAmount: number;
+    fuelSurcharge: number;
+    markupAmount: number;
+    handlingFee: number;
+    laneAdjustment: number;
+    seasonalMultiplier: number;
+    distanceTaper: number;
+  };
+  params: {
+    distanceKm: number;
+    weightTons: number;
+    loadType: string;
+    truckLabel: string;
+    baseRatePerKm: number;
+    lane: string;
+    templateId: string | null;
+    platformRatePercent: number;
+    historySamples: number;
+    historyWeight: number;
+  };
+  comparables: LaneSample[];
+  confidenceScore: number;
+  riskFlags: string[];
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  const num = typeof value === "number" ? value : parseFloat(value);
+  return isNaN(num) ? 0 : num;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function coefficientOfVariation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean <= 0) return 0;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+/**
+ * Resolve a truck type, or pick the smallest open truck that carries the weight
+ */
+export function resolveTruckType(truckType: string | null | undefined, weightTons: number) {
+  const known = truckType ? indianTruckTypes.find(t => t.value === truckType) : undefined;
+  if (known) return { truck: known, inferred: false };
+
+  const candidates = indianTruckTypes
+    .filter(t => t.category === "open" || t.category === "lcv")
+    .filter(t => t.capacityMax >= weightTons)
+    .sort((a, b) => a.capacityMax - b.capacityMax);
+  const fallback = candidates[0] || indianTruckTypes.find(t => t.value === "trailer_triple_axle")!;
+  return { truck: fallback, inferred: true };
+}
+
+function getTruckCategory(truckType: string | null | undefined): TruckCategory | null {
+  return indianTruckTypes.find(t => t.value === truckType)?.category ?? null;
+}
+
+/**
+ * Explicit template if given, otherwise the active default template
+ */
+async function resolveTemplate(templateId?: string | null): Promise<PricingTemplate | null> {
+  if (templateId) {
+    const template = await storage.getPricingTemplate(templateId);
+    if (template?.isActive) return template;
+  }
+  const templates = await storage.getPricingTemplates();
+  return templates.find(t => t.isDefault) || null;
+}
+
+/**
+ * Recent prices that cleared on the lane, as gross price per km
+ */
+export async function getLaneSamples(
+  pickupCity: string,
+  dropoffCity: string,
+  options: { excludeLoadId?: string | null; platformRatePercent?: number } = {}
+): Promise<LaneSample[]> {
+  const since = new Date(Date.now() - PRICING_DEFAULTS.historyWindowDays * 24 * 60 * 60 * 1000);
+  const platformRate = options.platformRatePercent ?? PRICING_DEFAULTS.platformRatePercent;
+
+  const [pricings, acceptedBids] = await Promise.all([
+    storage.getLanePricingHistory(pickupCity, dropoffCity, since),
+    storage.getLaneAcceptedBids(pickupCity, dropoffCity, since),
+  ]);
+
+  const samples: LaneSample[] = [];
+  const seenLoads = new Set<string>();
+
+  // Admin prices are already gross; prefer them over the bid on the same load
+  for (const { pricing, load } of pricings) {
+    if (load.id === options.excludeLoadId || seenLoads.has(load.id)) continue;
+    const distanceKm = toNumber(load.distance);
+    const grossPrice = toNumber(pricing.finalPrice);
+    if (distanceKm <= 0 || grossPrice <= 0) continue;
+    seenLoads.add(load.id);
+    samples.push({
+      loadId: load.id,
+      source: "admin_pricing",
+      route: `${load.pickupCity} → ${load.dropoffCity}`,
+      truckType: load.requiredTruckType,
+      distanceKm,
+      grossPrice,
+      ratePerKm: grossPrice / distanceKm,
+      date: pricing.createdAt,
+    });
+  }
+
+  // Accepted bids are carrier payouts - gross them up by the platform rate
+  for (const { bid, load } of acceptedBids) {
+    if (load.id === options.excludeLoadId || seenLoads.has(load.id)) continue;
+    const distanceKm = toNumber(load.distance);
+    const payout = toNumber(bid.amount);
+    if (distanceKm <= 0 || payout <= 0) continue;
+    const grossPrice = payout / (1 - platformRate / 100);
+    seenLoads.add(load.id);
+    samples.push({
+      loadId: load.id,
+      source: "accepted_bid",
+      route: `${load.pickupCity} → ${load.dropoffCity}`,
+      truckType: load.requiredTruckType,
+      distanceKm,
+      grossPrice: Math.round(grossPrice),
+      ratePerKm: grossPrice / distanceKm,
+      date: bid.createdAt,
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * Estimate the gross price for a lane / truck / weight / distance
+ */
+export async function estimatePrice(input: PriceEstimateInput): Promise<PriceEstimate> {
+  const riskFlags: string[] = [];
+
+  const distanceProvided = toNumber(input.distanceKm) > 0;
+  let distanceKm = distanceProvided ? toNumber(input.distanceKm) : PRICING_DEFAULTS.distanceKm;
+  if (!distanceProvided) {
+    const route = input.pickupCity && input.dropoffCity
+      ? estimateHighwayDistance(input.pickupCity, input.dropoffCity)
+      : null;
+    if (route) {
+      distanceKm = route.distanceKm;
+      riskFlags.push(`Distance missing - estimated ${distanceKm} km from highway graph`);
+    } else {
+      riskFlags.push(`Distance missing - assumed ${PRICING_DEFAULTS.distanceKm} km`);
+    }
+  }
+
+  const weightProvided = toNumber(input.weightTons) > 0;
+  const weightTons = weightProvided ? toNumber(input.weightTons) : PRICING_DEFAULTS.weightTons;
+
+  const { truck, inferred } = resolveTruckType(input.truckType, weightTons);
+  if (inferred) {
+    riskFlags.push(input.truckType ? `Unknown truck type "${input.truckType}" - priced as ${truck.label}` : "Truck type not specified");
+  }
+  if (weightTons > truck.capacityMax) {
+    riskFlags.push(`Weight ${weightTons}t exceeds ${truck.label} capacity (${truck.capacityMax}t)`);
+  } else if (!inferred && weightProvided && weightTons < truck.capacityMin / 2) {
+    riskFlags.push(`Truck under-utilised (${weightTons}t on ${truck.label})`);
+  }
+
+  const template = await resolveTemplate(input.templateId);
+  const fuelSurchargePercent = template ? toNumber(template.fuelSurchargePercent) : PRICING_DEFAULTS.fuelSurchargePercent;
+  const markupPercent = template ? toNumber(template.markupPercent) : PRICING_DEFAULTS.markupPercent;
+  const handlingFee = template ? toNumber(template.fixedFee) : PRICING_DEFAULTS.fixedFee;
+  const platformRatePercent = template?.platformRatePercent ? toNumber(template.platformRatePercent) : PRICING_DEFAULTS.platformRatePercent;
+
+  // Cost model
+  const rates = CATEGORY_RATES[truck.category];
+  const modelRatePerKm = rates.fixedPerKm + rates.perTonPerKm * truck.capacityMax;
+  const billableKm = Math.max(distanceKm, PRICING_DEFAULTS.minBillableKm);
+  // Long hauls get cheaper per km (better utilisation, easier return loads)
+  const distanceTaper = distanceKm > 1500 ? 0.9 : distanceKm > 800 ? 0.95 : 1;
+  const seasonalMultiplier = SEASONAL_MULTIPLIERS[(input.pickupDate || new Date()).getMonth()] ?? 1;
+
+  const baseAmount = billableKm * modelRatePerKm * distanceTaper * seasonalMultiplier;
+  const fuelSurcharge = baseAmount * (fuelSurchargePercent / 100);
+  const markupAmount = (baseAmount + fuelSurcharge) * (markupPercent / 100);
+  const modelPrice = baseAmount + fuelSurcharge + markupAmount + handlingFee;
+
+  // Lane history
+  let comparables: LaneSample[] = [];
+  let lanePrice: number | null = null;
+  let historyWeight = 0;
+  let dispersion = 0;
+
+  if (input.pickupCity && input.dropoffCity) {
+    const samples = await getLaneSamples(input.pickupCity, input.dropoffCity, {
+      excludeLoadId: input.excludeLoadId,
+      platformRatePercent,
+    });
+
+    // Same truck category when there is enough of it, otherwise the whole lane
+    const sameCategory = samples.filter(s => getTruckCategory(s.truckType) === truck.category);
+    comparables = sameCategory.length >= 2 ? sameCategory : samples;
+    if (comparables.some(s => getTruckCategory(s.truckType) !== truck.category)) {
+      riskFlags.push("Lane history includes other truck types");
+    }
+
+    if (comparables.length > 0) {
+      const laneRates = comparables.map(s => s.ratePerKm);
+      dispersion = coefficientOfVariation(laneRates);
+      lanePrice = median(laneRates) * billableKm;
+      historyWeight = Math.min(
+        PRICING_DEFAULTS.maxHistoryWeight,
+        comparables.length / (comparables.length + PRICING_DEFAULTS.historyHalfWeightSamples)
+      );
+      // Inconsistent lanes shouldn't dominate the model
+      historyWeight *= Math.max(0.4, 1 - dispersion);
+
+      if (dispersion > 0.25) riskFlags.push("Lane prices vary widely");
+      const deviation = Math.abs(modelPrice - lanePrice) / lanePrice;
+      if (deviation > 0.2) {
+        riskFlags.push(`Model estimate is ${Math.round(deviation * 100)}% ${modelPrice > lanePrice ? "above" : "below"} lane history`);
+      }
+    } else {
+      riskFlags.push("No pricing history on this lane");
+    }
+  }
+
+  const suggestedPrice = Math.round(
+    lanePrice !== null ? modelPrice * (1 - historyWeight) + lanePrice * historyWeight : modelPrice
+  );
+
+  if (input.kycVerified === false) riskFlags.push("Shipper KYC not verified");
+  if (distanceKm > 2000) riskFlags.push("Long haul route (>2000km)");
+  if (weightTons > 25) riskFlags.push("Heavy load (>25 tons)");
+
+  // Confidence grows with consistent lane history and complete inputs
+  let confidence = 40;
+  confidence += Math.min(35, comparables.length * 7);
+  confidence -= Math.min(20, Math.round(dispersion * 40));
+  if (!inferred) confidence += 10;
+  if (distanceProvided) confidence += 5;
+  if (weightProvided) confidence += 5;
+  if (weightTons > truck.capacityMax) confidence -= 10;
+  const confidenceScore = Math.max(10, Math.min(95, confidence));
+
+  return {
+    suggestedPrice,
+    modelPrice: Math.round(modelPrice),
+    lanePrice: lanePrice !== null ? Math.round(lanePrice) : null,
+    breakdown: {
+      baseAmount: Math.round(baseAmount),
+      fuelSurcharge: Math.round(fuelSurcharge),
+      markupAmount: Math.round(markupAmount),
+      handlingFee: Math.round(handlingFee),
+      laneAdjustment: suggestedPrice - Math.round(modelPrice),
+      seasonalMultiplier,
+      distanceTaper,
+    },
+    params: {
+      distanceKm,
+      weightTons,
+      loadType: truck.value,
+      truckLabel: truck.label,
+      baseRatePerKm: Math.round(modelRatePerKm * 100) / 100,
+      lane: input.pickupCity && input.dropoffCity ? `${input.pickupCity} → ${input.dropoffCity}` : "",
+      templateId: template?.id ?? null,
+      platformRatePercent,
+      historySamples: comparables.length,
+      historyWeight: Math.round(historyWeight * 100) / 100,
+    },
+    comparables: comparables.slice(0, 5),
+    confidenceScore,
+    riskFlags,
+  };
+}
+
+/**
+ * Estimate for an existing load
+ */
+export async function estimateLoadPrice(load: Load, templateId?: string | null): Promise<PriceEstimate> {
+  return estimatePrice({
+    pickupCity: load.pickupCity,
+    dropoffCity: load.dropoffCity,
+    truckType: load.requiredTruckType,
+    weightTons: toNumber(load.weight),
+    distanceKm: toNumber(load.distance),
+    pickupDate: load.pickupDate ? new Date(load.pickupDate) : null,
+    templateId,
+    excludeLoadId: load.id,
+    kycVerified: load.kycVerified,
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../storage", () => ({
+  storage: { createAuthSecurityEvent: vi.fn(async () => ({})) },
+}));
+
+import {
+  MemoryRateLimitStore,
+  setRateLimitStore,
+  checkRateLimit,
+  recordAttempt,
+  clearLockout,
+  normalizePhoneIdentifier,
+} from "./rate-limiter";
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("normalizePhoneIdentifier", () => {
+  it("keeps the last ten digits of a phone number", () => {
+    expect(normalizePhoneIdentifier("+91 98765-43210")).toBe("9876543210");
+    expect(normalizePhoneIdentifier("12345")).toBe("12345");
+    expect(normalizePhoneIdentifier("")).toBeNull();
+    expect(normalizePhoneIdentifier(null)).toBeNull();
+  });
+});
+
+describe("login lockout", () => {
+  it("locks the account after five failures and clears on admin unlock", async () => {
+    const ids = { ip: "10.0.0.1", account: "user-1" };
+    for (let i = 0; i < 5; i++) {
+      await recordAttempt("login", ids, { success: false });
+    }
+    const locked = await checkRateLimit("login", ids);
+    expect(locked.allowed).toBe(false);
+    expect(locked.scope).toBe("account");
+    expect(locked.retryAfterSeconds).toBeGreaterThan(0);
+
+    await clearLockout({ account: "user-1" });
+    expect((await checkRateLimit("login", ids)).allowed).toBe(true);
+  });
+
+  it("resets the failure counter on a successful login", async () => {
+    const ids = { account: "user-1" };
+    for (let i = 0; i < 4; i++) {
+      await recordAttempt("login", ids, { success: false });
+    }
+    await recordAttempt("login", ids, { success: true });
+    await recordAttempt("login", ids, { success: false });
+    expect((await checkRateLimit("login", ids)).allowed).toBe(true);
+  });
+});
+
+describe("OTP sends", () => {
+  it("throttle without locking the account out of login or verify", async () => {
+    const sendIds = { ip: "10.0.0.2", phone: "9876543210", account: "user-1" };
+    for (let i = 0; i < 5; i++) {
+      await recordAttempt("otp_send", sendIds, { success: true });
+    }
+
+    expect((await checkRateLimit("otp_send", sendIds)).allowed).toBe(false);
+    expect((await checkRateLimit("login", { account: "user-1" })).allowed).toBe(true);
+    expect((await checkRateLimit("otp_verify", { phone: "9876543210", account: "user-1" })).allowed).toBe(true);
+  });
+});
+
+describe("OTP verify lockout", () => {
+  it("locks the email scope and the admin unlock clears it", async () => {
+    const ids = { email: "shipper@example.com" };
+    for (let i = 0; i < 10; i++) {
+      await recordAttempt("otp_verify", ids, { success: false });
+    }
+    expect((await checkRateLimit("otp_verify", ids)).allowed).toBe(false);
+
+    await clearLockout({ email: "Shipper@example.com" });
+    expect((await checkRateLimit("otp_verify", ids)).allowed).toBe(true);
+  });
+});
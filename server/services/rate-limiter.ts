@@ -0,0 +1,301 @@
+import type { Response } from "express";
+import { storage } from "../storage";
+
+/**
+ * Auth Rate Limiter
+ *
+ * Throttles login and OTP endpoints by IP, phone, email and account. Counters live in
+ * a RateLimitStore (in-memory by default; a Postgres-backed store can implement
+ * the same interface for multi-instance deployments).
+ *
+ * Scopes marked `lockout` lock the identifier once the limit is hit, with the
+ * lockout doubling on each repeat (5 min, 10 min, 20 min ... capped at 24 h).
+ * Lockouts are written to authSecurityEvents for the admin users page.
+ */
+
+export type RateLimitAction = "login" | "otp_send" | "otp_verify";
+export type RateLimitScope = "ip" | "phone" | "email" | "account";
+
+export interface RateLimitCounter {
+  count: number;
+  resetAt: number;
+}
+
+export interface LockoutState {
+  level: number;
+  lockedUntil: number | null;
+  lastLockedAt: number;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitCounter | null>;
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  reset(key: string): Promise<void>;
+  getLockout(key: string): Promise<LockoutState | null>;
+  setLockout(key: string, state: LockoutState): Promise<void>;
+  clearLockout(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+  private lockouts = new Map<string, LockoutState>();
+
+  constructor() {
+    // Sweep expired counters so the maps don't grow unbounded
+    setInterval(() => this.sweep(), 10 * 60 * 1000).unref();
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= Date.now()) return null;
+    return counter;
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const existing = this.counters.get(key);
+    const counter = existing && existing.resetAt > now
+      ? { count: existing.count + 1, resetAt: existing.resetAt }
+      : { count: 1, resetAt: now + windowMs };
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  async getLockout(key: string): Promise<LockoutState | null> {
+    return this.lockouts.get(key) || null;
+  }
+
+  async setLockout(key: string, state: LockoutState): Promise<void> {
+    this.lockouts.set(key, state);
+  }
+
+  async clearLockout(key: string): Promise<void> {
+    this.lockouts.delete(key);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    this.counters.forEach((counter, key) => {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    });
+    this.lockouts.forEach((state, key) => {
+      if ((!state.lockedUntil || state.lockedUntil <= now) && now - state.lastLockedAt > LOCKOUT_DECAY_MS) {
+        this.lockouts.delete(key);
+      }
+    });
+  }
+}
+
+interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+  lockout?: boolean;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const RATE_LIMIT_RULES: Record<RateLimitAction, Partial<Record<RateLimitScope, RateLimitRule>>> = {
+  login: {
+    ip: { limit: 30, windowMs: 15 * MINUTE },
+    account: { limit: 5, windowMs: 15 * MINUTE, lockout: true },
+  },
+  otp_send: {
+    ip: { limit: 20, windowMs: HOUR },
+    // Sends are throttle-only: anyone can request a code for any identifier, so a
+    // send lockout would let a stranger lock the victim out of login and verify
+    phone: { limit: 5, windowMs: HOUR },
+    email: { limit: 5, windowMs: HOUR },
+    account: { limit: 5, windowMs: HOUR },
+  },
+  otp_verify: {
+    ip: { limit: 50, windowMs: 15 * MINUTE },
+    phone: { limit: 10, windowMs: 15 * MINUTE, lockout: true },
+    email: { limit: 10, windowMs: 15 * MINUTE, lockout: true },
+    account: { limit: 10, windowMs: 15 * MINUTE, lockout: true },
+  },
+};
+
+const LOCKOUT_BASE_MS = 5 * MINUTE;
+const LOCKOUT_MAX_MS = 24 * HOUR;
+// Lockout level resets after a day without another lockout
+const LOCKOUT_DECAY_MS = 24 * HOUR;
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export interface RateLimitIdentifiers {
+  ip?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  account?: string | null;
+  userId?: string | null;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  scope?: RateLimitScope;
+  retryAfterSeconds?: number;
+  reason?: string;
+}
+
+export function normalizePhoneIdentifier(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, "");
+  return digits.length >= 10 ? digits.slice(-10) : digits || null;
+}
+
+function counterKey(action: RateLimitAction, scope: RateLimitScope, identifier: string): string {
+  return `rl:${action}:${scope}:${identifier.toLowerCase()}`;
+}
+
+function lockoutKey(scope: RateLimitScope, identifier: string): string {
+  // Lockouts are shared across actions so an account locked on login can't pivot to OTP
+  return `lock:${scope}:${identifier.toLowerCase()}`;
+}
+
+function scopedIdentifiers(action: RateLimitAction, ids: RateLimitIdentifiers): [RateLimitScope, string, RateLimitRule][] {
+  const rules = RATE_LIMIT_RULES[action];
+  const result: [RateLimitScope, string, RateLimitRule][] = [];
+  (Object.keys(rules) as RateLimitScope[]).forEach(scope => {
+    const identifier = scope === "phone"
+      ? normalizePhoneIdentifier(ids.phone)
+      : scope === "email" ? ids.email?.trim() : ids[scope];
+    if (identifier) result.push([scope, identifier, rules[scope]!]);
+  });
+  return result;
+}
+
+/**
+ * Check whether a request may proceed, without counting it
+ */
+export async function checkRateLimit(action: RateLimitAction, ids: RateLimitIdentifiers): Promise<RateLimitResult> {
+  const now = Date.now();
+
+  for (const [scope, identifier, rule] of scopedIdentifiers(action, ids)) {
+    if (rule.lockout) {
+      const lockout = await store.getLockout(lockoutKey(scope, identifier));
+      if (lockout?.lockedUntil && lockout.lockedUntil > now) {
+        return {
+          allowed: false,
+          scope,
+          retryAfterSeconds: Math.ceil((lockout.lockedUntil - now) / 1000),
+          reason: "Too many failed attempts. This account is temporarily locked.",
+        };
+      }
+    }
+
+    const counter = await store.get(counterKey(action, scope, identifier));
+    if (counter && counter.count >= rule.limit) {
+      return {
+        allowed: false,
+        scope,
+        retryAfterSeconds: Math.ceil((counter.resetAt - now) / 1000),
+        reason: "Too many requests. Please try again later.",
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+async function lockIdentifier(
+  action: RateLimitAction,
+  scope: RateLimitScope,
+  identifier: string,
+  attempts: number,
+  ids: RateLimitIdentifiers
+): Promise<void> {
+  const key = lockoutKey(scope, identifier);
+  const now = Date.now();
+  const previous = await store.getLockout(key);
+  const level = previous && now - previous.lastLockedAt < LOCKOUT_DECAY_MS ? previous.level + 1 : 0;
+  const durationMs = Math.min(LOCKOUT_BASE_MS * Math.pow(2, level), LOCKOUT_MAX_MS);
+  const lockedUntil = now + durationMs;
+
+  await store.setLockout(key, { level, lockedUntil, lastLockedAt: now });
+  await store.reset(counterKey(action, scope, identifier));
+
+  console.warn(`[RateLimit] Locked ${scope} ${identifier} for ${Math.round(durationMs / 60000)} min after ${attempts} ${action} attempts`);
+
+  try {
+    await storage.createAuthSecurityEvent({
+      eventType: "lockout",
+      action,
+      scope,
+      identifier,
+      userId: ids.userId || null,
+      ipAddress: ids.ip || null,
+      attempts,
+      lockoutLevel: level,
+      lockedUntil: new Date(lockedUntil),
+    });
+  } catch (error) {
+    console.error("[RateLimit] Failed to record lockout:", error);
+  }
+}
+
+/**
+ * Count an attempt against every applicable scope
+ *
+ * Send actions count every request; login and verify count only failures,
+ * and a success clears the account/phone failure counters.
+ */
+export async function recordAttempt(
+  action: RateLimitAction,
+  ids: RateLimitIdentifiers,
+  outcome: { success: boolean }
+): Promise<void> {
+  const countsAllRequests = action === "otp_send";
+
+  for (const [scope, identifier, rule] of scopedIdentifiers(action, ids)) {
+    const key = counterKey(action, scope, identifier);
+
+    if (outcome.success && !countsAllRequests) {
+      if (scope !== "ip") await store.reset(key);
+      continue;
+    }
+
+    const counter = await store.increment(key, rule.windowMs);
+    if (rule.lockout && counter.count >= rule.limit) {
+      await lockIdentifier(action, scope, identifier, counter.count, ids);
+    }
+  }
+}
+
+/**
+ * Admin override: clear lockouts and counters for an account / phone / email
+ */
+export async function clearLockout(ids: { account?: string | null; phone?: string | null; email?: string | null }): Promise<void> {
+  const phone = normalizePhoneIdentifier(ids.phone);
+  const targets: [RateLimitScope, string | null | undefined][] = [
+    ["account", ids.account],
+    ["phone", phone],
+    ["email", ids.email?.trim()],
+  ];
+
+  for (const [scope, identifier] of targets) {
+    if (!identifier) continue;
+    await store.clearLockout(lockoutKey(scope, identifier));
+    for (const action of Object.keys(RATE_LIMIT_RULES) as RateLimitAction[]) {
+      await store.reset(counterKey(action, scope, identifier));
+    }
+  }
+}
+
+export function sendRateLimited(res: Response, result: RateLimitResult): Response {
+  if (result.retryAfterSeconds) {
+    res.set("Retry-After", String(result.retryAfterSeconds));
+  }
+  return res.status(429).json({
+    error: result.reason || "Too many requests. Please try again later.",
+    retryAfterSeconds: result.retryAfterSeconds,
+  });
+}
@@ -0,0 +1,338 @@
+import { storage } from "../storage";
+import { haversineKm } from "@shared/indian-locations";
+import { findHighwayRoute, resolveRoutePoint, type RoutePoint } from "./highway-graph";
+import { broadcastMarketplaceEvent } from "../websocket-marketplace";
+import type { AlertSeverity, AlertType, Geofence, Load, Shipment, TelematicsAlert } from "@shared/schema";
+
+/**
+ * Route Monitor
+ *
+ * Watches trip fixes for what a tracker won't report by itself:
+ *
+ *   route_deviation  the truck has been more than CORRIDOR_KM from the
+ *                    planned route for DEVIATION_MIN_MS
+ *   unexpected_stop  the truck has stayed within STOP_RADIUS_KM for
+ *                    STOP_ALERT_MS, away from the load's geofences and the
+ *                    known truck halts below
+ *
+ * The planned route is the highway graph path through the load's pickup,
+ * stops and dropoff. Each condition raises one telematicsAlerts row that
+ * escalates to critical if it gets worse and is resolved once it clears;
+ * breadcrumbs recorded during it are marked as risky segments.
+ *
+ * Corridors and in-progress conditions are kept in memory per load, until
+ * the trip is delivered or cancelled (which also resolves its open alerts) or
+ * has sent nothing for WATCH_IDLE_MS. After a restart or expiry, open alerts
+ * are picked up again from the database on the next fix.
+ */
+
+export interface RouteMonitorPoint {
+  lat: number;
+  lng: number;
+  recordedAt: Date;
+}
+
+// The graph draws straight lines between cities, so the corridor is generous
+const CORRIDOR_KM = 15;
+const CRITICAL_DEVIATION_KM = 50;
+const DEVIATION_MIN_MS = 10 * 60 * 1000;
+const STOP_RADIUS_KM = 0.3;
+const STOP_ALERT_MS = 45 * 60 * 1000;
+const STOP_CRITICAL_MS = 3 * 60 * 60 * 1000;
+// Geofences are left a little wider than their radius, as in geofencing.ts
+const GEOFENCE_MARGIN = 1.2;
+const WATCH_IDLE_MS = 12 * 60 * 60 * 1000;
+
+// ============================================================================
+// KNOWN TRUCK HALTS
+// ============================================================================
+
+// Transport nagars, truck terminals and highway food courts where long
+// stops are routine. Approximate centres; the radius absorbs the error.
+const KNOWN_HALTS: { name: string; lat: number; lng: number; radiusKm: number }[] = [
+  { name: "Sanjay Gandhi Transport Nagar, Delhi", lat: 28.7406, lng: 77.1531, radiusKm: 3 },
+  { name: "Murthal dhabas, NH44", lat: 29.0289, lng: 77.0691, radiusKm: 3 },
+  { name: "Karnal, NH44", lat: 29.7216, lng: 76.9869, radiusKm: 3 },
+  { name: "Neemrana-Behror, NH48", lat: 27.9362, lng: 76.3919, radiusKm: 5 },
+  { name: "Kishangarh, NH48", lat: 26.5873, lng: 74.8546, radiusKm: 4 },
+  { name: "Narol Transport Nagar, Ahmedabad", lat: 22.9735, lng: 72.5989, radiusKm: 3 },
+  { name: "Kalamboli Truck Terminal, Navi Mumbai", lat: 19.0303, lng: 73.1033, radiusKm: 3 },
+  { name: "Khalapur Food Mall, Mumbai-Pune Expressway", lat: 18.8033, lng: 73.2889, radiusKm: 2 },
+  { name: "Wadi Transport Hub, Nagpur", lat: 21.1484, lng: 78.9996, radiusKm: 4 },
+  { name: "Transport Nagar, Indore", lat: 22.7544, lng: 75.8685, radiusKm: 3 },
+  { name: "Peenya Truck Terminal, Bengaluru", lat: 13.0329, lng: 77.5197, radiusKm: 3 },
+  { name: "Hosur, NH44", lat: 12.7409, lng: 77.8253, radiusKm: 4 },
+  { name: "Madhavaram Truck Terminal, Chennai", lat: 13.1488, lng: 80.2306, radiusKm: 3 },
+  { name: "Dankuni, NH19", lat: 22.6806, lng: 88.2925, radiusKm: 4 },
+];
+
+// ============================================================================
+// PLANNED CORRIDOR
+// ============================================================================
+
+type LatLng = { lat: number; lng: number };
+
+// Planned route per load; null when a site couldn't be located or routed
+const corridors: Map<string, LatLng[] | null> = new Map();
+
+function sitePoint(lat: string | null, lng: string | null, city: string, state: string | null): RoutePoint | null {
+  const parsedLat = lat !== null ? parseFloat(lat) : NaN;
+  const parsedLng = lng !== null ? parseFloat(lng) : NaN;
+  if (!isNaN(parsedLat) && !isNaN(parsedLng)) {
+    return { lat: parsedLat, lng: parsedLng, label: city };
+  }
+  return resolveRoutePoint(city, state);
+}
+
+async function getCorridor(load: Load): Promise<LatLng[] | null> {
+  if (corridors.has(load.id)) return corridors.get(load.id)!;
+
+  const sites: (RoutePoint | null)[] = load.isMultiStop
+    ? (await storage.getLoadStops(load.id)).map((stop) => sitePoint(stop.lat, stop.lng, stop.city, stop.state))
+    : [
+        sitePoint(load.pickupLat, load.pickupLng, load.pickupCity, load.pickupState),
+        sitePoint(load.dropoffLat, load.dropoffLng, load.dropoffCity, load.dropoffState),
+      ];
+
+  let path: LatLng[] | null = [];
+  for (let i = 1; i < sites.length && path; i++) {
+    const from = sites[i - 1];
+    const to = sites[i];
+    const route = from && to ? findHighwayRoute(from, to) : null;
+    path = route ? [...path, ...(i === 1 ? route.path : route.path.slice(1))] : null;
+  }
+  corridors.set(load.id, path && path.length >= 2 ? path : null);
+  return corridors.get(load.id)!;
+}
+
+// Distance to a segment on a local flat projection; accurate enough at corridor scale
+function distanceToSegmentKm(point: LatLng, a: LatLng, b: LatLng): number {
+  const kmPerLng = 111.32 * Math.cos((point.lat * Math.PI) / 180);
+  const kmPerLat = 110.57;
+  const ax = (a.lng - point.lng) * kmPerLng;
+  const ay = (a.lat - point.lat) * kmPerLat;
+  const bx = (b.lng - point.lng) * kmPerLng;
+  const by = (b.lat - point.lat) * kmPerLat;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+function distanceFromCorridorKm(point: LatLng, path: LatLng[]): number {
+  let best = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    best = Math.min(best, distanceToSegmentKm(point, path[i - 1], path[i]));
+  }
+  return best;
+}
+
+function isExpectedStop(point: LatLng, geofences: Geofence[]): boolean {
+  const inGeofence = geofences.some((fence) =>
+    haversineKm(point, { lat: parseFloat(fence.lat), lng: parseFloat(fence.lng) }) * 1000 <= fence.radiusMeters * GEOFENCE_MARGIN
+  );
+  return inGeofence || KNOWN_HALTS.some((halt) => haversineKm(point, halt) <= halt.radiusKm);
+}
+
+// ============================================================================
+// TRIP WATCH
+// ============================================================================
+
+interface TripWatch {
+  lastPointAt: Date | null;
+  offCorridorSince: Date | null;
+  deviationAlert: TelematicsAlert | null;
+  stopAnchor: (RouteMonitorPoint & { isExpected: boolean }) | null;
+  stopAlert: TelematicsAlert | null;
+  // Breadcrumbs up to here are already marked risky for the open condition
+  deviationMarkedThrough: Date | null;
+  stopMarkedThrough: Date | null;
+  touchedAt: number;
+}
+
+const watches: Map<string, TripWatch> = new Map();
+
+// Open alerts survive a restart in the database; the conditions behind them are re-checked from there
+async function getWatch(loadId: string): Promise<TripWatch> {
+  const existing = watches.get(loadId);
+  if (existing) return existing;
+
+  const open = await storage.getTelematicsAlerts({ loadId, openOnly: true });
+  const deviationAlert = open.find((alert) => alert.alertType === "route_deviation") || null;
+  const stopAlert = open.find((alert) => alert.alertType === "unexpected_stop") || null;
+  const watch: TripWatch = {
+    lastPointAt: null,
+    offCorridorSince: deviationAlert?.startedAt || null,
+    deviationAlert,
+    stopAnchor: stopAlert?.startedAt && stopAlert.lat && stopAlert.lng
+      ? { lat: parseFloat(stopAlert.lat), lng: parseFloat(stopAlert.lng), recordedAt: stopAlert.startedAt, isExpected: false }
+      : null,
+    stopAlert,
+    deviationMarkedThrough: null,
+    stopMarkedThrough: null,
+    touchedAt: Date.now(),
+  };
+  watches.set(loadId, watch);
+  return watch;
+}
+
+function expireIdleWatches(now: number): void {
+  watches.forEach((watch, loadId) => {
+    if (now - watch.touchedAt < WATCH_IDLE_MS) return;
+    watches.delete(loadId);
+    corridors.delete(loadId);
+  });
+}
+
+/**
+ * Forget a load's corridor and watch once its trip is over, and resolve any
+ * deviation or stop alert still open: no more fixes will arrive to clear it
+ */
+export async function clearRouteWatch(loadId: string, at: Date = new Date()): Promise<void> {
+  watches.delete(loadId);
+  corridors.delete(loadId);
+  const open = await storage.getTelematicsAlerts({ loadId, openOnly: true });
+  for (const alert of open) {
+    if (alert.alertType === "route_deviation" || alert.alertType === "unexpected_stop") {
+      await resolveAlert(alert, at);
+    }
+  }
+}
+
+/**
+ * Drop a load's cached corridor so the next fix plans it from the load's
+ * current sites
+ */
+export function clearRouteCorridor(loadId: string): void {
+  corridors.delete(loadId);
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} hr` : `${hours} hr ${minutes % 60} min`;
+}
+
+/**
+ * Open a new alert or update the one already open for the condition. Going
+ * from warning to critical clears any acknowledgement so it's seen again.
+ */
+async function raiseAlert(
+  existing: TelematicsAlert | null,
+  fields: {
+    vehicleId: string;
+    loadId: string;
+    alertType: AlertType;
+    severity: AlertSeverity;
+    message: string;
+    point: LatLng;
+    value: number;
+    threshold: number;
+    startedAt: Date;
+  }
+): Promise<TelematicsAlert> {
+  if (existing) {
+    const escalated = existing.severity !== "critical" && fields.severity === "critical";
+    const updated = await storage.updateTelematicsAlert(existing.id, {
+      message: fields.message,
+      value: fields.value.toFixed(2),
+      ...(escalated ? { severity: "critical", isAcknowledged: false, acknowledgedAt: null, acknowledgedBy: null } : {}),
+    });
+    if (escalated && updated) broadcastMarketplaceEvent("telematics_alert", updated);
+    return updated || existing;
+  }
+
+  const alert = await storage.createTelematicsAlert({
+    vehicleId: fields.vehicleId,
+    loadId: fields.loadId,
+    alertType: fields.alertType,
+    severity: fields.severity,
+    message: fields.message,
+    lat: fields.point.lat.toFixed(7),
+    lng: fields.point.lng.toFixed(7),
+    value: fields.value.toFixed(2),
+    threshold: fields.threshold.toFixed(2),
+    startedAt: fields.startedAt,
+  });
+  broadcastMarketplaceEvent("telematics_alert", alert);
+  return alert;
+}
+
+async function resolveAlert(alert: TelematicsAlert, at: Date): Promise<void> {
+  await storage.updateTelematicsAlert(alert.id, { resolvedAt: at });
+}
+
+/**
+ * Check a trip's fixes (oldest first) against its planned corridor and for
+ * long stops. Late fixes older than the last one checked are skipped.
+ */
+export async function monitorRoute(shipment: Shipment, vehicleId: string, points: RouteMonitorPoint[]): Promise<void> {
+  if (points.length === 0) return;
+  const load = await storage.getLoad(shipment.loadId);
+  if (!load) return;
+
+  expireIdleWatches(Date.now());
+  const corridor = await getCorridor(load);
+  const geofences = await storage.getGeofencesByLoad(load.id);
+  const watch = await getWatch(load.id);
+  watch.touchedAt = Date.now();
+
+  for (const point of points) {
+    if (watch.lastPointAt && point.recordedAt <= watch.lastPointAt) continue;
+    watch.lastPointAt = point.recordedAt;
+
+    if (corridor) {
+      const offBy = distanceFromCorridorKm(point, corridor);
+      if (offBy > CORRIDOR_KM) {
+        watch.offCorridorSince = watch.offCorridorSince || point.recordedAt;
+        if (point.recordedAt.getTime() - watch.offCorridorSince.getTime() >= DEVIATION_MIN_MS) {
+          watch.deviationAlert = await raiseAlert(watch.deviationAlert, {
+            vehicleId,
+            loadId: load.id,
+            alertType: "route_deviation",
+            severity: offBy >= CRITICAL_DEVIATION_KM ? "critical" : "warning",
+            message: `${vehicleId} is ${Math.round(offBy)} km off the planned route (${load.pickupCity} to ${load.dropoffCity})`,
+            point,
+            value: offBy,
+            threshold: CORRIDOR_KM,
+            startedAt: watch.offCorridorSince,
+          });
+          await storage.markGpsBreadcrumbsRisky(vehicleId, watch.deviationMarkedThrough || watch.offCorridorSince, point.recordedAt, "Off planned route");
+          watch.deviationMarkedThrough = point.recordedAt;
+        }
+      } else {
+        if (watch.deviationAlert) await resolveAlert(watch.deviationAlert, point.recordedAt);
+        watch.offCorridorSince = null;
+        watch.deviationAlert = null;
+        watch.deviationMarkedThrough = null;
+      }
+    }
+
+    const anchor = watch.stopAnchor;
+    if (anchor && haversineKm(anchor, point) <= STOP_RADIUS_KM) {
+      const stoppedFor = point.recordedAt.getTime() - anchor.recordedAt.getTime();
+      if (!anchor.isExpected && stoppedFor >= STOP_ALERT_MS) {
+        watch.stopAlert = await raiseAlert(watch.stopAlert, {
+          vehicleId,
+          loadId: load.id,
+          alertType: "unexpected_stop",
+          severity: stoppedFor >= STOP_CRITICAL_MS ? "critical" : "warning",
+          message: `${vehicleId} has been stopped for ${formatDuration(stoppedFor)} away from any planned stop`,
+          point: anchor,
+          value: stoppedFor / 60000,
+          threshold: STOP_ALERT_MS / 60000,
+          startedAt: anchor.recordedAt,
+        });
+        await storage.markGpsBreadcrumbsRisky(vehicleId, watch.stopMarkedThrough || anchor.recordedAt, point.recordedAt, "Unplanned stop");
+        watch.stopMarkedThrough = point.recordedAt;
+      }
+    } else {
+      if (watch.stopAlert) await resolveAlert(watch.stopAlert, point.recordedAt);
+      watch.stopAlert = null;
+      watch.stopMarkedThrough = null;
+      watch.stopAnchor = { ...point, isExpected: isExpectedStop(point, geofences) };
+    }
+  }
+}
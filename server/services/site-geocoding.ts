@@ -0,0 +1,155 @@
+import { storage } from "../storage";
+import { refreshSiteFences } from "./geofencing";
+import { clearRouteCorridor } from "./route-monitor";
+import type { Load } from "@shared/schema";
+
+/**
+ * Site Geocoding
+ *
+ * Pickup, dropoff and stop coordinates place the site itself: geofences and
+ * the route monitor rely on them. They are looked up through Nominatim from
+ * the street address, or failing that the pincode, whenever a load or its
+ * stops are saved. A match no finer than a city or district is discarded,
+ * so a site without a usable address has no coordinates rather than the
+ * city centre's. When a site moves, its geofences and the route monitor's
+ * planned corridor are redrawn.
+ */
+
+export interface SiteAddress {
+  address?: string | null;
+  locality?: string | null;
+  city: string;
+  state?: string | null;
+  pincode?: string | null;
+}
+
+interface SitePoint {
+  lat: number;
+  lng: number;
+}
+
+// Nominatim place_rank: 16 is a city, 18+ a suburb, postcode or street
+const MIN_SITE_PLACE_RANK = 18;
+const GEOCODE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Load fields that move a site, so its coordinates need looking up again
+export const LOAD_SITE_FIELDS = [
+  "pickupAddress", "pickupLocality", "pickupCity", "pickupState", "pickupPincode",
+  "dropoffAddress", "dropoffLocality", "dropoffCity", "dropoffState", "dropoffPincode",
+] as const;
+
+const geocodeCache = new Map<string, { point: SitePoint | null; timestamp: number }>();
+
+async function searchNominatim(params: Record<string, string>): Promise<SitePoint | null> {
+  const cacheKey = JSON.stringify(params).toLowerCase();
+  const cached = geocodeCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < GEOCODE_CACHE_TTL_MS) return cached.point;
+
+  const url = new URL("https://nominatim.openstreetmap.org/search");
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+  url.searchParams.set("countrycodes", "in");
+  url.searchParams.set("format", "jsonv2");
+  url.searchParams.set("limit", "1");
+
+  const response = await fetch(url.toString(), {
+    headers: { "User-Agent": "LoadSmart/1.0 (logistics platform)" },
+  });
+  if (!response.ok) return null;
+  const data = await response.json();
+  const match = Array.isArray(data) ? data[0] : undefined;
+  const point = match && match.place_rank >= MIN_SITE_PLACE_RANK
+    ? { lat: parseFloat(match.lat), lng: parseFloat(match.lon) }
+    : null;
+
+  geocodeCache.set(cacheKey, { point, timestamp: Date.now() });
+  return point;
+}
+
+/**
+ * Coordinates of a site from its street address, else its pincode. Null when
+ * neither resolves finer than the city.
+ */
+export async function geocodeSite(site: SiteAddress): Promise<SitePoint | null> {
+  if (site.address?.trim()) {
+    const query = [site.address, site.locality, site.city, site.state, site.pincode]
+      .filter((part) => part && part.trim())
+      .join(", ");
+    const point = await searchNominatim({ q: query });
+    if (point) return point;
+  }
+  if (site.pincode && /^\d{6}$/.test(site.pincode.trim())) {
+    return searchNominatim({ postalcode: site.pincode.trim() });
+  }
+  return null;
+}
+
+export function changesLoadSites(updates: Record<string, unknown>): boolean {
+  return LOAD_SITE_FIELDS.some((field) => updates[field] !== undefined);
+}
+
+function toColumns(point: SitePoint | null): { lat: string | null; lng: string | null } {
+  return point ? { lat: point.lat.toFixed(7), lng: point.lng.toFixed(7) } : { lat: null, lng: null };
+}
+
+// Decimal columns read back with their own formatting, so compare as numbers
+function sameColumns(point: { lat: string | null; lng: string | null }, lat: string | null, lng: string | null): boolean {
+  const same = (a: string | null, b: string | null) => a === null || b === null ? a === b : parseFloat(a) === parseFloat(b);
+  return same(point.lat, lat) && same(point.lng, lng);
+}
+
+/**
+ * Look up the load's pickup, dropoff and stop coordinates again from their
+ * addresses. Run after the load or its stops are saved; sites that no longer
+ * resolve lose their old coordinates.
+ */
+export async function geocodeLoadSites(loadId: string): Promise<Load | undefined> {
+  const load = await storage.getLoad(loadId);
+  if (!load) return undefined;
+
+  const pickup = toColumns(await geocodeSite({
+    address: load.pickupAddress,
+    locality: load.pickupLocality,
+    city: load.pickupCity,
+    state: load.pickupState,
+    pincode: load.pickupPincode,
+  }));
+  const dropoff = toColumns(await geocodeSite({
+    address: load.dropoffAddress,
+    locality: load.dropoffLocality,
+    city: load.dropoffCity,
+    state: load.dropoffState,
+    pincode: load.dropoffPincode,
+  }));
+
+  let moved = !sameColumns(pickup, load.pickupLat, load.pickupLng) || !sameColumns(dropoff, load.dropoffLat, load.dropoffLng);
+  for (const stop of await storage.getLoadStops(load.id)) {
+    const point = toColumns(await geocodeSite(stop));
+    if (!sameColumns(point, stop.lat, stop.lng)) {
+      await storage.updateLoadStop(stop.id, point);
+      moved = true;
+    }
+  }
+
+  const updated = await storage.updateLoad(load.id, {
+    pickupLat: pickup.lat,
+    pickupLng: pickup.lng,
+    dropoffLat: dropoff.lat,
+    dropoffLng: dropoff.lng,
+  });
+
+  // Fences and the planned route were drawn around the old sites
+  if (moved) {
+    await refreshSiteFences(load.id);
+    clearRouteCorridor(load.id);
+  }
+  return updated;
+}
+
+/**
+ * geocodeLoadSites without holding up the request that saved the load
+ */
+export function queueLoadSiteGeocoding(loadId: string): void {
+  geocodeLoadSites(loadId).catch((error) => {
+    console.error("Geocode load sites error:", error);
+  });
+}
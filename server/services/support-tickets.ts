@@ -0,0 +1,263 @@
+import { storage } from "../storage";
+import { canUserAccessLoad } from "../workflow-service";
+import { broadcastMarketplaceEvent, broadcastToUser } from "../websocket-marketplace";
+import {
+  supportTicketCategories,
+  supportTicketPriorities,
+  type SupportTicket,
+  type SupportTicketCategory,
+  type SupportTicketPriority,
+  type SupportTicketStatus,
+  type User,
+} from "@shared/schema";
+
+/**
+ * Support Tickets
+ *
+ * A help bot conversation can be escalated to a ticket, either by the user or
+ * by the bot itself (escalate_to_support tool). The conversation stays the
+ * transcript: admin replies are stored in it as "agent" messages and pushed to
+ * the user's HelpBotWidget, and while a ticket is active the user's messages
+ * go to the support team instead of the bot.
+ *
+ * SLA targets come from priority. The support_sla job flags tickets that miss
+ * either target and alerts the assignee (or every admin when unassigned).
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+export const SUPPORT_SLA_TARGETS: Record<SupportTicketPriority, { firstResponseHours: number; resolutionHours: number }> = {
+  urgent: { firstResponseHours: 1, resolutionHours: 8 },
+  high: { firstResponseHours: 4, resolutionHours: 24 },
+  normal: { firstResponseHours: 8, resolutionHours: 72 },
+  low: { firstResponseHours: 24, resolutionHours: 120 },
+};
+
+const ACTIVE_STATUSES: SupportTicketStatus[] = ["open", "in_progress", "waiting_on_user"];
+
+export function isTicketActive(ticket: SupportTicket): boolean {
+  return ACTIVE_STATUSES.includes(ticket.status as SupportTicketStatus);
+}
+
+function ticketLabel(ticket: SupportTicket): string {
+  return `#${ticket.ticketNumber}`;
+}
+
+async function notifyAdmins(title: string, message: string, ticket: SupportTicket): Promise<void> {
+  const recipients = ticket.assignedTo ? [ticket.assignedTo] : (await storage.getAdmins()).map((admin) => admin.id);
+  for (const userId of recipients) {
+    await storage.createNotification({
+      userId,
+      title,
+      message,
+      type: "info",
+      relatedLoadId: ticket.relatedLoadId,
+      relatedInvoiceId: ticket.relatedInvoiceId,
+      contextType: "support_ticket",
+    });
+  }
+}
+
+export interface EscalationRequest {
+  user: User;
+  conversationId: number;
+  category?: string;
+  priority?: string;
+  subject?: string;
+  relatedLoadId?: string | null;
+  relatedInvoiceId?: string | null;
+  source: "user" | "bot";
+}
+
+/**
+ * Turn a help bot conversation into a ticket. If the conversation already has
+ * an active ticket that one is returned instead of opening a second.
+ */
+export async function escalateConversation(
+  request: EscalationRequest
+): Promise<{ success: boolean; error?: string; ticket?: SupportTicket; existing?: boolean }> {
+  const { user, conversationId } = request;
+
+  const conversation = await storage.getHelpBotConversation(conversationId);
+  if (!conversation || conversation.userId !== user.id) {
+    return { success: false, error: "Conversation not found" };
+  }
+
+  const existing = await storage.getActiveSupportTicketByConversation(conversationId);
+  if (existing) {
+    return { success: true, ticket: existing, existing: true };
+  }
+
+  const category = (request.category || "other") as SupportTicketCategory;
+  if (!supportTicketCategories.includes(category)) {
+    return { success: false, error: `Category must be one of: ${supportTicketCategories.join(", ")}` };
+  }
+  const priority = (request.priority || "normal") as SupportTicketPriority;
+  if (!supportTicketPriorities.includes(priority)) {
+    return { success: false, error: `Priority must be one of: ${supportTicketPriorities.join(", ")}` };
+  }
+
+  // Linked records follow the same access rules as the REST routes
+  if (request.relatedLoadId && !(await canUserAccessLoad(user.id, request.relatedLoadId))) {
+    return { success: false, error: "Load not found" };
+  }
+  let relatedLoadId = request.relatedLoadId || null;
+  if (request.relatedInvoiceId) {
+    const invoice = await storage.getInvoice(request.relatedInvoiceId);
+    if (!invoice || (user.role !== "admin" && invoice.shipperId !== user.id)) {
+      return { success: false, error: "Invoice not found" };
+    }
+    relatedLoadId = relatedLoadId || invoice.loadId;
+  }
+
+  const now = Date.now();
+  const sla = SUPPORT_SLA_TARGETS[priority];
+  const ticket = await storage.createSupportTicket({
+    userId: user.id,
+    conversationId,
+    subject: (request.subject || conversation.title).slice(0, 200),
+    category,
+    priority,
+    status: "open",
+    source: request.source,
+    relatedLoadId,
+    relatedInvoiceId: request.relatedInvoiceId || null,
+    firstResponseDueAt: new Date(now + sla.firstResponseHours * HOUR),
+    resolutionDueAt: new Date(now + sla.resolutionHours * HOUR),
+  });
+
+  await storage.createHelpBotMessage({
+    conversationId,
+    role: "assistant",
+    content: `I've passed this to our support team as ticket ${ticketLabel(ticket)}. They usually reply within ${sla.firstResponseHours} hour${sla.firstResponseHours === 1 ? "" : "s"}, and their answer will show up right here in this chat.`,
+  });
+
+  await notifyAdmins(
+    "New Support Ticket",
+    `Ticket ${ticketLabel(ticket)} (${priority}, ${category}) from ${user.companyName || user.username}: ${ticket.subject}`,
+    ticket
+  );
+  broadcastMarketplaceEvent("support_ticket_created", { ticketId: ticket.id, ticketNumber: ticket.ticketNumber, priority });
+
+  return { success: true, ticket };
+}
+
+/**
+ * Admin reply: stored in the conversation and pushed to the requester's widget
+ */
+export async function replyToTicket(ticket: SupportTicket, admin: User, content: string): Promise<SupportTicket | undefined> {
+  const message = await storage.createHelpBotMessage({
+    conversationId: ticket.conversationId,
+    role: "agent",
+    content,
+  });
+
+  const updated = await storage.updateSupportTicket(ticket.id, {
+    status: "waiting_on_user",
+    firstRespondedAt: ticket.firstRespondedAt || new Date(),
+    assignedTo: ticket.assignedTo || admin.id,
+    assignedAt: ticket.assignedAt || new Date(),
+  });
+
+  await storage.createNotification({
+    userId: ticket.userId,
+    title: "Support Replied",
+    message: `Our support team replied to ticket ${ticketLabel(ticket)}.`,
+    type: "info",
+    relatedLoadId: ticket.relatedLoadId,
+    relatedInvoiceId: ticket.relatedInvoiceId,
+    contextType: "support_ticket",
+  });
+  broadcastToUser(ticket.userId, {
+    type: "support_reply",
+    ticketId: ticket.id,
+    ticketNumber: ticket.ticketNumber,
+    conversationId: ticket.conversationId,
+    message: { id: message.id, role: message.role, content: message.content, createdAt: message.createdAt },
+  });
+
+  return updated;
+}
+
+/**
+ * User message on a conversation with an active ticket
+ */
+export async function recordUserReply(ticket: SupportTicket): Promise<void> {
+  if (ticket.status === "waiting_on_user") {
+    await storage.updateSupportTicket(ticket.id, { status: ticket.assignedTo ? "in_progress" : "open" });
+  }
+  await notifyAdmins("Support Ticket Updated", `The user replied on ticket ${ticketLabel(ticket)}.`, ticket);
+  broadcastMarketplaceEvent("support_ticket_updated", { ticketId: ticket.id, ticketNumber: ticket.ticketNumber });
+}
+
+export async function assignTicket(ticket: SupportTicket, assigneeId: string | null): Promise<{ success: boolean; error?: string; ticket?: SupportTicket }> {
+  if (assigneeId) {
+    const assignee = await storage.getUser(assigneeId);
+    if (!assignee || assignee.role !== "admin") {
+      return { success: false, error: "Tickets can only be assigned to admins" };
+    }
+  }
+
+  const updated = await storage.updateSupportTicket(ticket.id, {
+    assignedTo: assigneeId,
+    assignedAt: assigneeId ? new Date() : null,
+    status: assigneeId && ticket.status === "open" ? "in_progress" : ticket.status,
+  });
+  if (assigneeId && updated) {
+    await storage.createNotification({
+      userId: assigneeId,
+      title: "Support Ticket Assigned",
+      message: `Ticket ${ticketLabel(ticket)} was assigned to you: ${ticket.subject}`,
+      type: "info",
+      relatedLoadId: ticket.relatedLoadId,
+      relatedInvoiceId: ticket.relatedInvoiceId,
+      contextType: "support_ticket",
+    });
+  }
+  return { success: true, ticket: updated };
+}
+
+export async function setTicketStatus(ticket: SupportTicket, status: SupportTicketStatus): Promise<SupportTicket | undefined> {
+  const updates: Partial<SupportTicket> = { status };
+  if (status === "resolved") updates.resolvedAt = ticket.resolvedAt || new Date();
+  if (status === "closed") updates.closedAt = new Date();
+  // Reopening clears the resolution so the SLA timer applies again
+  if (ACTIVE_STATUSES.includes(status)) {
+    updates.resolvedAt = null;
+    updates.closedAt = null;
+  }
+
+  const updated = await storage.updateSupportTicket(ticket.id, updates);
+  if (updated && (status === "resolved" || status === "closed") && isTicketActive(ticket)) {
+    await storage.createHelpBotMessage({
+      conversationId: ticket.conversationId,
+      role: "agent",
+      content: `Ticket ${ticketLabel(ticket)} has been marked ${status}. If you still need help, just reply here.`,
+    });
+    broadcastToUser(ticket.userId, {
+      type: "support_reply",
+      ticketId: ticket.id,
+      ticketNumber: ticket.ticketNumber,
+      conversationId: ticket.conversationId,
+      status,
+    });
+  }
+  return updated;
+}
+
+/**
+ * Scheduled: flag tickets that missed a first-response or resolution target
+ */
+export async function checkSupportSlaBreaches(now: Date = new Date()): Promise<{ breached: number }> {
+  const breached = await storage.getSlaBreachedSupportTickets(now);
+  for (const ticket of breached) {
+    await storage.updateSupportTicket(ticket.id, { slaBreachedAt: now });
+    const missed = !ticket.firstRespondedAt && ticket.firstResponseDueAt < now ? "first response" : "resolution";
+    await notifyAdmins(
+      "Support SLA Breached",
+      `Ticket ${ticketLabel(ticket)} (${ticket.priority}) missed its ${missed} target.`,
+      ticket
+    );
+  }
+  return { breached: breached.length };
+}
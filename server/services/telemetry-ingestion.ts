@@ -0,0 +1,412 @@
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { evaluateGeofences } from "./geofencing";
+import { monitorRoute } from "./route-monitor";
+import { getLatestTripEta, updateTripEta } from "./eta-model";
+import { getVehicleTelemetry, publishTelemetry, type TelemetrySource } from "../telemetry-hub";
+import type {
+  GpsDevice,
+  GpsDeviceType,
+  InsertGpsBreadcrumb,
+  InsertVehicleTelemetry,
+  LiveTelemetryData,
+  Shipment,
+  Truck,
+  User,
+} from "@shared/schema";
+
+/**
+ * Telemetry Ingestion
+ *
+ * Positions from real GPS devices: AIS-140 trackers (raw packets over HTTP
+ * or TCP) and the driver app (JSON over HTTP). Every device belongs to one
+ * truck and authenticates with its own API key; AIS-140 units on the TCP
+ * listener are matched by IMEI instead, as they can't send headers.
+ *
+ * A batch is validated, ordered by fix time and de-duplicated against what
+ * the truck already reported, then written to gpsBreadcrumbs and
+ * vehicleTelemetry against the truck's active shipment. The breadcrumbs'
+ * unique (vehicleId, recordedAt) settles batches that race each other. The newest fix moves
+ * the truck, the shipment and the live hub (and so /ws/telemetry); trip
+ * fixes are also run through the load's geofences, the route monitor and
+ * the ETA model.
+ *
+ * Solo drivers without a tracker share their phone's location from the
+ * solo portal instead; that goes through the same pipeline as a mobile_app
+ * device we provision for them.
+ */
+
+export interface DevicePosition {
+  recordedAt: Date;
+  lat: number;
+  lng: number;
+  speed?: number | null;
+  heading?: number | null;
+  altitude?: number | null;
+  isIgnitionOn?: boolean | null;
+  // CAN-bus readings, when the unit is wired to the engine
+  rpm?: number | null;
+  fuelLevel?: number | null;
+  engineTemp?: number | null;
+  batteryVoltage?: number | null;
+  odometer?: number | null;
+  // Horizontal accuracy in metres, from phones
+  accuracy?: number | null;
+  isHistory?: boolean;
+}
+
+export interface IngestResult {
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+}
+
+const DEVICE_KEY_PREFIX = "gps_";
+// Devices buffer history while offline; anything older than this is dropped
+const MAX_POSITION_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Device clocks drift; fixes further ahead than this are rejected
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const MAX_BATCH_SIZE = 500;
+// Phone fixes vaguer than this are cell-tower guesses, not GPS
+const MAX_ACCURACY_M = 250;
+const STALE_AFTER_MS = 30 * 60 * 1000;
+
+const optionalNumber = z.coerce.number().finite().optional().nullable();
+
+export const devicePositionSchema = z.object({
+  recordedAt: z.coerce.date(),
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  speed: optionalNumber,
+  heading: optionalNumber,
+  altitude: optionalNumber,
+  isIgnitionOn: z.boolean().optional().nullable(),
+  rpm: optionalNumber,
+  fuelLevel: optionalNumber,
+  engineTemp: optionalNumber,
+  batteryVoltage: optionalNumber,
+  odometer: optionalNumber,
+  accuracy: optionalNumber,
+});
+
+export const devicePositionsSchema = z.array(devicePositionSchema).min(1).max(MAX_BATCH_SIZE);
+
+// ============================================================================
+// DEVICE KEYS
+// ============================================================================
+
+export function hashDeviceKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+function generateDeviceKey(): { apiKey: string; apiKeyHash: string; apiKeyPrefix: string } {
+  const apiKey = DEVICE_KEY_PREFIX + randomBytes(24).toString("base64url");
+  return { apiKey, apiKeyHash: hashDeviceKey(apiKey), apiKeyPrefix: apiKey.slice(0, DEVICE_KEY_PREFIX.length + 6) };
+}
+
+export async function authenticateDevice(apiKey: string | undefined): Promise<GpsDevice | null> {
+  if (!apiKey || !apiKey.startsWith(DEVICE_KEY_PREFIX)) return null;
+  const device = await storage.getGpsDeviceByKeyHash(hashDeviceKey(apiKey));
+  return device && device.isActive ? device : null;
+}
+
+/**
+ * Register a device for a truck. The plain API key is only ever returned
+ * here (and by rotateDeviceKey); we keep its hash.
+ */
+export async function registerGpsDevice(input: {
+  truck: Truck;
+  deviceType: GpsDeviceType;
+  deviceIdentifier: string;
+  label?: string | null;
+  createdBy: string;
+}): Promise<{ success: boolean; error?: string; device?: GpsDevice; apiKey?: string }> {
+  const existing = await storage.getGpsDeviceByIdentifier(input.deviceType, input.deviceIdentifier);
+  if (existing) {
+    return { success: false, error: "This device is already registered to a truck. Deactivate it there first." };
+  }
+
+  const { apiKey, apiKeyHash, apiKeyPrefix } = generateDeviceKey();
+  const device = await storage.createGpsDevice({
+    truckId: input.truck.id,
+    carrierId: input.truck.carrierId,
+    deviceType: input.deviceType,
+    deviceIdentifier: input.deviceIdentifier,
+    label: input.label || null,
+    apiKeyHash,
+    apiKeyPrefix,
+    isActive: true,
+    createdBy: input.createdBy,
+  });
+  return { success: true, device, apiKey };
+}
+
+export async function rotateDeviceKey(device: GpsDevice): Promise<{ device: GpsDevice; apiKey: string }> {
+  const { apiKey, apiKeyHash, apiKeyPrefix } = generateDeviceKey();
+  const updated = await storage.updateGpsDevice(device.id, { apiKeyHash, apiKeyPrefix });
+  return { device: updated || device, apiKey };
+}
+
+// ============================================================================
+// LIVE SOURCE FOR DEVICE-REPORTED VEHICLES
+// ============================================================================
+
+export const deviceTelemetrySource: TelemetrySource = {
+  name: "device",
+  staleAfterMs: STALE_AFTER_MS,
+  // Estimated as fixes arrive (see eta-model.ts)
+  getEtaPrediction: (loadId) => getLatestTripEta(loadId),
+  getBreadcrumbs: async (vehicleId, minutes) => {
+    const to = new Date();
+    const from = new Date(to.getTime() - minutes * 60 * 1000);
+    const breadcrumbs = await storage.getGpsBreadcrumbsInRange(vehicleId, from, to);
+    return breadcrumbs.map((crumb) => ({
+      lat: parseFloat(crumb.lat),
+      lng: parseFloat(crumb.lng),
+      timestamp: (crumb.recordedAt || crumb.createdAt || to).toISOString(),
+    }));
+  },
+};
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+function isPlausible(position: DevicePosition, now: number): boolean {
+  const time = position.recordedAt.getTime();
+  if (isNaN(time) || time > now + MAX_CLOCK_SKEW_MS || time < now - MAX_POSITION_AGE_MS) return false;
+  if (!isFinite(position.lat) || !isFinite(position.lng)) return false;
+  if (Math.abs(position.lat) > 90 || Math.abs(position.lng) > 180) return false;
+  if (position.accuracy !== null && position.accuracy !== undefined && position.accuracy > MAX_ACCURACY_M) return false;
+  // Units without a fix often report 0,0
+  return !(position.lat === 0 && position.lng === 0);
+}
+
+function toDecimal(value: number | null | undefined, digits: number): string | null {
+  return value === null || value === undefined ? null : value.toFixed(digits);
+}
+
+function toInteger(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(value);
+}
+
+// Only fixes taken after the trip started count towards its trail
+function loadIdAt(shipment: Shipment | undefined, recordedAt: Date): string | null {
+  if (!shipment) return null;
+  const start = shipment.startedAt || shipment.createdAt;
+  return !start || recordedAt >= start ? shipment.loadId : null;
+}
+
+function buildLiveTelemetry(
+  vehicleId: string,
+  truck: Truck,
+  shipment: Shipment | undefined,
+  position: DevicePosition
+): LiveTelemetryData {
+  const previous = getVehicleTelemetry(vehicleId);
+  const hasCanBus = [position.rpm, position.fuelLevel, position.engineTemp].some((value) => value !== null && value !== undefined);
+  const speed = Math.round(position.speed ?? 0);
+
+  return {
+    vehicleId,
+    gps: { lat: position.lat, lng: position.lng },
+    speed,
+    rpm: Math.round(position.rpm ?? 0),
+    fuelLevel: Math.round(position.fuelLevel ?? 0),
+    engineTemp: Math.round(position.engineTemp ?? 0),
+    batteryVoltage: Math.round((position.batteryVoltage ?? 0) * 10) / 10,
+    odometer: Math.round((position.odometer ?? previous?.odometer ?? 0) * 10) / 10,
+    driverId: shipment?.driverId || "",
+    loadId: shipment?.loadId || "",
+    heading: Math.round(position.heading ?? previous?.heading ?? 0),
+    maxCapacity: truck.capacity,
+    isIgnitionOn: position.isIgnitionOn ?? speed > 0,
+    hasCanBus,
+    timestamp: position.recordedAt.toISOString(),
+  };
+}
+
+/**
+ * Store a batch of positions from one device. Order within the batch
+ * doesn't matter; fixes the truck already reported (same timestamp) are
+ * counted as duplicates, implausible ones as rejected. Pass the shipment
+ * when the caller already knows it; otherwise it's the truck's active one.
+ */
+export async function ingestDevicePositions(
+  device: GpsDevice,
+  positions: DevicePosition[],
+  activeShipment?: Shipment
+): Promise<IngestResult> {
+  const now = Date.now();
+  const plausible = positions.filter((position) => isPlausible(position, now));
+  const rejected = positions.length - plausible.length;
+
+  const truck = await storage.getTruck(device.truckId);
+  if (!truck) {
+    return { accepted: 0, duplicates: 0, rejected: positions.length };
+  }
+  const vehicleId = truck.licensePlate;
+
+  const ordered = plausible.slice().sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  const seen = new Set<number>();
+  if (ordered.length > 0) {
+    const existing = await storage.getGpsBreadcrumbsInRange(
+      vehicleId,
+      ordered[0].recordedAt,
+      ordered[ordered.length - 1].recordedAt
+    );
+    existing.forEach((crumb) => crumb.recordedAt && seen.add(crumb.recordedAt.getTime()));
+  }
+
+  const unseen: DevicePosition[] = [];
+  ordered.forEach((position) => {
+    const time = position.recordedAt.getTime();
+    if (seen.has(time)) return;
+    seen.add(time);
+    unseen.push(position);
+  });
+
+  await storage.updateGpsDevice(device.id, { lastSeenAt: new Date() });
+  if (unseen.length === 0) {
+    return { accepted: 0, duplicates: ordered.length, rejected };
+  }
+
+  const shipment = activeShipment || await storage.getActiveShipmentByTruck(truck.id);
+
+  const breadcrumbRows: InsertGpsBreadcrumb[] = unseen.map((position) => ({
+    vehicleId,
+    deviceId: device.id,
+    loadId: loadIdAt(shipment, position.recordedAt),
+    lat: position.lat.toFixed(7),
+    lng: position.lng.toFixed(7),
+    speed: toInteger(position.speed),
+    heading: toInteger(position.heading),
+    recordedAt: position.recordedAt,
+  }));
+  // A concurrent batch may have stored some of these since we looked; only what we inserted is ours
+  const inserted = new Set(
+    (await storage.createGpsBreadcrumbs(breadcrumbRows)).map((crumb) => crumb.recordedAt?.getTime())
+  );
+  const fresh = unseen.filter((position) => inserted.has(position.recordedAt.getTime()));
+  const duplicates = ordered.length - fresh.length;
+  if (fresh.length === 0) {
+    return { accepted: 0, duplicates, rejected };
+  }
+
+  const telemetryRows: InsertVehicleTelemetry[] = fresh.map((position) => ({
+    vehicleId,
+    truckId: truck.id,
+    deviceId: device.id,
+    loadId: loadIdAt(shipment, position.recordedAt),
+    lat: position.lat.toFixed(7),
+    lng: position.lng.toFixed(7),
+    speed: toInteger(position.speed),
+    rpm: toInteger(position.rpm),
+    fuelLevel: toInteger(position.fuelLevel),
+    engineTemp: toInteger(position.engineTemp),
+    batteryVoltage: toDecimal(position.batteryVoltage, 1),
+    odometer: toDecimal(position.odometer, 1),
+    maxCapacity: truck.capacity.toString(),
+    heading: toInteger(position.heading),
+    altitude: toInteger(position.altitude),
+    isIgnitionOn: position.isIgnitionOn ?? null,
+    timestamp: position.recordedAt,
+  }));
+  await storage.createVehicleTelemetryRecords(telemetryRows);
+
+  // Late history packets fill in the trail but don't move the truck back
+  const newest = fresh[fresh.length - 1];
+  if (!device.lastFixAt || newest.recordedAt > device.lastFixAt) {
+    const lat = newest.lat.toFixed(7);
+    const lng = newest.lng.toFixed(7);
+    await storage.updateGpsDevice(device.id, { lastFixAt: newest.recordedAt, lastLat: lat, lastLng: lng });
+    await storage.updateTruck(truck.id, { currentLat: lat, currentLng: lng });
+    if (shipment) {
+      await storage.updateShipment(shipment.id, { currentLat: lat, currentLng: lng });
+    }
+    publishTelemetry(deviceTelemetrySource, buildLiveTelemetry(vehicleId, truck, shipment, newest));
+  }
+
+  // Points uploaded after delivery fill in the trail but don't reopen the trip's alerts or ETA
+  if (shipment && shipment.status !== "delivered" && !shipment.endOtpVerified) {
+    const tripPoints = fresh.filter((position) => loadIdAt(shipment, position.recordedAt));
+    try {
+      await evaluateGeofences(shipment, tripPoints);
+    } catch (error) {
+      // The positions are stored; a failed fence check shouldn't make the device resend them
+      console.error("Geofence evaluation error:", error);
+    }
+    try {
+      await monitorRoute(shipment, vehicleId, tripPoints);
+    } catch (error) {
+      console.error("Route monitor error:", error);
+    }
+    if (tripPoints.length > 0) {
+      try {
+        await updateTripEta(shipment, vehicleId, truck.truckType, tripPoints[tripPoints.length - 1]);
+      } catch (error) {
+        console.error("ETA update error:", error);
+      }
+    }
+  }
+
+  return { accepted: fresh.length, duplicates, rejected };
+}
+
+// ============================================================================
+// DRIVER PHONE TRACKING
+// ============================================================================
+
+function phoneDeviceIdentifier(userId: string): string {
+  return `phone-${userId}`;
+}
+
+// Solo shipments don't always have a truck assigned; fall back to the load's, then the carrier's only truck
+async function resolveTripTruck(carrierId: string, shipment: Shipment): Promise<Truck | undefined> {
+  const truckId = shipment.truckId || (await storage.getLoad(shipment.loadId))?.assignedTruckId;
+  if (truckId) {
+    const truck = await storage.getTruck(truckId);
+    if (truck) return truck;
+  }
+  const trucks = await storage.getTrucksByCarrier(carrierId);
+  return trucks[0];
+}
+
+/**
+ * Positions a driver's phone collected for a shipment, uploaded from the solo
+ * portal with the session instead of a device key. Batches may arrive late
+ * and out of order after the phone was offline. The first upload registers
+ * the phone as a mobile_app device on the trip's truck.
+ */
+export async function ingestDriverPhonePositions(
+  user: User,
+  shipment: Shipment,
+  positions: DevicePosition[]
+): Promise<{ success: boolean; error?: string; result?: IngestResult }> {
+  const truck = await resolveTripTruck(user.id, shipment);
+  if (!truck) {
+    return { success: false, error: "Add your truck before sharing your location" };
+  }
+
+  // Inactive devices are looked up too, or deactivating one would just register a fresh one
+  let device = await storage.getGpsDeviceByIdentifier("mobile_app", phoneDeviceIdentifier(user.id), { includeInactive: true });
+  if (device && !device.isActive) {
+    return { success: false, error: "Location sharing from this phone has been turned off. Contact support to turn it back on." };
+  }
+  if (!device) {
+    const registered = await registerGpsDevice({
+      truck,
+      deviceType: "mobile_app",
+      deviceIdentifier: phoneDeviceIdentifier(user.id),
+      label: "Driver phone",
+      createdBy: user.id,
+    });
+    if (!registered.device) return { success: false, error: registered.error };
+    device = registered.device;
+  } else if (device.truckId !== truck.id) {
+    device = (await storage.updateGpsDevice(device.id, { truckId: truck.id })) || device;
+  }
+
+  return { success: true, result: await ingestDevicePositions(device, positions, shipment) };
+}
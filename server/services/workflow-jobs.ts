@@ -0,0 +1,262 @@
+import { storage } from "../storage";
+import { registerJob } from "./job-scheduler";
+import { checkEwayBillExpiry } from "./eway-bill";
+import { checkSupportSlaBreaches } from "./support-tickets";
+import { buildBiddingWindowFields, closeExpiredBiddingWindows } from "./bidding-windows";
+import { runDueLoadSchedules } from "./load-schedules";
+import { runPtlMatcher } from "./load-consolidation";
+import { trainEtaModel } from "./eta-model";
+import type { AdminActionsQueue, LoadStatus } from "@shared/schema";
+
+/**
+ * Workflow Jobs
+ *
+ * Time-based transitions that nothing else triggers:
+ *   expire_bids           pending/countered bids on loads no longer taking bids,
+ *                         past pickup, or older than BID_TTL_DAYS
+ *   expire_proposals      carrier proposals past expiresAt
+ *   mark_invoices_overdue flag unpaid invoices past dueDate (overdueAt; status is
+ *                         left alone so the shipper can still approve or negotiate)
+ *   expire_otps           OTP verifications past expiresAt
+ *   process_action_queue  adminActionsQueue entries, retried with exponential backoff
+ *   eway_bill_expiry      e-way bill lapse warnings (see eway-bill.ts)
+ *   purge_distance_cache  expired route distance cache rows
+ *   purge_marketplace_events  socket event log older than MARKETPLACE_EVENT_RETENTION_DAYS
+ *   support_sla           support tickets past their SLA targets (see support-tickets.ts)
+ *   bidding_windows       close and award sealed/auction windows past biddingClosesAt
+ *                         (see bidding-windows.ts)
+ *   load_schedules        create pending loads for recurring schedules due today
+ *                         (see load-schedules.ts)
+ *   ptl_matcher           group waiting part-truck loads on the same lane and day
+ *                         into shared trips (see load-consolidation.ts)
+ *   train_eta_model       rebuild ETA speed profiles from delivered trips' breadcrumbs
+ *                         (see eta-model.ts)
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const BID_TTL_DAYS = 7;
+// Loads still taking bids (or paused by the shipper)
+const BID_OPEN_LOAD_STATUSES: LoadStatus[] = ["posted_to_carriers", "open_for_bid", "counter_received", "unavailable"];
+// Clients offline longer than this refetch instead of replaying
+const MARKETPLACE_EVENT_RETENTION_DAYS = 14;
+const UNPAID_INVOICE_STATUSES = ["sent", "viewed", "approved", "acknowledged", "negotiating", "revised"];
+
+const QUEUE_BATCH_SIZE = 20;
+const QUEUE_RETRY_BASE_MS = MINUTE;
+const QUEUE_RETRY_MAX_MS = HOUR;
+// Entries left in "processing" this long belonged to an instance that died
+const QUEUE_STUCK_MS = 15 * MINUTE;
+
+// ============================================================================
+// EXPIRY SWEEPS
+// ============================================================================
+
+export async function expireStaleBids(now: Date = new Date()): Promise<{ expired: number }> {
+  const cutoff = new Date(now.getTime() - BID_TTL_DAYS * 24 * HOUR);
+  const stale = await storage.getExpirableBids(cutoff, now, BID_OPEN_LOAD_STATUSES);
+
+  for (const { bid, load } of stale) {
+    await storage.updateBid(bid.id, { status: "expired" });
+    await storage.createNotification({
+      userId: bid.carrierId,
+      title: "Bid Expired",
+      message: `Your bid on load ${load.pickupCity} to ${load.dropoffCity} has expired.`,
+      type: "bid",
+      relatedLoadId: load.id,
+      relatedBidId: bid.id,
+    });
+  }
+  return { expired: stale.length };
+}
+
+export async function expireCarrierProposals(now: Date = new Date()): Promise<{ expired: number }> {
+  const proposals = await storage.getExpiredPendingProposals(now);
+
+  for (const proposal of proposals) {
+    await storage.updateCarrierProposal(proposal.id, { status: "expired" });
+    await storage.createNotification({
+      userId: proposal.adminId,
+      title: "Carrier Proposal Expired",
+      message: `A proposal of Rs. ${parseFloat(proposal.proposedPayout).toLocaleString("en-IN")} expired without a response.`,
+      type: "warning",
+      relatedLoadId: proposal.loadId,
+      contextType: "load",
+    });
+  }
+  return { expired: proposals.length };
+}
+
+export async function markOverdueInvoices(now: Date = new Date()): Promise<{ overdue: number }> {
+  const invoices = await storage.getOverdueInvoices(now, UNPAID_INVOICE_STATUSES);
+
+  for (const invoice of invoices) {
+    await storage.updateInvoice(invoice.id, { overdueAt: now });
+    for (const userId of [invoice.shipperId, invoice.adminId]) {
+      await storage.createNotification({
+        userId,
+        title: "Invoice Overdue",
+        message: `Invoice ${invoice.invoiceNumber} is past its due date.`,
+        type: "warning",
+        relatedLoadId: invoice.loadId,
+        relatedInvoiceId: invoice.id,
+        contextType: "invoice",
+      });
+    }
+  }
+  return { overdue: invoices.length };
+}
+
+export async function expireOtps(now: Date = new Date()): Promise<{ expired: number }> {
+  return { expired: await storage.expirePendingOtpVerifications(now) };
+}
+
+// ============================================================================
+// ADMIN ACTIONS QUEUE
+// ============================================================================
+
+export type QueuedActionHandler = (
+  action: AdminActionsQueue
+) => Promise<{ success: boolean; error?: string; retryable?: boolean }>;
+
+const actionHandlers = new Map<string, QueuedActionHandler>();
+
+export function registerQueuedActionHandler(actionType: string, handler: QueuedActionHandler): void {
+  actionHandlers.set(actionType, handler);
+}
+
+// Re-post a load to the marketplace (troubleshoot requeue)
+registerQueuedActionHandler("post", async (action) => {
+  const load = await storage.getLoad(action.loadId);
+  if (!load) {
+    return { success: false, error: "Load not found", retryable: false };
+  }
+  if (["cancelled", "closed", "delivered", "in_transit"].includes(load.status || "")) {
+    return { success: false, error: `Load is ${load.status}`, retryable: false };
+  }
+
+  const payload = (action.payload || {}) as { postMode?: string; finalPrice?: string };
+  const price = payload.finalPrice || load.adminFinalPrice || load.finalPrice || load.estimatedPrice || "0";
+  await storage.updateLoad(load.id, {
+    status: "posted_to_carriers",
+    adminFinalPrice: price,
+    finalPrice: price,
+    postedAt: new Date(),
+    adminId: action.createdBy,
+    adminPostMode: payload.postMode || "open",
+    ...buildBiddingWindowFields(payload.postMode || "open"),
+  });
+
+  await storage.createNotification({
+    userId: load.shipperId,
+    title: "Load Posted",
+    message: `Your load from ${load.pickupCity} to ${load.dropoffCity} has been posted by admin.`,
+    type: "load",
+    relatedLoadId: load.id,
+  });
+  return { success: true };
+});
+
+// Deliver a notification (payload: userId, title, message)
+registerQueuedActionHandler("notify", async (action) => {
+  const payload = (action.payload || {}) as { userId?: string; title?: string; message?: string; type?: string };
+  if (!payload.userId || !payload.title || !payload.message) {
+    return { success: false, error: "Notification payload requires userId, title and message", retryable: false };
+  }
+  await storage.createNotification({
+    userId: payload.userId,
+    title: payload.title,
+    message: payload.message,
+    type: payload.type || "info",
+    relatedLoadId: action.loadId,
+  });
+  return { success: true };
+});
+
+/**
+ * Run a claimed queue entry and record the outcome; failures go back to
+ * pending with backoff until maxRetries is reached
+ */
+export async function processQueuedAction(action: AdminActionsQueue): Promise<AdminActionsQueue | undefined> {
+  const handler = actionHandlers.get(action.actionType);
+  let outcome: { success: boolean; error?: string; retryable?: boolean };
+  if (!handler) {
+    outcome = { success: false, error: `No handler for action type "${action.actionType}"`, retryable: false };
+  } else {
+    try {
+      outcome = await handler(action);
+    } catch (error) {
+      outcome = { success: false, error: error instanceof Error ? error.message : String(error), retryable: true };
+    }
+  }
+
+  if (outcome.success) {
+    return storage.updateActionQueue(action.id, { status: "completed", processedAt: new Date(), lastError: null });
+  }
+
+  const retryCount = (action.retryCount || 0) + 1;
+  const maxRetries = action.maxRetries ?? 3;
+  if (outcome.retryable === false || retryCount > maxRetries) {
+    console.warn(`[ActionQueue] ${action.actionType} ${action.id} failed permanently: ${outcome.error}`);
+    return storage.updateActionQueue(action.id, { status: "failed", retryCount, lastError: outcome.error || null });
+  }
+
+  const delayMs = Math.min(QUEUE_RETRY_BASE_MS * Math.pow(2, retryCount - 1), QUEUE_RETRY_MAX_MS);
+  return storage.updateActionQueue(action.id, {
+    status: "pending",
+    retryCount,
+    lastError: outcome.error || null,
+    scheduledFor: new Date(Date.now() + delayMs),
+  });
+}
+
+export async function processActionQueue(now: Date = new Date()): Promise<{ processed: number; failed: number; released: number }> {
+  const released = await storage.releaseStuckQueuedActions(new Date(now.getTime() - QUEUE_STUCK_MS));
+  const due = await storage.getDueQueuedActions(now, QUEUE_BATCH_SIZE);
+  let processed = 0;
+  let failed = 0;
+
+  for (const entry of due) {
+    // Another instance may have claimed it since the select
+    const claimed = await storage.claimQueuedAction(entry.id);
+    if (!claimed) continue;
+
+    const result = await processQueuedAction(claimed);
+    if (result?.status === "completed") processed++;
+    else failed++;
+  }
+  return { processed, failed, released };
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+export function registerWorkflowJobs(): void {
+  registerJob({ name: "expire_bids", intervalMs: 15 * MINUTE, run: () => expireStaleBids() });
+  registerJob({ name: "expire_proposals", intervalMs: 15 * MINUTE, run: () => expireCarrierProposals() });
+  registerJob({ name: "mark_invoices_overdue", intervalMs: HOUR, run: () => markOverdueInvoices() });
+  registerJob({ name: "expire_otps", intervalMs: 5 * MINUTE, run: () => expireOtps() });
+  registerJob({ name: "process_action_queue", intervalMs: MINUTE, run: () => processActionQueue() });
+  registerJob({ name: "eway_bill_expiry", intervalMs: 15 * MINUTE, run: () => checkEwayBillExpiry() });
+  registerJob({ name: "support_sla", intervalMs: 5 * MINUTE, run: () => checkSupportSlaBreaches() });
+  registerJob({ name: "bidding_windows", intervalMs: MINUTE, run: () => closeExpiredBiddingWindows() });
+  registerJob({ name: "load_schedules", intervalMs: 15 * MINUTE, run: () => runDueLoadSchedules() });
+  registerJob({ name: "ptl_matcher", intervalMs: 15 * MINUTE, run: () => runPtlMatcher() });
+  registerJob({ name: "train_eta_model", intervalMs: 24 * HOUR, run: () => trainEtaModel() });
+  registerJob({
+    name: "purge_distance_cache",
+    intervalMs: 24 * HOUR,
+    run: async () => ({ deleted: await storage.deleteExpiredRouteDistanceCache() }),
+  });
+  registerJob({
+    name: "purge_marketplace_events",
+    intervalMs: 24 * HOUR,
+    run: async () => ({
+      deleted: await storage.deleteMarketplaceEventsBefore(
+        new Date(Date.now() - MARKETPLACE_EVENT_RETENTION_DAYS * 24 * HOUR)
+      ),
+    }),
+  });
+}
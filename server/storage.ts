@@ -1,5 +1,7 @@
+import { randomInt } from "crypto";
 import { db } from "./db";
-import { eq, and, desc, asc, sql, inArray } from "drizzle-orm";
+import { isEwayBillRequired, getEwayBillTransitError } from "@shared/tax";
+import { eq, and, desc, asc, sql, inArray, lte, gte, gt, lt, or, isNull, notInArray } from "drizzle-orm";
 import {
   users, trucks, loads, bids, shipments, shipmentEvents, drivers,
   messages, documents, notifications, ratings, carrierProfiles, adminDecisions,
@@ -11,7 +13,24 @@ import {
   shipperCreditProfiles, shipperCreditEvaluations,
   shipperOnboardingRequests,
   financeReviews,
+  ewayBills,
+  authSecurityEvents,
+  dieselPriceIndex,
+  routeDistanceCache,
+  scheduledJobs,
+  marketplaceEventCursors, marketplaceEvents,
+  helpBotConversations, helpBotMessages, supportTickets, supportTicketNotes,
+  bidAutoAwardSettings,
+  contractRates, contractRateCarriers, contractLoadAssignments,
+  loadSchedules, loadScheduleOccurrences,
+  loadStops,
+  loadConsolidations, loadConsolidationMembers,
+  gpsDevices, vehicleTelemetry, gpsBreadcrumbs,
+  geofences,
+  telematicsAlerts,
+  etaSpeedProfiles, routeEtaPredictions,
   validStateTransitions,
+  biddingWindowPostModes,
   type User, type InsertUser,
   type Truck, type InsertTruck,
   type Load, type InsertLoad,
@@ -47,6 +66,32 @@ import {
   type ShipperCreditEvaluation, type InsertShipperCreditEvaluation,
   type ShipperOnboardingRequest, type InsertShipperOnboardingRequest,
   type FinanceReview, type InsertFinanceReview,
+  type EwayBill, type InsertEwayBill,
+  type AuthSecurityEvent, type InsertAuthSecurityEvent,
+  type DieselPriceIndex, type InsertDieselPriceIndex,
+  type RouteDistanceCache, type InsertRouteDistanceCache,
+  type ScheduledJob, type InsertScheduledJob,
+  type MarketplaceEvent, type InsertMarketplaceEvent,
+  type SupportTicket, type InsertSupportTicket,
+  type SupportTicketNote, type InsertSupportTicketNote,
+  type HelpBotConversation, type InsertHelpBotConversation,
+  type HelpBotMessage, type InsertHelpBotMessage,
+  type BidAutoAwardSettings, type InsertBidAutoAwardSettings,
+  type ContractRate, type InsertContractRate,
+  type ContractRateCarrier, type InsertContractRateCarrier,
+  type ContractLoadAssignment, type InsertContractLoadAssignment,
+  type LoadSchedule, type InsertLoadSchedule,
+  type LoadScheduleOccurrence, type InsertLoadScheduleOccurrence,
+  type LoadStop, type InsertLoadStop,
+  type LoadConsolidation, type InsertLoadConsolidation,
+  type LoadConsolidationMember, type InsertLoadConsolidationMember,
+  type GpsDevice, type InsertGpsDevice,
+  type VehicleTelemetry, type InsertVehicleTelemetry,
+  type GpsBreadcrumb, type InsertGpsBreadcrumb,
+  type Geofence, type InsertGeofence,
+  type TelematicsAlert, type InsertTelematicsAlert,
+  type EtaSpeedProfile, type InsertEtaSpeedProfile,
+  type RouteEtaPrediction, type InsertRouteEtaPrediction,
   type LoadStatus,
 } from "@shared/schema";
 
@@ -77,6 +122,7 @@ export interface IStorage {
   deleteDriver(id: string): Promise<boolean>;
 
   getLoad(id: string): Promise<Load | undefined>;
+  getLoadByShipperLoadNumber(loadNumber: number): Promise<Load | undefined>;
   getLoadsByShipper(shipperId: string): Promise<Load[]>;
   getLoadsByCarrier(carrierId: string): Promise<Load[]>;
   getAvailableLoads(): Promise<Load[]>;
@@ -102,6 +148,7 @@ export interface IStorage {
   getAllShipments(): Promise<Shipment[]>;
   createShipment(shipment: InsertShipment): Promise<Shipment>;
   updateShipment(id: string, updates: Partial<Shipment>): Promise<Shipment | undefined>;
+  deleteShipment(id: string): Promise<boolean>;
 
   getShipmentEvents(shipmentId: string): Promise<ShipmentEvent[]>;
   createShipmentEvent(event: InsertShipmentEvent): Promise<ShipmentEvent>;
@@ -145,6 +192,8 @@ export interface IStorage {
   getAdminPricing(id: string): Promise<AdminPricing | undefined>;
   getAdminPricingByLoad(loadId: string): Promise<AdminPricing | undefined>;
   getAdminPricingHistory(loadId: string): Promise<AdminPricing[]>;
+  getLanePricingHistory(pickupCity: string, dropoffCity: string, since: Date): Promise<{ pricing: AdminPricing; load: Load }[]>;
+  getLaneAcceptedBids(pickupCity: string, dropoffCity: string, since: Date): Promise<{ bid: Bid; load: Load }[]>;
   createAdminPricing(pricing: InsertAdminPricing): Promise<AdminPricing>;
   updateAdminPricing(id: string, updates: Partial<AdminPricing>): Promise<AdminPricing | undefined>;
   lockAdminPricing(id: string, finalPrice: string, postMode: string, invitedCarrierIds?: string[]): Promise<AdminPricing | undefined>;
@@ -230,6 +279,7 @@ export interface IStorage {
   // Load Status Queries by canonical states
   getLoadsByStatus(status: LoadStatus): Promise<Load[]>;
   getLoadsByStatuses(statuses: LoadStatus[]): Promise<Load[]>;
+  getLoadsWithExpiredBiddingWindows(now: Date): Promise<Load[]>;
   getPendingLoads(): Promise<Load[]>;
   getPricedLoads(): Promise<Load[]>;
   getApprovedLoads(): Promise<Load[]>;
@@ -290,6 +340,157 @@ export interface IStorage {
   getAllFinanceReviews(): Promise<FinanceReview[]>;
   createFinanceReview(review: InsertFinanceReview): Promise<FinanceReview>;
   updateFinanceReview(id: string, updates: Partial<FinanceReview>): Promise<FinanceReview | undefined>;
+
+  // E-way Bill methods
+  getEwayBill(id: string): Promise<EwayBill | undefined>;
+  getActiveEwayBillForLoad(loadId: string): Promise<EwayBill | undefined>;
+  getEwayBillsByLoad(loadId: string): Promise<EwayBill[]>;
+  getActiveEwayBillsExpiringBefore(before: Date): Promise<EwayBill[]>;
+  createEwayBill(ewayBill: InsertEwayBill): Promise<EwayBill>;
+  updateEwayBill(id: string, updates: Partial<EwayBill>): Promise<EwayBill | undefined>;
+
+  // Auth Security Event methods
+  createAuthSecurityEvent(event: InsertAuthSecurityEvent): Promise<AuthSecurityEvent>;
+  getRecentAuthSecurityEvents(limit?: number): Promise<AuthSecurityEvent[]>;
+  getAuthSecurityEventsByUser(userId: string): Promise<AuthSecurityEvent[]>;
+
+  // Diesel price index
+  getDieselIndexEntries(region?: string, limit?: number): Promise<DieselPriceIndex[]>;
+  getDieselIndexPrice(region: string, at: Date): Promise<DieselPriceIndex | undefined>;
+  upsertDieselIndexEntry(entry: InsertDieselPriceIndex): Promise<DieselPriceIndex>;
+
+  // Route distance cache
+  getRouteDistanceCache(routeKey: string): Promise<RouteDistanceCache | undefined>;
+  upsertRouteDistanceCache(entry: InsertRouteDistanceCache): Promise<RouteDistanceCache>;
+  deleteExpiredRouteDistanceCache(): Promise<number>;
+
+  // Scheduled jobs
+  ensureScheduledJob(name: string, intervalSeconds: number): Promise<ScheduledJob>;
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  updateScheduledJob(name: string, updates: Partial<ScheduledJob>): Promise<ScheduledJob | undefined>;
+  claimScheduledJob(name: string, instanceId: string, lockedUntil: Date, force?: boolean): Promise<ScheduledJob | undefined>;
+  releaseScheduledJob(name: string, instanceId: string, outcome: { status: "success" | "failed"; error?: string | null; result?: unknown; nextRunAt: Date }): Promise<ScheduledJob | undefined>;
+
+  // Workflow expiry sweeps
+  getExpirableBids(createdBefore: Date, now: Date, openStatuses: string[]): Promise<{ bid: Bid; load: Load }[]>;
+  getExpiredPendingProposals(now: Date): Promise<CarrierProposal[]>;
+  getOverdueInvoices(now: Date, unpaidStatuses: string[]): Promise<Invoice[]>;
+  expirePendingOtpVerifications(now: Date): Promise<number>;
+
+  // Admin actions queue processing
+  getDueQueuedActions(now: Date, limit: number): Promise<AdminActionsQueue[]>;
+  claimQueuedAction(id: string): Promise<AdminActionsQueue | undefined>;
+  releaseStuckQueuedActions(claimedBefore: Date): Promise<number>;
+
+  // Marketplace event log
+  appendMarketplaceEvent(userId: string, eventType: string, payload: Record<string, unknown>): Promise<MarketplaceEvent>;
+  getMarketplaceEventsAfter(userId: string, afterSequence: number, limit: number): Promise<MarketplaceEvent[]>;
+  getLatestMarketplaceSequence(userId: string): Promise<number>;
+  deleteMarketplaceEventsBefore(cutoff: Date): Promise<number>;
+
+  // Help bot conversations (support ticket transcripts)
+  getHelpBotConversation(id: number): Promise<HelpBotConversation | undefined>;
+  getHelpBotMessages(conversationId: number): Promise<HelpBotMessage[]>;
+  createHelpBotMessage(message: InsertHelpBotMessage): Promise<HelpBotMessage>;
+
+  // Support tickets
+  createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket>;
+  getSupportTicket(id: string): Promise<SupportTicket | undefined>;
+  getActiveSupportTicketByConversation(conversationId: number): Promise<SupportTicket | undefined>;
+  getSupportTickets(filters?: { status?: string; assignedTo?: string }): Promise<SupportTicket[]>;
+  getSupportTicketsByUser(userId: string): Promise<SupportTicket[]>;
+  updateSupportTicket(id: string, updates: Partial<SupportTicket>): Promise<SupportTicket | undefined>;
+  getSlaBreachedSupportTickets(now: Date): Promise<SupportTicket[]>;
+  createSupportTicketNote(note: InsertSupportTicketNote): Promise<SupportTicketNote>;
+  getSupportTicketNotes(ticketId: string): Promise<SupportTicketNote[]>;
+
+  // Bid auto-award settings (single row)
+  getBidAutoAwardSettings(): Promise<BidAutoAwardSettings | undefined>;
+  saveBidAutoAwardSettings(settings: InsertBidAutoAwardSettings): Promise<BidAutoAwardSettings>;
+
+  // Contract rates
+  createContractRate(contract: InsertContractRate): Promise<ContractRate>;
+  getContractRate(id: string): Promise<ContractRate | undefined>;
+  getContractRates(filters?: { shipperId?: string; status?: string }): Promise<ContractRate[]>;
+  getActiveContractRatesForShipper(shipperId: string, at: Date): Promise<ContractRate[]>;
+  updateContractRate(id: string, updates: Partial<ContractRate>): Promise<ContractRate | undefined>;
+  createContractRateCarrier(carrier: InsertContractRateCarrier): Promise<ContractRateCarrier>;
+  getContractRateCarriers(contractId: string): Promise<ContractRateCarrier[]>;
+  getContractRateCarriersByCarrier(carrierId: string): Promise<ContractRateCarrier[]>;
+  updateContractRateCarrier(id: string, updates: Partial<ContractRateCarrier>): Promise<ContractRateCarrier | undefined>;
+  createContractLoadAssignment(assignment: InsertContractLoadAssignment): Promise<ContractLoadAssignment>;
+  getContractLoadAssignmentsByLoad(loadId: string): Promise<ContractLoadAssignment[]>;
+  getContractLoadAssignmentsByContract(contractId: string, since?: Date): Promise<ContractLoadAssignment[]>;
+  getContractLoadAssignmentsByCarrier(carrierId: string): Promise<ContractLoadAssignment[]>;
+  updateContractLoadAssignment(id: string, updates: Partial<ContractLoadAssignment>): Promise<ContractLoadAssignment | undefined>;
+
+  // Load templates and schedules
+  getLoadTemplatesByShipper(shipperId: string): Promise<Load[]>;
+  deleteLoadTemplate(id: string): Promise<boolean>;
+  createLoadSchedule(schedule: InsertLoadSchedule): Promise<LoadSchedule>;
+  getLoadSchedule(id: string): Promise<LoadSchedule | undefined>;
+  getLoadSchedulesByShipper(shipperId: string): Promise<LoadSchedule[]>;
+  getLoadSchedulesByTemplate(templateLoadId: string): Promise<LoadSchedule[]>;
+  getActiveLoadSchedules(): Promise<LoadSchedule[]>;
+  updateLoadSchedule(id: string, updates: Partial<LoadSchedule>): Promise<LoadSchedule | undefined>;
+  getLoadScheduleOccurrences(scheduleId: string, since?: Date): Promise<LoadScheduleOccurrence[]>;
+  getLoadScheduleOccurrence(scheduleId: string, occurrenceDate: Date): Promise<LoadScheduleOccurrence | undefined>;
+  createLoadScheduleOccurrence(occurrence: InsertLoadScheduleOccurrence): Promise<LoadScheduleOccurrence>;
+  updateLoadScheduleOccurrence(id: string, updates: Partial<LoadScheduleOccurrence>): Promise<LoadScheduleOccurrence | undefined>;
+  deleteLoadScheduleOccurrence(id: string): Promise<boolean>;
+
+  // Load stops
+  getLoadStops(loadId: string): Promise<LoadStop[]>;
+  getLoadStop(id: string): Promise<LoadStop | undefined>;
+  replaceLoadStops(loadId: string, stops: InsertLoadStop[]): Promise<LoadStop[]>;
+  updateLoadStop(id: string, updates: Partial<LoadStop>): Promise<LoadStop | undefined>;
+
+  // Load consolidations (PTL)
+  getPtlCandidateLoads(): Promise<Load[]>;
+  createLoadConsolidation(consolidation: InsertLoadConsolidation): Promise<LoadConsolidation>;
+  getLoadConsolidation(id: string): Promise<LoadConsolidation | undefined>;
+  getLoadConsolidations(filters?: { status?: string; carrierId?: string }): Promise<LoadConsolidation[]>;
+  updateLoadConsolidation(id: string, updates: Partial<LoadConsolidation>): Promise<LoadConsolidation | undefined>;
+  getLoadConsolidationMembers(consolidationId: string): Promise<LoadConsolidationMember[]>;
+  getLoadConsolidationMemberByLoad(loadId: string): Promise<LoadConsolidationMember | undefined>;
+  createLoadConsolidationMember(member: InsertLoadConsolidationMember): Promise<LoadConsolidationMember>;
+  updateLoadConsolidationMember(id: string, updates: Partial<LoadConsolidationMember>): Promise<LoadConsolidationMember | undefined>;
+  deleteLoadConsolidationMember(id: string): Promise<boolean>;
+
+  // GPS devices and telemetry ingestion
+  createGpsDevice(device: InsertGpsDevice): Promise<GpsDevice>;
+  getGpsDevice(id: string): Promise<GpsDevice | undefined>;
+  getGpsDeviceByKeyHash(apiKeyHash: string): Promise<GpsDevice | undefined>;
+  getGpsDeviceByIdentifier(deviceType: string, deviceIdentifier: string, options?: { includeInactive?: boolean }): Promise<GpsDevice | undefined>;
+  getGpsDevices(filters?: { carrierId?: string; truckId?: string }): Promise<GpsDevice[]>;
+  updateGpsDevice(id: string, updates: Partial<GpsDevice>): Promise<GpsDevice | undefined>;
+  getActiveShipmentByTruck(truckId: string): Promise<Shipment | undefined>;
+  createVehicleTelemetryRecords(records: InsertVehicleTelemetry[]): Promise<VehicleTelemetry[]>;
+  createGpsBreadcrumbs(breadcrumbs: InsertGpsBreadcrumb[]): Promise<GpsBreadcrumb[]>;
+  getGpsBreadcrumbsInRange(vehicleId: string, from: Date, to: Date): Promise<GpsBreadcrumb[]>;
+  getGpsBreadcrumbsByLoad(loadId: string): Promise<GpsBreadcrumb[]>;
+
+  // Geofences
+  createGeofence(geofence: InsertGeofence): Promise<Geofence>;
+  getGeofence(id: string): Promise<Geofence | undefined>;
+  getGeofencesByLoad(loadId: string): Promise<Geofence[]>;
+  updateGeofence(id: string, updates: Partial<Geofence>): Promise<Geofence | undefined>;
+  deleteGeofence(id: string): Promise<boolean>;
+
+  // Telematics Alerts
+  createTelematicsAlert(alert: InsertTelematicsAlert): Promise<TelematicsAlert>;
+  getTelematicsAlert(id: string): Promise<TelematicsAlert | undefined>;
+  getTelematicsAlerts(filters?: { loadId?: string; vehicleId?: string; openOnly?: boolean }): Promise<TelematicsAlert[]>;
+  updateTelematicsAlert(id: string, updates: Partial<TelematicsAlert>): Promise<TelematicsAlert | undefined>;
+  markGpsBreadcrumbsRisky(vehicleId: string, from: Date, to: Date, reason: string): Promise<void>;
+
+  // ETA model
+  getDeliveredShipmentsSince(since: Date): Promise<Shipment[]>;
+  getEtaSpeedProfiles(): Promise<EtaSpeedProfile[]>;
+  replaceEtaSpeedProfiles(profiles: InsertEtaSpeedProfile[]): Promise<number>;
+  getRouteEtaPrediction(loadId: string): Promise<RouteEtaPrediction | undefined>;
+  createRouteEtaPrediction(prediction: InsertRouteEtaPrediction): Promise<RouteEtaPrediction>;
+  updateRouteEtaPrediction(id: string, updates: Partial<RouteEtaPrediction>): Promise<RouteEtaPrediction | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -399,8 +600,16 @@ export class DatabaseStorage implements IStorage {
     return load;
   }
 
+  async getLoadByShipperLoadNumber(loadNumber: number): Promise<Load | undefined> {
+    const [load] = await db.select().from(loads).where(eq(loads.shipperLoadNumber, loadNumber));
+    return load;
+  }
+
   async getLoadsByShipper(shipperId: string): Promise<Load[]> {
-    return db.select().from(loads).where(eq(loads.shipperId, shipperId)).orderBy(desc(loads.createdAt));
+    // Templates are loads too, but never part of the shipper's load list
+    return db.select().from(loads)
+      .where(and(eq(loads.shipperId, shipperId), sql`${loads.isTemplate} IS NOT TRUE`))
+      .orderBy(desc(loads.createdAt));
   }
 
   async getLoadsByCarrier(carrierId: string): Promise<Load[]> {
@@ -414,15 +623,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllLoads(): Promise<Load[]> {
-    return db.select().from(loads).orderBy(desc(loads.createdAt));
+    return db.select().from(loads).where(sql`${loads.isTemplate} IS NOT TRUE`).orderBy(desc(loads.createdAt));
   }
 
   async createLoad(load: InsertLoad): Promise<Load> {
-    const [newLoad] = await db.insert(loads).values(load).returning();
+    const ewayBillRequired = load.ewayBillRequired || isEwayBillRequired(load.goodsValue);
+    const [newLoad] = await db.insert(loads).values({ ...load, ewayBillRequired }).returning();
     return newLoad;
   }
 
   async updateLoad(id: string, updates: Partial<Load>): Promise<Load | undefined> {
+    if (updates.goodsValue !== undefined && isEwayBillRequired(updates.goodsValue)) {
+      updates = { ...updates, ewayBillRequired: true };
+    }
     const [updated] = await db.update(loads).set(updates).where(eq(loads.id, id)).returning();
     return updated;
   }
@@ -533,6 +746,11 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async deleteShipment(id: string): Promise<boolean> {
+    await db.delete(shipments).where(eq(shipments.id, id));
+    return true;
+  }
+
   async getShipmentEvents(shipmentId: string): Promise<ShipmentEvent[]> {
     return db.select().from(shipmentEvents).where(eq(shipmentEvents.shipmentId, shipmentId)).orderBy(desc(shipmentEvents.createdAt));
   }
@@ -717,6 +935,36 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(adminPricings.createdAt));
   }
 
+  // Locked/approved prices on a lane (city names matched case-insensitively)
+  async getLanePricingHistory(pickupCity: string, dropoffCity: string, since: Date): Promise<{ pricing: AdminPricing; load: Load }[]> {
+    return db
+      .select({ pricing: adminPricings, load: loads })
+      .from(adminPricings)
+      .innerJoin(loads, eq(adminPricings.loadId, loads.id))
+      .where(and(
+        sql`lower(${loads.pickupCity}) = ${pickupCity.trim().toLowerCase()}`,
+        sql`lower(${loads.dropoffCity}) = ${dropoffCity.trim().toLowerCase()}`,
+        inArray(adminPricings.status, ["locked", "approved", "posted"]),
+        sql`${adminPricings.finalPrice} is not null`,
+        gte(adminPricings.createdAt, since)
+      ))
+      .orderBy(desc(adminPricings.createdAt));
+  }
+
+  async getLaneAcceptedBids(pickupCity: string, dropoffCity: string, since: Date): Promise<{ bid: Bid; load: Load }[]> {
+    return db
+      .select({ bid: bids, load: loads })
+      .from(bids)
+      .innerJoin(loads, eq(bids.loadId, loads.id))
+      .where(and(
+        sql`lower(${loads.pickupCity}) = ${pickupCity.trim().toLowerCase()}`,
+        sql`lower(${loads.dropoffCity}) = ${dropoffCity.trim().toLowerCase()}`,
+        eq(bids.status, "accepted"),
+        gte(bids.createdAt, since)
+      ))
+      .orderBy(desc(bids.createdAt));
+  }
+
   async createAdminPricing(pricing: InsertAdminPricing): Promise<AdminPricing> {
     const [newPricing] = await db.insert(adminPricings).values(pricing).returning();
     return newPricing;
@@ -1145,6 +1393,13 @@ export class DatabaseStorage implements IStorage {
       throw new Error(`Invalid state transition from ${fromStatus} to ${toStatus}`);
     }
 
+    if (toStatus === "in_transit") {
+      const ewayBillError = getEwayBillTransitError(load);
+      if (ewayBillError) {
+        throw new Error(ewayBillError);
+      }
+    }
+
     const now = new Date();
 
     await this.createLoadStateChangeLog({
@@ -1233,6 +1488,18 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(loads.createdAt));
   }
 
+  // Sealed/auction loads whose window has run out but hasn't been closed yet
+  async getLoadsWithExpiredBiddingWindows(now: Date): Promise<Load[]> {
+    return db.select()
+      .from(loads)
+      .where(and(
+        inArray(loads.adminPostMode, [...biddingWindowPostModes]),
+        isNull(loads.biddingClosedAt),
+        lte(loads.biddingClosesAt, now)
+      ))
+      .orderBy(asc(loads.biddingClosesAt));
+  }
+
   async getPendingLoads(): Promise<Load[]> {
     return this.getLoadsByStatus('pending');
   }
@@ -1638,9 +1905,9 @@ export class DatabaseStorage implements IStorage {
 
   // ==================== OTP OPERATIONS ====================
   
-  // Generate a 6-digit OTP code
+  // Generate a 6-digit OTP code (crypto RNG - codes must not be predictable)
   generateOtpCode(): string {
-    return String(Math.floor(100000 + Math.random() * 900000));
+    return String(randomInt(100000, 1000000));
   }
 
   // Create an OTP verification record
@@ -1656,13 +1923,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Get pending OTP for a shipment and type
-  async getPendingOtpForShipment(shipmentId: string, otpType: string): Promise<OtpVerification | undefined> {
+  async getPendingOtpForShipment(shipmentId: string, otpType: string, stopId?: string): Promise<OtpVerification | undefined> {
     const [otp] = await db.select()
       .from(otpVerifications)
       .where(and(
         eq(otpVerifications.shipmentId, shipmentId),
         eq(otpVerifications.otpType, otpType),
-        eq(otpVerifications.status, "pending")
+        eq(otpVerifications.status, "pending"),
+        ...(stopId ? [eq(otpVerifications.stopId, stopId)] : [])
       ))
       .orderBy(desc(otpVerifications.createdAt))
       .limit(1);
@@ -1778,6 +2046,7 @@ export class DatabaseStorage implements IStorage {
       carrierId: request.carrierId,
       shipmentId: request.shipmentId,
       loadId: request.loadId,
+      stopId: request.stopId,
       generatedBy: adminId,
       validityMinutes,
       expiresAt,
@@ -1845,6 +2114,7 @@ export class DatabaseStorage implements IStorage {
       carrierId: request.carrierId,
       shipmentId: request.shipmentId,
       loadId: request.loadId,
+      stopId: request.stopId,
       generatedBy: adminId,
       validityMinutes,
       expiresAt,
@@ -2047,6 +2317,879 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return updated;
   }
+
+  async getEwayBill(id: string): Promise<EwayBill | undefined> {
+    const [ewayBill] = await db.select().from(ewayBills).where(eq(ewayBills.id, id));
+    return ewayBill;
+  }
+
+  async getActiveEwayBillForLoad(loadId: string): Promise<EwayBill | undefined> {
+    const [ewayBill] = await db.select().from(ewayBills)
+      .where(and(
+        eq(ewayBills.loadId, loadId),
+        inArray(ewayBills.status, ["active", "extended"])
+      ))
+      .orderBy(desc(ewayBills.createdAt))
+      .limit(1);
+    return ewayBill;
+  }
+
+  async getEwayBillsByLoad(loadId: string): Promise<EwayBill[]> {
+    return db.select().from(ewayBills)
+      .where(eq(ewayBills.loadId, loadId))
+      .orderBy(desc(ewayBills.createdAt));
+  }
+
+  async getActiveEwayBillsExpiringBefore(before: Date): Promise<EwayBill[]> {
+    return db.select().from(ewayBills)
+      .where(and(
+        inArray(ewayBills.status, ["active", "extended"]),
+        lte(ewayBills.validUntil, before)
+      ))
+      .orderBy(asc(ewayBills.validUntil));
+  }
+
+  async createEwayBill(ewayBill: InsertEwayBill): Promise<EwayBill> {
+    const [created] = await db.insert(ewayBills).values(ewayBill).returning();
+    return created;
+  }
+
+  async updateEwayBill(id: string, updates: Partial<EwayBill>): Promise<EwayBill | undefined> {
+    const [updated] = await db.update(ewayBills)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(ewayBills.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createAuthSecurityEvent(event: InsertAuthSecurityEvent): Promise<AuthSecurityEvent> {
+    const [created] = await db.insert(authSecurityEvents).values(event).returning();
+    return created;
+  }
+
+  async getRecentAuthSecurityEvents(limit: number = 100): Promise<AuthSecurityEvent[]> {
+    return db.select().from(authSecurityEvents)
+      .orderBy(desc(authSecurityEvents.createdAt))
+      .limit(limit);
+  }
+
+  async getAuthSecurityEventsByUser(userId: string): Promise<AuthSecurityEvent[]> {
+    return db.select().from(authSecurityEvents)
+      .where(eq(authSecurityEvents.userId, userId))
+      .orderBy(desc(authSecurityEvents.createdAt));
+  }
+
+  // ==================== DIESEL PRICE INDEX ====================
+
+  async getDieselIndexEntries(region?: string, limit: number = 200): Promise<DieselPriceIndex[]> {
+    return db.select().from(dieselPriceIndex)
+      .where(region ? eq(dieselPriceIndex.region, region) : undefined)
+      .orderBy(desc(dieselPriceIndex.effectiveDate))
+      .limit(limit);
+  }
+
+  // Index in force on a date: the latest entry on or before it
+  async getDieselIndexPrice(region: string, at: Date): Promise<DieselPriceIndex | undefined> {
+    const [entry] = await db.select().from(dieselPriceIndex)
+      .where(and(eq(dieselPriceIndex.region, region), lte(dieselPriceIndex.effectiveDate, at)))
+      .orderBy(desc(dieselPriceIndex.effectiveDate))
+      .limit(1);
+    return entry;
+  }
+
+  // One row per region per date - re-importing a date replaces its price
+  async upsertDieselIndexEntry(entry: InsertDieselPriceIndex): Promise<DieselPriceIndex> {
+    const [existing] = await db.select().from(dieselPriceIndex)
+      .where(and(eq(dieselPriceIndex.region, entry.region), eq(dieselPriceIndex.effectiveDate, entry.effectiveDate)));
+    if (existing) {
+      const [updated] = await db.update(dieselPriceIndex)
+        .set({ pricePerLitre: entry.pricePerLitre, source: entry.source, importedBy: entry.importedBy })
+        .where(eq(dieselPriceIndex.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(dieselPriceIndex).values(entry).returning();
+    return created;
+  }
+
+  // Route distance cache
+  async getRouteDistanceCache(routeKey: string): Promise<RouteDistanceCache | undefined> {
+    const [entry] = await db.select().from(routeDistanceCache)
+      .where(and(eq(routeDistanceCache.routeKey, routeKey), gt(routeDistanceCache.expiresAt, new Date())));
+    return entry;
+  }
+
+  async upsertRouteDistanceCache(entry: InsertRouteDistanceCache): Promise<RouteDistanceCache> {
+    const [saved] = await db.insert(routeDistanceCache).values(entry)
+      .onConflictDoUpdate({
+        target: routeDistanceCache.routeKey,
+        set: { ...entry, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteExpiredRouteDistanceCache(): Promise<number> {
+    const deleted = await db.delete(routeDistanceCache)
+      .where(lt(routeDistanceCache.expiresAt, new Date()))
+      .returning({ id: routeDistanceCache.id });
+    return deleted.length;
+  }
+
+  // Scheduled jobs
+  async ensureScheduledJob(name: string, intervalSeconds: number): Promise<ScheduledJob> {
+    await db.insert(scheduledJobs)
+      .values({ name, intervalSeconds, nextRunAt: new Date() })
+      .onConflictDoNothing({ target: scheduledJobs.name });
+    const [job] = await db.update(scheduledJobs)
+      .set({ intervalSeconds, updatedAt: new Date() })
+      .where(eq(scheduledJobs.name, name))
+      .returning();
+    return job;
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return db.select().from(scheduledJobs).orderBy(scheduledJobs.name);
+  }
+
+  async updateScheduledJob(name: string, updates: Partial<ScheduledJob>): Promise<ScheduledJob | undefined> {
+    const [updated] = await db.update(scheduledJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scheduledJobs.name, name))
+      .returning();
+    return updated;
+  }
+
+  // Atomically take the job's lease; the WHERE clause is re-checked under the
+  // row lock, so concurrent instances can't both win
+  async claimScheduledJob(name: string, instanceId: string, lockedUntil: Date, force: boolean = false): Promise<ScheduledJob | undefined> {
+    const now = new Date();
+    const leaseFree = sql`(${scheduledJobs.lockedUntil} IS NULL OR ${scheduledJobs.lockedUntil} < ${now})`;
+    const [claimed] = await db.update(scheduledJobs)
+      .set({
+        lockedBy: instanceId,
+        lockedUntil,
+        lastStartedAt: now,
+        updatedAt: now,
+      })
+      .where(force
+        ? and(eq(scheduledJobs.name, name), leaseFree)
+        : and(
+            eq(scheduledJobs.name, name),
+            eq(scheduledJobs.isEnabled, true),
+            lte(scheduledJobs.nextRunAt, now),
+            leaseFree
+          ))
+      .returning();
+    return claimed;
+  }
+
+  async releaseScheduledJob(
+    name: string,
+    instanceId: string,
+    outcome: { status: "success" | "failed"; error?: string | null; result?: unknown; nextRunAt: Date }
+  ): Promise<ScheduledJob | undefined> {
+    const [released] = await db.update(scheduledJobs)
+      .set({
+        lockedBy: null,
+        lockedUntil: null,
+        lastFinishedAt: new Date(),
+        lastStatus: outcome.status,
+        lastError: outcome.error || null,
+        lastResult: outcome.result ?? null,
+        nextRunAt: outcome.nextRunAt,
+        runCount: sql`${scheduledJobs.runCount} + 1`,
+        failureCount: outcome.status === "failed" ? sql`${scheduledJobs.failureCount} + 1` : scheduledJobs.failureCount,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(scheduledJobs.name, name), eq(scheduledJobs.lockedBy, instanceId)))
+      .returning();
+    return released;
+  }
+
+  // Workflow expiry sweeps
+  async getExpirableBids(createdBefore: Date, now: Date, openStatuses: string[]): Promise<{ bid: Bid; load: Load }[]> {
+    return db
+      .select({ bid: bids, load: loads })
+      .from(bids)
+      .innerJoin(loads, eq(bids.loadId, loads.id))
+      .where(and(
+        inArray(bids.status, ["pending", "countered"]),
+        sql`(${bids.createdAt} < ${createdBefore} OR ${loads.pickupDate} < ${now} OR ${loads.status} NOT IN (${sql.join(openStatuses.map(s => sql`${s}`), sql`, `)}))`
+      ));
+  }
+
+  async getExpiredPendingProposals(now: Date): Promise<CarrierProposal[]> {
+    return db.select().from(carrierProposals)
+      .where(and(
+        eq(carrierProposals.status, "pending"),
+        lt(carrierProposals.expiresAt, now)
+      ));
+  }
+
+  async getOverdueInvoices(now: Date, unpaidStatuses: string[]): Promise<Invoice[]> {
+    return db.select().from(invoices)
+      .where(and(
+        inArray(invoices.status, unpaidStatuses),
+        lt(invoices.dueDate, now),
+        isNull(invoices.overdueAt)
+      ));
+  }
+
+  async expirePendingOtpVerifications(now: Date): Promise<number> {
+    const expired = await db.update(otpVerifications)
+      .set({ status: "expired" })
+      .where(and(
+        eq(otpVerifications.status, "pending"),
+        lt(otpVerifications.expiresAt, now)
+      ))
+      .returning({ id: otpVerifications.id });
+    return expired.length;
+  }
+
+  // Admin actions queue processing
+  async getDueQueuedActions(now: Date, limit: number): Promise<AdminActionsQueue[]> {
+    return db.select().from(adminActionsQueue)
+      .where(and(
+        eq(adminActionsQueue.status, "pending"),
+        sql`(${adminActionsQueue.scheduledFor} IS NULL OR ${adminActionsQueue.scheduledFor} <= ${now})`
+      ))
+      .orderBy(desc(adminActionsQueue.priority), adminActionsQueue.createdAt)
+      .limit(limit);
+  }
+
+  // pending -> processing only if nobody else got there first
+  async claimQueuedAction(id: string): Promise<AdminActionsQueue | undefined> {
+    const [claimed] = await db.update(adminActionsQueue)
+      .set({ status: "processing", processedAt: new Date() })
+      .where(and(eq(adminActionsQueue.id, id), eq(adminActionsQueue.status, "pending")))
+      .returning();
+    return claimed;
+  }
+
+  async releaseStuckQueuedActions(claimedBefore: Date): Promise<number> {
+    // A timeout counts as a failed attempt, so an action that keeps crashing its worker ends up failed
+    const released = await db.update(adminActionsQueue)
+      .set({
+        status: sql`case when coalesce(${adminActionsQueue.retryCount}, 0) + 1 > coalesce(${adminActionsQueue.maxRetries}, 3) then 'failed' else 'pending' end`,
+        retryCount: sql`coalesce(${adminActionsQueue.retryCount}, 0) + 1`,
+        lastError: "Processing timed out",
+      })
+      .where(and(
+        eq(adminActionsQueue.status, "processing"),
+        lt(adminActionsQueue.processedAt, claimedBefore)
+      ))
+      .returning({ id: adminActionsQueue.id });
+    return released.length;
+  }
+
+  // Marketplace event log
+  async appendMarketplaceEvent(userId: string, eventType: string, payload: Record<string, unknown>): Promise<MarketplaceEvent> {
+    return db.transaction(async (tx) => {
+      // The cursor row lock serialises concurrent appends for the same user
+      const [cursor] = await tx.insert(marketplaceEventCursors)
+        .values({ userId, lastSequence: 1 })
+        .onConflictDoUpdate({
+          target: marketplaceEventCursors.userId,
+          set: { lastSequence: sql`${marketplaceEventCursors.lastSequence} + 1`, updatedAt: new Date() },
+        })
+        .returning();
+      const [event] = await tx.insert(marketplaceEvents)
+        .values({ userId, sequence: cursor.lastSequence, eventType, payload })
+        .returning();
+      return event;
+    });
+  }
+
+  async getMarketplaceEventsAfter(userId: string, afterSequence: number, limit: number): Promise<MarketplaceEvent[]> {
+    return db.select().from(marketplaceEvents)
+      .where(and(eq(marketplaceEvents.userId, userId), gt(marketplaceEvents.sequence, afterSequence)))
+      .orderBy(asc(marketplaceEvents.sequence))
+      .limit(limit);
+  }
+
+  async getLatestMarketplaceSequence(userId: string): Promise<number> {
+    const [cursor] = await db.select().from(marketplaceEventCursors)
+      .where(eq(marketplaceEventCursors.userId, userId));
+    return cursor?.lastSequence || 0;
+  }
+
+  async deleteMarketplaceEventsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db.delete(marketplaceEvents)
+      .where(lt(marketplaceEvents.createdAt, cutoff))
+      .returning({ id: marketplaceEvents.id });
+    return deleted.length;
+  }
+
+  // Help bot conversations (support ticket transcripts)
+  async getHelpBotConversation(id: number): Promise<HelpBotConversation | undefined> {
+    const [conversation] = await db.select().from(helpBotConversations).where(eq(helpBotConversations.id, id));
+    return conversation;
+  }
+
+  async getHelpBotMessages(conversationId: number): Promise<HelpBotMessage[]> {
+    return db.select().from(helpBotMessages)
+      .where(eq(helpBotMessages.conversationId, conversationId))
+      .orderBy(asc(helpBotMessages.createdAt), asc(helpBotMessages.id));
+  }
+
+  async createHelpBotMessage(message: InsertHelpBotMessage): Promise<HelpBotMessage> {
+    const [created] = await db.insert(helpBotMessages).values(message).returning();
+    return created;
+  }
+
+  // Support tickets
+  async createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket> {
+    const [created] = await db.insert(supportTickets).values(ticket).returning();
+    return created;
+  }
+
+  async getSupportTicket(id: string): Promise<SupportTicket | undefined> {
+    const [ticket] = await db.select().from(supportTickets).where(eq(supportTickets.id, id));
+    return ticket;
+  }
+
+  async getActiveSupportTicketByConversation(conversationId: number): Promise<SupportTicket | undefined> {
+    const [ticket] = await db.select().from(supportTickets)
+      .where(and(
+        eq(supportTickets.conversationId, conversationId),
+        notInArray(supportTickets.status, ["resolved", "closed"])
+      ))
+      .orderBy(desc(supportTickets.createdAt));
+    return ticket;
+  }
+
+  async getSupportTickets(filters: { status?: string; assignedTo?: string } = {}): Promise<SupportTicket[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(supportTickets.status, filters.status));
+    if (filters.assignedTo) conditions.push(eq(supportTickets.assignedTo, filters.assignedTo));
+    return db.select().from(supportTickets)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(supportTickets.resolutionDueAt));
+  }
+
+  async getSupportTicketsByUser(userId: string): Promise<SupportTicket[]> {
+    return db.select().from(supportTickets)
+      .where(eq(supportTickets.userId, userId))
+      .orderBy(desc(supportTickets.createdAt));
+  }
+
+  async updateSupportTicket(id: string, updates: Partial<SupportTicket>): Promise<SupportTicket | undefined> {
+    const [updated] = await db.update(supportTickets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(supportTickets.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getSlaBreachedSupportTickets(now: Date): Promise<SupportTicket[]> {
+    return db.select().from(supportTickets)
+      .where(and(
+        isNull(supportTickets.slaBreachedAt),
+        notInArray(supportTickets.status, ["resolved", "closed"]),
+        or(
+          and(isNull(supportTickets.firstRespondedAt), lt(supportTickets.firstResponseDueAt, now)),
+          lt(supportTickets.resolutionDueAt, now)
+        )
+      ));
+  }
+
+  async createSupportTicketNote(note: InsertSupportTicketNote): Promise<SupportTicketNote> {
+    const [created] = await db.insert(supportTicketNotes).values(note).returning();
+    return created;
+  }
+
+  async getSupportTicketNotes(ticketId: string): Promise<SupportTicketNote[]> {
+    return db.select().from(supportTicketNotes)
+      .where(eq(supportTicketNotes.ticketId, ticketId))
+      .orderBy(asc(supportTicketNotes.createdAt));
+  }
+
+  // Bid auto-award settings (single row)
+  async getBidAutoAwardSettings(): Promise<BidAutoAwardSettings | undefined> {
+    const [settings] = await db.select().from(bidAutoAwardSettings).orderBy(asc(bidAutoAwardSettings.createdAt)).limit(1);
+    return settings;
+  }
+
+  async saveBidAutoAwardSettings(settings: InsertBidAutoAwardSettings): Promise<BidAutoAwardSettings> {
+    const existing = await this.getBidAutoAwardSettings();
+    if (existing) {
+      const [updated] = await db.update(bidAutoAwardSettings)
+        .set({ ...settings, updatedAt: new Date() })
+        .where(eq(bidAutoAwardSettings.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(bidAutoAwardSettings).values(settings).returning();
+    return created;
+  }
+
+  // Contract rates
+  async createContractRate(contract: InsertContractRate): Promise<ContractRate> {
+    const [created] = await db.insert(contractRates).values(contract).returning();
+    return created;
+  }
+
+  async getContractRate(id: string): Promise<ContractRate | undefined> {
+    const [contract] = await db.select().from(contractRates).where(eq(contractRates.id, id));
+    return contract;
+  }
+
+  async getContractRates(filters: { shipperId?: string; status?: string } = {}): Promise<ContractRate[]> {
+    const conditions = [];
+    if (filters.shipperId) conditions.push(eq(contractRates.shipperId, filters.shipperId));
+    if (filters.status) conditions.push(eq(contractRates.status, filters.status));
+    return db.select().from(contractRates)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(contractRates.createdAt));
+  }
+
+  async getActiveContractRatesForShipper(shipperId: string, at: Date): Promise<ContractRate[]> {
+    return db.select().from(contractRates)
+      .where(and(
+        eq(contractRates.shipperId, shipperId),
+        eq(contractRates.status, "active"),
+        lte(contractRates.validFrom, at),
+        gte(contractRates.validUntil, at)
+      ))
+      .orderBy(desc(contractRates.createdAt));
+  }
+
+  async updateContractRate(id: string, updates: Partial<ContractRate>): Promise<ContractRate | undefined> {
+    const [updated] = await db.update(contractRates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contractRates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createContractRateCarrier(carrier: InsertContractRateCarrier): Promise<ContractRateCarrier> {
+    const [created] = await db.insert(contractRateCarriers).values(carrier).returning();
+    return created;
+  }
+
+  async getContractRateCarriers(contractId: string): Promise<ContractRateCarrier[]> {
+    return db.select().from(contractRateCarriers)
+      .where(eq(contractRateCarriers.contractId, contractId))
+      .orderBy(asc(contractRateCarriers.priority), asc(contractRateCarriers.createdAt));
+  }
+
+  async getContractRateCarriersByCarrier(carrierId: string): Promise<ContractRateCarrier[]> {
+    return db.select().from(contractRateCarriers)
+      .where(eq(contractRateCarriers.carrierId, carrierId));
+  }
+
+  async updateContractRateCarrier(id: string, updates: Partial<ContractRateCarrier>): Promise<ContractRateCarrier | undefined> {
+    const [updated] = await db.update(contractRateCarriers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contractRateCarriers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createContractLoadAssignment(assignment: InsertContractLoadAssignment): Promise<ContractLoadAssignment> {
+    const [created] = await db.insert(contractLoadAssignments).values(assignment).returning();
+    return created;
+  }
+
+  async getContractLoadAssignmentsByLoad(loadId: string): Promise<ContractLoadAssignment[]> {
+    return db.select().from(contractLoadAssignments)
+      .where(eq(contractLoadAssignments.loadId, loadId))
+      .orderBy(asc(contractLoadAssignments.createdAt));
+  }
+
+  async getContractLoadAssignmentsByContract(contractId: string, since?: Date): Promise<ContractLoadAssignment[]> {
+    const conditions = [eq(contractLoadAssignments.contractId, contractId)];
+    if (since) conditions.push(gte(contractLoadAssignments.createdAt, since));
+    return db.select().from(contractLoadAssignments)
+      .where(and(...conditions))
+      .orderBy(desc(contractLoadAssignments.createdAt));
+  }
+
+  async getContractLoadAssignmentsByCarrier(carrierId: string): Promise<ContractLoadAssignment[]> {
+    return db.select().from(contractLoadAssignments)
+      .where(eq(contractLoadAssignments.carrierId, carrierId))
+      .orderBy(desc(contractLoadAssignments.createdAt));
+  }
+
+  async updateContractLoadAssignment(id: string, updates: Partial<ContractLoadAssignment>): Promise<ContractLoadAssignment | undefined> {
+    const [updated] = await db.update(contractLoadAssignments)
+      .set(updates)
+      .where(eq(contractLoadAssignments.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Load templates and schedules
+  async getLoadTemplatesByShipper(shipperId: string): Promise<Load[]> {
+    return db.select().from(loads)
+      .where(and(eq(loads.shipperId, shipperId), eq(loads.isTemplate, true)))
+      .orderBy(asc(loads.templateName));
+  }
+
+  async deleteLoadTemplate(id: string): Promise<boolean> {
+    await db.delete(loads).where(and(eq(loads.id, id), eq(loads.isTemplate, true)));
+    return true;
+  }
+
+  async createLoadSchedule(schedule: InsertLoadSchedule): Promise<LoadSchedule> {
+    const [created] = await db.insert(loadSchedules).values(schedule).returning();
+    return created;
+  }
+
+  async getLoadSchedule(id: string): Promise<LoadSchedule | undefined> {
+    const [schedule] = await db.select().from(loadSchedules).where(eq(loadSchedules.id, id));
+    return schedule;
+  }
+
+  async getLoadSchedulesByShipper(shipperId: string): Promise<LoadSchedule[]> {
+    return db.select().from(loadSchedules)
+      .where(eq(loadSchedules.shipperId, shipperId))
+      .orderBy(desc(loadSchedules.createdAt));
+  }
+
+  async getLoadSchedulesByTemplate(templateLoadId: string): Promise<LoadSchedule[]> {
+    return db.select().from(loadSchedules).where(eq(loadSchedules.templateLoadId, templateLoadId));
+  }
+
+  async getActiveLoadSchedules(): Promise<LoadSchedule[]> {
+    return db.select().from(loadSchedules).where(eq(loadSchedules.isActive, true));
+  }
+
+  async updateLoadSchedule(id: string, updates: Partial<LoadSchedule>): Promise<LoadSchedule | undefined> {
+    const [updated] = await db.update(loadSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(loadSchedules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getLoadScheduleOccurrences(scheduleId: string, since?: Date): Promise<LoadScheduleOccurrence[]> {
+    const conditions = [eq(loadScheduleOccurrences.scheduleId, scheduleId)];
+    if (since) conditions.push(gte(loadScheduleOccurrences.occurrenceDate, since));
+    return db.select().from(loadScheduleOccurrences)
+      .where(and(...conditions))
+      .orderBy(asc(loadScheduleOccurrences.occurrenceDate));
+  }
+
+  async getLoadScheduleOccurrence(scheduleId: string, occurrenceDate: Date): Promise<LoadScheduleOccurrence | undefined> {
+    const [occurrence] = await db.select().from(loadScheduleOccurrences)
+      .where(and(
+        eq(loadScheduleOccurrences.scheduleId, scheduleId),
+        eq(loadScheduleOccurrences.occurrenceDate, occurrenceDate)
+      ));
+    return occurrence;
+  }
+
+  async createLoadScheduleOccurrence(occurrence: InsertLoadScheduleOccurrence): Promise<LoadScheduleOccurrence> {
+    const [created] = await db.insert(loadScheduleOccurrences).values(occurrence).returning();
+    return created;
+  }
+
+  async updateLoadScheduleOccurrence(id: string, updates: Partial<LoadScheduleOccurrence>): Promise<LoadScheduleOccurrence | undefined> {
+    const [updated] = await db.update(loadScheduleOccurrences)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(loadScheduleOccurrences.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteLoadScheduleOccurrence(id: string): Promise<boolean> {
+    await db.delete(loadScheduleOccurrences).where(eq(loadScheduleOccurrences.id, id));
+    return true;
+  }
+
+  // Load stops
+  async getLoadStops(loadId: string): Promise<LoadStop[]> {
+    return db.select().from(loadStops)
+      .where(eq(loadStops.loadId, loadId))
+      .orderBy(asc(loadStops.sequence));
+  }
+
+  async getLoadStop(id: string): Promise<LoadStop | undefined> {
+    const [stop] = await db.select().from(loadStops).where(eq(loadStops.id, id));
+    return stop;
+  }
+
+  async replaceLoadStops(loadId: string, stops: InsertLoadStop[]): Promise<LoadStop[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(loadStops).where(eq(loadStops.loadId, loadId));
+      if (stops.length === 0) return [];
+      const created = await tx.insert(loadStops).values(stops).returning();
+      return created.sort((a, b) => a.sequence - b.sequence);
+    });
+  }
+
+  async updateLoadStop(id: string, updates: Partial<LoadStop>): Promise<LoadStop | undefined> {
+    const [updated] = await db.update(loadStops)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(loadStops.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Load consolidations (PTL)
+  async getPtlCandidateLoads(): Promise<Load[]> {
+    return db.select().from(loads)
+      .where(and(
+        eq(loads.isPtl, true),
+        isNull(loads.consolidationId),
+        inArray(loads.status, ["pending", "priced"]),
+        sql`${loads.isTemplate} IS NOT TRUE`
+      ))
+      .orderBy(asc(loads.pickupDate));
+  }
+
+  async createLoadConsolidation(consolidation: InsertLoadConsolidation): Promise<LoadConsolidation> {
+    const [created] = await db.insert(loadConsolidations).values(consolidation).returning();
+    return created;
+  }
+
+  async getLoadConsolidation(id: string): Promise<LoadConsolidation | undefined> {
+    const [consolidation] = await db.select().from(loadConsolidations).where(eq(loadConsolidations.id, id));
+    return consolidation;
+  }
+
+  async getLoadConsolidations(filters?: { status?: string; carrierId?: string }): Promise<LoadConsolidation[]> {
+    const conditions = [];
+    if (filters?.status) conditions.push(eq(loadConsolidations.status, filters.status));
+    if (filters?.carrierId) conditions.push(eq(loadConsolidations.carrierId, filters.carrierId));
+    return db.select().from(loadConsolidations)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(loadConsolidations.pickupDate));
+  }
+
+  async updateLoadConsolidation(id: string, updates: Partial<LoadConsolidation>): Promise<LoadConsolidation | undefined> {
+    const [updated] = await db.update(loadConsolidations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(loadConsolidations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getLoadConsolidationMembers(consolidationId: string): Promise<LoadConsolidationMember[]> {
+    return db.select().from(loadConsolidationMembers)
+      .where(eq(loadConsolidationMembers.consolidationId, consolidationId))
+      .orderBy(asc(loadConsolidationMembers.createdAt));
+  }
+
+  async getLoadConsolidationMemberByLoad(loadId: string): Promise<LoadConsolidationMember | undefined> {
+    const [member] = await db.select().from(loadConsolidationMembers)
+      .where(eq(loadConsolidationMembers.loadId, loadId))
+      .orderBy(desc(loadConsolidationMembers.createdAt));
+    return member;
+  }
+
+  async createLoadConsolidationMember(member: InsertLoadConsolidationMember): Promise<LoadConsolidationMember> {
+    const [created] = await db.insert(loadConsolidationMembers).values(member).returning();
+    return created;
+  }
+
+  async updateLoadConsolidationMember(id: string, updates: Partial<LoadConsolidationMember>): Promise<LoadConsolidationMember | undefined> {
+    const [updated] = await db.update(loadConsolidationMembers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(loadConsolidationMembers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteLoadConsolidationMember(id: string): Promise<boolean> {
+    await db.delete(loadConsolidationMembers).where(eq(loadConsolidationMembers.id, id));
+    return true;
+  }
+
+  // GPS devices and telemetry ingestion
+  async createGpsDevice(device: InsertGpsDevice): Promise<GpsDevice> {
+    const [created] = await db.insert(gpsDevices).values(device).returning();
+    return created;
+  }
+
+  async getGpsDevice(id: string): Promise<GpsDevice | undefined> {
+    const [device] = await db.select().from(gpsDevices).where(eq(gpsDevices.id, id));
+    return device;
+  }
+
+  async getGpsDeviceByKeyHash(apiKeyHash: string): Promise<GpsDevice | undefined> {
+    const [device] = await db.select().from(gpsDevices).where(eq(gpsDevices.apiKeyHash, apiKeyHash));
+    return device;
+  }
+
+  // Active devices only unless includeInactive, which returns the newest registration
+  async getGpsDeviceByIdentifier(deviceType: string, deviceIdentifier: string, options?: { includeInactive?: boolean }): Promise<GpsDevice | undefined> {
+    const [device] = await db.select().from(gpsDevices)
+      .where(and(
+        eq(gpsDevices.deviceType, deviceType),
+        eq(gpsDevices.deviceIdentifier, deviceIdentifier),
+        options?.includeInactive ? undefined : eq(gpsDevices.isActive, true)
+      ))
+      .orderBy(desc(gpsDevices.createdAt))
+      .limit(1);
+    return device;
+  }
+
+  async getGpsDevices(filters?: { carrierId?: string; truckId?: string }): Promise<GpsDevice[]> {
+    const conditions = [];
+    if (filters?.carrierId) conditions.push(eq(gpsDevices.carrierId, filters.carrierId));
+    if (filters?.truckId) conditions.push(eq(gpsDevices.truckId, filters.truckId));
+    return db.select().from(gpsDevices)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(gpsDevices.createdAt));
+  }
+
+  async updateGpsDevice(id: string, updates: Partial<GpsDevice>): Promise<GpsDevice | undefined> {
+    const [updated] = await db.update(gpsDevices)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(gpsDevices.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getActiveShipmentByTruck(truckId: string): Promise<Shipment | undefined> {
+    const [shipment] = await db.select().from(shipments)
+      .where(and(
+        eq(shipments.truckId, truckId),
+        sql`${shipments.status} IS DISTINCT FROM 'delivered'`,
+        sql`${shipments.endOtpVerified} IS NOT TRUE`
+      ))
+      .orderBy(desc(shipments.createdAt))
+      .limit(1);
+    return shipment;
+  }
+
+  async createVehicleTelemetryRecords(records: InsertVehicleTelemetry[]): Promise<VehicleTelemetry[]> {
+    if (records.length === 0) return [];
+    return db.insert(vehicleTelemetry).values(records).returning();
+  }
+
+  async createGpsBreadcrumbs(breadcrumbs: InsertGpsBreadcrumb[]): Promise<GpsBreadcrumb[]> {
+    if (breadcrumbs.length === 0) return [];
+    return db.insert(gpsBreadcrumbs).values(breadcrumbs).onConflictDoNothing().returning();
+  }
+
+  async getGpsBreadcrumbsInRange(vehicleId: string, from: Date, to: Date): Promise<GpsBreadcrumb[]> {
+    return db.select().from(gpsBreadcrumbs)
+      .where(and(
+        eq(gpsBreadcrumbs.vehicleId, vehicleId),
+        gte(gpsBreadcrumbs.recordedAt, from),
+        lte(gpsBreadcrumbs.recordedAt, to)
+      ))
+      .orderBy(asc(gpsBreadcrumbs.recordedAt));
+  }
+
+  async getGpsBreadcrumbsByLoad(loadId: string): Promise<GpsBreadcrumb[]> {
+    return db.select().from(gpsBreadcrumbs)
+      .where(eq(gpsBreadcrumbs.loadId, loadId))
+      .orderBy(asc(gpsBreadcrumbs.recordedAt));
+  }
+
+  // Geofences
+  async createGeofence(geofence: InsertGeofence): Promise<Geofence> {
+    const [created] = await db.insert(geofences).values(geofence).returning();
+    return created;
+  }
+
+  async getGeofence(id: string): Promise<Geofence | undefined> {
+    const [geofence] = await db.select().from(geofences).where(eq(geofences.id, id));
+    return geofence;
+  }
+
+  async getGeofencesByLoad(loadId: string): Promise<Geofence[]> {
+    return db.select().from(geofences)
+      .where(eq(geofences.loadId, loadId))
+      .orderBy(asc(geofences.createdAt));
+  }
+
+  async updateGeofence(id: string, updates: Partial<Geofence>): Promise<Geofence | undefined> {
+    const [updated] = await db.update(geofences)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(geofences.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteGeofence(id: string): Promise<boolean> {
+    await db.delete(geofences).where(eq(geofences.id, id));
+    return true;
+  }
+
+  // Telematics Alerts
+  async createTelematicsAlert(alert: InsertTelematicsAlert): Promise<TelematicsAlert> {
+    const [created] = await db.insert(telematicsAlerts).values(alert).returning();
+    return created;
+  }
+
+  async getTelematicsAlert(id: string): Promise<TelematicsAlert | undefined> {
+    const [alert] = await db.select().from(telematicsAlerts).where(eq(telematicsAlerts.id, id));
+    return alert;
+  }
+
+  async getTelematicsAlerts(filters?: { loadId?: string; vehicleId?: string; openOnly?: boolean }): Promise<TelematicsAlert[]> {
+    const conditions = [];
+    if (filters?.loadId) conditions.push(eq(telematicsAlerts.loadId, filters.loadId));
+    if (filters?.vehicleId) conditions.push(eq(telematicsAlerts.vehicleId, filters.vehicleId));
+    if (filters?.openOnly) conditions.push(isNull(telematicsAlerts.resolvedAt));
+    return db.select().from(telematicsAlerts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(telematicsAlerts.createdAt));
+  }
+
+  async updateTelematicsAlert(id: string, updates: Partial<TelematicsAlert>): Promise<TelematicsAlert | undefined> {
+    const [updated] = await db.update(telematicsAlerts)
+      .set(updates)
+      .where(eq(telematicsAlerts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async markGpsBreadcrumbsRisky(vehicleId: string, from: Date, to: Date, reason: string): Promise<void> {
+    await db.update(gpsBreadcrumbs)
+      .set({ isRiskySegment: true, riskReason: reason })
+      .where(and(
+        eq(gpsBreadcrumbs.vehicleId, vehicleId),
+        gte(gpsBreadcrumbs.recordedAt, from),
+        lte(gpsBreadcrumbs.recordedAt, to)
+      ));
+  }
+
+  // ETA model
+  async getDeliveredShipmentsSince(since: Date): Promise<Shipment[]> {
+    return db.select().from(shipments)
+      .where(and(eq(shipments.status, "delivered"), gte(shipments.completedAt, since)));
+  }
+
+  async getEtaSpeedProfiles(): Promise<EtaSpeedProfile[]> {
+    return db.select().from(etaSpeedProfiles);
+  }
+
+  async replaceEtaSpeedProfiles(profiles: InsertEtaSpeedProfile[]): Promise<number> {
+    return db.transaction(async (tx) => {
+      await tx.delete(etaSpeedProfiles);
+      if (profiles.length === 0) return 0;
+      const created = await tx.insert(etaSpeedProfiles).values(profiles).returning({ id: etaSpeedProfiles.id });
+      return created.length;
+    });
+  }
+
+  async getRouteEtaPrediction(loadId: string): Promise<RouteEtaPrediction | undefined> {
+    const [prediction] = await db.select().from(routeEtaPredictions)
+      .where(eq(routeEtaPredictions.loadId, loadId))
+      .orderBy(desc(routeEtaPredictions.updatedAt))
+      .limit(1);
+    return prediction;
+  }
+
+  async createRouteEtaPrediction(prediction: InsertRouteEtaPrediction): Promise<RouteEtaPrediction> {
+    const [created] = await db.insert(routeEtaPredictions).values(prediction).returning();
+    return created;
+  }
+
+  async updateRouteEtaPrediction(id: string, updates: Partial<RouteEtaPrediction>): Promise<RouteEtaPrediction | undefined> {
+    const [updated] = await db.update(routeEtaPredictions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(routeEtaPredictions.id, id))
+      .returning();
+    return updated;
+  }
 }
 
 export const storage = new DatabaseStorage();
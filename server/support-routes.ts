@@ -0,0 +1,302 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "./storage";
+import { supportTicketStatuses, supportTicketPriorities, supportTicketCategories } from "@shared/schema";
+import type { SupportTicket, SupportTicketStatus, User } from "@shared/schema";
+import {
+  escalateConversation,
+  replyToTicket,
+  assignTicket,
+  setTicketStatus,
+  SUPPORT_SLA_TARGETS,
+} from "./services/support-tickets";
+
+async function getSessionUser(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  return user;
+}
+
+async function getAdmin(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user || user.role !== "admin") {
+    res.status(403).json({ error: "Admin access required" });
+    return null;
+  }
+  return user;
+}
+
+// SLA state for list views; "breached" sticks once the job has flagged it
+function slaSummary(ticket: SupportTicket, now: Date = new Date()) {
+  const awaitingFirstResponse = !ticket.firstRespondedAt;
+  const dueAt = awaitingFirstResponse ? ticket.firstResponseDueAt : ticket.resolutionDueAt;
+  return {
+    target: awaitingFirstResponse ? "first_response" : "resolution",
+    dueAt,
+    minutesRemaining: Math.round((dueAt.getTime() - now.getTime()) / 60000),
+    breached: !!ticket.slaBreachedAt || dueAt < now,
+  };
+}
+
+export function registerSupportRoutes(app: Express): void {
+  // POST /api/support/tickets - escalate a help bot conversation to a ticket
+  app.post("/api/support/tickets", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const { conversationId, category, priority, subject, relatedLoadId, relatedInvoiceId } = req.body;
+      if (!conversationId || isNaN(parseInt(conversationId))) {
+        return res.status(400).json({ error: "conversationId is required" });
+      }
+
+      const result = await escalateConversation({
+        user,
+        conversationId: parseInt(conversationId),
+        category,
+        priority,
+        subject,
+        relatedLoadId,
+        relatedInvoiceId,
+        source: "user",
+      });
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.status(result.existing ? 200 : 201).json(result.ticket);
+    } catch (error) {
+      console.error("Create support ticket error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/support/tickets - the current user's tickets
+  app.get("/api/support/tickets", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const tickets = await storage.getSupportTicketsByUser(user.id);
+      res.json(tickets.map((ticket) => ({
+        id: ticket.id,
+        ticketNumber: ticket.ticketNumber,
+        conversationId: ticket.conversationId,
+        subject: ticket.subject,
+        category: ticket.category,
+        status: ticket.status,
+        createdAt: ticket.createdAt,
+        resolvedAt: ticket.resolvedAt,
+      })));
+    } catch (error) {
+      console.error("Get support tickets error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/admin/support-tickets - ticket queue, soonest SLA deadline first
+  app.get("/api/admin/support-tickets", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const status = typeof req.query.status === "string" && req.query.status !== "all" ? req.query.status : undefined;
+      const assignedTo = req.query.assignedTo === "me" ? admin.id : undefined;
+      const tickets = await storage.getSupportTickets({ status, assignedTo });
+
+      const userIds = Array.from(new Set(tickets.flatMap((t) => [t.userId, t.assignedTo]).filter(Boolean) as string[]));
+      const users = new Map<string, User>();
+      for (const id of userIds) {
+        const u = await storage.getUser(id);
+        if (u) users.set(id, u);
+      }
+
+      res.json(tickets.map((ticket) => ({
+        ...ticket,
+        requesterName: users.get(ticket.userId)?.companyName || users.get(ticket.userId)?.username || null,
+        requesterRole: users.get(ticket.userId)?.role || null,
+        assigneeName: ticket.assignedTo ? users.get(ticket.assignedTo)?.username || null : null,
+        sla: slaSummary(ticket),
+      })));
+    } catch (error) {
+      console.error("Get admin support tickets error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GET /api/admin/support-tickets/:id - ticket with transcript and internal notes
+  app.get("/api/admin/support-tickets/:id", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const ticket = await storage.getSupportTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+
+      const [requester, messages, notes, load, invoice] = await Promise.all([
+        storage.getUser(ticket.userId),
+        storage.getHelpBotMessages(ticket.conversationId),
+        storage.getSupportTicketNotes(ticket.id),
+        ticket.relatedLoadId ? storage.getLoad(ticket.relatedLoadId) : Promise.resolve(undefined),
+        ticket.relatedInvoiceId ? storage.getInvoice(ticket.relatedInvoiceId) : Promise.resolve(undefined),
+      ]);
+
+      const notesWithAuthors = await Promise.all(notes.map(async (note) => {
+        const author = await storage.getUser(note.authorId);
+        return { ...note, authorName: author?.username || "Admin" };
+      }));
+
+      res.json({
+        ...ticket,
+        sla: slaSummary(ticket),
+        slaTargets: SUPPORT_SLA_TARGETS[ticket.priority as keyof typeof SUPPORT_SLA_TARGETS],
+        requester: requester ? {
+          id: requester.id,
+          username: requester.username,
+          companyName: requester.companyName,
+          email: requester.email,
+          phone: requester.phone,
+          role: requester.role,
+        } : null,
+        relatedLoad: load ? {
+          id: load.id,
+          loadNumber: `LD-${String(load.shipperLoadNumber || 0).padStart(3, "0")}`,
+          status: load.status,
+          pickupCity: load.pickupCity,
+          dropoffCity: load.dropoffCity,
+        } : null,
+        relatedInvoice: invoice ? {
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          status: invoice.status,
+          totalAmount: invoice.totalAmount,
+        } : null,
+        messages,
+        notes: notesWithAuthors,
+      });
+    } catch (error) {
+      console.error("Get support ticket error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/admin/support-tickets/:id - assignment, status, priority, category
+  app.patch("/api/admin/support-tickets/:id", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      let ticket = await storage.getSupportTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+
+      const { assignedTo, status, priority, category } = req.body;
+      const changes: string[] = [];
+
+      if (assignedTo !== undefined) {
+        const result = await assignTicket(ticket, assignedTo === "me" ? admin.id : assignedTo || null);
+        if (!result.success || !result.ticket) {
+          return res.status(400).json({ error: result.error });
+        }
+        ticket = result.ticket;
+        changes.push(`assigned to ${ticket.assignedTo || "nobody"}`);
+      }
+
+      if (priority !== undefined || category !== undefined) {
+        if (priority !== undefined && !supportTicketPriorities.includes(priority)) {
+          return res.status(400).json({ error: "Invalid priority" });
+        }
+        if (category !== undefined && !supportTicketCategories.includes(category)) {
+          return res.status(400).json({ error: "Invalid category" });
+        }
+        const updates: Partial<SupportTicket> = {};
+        if (category !== undefined) updates.category = category;
+        if (priority !== undefined && priority !== ticket.priority) {
+          // New priority restarts the SLA clock from when the ticket was opened
+          const sla = SUPPORT_SLA_TARGETS[priority as keyof typeof SUPPORT_SLA_TARGETS];
+          const openedAt = (ticket.createdAt || new Date()).getTime();
+          updates.priority = priority;
+          updates.firstResponseDueAt = new Date(openedAt + sla.firstResponseHours * 60 * 60 * 1000);
+          updates.resolutionDueAt = new Date(openedAt + sla.resolutionHours * 60 * 60 * 1000);
+          updates.slaBreachedAt = null;
+        }
+        ticket = (await storage.updateSupportTicket(ticket.id, updates)) || ticket;
+        changes.push(`priority ${ticket.priority}, category ${ticket.category}`);
+      }
+
+      if (status !== undefined) {
+        if (!supportTicketStatuses.includes(status)) {
+          return res.status(400).json({ error: "Invalid status" });
+        }
+        ticket = (await setTicketStatus(ticket, status as SupportTicketStatus)) || ticket;
+        changes.push(`status ${status}`);
+      }
+
+      await storage.createAuditLog({
+        adminId: admin.id,
+        actionType: "update_support_ticket",
+        actionDescription: `Updated support ticket #${ticket.ticketNumber}: ${changes.join("; ")}`,
+        metadata: { ticketId: ticket.id, assignedTo, status, priority, category },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      res.json(ticket);
+    } catch (error) {
+      console.error("Update support ticket error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/support-tickets/:id/reply - reply to the requester in their chat
+  app.post("/api/admin/support-tickets/:id/reply", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const ticket = await storage.getSupportTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+      const { message } = req.body;
+      if (!message || typeof message !== "string" || !message.trim()) {
+        return res.status(400).json({ error: "Message is required" });
+      }
+
+      const updated = await replyToTicket(ticket, admin, message.trim());
+      res.json(updated);
+    } catch (error) {
+      console.error("Reply to support ticket error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/admin/support-tickets/:id/notes - internal note, not visible to the requester
+  app.post("/api/admin/support-tickets/:id/notes", async (req: Request, res: Response) => {
+    try {
+      const admin = await getAdmin(req, res);
+      if (!admin) return;
+
+      const ticket = await storage.getSupportTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+      const { note } = req.body;
+      if (!note || typeof note !== "string" || !note.trim()) {
+        return res.status(400).json({ error: "Note is required" });
+      }
+
+      const created = await storage.createSupportTicketNote({ ticketId: ticket.id, authorId: admin.id, note: note.trim() });
+      res.status(201).json({ ...created, authorName: admin.username });
+    } catch (error) {
+      console.error("Add support ticket note error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
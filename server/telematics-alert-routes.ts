@@ -0,0 +1,80 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "./storage";
+import type { Load, User } from "@shared/schema";
+
+async function getSessionUser(req: Request, res: Response): Promise<User | null> {
+  const userId = req.session?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  return user;
+}
+
+function canViewLoadAlerts(user: User, load: Load): boolean {
+  return user.role === "admin" || load.shipperId === user.id || load.assignedCarrierId === user.id;
+}
+
+// The shipper can watch, but only ops and the hauling carrier act on an alert
+function canAcknowledgeLoadAlerts(user: User, load: Load): boolean {
+  return user.role === "admin" || load.assignedCarrierId === user.id;
+}
+
+export function registerTelematicsAlertRoutes(app: Express): void {
+  // GET /api/telematics/alerts?loadId=&open=true - route deviation, stop and sensor alerts
+  app.get("/api/telematics/alerts", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const loadId = typeof req.query.loadId === "string" ? req.query.loadId : undefined;
+      const vehicleId = typeof req.query.vehicleId === "string" ? req.query.vehicleId : undefined;
+      const openOnly = req.query.open === "true";
+
+      if (user.role !== "admin") {
+        if (!loadId) return res.status(400).json({ error: "loadId is required" });
+        const load = await storage.getLoad(loadId);
+        if (!load) return res.status(404).json({ error: "Load not found" });
+        if (!canViewLoadAlerts(user, load)) {
+          return res.status(403).json({ error: "Not authorized for this load" });
+        }
+        return res.json(await storage.getTelematicsAlerts({ loadId, openOnly }));
+      }
+
+      res.json(await storage.getTelematicsAlerts({ loadId, vehicleId, openOnly }));
+    } catch (error) {
+      console.error("Get telematics alerts error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // POST /api/telematics/alerts/:id/acknowledge - mark an alert as seen and being handled
+  app.post("/api/telematics/alerts/:id/acknowledge", async (req: Request, res: Response) => {
+    try {
+      const user = await getSessionUser(req, res);
+      if (!user) return;
+
+      const alert = await storage.getTelematicsAlert(req.params.id);
+      if (!alert) return res.status(404).json({ error: "Alert not found" });
+
+      if (user.role !== "admin") {
+        const load = alert.loadId ? await storage.getLoad(alert.loadId) : undefined;
+        if (!load || !canAcknowledgeLoadAlerts(user, load)) {
+          return res.status(403).json({ error: "Not authorized for this alert" });
+        }
+      }
+      if (alert.isAcknowledged) return res.json(alert);
+
+      const updated = await storage.updateTelematicsAlert(alert.id, {
+        isAcknowledged: true,
+        acknowledgedAt: new Date(),
+        acknowledgedBy: user.id,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Acknowledge telematics alert error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
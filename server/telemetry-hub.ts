@@ -0,0 +1,120 @@
+import type { LiveTelemetryData, EtaPrediction } from "@shared/schema";
+
+/**
+ * Live Telemetry Hub
+ *
+ * Latest known state of every vehicle, whatever reported it. Sources publish
+ * here: real GPS devices through the ingestion pipeline, and the simulator
+ * for local testing. The REST routes and /ws/telemetry only ever read from
+ * the hub, so they don't care where a position came from.
+ *
+ * Each source answers ETA and breadcrumb questions for its own vehicles.
+ * Device vehicles that go quiet drop off the live list after STALE_AFTER_MS.
+ */
+
+export interface GpsBreadcrumbPoint {
+  lat: number;
+  lng: number;
+  timestamp: string;
+}
+
+export interface TelemetrySource {
+  name: string;
+  // Vehicles from sources that keep themselves current never go stale
+  staleAfterMs?: number;
+  getEtaPrediction(loadId: string, telemetry: LiveTelemetryData): EtaPrediction | null;
+  getBreadcrumbs(vehicleId: string, minutes: number): Promise<GpsBreadcrumbPoint[]>;
+}
+
+type PositionListener = (telemetry: LiveTelemetryData) => void;
+
+interface VehicleEntry {
+  telemetry: LiveTelemetryData;
+  source: TelemetrySource;
+  receivedAt: number;
+}
+
+const vehicles: Map<string, VehicleEntry> = new Map();
+const listeners: PositionListener[] = [];
+
+function isLive(entry: VehicleEntry): boolean {
+  return !entry.source.staleAfterMs || Date.now() - entry.receivedAt <= entry.source.staleAfterMs;
+}
+
+/**
+ * Record a vehicle's latest state and tell listeners about it. Sources that
+ * poll (the simulator) pass notify=false; the websocket broadcast picks
+ * their vehicles up on its own interval.
+ */
+export function publishTelemetry(source: TelemetrySource, telemetry: LiveTelemetryData, notify = true): void {
+  vehicles.set(telemetry.vehicleId, { telemetry, source, receivedAt: Date.now() });
+  if (!notify) return;
+  listeners.forEach((listener) => {
+    try {
+      listener(telemetry);
+    } catch (error) {
+      console.error("Telemetry listener error:", error);
+    }
+  });
+}
+
+export function onPositionUpdate(listener: PositionListener): void {
+  listeners.push(listener);
+}
+
+export function getVehicleTelemetry(vehicleId: string): LiveTelemetryData | null {
+  const entry = vehicles.get(vehicleId);
+  return entry && isLive(entry) ? entry.telemetry : null;
+}
+
+export function getAllVehiclesTelemetry(): LiveTelemetryData[] {
+  const telemetryData: LiveTelemetryData[] = [];
+  vehicles.forEach((entry) => {
+    if (isLive(entry)) telemetryData.push(entry.telemetry);
+  });
+  return telemetryData;
+}
+
+export function getActiveVehicleIds(): string[] {
+  return getAllVehiclesTelemetry().map((telemetry) => telemetry.vehicleId);
+}
+
+// Live ETA for a load from whichever source is tracking its vehicle
+export function getEtaPrediction(loadId: string): EtaPrediction | null {
+  let match: VehicleEntry | undefined;
+  vehicles.forEach((entry) => {
+    if (entry.telemetry.loadId === loadId && isLive(entry)) match = entry;
+  });
+  return match ? match.source.getEtaPrediction(loadId, match.telemetry) : null;
+}
+
+export async function getGpsBreadcrumbs(vehicleId: string, minutes: number = 10): Promise<GpsBreadcrumbPoint[]> {
+  const entry = vehicles.get(vehicleId);
+  return entry ? entry.source.getBreadcrumbs(vehicleId, minutes) : [];
+}
+
+// Check for alerts based on telemetry
+export function checkTelemetryAlerts(telemetry: LiveTelemetryData): string[] {
+  const alerts: string[] = [];
+
+  // Plain GPS trackers don't report engine data, so only check what we have
+  if (telemetry.hasCanBus !== false) {
+    if (telemetry.engineTemp > 100) {
+      alerts.push("Vehicle overheating");
+    }
+    if (telemetry.fuelLevel < 10) {
+      alerts.push("Fuel under 10%");
+    }
+    if (telemetry.batteryVoltage < 12) {
+      alerts.push("Low battery voltage");
+    }
+  }
+  if (telemetry.speed > 100) {
+    alerts.push("Overspeed detected");
+  }
+  if (!telemetry.isIgnitionOn && telemetry.speed === 0) {
+    alerts.push("Vehicle stopped unexpectedly");
+  }
+
+  return alerts;
+}
@@ -1,4 +1,22 @@
 import type { LiveTelemetryData, EtaPrediction } from "@shared/schema";
+import { publishTelemetry, type GpsBreadcrumbPoint, type TelemetrySource } from "./telemetry-hub";
+import { describeTraffic, expectedSpeedNow } from "./services/eta-model";
+
+/**
+ * Telemetry Simulator
+ *
+ * Demo trucks driving three fixed routes, for local testing without GPS
+ * hardware. It is just another telemetry source: every tick publishes the
+ * simulated vehicles to the hub next to the real device feeds. Runs by
+ * default outside production; TELEMETRY_SIMULATOR=on|off overrides that.
+ */
+
+export function isTelemetrySimulatorEnabled(): boolean {
+  const setting = process.env.TELEMETRY_SIMULATOR;
+  if (setting === "on") return true;
+  if (setting === "off") return false;
+  return process.env.NODE_ENV !== "production";
+}
 
 // Simulated vehicle routes (coordinates for realistic movement)
 const routes = {
@@ -70,6 +88,8 @@ interface VehicleSimulation {
 }
 
 const activeVehicles: Map<string, VehicleSimulation> = new Map();
+// First ETA reported for each simulated trip, kept as its originalEta until the route loops
+const originalEtas: Map<string, Date> = new Map();
 
 // Initialize some demo vehicles
 function initializeDemoVehicles() {
@@ -228,6 +248,7 @@ function updateVehicleState(vehicle: VehicleSimulation): void {
     vehicle.currentWaypointIndex++;
     if (vehicle.currentWaypointIndex >= route.waypoints.length - 1) {
       vehicle.currentWaypointIndex = 0; // Loop back
+      originalEtas.delete(vehicle.loadId);
     }
   }
 
@@ -264,11 +285,8 @@ function updateVehicleState(vehicle: VehicleSimulation): void {
   }
 }
 
-// Get current telemetry data for a vehicle
-export function getVehicleTelemetry(vehicleId: string): LiveTelemetryData | null {
-  const vehicle = activeVehicles.get(vehicleId);
-  if (!vehicle) return null;
-
+// Current telemetry data for a simulated vehicle
+function buildTelemetry(vehicle: VehicleSimulation): LiveTelemetryData | null {
   const route = routes[vehicle.routeId as keyof typeof routes];
   if (!route) return null;
 
@@ -291,22 +309,13 @@ export function getVehicleTelemetry(vehicleId: string): LiveTelemetryData | null
     loadWeight: vehicle.loadWeight,
     maxCapacity: vehicle.maxCapacity,
     isIgnitionOn: vehicle.isIgnitionOn,
+    hasCanBus: true,
     timestamp: new Date().toISOString(),
   };
 }
 
-// Get all active vehicles telemetry
-export function getAllVehiclesTelemetry(): LiveTelemetryData[] {
-  const telemetryData: LiveTelemetryData[] = [];
-  activeVehicles.forEach((_, vehicleId) => {
-    const data = getVehicleTelemetry(vehicleId);
-    if (data) telemetryData.push(data);
-  });
-  return telemetryData;
-}
-
-// Get ETA prediction for a load
-export function getEtaPrediction(loadId: string): EtaPrediction | null {
+// ETA prediction for a load carried by a simulated vehicle
+function getSimulatedEta(loadId: string): EtaPrediction | null {
   // Find vehicle with this load
   let vehicle: VehicleSimulation | undefined;
   activeVehicles.forEach(v => {
@@ -329,28 +338,18 @@ export function getEtaPrediction(loadId: string): EtaPrediction | null {
   const minutesRemaining = hoursRemaining * 60;
 
   const currentEta = new Date(Date.now() + minutesRemaining * 60 * 1000);
-  const originalEta = new Date(Date.now() + minutesRemaining * 60 * 1000 - 15 * 60 * 1000); // 15 min earlier original
-
-  // Simulate traffic and weather conditions
-  const trafficConditions = ["clear", "moderate", "heavy"];
-  const weatherConditions = ["clear", "cloudy", "rain", "fog"];
-  const trafficCondition = trafficConditions[Math.floor(Math.random() * trafficConditions.length)];
-  const weatherCondition = weatherConditions[Math.floor(Math.random() * weatherConditions.length)];
-
-  // Calculate delay risk
-  let delayMinutes = 0;
-  let delayRisk: "low" | "medium" | "high" = "low";
-  if (trafficCondition === "heavy") {
-    delayMinutes = 30;
-    delayRisk = "high";
-  } else if (trafficCondition === "moderate" || weatherCondition === "rain") {
-    delayMinutes = 15;
-    delayRisk = "medium";
+  let originalEta = originalEtas.get(loadId);
+  if (!originalEta) {
+    originalEta = currentEta;
+    originalEtas.set(loadId, originalEta);
   }
 
-  // Check for better route
-  const betterRouteAvailable = Math.random() < 0.2;
-  const betterRouteSavingsMinutes = betterRouteAvailable ? Math.floor(Math.random() * 20) + 5 : undefined;
+  // Traffic from the vehicle's speed against what the ETA model expects at this hour
+  const trafficCondition = describeTraffic(vehicle.speed, expectedSpeedNow());
+
+  // Delay against the trip's first estimate, in the ETA model's risk bands
+  const delayMinutes = Math.max(0, Math.round((currentEta.getTime() - originalEta.getTime()) / 60000));
+  const delayRisk: EtaPrediction["delayRisk"] = delayMinutes >= 60 ? "high" : delayMinutes >= 15 ? "medium" : "low";
 
   return {
     loadId,
@@ -362,37 +361,13 @@ export function getEtaPrediction(loadId: string): EtaPrediction | null {
     distanceRemaining: Math.round(distanceRemaining),
     distanceUnit: "km",
     trafficCondition,
-    weatherCondition,
-    betterRouteAvailable,
-    betterRouteSavingsMinutes,
+    weatherCondition: "unknown",
+    betterRouteAvailable: false,
   };
 }
 
-// Check for alerts based on telemetry
-export function checkTelemetryAlerts(telemetry: LiveTelemetryData): string[] {
-  const alerts: string[] = [];
-
-  if (telemetry.engineTemp > 100) {
-    alerts.push("Vehicle overheating");
-  }
-  if (telemetry.fuelLevel < 10) {
-    alerts.push("Fuel under 10%");
-  }
-  if (telemetry.speed > 100) {
-    alerts.push("Overspeed detected");
-  }
-  if (telemetry.batteryVoltage < 12) {
-    alerts.push("Low battery voltage");
-  }
-  if (!telemetry.isIgnitionOn && telemetry.speed === 0) {
-    alerts.push("Vehicle stopped unexpectedly");
-  }
-
-  return alerts;
-}
-
-// Get GPS breadcrumbs for a vehicle (last 10 minutes)
-export function getGpsBreadcrumbs(vehicleId: string, minutes: number = 10): { lat: number; lng: number; timestamp: string }[] {
+// Simulated GPS breadcrumbs for a vehicle (last 10 minutes)
+function getSimulatedBreadcrumbs(vehicleId: string, minutes: number = 10): GpsBreadcrumbPoint[] {
   const vehicle = activeVehicles.get(vehicleId);
   if (!vehicle) return [];
 
@@ -400,7 +375,7 @@ export function getGpsBreadcrumbs(vehicleId: string, minutes: number = 10): { la
   if (!route) return [];
 
   // Generate simulated breadcrumbs
-  const breadcrumbs: { lat: number; lng: number; timestamp: string }[] = [];
+  const breadcrumbs: GpsBreadcrumbPoint[] = [];
   const numPoints = Math.min(minutes * 6, 60); // One point every 10 seconds
   
   for (let i = numPoints - 1; i >= 0; i--) {
@@ -458,6 +433,12 @@ export function getDriverBehaviorScore(driverId: string): {
   };
 }
 
+const simulatorSource: TelemetrySource = {
+  name: "simulator",
+  getEtaPrediction: (loadId) => getSimulatedEta(loadId),
+  getBreadcrumbs: async (vehicleId, minutes) => getSimulatedBreadcrumbs(vehicleId, minutes),
+};
+
 // Start the simulation loop
 let simulationInterval: NodeJS.Timeout | null = null;
 
@@ -469,6 +450,8 @@ export function startTelemetrySimulation(): void {
   simulationInterval = setInterval(() => {
     activeVehicles.forEach(vehicle => {
       updateVehicleState(vehicle);
+      const telemetry = buildTelemetry(vehicle);
+      if (telemetry) publishTelemetry(simulatorSource, telemetry, false);
     });
   }, 1000); // Update every second
 
@@ -482,8 +465,3 @@ export function stopTelemetrySimulation(): void {
     console.log("Telemetry simulation stopped");
   }
 }
-
-// Get all vehicle IDs
-export function getActiveVehicleIds(): string[] {
-  return Array.from(activeVehicles.keys());
-}
@@ -1,15 +1,89 @@
 import { WebSocketServer, WebSocket } from "ws";
-import type { Server, IncomingMessage } from "http";
+import type { Server, IncomingMessage, ServerResponse } from "http";
 import type { Socket } from "net";
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import { canUserAccessLoad } from "./workflow-service";
+
+/**
+ * Marketplace WebSocket
+ *
+ * The /ws/marketplace upgrade is authenticated with the same express-session
+ * cookie as the REST API; the socket is bound to the session's user and role
+ * from the database, never to anything the browser claims.
+ *
+ * Besides the role-based broadcasts below, a client can subscribe to a single
+ * load, invoice or negotiation (bid) and receive its updates:
+ *   { type: "subscribe", resource: "load" | "invoice" | "negotiation", id }
+ *   { type: "unsubscribe", resource, id }
+ * Access is checked with canUserAccessLoad on the resource's load.
+ *
+ * Events addressed to one user (bid counters, acceptances, invoices sent to a
+ * shipper, ...) are also written to that user's event log with a per-user
+ * sequence number and carry it as `seq`. After a reconnect the client sends
+ *   { type: "resume", afterSequence }
+ * and gets every logged event after that sequence, then a "resumed" message.
+ * Role-wide broadcasts (new loads for carriers, admin activity feeds) are not
+ * logged; those pages refetch on reconnect anyway.
+ */
+
+type MarketplaceRole = "carrier" | "admin" | "shipper";
+export type SubscriptionResource = "load" | "invoice" | "negotiation";
+
+const SUBSCRIPTION_RESOURCES: SubscriptionResource[] = ["load", "invoice", "negotiation"];
+const MAX_SUBSCRIPTIONS_PER_CLIENT = 100;
+const REPLAY_LIMIT = 500;
+// Clients that never send "resume" get their held-back live events after this
+const RESUME_WAIT_MS = 5000;
 
 interface MarketplaceClient {
   ws: WebSocket;
-  role: "carrier" | "admin" | "shipper" | null;
-  userId: string | null;
+  role: MarketplaceRole;
+  userId: string;
+  subscriptions: Set<string>;
+  // Live sequenced events held back until a resume replay has gone out
+  resumeBuffer: any[] | null;
+  resumeRequested: boolean;
 }
 
 const clients: Map<WebSocket, MarketplaceClient> = new Map();
 let wss: WebSocketServer | null = null;
+let sessionParser: RequestHandler | null = null;
+
+/**
+ * Share the express-session middleware so upgrades can read the session.
+ * Called from registerRoutes once the session store exists.
+ */
+export function setMarketplaceSessionParser(parser: RequestHandler): void {
+  sessionParser = parser;
+}
+
+function getSessionUserId(request: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (!sessionParser) {
+      resolve(null);
+      return;
+    }
+    const req = request as any;
+    sessionParser(req, {} as ServerResponse as any, () => {
+      resolve(req.session?.userId || null);
+    });
+  });
+}
+
+async function authenticateUpgrade(request: IncomingMessage): Promise<{ userId: string; role: MarketplaceRole } | null> {
+  const userId = await getSessionUserId(request);
+  if (!userId) return null;
+
+  const user = await storage.getUser(userId);
+  if (!user || !["carrier", "admin", "shipper"].includes(user.role)) return null;
+  return { userId: user.id, role: user.role as MarketplaceRole };
+}
+
+function rejectUpgrade(socket: Socket, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
 
 export function setupMarketplaceWebSocket(server: Server): WebSocketServer {
   wss = new WebSocketServer({ noServer: true });
@@ -18,32 +92,53 @@ export function setupMarketplaceWebSocket(server: Server): WebSocketServer {
     const pathname = new URL(request.url || "", `http://${request.headers.host}`).pathname;
     
     if (pathname === "/ws/marketplace") {
-      wss!.handleUpgrade(request, socket, head, (ws) => {
-        wss!.emit("connection", ws, request);
-      });
+      authenticateUpgrade(request)
+        .then((identity) => {
+          if (!identity) {
+            rejectUpgrade(socket, "401 Unauthorized");
+            return;
+          }
+          wss!.handleUpgrade(request, socket, head, (ws) => {
+            wss!.emit("connection", ws, request, identity);
+          });
+        })
+        .catch((error) => {
+          console.error("Marketplace WebSocket auth error:", error);
+          rejectUpgrade(socket, "500 Internal Server Error");
+        });
     }
   });
 
-  wss.on("connection", (ws: WebSocket) => {
-    console.log("Marketplace WebSocket client connected");
+  wss.on("connection", (ws: WebSocket, _request: IncomingMessage, identity: { userId: string; role: MarketplaceRole }) => {
+    console.log(`Marketplace WebSocket client connected (${identity.role} ${identity.userId})`);
 
     const client: MarketplaceClient = {
       ws,
-      role: null,
-      userId: null,
+      role: identity.role,
+      userId: identity.userId,
+      subscriptions: new Set(),
+      resumeBuffer: [],
+      resumeRequested: false,
     };
     clients.set(ws, client);
+    setTimeout(() => {
+      if (!client.resumeRequested) flushResumeBuffer(client, null);
+    }, RESUME_WAIT_MS);
 
     ws.send(JSON.stringify({
       type: "connected",
       message: "Connected to marketplace events",
+      role: client.role,
+      userId: client.userId,
       timestamp: new Date().toISOString(),
     }));
 
     ws.on("message", (data: Buffer) => {
       try {
         const message = JSON.parse(data.toString());
-        handleClientMessage(client, message);
+        handleClientMessage(client, message).catch((error) => {
+          console.error("Marketplace WebSocket message error:", error);
+        });
       } catch (error) {
         console.error("Failed to parse WebSocket message:", error);
       }
@@ -64,17 +159,83 @@ export function setupMarketplaceWebSocket(server: Server): WebSocketServer {
   return wss;
 }
 
-function handleClientMessage(client: MarketplaceClient, message: any): void {
+/**
+ * Whether a user may follow a resource: they must be able to see its load,
+ * and invoices/negotiations are further limited to the parties involved.
+ */
+async function canSubscribe(client: MarketplaceClient, resource: SubscriptionResource, id: string): Promise<boolean> {
+  if (resource === "load") {
+    return canUserAccessLoad(client.userId, id);
+  }
+
+  if (resource === "invoice") {
+    const invoice = await storage.getInvoice(id);
+    if (!invoice) return false;
+    if (client.role === "carrier") return false;
+    if (client.role === "shipper" && invoice.shipperId !== client.userId) return false;
+    return canUserAccessLoad(client.userId, invoice.loadId);
+  }
+
+  const bid = await storage.getBid(id);
+  if (!bid) return false;
+  if (client.role === "shipper") return false;
+  if (client.role === "carrier" && bid.carrierId !== client.userId) return false;
+  return canUserAccessLoad(client.userId, bid.loadId);
+}
+
+function isSubscribed(client: MarketplaceClient, resource: SubscriptionResource, id: string | null | undefined): boolean {
+  return !!id && client.subscriptions.has(`${resource}:${id}`);
+}
+
+async function handleClientMessage(client: MarketplaceClient, message: any): Promise<void> {
   switch (message.type) {
+    // Identity comes from the session; identify only echoes it back
     case "identify":
-      client.role = message.role || null;
-      client.userId = message.userId || null;
       sendToClient(client.ws, {
         type: "identified",
         role: client.role,
+        userId: client.userId,
+        timestamp: new Date().toISOString(),
+      });
+      break;
+
+    case "subscribe": {
+      const { resource, id } = message;
+      if (!SUBSCRIPTION_RESOURCES.includes(resource) || typeof id !== "string" || !id) {
+        sendToClient(client.ws, { type: "subscription_error", resource, id, error: "Invalid subscription" });
+        break;
+      }
+      if (client.subscriptions.size >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+        sendToClient(client.ws, { type: "subscription_error", resource, id, error: "Too many subscriptions" });
+        break;
+      }
+      if (!(await canSubscribe(client, resource, id))) {
+        sendToClient(client.ws, { type: "subscription_error", resource, id, error: "Access denied" });
+        break;
+      }
+      client.subscriptions.add(`${resource}:${id}`);
+      sendToClient(client.ws, {
+        type: "subscribed",
+        resource,
+        id,
         timestamp: new Date().toISOString(),
       });
       break;
+    }
+
+    case "unsubscribe":
+      client.subscriptions.delete(`${message.resource}:${message.id}`);
+      sendToClient(client.ws, {
+        type: "unsubscribed",
+        resource: message.resource,
+        id: message.id,
+        timestamp: new Date().toISOString(),
+      });
+      break;
+
+    case "resume":
+      await resumeClient(client, Number.isInteger(message.afterSequence) ? message.afterSequence : null);
+      break;
 
     case "ping":
       sendToClient(client.ws, {
@@ -94,6 +255,111 @@ function sendToClient(ws: WebSocket, data: any): void {
   }
 }
 
+/**
+ * Log an event for one user and send it, tagged with its sequence, to each of
+ * their open sockets. If the log write fails the event still goes out live.
+ */
+function deliverToUser(userId: string, message: Record<string, any>): void {
+  storage.appendMarketplaceEvent(userId, message.type || "event", message)
+    .then((event) => ({ ...message, seq: event.sequence }))
+    .catch((error) => {
+      console.error(`[WS] Failed to log ${message.type} for user ${userId}:`, error);
+      return message;
+    })
+    .then((sequenced) => {
+      clients.forEach((client, ws) => {
+        if (client.userId !== userId) return;
+        if (client.resumeBuffer) {
+          client.resumeBuffer.push(sequenced);
+        } else {
+          sendToClient(ws, sequenced);
+        }
+      });
+    });
+}
+
+/**
+ * Logged events for a user after a sequence, as the socket messages they were.
+ * Shared by socket resume and the HTTP fallback.
+ */
+export async function getMissedMarketplaceEvents(
+  userId: string,
+  afterSequence: number,
+  limit: number = REPLAY_LIMIT
+): Promise<{ events: any[]; latestSequence: number; hasMore: boolean }> {
+  const pageSize = Math.min(Math.max(limit, 1), REPLAY_LIMIT);
+  const [logged, latestSequence] = await Promise.all([
+    storage.getMarketplaceEventsAfter(userId, afterSequence, pageSize),
+    storage.getLatestMarketplaceSequence(userId),
+  ]);
+  return {
+    events: logged.map((event) => ({ ...(event.payload as Record<string, any>), seq: event.sequence, replayed: true })),
+    latestSequence,
+    hasMore: logged.length === pageSize,
+  };
+}
+
+/**
+ * Release held-back live events. Those at or below the last replayed sequence
+ * were already sent; while more pages are to come, sequenced events stay held
+ * for the next resume.
+ */
+function flushResumeBuffer(client: MarketplaceClient, lastReplayed: number | null, hasMore: boolean = false): void {
+  const buffered = client.resumeBuffer;
+  if (!buffered) return;
+
+  if (hasMore) {
+    buffered.filter((event) => event.seq === undefined).forEach((event) => sendToClient(client.ws, event));
+    client.resumeBuffer = buffered.filter((event) => event.seq !== undefined);
+    return;
+  }
+
+  client.resumeBuffer = null;
+  buffered
+    .filter((event) => event.seq === undefined || lastReplayed === null || event.seq > lastReplayed)
+    .forEach((event) => sendToClient(client.ws, event));
+}
+
+async function resumeClient(client: MarketplaceClient, afterSequence: number | null): Promise<void> {
+  client.resumeRequested = true;
+  // A client with no history starts from the current position
+  if (afterSequence === null) {
+    sendToClient(client.ws, {
+      type: "resumed",
+      replayed: 0,
+      latestSequence: await storage.getLatestMarketplaceSequence(client.userId),
+      hasMore: false,
+      timestamp: new Date().toISOString(),
+    });
+    flushResumeBuffer(client, null);
+    return;
+  }
+
+  if (!client.resumeBuffer) {
+    client.resumeBuffer = [];
+  }
+  let lastReplayed = afterSequence;
+  let hasMore = false;
+  try {
+    const missed = await getMissedMarketplaceEvents(client.userId, afterSequence);
+    missed.events.forEach((event) => sendToClient(client.ws, event));
+    if (missed.events.length > 0) {
+      lastReplayed = missed.events[missed.events.length - 1].seq;
+    }
+    hasMore = missed.hasMore;
+
+    sendToClient(client.ws, {
+      type: "resumed",
+      replayed: missed.events.length,
+      latestSequence: missed.latestSequence,
+      hasMore,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    flushResumeBuffer(client, lastReplayed, hasMore);
+  }
+}
+
 export function broadcastLoadPosted(loadData: {
   id: string;
   pickupCity: string | null;
@@ -153,15 +419,16 @@ export function broadcastLoadUpdated(loadId: string, shipperId: string | null, s
   };
 
   clients.forEach((client, ws) => {
-    if (ws.readyState === WebSocket.OPEN) {
-      if (client.role === "admin") {
-        sendToClient(ws, message);
-      }
-      if (client.role === "shipper" && shipperId && client.userId === shipperId) {
+    // The owning shipper gets the logged copy below
+    if (ws.readyState === WebSocket.OPEN && !(shipperId && client.userId === shipperId)) {
+      if (client.role === "admin" || isSubscribed(client, "load", loadId)) {
         sendToClient(ws, message);
       }
     }
   });
+  if (shipperId) {
+    deliverToUser(shipperId, message);
+  }
   console.log(`Broadcasted load_updated (${event}) for load ${loadId}`);
 }
 
@@ -189,11 +456,7 @@ export function broadcastBidCountered(carrierId: string, loadId: string, bidData
     timestamp: new Date().toISOString(),
   };
 
-  clients.forEach((client, ws) => {
-    if (ws.readyState === WebSocket.OPEN && client.role === "carrier" && client.userId === carrierId) {
-      sendToClient(ws, message);
-    }
-  });
+  deliverToUser(carrierId, message);
   console.log(`Broadcasted bid_countered event to carrier ${carrierId}`);
 }
 
@@ -205,11 +468,7 @@ export function broadcastBidAccepted(carrierId: string, loadId: string, bidData:
     timestamp: new Date().toISOString(),
   };
 
-  clients.forEach((client, ws) => {
-    if (ws.readyState === WebSocket.OPEN && client.role === "carrier" && client.userId === carrierId) {
-      sendToClient(ws, message);
-    }
-  });
+  deliverToUser(carrierId, message);
   console.log(`Broadcasted bid_accepted event to carrier ${carrierId}`);
 }
 
@@ -222,12 +481,39 @@ export function broadcastBidRejected(carrierId: string, loadId: string, bidData:
     timestamp: new Date().toISOString(),
   };
 
+  deliverToUser(carrierId, message);
+  console.log(`Broadcasted bid_rejected event to carrier ${carrierId}`);
+}
+
+/**
+ * Sealed/auction window updates. Admins and load subscribers get the shared
+ * payload live; each participant gets a logged copy merged with their own
+ * fields (e.g. whether they won) so the close replays after a reconnect.
+ */
+export function broadcastBiddingWindowEvent(
+  loadId: string,
+  event: "bidding_window_updated" | "bidding_window_closed",
+  windowData: Record<string, any>,
+  participants: Record<string, Record<string, any>> = {},
+): void {
+  const message = {
+    type: event,
+    loadId,
+    window: windowData,
+    timestamp: new Date().toISOString(),
+  };
+
   clients.forEach((client, ws) => {
-    if (ws.readyState === WebSocket.OPEN && client.role === "carrier" && client.userId === carrierId) {
-      sendToClient(ws, message);
+    if (ws.readyState === WebSocket.OPEN && !(client.userId in participants)) {
+      if (client.role === "admin" || isSubscribed(client, "load", loadId)) {
+        sendToClient(ws, message);
+      }
     }
   });
-  console.log(`Broadcasted bid_rejected event to carrier ${carrierId}`);
+  Object.entries(participants).forEach(([userId, own]) => {
+    deliverToUser(userId, { ...message, window: { ...windowData, ...own } });
+  });
+  console.log(`Broadcasted ${event} for load ${loadId} to ${Object.keys(participants).length} participants`);
 }
 
 export function broadcastInvoiceEvent(shipperId: string, invoiceId: string, event: string, invoiceData?: any): void {
@@ -239,23 +525,21 @@ export function broadcastInvoiceEvent(shipperId: string, invoiceId: string, even
     timestamp: new Date().toISOString(),
   };
 
-  let sentToShipper = false;
+  const toShipper = event === "invoice_sent";
   clients.forEach((client, ws) => {
-    if (ws.readyState === WebSocket.OPEN) {
-      // Send invoice_sent to shipper
-      if (event === "invoice_sent" && client.role === "shipper" && client.userId === shipperId) {
-        console.log(`[WS] Sending invoice_sent to shipper ${shipperId} (connected as ${client.userId})`);
-        sendToClient(ws, message);
-        sentToShipper = true;
-      }
-      // Send all shipper activity events to admin for real-time tracking
+    if (ws.readyState === WebSocket.OPEN && !(toShipper && client.userId === shipperId)) {
       if (["invoice_viewed", "invoice_opened", "invoice_acknowledged", "invoice_paid", "invoice_countered"].includes(event) && client.role === "admin") {
+        // Send all shipper activity events to admin for real-time tracking
+        sendToClient(ws, message);
+      } else if (isSubscribed(client, "invoice", invoiceId)) {
+        // Anyone following this invoice gets every event
         sendToClient(ws, message);
       }
     }
   });
-  if (event === "invoice_sent" && !sentToShipper) {
-    console.log(`[WS] Shipper ${shipperId} not connected - invoice_sent event will be seen on page refresh`);
+  // Send invoice_sent to shipper; logged so it replays if they are offline
+  if (toShipper) {
+    deliverToUser(shipperId, message);
   }
   console.log(`Broadcasted invoice_${event} event for invoice ${invoiceId}`);
 }
@@ -269,12 +553,15 @@ export function broadcastNegotiationMessage(targetRole: "carrier" | "admin", tar
   };
 
   clients.forEach((client, ws) => {
-    if (ws.readyState === WebSocket.OPEN && client.role === targetRole) {
-      if (targetUserId === null || client.userId === targetUserId) {
+    if (ws.readyState === WebSocket.OPEN && client.userId !== targetUserId) {
+      if ((client.role === targetRole && targetUserId === null) || isSubscribed(client, "negotiation", bidId)) {
         sendToClient(ws, message);
       }
     }
   });
+  if (targetUserId) {
+    deliverToUser(targetUserId, message);
+  }
   console.log(`Broadcasted negotiation_message to ${targetRole}`);
 }
 
@@ -291,11 +578,7 @@ export function broadcastVerificationStatus(carrierId: string, status: "approved
     timestamp: new Date().toISOString(),
   };
 
-  clients.forEach((client, ws) => {
-    if (ws.readyState === WebSocket.OPEN && client.role === "carrier" && client.userId === carrierId) {
-      sendToClient(ws, message);
-    }
-  });
+  deliverToUser(carrierId, message);
   console.log(`Broadcasted verification_status_changed (${status}) to carrier ${carrierId}`);
 }
 
@@ -322,14 +605,8 @@ export function broadcastToUser(userId: string, data: any): void {
     timestamp: new Date().toISOString(),
   };
 
-  let sentCount = 0;
-  clients.forEach((client, ws) => {
-    if (ws.readyState === WebSocket.OPEN && client.userId === userId) {
-      sendToClient(ws, message);
-      sentCount++;
-    }
-  });
-  console.log(`Broadcasted ${data.type || 'event'} to user ${userId} (${sentCount} connections)`);
+  deliverToUser(userId, message);
+  console.log(`Broadcasted ${data.type || 'event'} to user ${userId}`);
 }
 
 // Broadcast new rating received to carrier
@@ -355,12 +632,6 @@ export function broadcastRatingReceived(carrierId: string, ratingData: {
     timestamp: new Date().toISOString(),
   };
 
-  let sentCount = 0;
-  clients.forEach((client, ws) => {
-    if (ws.readyState === WebSocket.OPEN && client.role === "carrier" && client.userId === carrierId) {
-      sendToClient(ws, message);
-      sentCount++;
-    }
-  });
-  console.log(`Broadcasted rating_received to carrier ${carrierId} (${sentCount} connections)`);
+  deliverToUser(carrierId, message);
+  console.log(`Broadcasted rating_received to carrier ${carrierId}`);
 }
@@ -1,16 +1,17 @@
 import { WebSocketServer, WebSocket } from "ws";
 import type { Server, IncomingMessage } from "http";
 import type { Socket } from "net";
+import type { LiveTelemetryData } from "@shared/schema";
 import {
-  startTelemetrySimulation,
   getAllVehiclesTelemetry,
   getVehicleTelemetry,
   getEtaPrediction,
   getGpsBreadcrumbs,
-  getDriverBehaviorScore,
   checkTelemetryAlerts,
   getActiveVehicleIds,
-} from "./telemetry-simulator";
+  onPositionUpdate,
+} from "./telemetry-hub";
+import { getDriverBehaviorScore } from "./telemetry-simulator";
 
 interface TelemetryClient {
   ws: WebSocket;
@@ -36,8 +37,8 @@ export function setupTelemetryWebSocket(server: Server): WebSocketServer {
     // Don't destroy socket for other paths - let Vite handle them
   });
 
-  // Start the telemetry simulation
-  startTelemetrySimulation();
+  // Device fixes are pushed as they arrive, between the periodic broadcasts
+  onPositionUpdate(broadcastPositionUpdate);
 
   wss.on("connection", (ws: WebSocket) => {
     console.log("Telemetry WebSocket client connected");
@@ -143,13 +144,16 @@ function handleClientMessage(client: TelemetryClient, message: any): void {
 
     case "get_breadcrumbs":
       if (message.vehicleId) {
-        const breadcrumbs = getGpsBreadcrumbs(message.vehicleId, message.minutes || 10);
-        sendToClient(client.ws, {
-          type: "breadcrumbs",
-          vehicleId: message.vehicleId,
-          data: breadcrumbs,
-          timestamp: new Date().toISOString(),
-        });
+        getGpsBreadcrumbs(message.vehicleId, message.minutes || 10)
+          .then((breadcrumbs) => {
+            sendToClient(client.ws, {
+              type: "breadcrumbs",
+              vehicleId: message.vehicleId,
+              data: breadcrumbs,
+              timestamp: new Date().toISOString(),
+            });
+          })
+          .catch((error) => console.error("Get breadcrumbs error:", error));
       }
       break;
 
@@ -195,6 +199,22 @@ function sendToClient(ws: WebSocket, data: any): void {
   }
 }
 
+function broadcastPositionUpdate(telemetry: LiveTelemetryData): void {
+  clients.forEach((client, ws) => {
+    if (!client.subscribeAll && !client.subscribedVehicles.has(telemetry.vehicleId)) return;
+    sendToClient(ws, {
+      type: "position_update",
+      vehicleId: telemetry.vehicleId,
+      loadId: telemetry.loadId || null,
+      lat: telemetry.gps.lat,
+      lng: telemetry.gps.lng,
+      speed: telemetry.speed,
+      heading: telemetry.heading,
+      timestamp: telemetry.timestamp,
+    });
+  });
+}
+
 function broadcastTelemetry(): void {
   const allTelemetry = getAllVehiclesTelemetry();
   const alertsByVehicle: Map<string, string[]> = new Map();
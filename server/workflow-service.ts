@@ -614,10 +614,10 @@ export async function canUserBidOnLoad(userId: string, loadId: string): Promise<
     return { allowed: false, reason: eligibility.reasons.join(", ") };
   }
 
-  // Check if carrier already has an active bid
+  // Check if carrier already has an active bid (auction bidders may undercut their own bid)
   const existingBids = await storage.getBidsByLoad(loadId);
   const carrierBid = existingBids.find(b => b.carrierId === userId && b.status === "pending");
-  if (carrierBid) {
+  if (carrierBid && load.adminPostMode !== "auction") {
     return { allowed: false, reason: "You already have a pending bid on this load" };
   }
 
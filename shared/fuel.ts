@@ -0,0 +1,64 @@
+/**
+ * Diesel Price Adjustment
+ *
+ * Freight is priced against the diesel index on the pricing date. If diesel
+ * moves before pickup, the invoice carries the difference for the fuel the
+ * trip will burn:
+ *
+ *   adjustment = (distanceKm / mileageKmpl) * (pickupIndex - pricingIndex)
+ *
+ * A negative adjustment is a credit to the shipper.
+ */
+
+import { indianTruckTypes } from "./schema";
+
+type TruckCategory = typeof indianTruckTypes[number]["category"];
+
+// Loaded mileage (km per litre) by truck category
+export const TRUCK_MILEAGE_KMPL: Record<TruckCategory, number> = {
+  mini_pickup: 14,
+  lcv: 11,
+  open: 4.5,
+  closed: 4.5,
+  container: 3.5,
+  tipper: 3.5,
+  tanker: 3.5,
+  bulker: 3.2,
+  dumper: 3,
+  trailer: 2.8,
+};
+
+// Used when the truck type is unknown (typical 10-wheeler)
+export const DEFAULT_MILEAGE_KMPL = 4;
+
+// National average row in the diesel index
+export const NATIONAL_DIESEL_REGION = "IN";
+
+export function getTruckMileage(truckType: string | null | undefined): number {
+  const truck = indianTruckTypes.find(t => t.value === truckType);
+  return truck ? TRUCK_MILEAGE_KMPL[truck.category] : DEFAULT_MILEAGE_KMPL;
+}
+
+export interface DieselAdjustmentResult {
+  mileageKmpl: number;
+  litres: number;
+  priceDelta: number;     // Rs./litre, pickup minus pricing
+  adjustment: number;     // Rs., rounded to the rupee
+}
+
+export function calculateDieselAdjustment(input: {
+  distanceKm: number;
+  truckType?: string | null;
+  pricingIndexPrice: number;
+  pickupIndexPrice: number;
+}): DieselAdjustmentResult {
+  const mileageKmpl = getTruckMileage(input.truckType);
+  const litres = input.distanceKm > 0 ? input.distanceKm / mileageKmpl : 0;
+  const priceDelta = Math.round((input.pickupIndexPrice - input.pricingIndexPrice) * 100) / 100;
+  return {
+    mileageKmpl,
+    litres: Math.round(litres * 10) / 10,
+    priceDelta,
+    adjustment: Math.round(litres * priceDelta),
+  };
+}
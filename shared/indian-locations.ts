@@ -4,6 +4,8 @@
 export interface City {
   name: string;
   isMetro?: boolean; // Major metropolitan city
+  lat: number; // City centre, WGS84
+  lng: number;
 }
 
 export interface IndianState {
@@ -17,589 +19,589 @@ export const indianStates: IndianState[] = [
     code: "AN",
     name: "Andaman and Nicobar Islands",
     cities: [
-      { name: "Port Blair", isMetro: false },
+      { name: "Port Blair", isMetro: false, lat: 11.62, lng: 92.73 },
     ]
   },
   {
     code: "AP",
     name: "Andhra Pradesh",
     cities: [
-      { name: "Visakhapatnam", isMetro: true },
-      { name: "Vijayawada", isMetro: true },
-      { name: "Guntur" },
-      { name: "Nellore" },
-      { name: "Kurnool" },
-      { name: "Tirupati" },
-      { name: "Rajahmundry" },
-      { name: "Kakinada" },
-      { name: "Kadapa" },
-      { name: "Anantapur" },
-      { name: "Eluru" },
-      { name: "Ongole" },
-      { name: "Nandyal" },
-      { name: "Machilipatnam" },
-      { name: "Adoni" },
-      { name: "Tenali" },
-      { name: "Chittoor" },
-      { name: "Proddatur" },
-      { name: "Hindupur" },
-      { name: "Bhimavaram" },
+      { name: "Visakhapatnam", isMetro: true, lat: 17.69, lng: 83.22 },
+      { name: "Vijayawada", isMetro: true, lat: 16.51, lng: 80.65 },
+      { name: "Guntur", lat: 16.31, lng: 80.44 },
+      { name: "Nellore", lat: 14.44, lng: 79.99 },
+      { name: "Kurnool", lat: 15.83, lng: 78.04 },
+      { name: "Tirupati", lat: 13.63, lng: 79.42 },
+      { name: "Rajahmundry", lat: 17.00, lng: 81.80 },
+      { name: "Kakinada", lat: 16.99, lng: 82.25 },
+      { name: "Kadapa", lat: 14.47, lng: 78.82 },
+      { name: "Anantapur", lat: 14.68, lng: 77.60 },
+      { name: "Eluru", lat: 16.71, lng: 81.10 },
+      { name: "Ongole", lat: 15.51, lng: 80.05 },
+      { name: "Nandyal", lat: 15.48, lng: 78.48 },
+      { name: "Machilipatnam", lat: 16.19, lng: 81.14 },
+      { name: "Adoni", lat: 15.63, lng: 77.28 },
+      { name: "Tenali", lat: 16.24, lng: 80.64 },
+      { name: "Chittoor", lat: 13.22, lng: 79.10 },
+      { name: "Proddatur", lat: 14.75, lng: 78.55 },
+      { name: "Hindupur", lat: 13.83, lng: 77.49 },
+      { name: "Bhimavaram", lat: 16.54, lng: 81.52 },
     ]
   },
   {
     code: "AR",
     name: "Arunachal Pradesh",
     cities: [
-      { name: "Itanagar" },
-      { name: "Naharlagun" },
-      { name: "Pasighat" },
-      { name: "Tawang" },
+      { name: "Itanagar", lat: 27.08, lng: 93.61 },
+      { name: "Naharlagun", lat: 27.10, lng: 93.69 },
+      { name: "Pasighat", lat: 28.07, lng: 95.33 },
+      { name: "Tawang", lat: 27.59, lng: 91.86 },
     ]
   },
   {
     code: "AS",
     name: "Assam",
     cities: [
-      { name: "Guwahati", isMetro: true },
-      { name: "Silchar" },
-      { name: "Dibrugarh" },
-      { name: "Jorhat" },
-      { name: "Nagaon" },
-      { name: "Tinsukia" },
-      { name: "Tezpur" },
-      { name: "Bongaigaon" },
+      { name: "Guwahati", isMetro: true, lat: 26.14, lng: 91.74 },
+      { name: "Silchar", lat: 24.83, lng: 92.78 },
+      { name: "Dibrugarh", lat: 27.47, lng: 94.91 },
+      { name: "Jorhat", lat: 26.75, lng: 94.20 },
+      { name: "Nagaon", lat: 26.35, lng: 92.68 },
+      { name: "Tinsukia", lat: 27.49, lng: 95.36 },
+      { name: "Tezpur", lat: 26.63, lng: 92.80 },
+      { name: "Bongaigaon", lat: 26.48, lng: 90.56 },
     ]
   },
   {
     code: "BR",
     name: "Bihar",
     cities: [
-      { name: "Patna", isMetro: true },
-      { name: "Gaya" },
-      { name: "Bhagalpur" },
-      { name: "Muzaffarpur" },
-      { name: "Darbhanga" },
-      { name: "Bihar Sharif" },
-      { name: "Arrah" },
-      { name: "Begusarai" },
-      { name: "Katihar" },
-      { name: "Munger" },
-      { name: "Purnia" },
-      { name: "Saharsa" },
-      { name: "Hajipur" },
-      { name: "Sasaram" },
-      { name: "Bettiah" },
-      { name: "Samastipur" },
+      { name: "Patna", isMetro: true, lat: 25.59, lng: 85.14 },
+      { name: "Gaya", lat: 24.80, lng: 85.00 },
+      { name: "Bhagalpur", lat: 25.24, lng: 86.98 },
+      { name: "Muzaffarpur", lat: 26.12, lng: 85.39 },
+      { name: "Darbhanga", lat: 26.15, lng: 85.90 },
+      { name: "Bihar Sharif", lat: 25.20, lng: 85.52 },
+      { name: "Arrah", lat: 25.56, lng: 84.66 },
+      { name: "Begusarai", lat: 25.42, lng: 86.13 },
+      { name: "Katihar", lat: 25.54, lng: 87.58 },
+      { name: "Munger", lat: 25.38, lng: 86.47 },
+      { name: "Purnia", lat: 25.78, lng: 87.47 },
+      { name: "Saharsa", lat: 25.88, lng: 86.60 },
+      { name: "Hajipur", lat: 25.69, lng: 85.22 },
+      { name: "Sasaram", lat: 24.95, lng: 84.03 },
+      { name: "Bettiah", lat: 26.80, lng: 84.50 },
+      { name: "Samastipur", lat: 25.86, lng: 85.78 },
     ]
   },
   {
     code: "CG",
     name: "Chhattisgarh",
     cities: [
-      { name: "Raipur", isMetro: true },
-      { name: "Bhilai" },
-      { name: "Bilaspur" },
-      { name: "Korba" },
-      { name: "Durg" },
-      { name: "Rajnandgaon" },
-      { name: "Raigarh" },
-      { name: "Jagdalpur" },
-      { name: "Ambikapur" },
+      { name: "Raipur", isMetro: true, lat: 21.25, lng: 81.63 },
+      { name: "Bhilai", lat: 21.19, lng: 81.38 },
+      { name: "Bilaspur", lat: 22.08, lng: 82.15 },
+      { name: "Korba", lat: 22.35, lng: 82.68 },
+      { name: "Durg", lat: 21.19, lng: 81.28 },
+      { name: "Rajnandgaon", lat: 21.10, lng: 81.03 },
+      { name: "Raigarh", lat: 21.90, lng: 83.40 },
+      { name: "Jagdalpur", lat: 19.08, lng: 82.02 },
+      { name: "Ambikapur", lat: 23.12, lng: 83.20 },
     ]
   },
   {
     code: "CH",
     name: "Chandigarh",
     cities: [
-      { name: "Chandigarh", isMetro: true },
+      { name: "Chandigarh", isMetro: true, lat: 30.73, lng: 76.78 },
     ]
   },
   {
     code: "DD",
     name: "Dadra and Nagar Haveli and Daman and Diu",
     cities: [
-      { name: "Silvassa" },
-      { name: "Daman" },
-      { name: "Diu" },
+      { name: "Silvassa", lat: 20.27, lng: 73.01 },
+      { name: "Daman", lat: 20.40, lng: 72.83 },
+      { name: "Diu", lat: 20.71, lng: 70.99 },
     ]
   },
   {
     code: "DL",
     name: "Delhi",
     cities: [
-      { name: "New Delhi", isMetro: true },
-      { name: "North Delhi", isMetro: true },
-      { name: "South Delhi", isMetro: true },
-      { name: "East Delhi", isMetro: true },
-      { name: "West Delhi", isMetro: true },
-      { name: "Central Delhi", isMetro: true },
+      { name: "New Delhi", isMetro: true, lat: 28.61, lng: 77.21 },
+      { name: "North Delhi", isMetro: true, lat: 28.70, lng: 77.20 },
+      { name: "South Delhi", isMetro: true, lat: 28.53, lng: 77.22 },
+      { name: "East Delhi", isMetro: true, lat: 28.62, lng: 77.30 },
+      { name: "West Delhi", isMetro: true, lat: 28.65, lng: 77.10 },
+      { name: "Central Delhi", isMetro: true, lat: 28.64, lng: 77.23 },
     ]
   },
   {
     code: "GA",
     name: "Goa",
     cities: [
-      { name: "Panaji" },
-      { name: "Margao" },
-      { name: "Vasco da Gama" },
-      { name: "Mapusa" },
-      { name: "Ponda" },
+      { name: "Panaji", lat: 15.49, lng: 73.83 },
+      { name: "Margao", lat: 15.28, lng: 73.96 },
+      { name: "Vasco da Gama", lat: 15.40, lng: 73.81 },
+      { name: "Mapusa", lat: 15.59, lng: 73.81 },
+      { name: "Ponda", lat: 15.40, lng: 74.01 },
     ]
   },
   {
     code: "GJ",
     name: "Gujarat",
     cities: [
-      { name: "Ahmedabad", isMetro: true },
-      { name: "Surat", isMetro: true },
-      { name: "Vadodara", isMetro: true },
-      { name: "Rajkot", isMetro: true },
-      { name: "Bhavnagar" },
-      { name: "Jamnagar" },
-      { name: "Junagadh" },
-      { name: "Gandhinagar" },
-      { name: "Gandhidham" },
-      { name: "Anand" },
-      { name: "Navsari" },
-      { name: "Morbi" },
-      { name: "Nadiad" },
-      { name: "Surendranagar" },
-      { name: "Bharuch" },
-      { name: "Mehsana" },
-      { name: "Valsad" },
-      { name: "Vapi" },
-      { name: "Porbandar" },
-      { name: "Mundra" },
+      { name: "Ahmedabad", isMetro: true, lat: 23.02, lng: 72.57 },
+      { name: "Surat", isMetro: true, lat: 21.17, lng: 72.83 },
+      { name: "Vadodara", isMetro: true, lat: 22.31, lng: 73.18 },
+      { name: "Rajkot", isMetro: true, lat: 22.30, lng: 70.80 },
+      { name: "Bhavnagar", lat: 21.76, lng: 72.15 },
+      { name: "Jamnagar", lat: 22.47, lng: 70.06 },
+      { name: "Junagadh", lat: 21.52, lng: 70.46 },
+      { name: "Gandhinagar", lat: 23.22, lng: 72.65 },
+      { name: "Gandhidham", lat: 23.08, lng: 70.13 },
+      { name: "Anand", lat: 22.56, lng: 72.95 },
+      { name: "Navsari", lat: 20.95, lng: 72.92 },
+      { name: "Morbi", lat: 22.82, lng: 70.84 },
+      { name: "Nadiad", lat: 22.69, lng: 72.86 },
+      { name: "Surendranagar", lat: 22.73, lng: 71.64 },
+      { name: "Bharuch", lat: 21.71, lng: 72.98 },
+      { name: "Mehsana", lat: 23.60, lng: 72.39 },
+      { name: "Valsad", lat: 20.61, lng: 72.93 },
+      { name: "Vapi", lat: 20.37, lng: 72.90 },
+      { name: "Porbandar", lat: 21.64, lng: 69.61 },
+      { name: "Mundra", lat: 22.84, lng: 69.72 },
     ]
   },
   {
     code: "HR",
     name: "Haryana",
     cities: [
-      { name: "Faridabad", isMetro: true },
-      { name: "Gurugram", isMetro: true },
-      { name: "Panipat" },
-      { name: "Ambala" },
-      { name: "Yamunanagar" },
-      { name: "Rohtak" },
-      { name: "Hisar" },
-      { name: "Karnal" },
-      { name: "Sonipat" },
-      { name: "Panchkula" },
-      { name: "Bhiwani" },
-      { name: "Sirsa" },
-      { name: "Rewari" },
-      { name: "Palwal" },
-      { name: "Bahadurgarh" },
-      { name: "Jind" },
-      { name: "Kaithal" },
+      { name: "Faridabad", isMetro: true, lat: 28.41, lng: 77.32 },
+      { name: "Gurugram", isMetro: true, lat: 28.46, lng: 77.03 },
+      { name: "Panipat", lat: 29.39, lng: 76.97 },
+      { name: "Ambala", lat: 30.38, lng: 76.78 },
+      { name: "Yamunanagar", lat: 30.13, lng: 77.29 },
+      { name: "Rohtak", lat: 28.90, lng: 76.61 },
+      { name: "Hisar", lat: 29.15, lng: 75.72 },
+      { name: "Karnal", lat: 29.69, lng: 76.99 },
+      { name: "Sonipat", lat: 28.99, lng: 77.02 },
+      { name: "Panchkula", lat: 30.69, lng: 76.86 },
+      { name: "Bhiwani", lat: 28.79, lng: 76.13 },
+      { name: "Sirsa", lat: 29.53, lng: 75.03 },
+      { name: "Rewari", lat: 28.20, lng: 76.62 },
+      { name: "Palwal", lat: 28.14, lng: 77.33 },
+      { name: "Bahadurgarh", lat: 28.69, lng: 76.93 },
+      { name: "Jind", lat: 29.32, lng: 76.32 },
+      { name: "Kaithal", lat: 29.80, lng: 76.40 },
     ]
   },
   {
     code: "HP",
     name: "Himachal Pradesh",
     cities: [
-      { name: "Shimla" },
-      { name: "Dharamsala" },
-      { name: "Solan" },
-      { name: "Mandi" },
-      { name: "Palampur" },
-      { name: "Baddi" },
-      { name: "Nahan" },
-      { name: "Kullu" },
-      { name: "Bilaspur" },
-      { name: "Una" },
+      { name: "Shimla", lat: 31.10, lng: 77.17 },
+      { name: "Dharamsala", lat: 32.22, lng: 76.32 },
+      { name: "Solan", lat: 30.90, lng: 77.10 },
+      { name: "Mandi", lat: 31.71, lng: 76.93 },
+      { name: "Palampur", lat: 32.11, lng: 76.54 },
+      { name: "Baddi", lat: 30.96, lng: 76.79 },
+      { name: "Nahan", lat: 30.56, lng: 77.30 },
+      { name: "Kullu", lat: 31.96, lng: 77.11 },
+      { name: "Bilaspur", lat: 31.34, lng: 76.76 },
+      { name: "Una", lat: 31.47, lng: 76.27 },
     ]
   },
   {
     code: "JK",
     name: "Jammu and Kashmir",
     cities: [
-      { name: "Srinagar", isMetro: true },
-      { name: "Jammu", isMetro: true },
-      { name: "Anantnag" },
-      { name: "Baramulla" },
-      { name: "Sopore" },
-      { name: "Udhampur" },
-      { name: "Kathua" },
+      { name: "Srinagar", isMetro: true, lat: 34.08, lng: 74.80 },
+      { name: "Jammu", isMetro: true, lat: 32.73, lng: 74.86 },
+      { name: "Anantnag", lat: 33.73, lng: 75.15 },
+      { name: "Baramulla", lat: 34.20, lng: 74.34 },
+      { name: "Sopore", lat: 34.30, lng: 74.47 },
+      { name: "Udhampur", lat: 32.92, lng: 75.14 },
+      { name: "Kathua", lat: 32.37, lng: 75.52 },
     ]
   },
   {
     code: "JH",
     name: "Jharkhand",
     cities: [
-      { name: "Ranchi", isMetro: true },
-      { name: "Jamshedpur", isMetro: true },
-      { name: "Dhanbad" },
-      { name: "Bokaro Steel City" },
-      { name: "Hazaribagh" },
-      { name: "Deoghar" },
-      { name: "Giridih" },
-      { name: "Ramgarh" },
-      { name: "Phusro" },
-      { name: "Chaibasa" },
+      { name: "Ranchi", isMetro: true, lat: 23.34, lng: 85.31 },
+      { name: "Jamshedpur", isMetro: true, lat: 22.80, lng: 86.20 },
+      { name: "Dhanbad", lat: 23.80, lng: 86.43 },
+      { name: "Bokaro Steel City", lat: 23.67, lng: 86.15 },
+      { name: "Hazaribagh", lat: 23.99, lng: 85.36 },
+      { name: "Deoghar", lat: 24.48, lng: 86.70 },
+      { name: "Giridih", lat: 24.19, lng: 86.30 },
+      { name: "Ramgarh", lat: 23.63, lng: 85.52 },
+      { name: "Phusro", lat: 23.77, lng: 86.00 },
+      { name: "Chaibasa", lat: 22.55, lng: 85.81 },
     ]
   },
   {
     code: "KA",
     name: "Karnataka",
     cities: [
-      { name: "Bengaluru", isMetro: true },
-      { name: "Mysuru", isMetro: true },
-      { name: "Mangaluru" },
-      { name: "Hubli-Dharwad" },
-      { name: "Belagavi" },
-      { name: "Gulbarga" },
-      { name: "Davangere" },
-      { name: "Bellary" },
-      { name: "Shimoga" },
-      { name: "Tumkur" },
-      { name: "Bijapur" },
-      { name: "Raichur" },
-      { name: "Bidar" },
-      { name: "Hospet" },
-      { name: "Gadag" },
-      { name: "Hassan" },
-      { name: "Udupi" },
-      { name: "Mandya" },
-      { name: "Chikmagalur" },
-      { name: "Karwar" },
+      { name: "Bengaluru", isMetro: true, lat: 12.97, lng: 77.59 },
+      { name: "Mysuru", isMetro: true, lat: 12.30, lng: 76.64 },
+      { name: "Mangaluru", lat: 12.91, lng: 74.86 },
+      { name: "Hubli-Dharwad", lat: 15.36, lng: 75.12 },
+      { name: "Belagavi", lat: 15.85, lng: 74.50 },
+      { name: "Gulbarga", lat: 17.33, lng: 76.83 },
+      { name: "Davangere", lat: 14.46, lng: 75.92 },
+      { name: "Bellary", lat: 15.14, lng: 76.92 },
+      { name: "Shimoga", lat: 13.93, lng: 75.57 },
+      { name: "Tumkur", lat: 13.34, lng: 77.10 },
+      { name: "Bijapur", lat: 16.83, lng: 75.71 },
+      { name: "Raichur", lat: 16.21, lng: 77.36 },
+      { name: "Bidar", lat: 17.91, lng: 77.52 },
+      { name: "Hospet", lat: 15.27, lng: 76.39 },
+      { name: "Gadag", lat: 15.43, lng: 75.63 },
+      { name: "Hassan", lat: 13.01, lng: 76.10 },
+      { name: "Udupi", lat: 13.34, lng: 74.75 },
+      { name: "Mandya", lat: 12.52, lng: 76.90 },
+      { name: "Chikmagalur", lat: 13.32, lng: 75.77 },
+      { name: "Karwar", lat: 14.81, lng: 74.13 },
     ]
   },
   {
     code: "KL",
     name: "Kerala",
     cities: [
-      { name: "Kochi", isMetro: true },
-      { name: "Thiruvananthapuram", isMetro: true },
-      { name: "Kozhikode", isMetro: true },
-      { name: "Thrissur" },
-      { name: "Kollam" },
-      { name: "Kannur" },
-      { name: "Alappuzha" },
-      { name: "Palakkad" },
-      { name: "Kottayam" },
-      { name: "Malappuram" },
-      { name: "Pathanamthitta" },
-      { name: "Idukki" },
-      { name: "Wayanad" },
-      { name: "Kasaragod" },
+      { name: "Kochi", isMetro: true, lat: 9.93, lng: 76.27 },
+      { name: "Thiruvananthapuram", isMetro: true, lat: 8.52, lng: 76.94 },
+      { name: "Kozhikode", isMetro: true, lat: 11.26, lng: 75.78 },
+      { name: "Thrissur", lat: 10.53, lng: 76.21 },
+      { name: "Kollam", lat: 8.89, lng: 76.61 },
+      { name: "Kannur", lat: 11.87, lng: 75.37 },
+      { name: "Alappuzha", lat: 9.50, lng: 76.34 },
+      { name: "Palakkad", lat: 10.79, lng: 76.65 },
+      { name: "Kottayam", lat: 9.59, lng: 76.52 },
+      { name: "Malappuram", lat: 11.05, lng: 76.07 },
+      { name: "Pathanamthitta", lat: 9.26, lng: 76.79 },
+      { name: "Idukki", lat: 9.85, lng: 76.97 },
+      { name: "Wayanad", lat: 11.69, lng: 76.08 },
+      { name: "Kasaragod", lat: 12.50, lng: 74.99 },
     ]
   },
   {
     code: "LA",
     name: "Ladakh",
     cities: [
-      { name: "Leh" },
-      { name: "Kargil" },
+      { name: "Leh", lat: 34.15, lng: 77.58 },
+      { name: "Kargil", lat: 34.56, lng: 76.13 },
     ]
   },
   {
     code: "MP",
     name: "Madhya Pradesh",
     cities: [
-      { name: "Indore", isMetro: true },
-      { name: "Bhopal", isMetro: true },
-      { name: "Jabalpur" },
-      { name: "Gwalior" },
-      { name: "Ujjain" },
-      { name: "Sagar" },
-      { name: "Dewas" },
-      { name: "Satna" },
-      { name: "Ratlam" },
-      { name: "Rewa" },
-      { name: "Murwara" },
-      { name: "Singrauli" },
-      { name: "Burhanpur" },
-      { name: "Khandwa" },
-      { name: "Bhind" },
-      { name: "Chhindwara" },
-      { name: "Guna" },
-      { name: "Shivpuri" },
-      { name: "Vidisha" },
-      { name: "Damoh" },
+      { name: "Indore", isMetro: true, lat: 22.72, lng: 75.86 },
+      { name: "Bhopal", isMetro: true, lat: 23.26, lng: 77.41 },
+      { name: "Jabalpur", lat: 23.18, lng: 79.99 },
+      { name: "Gwalior", lat: 26.22, lng: 78.18 },
+      { name: "Ujjain", lat: 23.18, lng: 75.78 },
+      { name: "Sagar", lat: 23.84, lng: 78.74 },
+      { name: "Dewas", lat: 22.97, lng: 76.05 },
+      { name: "Satna", lat: 24.60, lng: 80.83 },
+      { name: "Ratlam", lat: 23.33, lng: 75.04 },
+      { name: "Rewa", lat: 24.53, lng: 81.30 },
+      { name: "Murwara", lat: 23.83, lng: 80.39 },
+      { name: "Singrauli", lat: 24.20, lng: 82.67 },
+      { name: "Burhanpur", lat: 21.31, lng: 76.23 },
+      { name: "Khandwa", lat: 21.82, lng: 76.35 },
+      { name: "Bhind", lat: 26.56, lng: 78.79 },
+      { name: "Chhindwara", lat: 22.06, lng: 78.94 },
+      { name: "Guna", lat: 24.65, lng: 77.31 },
+      { name: "Shivpuri", lat: 25.42, lng: 77.66 },
+      { name: "Vidisha", lat: 23.52, lng: 77.81 },
+      { name: "Damoh", lat: 23.83, lng: 79.44 },
     ]
   },
   {
     code: "MH",
     name: "Maharashtra",
     cities: [
-      { name: "Mumbai", isMetro: true },
-      { name: "Pune", isMetro: true },
-      { name: "Nagpur", isMetro: true },
-      { name: "Thane", isMetro: true },
-      { name: "Nashik" },
-      { name: "Aurangabad" },
-      { name: "Solapur" },
-      { name: "Kolhapur" },
-      { name: "Amravati" },
-      { name: "Navi Mumbai", isMetro: true },
-      { name: "Pimpri-Chinchwad", isMetro: true },
-      { name: "Akola" },
-      { name: "Latur" },
-      { name: "Dhule" },
-      { name: "Ahmednagar" },
-      { name: "Chandrapur" },
-      { name: "Parbhani" },
-      { name: "Jalgaon" },
-      { name: "Bhiwandi" },
-      { name: "Nanded" },
-      { name: "Sangli" },
-      { name: "Malegaon" },
-      { name: "Satara" },
-      { name: "Ratnagiri" },
-      { name: "Wardha" },
+      { name: "Mumbai", isMetro: true, lat: 19.08, lng: 72.88 },
+      { name: "Pune", isMetro: true, lat: 18.52, lng: 73.86 },
+      { name: "Nagpur", isMetro: true, lat: 21.15, lng: 79.09 },
+      { name: "Thane", isMetro: true, lat: 19.22, lng: 72.98 },
+      { name: "Nashik", lat: 20.00, lng: 73.79 },
+      { name: "Aurangabad", lat: 19.88, lng: 75.34 },
+      { name: "Solapur", lat: 17.66, lng: 75.91 },
+      { name: "Kolhapur", lat: 16.70, lng: 74.24 },
+      { name: "Amravati", lat: 20.93, lng: 77.75 },
+      { name: "Navi Mumbai", isMetro: true, lat: 19.03, lng: 73.03 },
+      { name: "Pimpri-Chinchwad", isMetro: true, lat: 18.63, lng: 73.80 },
+      { name: "Akola", lat: 20.70, lng: 77.00 },
+      { name: "Latur", lat: 18.41, lng: 76.56 },
+      { name: "Dhule", lat: 20.90, lng: 74.77 },
+      { name: "Ahmednagar", lat: 19.09, lng: 74.74 },
+      { name: "Chandrapur", lat: 19.96, lng: 79.30 },
+      { name: "Parbhani", lat: 19.26, lng: 76.77 },
+      { name: "Jalgaon", lat: 21.00, lng: 75.56 },
+      { name: "Bhiwandi", lat: 19.30, lng: 73.06 },
+      { name: "Nanded", lat: 19.14, lng: 77.32 },
+      { name: "Sangli", lat: 16.85, lng: 74.58 },
+      { name: "Malegaon", lat: 20.55, lng: 74.53 },
+      { name: "Satara", lat: 17.68, lng: 74.02 },
+      { name: "Ratnagiri", lat: 16.99, lng: 73.30 },
+      { name: "Wardha", lat: 20.74, lng: 78.60 },
     ]
   },
   {
     code: "MN",
     name: "Manipur",
     cities: [
-      { name: "Imphal" },
-      { name: "Thoubal" },
-      { name: "Bishnupur" },
+      { name: "Imphal", lat: 24.82, lng: 93.94 },
+      { name: "Thoubal", lat: 24.64, lng: 94.00 },
+      { name: "Bishnupur", lat: 24.63, lng: 93.76 },
     ]
   },
   {
     code: "ML",
     name: "Meghalaya",
     cities: [
-      { name: "Shillong" },
-      { name: "Tura" },
-      { name: "Jowai" },
+      { name: "Shillong", lat: 25.58, lng: 91.89 },
+      { name: "Tura", lat: 25.51, lng: 90.22 },
+      { name: "Jowai", lat: 25.45, lng: 92.20 },
     ]
   },
   {
     code: "MZ",
     name: "Mizoram",
     cities: [
-      { name: "Aizawl" },
-      { name: "Lunglei" },
-      { name: "Champhai" },
+      { name: "Aizawl", lat: 23.73, lng: 92.72 },
+      { name: "Lunglei", lat: 22.88, lng: 92.73 },
+      { name: "Champhai", lat: 23.47, lng: 93.33 },
     ]
   },
   {
     code: "NL",
     name: "Nagaland",
     cities: [
-      { name: "Kohima" },
-      { name: "Dimapur" },
-      { name: "Mokokchung" },
+      { name: "Kohima", lat: 25.67, lng: 94.11 },
+      { name: "Dimapur", lat: 25.91, lng: 93.73 },
+      { name: "Mokokchung", lat: 26.32, lng: 94.51 },
     ]
   },
   {
     code: "OD",
     name: "Odisha",
     cities: [
-      { name: "Bhubaneswar", isMetro: true },
-      { name: "Cuttack" },
-      { name: "Rourkela" },
-      { name: "Berhampur" },
-      { name: "Sambalpur" },
-      { name: "Puri" },
-      { name: "Balasore" },
-      { name: "Bhadrak" },
-      { name: "Baripada" },
-      { name: "Jharsuguda" },
+      { name: "Bhubaneswar", isMetro: true, lat: 20.30, lng: 85.82 },
+      { name: "Cuttack", lat: 20.46, lng: 85.88 },
+      { name: "Rourkela", lat: 22.26, lng: 84.85 },
+      { name: "Berhampur", lat: 19.31, lng: 84.79 },
+      { name: "Sambalpur", lat: 21.47, lng: 83.97 },
+      { name: "Puri", lat: 19.81, lng: 85.83 },
+      { name: "Balasore", lat: 21.49, lng: 86.93 },
+      { name: "Bhadrak", lat: 21.06, lng: 86.50 },
+      { name: "Baripada", lat: 21.93, lng: 86.73 },
+      { name: "Jharsuguda", lat: 21.86, lng: 84.01 },
     ]
   },
   {
     code: "PY",
     name: "Puducherry",
     cities: [
-      { name: "Puducherry" },
-      { name: "Karaikal" },
+      { name: "Puducherry", lat: 11.94, lng: 79.81 },
+      { name: "Karaikal", lat: 10.93, lng: 79.84 },
     ]
   },
   {
     code: "PB",
     name: "Punjab",
     cities: [
-      { name: "Ludhiana", isMetro: true },
-      { name: "Amritsar", isMetro: true },
-      { name: "Jalandhar" },
-      { name: "Patiala" },
-      { name: "Bathinda" },
-      { name: "Mohali" },
-      { name: "Pathankot" },
-      { name: "Hoshiarpur" },
-      { name: "Moga" },
-      { name: "Batala" },
-      { name: "Abohar" },
-      { name: "Malerkotla" },
-      { name: "Khanna" },
-      { name: "Phagwara" },
-      { name: "Muktsar" },
-      { name: "Barnala" },
-      { name: "Rajpura" },
-      { name: "Firozpur" },
-      { name: "Kapurthala" },
+      { name: "Ludhiana", isMetro: true, lat: 30.90, lng: 75.86 },
+      { name: "Amritsar", isMetro: true, lat: 31.63, lng: 74.87 },
+      { name: "Jalandhar", lat: 31.33, lng: 75.58 },
+      { name: "Patiala", lat: 30.34, lng: 76.39 },
+      { name: "Bathinda", lat: 30.21, lng: 74.95 },
+      { name: "Mohali", lat: 30.70, lng: 76.72 },
+      { name: "Pathankot", lat: 32.27, lng: 75.65 },
+      { name: "Hoshiarpur", lat: 31.53, lng: 75.91 },
+      { name: "Moga", lat: 30.82, lng: 75.17 },
+      { name: "Batala", lat: 31.82, lng: 75.20 },
+      { name: "Abohar", lat: 30.14, lng: 74.20 },
+      { name: "Malerkotla", lat: 30.53, lng: 75.88 },
+      { name: "Khanna", lat: 30.70, lng: 76.22 },
+      { name: "Phagwara", lat: 31.22, lng: 75.77 },
+      { name: "Muktsar", lat: 30.47, lng: 74.52 },
+      { name: "Barnala", lat: 30.38, lng: 75.55 },
+      { name: "Rajpura", lat: 30.48, lng: 76.59 },
+      { name: "Firozpur", lat: 30.93, lng: 74.61 },
+      { name: "Kapurthala", lat: 31.38, lng: 75.38 },
     ]
   },
   {
     code: "RJ",
     name: "Rajasthan",
     cities: [
-      { name: "Jaipur", isMetro: true },
-      { name: "Jodhpur", isMetro: true },
-      { name: "Kota" },
-      { name: "Bikaner" },
-      { name: "Udaipur" },
-      { name: "Ajmer" },
-      { name: "Bhilwara" },
-      { name: "Alwar" },
-      { name: "Sikar" },
-      { name: "Bharatpur" },
-      { name: "Sri Ganganagar" },
-      { name: "Pali" },
-      { name: "Beawar" },
-      { name: "Hanumangarh" },
-      { name: "Tonk" },
-      { name: "Kishangarh" },
-      { name: "Barmer" },
-      { name: "Churu" },
-      { name: "Nagaur" },
-      { name: "Jhunjhunu" },
+      { name: "Jaipur", isMetro: true, lat: 26.91, lng: 75.79 },
+      { name: "Jodhpur", isMetro: true, lat: 26.24, lng: 73.02 },
+      { name: "Kota", lat: 25.18, lng: 75.83 },
+      { name: "Bikaner", lat: 28.02, lng: 73.31 },
+      { name: "Udaipur", lat: 24.59, lng: 73.71 },
+      { name: "Ajmer", lat: 26.45, lng: 74.64 },
+      { name: "Bhilwara", lat: 25.35, lng: 74.63 },
+      { name: "Alwar", lat: 27.55, lng: 76.63 },
+      { name: "Sikar", lat: 27.61, lng: 75.14 },
+      { name: "Bharatpur", lat: 27.22, lng: 77.49 },
+      { name: "Sri Ganganagar", lat: 29.90, lng: 73.88 },
+      { name: "Pali", lat: 25.77, lng: 73.32 },
+      { name: "Beawar", lat: 26.10, lng: 74.32 },
+      { name: "Hanumangarh", lat: 29.58, lng: 74.33 },
+      { name: "Tonk", lat: 26.17, lng: 75.79 },
+      { name: "Kishangarh", lat: 26.59, lng: 74.86 },
+      { name: "Barmer", lat: 25.75, lng: 71.39 },
+      { name: "Churu", lat: 28.30, lng: 74.95 },
+      { name: "Nagaur", lat: 27.20, lng: 73.73 },
+      { name: "Jhunjhunu", lat: 28.13, lng: 75.40 },
     ]
   },
   {
     code: "SK",
     name: "Sikkim",
     cities: [
-      { name: "Gangtok" },
-      { name: "Namchi" },
-      { name: "Gyalshing" },
+      { name: "Gangtok", lat: 27.33, lng: 88.61 },
+      { name: "Namchi", lat: 27.17, lng: 88.36 },
+      { name: "Gyalshing", lat: 27.29, lng: 88.26 },
     ]
   },
   {
     code: "TN",
     name: "Tamil Nadu",
     cities: [
-      { name: "Chennai", isMetro: true },
-      { name: "Coimbatore", isMetro: true },
-      { name: "Madurai", isMetro: true },
-      { name: "Tiruchirappalli" },
-      { name: "Salem" },
-      { name: "Tirunelveli" },
-      { name: "Tiruppur" },
-      { name: "Vellore" },
-      { name: "Erode" },
-      { name: "Thoothukkudi" },
-      { name: "Dindigul" },
-      { name: "Thanjavur" },
-      { name: "Ranipet" },
-      { name: "Sivakasi" },
-      { name: "Karur" },
-      { name: "Udhagamandalam" },
-      { name: "Hosur" },
-      { name: "Nagercoil" },
-      { name: "Kanchipuram" },
-      { name: "Kumarapalayam" },
+      { name: "Chennai", isMetro: true, lat: 13.08, lng: 80.27 },
+      { name: "Coimbatore", isMetro: true, lat: 11.02, lng: 76.96 },
+      { name: "Madurai", isMetro: true, lat: 9.93, lng: 78.12 },
+      { name: "Tiruchirappalli", lat: 10.79, lng: 78.70 },
+      { name: "Salem", lat: 11.66, lng: 78.15 },
+      { name: "Tirunelveli", lat: 8.71, lng: 77.76 },
+      { name: "Tiruppur", lat: 11.11, lng: 77.34 },
+      { name: "Vellore", lat: 12.92, lng: 79.13 },
+      { name: "Erode", lat: 11.34, lng: 77.72 },
+      { name: "Thoothukkudi", lat: 8.76, lng: 78.13 },
+      { name: "Dindigul", lat: 10.36, lng: 77.98 },
+      { name: "Thanjavur", lat: 10.79, lng: 79.14 },
+      { name: "Ranipet", lat: 12.93, lng: 79.33 },
+      { name: "Sivakasi", lat: 9.45, lng: 77.80 },
+      { name: "Karur", lat: 10.96, lng: 78.08 },
+      { name: "Udhagamandalam", lat: 11.41, lng: 76.70 },
+      { name: "Hosur", lat: 12.74, lng: 77.83 },
+      { name: "Nagercoil", lat: 8.18, lng: 77.41 },
+      { name: "Kanchipuram", lat: 12.83, lng: 79.70 },
+      { name: "Kumarapalayam", lat: 11.44, lng: 77.70 },
     ]
   },
   {
     code: "TS",
     name: "Telangana",
     cities: [
-      { name: "Hyderabad", isMetro: true },
-      { name: "Warangal" },
-      { name: "Nizamabad" },
-      { name: "Karimnagar" },
-      { name: "Khammam" },
-      { name: "Ramagundam" },
-      { name: "Mahbubnagar" },
-      { name: "Nalgonda" },
-      { name: "Adilabad" },
-      { name: "Suryapet" },
-      { name: "Siddipet" },
-      { name: "Miryalaguda" },
-      { name: "Mancherial" },
+      { name: "Hyderabad", isMetro: true, lat: 17.39, lng: 78.49 },
+      { name: "Warangal", lat: 17.97, lng: 79.59 },
+      { name: "Nizamabad", lat: 18.67, lng: 78.09 },
+      { name: "Karimnagar", lat: 18.44, lng: 79.13 },
+      { name: "Khammam", lat: 17.25, lng: 80.15 },
+      { name: "Ramagundam", lat: 18.76, lng: 79.48 },
+      { name: "Mahbubnagar", lat: 16.74, lng: 78.00 },
+      { name: "Nalgonda", lat: 17.05, lng: 79.27 },
+      { name: "Adilabad", lat: 19.66, lng: 78.53 },
+      { name: "Suryapet", lat: 17.14, lng: 79.62 },
+      { name: "Siddipet", lat: 18.10, lng: 78.85 },
+      { name: "Miryalaguda", lat: 16.87, lng: 79.56 },
+      { name: "Mancherial", lat: 18.87, lng: 79.44 },
     ]
   },
   {
     code: "TR",
     name: "Tripura",
     cities: [
-      { name: "Agartala" },
-      { name: "Udaipur" },
-      { name: "Dharmanagar" },
+      { name: "Agartala", lat: 23.83, lng: 91.28 },
+      { name: "Udaipur", lat: 23.53, lng: 91.48 },
+      { name: "Dharmanagar", lat: 24.37, lng: 92.17 },
     ]
   },
   {
     code: "UK",
     name: "Uttarakhand",
     cities: [
-      { name: "Dehradun" },
-      { name: "Haridwar" },
-      { name: "Roorkee" },
-      { name: "Haldwani" },
-      { name: "Rudrapur" },
-      { name: "Kashipur" },
-      { name: "Rishikesh" },
-      { name: "Nainital" },
-      { name: "Ramnagar" },
+      { name: "Dehradun", lat: 30.32, lng: 78.03 },
+      { name: "Haridwar", lat: 29.95, lng: 78.16 },
+      { name: "Roorkee", lat: 29.87, lng: 77.89 },
+      { name: "Haldwani", lat: 29.22, lng: 79.51 },
+      { name: "Rudrapur", lat: 28.98, lng: 79.40 },
+      { name: "Kashipur", lat: 29.21, lng: 78.96 },
+      { name: "Rishikesh", lat: 30.09, lng: 78.27 },
+      { name: "Nainital", lat: 29.38, lng: 79.46 },
+      { name: "Ramnagar", lat: 29.39, lng: 79.13 },
     ]
   },
   {
     code: "UP",
     name: "Uttar Pradesh",
     cities: [
-      { name: "Lucknow", isMetro: true },
-      { name: "Kanpur", isMetro: true },
-      { name: "Ghaziabad", isMetro: true },
-      { name: "Agra", isMetro: true },
-      { name: "Varanasi", isMetro: true },
-      { name: "Prayagraj" },
-      { name: "Meerut" },
-      { name: "Noida", isMetro: true },
-      { name: "Greater Noida", isMetro: true },
-      { name: "Bareilly" },
-      { name: "Aligarh" },
-      { name: "Moradabad" },
-      { name: "Saharanpur" },
-      { name: "Gorakhpur" },
-      { name: "Firozabad" },
-      { name: "Jhansi" },
-      { name: "Muzaffarnagar" },
-      { name: "Mathura" },
-      { name: "Rampur" },
-      { name: "Shahjahanpur" },
-      { name: "Faizabad" },
-      { name: "Etawah" },
-      { name: "Mirzapur" },
-      { name: "Bulandshahr" },
-      { name: "Sambhal" },
-      { name: "Amroha" },
-      { name: "Hardoi" },
-      { name: "Fatehpur" },
-      { name: "Raebareli" },
-      { name: "Orai" },
+      { name: "Lucknow", isMetro: true, lat: 26.85, lng: 80.95 },
+      { name: "Kanpur", isMetro: true, lat: 26.45, lng: 80.33 },
+      { name: "Ghaziabad", isMetro: true, lat: 28.67, lng: 77.45 },
+      { name: "Agra", isMetro: true, lat: 27.18, lng: 78.01 },
+      { name: "Varanasi", isMetro: true, lat: 25.32, lng: 82.97 },
+      { name: "Prayagraj", lat: 25.44, lng: 81.85 },
+      { name: "Meerut", lat: 28.98, lng: 77.71 },
+      { name: "Noida", isMetro: true, lat: 28.54, lng: 77.39 },
+      { name: "Greater Noida", isMetro: true, lat: 28.47, lng: 77.50 },
+      { name: "Bareilly", lat: 28.37, lng: 79.43 },
+      { name: "Aligarh", lat: 27.88, lng: 78.08 },
+      { name: "Moradabad", lat: 28.84, lng: 78.77 },
+      { name: "Saharanpur", lat: 29.96, lng: 77.55 },
+      { name: "Gorakhpur", lat: 26.76, lng: 83.37 },
+      { name: "Firozabad", lat: 27.15, lng: 78.40 },
+      { name: "Jhansi", lat: 25.45, lng: 78.57 },
+      { name: "Muzaffarnagar", lat: 29.47, lng: 77.70 },
+      { name: "Mathura", lat: 27.49, lng: 77.67 },
+      { name: "Rampur", lat: 28.80, lng: 79.03 },
+      { name: "Shahjahanpur", lat: 27.88, lng: 79.91 },
+      { name: "Faizabad", lat: 26.77, lng: 82.14 },
+      { name: "Etawah", lat: 26.78, lng: 79.02 },
+      { name: "Mirzapur", lat: 25.15, lng: 82.57 },
+      { name: "Bulandshahr", lat: 28.41, lng: 77.85 },
+      { name: "Sambhal", lat: 28.58, lng: 78.57 },
+      { name: "Amroha", lat: 28.90, lng: 78.47 },
+      { name: "Hardoi", lat: 27.40, lng: 80.13 },
+      { name: "Fatehpur", lat: 25.93, lng: 80.81 },
+      { name: "Raebareli", lat: 26.23, lng: 81.23 },
+      { name: "Orai", lat: 25.99, lng: 79.45 },
     ]
   },
   {
     code: "WB",
     name: "West Bengal",
     cities: [
-      { name: "Kolkata", isMetro: true },
-      { name: "Howrah" },
-      { name: "Asansol" },
-      { name: "Siliguri" },
-      { name: "Durgapur" },
-      { name: "Bardhaman" },
-      { name: "Malda" },
-      { name: "Baharampur" },
-      { name: "Habra" },
-      { name: "Kharagpur" },
-      { name: "Shantipur" },
-      { name: "Dankuni" },
-      { name: "Dhulian" },
-      { name: "Ranaghat" },
-      { name: "Haldia" },
-      { name: "Raiganj" },
-      { name: "Krishnanagar" },
-      { name: "Nabadwip" },
-      { name: "Medinipur" },
-      { name: "Jalpaiguri" },
+      { name: "Kolkata", isMetro: true, lat: 22.57, lng: 88.36 },
+      { name: "Howrah", lat: 22.59, lng: 88.31 },
+      { name: "Asansol", lat: 23.68, lng: 86.98 },
+      { name: "Siliguri", lat: 26.73, lng: 88.40 },
+      { name: "Durgapur", lat: 23.52, lng: 87.31 },
+      { name: "Bardhaman", lat: 23.23, lng: 87.86 },
+      { name: "Malda", lat: 25.01, lng: 88.14 },
+      { name: "Baharampur", lat: 24.10, lng: 88.25 },
+      { name: "Habra", lat: 22.84, lng: 88.66 },
+      { name: "Kharagpur", lat: 22.35, lng: 87.23 },
+      { name: "Shantipur", lat: 23.25, lng: 88.43 },
+      { name: "Dankuni", lat: 22.68, lng: 88.29 },
+      { name: "Dhulian", lat: 24.68, lng: 87.95 },
+      { name: "Ranaghat", lat: 23.18, lng: 88.56 },
+      { name: "Haldia", lat: 22.06, lng: 88.07 },
+      { name: "Raiganj", lat: 25.62, lng: 88.12 },
+      { name: "Krishnanagar", lat: 23.40, lng: 88.50 },
+      { name: "Nabadwip", lat: 23.41, lng: 88.37 },
+      { name: "Medinipur", lat: 22.42, lng: 87.32 },
+      { name: "Jalpaiguri", lat: 26.52, lng: 88.72 },
     ]
   }
 ];
@@ -631,3 +633,69 @@ export function getAllMetroCities(): { state: IndianState; city: City }[] {
   }
   return metros;
 }
+
+// Former / common spellings that don't match the names above
+const CITY_ALIASES: Record<string, string> = {
+  "delhi": "new delhi",
+  "bangalore": "bengaluru",
+  "mysore": "mysuru",
+  "mangalore": "mangaluru",
+  "gurgaon": "gurugram",
+  "bombay": "mumbai",
+  "madras": "chennai",
+  "calcutta": "kolkata",
+  "allahabad": "prayagraj",
+  "trivandrum": "thiruvananthapuram",
+  "cochin": "kochi",
+  "calicut": "kozhikode",
+  "trichy": "tiruchirappalli",
+  "tuticorin": "thoothukkudi",
+  "ooty": "udhagamandalam",
+  "vizag": "visakhapatnam",
+  "hubli": "hubli-dharwad",
+  "dharwad": "hubli-dharwad",
+  "belgaum": "belagavi",
+  "kalaburagi": "gulbarga",
+  "vijayapura": "bijapur",
+  "ballari": "bellary",
+  "shivamogga": "shimoga",
+  "tumakuru": "tumkur",
+  "baroda": "vadodara",
+  "pondicherry": "puducherry",
+  "bokaro": "bokaro steel city",
+  "ayodhya": "faizabad",
+  "katni": "murwara",
+  "chhatrapati sambhajinagar": "aurangabad",
+  "pimpri": "pimpri-chinchwad",
+};
+
+// Find a city by name, optionally narrowed by state code or state name.
+// Accepts "City", "City, MH" or "City, Maharashtra, India" style strings.
+export function findCity(location: string, stateHint?: string | null): { state: IndianState; city: City } | null {
+  const parts = location.split(",").map(p => p.trim().toLowerCase()).filter(p => p && p !== "india");
+  if (parts.length === 0) return null;
+
+  const hint = (stateHint || parts[1] || "").trim().toLowerCase();
+  const states = hint
+    ? indianStates.filter(s => s.code.toLowerCase() === hint || s.name.toLowerCase() === hint)
+    : [];
+  const searchOrder = states.length > 0 ? [...states, ...indianStates.filter(s => !states.includes(s))] : indianStates;
+
+  for (const part of parts) {
+    const candidate = CITY_ALIASES[part] || part;
+    for (const state of searchOrder) {
+      const city = state.cities.find(c => c.name.toLowerCase() === candidate);
+      if (city) return { state, city };
+    }
+  }
+  return null;
+}
+
+// Great-circle distance between two points in km
+export function haversineKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
@@ -1,8 +1,9 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, serial, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, serial, boolean, timestamp, decimal, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { helpBotConversations } from "./models/chat";
 
 // User roles enum
 export const userRoles = ["shipper", "carrier", "admin"] as const;
@@ -53,9 +54,13 @@ export const validStateTransitions: Record<LoadStatus, LoadStatus[]> = {
 };
 
 // Admin post mode enum
-export const adminPostModes = ["open", "invite", "assign"] as const;
+export const adminPostModes = ["open", "invite", "assign", "sealed", "auction"] as const;
 export type AdminPostMode = typeof adminPostModes[number];
 
+// Post modes that run a timed bidding window (openForBidAt -> biddingClosesAt)
+export const biddingWindowPostModes = ["sealed", "auction"] as const;
+export type BiddingWindowPostMode = typeof biddingWindowPostModes[number];
+
 // Admin pricing status enum
 export const adminPricingStatuses = ["draft", "locked", "awaiting_approval", "approved", "posted", "assigned", "rejected"] as const;
 export type AdminPricingStatus = typeof adminPricingStatuses[number];
@@ -65,7 +70,7 @@ export const bidStatuses = ["pending", "accepted", "rejected", "countered", "exp
 export type BidStatus = typeof bidStatuses[number];
 
 // Bid type enum (for Admin-as-Mediator flow)
-export const bidTypes = ["carrier_bid", "admin_posted_acceptance", "admin_counter"] as const;
+export const bidTypes = ["carrier_bid", "admin_posted_acceptance", "admin_counter", "contract", "ptl"] as const;
 export type BidType = typeof bidTypes[number];
 
 // Negotiation message types enum (for chat-style negotiation)
@@ -244,6 +249,10 @@ export type DocumentType = typeof documentTypes[number];
 export const alertTypes = ["overheating", "low_fuel", "overspeed", "low_battery", "harsh_brake", "sudden_acceleration", "route_deviation", "unexpected_stop", "idle_time"] as const;
 export type AlertType = typeof alertTypes[number];
 
+// Alert severities
+export const alertSeverities = ["info", "warning", "critical"] as const;
+export type AlertSeverity = typeof alertSeverities[number];
+
 // Carrier types enum - Enterprise fleets vs Solo owner-operators
 export const carrierTypes = ["enterprise", "solo"] as const;
 export type CarrierType = typeof carrierTypes[number];
@@ -390,6 +399,7 @@ export const loads = pgTable("loads", {
   dropoffLat: decimal("dropoff_lat", { precision: 10, scale: 7 }),
   dropoffLng: decimal("dropoff_lng", { precision: 10, scale: 7 }),
   distance: decimal("distance", { precision: 10, scale: 2 }),
+  isMultiStop: boolean("is_multi_stop").default(false), // Ordered stops in load_stops; distance covers every leg
   
   // Receiver contact details
   receiverName: text("receiver_name"),
@@ -406,6 +416,7 @@ export const loads = pgTable("loads", {
   shipperFixedPrice: decimal("shipper_fixed_price", { precision: 12, scale: 2 }), // Fixed price shipper is willing to pay
   rateType: text("rate_type").default("per_ton"), // per_ton or fixed_price
   materialType: text("material_type"), // Type of goods
+  goodsValue: decimal("goods_value", { precision: 14, scale: 2 }), // Declared consignment value (drives e-way bill requirement)
   requiredTruckType: text("required_truck_type"),
   
   // Pricing
@@ -440,21 +451,30 @@ export const loads = pgTable("loads", {
   
   // Bidding fields
   openForBidAt: timestamp("open_for_bid_at"),
+  biddingClosesAt: timestamp("bidding_closes_at"), // Scheduled close for sealed/auction windows, pushed out by late auction bids
   biddingClosedAt: timestamp("bidding_closed_at"),
+  bidsRevealedAt: timestamp("bids_revealed_at"), // Sealed bids become visible to participants
+  auctionExtensionMinutes: integer("auction_extension_minutes"),
+  auctionExtensionCount: integer("auction_extension_count").default(0),
+  auctionMinDecrement: decimal("auction_min_decrement", { precision: 12, scale: 2 }),
   awardedAt: timestamp("awarded_at"),
   awardedBidId: varchar("awarded_bid_id"),
   
   // Admin workflow
-  adminPostMode: text("admin_post_mode"), // open, invite, assign
+  adminPostMode: text("admin_post_mode"), // open, invite, assign, sealed, auction
   adminId: varchar("admin_id").references(() => users.id),
   adminDecisionId: varchar("admin_decision_id"),
   invitedCarrierIds: text("invited_carrier_ids").array(),
   allowCounterBids: boolean("allow_counter_bids").default(true),
+  contractRateId: varchar("contract_rate_id"), // Priced and awarded from a contract rate card
+  isPtl: boolean("is_ptl").default(false), // Part truck load - shipper accepts sharing the truck
+  consolidationId: varchar("consolidation_id"), // Shared PTL trip (load_consolidations) this load rides on
   
   // GST and compliance (India-specific)
   gstApplicable: boolean("gst_applicable").default(true),
   ewayBillRequired: boolean("eway_bill_required").default(false),
   ewayBillNumber: text("eway_bill_number"),
+  ewayBillValidUntil: timestamp("eway_bill_valid_until"),
   
   // Template and misc
   isTemplate: boolean("is_template").default(false),
@@ -536,6 +556,9 @@ export const adminPricings = pgTable("admin_pricings", {
   priceBreakdown: jsonb("price_breakdown"),
   confidenceScore: integer("confidence_score"),
   riskFlags: text("risk_flags").array(),
+  // Diesel index (Rs./litre) the price was set against - adjustment at pickup is the delta
+  dieselIndexPrice: decimal("diesel_index_price", { precision: 8, scale: 2 }),
+  dieselIndexRegion: text("diesel_index_region"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -613,6 +636,7 @@ export const invoices = pgTable("invoices", {
   paymentTerms: text("payment_terms").default("Net 30"), // T+X days or COD
   paymentTermsDays: integer("payment_terms_days").default(30),
   dueDate: timestamp("due_date"),
+  overdueAt: timestamp("overdue_at"), // Set once unpaid past dueDate; status stays with the shipper workflow
   
   // Advance payment
   advancePaymentPercent: integer("advance_payment_percent"),
@@ -898,11 +922,13 @@ export const shipmentEvents = pgTable("shipment_events", {
   lat: decimal("lat", { precision: 10, scale: 7 }),
   lng: decimal("lng", { precision: 10, scale: 7 }),
   notes: text("notes"),
+  geofenceId: varchar("geofence_id"), // For geofence_enter / geofence_exit events
+  dwellMinutes: integer("dwell_minutes"), // Time spent inside the geofence, on exit events
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // OTP Types for security gates
-export const otpTypes = ["registration", "trip_start", "route_start", "trip_end"] as const;
+export const otpTypes = ["registration", "trip_start", "route_start", "stop_complete", "trip_end"] as const;
 export type OtpType = typeof otpTypes[number];
 
 // OTP Statuses
@@ -918,6 +944,7 @@ export const otpVerifications = pgTable("otp_verifications", {
   carrierId: varchar("carrier_id").references(() => users.id), // For trip OTPs
   shipmentId: varchar("shipment_id").references(() => shipments.id), // For trip OTPs
   loadId: varchar("load_id").references(() => loads.id), // For trip OTPs
+  stopId: varchar("stop_id"), // For stop_complete OTPs on multi-stop loads
   phoneNumber: text("phone_number"), // For registration OTPs
   status: text("status").default("pending"), // pending, verified, expired, cancelled
   generatedBy: varchar("generated_by").references(() => users.id), // Admin who generated (for trip OTPs)
@@ -936,12 +963,14 @@ export const otpRequests = pgTable("otp_requests", {
   carrierId: varchar("carrier_id").notNull().references(() => users.id),
   shipmentId: varchar("shipment_id").notNull().references(() => shipments.id),
   loadId: varchar("load_id").notNull().references(() => loads.id),
+  stopId: varchar("stop_id"), // For stop_complete requests on multi-stop loads
   status: text("status").default("pending"), // pending, approved, rejected
   requestedAt: timestamp("requested_at").defaultNow(),
   processedAt: timestamp("processed_at"),
   processedBy: varchar("processed_by").references(() => users.id), // Admin who processed
   otpId: varchar("otp_id").references(() => otpVerifications.id), // Generated OTP (if approved)
   notes: text("notes"),
+  onSiteSince: timestamp("on_site_since"), // When telemetry put the truck inside the site's geofence, if it was there at request time
 });
 
 // Messages table (for negotiation chat)
@@ -965,6 +994,7 @@ export const documents = pgTable("documents", {
   shipmentId: varchar("shipment_id").references(() => shipments.id),
   truckId: varchar("truck_id").references(() => trucks.id), // Link to specific truck for compliance docs
   driverId: varchar("driver_id").references(() => drivers.id), // Link to specific driver for compliance docs
+  stopId: varchar("stop_id"), // Per-stop POD on multi-stop loads
   documentType: text("document_type").notNull(),
   fileName: text("file_name").notNull(),
   fileUrl: text("file_url").notNull(),
@@ -1013,6 +1043,7 @@ export const vehicleTelemetry = pgTable("vehicle_telemetry", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   vehicleId: varchar("vehicle_id").notNull(),
   truckId: varchar("truck_id").references(() => trucks.id),
+  deviceId: varchar("device_id"), // gpsDevices row that reported it
   loadId: varchar("load_id").references(() => loads.id),
   driverId: varchar("driver_id").references(() => users.id),
   lat: decimal("lat", { precision: 10, scale: 7 }).notNull(),
@@ -1054,7 +1085,7 @@ export const telematicsAlerts = pgTable("telematics_alerts", {
   loadId: varchar("load_id").references(() => loads.id),
   driverId: varchar("driver_id").references(() => users.id),
   alertType: text("alert_type").notNull(),
-  severity: text("severity").default("warning"),
+  severity: text("severity").default("warning"), // alertSeverities
   message: text("message").notNull(),
   lat: decimal("lat", { precision: 10, scale: 7 }),
   lng: decimal("lng", { precision: 10, scale: 7 }),
@@ -1062,6 +1093,9 @@ export const telematicsAlerts = pgTable("telematics_alerts", {
   threshold: decimal("threshold", { precision: 10, scale: 2 }),
   isAcknowledged: boolean("is_acknowledged").default(false),
   acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id),
+  startedAt: timestamp("started_at"), // GPS fix time the condition began
+  resolvedAt: timestamp("resolved_at"), // GPS fix time it cleared; null while ongoing
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -1076,8 +1110,13 @@ export const gpsBreadcrumbs = pgTable("gps_breadcrumbs", {
   heading: integer("heading"),
   isRiskySegment: boolean("is_risky_segment").default(false),
   riskReason: text("risk_reason"),
+  deviceId: varchar("device_id"), // gpsDevices row that reported it
+  recordedAt: timestamp("recorded_at"), // GPS fix time; createdAt is when it reached us
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // One fix per truck per instant, however many batches carry it
+  uniqueIndex("gps_breadcrumbs_vehicle_recorded_at_idx").on(table.vehicleId, table.recordedAt),
+]);
 
 // Route ETA Predictions table
 export const routeEtaPredictions = pgTable("route_eta_predictions", {
@@ -1094,6 +1133,11 @@ export const routeEtaPredictions = pgTable("route_eta_predictions", {
   weatherCondition: text("weather_condition").default("clear"),
   betterRouteAvailable: boolean("better_route_available").default(false),
   betterRouteSavingsMinutes: integer("better_route_savings_minutes"),
+  etaLowerBound: timestamp("eta_lower_bound"), // 80% interval around currentEta
+  etaUpperBound: timestamp("eta_upper_bound"),
+  modelBasis: text("model_basis"), // Speed profile the estimate came from, e.g. "lane+truck", "default"
+  sampleCount: integer("sample_count"), // Trip-hours behind that profile
+  notifiedDelayMinutes: integer("notified_delay_minutes"), // Delay the shipper was last told about
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -1573,6 +1617,7 @@ export const insertLoadSchema = createInsertSchema(loads).omit({ id: true, creat
   rateType: z.string().optional().nullable(),
   shipperFixedPrice: z.string().optional().nullable(),
   advancePaymentPercent: z.number().int().min(0).max(100).optional().nullable(),
+  goodsValue: z.union([z.string(), z.number()]).transform((v) => String(v)).optional().nullable(),
 });
 export const insertBidSchema = createInsertSchema(bids).omit({ id: true, createdAt: true });
 export const insertAdminDecisionSchema = createInsertSchema(adminDecisions).omit({ id: true, createdAt: true });
@@ -2012,6 +2057,8 @@ export interface LiveTelemetryData {
   loadWeight?: number;
   maxCapacity?: number;
   isIgnitionOn: boolean;
+  // False for plain GPS trackers: rpm, fuel, engine temp and battery are placeholders
+  hasCanBus?: boolean;
   timestamp: string;
 }
 
@@ -2042,6 +2089,10 @@ export interface EtaPrediction {
   weatherCondition: string;
   betterRouteAvailable: boolean;
   betterRouteSavingsMinutes?: number;
+  // 80% interval from the historical model, when it made the estimate
+  etaLowerBound?: string;
+  etaUpperBound?: string;
+  modelBasis?: string;
 }
 
 // Help Bot Chat exports
@@ -2107,3 +2158,517 @@ export const financeReviewsRelations = relations(financeReviews, ({ one }) => ({
 export const insertFinanceReviewSchema = createInsertSchema(financeReviews).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertFinanceReview = z.infer<typeof insertFinanceReviewSchema>;
 export type FinanceReview = typeof financeReviews.$inferSelect;
+
+// E-way bill statuses
+export const ewayBillStatuses = ["active", "extended", "expired", "cancelled"] as const;
+export type EwayBillStatus = typeof ewayBillStatuses[number];
+
+// E-way Bills table - e-way bills generated (or recorded) for loads above the goods value threshold
+export const ewayBills = pgTable("eway_bills", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  loadId: varchar("load_id").notNull().references(() => loads.id),
+  ewayBillNumber: text("eway_bill_number").notNull(),
+  provider: text("provider").notNull().default("local"), // local, nic
+  goodsValue: decimal("goods_value", { precision: 14, scale: 2 }),
+  distanceKm: decimal("distance_km", { precision: 10, scale: 2 }),
+  vehicleNumber: text("vehicle_number"),
+  validFrom: timestamp("valid_from").notNull(),
+  validUntil: timestamp("valid_until").notNull(),
+  status: text("status").notNull().default("active"),
+  extensionCount: integer("extension_count").default(0),
+  expiryWarningSentAt: timestamp("expiry_warning_sent_at"),
+  generatedBy: varchar("generated_by").references(() => users.id),
+  providerResponse: jsonb("provider_response"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const ewayBillsRelations = relations(ewayBills, ({ one }) => ({
+  load: one(loads, {
+    fields: [ewayBills.loadId],
+    references: [loads.id],
+  }),
+  generatedByUser: one(users, {
+    fields: [ewayBills.generatedBy],
+    references: [users.id],
+  }),
+}));
+
+export const insertEwayBillSchema = createInsertSchema(ewayBills).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertEwayBill = z.infer<typeof insertEwayBillSchema>;
+export type EwayBill = typeof ewayBills.$inferSelect;
+
+// Auth security event types
+export const authSecurityEventTypes = ["lockout", "unlock"] as const;
+export type AuthSecurityEventType = typeof authSecurityEventTypes[number];
+
+// Auth Security Events table - lockouts and throttling on login / OTP endpoints
+export const authSecurityEvents = pgTable("auth_security_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventType: text("event_type").notNull(), // lockout, unlock
+  action: text("action").notNull(), // login, otp_send, otp_verify
+  scope: text("scope").notNull(), // ip, phone, email, account
+  identifier: text("identifier").notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  ipAddress: text("ip_address"),
+  attempts: integer("attempts"),
+  lockoutLevel: integer("lockout_level"),
+  lockedUntil: timestamp("locked_until"),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const authSecurityEventsRelations = relations(authSecurityEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [authSecurityEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertAuthSecurityEventSchema = createInsertSchema(authSecurityEvents).omit({ id: true, createdAt: true });
+export type InsertAuthSecurityEvent = z.infer<typeof insertAuthSecurityEventSchema>;
+export type AuthSecurityEvent = typeof authSecurityEvents.$inferSelect;
+
+// Diesel Price Index table - Rs./litre by region and date, imported by admins (CSV)
+export const dieselPriceIndex = pgTable("diesel_price_index", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  effectiveDate: timestamp("effective_date").notNull(),
+  region: text("region").notNull(), // State code (MH, DL...) or IN for the national average
+  pricePerLitre: decimal("price_per_litre", { precision: 8, scale: 2 }).notNull(),
+  source: text("source"),
+  importedBy: varchar("imported_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const dieselPriceIndexRelations = relations(dieselPriceIndex, ({ one }) => ({
+  importedByUser: one(users, {
+    fields: [dieselPriceIndex.importedBy],
+    references: [users.id],
+  }),
+}));
+
+export const insertDieselPriceIndexSchema = createInsertSchema(dieselPriceIndex).omit({ id: true, createdAt: true });
+export type InsertDieselPriceIndex = z.infer<typeof insertDieselPriceIndexSchema>;
+export type DieselPriceIndex = typeof dieselPriceIndex.$inferSelect;
+
+// Route Distance Cache table - road distances from the distance providers, keyed by normalised origin/destination
+export const routeDistanceCache = pgTable("route_distance_cache", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  routeKey: text("route_key").notNull().unique(), // "pune, mh|new delhi, dl"
+  origin: text("origin").notNull(),
+  destination: text("destination").notNull(),
+  distanceKm: decimal("distance_km", { precision: 10, scale: 2 }).notNull(),
+  durationSeconds: integer("duration_seconds").notNull(),
+  provider: text("provider").notNull(), // offline_graph, google_maps, osrm
+  via: jsonb("via"), // Cities along the route
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertRouteDistanceCacheSchema = createInsertSchema(routeDistanceCache).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertRouteDistanceCache = z.infer<typeof insertRouteDistanceCacheSchema>;
+export type RouteDistanceCache = typeof routeDistanceCache.$inferSelect;
+
+// Scheduled Jobs table - one row per recurring background job; the row doubles as a lease so only one instance runs it
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  intervalSeconds: integer("interval_seconds").notNull(),
+  isEnabled: boolean("is_enabled").default(true),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lockedBy: text("locked_by"), // Instance currently holding the lease
+  lockedUntil: timestamp("locked_until"),
+  lastStartedAt: timestamp("last_started_at"),
+  lastFinishedAt: timestamp("last_finished_at"),
+  lastStatus: text("last_status"), // success, failed
+  lastError: text("last_error"),
+  lastResult: jsonb("last_result"),
+  runCount: integer("run_count").default(0),
+  failureCount: integer("failure_count").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+
+// Marketplace Event Cursors table - last sequence number handed out per user
+export const marketplaceEventCursors = pgTable("marketplace_event_cursors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id).unique(),
+  lastSequence: integer("last_sequence").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type MarketplaceEventCursor = typeof marketplaceEventCursors.$inferSelect;
+
+// Marketplace Events table - per-user log of socket events so clients can replay what they missed
+export const marketplaceEvents = pgTable("marketplace_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  sequence: integer("sequence").notNull(), // Monotonic per user, starts at 1
+  eventType: text("event_type").notNull(), // bid_countered, bid_accepted, invoice_update, ...
+  payload: jsonb("payload").notNull(), // The socket message as sent
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertMarketplaceEventSchema = createInsertSchema(marketplaceEvents).omit({ id: true, createdAt: true });
+export type InsertMarketplaceEvent = z.infer<typeof insertMarketplaceEventSchema>;
+export type MarketplaceEvent = typeof marketplaceEvents.$inferSelect;
+
+// Support ticket enums
+export const supportTicketCategories = ["account", "load", "invoice", "payment", "verification", "technical", "other"] as const;
+export type SupportTicketCategory = typeof supportTicketCategories[number];
+export const supportTicketPriorities = ["low", "normal", "high", "urgent"] as const;
+export type SupportTicketPriority = typeof supportTicketPriorities[number];
+export const supportTicketStatuses = ["open", "in_progress", "waiting_on_user", "resolved", "closed"] as const;
+export type SupportTicketStatus = typeof supportTicketStatuses[number];
+
+// Support Tickets table - help bot conversations escalated to the support team
+export const supportTickets = pgTable("support_tickets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketNumber: serial("ticket_number").notNull().unique(),
+  userId: varchar("user_id").notNull().references(() => users.id), // Requester
+  conversationId: integer("conversation_id").notNull().references(() => helpBotConversations.id),
+  subject: text("subject").notNull(),
+  category: text("category").notNull().default("other"), // supportTicketCategories
+  priority: text("priority").notNull().default("normal"), // supportTicketPriorities
+  status: text("status").notNull().default("open"), // supportTicketStatuses
+  source: text("source").notNull().default("user"), // user (escalate button) or bot (help bot escalated)
+  relatedLoadId: varchar("related_load_id").references(() => loads.id),
+  relatedInvoiceId: varchar("related_invoice_id").references(() => invoices.id),
+  assignedTo: varchar("assigned_to").references(() => users.id),
+  assignedAt: timestamp("assigned_at"),
+  // SLA timers, set from priority at creation
+  firstResponseDueAt: timestamp("first_response_due_at").notNull(),
+  resolutionDueAt: timestamp("resolution_due_at").notNull(),
+  firstRespondedAt: timestamp("first_responded_at"),
+  slaBreachedAt: timestamp("sla_breached_at"), // When either target was first missed
+  resolvedAt: timestamp("resolved_at"),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertSupportTicketSchema = createInsertSchema(supportTickets).omit({ id: true, ticketNumber: true, createdAt: true, updatedAt: true });
+export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
+export type SupportTicket = typeof supportTickets.$inferSelect;
+
+// Support Ticket Notes table - internal notes between admins, never shown to the requester
+export const supportTicketNotes = pgTable("support_ticket_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: varchar("ticket_id").notNull().references(() => supportTickets.id),
+  authorId: varchar("author_id").notNull().references(() => users.id),
+  note: text("note").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertSupportTicketNoteSchema = createInsertSchema(supportTicketNotes).omit({ id: true, createdAt: true });
+export type InsertSupportTicketNote = z.infer<typeof insertSupportTicketNoteSchema>;
+export type SupportTicketNote = typeof supportTicketNotes.$inferSelect;
+
+// Bid Auto-Award Settings table - single row; off until an admin turns it on
+export const bidAutoAwardSettings = pgTable("bid_auto_award_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  enabled: boolean("enabled").default(false),
+  // Award when landed cost is at most this % above the load's adminFinalPrice (negative = must leave margin)
+  bandPercent: decimal("band_percent", { precision: 5, scale: 2 }).default("0"),
+  minScore: integer("min_score").default(70), // Out of 100
+  updatedBy: varchar("updated_by").references(() => users.id), // Auto-awards are made and logged on this admin's behalf
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertBidAutoAwardSettingsSchema = createInsertSchema(bidAutoAwardSettings).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertBidAutoAwardSettings = z.infer<typeof insertBidAutoAwardSettingsSchema>;
+export type BidAutoAwardSettings = typeof bidAutoAwardSettings.$inferSelect;
+
+// Contract rate enums
+export const contractRateStatuses = ["draft", "active", "suspended", "expired"] as const;
+export type ContractRateStatus = typeof contractRateStatuses[number];
+export const contractCommitmentPeriods = ["weekly", "monthly", "contract"] as const;
+export type ContractCommitmentPeriod = typeof contractCommitmentPeriods[number];
+export const contractAssignmentStatuses = ["awarded", "declined", "fallback"] as const;
+export type ContractAssignmentStatus = typeof contractAssignmentStatuses[number];
+
+// Contract Rates table - lane rate card agreed with a shipper; matching loads skip pricing and bidding
+export const contractRates = pgTable("contract_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  shipperId: varchar("shipper_id").notNull().references(() => users.id),
+  pickupCity: text("pickup_city").notNull(),
+  dropoffCity: text("dropoff_city").notNull(),
+  truckType: text("truck_type"), // Null matches any truck type
+  shipperRate: decimal("shipper_rate", { precision: 12, scale: 2 }).notNull(), // Gross per load, invoiced to the shipper
+  validFrom: timestamp("valid_from").notNull(),
+  validUntil: timestamp("valid_until").notNull(),
+  committedLoads: integer("committed_loads").default(0), // Shipper's volume commitment per period
+  commitmentPeriod: text("commitment_period").default("monthly"), // contractCommitmentPeriods
+  status: text("status").default("active"), // contractRateStatuses
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertContractRateSchema = createInsertSchema(contractRates).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertContractRate = z.infer<typeof insertContractRateSchema>;
+export type ContractRate = typeof contractRates.$inferSelect;
+
+// Contract Rate Carriers table - carriers on a contract, offered loads in priority order
+export const contractRateCarriers = pgTable("contract_rate_carriers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull().references(() => contractRates.id),
+  carrierId: varchar("carrier_id").notNull().references(() => users.id),
+  carrierRate: decimal("carrier_rate", { precision: 12, scale: 2 }).notNull(), // Payout per load
+  priority: integer("priority").default(1), // 1 is offered first
+  maxLoadsPerPeriod: integer("max_loads_per_period"), // Carrier's capacity commitment; null = no cap
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertContractRateCarrierSchema = createInsertSchema(contractRateCarriers).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertContractRateCarrier = z.infer<typeof insertContractRateCarrierSchema>;
+export type ContractRateCarrier = typeof contractRateCarriers.$inferSelect;
+
+// Contract Load Assignments table - each contract award, decline and marketplace fallback for a load
+export const contractLoadAssignments = pgTable("contract_load_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contractId: varchar("contract_id").notNull().references(() => contractRates.id),
+  loadId: varchar("load_id").notNull().references(() => loads.id),
+  carrierId: varchar("carrier_id").references(() => users.id), // Null for a fallback
+  bidId: varchar("bid_id").references(() => bids.id),
+  carrierRate: decimal("carrier_rate", { precision: 12, scale: 2 }),
+  status: text("status").notNull().default("awarded"), // contractAssignmentStatuses
+  declineReason: text("decline_reason"),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertContractLoadAssignmentSchema = createInsertSchema(contractLoadAssignments).omit({ id: true, createdAt: true });
+export type InsertContractLoadAssignment = z.infer<typeof insertContractLoadAssignmentSchema>;
+export type ContractLoadAssignment = typeof contractLoadAssignments.$inferSelect;
+
+// Load schedule enums
+export const loadScheduleFrequencies = ["daily", "weekly", "monthly"] as const;
+export type LoadScheduleFrequency = typeof loadScheduleFrequencies[number];
+export const loadScheduleOccurrenceStatuses = ["skipped", "edited", "created", "failed"] as const;
+export type LoadScheduleOccurrenceStatus = typeof loadScheduleOccurrenceStatuses[number];
+
+// Load Schedules table - repeats a template load (loads.isTemplate) on a daily/weekly/monthly rule
+export const loadSchedules = pgTable("load_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shipperId: varchar("shipper_id").notNull().references(() => users.id),
+  templateLoadId: varchar("template_load_id").notNull().references(() => loads.id),
+  name: text("name").notNull(),
+  frequency: text("frequency").notNull().default("weekly"), // loadScheduleFrequencies
+  weekdays: integer("weekdays").array(), // Weekly: 0 = Sunday ... 6 = Saturday
+  dayOfMonth: integer("day_of_month"), // Monthly: 1-31, last day of shorter months
+  pickupOffsetDays: integer("pickup_offset_days").default(0), // Pickup this many days after the occurrence date
+  deliveryOffsetDays: integer("delivery_offset_days"), // Null = no delivery date
+  pickupTime: text("pickup_time").default("09:00"), // HH:mm, local
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  isActive: boolean("is_active").default(true),
+  lastOccurrenceDate: timestamp("last_occurrence_date"), // Latest occurrence the scheduler has handled
+  createdCount: integer("created_count").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertLoadScheduleSchema = createInsertSchema(loadSchedules).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertLoadSchedule = z.infer<typeof insertLoadScheduleSchema>;
+export type LoadSchedule = typeof loadSchedules.$inferSelect;
+
+// Load Schedule Occurrences table - skips and edits ahead of time, and the load each occurrence created
+export const loadScheduleOccurrences = pgTable("load_schedule_occurrences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduleId: varchar("schedule_id").notNull().references(() => loadSchedules.id),
+  occurrenceDate: timestamp("occurrence_date").notNull(), // Local midnight of the occurrence day
+  status: text("status").notNull(), // loadScheduleOccurrenceStatuses
+  overrides: jsonb("overrides"), // Load fields replacing the template's for this occurrence
+  loadId: varchar("load_id").references(() => loads.id),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertLoadScheduleOccurrenceSchema = createInsertSchema(loadScheduleOccurrences).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertLoadScheduleOccurrence = z.infer<typeof insertLoadScheduleOccurrenceSchema>;
+export type LoadScheduleOccurrence = typeof loadScheduleOccurrences.$inferSelect;
+
+// Load stop enums
+export const loadStopTypes = ["pickup", "drop"] as const;
+export type LoadStopType = typeof loadStopTypes[number];
+export const loadStopStatuses = ["pending", "completed"] as const;
+export type LoadStopStatus = typeof loadStopStatuses[number];
+
+// Load Stops table - ordered pickups and drops of a multi-stop (milk-run) load.
+// The first stop mirrors the load's pickup and the last its dropoff; stops in
+// between are completed with a stop_complete OTP during the trip.
+export const loadStops = pgTable("load_stops", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  loadId: varchar("load_id").notNull().references(() => loads.id),
+  sequence: integer("sequence").notNull(), // 1-based visiting order
+  stopType: text("stop_type").notNull(), // loadStopTypes
+  businessName: text("business_name"),
+  address: text("address"),
+  city: text("city").notNull(),
+  state: text("state"),
+  pincode: text("pincode"),
+  lat: decimal("lat", { precision: 10, scale: 7 }),
+  lng: decimal("lng", { precision: 10, scale: 7 }),
+  contactName: text("contact_name"),
+  contactPhone: text("contact_phone"),
+  windowStart: timestamp("window_start"),
+  windowEnd: timestamp("window_end"),
+  weight: decimal("weight", { precision: 10, scale: 2 }), // Tons loaded or unloaded here
+  notes: text("notes"),
+  legDistanceKm: decimal("leg_distance_km", { precision: 10, scale: 2 }), // Road distance from the previous stop
+  status: text("status").default("pending"), // loadStopStatuses
+  podDocumentId: varchar("pod_document_id").references(() => documents.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertLoadStopSchema = createInsertSchema(loadStops).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertLoadStop = z.infer<typeof insertLoadStopSchema>;
+export type LoadStop = typeof loadStops.$inferSelect;
+
+// Load consolidation enums
+export const loadConsolidationStatuses = ["open", "awarded", "cancelled"] as const;
+export type LoadConsolidationStatus = typeof loadConsolidationStatuses[number];
+export const loadConsolidationSources = ["manual", "auto"] as const;
+export type LoadConsolidationSource = typeof loadConsolidationSources[number];
+
+// Load Consolidations table - PTL loads on the same lane and pickup day sharing one truck.
+// Each member load keeps its own shipment and invoice; prices are its share of the trip.
+export const loadConsolidations = pgTable("load_consolidations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  pickupCity: text("pickup_city").notNull(),
+  dropoffCity: text("dropoff_city").notNull(),
+  pickupDate: timestamp("pickup_date").notNull(), // Local midnight of the shared pickup day
+  truckType: text("truck_type"),
+  capacityTons: decimal("capacity_tons", { precision: 10, scale: 2 }).notNull(), // Truck capacity the members are packed against
+  totalWeight: decimal("total_weight", { precision: 10, scale: 2 }).default("0"),
+  shipperPrice: decimal("shipper_price", { precision: 12, scale: 2 }), // Trip gross, split across the shippers' invoices
+  carrierPayout: decimal("carrier_payout", { precision: 12, scale: 2 }), // Trip payout, split across the member bids
+  status: text("status").notNull().default("open"), // loadConsolidationStatuses
+  source: text("source").notNull().default("manual"), // loadConsolidationSources
+  carrierId: varchar("carrier_id").references(() => users.id),
+  truckId: varchar("truck_id").references(() => trucks.id),
+  awardedAt: timestamp("awarded_at"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id), // Null when the matcher grouped it
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertLoadConsolidationSchema = createInsertSchema(loadConsolidations).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertLoadConsolidation = z.infer<typeof insertLoadConsolidationSchema>;
+export type LoadConsolidation = typeof loadConsolidations.$inferSelect;
+
+// Load Consolidation Members table - a load's place in a consolidation and its share of the price
+export const loadConsolidationMembers = pgTable("load_consolidation_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  consolidationId: varchar("consolidation_id").notNull().references(() => loadConsolidations.id),
+  loadId: varchar("load_id").notNull().references(() => loads.id),
+  weightTons: decimal("weight_tons", { precision: 10, scale: 2 }).notNull(),
+  distanceKm: decimal("distance_km", { precision: 10, scale: 2 }),
+  shareRatio: decimal("share_ratio", { precision: 8, scale: 6 }), // weight x distance over the trip total
+  shipperShare: decimal("shipper_share", { precision: 12, scale: 2 }),
+  carrierShare: decimal("carrier_share", { precision: 12, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertLoadConsolidationMemberSchema = createInsertSchema(loadConsolidationMembers).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertLoadConsolidationMember = z.infer<typeof insertLoadConsolidationMemberSchema>;
+export type LoadConsolidationMember = typeof loadConsolidationMembers.$inferSelect;
+
+// GPS device enums
+export const gpsDeviceTypes = ["ais140", "mobile_app"] as const;
+export type GpsDeviceType = typeof gpsDeviceTypes[number];
+
+// GPS Devices table - trackers and phones allowed to report positions for a truck.
+// Devices authenticate with an API key; only its SHA-256 hash is stored.
+export const gpsDevices = pgTable("gps_devices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  truckId: varchar("truck_id").notNull().references(() => trucks.id),
+  carrierId: varchar("carrier_id").notNull().references(() => users.id),
+  deviceType: text("device_type").notNull(), // gpsDeviceTypes
+  deviceIdentifier: text("device_identifier").notNull(), // IMEI for AIS-140 units, install id for the app
+  label: text("label"),
+  apiKeyHash: text("api_key_hash").notNull(),
+  apiKeyPrefix: text("api_key_prefix").notNull(), // First characters of the key, to tell keys apart in the UI
+  isActive: boolean("is_active").default(true),
+  lastSeenAt: timestamp("last_seen_at"),
+  lastFixAt: timestamp("last_fix_at"), // Newest GPS fix received, history packets included
+  lastLat: decimal("last_lat", { precision: 10, scale: 7 }),
+  lastLng: decimal("last_lng", { precision: 10, scale: 7 }),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertGpsDeviceSchema = createInsertSchema(gpsDevices).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertGpsDevice = z.infer<typeof insertGpsDeviceSchema>;
+export type GpsDevice = typeof gpsDevices.$inferSelect;
+
+// Geofence enums
+export const geofenceTypes = ["pickup", "dropoff", "stop", "checkpoint"] as const;
+export type GeofenceType = typeof geofenceTypes[number];
+
+// Geofences table - circles around a load's sites. Pickup, dropoff and stop fences
+// are created from the load's coordinates; checkpoints are added by hand.
+// The presence columns track the load's truck and are updated from telemetry.
+export const geofences = pgTable("geofences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  loadId: varchar("load_id").notNull().references(() => loads.id),
+  stopId: varchar("stop_id").references(() => loadStops.id), // For stop fences on multi-stop loads
+  geofenceType: text("geofence_type").notNull(), // geofenceTypes
+  name: text("name").notNull(),
+  lat: decimal("lat", { precision: 10, scale: 7 }).notNull(),
+  lng: decimal("lng", { precision: 10, scale: 7 }).notNull(),
+  radiusMeters: integer("radius_meters").notNull().default(500),
+  isInside: boolean("is_inside").default(false),
+  enteredAt: timestamp("entered_at"), // GPS fix time of the latest entry
+  exitedAt: timestamp("exited_at"),
+  lastPointAt: timestamp("last_point_at"), // Newest fix evaluated; older late points are ignored
+  createdBy: varchar("created_by").references(() => users.id), // Null for fences made from the load
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertGeofenceSchema = createInsertSchema(geofences).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertGeofence = z.infer<typeof insertGeofenceSchema>;
+export type Geofence = typeof geofences.$inferSelect;
+
+// ETA time-of-day bands (IST)
+export const etaTimeBands = ["night", "morning", "afternoon", "evening"] as const;
+export type EtaTimeBand = typeof etaTimeBands[number];
+
+// ETA speed profiles - average trip speed learned from delivered shipments' breadcrumbs,
+// per lane (pickup state to dropoff state), time-of-day band and truck type. "*" rows
+// pool every lane or truck type. Rebuilt in full by the train_eta_model job.
+export const etaSpeedProfiles = pgTable("eta_speed_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  lane: text("lane").notNull(), // "Maharashtra>Gujarat", or "*"
+  timeBand: text("time_band").notNull(), // etaTimeBands
+  truckType: text("truck_type").notNull(), // Truck type value, or "*"
+  sampleCount: integer("sample_count").notNull(), // Trip-hours observed
+  tripCount: integer("trip_count").notNull(),
+  meanSpeedKmh: decimal("mean_speed_kmh", { precision: 6, scale: 2 }).notNull(),
+  stddevSpeedKmh: decimal("stddev_speed_kmh", { precision: 6, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertEtaSpeedProfileSchema = createInsertSchema(etaSpeedProfiles).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertEtaSpeedProfile = z.infer<typeof insertEtaSpeedProfileSchema>;
+export type EtaSpeedProfile = typeof etaSpeedProfiles.$inferSelect;
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateGst,
+  calculateEwayBillValidity,
+  determineSupplyType,
+  formatGstState,
+  getEwayBillTransitError,
+  getEwayBillValidityDays,
+  isEwayBillRequired,
+  resolveGstStateCode,
+} from "./tax";
+
+describe("resolveGstStateCode", () => {
+  it("accepts state codes, names and GST codes", () => {
+    expect(resolveGstStateCode("MH")).toBe("27");
+    expect(resolveGstStateCode("maharashtra")).toBe("27");
+    expect(resolveGstStateCode("27")).toBe("27");
+    expect(resolveGstStateCode("99")).toBeNull();
+    expect(resolveGstStateCode("")).toBeNull();
+  });
+
+  it("prints the state with its code", () => {
+    expect(formatGstState("07")).toBe("Delhi (07)");
+  });
+});
+
+describe("determineSupplyType", () => {
+  it("uses the shipper's GSTIN state as place of supply", () => {
+    const result = determineSupplyType({ pickupState: "MH", dropoffState: "KA", shipperGstin: "27AAPFU0939F1ZV" });
+    expect(result.supplyType).toBe("intra_state");
+    expect(result.placeOfSupplyStateCode).toBe("27");
+  });
+
+  it("falls back to the dropoff state, and to inter-state when unresolved", () => {
+    expect(determineSupplyType({ pickupState: "MH", dropoffState: "Karnataka" }).supplyType).toBe("inter_state");
+    expect(determineSupplyType({ pickupState: "MH", dropoffState: "MH" }).supplyType).toBe("intra_state");
+    expect(determineSupplyType({ pickupState: "MH", dropoffState: "Atlantis" }).supplyType).toBe("inter_state");
+  });
+});
+
+describe("calculateGst", () => {
+  it("splits intra-state GST into equal CGST and SGST", () => {
+    const result = calculateGst({ taxableAmount: 1000.55, gstPercent: 18, pickupState: "MH", dropoffState: "MH" });
+    expect(result.cgstAmount).toBe(90.05);
+    expect(result.sgstAmount).toBe(90.05);
+    expect(result.igstAmount).toBe(0);
+    expect(result.totalAmount).toBe(1180.65);
+  });
+
+  it("charges IGST on inter-state supply", () => {
+    const result = calculateGst({ taxableAmount: 10000, gstPercent: 12, pickupState: "MH", dropoffState: "GJ" });
+    expect(result.igstAmount).toBe(1200);
+    expect(result.cgstAmount + result.sgstAmount).toBe(0);
+    expect(result.totalAmount).toBe(11200);
+  });
+
+  it("charges nothing when GST does not apply", () => {
+    const result = calculateGst({ taxableAmount: 5000, gstPercent: 18, gstApplicable: false });
+    expect(result.totalTax).toBe(0);
+    expect(result.totalAmount).toBe(5000);
+  });
+});
+
+describe("e-way bills", () => {
+  it("are required above Rs. 50,000", () => {
+    expect(isEwayBillRequired("50,000")).toBe(false);
+    expect(isEwayBillRequired("50,001")).toBe(true);
+    expect(isEwayBillRequired(null)).toBe(false);
+  });
+
+  it("get a day per 200 km or part of it", () => {
+    expect(getEwayBillValidityDays(0)).toBe(1);
+    expect(getEwayBillValidityDays(200)).toBe(1);
+    expect(getEwayBillValidityDays(201)).toBe(2);
+  });
+
+  it("expire at midnight IST after the last validity day", () => {
+    // 10:00 IST on 19 Oct, 350 km = 2 days, so valid until the end of 21 Oct IST
+    const { validUntil, validityDays } = calculateEwayBillValidity(350, new Date("2026-10-19T04:30:00Z"));
+    expect(validityDays).toBe(2);
+    expect(validUntil.toISOString()).toBe("2026-10-21T18:29:59.999Z");
+  });
+
+  it("count a bill generated after midnight IST from that IST day", () => {
+    // 01:00 IST on 20 Oct is still 19 Oct in UTC
+    const { validUntil } = calculateEwayBillValidity(100, new Date("2026-10-19T19:30:00Z"));
+    expect(validUntil.toISOString()).toBe("2026-10-21T18:29:59.999Z");
+  });
+
+  it("block transit without a number or once expired", () => {
+    const load = { goodsValue: "75000", ewayBillRequired: false, ewayBillNumber: null, ewayBillValidUntil: null };
+    expect(getEwayBillTransitError(load)).toMatch(/E-way bill number is required/);
+    const expired = { ...load, ewayBillNumber: "EWB1", ewayBillValidUntil: new Date("2026-10-01T00:00:00Z") };
+    expect(getEwayBillTransitError(expired, new Date("2026-10-02T00:00:00Z"))).toMatch(/expired/);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Shared GST Calculator
+ *
+ * Decides whether a freight invoice is an intra-state supply (CGST + SGST)
+ * or an inter-state supply (IGST) and computes each component using integer
+ * arithmetic (paise for amounts, basis points for rates), same as pricing.ts.
+ *
+ * Supply originates in the pickup state (where goods are handed over).
+ * Place of supply is the shipper's GSTIN state when registered, otherwise
+ * the dropoff state.
+ *
+ * Invariant: totalAmount = taxableAmount + cgstAmount + sgstAmount + igstAmount
+ */
+
+import type { Load } from "./schema";
+
+export type GstSupplyType = "intra_state" | "inter_state";
+
+export interface GstCalculationInput {
+  taxableAmount: number;          // Subtotal after discount (in rupees)
+  gstPercent: number;             // Combined GST rate, e.g. 18
+  pickupState?: string | null;    // State code ("MH") or name ("Maharashtra")
+  dropoffState?: string | null;
+  shipperGstin?: string | null;
+  gstApplicable?: boolean;
+}
+
+export interface GstCalculationResult {
+  supplyType: GstSupplyType;
+  originStateCode: string | null;   // 2-digit GST state code
+  placeOfSupplyStateCode: string | null;
+  gstPercent: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+  totalAmount: number;
+}
+
+// SAC 996511 - Road transport services of goods
+export const GTA_SAC_CODE = "996511";
+
+// GST state codes (first two digits of a GSTIN) keyed by the codes in indian-locations.ts
+export const GST_STATE_CODES: Record<string, string> = {
+  JK: "01", HP: "02", PB: "03", CH: "04", UK: "05", HR: "06", DL: "07", RJ: "08",
+  UP: "09", BR: "10", SK: "11", AR: "12", NL: "13", MN: "14", MZ: "15", TR: "16",
+  ML: "17", AS: "18", WB: "19", JH: "20", OD: "21", CG: "22", MP: "23", GJ: "24",
+  DD: "26", MH: "27", KA: "29", GA: "30", LD: "31", KL: "32", TN: "33", PY: "34",
+  AN: "35", TS: "36", AP: "37", LA: "38",
+};
+
+const STATE_NAME_TO_CODE: Record<string, string> = {
+  "andaman and nicobar islands": "AN",
+  "andhra pradesh": "AP",
+  "arunachal pradesh": "AR",
+  "assam": "AS",
+  "bihar": "BR",
+  "chhattisgarh": "CG",
+  "chandigarh": "CH",
+  "dadra and nagar haveli and daman and diu": "DD",
+  "delhi": "DL",
+  "goa": "GA",
+  "gujarat": "GJ",
+  "haryana": "HR",
+  "himachal pradesh": "HP",
+  "jammu and kashmir": "JK",
+  "jharkhand": "JH",
+  "karnataka": "KA",
+  "kerala": "KL",
+  "ladakh": "LA",
+  "lakshadweep": "LD",
+  "madhya pradesh": "MP",
+  "maharashtra": "MH",
+  "manipur": "MN",
+  "meghalaya": "ML",
+  "mizoram": "MZ",
+  "nagaland": "NL",
+  "odisha": "OD",
+  "puducherry": "PY",
+  "punjab": "PB",
+  "rajasthan": "RJ",
+  "sikkim": "SK",
+  "tamil nadu": "TN",
+  "telangana": "TS",
+  "tripura": "TR",
+  "uttarakhand": "UK",
+  "uttar pradesh": "UP",
+  "west bengal": "WB",
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/**
+ * Check the structure of a 15-character GSTIN
+ */
+export function isValidGstin(gstin: string | null | undefined): boolean {
+  if (!gstin) return false;
+  return GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+/**
+ * Extract the 2-digit GST state code from a GSTIN
+ */
+export function getGstinStateCode(gstin: string | null | undefined): string | null {
+  if (!isValidGstin(gstin)) return null;
+  const code = gstin!.trim().slice(0, 2);
+  return Object.values(GST_STATE_CODES).includes(code) ? code : null;
+}
+
+/**
+ * Resolve a state code ("MH"), state name ("Maharashtra") or GST code ("27")
+ * to the 2-digit GST state code
+ */
+export function resolveGstStateCode(state: string | null | undefined): string | null {
+  if (!state) return null;
+  const value = state.trim();
+  if (!value) return null;
+
+  if (/^[0-9]{2}$/.test(value)) {
+    return Object.values(GST_STATE_CODES).includes(value) ? value : null;
+  }
+
+  const upper = value.toUpperCase();
+  if (GST_STATE_CODES[upper]) return GST_STATE_CODES[upper];
+
+  const code = STATE_NAME_TO_CODE[value.toLowerCase()];
+  return code ? GST_STATE_CODES[code] : null;
+}
+
+/**
+ * Resolve a state code, state name or GST code to the 2-letter code used in
+ * indian-locations.ts ("Maharashtra" / "27" / "mh" -> "MH")
+ */
+export function resolveStateAbbreviation(state: string | null | undefined): string | null {
+  const gstCode = resolveGstStateCode(state);
+  if (!gstCode) return null;
+  return Object.keys(GST_STATE_CODES).find(code => GST_STATE_CODES[code] === gstCode) || null;
+}
+
+/**
+ * Printable state for a 2-digit GST state code ("27" -> "Maharashtra (27)")
+ */
+export function formatGstState(gstCode: string | null | undefined): string | null {
+  if (!gstCode) return null;
+  const abbreviation = Object.keys(GST_STATE_CODES).find(code => GST_STATE_CODES[code] === gstCode);
+  const name = Object.keys(STATE_NAME_TO_CODE).find(stateName => STATE_NAME_TO_CODE[stateName] === abbreviation);
+  if (!name) return gstCode;
+  const titled = name.split(" ").map(word => (word === "and" ? word : word[0].toUpperCase() + word.slice(1))).join(" ");
+  return `${titled} (${gstCode})`;
+}
+
+/**
+ * Decide intra-state vs inter-state supply for a load
+ *
+ * Falls back to inter-state when either side cannot be resolved, since
+ * IGST is fully creditable to the recipient either way.
+ */
+export function determineSupplyType(input: {
+  pickupState?: string | null;
+  dropoffState?: string | null;
+  shipperGstin?: string | null;
+}): { supplyType: GstSupplyType; originStateCode: string | null; placeOfSupplyStateCode: string | null } {
+  const originStateCode = resolveGstStateCode(input.pickupState);
+  const placeOfSupplyStateCode = getGstinStateCode(input.shipperGstin) ?? resolveGstStateCode(input.dropoffState);
+
+  const supplyType: GstSupplyType =
+    originStateCode && placeOfSupplyStateCode && originStateCode === placeOfSupplyStateCode
+      ? "intra_state"
+      : "inter_state";
+
+  return { supplyType, originStateCode, placeOfSupplyStateCode };
+}
+
+/**
+ * Calculate the GST split for a taxable amount
+ *
+ * @param input - taxable amount, GST rate and the load's states / shipper GSTIN
+ * @returns CGST/SGST (intra-state) or IGST (inter-state) with the invoice total
+ */
+export function calculateGst(input: GstCalculationInput): GstCalculationResult {
+  const { supplyType, originStateCode, placeOfSupplyStateCode } = determineSupplyType(input);
+
+  const taxablePaise = Math.max(0, Math.round(input.taxableAmount * 100));
+  const gstPercent = input.gstApplicable === false ? 0 : Math.max(0, input.gstPercent || 0);
+  const rateBasisPoints = Math.round(gstPercent * 100); // 18% = 1800 basis points
+
+  let cgstPaise = 0;
+  let sgstPaise = 0;
+  let igstPaise = 0;
+
+  if (supplyType === "intra_state") {
+    // CGST and SGST are each half the rate, rounded independently as printed on the invoice
+    cgstPaise = Math.round((taxablePaise * rateBasisPoints) / 20000);
+    sgstPaise = cgstPaise;
+  } else {
+    igstPaise = Math.round((taxablePaise * rateBasisPoints) / 10000);
+  }
+
+  const totalTaxPaise = cgstPaise + sgstPaise + igstPaise;
+
+  return {
+    supplyType,
+    originStateCode,
+    placeOfSupplyStateCode,
+    gstPercent,
+    taxableAmount: taxablePaise / 100,
+    cgstAmount: cgstPaise / 100,
+    sgstAmount: sgstPaise / 100,
+    igstAmount: igstPaise / 100,
+    totalTax: totalTaxPaise / 100,
+    totalAmount: (taxablePaise + totalTaxPaise) / 100,
+  };
+}
+
+// ============================================================================
+// E-WAY BILL RULES
+// ============================================================================
+
+// E-way bill is mandatory when consignment value exceeds Rs. 50,000
+export const EWAY_BILL_THRESHOLD = 50000;
+
+// Validity for regular cargo: 1 day per 200 km (or part thereof)
+export const EWAY_BILL_KM_PER_DAY = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// IST is UTC+5:30 with no daylight saving
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+/**
+ * Whether a consignment of the given value needs an e-way bill
+ */
+export function isEwayBillRequired(goodsValue: string | number | null | undefined): boolean {
+  if (goodsValue === null || goodsValue === undefined || goodsValue === "") return false;
+  const value = typeof goodsValue === "number" ? goodsValue : parseFloat(String(goodsValue).replace(/,/g, ""));
+  return !isNaN(value) && value > EWAY_BILL_THRESHOLD;
+}
+
+/**
+ * Number of validity days for a trip distance
+ */
+export function getEwayBillValidityDays(distanceKm: number): number {
+  if (!distanceKm || distanceKm <= 0) return 1;
+  return Math.max(1, Math.ceil(distanceKm / EWAY_BILL_KM_PER_DAY));
+}
+
+/**
+ * Compute e-way bill validity window
+ *
+ * Each validity day runs until midnight IST, so the bill expires at the end
+ * of the last day counted from the generation date.
+ */
+export function calculateEwayBillValidity(
+  distanceKm: number,
+  validFrom: Date = new Date()
+): { validFrom: Date; validUntil: Date; validityDays: number } {
+  const validityDays = getEwayBillValidityDays(distanceKm);
+  // Days are IST calendar days whatever the server's zone: the bill ends the
+  // millisecond before IST midnight after the last validity day
+  const istDay = Math.floor((validFrom.getTime() + IST_OFFSET_MS) / DAY_MS);
+  const validUntil = new Date((istDay + validityDays + 1) * DAY_MS - IST_OFFSET_MS - 1);
+  return { validFrom, validUntil, validityDays };
+}
+
+type EwayBillLoadFields = Pick<Load, "goodsValue" | "ewayBillRequired" | "ewayBillNumber" | "ewayBillValidUntil">;
+
+/**
+ * Whether a load must carry an e-way bill before moving
+ */
+export function loadRequiresEwayBill(load: EwayBillLoadFields): boolean {
+  return !!load.ewayBillRequired || isEwayBillRequired(load.goodsValue);
+}
+
+/**
+ * Returns why a load cannot go in transit for want of a valid e-way bill, or null
+ */
+export function getEwayBillTransitError(load: EwayBillLoadFields, at: Date = new Date()): string | null {
+  if (!loadRequiresEwayBill(load)) return null;
+  if (!load.ewayBillNumber) {
+    return `E-way bill number is required before this load can go in transit (goods value exceeds Rs. ${EWAY_BILL_THRESHOLD.toLocaleString("en-IN")})`;
+  }
+  if (load.ewayBillValidUntil && new Date(load.ewayBillValidUntil) < at) {
+    return `E-way bill ${load.ewayBillNumber} has expired`;
+  }
+  return null;
+}